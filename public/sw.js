@@ -0,0 +1,83 @@
+/**
+ * Smart Mandi Connect Service Worker
+ * ==================================
+ * Wraps the Angular service worker (precaching and app updates) with:
+ * - Stale-while-revalidate caching for marketplace images
+ * - Cache-first map tiles, so delivery tracking works offline in visited areas
+ *
+ * Requests queued while offline are replayed by RequestQueueService in the
+ * page, with the current session, when the app is next open and online.
+ */
+
+const IMAGE_CACHE = 'smc-images-v1';
+const IMAGE_CACHE_MAX_ENTRIES = 200;
+
+const TILE_CACHE = 'smc-map-tiles-v1';
+const TILE_CACHE_MAX_ENTRIES = 1000;
+// Slippy-map tile paths ({z}/{x}/{y}.png) of whichever tile server is configured
+const TILE_PATH = /\/\d+\/\d+\/\d+(@2x)?\.(png|jpe?g|webp)$/;
+
+// ============================================
+// Image & Map Tile Caching
+// ============================================
+
+// Registered before the Angular worker so it sees image requests first
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || request.destination !== 'image') return;
+
+  // Same-origin assets are versioned by the Angular worker
+  const url = new URL(request.url);
+  if (url.origin === self.location.origin) return;
+
+  event.stopImmediatePropagation();
+  event.respondWith(TILE_PATH.test(url.pathname) ? cacheFirst(event) : staleWhileRevalidate(event));
+});
+
+async function staleWhileRevalidate(event) {
+  const cache = await caches.open(IMAGE_CACHE);
+  const cached = await cache.match(event.request);
+
+  const network = fetch(event.request)
+    .then(async (response) => {
+      if (response.ok || response.type === 'opaque') {
+        await cache.put(event.request, response.clone());
+        await trimCache(cache);
+      }
+      return response;
+    })
+    .catch(() => cached);
+
+  if (cached) {
+    event.waitUntil(network);
+    return cached;
+  }
+  return network.then((response) => response || Response.error());
+}
+
+// Map tiles rarely change; serve them from the cache without revalidating
+async function cacheFirst(event) {
+  const cache = await caches.open(TILE_CACHE);
+  const cached = await cache.match(event.request);
+  if (cached) return cached;
+
+  try {
+    const response = await fetch(event.request);
+    // Only CORS tiles: opaque responses take megabytes of quota each
+    if (response.ok) {
+      await cache.put(event.request, response.clone());
+      event.waitUntil(trimCache(cache, TILE_CACHE_MAX_ENTRIES));
+    }
+    return response;
+  } catch (error) {
+    return Response.error();
+  }
+}
+
+async function trimCache(cache, maxEntries = IMAGE_CACHE_MAX_ENTRIES) {
+  const keys = await cache.keys();
+  const excess = keys.slice(0, Math.max(0, keys.length - maxEntries));
+  await Promise.all(excess.map((key) => cache.delete(key)));
+}
+
+importScripts('./ngsw-worker.js');
@@ -1,6 +1,9 @@
 import { Component, ChangeDetectionStrategy, inject } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
 import { LoadingService } from '@core/services/loading.service';
+import { PwaService } from '@core/services/pwa.service';
+import { PriceAlertService } from '@features/notifications/services/price-alert.service';
+import { SavedSearchService } from '@features/marketplace/services/saved-search.service';
 import { LoadingBarComponent } from '@shared/components/loading-bar/loading-bar.component';
 import { SkipLinkComponent } from '@shared/components/skip-link/skip-link.component';
 
@@ -13,6 +16,9 @@ import { SkipLinkComponent } from '@shared/components/skip-link/skip-link.compon
  * Accessibility features:
  * - Skip link for keyboard navigation
  * - Loading bar with ARIA announcements
+ *
+ * Also starts the PWA update prompts, price alert evaluation and saved
+ * search alerts.
  */
 @Component({
   selector: 'smc-root',
@@ -24,6 +30,9 @@ import { SkipLinkComponent } from '@shared/components/skip-link/skip-link.compon
 })
 export class AppComponent {
   private readonly loadingService = inject(LoadingService);
+  private readonly pwaService = inject(PwaService);
+  private readonly priceAlertService = inject(PriceAlertService);
+  private readonly savedSearchService = inject(SavedSearchService);
 
   /** Global loading state signal */
   readonly isLoading = this.loadingService.isLoading;
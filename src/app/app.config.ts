@@ -21,6 +21,7 @@ import {
   withFetch,
 } from '@angular/common/http';
 import { provideAnimationsAsync } from '@angular/platform-browser/animations/async';
+import { provideServiceWorker } from '@angular/service-worker';
 import { MAT_SNACK_BAR_DEFAULT_OPTIONS } from '@angular/material/snack-bar';
 import { MAT_FORM_FIELD_DEFAULT_OPTIONS } from '@angular/material/form-field';
 import { MAT_RIPPLE_GLOBAL_OPTIONS } from '@angular/material/core';
@@ -29,18 +30,26 @@ import { routes } from './app.routes';
 import { authInterceptor } from '@core/interceptors/auth.interceptor';
 import { errorInterceptor } from '@core/interceptors/error.interceptor';
 import { loadingInterceptor } from '@core/interceptors/loading.interceptor';
+import { offlineInterceptor } from '@core/interceptors/offline.interceptor';
 import { GlobalErrorHandler } from '@core/handlers/global-error.handler';
 import { AuthService } from '@core/services/auth.service';
+import { TranslationService } from '@core/services/translation.service';
+import { ThemeService } from '@core/services/theme.service';
 import { environment } from '@environments/environment';
 
 /**
  * Application Initializer
  * =======================
  * Runs before the application starts.
- * Checks for existing auth session and validates tokens.
+ * Checks for existing auth session and validates tokens,
+ * and loads the user's language and display settings so the first
+ * render is translated and themed.
  */
 function initializeApp(): () => Promise<void> {
   const authService = inject(AuthService);
+  const translationService = inject(TranslationService);
+  // Applies the cached theme and compact view before the first render
+  inject(ThemeService);
 
   return async () => {
     // Log environment info in dev mode
@@ -56,6 +65,8 @@ function initializeApp(): () => Promise<void> {
       console.log(`%cAPI: ${environment.apiUrl}`, 'color: #64748b;');
     }
 
+    await translationService.restoreLanguage();
+
     // Attempt to restore session from storage
     try {
       const token = authService.getAccessToken();
@@ -86,6 +97,7 @@ function initializeApp(): () => Promise<void> {
  * - HTTP interceptors pipeline
  * - Global error handling
  * - Angular Material theming
+ * - Installable PWA with service worker
  * - Environment-based configuration
  */
 export const appConfig: ApplicationConfig = {
@@ -139,10 +151,19 @@ export const appConfig: ApplicationConfig = {
     provideHttpClient(
       // Use modern Fetch API instead of XMLHttpRequest
       withFetch(),
-      // Interceptors execute in order: auth -> loading -> error
-      withInterceptors([authInterceptor, loadingInterceptor, errorInterceptor])
+      // Interceptors execute in order: auth -> loading -> error -> offline
+      withInterceptors([authInterceptor, loadingInterceptor, errorInterceptor, offlineInterceptor])
     ),
 
+    // ============================================
+    // Service Worker (installable PWA, offline shell)
+    // ============================================
+    provideServiceWorker('sw.js', {
+      enabled: environment.features.enablePWA && !isDevMode(),
+      // Register once the app is stable, or after 30s at the latest
+      registrationStrategy: 'registerWhenStable:30000',
+    }),
+
     // ============================================
     // Animations
     // ============================================
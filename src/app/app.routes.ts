@@ -5,6 +5,7 @@ import {
   guestGuard,
   roleGuard,
   farmerGuard,
+  buyerGuard,
   adminGuard,
 } from '@core/guards';
 import { UserRole } from '@domain/models/user.model';
@@ -20,6 +21,7 @@ import { UserRole } from '@domain/models/user.model';
  * - guestGuard: Only for unauthenticated users
  * - roleGuard: Role-based access via route data
  * - farmerGuard: FARMER or ADMIN only
+ * - buyerGuard: BUYER or ADMIN only
  * - adminGuard: ADMIN only
  *
  * URL Structure:
@@ -27,6 +29,7 @@ import { UserRole } from '@domain/models/user.model';
  * - /dashboard       → Role-specific dashboard
  * - /marketplace/*   → Browse & search products
  * - /products/*      → Product management (farmers)
+ * - /cart/*          → Shopping cart & checkout (buyers)
  * - /orders/*        → Order management
  * - /profile/*       → User profile & settings
  * - /admin/*         → Admin panel (admin only)
@@ -98,6 +101,16 @@ export const routes: Routes = [
       ),
   },
 
+  // ============================================
+  // Cart & Checkout (BUYER & ADMIN)
+  // ============================================
+  {
+    path: 'cart',
+    canActivate: [authGuard, buyerGuard],
+    loadChildren: () =>
+      import('@features/cart/cart.routes').then((m) => m.CART_ROUTES),
+  },
+
   // ============================================
   // Order Management (All Authenticated Users)
   // ============================================
@@ -134,11 +147,10 @@ export const routes: Routes = [
   {
     path: 'notifications',
     canActivate: [authGuard],
-    loadComponent: () =>
-      import(
-        '@features/notifications/pages/notifications/notifications.component'
-      ).then((m) => m.NotificationsComponent),
-    title: 'Notifications | Smart Mandi Connect',
+    loadChildren: () =>
+      import('@features/notifications/notifications.routes').then(
+        (m) => m.NOTIFICATIONS_ROUTES
+      ),
   },
 
   // ============================================
@@ -19,4 +19,7 @@ export {
   adminGuard,
   farmerOrBuyerGuard,
   createRoleGuard,
-} from './role.guard';
\ No newline at end of file
+} from './role.guard';
+
+// Permission-based Guards
+export { permissionGuard, permissionGuardMatch, createPermissionGuard } from './permission.guard';
@@ -0,0 +1,76 @@
+import { inject } from '@angular/core';
+import {
+  Router,
+  CanActivateFn,
+  CanMatchFn,
+  ActivatedRouteSnapshot,
+  UrlTree,
+} from '@angular/router';
+import { AuthService } from '@core/services/auth.service';
+import { PermissionService } from '@core/services/permission.service';
+import { Permission } from '@domain/models/permission.model';
+
+/**
+ * Permission Guard
+ * ================
+ * Protects routes by admin permission rather than role. The user needs
+ * every permission listed in route data.
+ *
+ * Usage:
+ * ```typescript
+ * {
+ *   path: 'disputes',
+ *   canActivate: [permissionGuard],
+ *   data: { permissions: ['disputes:view'] },
+ *   loadComponent: () => import('./disputes.component')
+ * }
+ * ```
+ */
+export const permissionGuard: CanActivateFn = (
+  route: ActivatedRouteSnapshot
+): boolean | UrlTree => {
+  const required = route.data['permissions'] as Permission[] | undefined;
+  return checkPermissions(required ?? []);
+};
+
+/**
+ * Permission Guard for Route Matching
+ * ===================================
+ * Prevents lazy loading if the user lacks a required permission.
+ */
+export const permissionGuardMatch: CanMatchFn = (route): boolean => {
+  const required = route.data?.['permissions'] as Permission[] | undefined;
+  return inject(PermissionService).hasAll(required ?? []);
+};
+
+/**
+ * Create Permission Guard Factory
+ * ===============================
+ * Guard requiring the given permissions, for routes without data.
+ *
+ * Usage:
+ * ```typescript
+ * {
+ *   path: 'refunds',
+ *   canActivate: [createPermissionGuard('orders:refund')],
+ *   loadComponent: () => import('./refunds.component')
+ * }
+ * ```
+ */
+export function createPermissionGuard(...permissions: Permission[]): CanActivateFn {
+  return (): boolean | UrlTree => checkPermissions(permissions);
+}
+
+function checkPermissions(required: readonly Permission[]): boolean | UrlTree {
+  const router = inject(Router);
+
+  if (!inject(AuthService).isAuthenticated()) {
+    return router.createUrlTree(['/auth/login']);
+  }
+
+  if (inject(PermissionService).hasAll(required)) {
+    return true;
+  }
+
+  return router.createUrlTree(['/error/403']);
+}
@@ -13,7 +13,8 @@ import { UserRole } from '@domain/models/user.model';
  * Role Guard
  * ==========
  * Protects routes based on user roles using Angular signals.
- * Configure required roles in route data.
+ * Configure required roles in route data. Within the admin panel, use
+ * permissionGuard to tell admin sub-roles apart.
  *
  * Usage:
  * ```typescript
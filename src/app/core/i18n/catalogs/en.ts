@@ -0,0 +1,670 @@
+/**
+ * English Catalog
+ * ===============
+ * Source strings for every translation key. Other catalogs may omit
+ * keys; missing ones fall back to these.
+ *
+ * Keys ending in `.one` / `.other` are plural forms selected by `count`.
+ * `{name}` placeholders are replaced from translation params.
+ */
+export const EN = {
+  // Common
+  'common.retry': 'Retry',
+  'common.discard': 'Discard',
+  'common.close': 'Close',
+
+  // Number formatting
+  'format.lakh': 'L',
+  'format.crore': 'Cr',
+
+  // Navigation
+  'nav.dashboard': 'Dashboard',
+  'nav.marketplace': 'Marketplace',
+  'nav.myProducts': 'My Products',
+  'nav.addProduct': 'Add Product',
+  'nav.myBids': 'My Bids',
+  'nav.wishlist': 'Wishlist',
+  'nav.orders': 'Orders',
+  'nav.cart': 'Cart',
+  'nav.messages': 'Messages',
+  'nav.profile': 'Profile',
+
+  // Header
+  'header.searchPlaceholder': 'Search products, farmers...',
+  'header.notifications': 'Notifications',
+  'header.messages': 'Messages',
+  'header.cart': 'Cart',
+  'header.language': 'Language',
+
+  // User menu
+  'menu.profile': 'My Profile',
+  'menu.settings': 'Settings',
+  'menu.adminPanel': 'Admin Panel',
+  'menu.installApp': 'Install App',
+  'menu.logout': 'Logout',
+
+  // Connectivity banner
+  'connectivity.offline': "You're offline. Showing saved data.",
+  'connectivity.pending.one': '{count} change will sync when you reconnect.',
+  'connectivity.pending.other': '{count} changes will sync when you reconnect.',
+  'connectivity.syncing.one': 'Back online. Syncing {count} change…',
+  'connectivity.syncing.other': 'Back online. Syncing {count} changes…',
+  'connectivity.failed.one': '{count} change could not be synced.',
+  'connectivity.failed.other': '{count} changes could not be synced.',
+  'connectivity.queueError': "Couldn't update the saved changes. Please try again.",
+
+  // Voice input
+  'voice.start': 'Speak',
+  'voice.listening': 'Listening… tap to stop',
+  'voice.error.notAllowed': 'Allow microphone access to use voice input.',
+  'voice.error.noSpeech': "Didn't catch that. Please try again.",
+  'voice.error.failed': 'Voice input is not available right now.',
+
+  // Drafts
+  'draft.found': 'You have an unsaved draft from {time}.',
+  'draft.conflict': 'This was changed elsewhere on {time}, after your draft was started. Resuming will replace those changes when you save.',
+  'draft.resume': 'Resume Draft',
+
+  // Settings
+  'settings.title': 'Settings',
+  'settings.subtitle': 'Manage your app preferences and notifications',
+  'settings.saving': 'Saving...',
+  'settings.preferences.title': 'App Preferences',
+  'settings.preferences.subtitle': 'Customize your app experience',
+  'settings.language.title': 'Language',
+  'settings.language.description': 'Choose your preferred language',
+  'settings.theme.title': 'Theme',
+  'settings.theme.description': 'Select app appearance',
+  'settings.theme.light': 'Light',
+  'settings.theme.dark': 'Dark',
+  'settings.theme.system': 'System',
+  'settings.theme.highContrast': 'High contrast',
+  'settings.compactView.title': 'Compact View',
+  'settings.compactView.description': 'Show more items on screen',
+  'settings.notifications.title': 'Notifications',
+  'settings.notifications.subtitle': 'Control what notifications you receive',
+  'settings.orderUpdates.title': 'Order Updates',
+  'settings.orderUpdates.description': 'Get notified about order status changes',
+  'settings.bidAlerts.title': 'Bid Alerts',
+  'settings.bidAlerts.description': 'Receive alerts for new bids on your crops',
+  'settings.priceAlerts.title': 'Price Alerts',
+  'settings.priceAlerts.description': 'Get notified when prices change for watched items',
+  'settings.promotions.title': 'Promotions & Offers',
+  'settings.promotions.description': 'Receive special offers and discounts',
+  'settings.newsletter.title': 'Newsletter',
+  'settings.newsletter.description': 'Weekly updates and farming tips',
+  'settings.channels.title': 'Notification Channels',
+  'settings.channels.subtitle': 'Choose how you receive notifications',
+  'settings.channels.push.title': 'Push',
+  'settings.channels.push.description': 'In-app notifications',
+  'settings.channels.sms.title': 'SMS',
+  'settings.channels.sms.description': 'Text messages',
+  'settings.channels.email.title': 'Email',
+  'settings.channels.email.description': 'Email notifications',
+  'settings.reset': 'Reset to Defaults',
+  'settings.save': 'Save Settings',
+  'settings.saved': 'Settings saved successfully',
+  'settings.saveFailed': 'Could not save settings. Your changes are kept on this device.',
+  'settings.resetDone': 'Settings reset to defaults',
+
+  // Admin translations
+  'admin.translations.title': 'Translations',
+  'admin.translations.coverage': '{translated} of {total} strings translated',
+  'admin.translations.export': 'Export Untranslated Keys',
+  'admin.translations.exported': 'Exported {count} untranslated strings',
+  'admin.translations.complete': 'All languages are fully translated',
+
+  // Cart and checkout
+  'cart.title': 'Shopping Cart',
+  'cart.clear': 'Clear Cart',
+  'cart.checkingStock': 'Checking stock availability',
+  'cart.empty': 'Your Cart is Empty',
+  'cart.emptyHint': 'Add some fresh produce from the marketplace',
+  'cart.browse': 'Browse Products',
+  'cart.separateOrder': 'Ships as a separate order',
+  'cart.minOrder': 'Min {quantity} {unit}',
+  'cart.decrease': 'Decrease quantity',
+  'cart.increase': 'Increase quantity',
+  'cart.quantityOf': 'Quantity of {name}',
+  'cart.remove': 'Remove',
+  'cart.removeItem': 'Remove {name}',
+  'cart.orderSubtotal': 'Order subtotal',
+  'cart.summary': 'Summary',
+  'cart.items': 'Items ({count})',
+  'cart.subtotal': 'Subtotal',
+  'cart.platformFee': 'Platform fee',
+  'cart.total': 'Total',
+  'cart.ordersPlaced.one': '{count} order will be placed, one per farmer.',
+  'cart.ordersPlaced.other': '{count} orders will be placed, one per farmer.',
+  'cart.fixIssues': 'Fix the highlighted items to continue.',
+  'cart.proceed': 'Proceed to Checkout',
+  'cart.continueShopping': 'Continue Shopping',
+  'checkout.title': 'Checkout',
+  'checkout.placed': 'Order Placed',
+  'checkout.placedHint': 'Your farmers have been notified. Each farmer ships their part as a separate order.',
+  'checkout.viewOrder': 'View order',
+  'checkout.myOrders': 'Go to My Orders',
+  'checkout.stepReview': 'Review',
+  'checkout.orderFrom': 'Order from {name}',
+  'checkout.orderTotal': 'Order total (incl. platform fee)',
+  'checkout.editCart': 'Edit Cart',
+  'checkout.continue': 'Continue',
+  'checkout.back': 'Back',
+  'checkout.stepAddress': 'Delivery Address',
+  'checkout.deliverTo': 'Deliver to',
+  'checkout.manageAddresses': 'Manage addresses',
+  'checkout.default': 'Default',
+  'checkout.newAddress': 'Use a new address',
+  'checkout.fullName': 'Full Name',
+  'checkout.mobile': 'Mobile Number',
+  'checkout.addressLine1': 'Address Line 1',
+  'checkout.addressLine2': 'Address Line 2 (optional)',
+  'checkout.landmark': 'Landmark (optional)',
+  'checkout.pincode': 'Pincode',
+  'checkout.city': 'City',
+  'checkout.state': 'State',
+  'checkout.saveAddress': 'Save to my addresses',
+  'checkout.stepPayment': 'Payment',
+  'checkout.paymentMethod': 'Payment method',
+  'checkout.notes': 'Notes for farmers (optional)',
+  'checkout.deliveryCharges.one': '{count} order will be placed. Delivery charges are confirmed by each farmer.',
+  'checkout.deliveryCharges.other': '{count} orders will be placed. Delivery charges are confirmed by each farmer.',
+  'checkout.placeOrder': 'Place Order',
+
+  // Orders and disputes
+  'orders.title': 'My Orders',
+  'orders.subtitleFarmer': 'Manage orders from buyers',
+  'orders.subtitleBuyer': 'Track your purchases',
+  'orders.statTotal': 'Total Orders',
+  'orders.statActive': 'Active',
+  'orders.statCompleted': 'Completed',
+  'orders.statRevenue': 'Revenue',
+  'orders.loading': 'Loading orders...',
+  'orders.errorTitle': 'Something went wrong',
+  'orders.retry': 'Try Again',
+  'orders.noActive': 'No active orders',
+  'orders.noActiveHint': 'Orders in progress will appear here',
+  'orders.noCompleted': 'No completed orders',
+  'orders.noCompletedHint': 'Your delivered orders will appear here',
+  'orders.noCancelled': 'No cancelled orders',
+  'orders.noCancelledHint': 'Cancelled orders will appear here',
+  'orders.none': 'No orders yet',
+  'orders.noneFarmerHint': "When buyers place orders on your crops, they'll appear here",
+  'orders.noneBuyerHint': 'Start shopping in the marketplace to place your first order',
+  'orders.browseMarketplace': 'Browse Marketplace',
+  'orders.updating': 'Updating order...',
+  'orders.listHint': 'Track and manage your orders',
+  'orders.emptyHint': 'Your orders will appear here',
+  'orders.detailTitle': 'Order #{id}',
+  'orders.detailPlaceholder': 'Order details will be displayed here.',
+  'orders.viewDetails': 'View Details',
+  'orders.trackOrder': 'Track Order',
+  'orders.track': 'Track',
+  'orders.contact': 'Contact {party}',
+  'orders.cancelOrder': 'Cancel Order',
+  'orders.arrivingToday': 'Arriving today!',
+  'orders.expectedToday': 'Expected today',
+  'orders.deliveryTomorrow': 'Delivery tomorrow',
+  'orders.expectedOn': 'Expected {date}',
+  'orders.tracking': 'Tracking: {id}',
+  'orders.loadingDetails': 'Loading order details...',
+  'orders.backToOrders': 'Back to orders',
+  'orders.placedOn': 'Placed on {date}',
+  'orders.liveTracking': 'Live tracking',
+  'orders.delivered': 'Delivered',
+  'orders.arrivingAround': 'Arriving around',
+  'orders.kmAway': '{distance} km away',
+  'orders.waitingLocation': "Waiting for the delivery partner's location…",
+  'orders.updatedAt': 'Updated {time}',
+  'orders.items': 'Items',
+  'orders.subtotal': 'Subtotal',
+  'orders.delivery': 'Delivery',
+  'orders.platformFee': 'Platform fee',
+  'orders.discount': 'Discount',
+  'orders.total': 'Total',
+  'orders.howWasIt': 'How was this order?',
+  'orders.rateBuyerHint': 'Rate the buyer to help others trade with confidence.',
+  'orders.rateFarmerHint': 'Rate the farmer and the produce to help others trade with confidence.',
+  'orders.rate': 'Rate order',
+  'orders.yourReviews': 'Your reviews',
+  'orders.dispute': 'Dispute',
+  'orders.problem': 'Problem with this order?',
+  'orders.disputeBuyerHint': 'Raise a dispute and our team will help resolve it with the buyer.',
+  'orders.disputeFarmerHint': 'Raise a dispute and our team will help resolve it with the farmer.',
+  'orders.raiseDispute': 'Raise dispute',
+  'orders.timeline': 'Timeline',
+  'orders.buyer': 'Buyer',
+  'orders.seller': 'Seller',
+  'orders.message': 'Message',
+  'orders.expected': 'Expected',
+  'orders.partner': 'Partner',
+  'orders.trackingId': 'Tracking ID',
+  'orders.trackDelivery': 'Track delivery',
+  'orders.notFound': 'Order not found.',
+  'orders.cancelTitle': 'Cancel Order?',
+  'orders.cancelReason': 'Please select a reason for cancellation:',
+  'orders.specify': 'Please specify',
+  'orders.reasonPlaceholder': 'Enter your reason...',
+  'orders.cannotUndo': 'This action cannot be undone.',
+  'orders.refundNote': 'A refund will be initiated to your original payment method.',
+  'orders.keepOrder': 'Keep Order',
+  'disputes.raiseTitle': 'Raise a Dispute',
+  'disputes.whatWentWrong': 'What went wrong?',
+  'disputes.type': 'Dispute type',
+  'disputes.describe': 'Describe the issue',
+  'disputes.describePlaceholder': 'What did you expect, what happened, and how much of the order is affected?',
+  'disputes.minLength': 'At least {count} characters',
+  'disputes.photos': 'Photos ({count}/{max})',
+  'disputes.removePhoto': 'Remove {name}',
+  'disputes.addPhoto': 'Add photo',
+  'disputes.reviewNote': 'Our team will review the dispute and reply in the dispute thread on this order. Any refund is credited to the original payment method.',
+  'disputes.cancel': 'Cancel',
+  'disputes.submit': 'Submit Dispute',
+  'disputes.conversation': 'Dispute conversation',
+  'disputes.raisedBy': 'Raised by {name} on {date}',
+  'disputes.handledBy': 'Handled by {name}',
+  'disputes.you': 'You',
+  'disputes.openPhoto': 'Open {name}',
+  'disputes.noMessages': 'No messages yet',
+  'disputes.reply': 'Reply',
+  'disputes.send': 'Send',
+  'disputes.closed': 'This dispute is {status}; replies are closed.',
+
+  // Reviews
+  'reviews.rating': 'Rating',
+  'reviews.rateStars.one': 'Rate {count} star',
+  'reviews.rateStars.other': 'Rate {count} stars',
+  'reviews.count.one': '{count} review',
+  'reviews.count.other': '{count} reviews',
+  'reviews.distribution': 'Rating distribution',
+  'reviews.report': 'Report review',
+  'reviews.reported': 'Reported',
+  'reviews.photoFrom': 'Photo from {name}',
+  'reviews.none': 'No reviews yet',
+  'reviews.rateOrder': 'Rate this order',
+  'reviews.reviewOf': 'Review {name}',
+  'reviews.rateSubject': 'Rate {name}',
+  'reviews.standOut': 'What stood out',
+  'reviews.comment': 'Comment (optional)',
+  'reviews.removePhoto': 'Remove {name}',
+  'reviews.photo': 'Photo',
+  'reviews.later': 'Later',
+  'reviews.submit.one': 'Submit review',
+  'reviews.submit.other': 'Submit {count} reviews',
+
+  // Marketplace
+  'marketplace.title': 'Marketplace',
+  'marketplace.cropCount.one': '{count} crop',
+  'marketplace.cropCount.other': '{count} crops',
+  'marketplace.searchPlaceholder': 'Search crops, farmers, locations...',
+  'marketplace.clearSearch': 'Clear search',
+  'marketplace.voiceSearch': 'Search by voice',
+  'marketplace.filters': 'Filters',
+  'marketplace.gridView': 'Grid View',
+  'marketplace.listView': 'List View',
+  'marketplace.mapView': 'Map View',
+  'marketplace.savedSearches': 'Saved searches',
+  'marketplace.saveSearch': 'Save this search',
+  'marketplace.manageSearches': 'Manage saved searches',
+  'marketplace.sortNewest': 'Newest First',
+  'marketplace.sortPriceLow': 'Price: Low to High',
+  'marketplace.sortPriceHigh': 'Price: High to Low',
+  'marketplace.sortPopular': 'Most Popular',
+  'marketplace.sortRating': 'Highest Rated',
+  'marketplace.sortNearest': 'Nearest First',
+  'marketplace.all': 'All',
+  'marketplace.activeFilters': 'Active filters:',
+  'marketplace.organic': 'Organic',
+  'marketplace.withinKm': 'Within {radius} km of {place}',
+  'marketplace.qualityGrades.one': '{count} Quality Grade',
+  'marketplace.qualityGrades.other': '{count} Quality Grades',
+  'marketplace.clearAll': 'Clear All',
+  'marketplace.inArea': '{count} crops in this area',
+  'marketplace.unmapped': '{count} without a map location',
+  'marketplace.noCrops': 'No crops found',
+  'marketplace.noCropsHint': 'Try adjusting your filters or search terms',
+  'marketplace.resetFilters': 'Reset Filters',
+  'marketplace.loadingMore': 'Loading more crops...',
+  'marketplace.loadMore': 'Load More',
+  'marketplace.showing': 'Showing {shown} of {total} crops',
+  'marketplace.scrollTop': 'Scroll to top',
+
+  // Marketplace filters and search
+  'filters.title': 'Filters',
+  'filters.close': 'Close filters',
+  'filters.sortBy': 'Sort By',
+  'filters.category': 'Category',
+  'filters.allCategories': 'All Categories',
+  'filters.location': 'Location',
+  'filters.allLocations': 'All Locations',
+  'filters.qualityGrade': 'Quality Grade',
+  'filters.priceRange': 'Price Range',
+  'filters.minPrice': 'Min Price',
+  'filters.maxPrice': 'Max Price',
+  'filters.organic': 'Organic',
+  'filters.allProducts': 'All Products',
+  'filters.organicOnly': 'Organic Only',
+  'filters.nonOrganic': 'Non-Organic',
+  'filters.resetAll': 'Reset All',
+  'filters.apply': 'Apply Filters',
+  'savedSearch.title': 'Save Search',
+  'savedSearch.name': 'Name',
+  'savedSearch.namePlaceholder': 'e.g. Organic onions under ₹30',
+  'savedSearch.alertOnNew': 'Alert me when new listings match',
+  'savedSearch.alertsOff': "Price alerts are off in Settings, so you won't be notified.",
+  'savedSearch.cancel': 'Cancel',
+  'savedSearch.save': 'Save',
+  'distance.filterLabel': 'Distance filter: {label}',
+  'distance.measureFrom': 'Measure from',
+  'distance.locating': 'Finding you…',
+  'distance.myLocation': 'My location',
+  'distance.pinAddress': 'Pin your default address on the map in My Addresses',
+  'distance.deliveryAddress': 'My delivery address',
+  'distance.from': 'Distance from {place}',
+  'distance.within': 'Within {radius} km',
+  'distance.any': 'Any distance (sort only)',
+  'distance.clear': 'Clear distance',
+  'share.results': 'Share these results',
+  'share.more': 'More options…',
+  'share.copyLink': 'Copy link',
+
+  // Marketplace listings
+  'listing.featured': 'Featured',
+  'listing.removeWishlist': 'Remove from Wishlist',
+  'listing.addWishlist': 'Add to Wishlist',
+  'listing.organic': 'Organic',
+  'listing.available': '{quantity} {unit} available',
+  'listing.away': '{distance} away',
+  'listing.freightHint': 'Rough road freight estimate for this distance, not a quote',
+  'listing.transport': '~₹{cost}/qtl transport',
+  'listing.ready': 'Ready for pickup',
+  'listing.harvestIn.one': 'Harvest in {count} day',
+  'listing.harvestIn.other': 'Harvest in {count} days',
+  'listing.harvestOn': 'Harvest: {date}',
+  'listing.bids.one': '{count} bid',
+  'listing.bids.other': '{count} bids',
+  'listing.viewDetails': 'View Details',
+  'listing.placeBid': 'Place Bid',
+  'farmerCard.verified': 'Verified Farmer',
+  'farmerCard.orders': '{count} orders',
+  'farmerCard.successRate': 'Success Rate',
+  'farmerCard.response': 'Response',
+  'farmerCard.languages': 'Languages:',
+  'farmerCard.recentReviews': 'Recent reviews ({count})',
+  'farmerCard.memberSince': 'Member since {date}',
+  'farmerCard.viewProfile': 'View Profile',
+  'farmerCard.contact': 'Contact',
+  'results.noCrops': 'No crops found',
+  'results.clearFilters': 'Clear Filters',
+  'results.loadMore': 'Load More',
+  'gallery.image': 'Image {index}',
+  'gallery.noImage': 'No image available',
+  'gallery.thumbnail': 'Thumbnail {index}',
+  'gallery.fullSize': 'Full size image',
+  'search.backToMarketplace': 'Back to marketplace',
+  'search.resultsFor': 'Results for "{term}"',
+  'search.allCrops': 'All crops',
+  'search.shareTitle': 'Search results',
+  'search.label': 'Search crops',
+  'category.empty': 'Nothing listed in this category matches your filters',
+  'instantBuy.title': 'Instant Buy',
+  'instantBuy.quantity': 'Select Quantity',
+  'instantBuy.deliverTo': 'Deliver To',
+  'instantBuy.deliveryAddress': 'Delivery address',
+  'instantBuy.noAddresses': 'You have no saved addresses yet.',
+  'instantBuy.manageAddresses': 'Manage addresses',
+  'instantBuy.paymentMethod': 'Payment Method',
+  'instantBuy.upi': 'UPI Payment',
+  'instantBuy.card': 'Card / Net Banking',
+  'instantBuy.cod': 'Cash on Delivery',
+  'instantBuy.subtotal': 'Subtotal',
+  'instantBuy.platformFee': 'Platform Fee (2%)',
+  'instantBuy.estimatedDelivery': 'Estimated Delivery',
+  'instantBuy.days': '{count} days',
+  'instantBuy.total': 'Total',
+  'instantBuy.cancel': 'Cancel',
+  'instantBuy.buyNow': 'Buy Now',
+
+  // Wishlist and buyer bids
+  'wishlist.title': 'Wishlist',
+  'wishlist.saved.one': '{count} saved crop',
+  'wishlist.saved.other': '{count} saved crops',
+  'wishlist.cheaper': '{count} cheaper than when saved',
+  'wishlist.backInStockCount': '{count} back in stock',
+  'wishlist.browse': 'Browse Marketplace',
+  'wishlist.savedCropsTab': 'Saved crops ({count})',
+  'wishlist.loading': 'Loading your wishlist...',
+  'wishlist.empty': 'Your wishlist is empty',
+  'wishlist.emptyHint': 'Tap the heart on any crop to keep an eye on its price and stock.',
+  'wishlist.findCrops': 'Find Crops',
+  'wishlist.selectAll': 'Select all in stock',
+  'wishlist.addToCart': 'Add {count} to cart',
+  'wishlist.addNoneToCart': 'Add to cart',
+  'wishlist.select': 'Select {name}',
+  'wishlist.percentCheaper': '{percent}% cheaper',
+  'wishlist.backInStock': 'Back in stock',
+  'wishlist.outOfStock': 'Out of stock',
+  'wishlist.priceWhenSaved': 'Price when you saved it',
+  'wishlist.was': 'was',
+  'wishlist.minOrder': 'Min. order {quantity} {unit}',
+  'wishlist.available': '{quantity} {unit} available',
+  'wishlist.remove': 'Remove from wishlist',
+  'wishlist.removeItem': 'Remove {name} from wishlist',
+  'wishlist.searchesTab': 'Saved searches ({count})',
+  'wishlist.loadingSearches': 'Loading saved searches...',
+  'wishlist.noSearches': 'No saved searches',
+  'wishlist.noSearchesHint': 'Set filters on the marketplace and choose "Save this search" to re-run them later.',
+  'wishlist.goToMarketplace': 'Go to Marketplace',
+  'wishlist.savedOn': 'Saved {date}',
+  'wishlist.lastRun': 'last run {date}',
+  'wishlist.lastMatch': 'last match {date}',
+  'wishlist.alertHint': 'Notify me about new listings that match',
+  'wishlist.alerts': 'Alerts',
+  'wishlist.run': 'Run',
+  'wishlist.deleteSearch': 'Delete saved search',
+  'wishlist.deleteItem': 'Delete {name}',
+  'myBids.title': 'My Bids',
+  'myBids.activeCount': '{count} active',
+  'myBids.awaiting.one': '{count} counter-offer needs your response',
+  'myBids.awaiting.other': '{count} counter-offers need your response',
+  'myBids.filter': 'Filter bids',
+  'myBids.filterAll': 'All ({count})',
+  'myBids.filterActive': 'Active ({count})',
+  'myBids.filterAccepted': 'Accepted',
+  'myBids.filterClosed': 'Closed',
+  'myBids.loading': 'Loading your bids...',
+  'myBids.none': 'No bids here',
+  'myBids.noneHint': 'Bids you place on marketplace crops will show up here.',
+  'myBids.placedOn': 'Placed {date}',
+  'myBids.highestHint': 'Your bid is currently the highest',
+  'myBids.highest': 'Highest bid',
+  'myBids.outbidHint': 'Another buyer has bid more',
+  'myBids.outbid': 'Outbid',
+  'myBids.total': 'Total ₹{amount}',
+  'myBids.expiresIn': 'Expires in {time}',
+  'myBids.closedOn': 'Closed {date}',
+  'myBids.countered': 'The farmer countered at ₹{amount}/{unit}. Accept, counter, or withdraw.',
+  'myBids.newPrice': 'New price per {unit}',
+  'myBids.raiseBid': 'Raise Bid',
+  'myBids.cancel': 'Cancel',
+  'myBids.negotiation': 'Negotiation ({count})',
+  'myBids.withdraw': 'Withdraw',
+  'myBids.raise': 'Raise',
+  'myBids.counter': 'Counter',
+  'myBids.acceptOffer': 'Accept Offer',
+
+  // Crop details
+  'cropDetails.loading': 'Loading crop details...',
+  'cropDetails.error': 'Something went wrong',
+  'cropDetails.back': 'Back to Marketplace',
+  'cropDetails.certifications': 'Certifications',
+  'cropDetails.share': 'Share',
+  'cropDetails.basePrice': 'Base Price',
+  'cropDetails.instantBuy': 'Instant Buy',
+  'cropDetails.available': 'Available',
+  'cropDetails.readyNow': 'Ready Now',
+  'cropDetails.days': '{count} days',
+  'cropDetails.untilHarvest': 'Until Harvest',
+  'cropDetails.views': 'Views',
+  'cropDetails.description': 'Description',
+  'cropDetails.specifications': 'Specifications',
+  'cropDetails.shipping': 'Shipping & Delivery',
+  'cropDetails.pickup': 'Available for Pickup',
+  'cropDetails.deliveryWithin': 'Delivery within {radius}km',
+  'cropDetails.deliveryDays': 'Est. {count} days delivery',
+  'cropDetails.reviews': 'Reviews',
+  'cropDetails.placeYourBid': 'Place Your Bid',
+  'cropDetails.timeLeft': '{time} left',
+  'cropDetails.biddingClosed': 'Bidding Closed',
+  'cropDetails.highestBid': 'Highest Bid',
+  'cropDetails.totalBids': 'Total Bids',
+  'cropDetails.average': 'Average',
+  'cropDetails.bidAmount': 'Bid Amount (₹/{unit})',
+  'cropDetails.minBid': 'Min: ₹{amount}',
+  'cropDetails.quantity': 'Quantity ({unit})',
+  'cropDetails.maxQuantity': 'Max: {quantity} {unit}',
+  'cropDetails.message': 'Message (Optional)',
+  'cropDetails.totalValue': 'Total Value:',
+  'cropDetails.cancel': 'Cancel',
+  'cropDetails.submitBid': 'Submit Bid',
+  'cropDetails.placeBid': 'Place Bid',
+  'cropDetails.instantBuyAt': 'Instant Buy @ ₹{price}',
+  'cropDetails.addMore': 'Add More ({quantity} {unit} in cart)',
+  'cropDetails.addToCart': 'Add to Cart',
+  'cropDetails.processing': 'Processing...',
+
+  // Place bid
+  'placeBid.back': 'Go back',
+  'placeBid.subtitle': 'Submit a competitive offer to the farmer',
+  'placeBid.marketPrice': 'Market Price',
+  'placeBid.harvestDate': 'Harvest Date',
+  'placeBid.negotiation': 'Your Negotiation',
+  'placeBid.currentTerms': 'Current terms:',
+  'placeBid.termsQuantity': 'for {quantity} {unit} · {total}.',
+  'placeBid.offerExpires': 'Offer expires {date}.',
+  'placeBid.counterOffer': 'Counter Offer',
+  'placeBid.roundLimit': 'Round limit reached',
+  'placeBid.acceptAt': 'Accept ₹{amount}/{unit}',
+  'placeBid.yourOffer': 'Your Offer',
+  'placeBid.pricePer': 'Bid Price per {unit}',
+  'placeBid.pricePlaceholder': 'Enter your bid price',
+  'placeBid.priceRequired': 'Price is required',
+  'placeBid.priceMin': 'Price must be at least ₹1',
+  'placeBid.aboveMarket': '+{percent}% above market',
+  'placeBid.belowMarket': '{percent}% below market',
+  'placeBid.atMarket': 'At market price',
+  'placeBid.quantity': 'Quantity',
+  'placeBid.quantityUnit': 'Quantity ({unit})',
+  'placeBid.quantityPlaceholder': 'Enter quantity',
+  'placeBid.maxAvailable': 'Max available: {quantity} {unit}',
+  'placeBid.quantityRequired': 'Quantity is required',
+  'placeBid.quantityMin': 'Minimum quantity is 1 {unit}',
+  'placeBid.delivery': 'Delivery Details',
+  'placeBid.deliveryDate': 'Preferred Delivery Date',
+  'placeBid.selectDate': 'Select date',
+  'placeBid.dateRequired': 'Delivery date is required',
+  'placeBid.deliveryLocation': 'Delivery Location',
+  'placeBid.selectLocation': 'Select location',
+  'placeBid.pickup': 'Pickup from Farm',
+  'placeBid.manageAddresses': 'Manage addresses',
+  'placeBid.locationRequired': 'Delivery location is required',
+  'placeBid.messageTitle': 'Message to Farmer',
+  'placeBid.optional': '(Optional)',
+  'placeBid.yourMessage': 'Your Message',
+  'placeBid.messagePlaceholder': 'Add any special requirements, questions, or notes for the farmer...',
+  'placeBid.messageHint': 'This helps the farmer understand your needs better',
+  'placeBid.summary': 'Bid Summary',
+  'placeBid.pricePerUnit': 'Price per {unit}',
+  'placeBid.totalAmount': 'Total Bid Amount',
+  'placeBid.agreePrefix': 'I agree to the',
+  'placeBid.terms': 'Terms & Conditions',
+  'placeBid.agreeSuffix': 'and understand that this bid is binding once accepted by the farmer.',
+  'placeBid.termsRequired': 'You must accept the terms to place a bid',
+  'placeBid.cancel': 'Cancel',
+  'placeBid.placing': 'Placing Bid...',
+  'placeBid.placeFor': 'Place Bid - {total}',
+  'placeBid.notFound': 'Crop not found',
+  'placeBid.notFoundHint': "The crop you're looking for doesn't exist or has been removed.",
+
+  // Bids on farmer crops
+  'bids.highest': 'Highest Bid',
+  'bids.orders': '{count} orders',
+  'bids.total': 'Total: ₹{amount}',
+  'bids.pending': 'Pending',
+  'bids.accepted': 'Accepted',
+  'bids.rejected': 'Rejected',
+  'bids.expired': 'Expired',
+  'bids.countered': 'Countered',
+  'bids.withdrawn': 'Withdrawn',
+  'bids.negotiationRounds': 'Negotiation ({count}/{max} rounds)',
+  'bids.responded': 'Responded {date}',
+  'bids.rejectTooltip': 'Reject Bid',
+  'bids.reject': 'Reject',
+  'bids.counterTooltip': 'Make Counter Offer',
+  'bids.roundLimit': 'Negotiation round limit reached',
+  'bids.counter': 'Counter',
+  'bids.acceptTooltip': 'Accept Bid',
+  'bids.accept': 'Accept',
+  'negotiation.round': 'Round {count} of {max}',
+  'negotiation.finalRound': 'Final round – accept or reject',
+  'negotiation.left.one': '{count} counter-offer left',
+  'negotiation.left.other': '{count} counter-offers left',
+  'negotiation.bid': 'Bid',
+  'negotiation.counter': 'Counter',
+  'negotiation.yourTurn': 'Waiting for your response',
+  'negotiation.theirTurn': 'Waiting for the other party',
+  'acceptBid.title': 'Accept This Bid?',
+  'acceptBid.buyer': 'Buyer',
+  'acceptBid.amount': 'Bid Amount',
+  'acceptBid.quantity': 'Quantity',
+  'acceptBid.totalValue': 'Total Value',
+  'acceptBid.notice': 'By accepting this bid, you agree to sell your crop at the specified price. The buyer will be notified and an order will be created.',
+  'acceptBid.cancel': 'Cancel',
+  'acceptBid.confirm': 'Accept Bid',
+  'counterBid.title': 'Make Counter Offer',
+  'counterBid.toFarmer': 'To the farmer',
+  'counterBid.toBuyer': 'To {name}',
+  'counterBid.round': 'Round {count} of {max}',
+  'counterBid.theirOffer': 'Their Offer',
+  'counterBid.theirBid': 'Their Bid',
+  'counterBid.yourCounter': 'Your Counter',
+  'counterBid.amount': 'Counter Amount (₹/{unit})',
+  'counterBid.quantity': 'Quantity ({unit})',
+  'counterBid.deliveryDate': 'Delivery Date',
+  'counterBid.message': 'Message (optional)',
+  'counterBid.more': '₹{amount} more than their bid (+{percent}%)',
+  'counterBid.less': '₹{amount} less than their offer ({percent}%)',
+  'counterBid.same': 'Same as their offer',
+  'counterBid.totalValue': 'Total Value',
+  'counterBid.cancel': 'Cancel',
+  'counterBid.send': 'Send Counter Offer',
+  'rejectBid.title': 'Reject This Bid?',
+  'rejectBid.from': 'From {name}',
+  'rejectBid.reason': 'Reason for rejection (optional)',
+  'rejectBid.customReason': 'Custom Reason',
+  'rejectBid.reasonPlaceholder': 'Enter your reason...',
+  'rejectBid.cancel': 'Cancel',
+  'rejectBid.confirm': 'Reject Bid',
+  'cropBids.back': 'Go back',
+  'cropBids.title': 'Bids on Your Crop',
+  'cropBids.live': 'Live',
+  'cropBids.connecting': 'Connecting...',
+  'cropBids.offline': 'Offline',
+  'cropBids.refresh': 'Refresh Bids',
+  'cropBids.loading': 'Loading bids...',
+  'cropBids.available': '{quantity} {unit} available',
+  'cropBids.listedPrice': 'Listed Price',
+  'cropBids.averageBid': 'Average Bid',
+  'cropBids.totalBids': 'Total Bids',
+  'cropBids.all': 'All',
+  'cropBids.none': 'No bids yet',
+  'cropBids.noneHint': "When buyers place bids on your crop, they'll appear here in real-time.",
+  'cropBids.processing': 'Processing...',
+  'cropBids.myBids': 'My Bids',
+  'cropBids.comingSoon': 'Bid management coming soon...',
+} as const;
+
+export type TranslationKey = keyof typeof EN;
+
+/** Catalog for a non-source language; missing keys fall back to English */
+export type TranslationCatalog = Partial<Record<TranslationKey, string>>;
@@ -0,0 +1,641 @@
+import { TranslationCatalog } from './en';
+
+/** Hindi catalog */
+const HI: TranslationCatalog = {
+  'common.retry': 'फिर से कोशिश करें',
+  'common.discard': 'हटाएं',
+  'common.close': 'बंद करें',
+
+  'format.lakh': 'लाख',
+  'format.crore': 'करोड़',
+
+  'nav.dashboard': 'डैशबोर्ड',
+  'nav.marketplace': 'बाज़ार',
+  'nav.myProducts': 'मेरे उत्पाद',
+  'nav.addProduct': 'उत्पाद जोड़ें',
+  'nav.myBids': 'मेरी बोलियाँ',
+  'nav.wishlist': 'इच्छा सूची',
+  'nav.orders': 'ऑर्डर',
+  'nav.cart': 'कार्ट',
+  'nav.messages': 'संदेश',
+  'nav.profile': 'प्रोफ़ाइल',
+
+  'header.searchPlaceholder': 'उत्पाद, किसान खोजें...',
+  'header.notifications': 'सूचनाएं',
+  'header.messages': 'संदेश',
+  'header.cart': 'कार्ट',
+  'header.language': 'भाषा',
+
+  'menu.profile': 'मेरी प्रोफ़ाइल',
+  'menu.settings': 'सेटिंग्स',
+  'menu.adminPanel': 'एडमिन पैनल',
+  'menu.installApp': 'ऐप इंस्टॉल करें',
+  'menu.logout': 'लॉग आउट',
+
+  'connectivity.offline': 'आप ऑफ़लाइन हैं। सहेजा गया डेटा दिखाया जा रहा है।',
+  'connectivity.pending.one': '{count} बदलाव दोबारा कनेक्ट होने पर सिंक होगा।',
+  'connectivity.pending.other': '{count} बदलाव दोबारा कनेक्ट होने पर सिंक होंगे।',
+  'connectivity.syncing.one': 'फिर से ऑनलाइन। {count} बदलाव सिंक हो रहा है…',
+  'connectivity.syncing.other': 'फिर से ऑनलाइन। {count} बदलाव सिंक हो रहे हैं…',
+  'connectivity.failed.one': '{count} बदलाव सिंक नहीं हो सका।',
+  'connectivity.failed.other': '{count} बदलाव सिंक नहीं हो सके।',
+  'connectivity.queueError': 'सहेजे गए बदलाव अपडेट नहीं हो सके। कृपया फिर से कोशिश करें।',
+
+  'voice.start': 'बोलें',
+  'voice.listening': 'सुन रहे हैं… रोकने के लिए टैप करें',
+  'voice.error.notAllowed': 'वॉइस इनपुट के लिए माइक्रोफ़ोन की अनुमति दें।',
+  'voice.error.noSpeech': 'समझ नहीं आया। कृपया फिर से बोलें।',
+  'voice.error.failed': 'वॉइस इनपुट अभी उपलब्ध नहीं है।',
+
+  'draft.found': '{time} का एक बिना सहेजा ड्राफ़्ट है।',
+  'draft.conflict': 'आपका ड्राफ़्ट शुरू होने के बाद {time} को इसे कहीं और बदला गया। ड्राफ़्ट जारी रखने पर सहेजते समय वे बदलाव बदल जाएंगे।',
+  'draft.resume': 'ड्राफ़्ट जारी रखें',
+
+  'settings.title': 'सेटिंग्स',
+  'settings.subtitle': 'अपनी ऐप प्राथमिकताएं और सूचनाएं प्रबंधित करें',
+  'settings.saving': 'सहेजा जा रहा है...',
+  'settings.preferences.title': 'ऐप प्राथमिकताएं',
+  'settings.preferences.subtitle': 'अपना ऐप अनुभव अनुकूलित करें',
+  'settings.language.title': 'भाषा',
+  'settings.language.description': 'अपनी पसंदीदा भाषा चुनें',
+  'settings.theme.title': 'थीम',
+  'settings.theme.description': 'ऐप का रूप चुनें',
+  'settings.theme.light': 'लाइट',
+  'settings.theme.dark': 'डार्क',
+  'settings.theme.system': 'सिस्टम',
+  'settings.theme.highContrast': 'हाई कॉन्ट्रास्ट',
+  'settings.compactView.title': 'कॉम्पैक्ट व्यू',
+  'settings.compactView.description': 'स्क्रीन पर अधिक आइटम दिखाएं',
+  'settings.notifications.title': 'सूचनाएं',
+  'settings.notifications.subtitle': 'तय करें कि आपको कौन सी सूचनाएं मिलें',
+  'settings.orderUpdates.title': 'ऑर्डर अपडेट',
+  'settings.orderUpdates.description': 'ऑर्डर की स्थिति बदलने पर सूचना पाएं',
+  'settings.bidAlerts.title': 'बोली अलर्ट',
+  'settings.bidAlerts.description': 'अपनी फसलों पर नई बोलियों के अलर्ट पाएं',
+  'settings.priceAlerts.title': 'भाव अलर्ट',
+  'settings.priceAlerts.description': 'देखी गई वस्तुओं के भाव बदलने पर सूचना पाएं',
+  'settings.promotions.title': 'प्रमोशन और ऑफ़र',
+  'settings.promotions.description': 'विशेष ऑफ़र और छूट पाएं',
+  'settings.newsletter.title': 'न्यूज़लेटर',
+  'settings.newsletter.description': 'साप्ताहिक अपडेट और खेती के सुझाव',
+  'settings.channels.title': 'सूचना माध्यम',
+  'settings.channels.subtitle': 'चुनें कि आपको सूचनाएं कैसे मिलें',
+  'settings.channels.push.title': 'पुश',
+  'settings.channels.push.description': 'ऐप में सूचनाएं',
+  'settings.channels.sms.title': 'एसएमएस',
+  'settings.channels.sms.description': 'टेक्स्ट संदेश',
+  'settings.channels.email.title': 'ईमेल',
+  'settings.channels.email.description': 'ईमेल सूचनाएं',
+  'settings.reset': 'डिफ़ॉल्ट पर रीसेट करें',
+  'settings.save': 'सेटिंग्स सहेजें',
+  'settings.saved': 'सेटिंग्स सफलतापूर्वक सहेजी गईं',
+  'settings.saveFailed': 'सेटिंग्स सहेजी नहीं जा सकीं। आपके बदलाव इस डिवाइस पर रखे गए हैं।',
+  'settings.resetDone': 'सेटिंग्स डिफ़ॉल्ट पर रीसेट की गईं',
+
+  'admin.translations.title': 'अनुवाद',
+  'admin.translations.coverage': '{total} में से {translated} वाक्यांश अनूदित',
+  'admin.translations.export': 'बिना अनुवाद वाली कुंजियाँ निर्यात करें',
+  'admin.translations.exported': 'बिना अनुवाद वाले {count} वाक्यांश निर्यात किए गए',
+  'admin.translations.complete': 'सभी भाषाओं का पूरा अनुवाद हो चुका है',
+
+  'cart.title': 'शॉपिंग कार्ट',
+  'cart.clear': 'कार्ट खाली करें',
+  'cart.checkingStock': 'स्टॉक की उपलब्धता जाँची जा रही है',
+  'cart.empty': 'आपकी कार्ट खाली है',
+  'cart.emptyHint': 'मार्केटप्लेस से ताज़ी उपज जोड़ें',
+  'cart.browse': 'उत्पाद देखें',
+  'cart.separateOrder': 'अलग ऑर्डर के रूप में भेजा जाएगा',
+  'cart.minOrder': 'न्यूनतम {quantity} {unit}',
+  'cart.decrease': 'मात्रा घटाएँ',
+  'cart.increase': 'मात्रा बढ़ाएँ',
+  'cart.quantityOf': '{name} की मात्रा',
+  'cart.remove': 'हटाएँ',
+  'cart.removeItem': '{name} हटाएँ',
+  'cart.orderSubtotal': 'ऑर्डर उप-योग',
+  'cart.summary': 'सारांश',
+  'cart.items': 'आइटम ({count})',
+  'cart.subtotal': 'उप-योग',
+  'cart.platformFee': 'प्लेटफ़ॉर्म शुल्क',
+  'cart.total': 'कुल',
+  'cart.ordersPlaced.one': '{count} ऑर्डर दिया जाएगा, हर किसान के लिए एक।',
+  'cart.ordersPlaced.other': '{count} ऑर्डर दिए जाएँगे, हर किसान के लिए एक।',
+  'cart.fixIssues': 'आगे बढ़ने के लिए चिह्नित आइटम ठीक करें।',
+  'cart.proceed': 'चेकआउट करें',
+  'cart.continueShopping': 'खरीदारी जारी रखें',
+  'checkout.title': 'चेकआउट',
+  'checkout.placed': 'ऑर्डर दिया गया',
+  'checkout.placedHint': 'आपके किसानों को सूचित कर दिया गया है। हर किसान अपना हिस्सा अलग ऑर्डर के रूप में भेजेगा।',
+  'checkout.viewOrder': 'ऑर्डर देखें',
+  'checkout.myOrders': 'मेरे ऑर्डर पर जाएँ',
+  'checkout.stepReview': 'समीक्षा',
+  'checkout.orderFrom': '{name} से ऑर्डर',
+  'checkout.orderTotal': 'ऑर्डर का कुल (प्लेटफ़ॉर्म शुल्क सहित)',
+  'checkout.editCart': 'कार्ट बदलें',
+  'checkout.continue': 'जारी रखें',
+  'checkout.back': 'वापस',
+  'checkout.stepAddress': 'डिलीवरी पता',
+  'checkout.deliverTo': 'यहाँ डिलीवर करें',
+  'checkout.manageAddresses': 'पते प्रबंधित करें',
+  'checkout.default': 'डिफ़ॉल्ट',
+  'checkout.newAddress': 'नया पता इस्तेमाल करें',
+  'checkout.fullName': 'पूरा नाम',
+  'checkout.mobile': 'मोबाइल नंबर',
+  'checkout.addressLine1': 'पता पंक्ति 1',
+  'checkout.addressLine2': 'पता पंक्ति 2 (वैकल्पिक)',
+  'checkout.landmark': 'लैंडमार्क (वैकल्पिक)',
+  'checkout.pincode': 'पिनकोड',
+  'checkout.city': 'शहर',
+  'checkout.state': 'राज्य',
+  'checkout.saveAddress': 'मेरे पतों में सहेजें',
+  'checkout.stepPayment': 'भुगतान',
+  'checkout.paymentMethod': 'भुगतान का तरीका',
+  'checkout.notes': 'किसानों के लिए नोट (वैकल्पिक)',
+  'checkout.deliveryCharges.one': '{count} ऑर्डर दिया जाएगा। डिलीवरी शुल्क हर किसान तय करेगा।',
+  'checkout.deliveryCharges.other': '{count} ऑर्डर दिए जाएँगे। डिलीवरी शुल्क हर किसान तय करेगा।',
+  'checkout.placeOrder': 'ऑर्डर दें',
+
+  'orders.title': 'मेरे ऑर्डर',
+  'orders.subtitleFarmer': 'खरीदारों के ऑर्डर प्रबंधित करें',
+  'orders.subtitleBuyer': 'अपनी खरीदारी ट्रैक करें',
+  'orders.statTotal': 'कुल ऑर्डर',
+  'orders.statActive': 'सक्रिय',
+  'orders.statCompleted': 'पूरे हुए',
+  'orders.statRevenue': 'आय',
+  'orders.loading': 'ऑर्डर लोड हो रहे हैं...',
+  'orders.errorTitle': 'कुछ गलत हो गया',
+  'orders.retry': 'फिर से कोशिश करें',
+  'orders.noActive': 'कोई सक्रिय ऑर्डर नहीं',
+  'orders.noActiveHint': 'चल रहे ऑर्डर यहाँ दिखेंगे',
+  'orders.noCompleted': 'कोई पूरा ऑर्डर नहीं',
+  'orders.noCompletedHint': 'आपके डिलीवर हुए ऑर्डर यहाँ दिखेंगे',
+  'orders.noCancelled': 'कोई रद्द ऑर्डर नहीं',
+  'orders.noCancelledHint': 'रद्द ऑर्डर यहाँ दिखेंगे',
+  'orders.none': 'अभी कोई ऑर्डर नहीं',
+  'orders.noneFarmerHint': 'जब खरीदार आपकी फसलों पर ऑर्डर देंगे, वे यहाँ दिखेंगे',
+  'orders.noneBuyerHint': 'पहला ऑर्डर देने के लिए मार्केटप्लेस में खरीदारी शुरू करें',
+  'orders.browseMarketplace': 'मार्केटप्लेस देखें',
+  'orders.updating': 'ऑर्डर अपडेट हो रहा है...',
+  'orders.listHint': 'अपने ऑर्डर ट्रैक और प्रबंधित करें',
+  'orders.emptyHint': 'आपके ऑर्डर यहाँ दिखेंगे',
+  'orders.detailTitle': 'ऑर्डर #{id}',
+  'orders.detailPlaceholder': 'ऑर्डर का विवरण यहाँ दिखेगा।',
+  'orders.viewDetails': 'विवरण देखें',
+  'orders.trackOrder': 'ऑर्डर ट्रैक करें',
+  'orders.track': 'ट्रैक करें',
+  'orders.contact': '{party} से संपर्क करें',
+  'orders.cancelOrder': 'ऑर्डर रद्द करें',
+  'orders.arrivingToday': 'आज पहुँच रहा है!',
+  'orders.expectedToday': 'आज अपेक्षित',
+  'orders.deliveryTomorrow': 'कल डिलीवरी',
+  'orders.expectedOn': '{date} तक अपेक्षित',
+  'orders.tracking': 'ट्रैकिंग: {id}',
+  'orders.loadingDetails': 'ऑर्डर का विवरण लोड हो रहा है...',
+  'orders.backToOrders': 'ऑर्डर पर वापस जाएँ',
+  'orders.placedOn': '{date} को दिया गया',
+  'orders.liveTracking': 'लाइव ट्रैकिंग',
+  'orders.delivered': 'डिलीवर हुआ',
+  'orders.arrivingAround': 'लगभग इस समय पहुँचेगा',
+  'orders.kmAway': '{distance} किमी दूर',
+  'orders.waitingLocation': 'डिलीवरी पार्टनर की लोकेशन का इंतज़ार…',
+  'orders.updatedAt': '{time} पर अपडेट किया गया',
+  'orders.items': 'आइटम',
+  'orders.subtotal': 'उप-योग',
+  'orders.delivery': 'डिलीवरी',
+  'orders.platformFee': 'प्लेटफ़ॉर्म शुल्क',
+  'orders.discount': 'छूट',
+  'orders.total': 'कुल',
+  'orders.howWasIt': 'यह ऑर्डर कैसा रहा?',
+  'orders.rateBuyerHint': 'खरीदार को रेटिंग दें ताकि दूसरे भरोसे से व्यापार कर सकें।',
+  'orders.rateFarmerHint': 'किसान और उपज को रेटिंग दें ताकि दूसरे भरोसे से व्यापार कर सकें।',
+  'orders.rate': 'ऑर्डर को रेटिंग दें',
+  'orders.yourReviews': 'आपकी समीक्षाएँ',
+  'orders.dispute': 'विवाद',
+  'orders.problem': 'इस ऑर्डर में समस्या है?',
+  'orders.disputeBuyerHint': 'विवाद उठाएँ, हमारी टीम खरीदार के साथ इसे सुलझाने में मदद करेगी।',
+  'orders.disputeFarmerHint': 'विवाद उठाएँ, हमारी टीम किसान के साथ इसे सुलझाने में मदद करेगी।',
+  'orders.raiseDispute': 'विवाद उठाएँ',
+  'orders.timeline': 'समयरेखा',
+  'orders.buyer': 'खरीदार',
+  'orders.seller': 'विक्रेता',
+  'orders.message': 'संदेश',
+  'orders.expected': 'अपेक्षित',
+  'orders.partner': 'पार्टनर',
+  'orders.trackingId': 'ट्रैकिंग आईडी',
+  'orders.trackDelivery': 'डिलीवरी ट्रैक करें',
+  'orders.notFound': 'ऑर्डर नहीं मिला।',
+  'orders.cancelTitle': 'ऑर्डर रद्द करें?',
+  'orders.cancelReason': 'कृपया रद्द करने का कारण चुनें:',
+  'orders.specify': 'कृपया बताएँ',
+  'orders.reasonPlaceholder': 'अपना कारण लिखें...',
+  'orders.cannotUndo': 'यह कार्रवाई वापस नहीं ली जा सकती।',
+  'orders.refundNote': 'आपके मूल भुगतान तरीके में रिफ़ंड शुरू किया जाएगा।',
+  'orders.keepOrder': 'ऑर्डर रखें',
+  'disputes.raiseTitle': 'विवाद उठाएँ',
+  'disputes.whatWentWrong': 'क्या गलत हुआ?',
+  'disputes.type': 'विवाद का प्रकार',
+  'disputes.describe': 'समस्या बताएँ',
+  'disputes.describePlaceholder': 'आपने क्या उम्मीद की थी, क्या हुआ, और ऑर्डर का कितना हिस्सा प्रभावित है?',
+  'disputes.minLength': 'कम से कम {count} अक्षर',
+  'disputes.photos': 'फ़ोटो ({count}/{max})',
+  'disputes.removePhoto': '{name} हटाएँ',
+  'disputes.addPhoto': 'फ़ोटो जोड़ें',
+  'disputes.reviewNote': 'हमारी टीम विवाद की समीक्षा करेगी और इस ऑर्डर के विवाद थ्रेड में जवाब देगी। कोई भी रिफ़ंड मूल भुगतान तरीके में जमा होगा।',
+  'disputes.cancel': 'रद्द करें',
+  'disputes.submit': 'विवाद दर्ज करें',
+  'disputes.conversation': 'विवाद की बातचीत',
+  'disputes.raisedBy': '{name} ने {date} को उठाया',
+  'disputes.handledBy': '{name} देख रहे हैं',
+  'disputes.you': 'आप',
+  'disputes.openPhoto': '{name} खोलें',
+  'disputes.noMessages': 'अभी कोई संदेश नहीं',
+  'disputes.reply': 'जवाब',
+  'disputes.send': 'भेजें',
+  'disputes.closed': 'यह विवाद {status} है; जवाब बंद हैं।',
+
+  'reviews.rating': 'रेटिंग',
+  'reviews.rateStars.one': '{count} स्टार दें',
+  'reviews.rateStars.other': '{count} स्टार दें',
+  'reviews.count.one': '{count} समीक्षा',
+  'reviews.count.other': '{count} समीक्षाएँ',
+  'reviews.distribution': 'रेटिंग का वितरण',
+  'reviews.report': 'समीक्षा की रिपोर्ट करें',
+  'reviews.reported': 'रिपोर्ट किया गया',
+  'reviews.photoFrom': '{name} की फ़ोटो',
+  'reviews.none': 'अभी कोई समीक्षा नहीं',
+  'reviews.rateOrder': 'इस ऑर्डर को रेटिंग दें',
+  'reviews.reviewOf': '{name} की समीक्षा',
+  'reviews.rateSubject': '{name} को रेटिंग दें',
+  'reviews.standOut': 'क्या खास रहा',
+  'reviews.comment': 'टिप्पणी (वैकल्पिक)',
+  'reviews.removePhoto': '{name} हटाएँ',
+  'reviews.photo': 'फ़ोटो',
+  'reviews.later': 'बाद में',
+  'reviews.submit.one': 'समीक्षा भेजें',
+  'reviews.submit.other': '{count} समीक्षाएँ भेजें',
+
+  'marketplace.title': 'मार्केटप्लेस',
+  'marketplace.cropCount.one': '{count} फसल',
+  'marketplace.cropCount.other': '{count} फसलें',
+  'marketplace.searchPlaceholder': 'फसलें, किसान, स्थान खोजें...',
+  'marketplace.clearSearch': 'खोज साफ़ करें',
+  'marketplace.voiceSearch': 'आवाज़ से खोजें',
+  'marketplace.filters': 'फ़िल्टर',
+  'marketplace.gridView': 'ग्रिड व्यू',
+  'marketplace.listView': 'सूची व्यू',
+  'marketplace.mapView': 'नक्शा व्यू',
+  'marketplace.savedSearches': 'सहेजी गई खोजें',
+  'marketplace.saveSearch': 'यह खोज सहेजें',
+  'marketplace.manageSearches': 'सहेजी गई खोजें प्रबंधित करें',
+  'marketplace.sortNewest': 'सबसे नए पहले',
+  'marketplace.sortPriceLow': 'कीमत: कम से ज़्यादा',
+  'marketplace.sortPriceHigh': 'कीमत: ज़्यादा से कम',
+  'marketplace.sortPopular': 'सबसे लोकप्रिय',
+  'marketplace.sortRating': 'सबसे ऊँची रेटिंग',
+  'marketplace.sortNearest': 'सबसे पास पहले',
+  'marketplace.all': 'सभी',
+  'marketplace.activeFilters': 'सक्रिय फ़िल्टर:',
+  'marketplace.organic': 'जैविक',
+  'marketplace.withinKm': '{place} से {radius} किमी के भीतर',
+  'marketplace.qualityGrades.one': '{count} गुणवत्ता ग्रेड',
+  'marketplace.qualityGrades.other': '{count} गुणवत्ता ग्रेड',
+  'marketplace.clearAll': 'सब साफ़ करें',
+  'marketplace.inArea': 'इस क्षेत्र में {count} फसलें',
+  'marketplace.unmapped': '{count} बिना नक्शा स्थान के',
+  'marketplace.noCrops': 'कोई फसल नहीं मिली',
+  'marketplace.noCropsHint': 'अपने फ़िल्टर या खोज शब्द बदलकर देखें',
+  'marketplace.resetFilters': 'फ़िल्टर रीसेट करें',
+  'marketplace.loadingMore': 'और फसलें लोड हो रही हैं...',
+  'marketplace.loadMore': 'और लोड करें',
+  'marketplace.showing': '{total} में से {shown} फसलें दिखाई जा रही हैं',
+  'marketplace.scrollTop': 'ऊपर जाएँ',
+
+  'filters.title': 'फ़िल्टर',
+  'filters.close': 'फ़िल्टर बंद करें',
+  'filters.sortBy': 'क्रम',
+  'filters.category': 'श्रेणी',
+  'filters.allCategories': 'सभी श्रेणियाँ',
+  'filters.location': 'स्थान',
+  'filters.allLocations': 'सभी स्थान',
+  'filters.qualityGrade': 'गुणवत्ता ग्रेड',
+  'filters.priceRange': 'कीमत सीमा',
+  'filters.minPrice': 'न्यूनतम कीमत',
+  'filters.maxPrice': 'अधिकतम कीमत',
+  'filters.organic': 'जैविक',
+  'filters.allProducts': 'सभी उत्पाद',
+  'filters.organicOnly': 'केवल जैविक',
+  'filters.nonOrganic': 'गैर-जैविक',
+  'filters.resetAll': 'सब रीसेट करें',
+  'filters.apply': 'फ़िल्टर लागू करें',
+  'savedSearch.title': 'खोज सहेजें',
+  'savedSearch.name': 'नाम',
+  'savedSearch.namePlaceholder': 'जैसे ₹30 से कम के जैविक प्याज़',
+  'savedSearch.alertOnNew': 'नई लिस्टिंग मेल खाने पर मुझे सूचित करें',
+  'savedSearch.alertsOff': 'सेटिंग्स में मूल्य अलर्ट बंद हैं, इसलिए आपको सूचना नहीं मिलेगी।',
+  'savedSearch.cancel': 'रद्द करें',
+  'savedSearch.save': 'सहेजें',
+  'distance.filterLabel': 'दूरी फ़िल्टर: {label}',
+  'distance.measureFrom': 'यहाँ से मापें',
+  'distance.locating': 'आपको ढूँढ रहे हैं…',
+  'distance.myLocation': 'मेरा स्थान',
+  'distance.pinAddress': 'मेरे पते में अपने डिफ़ॉल्ट पते को नक्शे पर पिन करें',
+  'distance.deliveryAddress': 'मेरा डिलीवरी पता',
+  'distance.from': '{place} से दूरी',
+  'distance.within': '{radius} किमी के भीतर',
+  'distance.any': 'कोई भी दूरी (केवल क्रम)',
+  'distance.clear': 'दूरी हटाएँ',
+  'share.results': 'ये नतीजे शेयर करें',
+  'share.more': 'और विकल्प…',
+  'share.copyLink': 'लिंक कॉपी करें',
+
+  'listing.featured': 'विशेष',
+  'listing.removeWishlist': 'विशलिस्ट से हटाएँ',
+  'listing.addWishlist': 'विशलिस्ट में जोड़ें',
+  'listing.organic': 'जैविक',
+  'listing.available': '{quantity} {unit} उपलब्ध',
+  'listing.away': '{distance} दूर',
+  'listing.freightHint': 'इस दूरी के लिए सड़क भाड़े का मोटा अनुमान, कोटेशन नहीं',
+  'listing.transport': '~₹{cost}/क्विंटल ढुलाई',
+  'listing.ready': 'पिकअप के लिए तैयार',
+  'listing.harvestIn.one': '{count} दिन में कटाई',
+  'listing.harvestIn.other': '{count} दिनों में कटाई',
+  'listing.harvestOn': 'कटाई: {date}',
+  'listing.bids.one': '{count} बोली',
+  'listing.bids.other': '{count} बोलियाँ',
+  'listing.viewDetails': 'विवरण देखें',
+  'listing.placeBid': 'बोली लगाएँ',
+  'farmerCard.verified': 'सत्यापित किसान',
+  'farmerCard.orders': '{count} ऑर्डर',
+  'farmerCard.successRate': 'सफलता दर',
+  'farmerCard.response': 'जवाब का समय',
+  'farmerCard.languages': 'भाषाएँ:',
+  'farmerCard.recentReviews': 'हाल की समीक्षाएँ ({count})',
+  'farmerCard.memberSince': '{date} से सदस्य',
+  'farmerCard.viewProfile': 'प्रोफ़ाइल देखें',
+  'farmerCard.contact': 'संपर्क करें',
+  'results.noCrops': 'कोई फसल नहीं मिली',
+  'results.clearFilters': 'फ़िल्टर हटाएँ',
+  'results.loadMore': 'और लोड करें',
+  'gallery.image': 'चित्र {index}',
+  'gallery.noImage': 'कोई चित्र उपलब्ध नहीं',
+  'gallery.thumbnail': 'थंबनेल {index}',
+  'gallery.fullSize': 'पूरे आकार का चित्र',
+  'search.backToMarketplace': 'मार्केटप्लेस पर वापस जाएँ',
+  'search.resultsFor': '"{term}" के नतीजे',
+  'search.allCrops': 'सभी फसलें',
+  'search.shareTitle': 'खोज के नतीजे',
+  'search.label': 'फसलें खोजें',
+  'category.empty': 'इस श्रेणी में कुछ भी आपके फ़िल्टर से मेल नहीं खाता',
+  'instantBuy.title': 'तुरंत खरीदें',
+  'instantBuy.quantity': 'मात्रा चुनें',
+  'instantBuy.deliverTo': 'यहाँ डिलीवर करें',
+  'instantBuy.deliveryAddress': 'डिलीवरी पता',
+  'instantBuy.noAddresses': 'आपके पास अभी कोई सहेजा पता नहीं है।',
+  'instantBuy.manageAddresses': 'पते प्रबंधित करें',
+  'instantBuy.paymentMethod': 'भुगतान का तरीका',
+  'instantBuy.upi': 'UPI भुगतान',
+  'instantBuy.card': 'कार्ड / नेट बैंकिंग',
+  'instantBuy.cod': 'डिलीवरी पर नकद',
+  'instantBuy.subtotal': 'उप-योग',
+  'instantBuy.platformFee': 'प्लेटफ़ॉर्म शुल्क (2%)',
+  'instantBuy.estimatedDelivery': 'अनुमानित डिलीवरी',
+  'instantBuy.days': '{count} दिन',
+  'instantBuy.total': 'कुल',
+  'instantBuy.cancel': 'रद्द करें',
+  'instantBuy.buyNow': 'अभी खरीदें',
+
+  'wishlist.title': 'विशलिस्ट',
+  'wishlist.saved.one': '{count} सहेजी गई फसल',
+  'wishlist.saved.other': '{count} सहेजी गई फसलें',
+  'wishlist.cheaper': '{count} सहेजने के समय से सस्ती',
+  'wishlist.backInStockCount': '{count} फिर से स्टॉक में',
+  'wishlist.browse': 'मार्केटप्लेस देखें',
+  'wishlist.savedCropsTab': 'सहेजी गई फसलें ({count})',
+  'wishlist.loading': 'आपकी विशलिस्ट लोड हो रही है...',
+  'wishlist.empty': 'आपकी विशलिस्ट खाली है',
+  'wishlist.emptyHint': 'किसी भी फसल की कीमत और स्टॉक पर नज़र रखने के लिए दिल पर टैप करें।',
+  'wishlist.findCrops': 'फसलें खोजें',
+  'wishlist.selectAll': 'स्टॉक में मौजूद सभी चुनें',
+  'wishlist.addToCart': '{count} कार्ट में जोड़ें',
+  'wishlist.addNoneToCart': 'कार्ट में जोड़ें',
+  'wishlist.select': '{name} चुनें',
+  'wishlist.percentCheaper': '{percent}% सस्ता',
+  'wishlist.backInStock': 'फिर से स्टॉक में',
+  'wishlist.outOfStock': 'स्टॉक में नहीं',
+  'wishlist.priceWhenSaved': 'सहेजते समय की कीमत',
+  'wishlist.was': 'पहले',
+  'wishlist.minOrder': 'न्यूनतम ऑर्डर {quantity} {unit}',
+  'wishlist.available': '{quantity} {unit} उपलब्ध',
+  'wishlist.remove': 'विशलिस्ट से हटाएँ',
+  'wishlist.removeItem': '{name} को विशलिस्ट से हटाएँ',
+  'wishlist.searchesTab': 'सहेजी गई खोजें ({count})',
+  'wishlist.loadingSearches': 'सहेजी गई खोजें लोड हो रही हैं...',
+  'wishlist.noSearches': 'कोई सहेजी गई खोज नहीं',
+  'wishlist.noSearchesHint': 'मार्केटप्लेस पर फ़िल्टर लगाएँ और बाद में दोबारा चलाने के लिए "यह खोज सहेजें" चुनें।',
+  'wishlist.goToMarketplace': 'मार्केटप्लेस पर जाएँ',
+  'wishlist.savedOn': '{date} को सहेजा गया',
+  'wishlist.lastRun': 'पिछली बार {date} को चलाया',
+  'wishlist.lastMatch': 'पिछला मेल {date}',
+  'wishlist.alertHint': 'मेल खाने वाली नई लिस्टिंग के बारे में मुझे सूचित करें',
+  'wishlist.alerts': 'अलर्ट',
+  'wishlist.run': 'चलाएँ',
+  'wishlist.deleteSearch': 'सहेजी गई खोज हटाएँ',
+  'wishlist.deleteItem': '{name} हटाएँ',
+  'myBids.title': 'मेरी बोलियाँ',
+  'myBids.activeCount': '{count} सक्रिय',
+  'myBids.awaiting.one': '{count} जवाबी प्रस्ताव पर आपका जवाब चाहिए',
+  'myBids.awaiting.other': '{count} जवाबी प्रस्तावों पर आपका जवाब चाहिए',
+  'myBids.filter': 'बोलियाँ फ़िल्टर करें',
+  'myBids.filterAll': 'सभी ({count})',
+  'myBids.filterActive': 'सक्रिय ({count})',
+  'myBids.filterAccepted': 'स्वीकृत',
+  'myBids.filterClosed': 'बंद',
+  'myBids.loading': 'आपकी बोलियाँ लोड हो रही हैं...',
+  'myBids.none': 'यहाँ कोई बोली नहीं',
+  'myBids.noneHint': 'मार्केटप्लेस की फसलों पर आपकी बोलियाँ यहाँ दिखेंगी।',
+  'myBids.placedOn': '{date} को लगाई',
+  'myBids.highestHint': 'अभी आपकी बोली सबसे ऊँची है',
+  'myBids.highest': 'सबसे ऊँची बोली',
+  'myBids.outbidHint': 'किसी और खरीदार ने ज़्यादा बोली लगाई है',
+  'myBids.outbid': 'पीछे रह गई',
+  'myBids.total': 'कुल ₹{amount}',
+  'myBids.expiresIn': '{time} में समाप्त',
+  'myBids.closedOn': '{date} को बंद',
+  'myBids.countered': 'किसान ने ₹{amount}/{unit} का जवाबी प्रस्ताव दिया। स्वीकार करें, जवाबी प्रस्ताव दें या वापस लें।',
+  'myBids.newPrice': 'प्रति {unit} नई कीमत',
+  'myBids.raiseBid': 'बोली बढ़ाएँ',
+  'myBids.cancel': 'रद्द करें',
+  'myBids.negotiation': 'मोलभाव ({count})',
+  'myBids.withdraw': 'वापस लें',
+  'myBids.raise': 'बढ़ाएँ',
+  'myBids.counter': 'जवाबी प्रस्ताव',
+  'myBids.acceptOffer': 'प्रस्ताव स्वीकारें',
+
+  'cropDetails.loading': 'फसल का विवरण लोड हो रहा है...',
+  'cropDetails.error': 'कुछ गलत हो गया',
+  'cropDetails.back': 'मार्केटप्लेस पर वापस जाएँ',
+  'cropDetails.certifications': 'प्रमाणपत्र',
+  'cropDetails.share': 'शेयर करें',
+  'cropDetails.basePrice': 'मूल कीमत',
+  'cropDetails.instantBuy': 'तुरंत खरीदें',
+  'cropDetails.available': 'उपलब्ध',
+  'cropDetails.readyNow': 'अभी तैयार',
+  'cropDetails.days': '{count} दिन',
+  'cropDetails.untilHarvest': 'कटाई तक',
+  'cropDetails.views': 'व्यू',
+  'cropDetails.description': 'विवरण',
+  'cropDetails.specifications': 'विशेषताएँ',
+  'cropDetails.shipping': 'शिपिंग और डिलीवरी',
+  'cropDetails.pickup': 'पिकअप के लिए उपलब्ध',
+  'cropDetails.deliveryWithin': '{radius} किमी के भीतर डिलीवरी',
+  'cropDetails.deliveryDays': 'अनुमानित {count} दिन में डिलीवरी',
+  'cropDetails.reviews': 'समीक्षाएँ',
+  'cropDetails.placeYourBid': 'अपनी बोली लगाएँ',
+  'cropDetails.timeLeft': '{time} बाकी',
+  'cropDetails.biddingClosed': 'बोली बंद',
+  'cropDetails.highestBid': 'सबसे ऊँची बोली',
+  'cropDetails.totalBids': 'कुल बोलियाँ',
+  'cropDetails.average': 'औसत',
+  'cropDetails.bidAmount': 'बोली राशि (₹/{unit})',
+  'cropDetails.minBid': 'न्यूनतम: ₹{amount}',
+  'cropDetails.quantity': 'मात्रा ({unit})',
+  'cropDetails.maxQuantity': 'अधिकतम: {quantity} {unit}',
+  'cropDetails.message': 'संदेश (वैकल्पिक)',
+  'cropDetails.totalValue': 'कुल मूल्य:',
+  'cropDetails.cancel': 'रद्द करें',
+  'cropDetails.submitBid': 'बोली भेजें',
+  'cropDetails.placeBid': 'बोली लगाएँ',
+  'cropDetails.instantBuyAt': 'तुरंत खरीदें @ ₹{price}',
+  'cropDetails.addMore': 'और जोड़ें (कार्ट में {quantity} {unit})',
+  'cropDetails.addToCart': 'कार्ट में जोड़ें',
+  'cropDetails.processing': 'प्रोसेस हो रहा है...',
+
+  'placeBid.back': 'वापस जाएँ',
+  'placeBid.subtitle': 'किसान को प्रतिस्पर्धी प्रस्ताव भेजें',
+  'placeBid.marketPrice': 'बाज़ार भाव',
+  'placeBid.harvestDate': 'कटाई की तारीख',
+  'placeBid.negotiation': 'आपका मोलभाव',
+  'placeBid.currentTerms': 'मौजूदा शर्तें:',
+  'placeBid.termsQuantity': '{quantity} {unit} के लिए · {total}।',
+  'placeBid.offerExpires': 'प्रस्ताव {date} को समाप्त होगा।',
+  'placeBid.counterOffer': 'जवाबी प्रस्ताव',
+  'placeBid.roundLimit': 'दौर की सीमा पूरी',
+  'placeBid.acceptAt': '₹{amount}/{unit} स्वीकारें',
+  'placeBid.yourOffer': 'आपका प्रस्ताव',
+  'placeBid.pricePer': 'प्रति {unit} बोली कीमत',
+  'placeBid.pricePlaceholder': 'अपनी बोली कीमत लिखें',
+  'placeBid.priceRequired': 'कीमत ज़रूरी है',
+  'placeBid.priceMin': 'कीमत कम से कम ₹1 होनी चाहिए',
+  'placeBid.aboveMarket': 'बाज़ार से +{percent}% ऊपर',
+  'placeBid.belowMarket': 'बाज़ार से {percent}% नीचे',
+  'placeBid.atMarket': 'बाज़ार भाव पर',
+  'placeBid.quantity': 'मात्रा',
+  'placeBid.quantityUnit': 'मात्रा ({unit})',
+  'placeBid.quantityPlaceholder': 'मात्रा लिखें',
+  'placeBid.maxAvailable': 'अधिकतम उपलब्ध: {quantity} {unit}',
+  'placeBid.quantityRequired': 'मात्रा ज़रूरी है',
+  'placeBid.quantityMin': 'न्यूनतम मात्रा 1 {unit} है',
+  'placeBid.delivery': 'डिलीवरी विवरण',
+  'placeBid.deliveryDate': 'पसंदीदा डिलीवरी तारीख',
+  'placeBid.selectDate': 'तारीख चुनें',
+  'placeBid.dateRequired': 'डिलीवरी तारीख ज़रूरी है',
+  'placeBid.deliveryLocation': 'डिलीवरी स्थान',
+  'placeBid.selectLocation': 'स्थान चुनें',
+  'placeBid.pickup': 'खेत से पिकअप',
+  'placeBid.manageAddresses': 'पते प्रबंधित करें',
+  'placeBid.locationRequired': 'डिलीवरी स्थान ज़रूरी है',
+  'placeBid.messageTitle': 'किसान के लिए संदेश',
+  'placeBid.optional': '(वैकल्पिक)',
+  'placeBid.yourMessage': 'आपका संदेश',
+  'placeBid.messagePlaceholder': 'किसान के लिए कोई खास ज़रूरत, सवाल या नोट जोड़ें...',
+  'placeBid.messageHint': 'इससे किसान आपकी ज़रूरतें बेहतर समझ पाएगा',
+  'placeBid.summary': 'बोली सारांश',
+  'placeBid.pricePerUnit': 'प्रति {unit} कीमत',
+  'placeBid.totalAmount': 'कुल बोली राशि',
+  'placeBid.agreePrefix': 'मैं सहमत हूँ',
+  'placeBid.terms': 'नियम और शर्तें',
+  'placeBid.agreeSuffix': 'और समझता/समझती हूँ कि किसान के स्वीकार करने पर यह बोली बाध्यकारी है।',
+  'placeBid.termsRequired': 'बोली लगाने के लिए आपको शर्तें स्वीकारनी होंगी',
+  'placeBid.cancel': 'रद्द करें',
+  'placeBid.placing': 'बोली लगाई जा रही है...',
+  'placeBid.placeFor': 'बोली लगाएँ - {total}',
+  'placeBid.notFound': 'फसल नहीं मिली',
+  'placeBid.notFoundHint': 'आप जो फसल ढूँढ रहे हैं वह मौजूद नहीं है या हटा दी गई है।',
+
+  'bids.highest': 'सबसे ऊँची बोली',
+  'bids.orders': '{count} ऑर्डर',
+  'bids.total': 'कुल: ₹{amount}',
+  'bids.pending': 'लंबित',
+  'bids.accepted': 'स्वीकृत',
+  'bids.rejected': 'अस्वीकृत',
+  'bids.expired': 'समाप्त',
+  'bids.countered': 'जवाबी प्रस्ताव दिया',
+  'bids.withdrawn': 'वापस ली गई',
+  'bids.negotiationRounds': 'मोलभाव ({count}/{max} दौर)',
+  'bids.responded': '{date} को जवाब दिया',
+  'bids.rejectTooltip': 'बोली अस्वीकारें',
+  'bids.reject': 'अस्वीकारें',
+  'bids.counterTooltip': 'जवाबी प्रस्ताव दें',
+  'bids.roundLimit': 'मोलभाव के दौर की सीमा पूरी',
+  'bids.counter': 'जवाबी प्रस्ताव',
+  'bids.acceptTooltip': 'बोली स्वीकारें',
+  'bids.accept': 'स्वीकारें',
+  'negotiation.round': '{max} में से दौर {count}',
+  'negotiation.finalRound': 'आखिरी दौर – स्वीकारें या अस्वीकारें',
+  'negotiation.left.one': '{count} जवाबी प्रस्ताव बाकी',
+  'negotiation.left.other': '{count} जवाबी प्रस्ताव बाकी',
+  'negotiation.bid': 'बोली',
+  'negotiation.counter': 'जवाबी प्रस्ताव',
+  'negotiation.yourTurn': 'आपके जवाब का इंतज़ार',
+  'negotiation.theirTurn': 'दूसरे पक्ष का इंतज़ार',
+  'acceptBid.title': 'यह बोली स्वीकारें?',
+  'acceptBid.buyer': 'खरीदार',
+  'acceptBid.amount': 'बोली राशि',
+  'acceptBid.quantity': 'मात्रा',
+  'acceptBid.totalValue': 'कुल मूल्य',
+  'acceptBid.notice': 'यह बोली स्वीकार करके आप अपनी फसल तय कीमत पर बेचने के लिए सहमत होते हैं। खरीदार को सूचित किया जाएगा और ऑर्डर बनाया जाएगा।',
+  'acceptBid.cancel': 'रद्द करें',
+  'acceptBid.confirm': 'बोली स्वीकारें',
+  'counterBid.title': 'जवाबी प्रस्ताव दें',
+  'counterBid.toFarmer': 'किसान को',
+  'counterBid.toBuyer': '{name} को',
+  'counterBid.round': '{max} में से दौर {count}',
+  'counterBid.theirOffer': 'उनका प्रस्ताव',
+  'counterBid.theirBid': 'उनकी बोली',
+  'counterBid.yourCounter': 'आपका जवाबी प्रस्ताव',
+  'counterBid.amount': 'जवाबी राशि (₹/{unit})',
+  'counterBid.quantity': 'मात्रा ({unit})',
+  'counterBid.deliveryDate': 'डिलीवरी तारीख',
+  'counterBid.message': 'संदेश (वैकल्पिक)',
+  'counterBid.more': 'उनकी बोली से ₹{amount} ज़्यादा (+{percent}%)',
+  'counterBid.less': 'उनके प्रस्ताव से ₹{amount} कम ({percent}%)',
+  'counterBid.same': 'उनके प्रस्ताव के बराबर',
+  'counterBid.totalValue': 'कुल मूल्य',
+  'counterBid.cancel': 'रद्द करें',
+  'counterBid.send': 'जवाबी प्रस्ताव भेजें',
+  'rejectBid.title': 'यह बोली अस्वीकारें?',
+  'rejectBid.from': '{name} से',
+  'rejectBid.reason': 'अस्वीकार करने का कारण (वैकल्पिक)',
+  'rejectBid.customReason': 'अपना कारण',
+  'rejectBid.reasonPlaceholder': 'अपना कारण लिखें...',
+  'rejectBid.cancel': 'रद्द करें',
+  'rejectBid.confirm': 'बोली अस्वीकारें',
+  'cropBids.back': 'वापस जाएँ',
+  'cropBids.title': 'आपकी फसल पर बोलियाँ',
+  'cropBids.live': 'लाइव',
+  'cropBids.connecting': 'कनेक्ट हो रहा है...',
+  'cropBids.offline': 'ऑफ़लाइन',
+  'cropBids.refresh': 'बोलियाँ रीफ़्रेश करें',
+  'cropBids.loading': 'बोलियाँ लोड हो रही हैं...',
+  'cropBids.available': '{quantity} {unit} उपलब्ध',
+  'cropBids.listedPrice': 'सूचीबद्ध कीमत',
+  'cropBids.averageBid': 'औसत बोली',
+  'cropBids.totalBids': 'कुल बोलियाँ',
+  'cropBids.all': 'सभी',
+  'cropBids.none': 'अभी कोई बोली नहीं',
+  'cropBids.noneHint': 'जब खरीदार आपकी फसल पर बोली लगाएँगे, वे यहाँ तुरंत दिखेंगी।',
+  'cropBids.processing': 'प्रोसेस हो रहा है...',
+  'cropBids.myBids': 'मेरी बोलियाँ',
+  'cropBids.comingSoon': 'बोली प्रबंधन जल्द आ रहा है...',
+};
+
+export default HI;
@@ -0,0 +1,635 @@
+import { TranslationCatalog } from './en';
+
+/** Marathi catalog */
+const MR: TranslationCatalog = {
+  'common.retry': 'पुन्हा प्रयत्न करा',
+  'common.discard': 'काढून टाका',
+  'common.close': 'बंद करा',
+
+  'format.lakh': 'लाख',
+  'format.crore': 'कोटी',
+
+  'nav.dashboard': 'डॅशबोर्ड',
+  'nav.marketplace': 'बाजार',
+  'nav.myProducts': 'माझी उत्पादने',
+  'nav.addProduct': 'उत्पादन जोडा',
+  'nav.myBids': 'माझ्या बोली',
+  'nav.wishlist': 'इच्छा यादी',
+  'nav.orders': 'ऑर्डर',
+  'nav.cart': 'कार्ट',
+  'nav.messages': 'संदेश',
+  'nav.profile': 'प्रोफाइल',
+
+  'header.searchPlaceholder': 'उत्पादने, शेतकरी शोधा...',
+  'header.notifications': 'सूचना',
+  'header.messages': 'संदेश',
+  'header.cart': 'कार्ट',
+  'header.language': 'भाषा',
+
+  'menu.profile': 'माझे प्रोफाइल',
+  'menu.settings': 'सेटिंग्ज',
+  'menu.adminPanel': 'ॲडमिन पॅनल',
+  'menu.installApp': 'ॲप इंस्टॉल करा',
+  'menu.logout': 'लॉग आउट',
+
+  'connectivity.offline': 'तुम्ही ऑफलाइन आहात. जतन केलेला डेटा दाखवत आहोत.',
+  'connectivity.pending.one': 'पुन्हा कनेक्ट झाल्यावर {count} बदल सिंक होईल.',
+  'connectivity.pending.other': 'पुन्हा कनेक्ट झाल्यावर {count} बदल सिंक होतील.',
+  'connectivity.syncing.one': 'पुन्हा ऑनलाइन. {count} बदल सिंक होत आहे…',
+  'connectivity.syncing.other': 'पुन्हा ऑनलाइन. {count} बदल सिंक होत आहेत…',
+  'connectivity.failed.one': '{count} बदल सिंक होऊ शकला नाही.',
+  'connectivity.failed.other': '{count} बदल सिंक होऊ शकले नाहीत.',
+  'connectivity.queueError': 'जतन केलेले बदल अपडेट करता आले नाहीत. कृपया पुन्हा प्रयत्न करा.',
+
+  'voice.start': 'बोला',
+  'voice.listening': 'ऐकत आहे… थांबवण्यासाठी टॅप करा',
+  'voice.error.notAllowed': 'व्हॉइस इनपुटसाठी मायक्रोफोनची परवानगी द्या.',
+  'voice.error.noSpeech': 'समजले नाही. कृपया पुन्हा बोला.',
+  'voice.error.failed': 'व्हॉइस इनपुट सध्या उपलब्ध नाही.',
+
+  'draft.found': '{time} चा एक जतन न केलेला ड्राफ्ट आहे.',
+  'draft.conflict': 'तुमचा ड्राफ्ट सुरू झाल्यानंतर {time} रोजी हे इतरत्र बदलले गेले. ड्राफ्ट पुढे सुरू ठेवल्यास, जतन करताना ते बदल बदलले जातील.',
+  'draft.resume': 'ड्राफ्ट पुढे सुरू ठेवा',
+
+  'settings.title': 'सेटिंग्ज',
+  'settings.subtitle': 'तुमची ॲप प्राधान्ये आणि सूचना व्यवस्थापित करा',
+  'settings.saving': 'जतन करत आहे...',
+  'settings.preferences.title': 'ॲप प्राधान्ये',
+  'settings.preferences.subtitle': 'तुमचा ॲप अनुभव सानुकूलित करा',
+  'settings.language.title': 'भाषा',
+  'settings.language.description': 'तुमची आवडती भाषा निवडा',
+  'settings.theme.title': 'थीम',
+  'settings.theme.description': 'ॲपचे स्वरूप निवडा',
+  'settings.theme.light': 'लाइट',
+  'settings.theme.dark': 'डार्क',
+  'settings.theme.system': 'सिस्टम',
+  'settings.theme.highContrast': 'उच्च कॉन्ट्रास्ट',
+  'settings.compactView.title': 'कॉम्पॅक्ट व्ह्यू',
+  'settings.compactView.description': 'स्क्रीनवर अधिक आयटम दाखवा',
+  'settings.notifications.title': 'सूचना',
+  'settings.notifications.subtitle': 'तुम्हाला कोणत्या सूचना मिळाव्यात ते ठरवा',
+  'settings.orderUpdates.title': 'ऑर्डर अपडेट',
+  'settings.orderUpdates.description': 'ऑर्डरची स्थिती बदलल्यावर सूचना मिळवा',
+  'settings.bidAlerts.title': 'बोली अलर्ट',
+  'settings.bidAlerts.description': 'तुमच्या पिकांवरील नवीन बोलींचे अलर्ट मिळवा',
+  'settings.priceAlerts.title': 'भाव अलर्ट',
+  'settings.priceAlerts.description': 'पाहत असलेल्या वस्तूंचे भाव बदलल्यावर सूचना मिळवा',
+  'settings.promotions.title': 'प्रमोशन आणि ऑफर',
+  'settings.promotions.description': 'विशेष ऑफर आणि सवलती मिळवा',
+  'settings.newsletter.title': 'वृत्तपत्र',
+  'settings.newsletter.description': 'साप्ताहिक अपडेट आणि शेती टिप्स',
+  'settings.channels.title': 'सूचना माध्यमे',
+  'settings.channels.subtitle': 'तुम्हाला सूचना कशा मिळाव्यात ते निवडा',
+  'settings.channels.push.title': 'पुश',
+  'settings.channels.push.description': 'ॲपमधील सूचना',
+  'settings.channels.sms.title': 'एसएमएस',
+  'settings.channels.sms.description': 'मजकूर संदेश',
+  'settings.channels.email.title': 'ईमेल',
+  'settings.channels.email.description': 'ईमेल सूचना',
+  'settings.reset': 'डीफॉल्टवर रीसेट करा',
+  'settings.save': 'सेटिंग्ज जतन करा',
+  'settings.saved': 'सेटिंग्ज यशस्वीरित्या जतन झाल्या',
+  'settings.saveFailed': 'सेटिंग्ज जतन करता आल्या नाहीत. तुमचे बदल या डिव्हाइसवर ठेवले आहेत.',
+  'settings.resetDone': 'सेटिंग्ज डीफॉल्टवर रीसेट झाल्या',
+
+  'cart.title': 'शॉपिंग कार्ट',
+  'cart.clear': 'कार्ट रिकामी करा',
+  'cart.checkingStock': 'साठ्याची उपलब्धता तपासत आहे',
+  'cart.empty': 'तुमची कार्ट रिकामी आहे',
+  'cart.emptyHint': 'मार्केटप्लेसमधून ताजा माल जोडा',
+  'cart.browse': 'उत्पादने पहा',
+  'cart.separateOrder': 'स्वतंत्र ऑर्डर म्हणून पाठवले जाईल',
+  'cart.minOrder': 'किमान {quantity} {unit}',
+  'cart.decrease': 'प्रमाण कमी करा',
+  'cart.increase': 'प्रमाण वाढवा',
+  'cart.quantityOf': '{name} चे प्रमाण',
+  'cart.remove': 'काढा',
+  'cart.removeItem': '{name} काढा',
+  'cart.orderSubtotal': 'ऑर्डर उप-बेरीज',
+  'cart.summary': 'सारांश',
+  'cart.items': 'वस्तू ({count})',
+  'cart.subtotal': 'उप-बेरीज',
+  'cart.platformFee': 'प्लॅटफॉर्म शुल्क',
+  'cart.total': 'एकूण',
+  'cart.ordersPlaced.one': '{count} ऑर्डर दिली जाईल, प्रत्येक शेतकऱ्यासाठी एक.',
+  'cart.ordersPlaced.other': '{count} ऑर्डर दिल्या जातील, प्रत्येक शेतकऱ्यासाठी एक.',
+  'cart.fixIssues': 'पुढे जाण्यासाठी ठळक केलेल्या वस्तू दुरुस्त करा.',
+  'cart.proceed': 'चेकआउट करा',
+  'cart.continueShopping': 'खरेदी सुरू ठेवा',
+  'checkout.title': 'चेकआउट',
+  'checkout.placed': 'ऑर्डर दिली',
+  'checkout.placedHint': 'तुमच्या शेतकऱ्यांना कळवले आहे. प्रत्येक शेतकरी आपला भाग स्वतंत्र ऑर्डर म्हणून पाठवेल.',
+  'checkout.viewOrder': 'ऑर्डर पहा',
+  'checkout.myOrders': 'माझ्या ऑर्डरवर जा',
+  'checkout.stepReview': 'पुनरावलोकन',
+  'checkout.orderFrom': '{name} कडून ऑर्डर',
+  'checkout.orderTotal': 'ऑर्डरची एकूण रक्कम (प्लॅटफॉर्म शुल्कासह)',
+  'checkout.editCart': 'कार्ट बदला',
+  'checkout.continue': 'पुढे चला',
+  'checkout.back': 'मागे',
+  'checkout.stepAddress': 'डिलिव्हरी पत्ता',
+  'checkout.deliverTo': 'येथे डिलिव्हर करा',
+  'checkout.manageAddresses': 'पत्ते व्यवस्थापित करा',
+  'checkout.default': 'डीफॉल्ट',
+  'checkout.newAddress': 'नवीन पत्ता वापरा',
+  'checkout.fullName': 'पूर्ण नाव',
+  'checkout.mobile': 'मोबाइल नंबर',
+  'checkout.addressLine1': 'पत्ता ओळ 1',
+  'checkout.addressLine2': 'पत्ता ओळ 2 (ऐच्छिक)',
+  'checkout.landmark': 'खूण (ऐच्छिक)',
+  'checkout.pincode': 'पिनकोड',
+  'checkout.city': 'शहर',
+  'checkout.state': 'राज्य',
+  'checkout.saveAddress': 'माझ्या पत्त्यांमध्ये जतन करा',
+  'checkout.stepPayment': 'पेमेंट',
+  'checkout.paymentMethod': 'पेमेंट पद्धत',
+  'checkout.notes': 'शेतकऱ्यांसाठी टीप (ऐच्छिक)',
+  'checkout.deliveryCharges.one': '{count} ऑर्डर दिली जाईल. डिलिव्हरी शुल्क प्रत्येक शेतकरी निश्चित करेल.',
+  'checkout.deliveryCharges.other': '{count} ऑर्डर दिल्या जातील. डिलिव्हरी शुल्क प्रत्येक शेतकरी निश्चित करेल.',
+  'checkout.placeOrder': 'ऑर्डर द्या',
+
+  'orders.title': 'माझ्या ऑर्डर',
+  'orders.subtitleFarmer': 'खरेदीदारांच्या ऑर्डर व्यवस्थापित करा',
+  'orders.subtitleBuyer': 'तुमची खरेदी ट्रॅक करा',
+  'orders.statTotal': 'एकूण ऑर्डर',
+  'orders.statActive': 'सक्रिय',
+  'orders.statCompleted': 'पूर्ण',
+  'orders.statRevenue': 'उत्पन्न',
+  'orders.loading': 'ऑर्डर लोड होत आहेत...',
+  'orders.errorTitle': 'काहीतरी चुकले',
+  'orders.retry': 'पुन्हा प्रयत्न करा',
+  'orders.noActive': 'सक्रिय ऑर्डर नाहीत',
+  'orders.noActiveHint': 'सुरू असलेल्या ऑर्डर येथे दिसतील',
+  'orders.noCompleted': 'पूर्ण ऑर्डर नाहीत',
+  'orders.noCompletedHint': 'तुमच्या डिलिव्हर झालेल्या ऑर्डर येथे दिसतील',
+  'orders.noCancelled': 'रद्द ऑर्डर नाहीत',
+  'orders.noCancelledHint': 'रद्द ऑर्डर येथे दिसतील',
+  'orders.none': 'अजून ऑर्डर नाहीत',
+  'orders.noneFarmerHint': 'खरेदीदारांनी तुमच्या पिकांवर ऑर्डर दिल्यावर त्या येथे दिसतील',
+  'orders.noneBuyerHint': 'पहिली ऑर्डर देण्यासाठी मार्केटप्लेसमध्ये खरेदी सुरू करा',
+  'orders.browseMarketplace': 'मार्केटप्लेस पहा',
+  'orders.updating': 'ऑर्डर अपडेट होत आहे...',
+  'orders.listHint': 'तुमच्या ऑर्डर ट्रॅक आणि व्यवस्थापित करा',
+  'orders.emptyHint': 'तुमच्या ऑर्डर येथे दिसतील',
+  'orders.detailTitle': 'ऑर्डर #{id}',
+  'orders.detailPlaceholder': 'ऑर्डरचा तपशील येथे दिसेल.',
+  'orders.viewDetails': 'तपशील पहा',
+  'orders.trackOrder': 'ऑर्डर ट्रॅक करा',
+  'orders.track': 'ट्रॅक करा',
+  'orders.contact': '{party} शी संपर्क साधा',
+  'orders.cancelOrder': 'ऑर्डर रद्द करा',
+  'orders.arrivingToday': 'आज पोहोचत आहे!',
+  'orders.expectedToday': 'आज अपेक्षित',
+  'orders.deliveryTomorrow': 'उद्या डिलिव्हरी',
+  'orders.expectedOn': '{date} पर्यंत अपेक्षित',
+  'orders.tracking': 'ट्रॅकिंग: {id}',
+  'orders.loadingDetails': 'ऑर्डरचा तपशील लोड होत आहे...',
+  'orders.backToOrders': 'ऑर्डरवर परत जा',
+  'orders.placedOn': '{date} रोजी दिली',
+  'orders.liveTracking': 'थेट ट्रॅकिंग',
+  'orders.delivered': 'डिलिव्हर झाले',
+  'orders.arrivingAround': 'साधारण या वेळी पोहोचेल',
+  'orders.kmAway': '{distance} किमी दूर',
+  'orders.waitingLocation': 'डिलिव्हरी भागीदाराच्या स्थानाची प्रतीक्षा…',
+  'orders.updatedAt': '{time} ला अपडेट केले',
+  'orders.items': 'वस्तू',
+  'orders.subtotal': 'उप-बेरीज',
+  'orders.delivery': 'डिलिव्हरी',
+  'orders.platformFee': 'प्लॅटफॉर्म शुल्क',
+  'orders.discount': 'सूट',
+  'orders.total': 'एकूण',
+  'orders.howWasIt': 'ही ऑर्डर कशी होती?',
+  'orders.rateBuyerHint': 'इतरांना विश्वासाने व्यापार करता यावा म्हणून खरेदीदाराला रेटिंग द्या.',
+  'orders.rateFarmerHint': 'इतरांना विश्वासाने व्यापार करता यावा म्हणून शेतकरी आणि मालाला रेटिंग द्या.',
+  'orders.rate': 'ऑर्डरला रेटिंग द्या',
+  'orders.yourReviews': 'तुमची पुनरावलोकने',
+  'orders.dispute': 'वाद',
+  'orders.problem': 'या ऑर्डरमध्ये अडचण आहे?',
+  'orders.disputeBuyerHint': 'वाद नोंदवा, आमची टीम खरेदीदारासोबत तो सोडवण्यास मदत करेल.',
+  'orders.disputeFarmerHint': 'वाद नोंदवा, आमची टीम शेतकऱ्यासोबत तो सोडवण्यास मदत करेल.',
+  'orders.raiseDispute': 'वाद नोंदवा',
+  'orders.timeline': 'कालरेषा',
+  'orders.buyer': 'खरेदीदार',
+  'orders.seller': 'विक्रेता',
+  'orders.message': 'संदेश',
+  'orders.expected': 'अपेक्षित',
+  'orders.partner': 'भागीदार',
+  'orders.trackingId': 'ट्रॅकिंग आयडी',
+  'orders.trackDelivery': 'डिलिव्हरी ट्रॅक करा',
+  'orders.notFound': 'ऑर्डर सापडली नाही.',
+  'orders.cancelTitle': 'ऑर्डर रद्द करायची?',
+  'orders.cancelReason': 'कृपया रद्द करण्याचे कारण निवडा:',
+  'orders.specify': 'कृपया नमूद करा',
+  'orders.reasonPlaceholder': 'तुमचे कारण लिहा...',
+  'orders.cannotUndo': 'ही कृती मागे घेता येणार नाही.',
+  'orders.refundNote': 'तुमच्या मूळ पेमेंट पद्धतीवर परतावा सुरू केला जाईल.',
+  'orders.keepOrder': 'ऑर्डर ठेवा',
+  'disputes.raiseTitle': 'वाद नोंदवा',
+  'disputes.whatWentWrong': 'काय चुकले?',
+  'disputes.type': 'वादाचा प्रकार',
+  'disputes.describe': 'समस्येचे वर्णन करा',
+  'disputes.describePlaceholder': 'तुम्हाला काय अपेक्षित होते, काय झाले, आणि ऑर्डरचा किती भाग बाधित आहे?',
+  'disputes.minLength': 'किमान {count} अक्षरे',
+  'disputes.photos': 'फोटो ({count}/{max})',
+  'disputes.removePhoto': '{name} काढा',
+  'disputes.addPhoto': 'फोटो जोडा',
+  'disputes.reviewNote': 'आमची टीम वादाचे पुनरावलोकन करेल आणि या ऑर्डरच्या वाद थ्रेडमध्ये उत्तर देईल. कोणताही परतावा मूळ पेमेंट पद्धतीवर जमा होईल.',
+  'disputes.cancel': 'रद्द करा',
+  'disputes.submit': 'वाद सादर करा',
+  'disputes.conversation': 'वादाचे संभाषण',
+  'disputes.raisedBy': '{name} यांनी {date} रोजी नोंदवला',
+  'disputes.handledBy': '{name} हाताळत आहेत',
+  'disputes.you': 'तुम्ही',
+  'disputes.openPhoto': '{name} उघडा',
+  'disputes.noMessages': 'अजून संदेश नाहीत',
+  'disputes.reply': 'उत्तर',
+  'disputes.send': 'पाठवा',
+  'disputes.closed': 'हा वाद {status} आहे; उत्तरे बंद आहेत.',
+
+  'reviews.rating': 'रेटिंग',
+  'reviews.rateStars.one': '{count} स्टार द्या',
+  'reviews.rateStars.other': '{count} स्टार द्या',
+  'reviews.count.one': '{count} पुनरावलोकन',
+  'reviews.count.other': '{count} पुनरावलोकने',
+  'reviews.distribution': 'रेटिंगचे वितरण',
+  'reviews.report': 'पुनरावलोकनाची तक्रार करा',
+  'reviews.reported': 'तक्रार नोंदवली',
+  'reviews.photoFrom': '{name} यांचा फोटो',
+  'reviews.none': 'अजून पुनरावलोकने नाहीत',
+  'reviews.rateOrder': 'या ऑर्डरला रेटिंग द्या',
+  'reviews.reviewOf': '{name} चे पुनरावलोकन',
+  'reviews.rateSubject': '{name} ला रेटिंग द्या',
+  'reviews.standOut': 'काय विशेष वाटले',
+  'reviews.comment': 'टिप्पणी (ऐच्छिक)',
+  'reviews.removePhoto': '{name} काढा',
+  'reviews.photo': 'फोटो',
+  'reviews.later': 'नंतर',
+  'reviews.submit.one': 'पुनरावलोकन पाठवा',
+  'reviews.submit.other': '{count} पुनरावलोकने पाठवा',
+
+  'marketplace.title': 'मार्केटप्लेस',
+  'marketplace.cropCount.one': '{count} पीक',
+  'marketplace.cropCount.other': '{count} पिके',
+  'marketplace.searchPlaceholder': 'पिके, शेतकरी, ठिकाणे शोधा...',
+  'marketplace.clearSearch': 'शोध साफ करा',
+  'marketplace.voiceSearch': 'आवाजाने शोधा',
+  'marketplace.filters': 'फिल्टर',
+  'marketplace.gridView': 'ग्रिड दृश्य',
+  'marketplace.listView': 'यादी दृश्य',
+  'marketplace.mapView': 'नकाशा दृश्य',
+  'marketplace.savedSearches': 'जतन केलेले शोध',
+  'marketplace.saveSearch': 'हा शोध जतन करा',
+  'marketplace.manageSearches': 'जतन केलेले शोध व्यवस्थापित करा',
+  'marketplace.sortNewest': 'नवीन आधी',
+  'marketplace.sortPriceLow': 'किंमत: कमी ते जास्त',
+  'marketplace.sortPriceHigh': 'किंमत: जास्त ते कमी',
+  'marketplace.sortPopular': 'सर्वात लोकप्रिय',
+  'marketplace.sortRating': 'सर्वोच्च रेटिंग',
+  'marketplace.sortNearest': 'जवळचे आधी',
+  'marketplace.all': 'सर्व',
+  'marketplace.activeFilters': 'सक्रिय फिल्टर:',
+  'marketplace.organic': 'सेंद्रिय',
+  'marketplace.withinKm': '{place} पासून {radius} किमी आत',
+  'marketplace.qualityGrades.one': '{count} गुणवत्ता श्रेणी',
+  'marketplace.qualityGrades.other': '{count} गुणवत्ता श्रेणी',
+  'marketplace.clearAll': 'सर्व साफ करा',
+  'marketplace.inArea': 'या भागात {count} पिके',
+  'marketplace.unmapped': '{count} नकाशा स्थानाशिवाय',
+  'marketplace.noCrops': 'पिके सापडली नाहीत',
+  'marketplace.noCropsHint': 'तुमचे फिल्टर किंवा शोध शब्द बदलून पहा',
+  'marketplace.resetFilters': 'फिल्टर रीसेट करा',
+  'marketplace.loadingMore': 'आणखी पिके लोड होत आहेत...',
+  'marketplace.loadMore': 'आणखी लोड करा',
+  'marketplace.showing': '{total} पैकी {shown} पिके दाखवत आहे',
+  'marketplace.scrollTop': 'वर जा',
+
+  'filters.title': 'फिल्टर',
+  'filters.close': 'फिल्टर बंद करा',
+  'filters.sortBy': 'क्रमवारी',
+  'filters.category': 'श्रेणी',
+  'filters.allCategories': 'सर्व श्रेणी',
+  'filters.location': 'ठिकाण',
+  'filters.allLocations': 'सर्व ठिकाणे',
+  'filters.qualityGrade': 'गुणवत्ता श्रेणी',
+  'filters.priceRange': 'किंमत श्रेणी',
+  'filters.minPrice': 'किमान किंमत',
+  'filters.maxPrice': 'कमाल किंमत',
+  'filters.organic': 'सेंद्रिय',
+  'filters.allProducts': 'सर्व उत्पादने',
+  'filters.organicOnly': 'फक्त सेंद्रिय',
+  'filters.nonOrganic': 'असेंद्रिय',
+  'filters.resetAll': 'सर्व रीसेट करा',
+  'filters.apply': 'फिल्टर लागू करा',
+  'savedSearch.title': 'शोध जतन करा',
+  'savedSearch.name': 'नाव',
+  'savedSearch.namePlaceholder': 'उदा. ₹30 खालील सेंद्रिय कांदे',
+  'savedSearch.alertOnNew': 'नवीन लिस्टिंग जुळल्यावर मला कळवा',
+  'savedSearch.alertsOff': 'सेटिंग्जमध्ये किंमत सूचना बंद आहेत, त्यामुळे तुम्हाला कळवले जाणार नाही.',
+  'savedSearch.cancel': 'रद्द करा',
+  'savedSearch.save': 'जतन करा',
+  'distance.filterLabel': 'अंतर फिल्टर: {label}',
+  'distance.measureFrom': 'येथून मोजा',
+  'distance.locating': 'तुम्हाला शोधत आहे…',
+  'distance.myLocation': 'माझे ठिकाण',
+  'distance.pinAddress': 'माझे पत्ते मध्ये तुमचा डीफॉल्ट पत्ता नकाशावर पिन करा',
+  'distance.deliveryAddress': 'माझा डिलिव्हरी पत्ता',
+  'distance.from': '{place} पासून अंतर',
+  'distance.within': '{radius} किमी आत',
+  'distance.any': 'कोणतेही अंतर (फक्त क्रमवारी)',
+  'distance.clear': 'अंतर काढा',
+  'share.results': 'हे निकाल शेअर करा',
+  'share.more': 'आणखी पर्याय…',
+  'share.copyLink': 'लिंक कॉपी करा',
+
+  'listing.featured': 'विशेष',
+  'listing.removeWishlist': 'विशलिस्टमधून काढा',
+  'listing.addWishlist': 'विशलिस्टमध्ये जोडा',
+  'listing.organic': 'सेंद्रिय',
+  'listing.available': '{quantity} {unit} उपलब्ध',
+  'listing.away': '{distance} दूर',
+  'listing.freightHint': 'या अंतरासाठी रस्ते भाड्याचा अंदाज, दरपत्रक नाही',
+  'listing.transport': '~₹{cost}/क्विंटल वाहतूक',
+  'listing.ready': 'उचलण्यासाठी तयार',
+  'listing.harvestIn.one': '{count} दिवसात कापणी',
+  'listing.harvestIn.other': '{count} दिवसांत कापणी',
+  'listing.harvestOn': 'कापणी: {date}',
+  'listing.bids.one': '{count} बोली',
+  'listing.bids.other': '{count} बोली',
+  'listing.viewDetails': 'तपशील पहा',
+  'listing.placeBid': 'बोली लावा',
+  'farmerCard.verified': 'सत्यापित शेतकरी',
+  'farmerCard.orders': '{count} ऑर्डर',
+  'farmerCard.successRate': 'यश दर',
+  'farmerCard.response': 'प्रतिसाद',
+  'farmerCard.languages': 'भाषा:',
+  'farmerCard.recentReviews': 'अलीकडील पुनरावलोकने ({count})',
+  'farmerCard.memberSince': '{date} पासून सदस्य',
+  'farmerCard.viewProfile': 'प्रोफाइल पहा',
+  'farmerCard.contact': 'संपर्क साधा',
+  'results.noCrops': 'पिके सापडली नाहीत',
+  'results.clearFilters': 'फिल्टर काढा',
+  'results.loadMore': 'आणखी लोड करा',
+  'gallery.image': 'प्रतिमा {index}',
+  'gallery.noImage': 'प्रतिमा उपलब्ध नाही',
+  'gallery.thumbnail': 'लघुप्रतिमा {index}',
+  'gallery.fullSize': 'पूर्ण आकाराची प्रतिमा',
+  'search.backToMarketplace': 'मार्केटप्लेसवर परत जा',
+  'search.resultsFor': '"{term}" साठी निकाल',
+  'search.allCrops': 'सर्व पिके',
+  'search.shareTitle': 'शोध निकाल',
+  'search.label': 'पिके शोधा',
+  'category.empty': 'या श्रेणीतील काहीही तुमच्या फिल्टरशी जुळत नाही',
+  'instantBuy.title': 'त्वरित खरेदी',
+  'instantBuy.quantity': 'प्रमाण निवडा',
+  'instantBuy.deliverTo': 'येथे डिलिव्हर करा',
+  'instantBuy.deliveryAddress': 'डिलिव्हरी पत्ता',
+  'instantBuy.noAddresses': 'तुमच्याकडे अजून जतन केलेले पत्ते नाहीत.',
+  'instantBuy.manageAddresses': 'पत्ते व्यवस्थापित करा',
+  'instantBuy.paymentMethod': 'पेमेंट पद्धत',
+  'instantBuy.upi': 'UPI पेमेंट',
+  'instantBuy.card': 'कार्ड / नेट बँकिंग',
+  'instantBuy.cod': 'डिलिव्हरीवर रोख',
+  'instantBuy.subtotal': 'उप-बेरीज',
+  'instantBuy.platformFee': 'प्लॅटफॉर्म शुल्क (2%)',
+  'instantBuy.estimatedDelivery': 'अंदाजे डिलिव्हरी',
+  'instantBuy.days': '{count} दिवस',
+  'instantBuy.total': 'एकूण',
+  'instantBuy.cancel': 'रद्द करा',
+  'instantBuy.buyNow': 'आता खरेदी करा',
+
+  'wishlist.title': 'विशलिस्ट',
+  'wishlist.saved.one': '{count} जतन केलेले पीक',
+  'wishlist.saved.other': '{count} जतन केलेली पिके',
+  'wishlist.cheaper': '{count} जतन केल्यापेक्षा स्वस्त',
+  'wishlist.backInStockCount': '{count} पुन्हा साठ्यात',
+  'wishlist.browse': 'मार्केटप्लेस पहा',
+  'wishlist.savedCropsTab': 'जतन केलेली पिके ({count})',
+  'wishlist.loading': 'तुमची विशलिस्ट लोड होत आहे...',
+  'wishlist.empty': 'तुमची विशलिस्ट रिकामी आहे',
+  'wishlist.emptyHint': 'कोणत्याही पिकाची किंमत आणि साठा पाहत राहण्यासाठी हृदयावर टॅप करा.',
+  'wishlist.findCrops': 'पिके शोधा',
+  'wishlist.selectAll': 'साठ्यातील सर्व निवडा',
+  'wishlist.addToCart': '{count} कार्टमध्ये जोडा',
+  'wishlist.addNoneToCart': 'कार्टमध्ये जोडा',
+  'wishlist.select': '{name} निवडा',
+  'wishlist.percentCheaper': '{percent}% स्वस्त',
+  'wishlist.backInStock': 'पुन्हा साठ्यात',
+  'wishlist.outOfStock': 'साठा संपला',
+  'wishlist.priceWhenSaved': 'जतन करताना असलेली किंमत',
+  'wishlist.was': 'आधी',
+  'wishlist.minOrder': 'किमान ऑर्डर {quantity} {unit}',
+  'wishlist.available': '{quantity} {unit} उपलब्ध',
+  'wishlist.remove': 'विशलिस्टमधून काढा',
+  'wishlist.removeItem': '{name} विशलिस्टमधून काढा',
+  'wishlist.searchesTab': 'जतन केलेले शोध ({count})',
+  'wishlist.loadingSearches': 'जतन केलेले शोध लोड होत आहेत...',
+  'wishlist.noSearches': 'जतन केलेले शोध नाहीत',
+  'wishlist.noSearchesHint': 'मार्केटप्लेसवर फिल्टर लावा आणि नंतर पुन्हा चालवण्यासाठी "हा शोध जतन करा" निवडा.',
+  'wishlist.goToMarketplace': 'मार्केटप्लेसवर जा',
+  'wishlist.savedOn': '{date} रोजी जतन केले',
+  'wishlist.lastRun': 'शेवटचे {date} रोजी चालवले',
+  'wishlist.lastMatch': 'शेवटची जुळणी {date}',
+  'wishlist.alertHint': 'जुळणाऱ्या नवीन लिस्टिंगबद्दल मला कळवा',
+  'wishlist.alerts': 'सूचना',
+  'wishlist.run': 'चालवा',
+  'wishlist.deleteSearch': 'जतन केलेला शोध हटवा',
+  'wishlist.deleteItem': '{name} हटवा',
+  'myBids.title': 'माझ्या बोली',
+  'myBids.activeCount': '{count} सक्रिय',
+  'myBids.awaiting.one': '{count} प्रति-प्रस्तावाला तुमचे उत्तर हवे आहे',
+  'myBids.awaiting.other': '{count} प्रति-प्रस्तावांना तुमचे उत्तर हवे आहे',
+  'myBids.filter': 'बोली फिल्टर करा',
+  'myBids.filterAll': 'सर्व ({count})',
+  'myBids.filterActive': 'सक्रिय ({count})',
+  'myBids.filterAccepted': 'स्वीकारलेल्या',
+  'myBids.filterClosed': 'बंद',
+  'myBids.loading': 'तुमच्या बोली लोड होत आहेत...',
+  'myBids.none': 'येथे बोली नाहीत',
+  'myBids.noneHint': 'मार्केटप्लेसमधील पिकांवर तुम्ही लावलेल्या बोली येथे दिसतील.',
+  'myBids.placedOn': '{date} रोजी लावली',
+  'myBids.highestHint': 'सध्या तुमची बोली सर्वाधिक आहे',
+  'myBids.highest': 'सर्वाधिक बोली',
+  'myBids.outbidHint': 'दुसऱ्या खरेदीदाराने जास्त बोली लावली आहे',
+  'myBids.outbid': 'मागे पडली',
+  'myBids.total': 'एकूण ₹{amount}',
+  'myBids.expiresIn': '{time} मध्ये संपेल',
+  'myBids.closedOn': '{date} रोजी बंद',
+  'myBids.countered': 'शेतकऱ्याने ₹{amount}/{unit} चा प्रति-प्रस्ताव दिला. स्वीकारा, प्रति-प्रस्ताव द्या किंवा मागे घ्या.',
+  'myBids.newPrice': 'प्रति {unit} नवीन किंमत',
+  'myBids.raiseBid': 'बोली वाढवा',
+  'myBids.cancel': 'रद्द करा',
+  'myBids.negotiation': 'वाटाघाटी ({count})',
+  'myBids.withdraw': 'मागे घ्या',
+  'myBids.raise': 'वाढवा',
+  'myBids.counter': 'प्रति-प्रस्ताव',
+  'myBids.acceptOffer': 'प्रस्ताव स्वीकारा',
+
+  'cropDetails.loading': 'पिकाचा तपशील लोड होत आहे...',
+  'cropDetails.error': 'काहीतरी चुकले',
+  'cropDetails.back': 'मार्केटप्लेसवर परत जा',
+  'cropDetails.certifications': 'प्रमाणपत्रे',
+  'cropDetails.share': 'शेअर करा',
+  'cropDetails.basePrice': 'मूळ किंमत',
+  'cropDetails.instantBuy': 'त्वरित खरेदी',
+  'cropDetails.available': 'उपलब्ध',
+  'cropDetails.readyNow': 'आता तयार',
+  'cropDetails.days': '{count} दिवस',
+  'cropDetails.untilHarvest': 'कापणीपर्यंत',
+  'cropDetails.views': 'दृश्ये',
+  'cropDetails.description': 'वर्णन',
+  'cropDetails.specifications': 'तपशील',
+  'cropDetails.shipping': 'शिपिंग आणि डिलिव्हरी',
+  'cropDetails.pickup': 'उचलण्यासाठी उपलब्ध',
+  'cropDetails.deliveryWithin': '{radius} किमी आत डिलिव्हरी',
+  'cropDetails.deliveryDays': 'अंदाजे {count} दिवसांत डिलिव्हरी',
+  'cropDetails.reviews': 'पुनरावलोकने',
+  'cropDetails.placeYourBid': 'तुमची बोली लावा',
+  'cropDetails.timeLeft': '{time} शिल्लक',
+  'cropDetails.biddingClosed': 'बोली बंद',
+  'cropDetails.highestBid': 'सर्वाधिक बोली',
+  'cropDetails.totalBids': 'एकूण बोली',
+  'cropDetails.average': 'सरासरी',
+  'cropDetails.bidAmount': 'बोली रक्कम (₹/{unit})',
+  'cropDetails.minBid': 'किमान: ₹{amount}',
+  'cropDetails.quantity': 'प्रमाण ({unit})',
+  'cropDetails.maxQuantity': 'कमाल: {quantity} {unit}',
+  'cropDetails.message': 'संदेश (ऐच्छिक)',
+  'cropDetails.totalValue': 'एकूण मूल्य:',
+  'cropDetails.cancel': 'रद्द करा',
+  'cropDetails.submitBid': 'बोली सादर करा',
+  'cropDetails.placeBid': 'बोली लावा',
+  'cropDetails.instantBuyAt': 'त्वरित खरेदी @ ₹{price}',
+  'cropDetails.addMore': 'आणखी जोडा (कार्टमध्ये {quantity} {unit})',
+  'cropDetails.addToCart': 'कार्टमध्ये जोडा',
+  'cropDetails.processing': 'प्रक्रिया सुरू आहे...',
+
+  'placeBid.back': 'मागे जा',
+  'placeBid.subtitle': 'शेतकऱ्याला स्पर्धात्मक प्रस्ताव पाठवा',
+  'placeBid.marketPrice': 'बाजारभाव',
+  'placeBid.harvestDate': 'कापणीची तारीख',
+  'placeBid.negotiation': 'तुमची वाटाघाटी',
+  'placeBid.currentTerms': 'सध्याच्या अटी:',
+  'placeBid.termsQuantity': '{quantity} {unit} साठी · {total}.',
+  'placeBid.offerExpires': 'प्रस्ताव {date} रोजी संपेल.',
+  'placeBid.counterOffer': 'प्रति-प्रस्ताव',
+  'placeBid.roundLimit': 'फेऱ्यांची मर्यादा संपली',
+  'placeBid.acceptAt': '₹{amount}/{unit} स्वीकारा',
+  'placeBid.yourOffer': 'तुमचा प्रस्ताव',
+  'placeBid.pricePer': 'प्रति {unit} बोली किंमत',
+  'placeBid.pricePlaceholder': 'तुमची बोली किंमत लिहा',
+  'placeBid.priceRequired': 'किंमत आवश्यक आहे',
+  'placeBid.priceMin': 'किंमत किमान ₹1 असावी',
+  'placeBid.aboveMarket': 'बाजारापेक्षा +{percent}% जास्त',
+  'placeBid.belowMarket': 'बाजारापेक्षा {percent}% कमी',
+  'placeBid.atMarket': 'बाजारभावाने',
+  'placeBid.quantity': 'प्रमाण',
+  'placeBid.quantityUnit': 'प्रमाण ({unit})',
+  'placeBid.quantityPlaceholder': 'प्रमाण लिहा',
+  'placeBid.maxAvailable': 'कमाल उपलब्ध: {quantity} {unit}',
+  'placeBid.quantityRequired': 'प्रमाण आवश्यक आहे',
+  'placeBid.quantityMin': 'किमान प्रमाण 1 {unit} आहे',
+  'placeBid.delivery': 'डिलिव्हरी तपशील',
+  'placeBid.deliveryDate': 'पसंतीची डिलिव्हरी तारीख',
+  'placeBid.selectDate': 'तारीख निवडा',
+  'placeBid.dateRequired': 'डिलिव्हरी तारीख आवश्यक आहे',
+  'placeBid.deliveryLocation': 'डिलिव्हरी ठिकाण',
+  'placeBid.selectLocation': 'ठिकाण निवडा',
+  'placeBid.pickup': 'शेतातून उचल',
+  'placeBid.manageAddresses': 'पत्ते व्यवस्थापित करा',
+  'placeBid.locationRequired': 'डिलिव्हरी ठिकाण आवश्यक आहे',
+  'placeBid.messageTitle': 'शेतकऱ्यासाठी संदेश',
+  'placeBid.optional': '(ऐच्छिक)',
+  'placeBid.yourMessage': 'तुमचा संदेश',
+  'placeBid.messagePlaceholder': 'शेतकऱ्यासाठी विशेष गरजा, प्रश्न किंवा टिपा जोडा...',
+  'placeBid.messageHint': 'यामुळे शेतकऱ्याला तुमच्या गरजा चांगल्या समजतील',
+  'placeBid.summary': 'बोली सारांश',
+  'placeBid.pricePerUnit': 'प्रति {unit} किंमत',
+  'placeBid.totalAmount': 'एकूण बोली रक्कम',
+  'placeBid.agreePrefix': 'मी सहमत आहे',
+  'placeBid.terms': 'नियम आणि अटी',
+  'placeBid.agreeSuffix': 'आणि शेतकऱ्याने स्वीकारल्यावर ही बोली बंधनकारक आहे हे मला समजते.',
+  'placeBid.termsRequired': 'बोली लावण्यासाठी तुम्ही अटी स्वीकारल्या पाहिजेत',
+  'placeBid.cancel': 'रद्द करा',
+  'placeBid.placing': 'बोली लावत आहे...',
+  'placeBid.placeFor': 'बोली लावा - {total}',
+  'placeBid.notFound': 'पीक सापडले नाही',
+  'placeBid.notFoundHint': 'तुम्ही शोधत असलेले पीक अस्तित्वात नाही किंवा काढले गेले आहे.',
+
+  'bids.highest': 'सर्वाधिक बोली',
+  'bids.orders': '{count} ऑर्डर',
+  'bids.total': 'एकूण: ₹{amount}',
+  'bids.pending': 'प्रलंबित',
+  'bids.accepted': 'स्वीकारली',
+  'bids.rejected': 'नाकारली',
+  'bids.expired': 'कालबाह्य',
+  'bids.countered': 'प्रति-प्रस्ताव दिला',
+  'bids.withdrawn': 'मागे घेतली',
+  'bids.negotiationRounds': 'वाटाघाटी ({count}/{max} फेऱ्या)',
+  'bids.responded': '{date} रोजी उत्तर दिले',
+  'bids.rejectTooltip': 'बोली नाकारा',
+  'bids.reject': 'नाकारा',
+  'bids.counterTooltip': 'प्रति-प्रस्ताव द्या',
+  'bids.roundLimit': 'वाटाघाटी फेऱ्यांची मर्यादा संपली',
+  'bids.counter': 'प्रति-प्रस्ताव',
+  'bids.acceptTooltip': 'बोली स्वीकारा',
+  'bids.accept': 'स्वीकारा',
+  'negotiation.round': '{max} पैकी फेरी {count}',
+  'negotiation.finalRound': 'शेवटची फेरी – स्वीकारा किंवा नाकारा',
+  'negotiation.left.one': '{count} प्रति-प्रस्ताव शिल्लक',
+  'negotiation.left.other': '{count} प्रति-प्रस्ताव शिल्लक',
+  'negotiation.bid': 'बोली',
+  'negotiation.counter': 'प्रति-प्रस्ताव',
+  'negotiation.yourTurn': 'तुमच्या उत्तराची प्रतीक्षा',
+  'negotiation.theirTurn': 'दुसऱ्या पक्षाची प्रतीक्षा',
+  'acceptBid.title': 'ही बोली स्वीकारायची?',
+  'acceptBid.buyer': 'खरेदीदार',
+  'acceptBid.amount': 'बोली रक्कम',
+  'acceptBid.quantity': 'प्रमाण',
+  'acceptBid.totalValue': 'एकूण मूल्य',
+  'acceptBid.notice': 'ही बोली स्वीकारून तुम्ही तुमचे पीक ठरलेल्या किंमतीला विकण्यास सहमत होता. खरेदीदाराला कळवले जाईल आणि ऑर्डर तयार होईल.',
+  'acceptBid.cancel': 'रद्द करा',
+  'acceptBid.confirm': 'बोली स्वीकारा',
+  'counterBid.title': 'प्रति-प्रस्ताव द्या',
+  'counterBid.toFarmer': 'शेतकऱ्याला',
+  'counterBid.toBuyer': '{name} यांना',
+  'counterBid.round': '{max} पैकी फेरी {count}',
+  'counterBid.theirOffer': 'त्यांचा प्रस्ताव',
+  'counterBid.theirBid': 'त्यांची बोली',
+  'counterBid.yourCounter': 'तुमचा प्रति-प्रस्ताव',
+  'counterBid.amount': 'प्रति-प्रस्ताव रक्कम (₹/{unit})',
+  'counterBid.quantity': 'प्रमाण ({unit})',
+  'counterBid.deliveryDate': 'डिलिव्हरी तारीख',
+  'counterBid.message': 'संदेश (ऐच्छिक)',
+  'counterBid.more': 'त्यांच्या बोलीपेक्षा ₹{amount} जास्त (+{percent}%)',
+  'counterBid.less': 'त्यांच्या प्रस्तावापेक्षा ₹{amount} कमी ({percent}%)',
+  'counterBid.same': 'त्यांच्या प्रस्ताव इतकेच',
+  'counterBid.totalValue': 'एकूण मूल्य',
+  'counterBid.cancel': 'रद्द करा',
+  'counterBid.send': 'प्रति-प्रस्ताव पाठवा',
+  'rejectBid.title': 'ही बोली नाकारायची?',
+  'rejectBid.from': '{name} कडून',
+  'rejectBid.reason': 'नाकारण्याचे कारण (ऐच्छिक)',
+  'rejectBid.customReason': 'स्वतःचे कारण',
+  'rejectBid.reasonPlaceholder': 'तुमचे कारण लिहा...',
+  'rejectBid.cancel': 'रद्द करा',
+  'rejectBid.confirm': 'बोली नाकारा',
+  'cropBids.back': 'मागे जा',
+  'cropBids.title': 'तुमच्या पिकावरील बोली',
+  'cropBids.live': 'थेट',
+  'cropBids.connecting': 'कनेक्ट होत आहे...',
+  'cropBids.offline': 'ऑफलाइन',
+  'cropBids.refresh': 'बोली रिफ्रेश करा',
+  'cropBids.loading': 'बोली लोड होत आहेत...',
+  'cropBids.available': '{quantity} {unit} उपलब्ध',
+  'cropBids.listedPrice': 'नोंदवलेली किंमत',
+  'cropBids.averageBid': 'सरासरी बोली',
+  'cropBids.totalBids': 'एकूण बोली',
+  'cropBids.all': 'सर्व',
+  'cropBids.none': 'अजून बोली नाहीत',
+  'cropBids.noneHint': 'खरेदीदारांनी तुमच्या पिकावर बोली लावल्यावर त्या येथे लगेच दिसतील.',
+  'cropBids.processing': 'प्रक्रिया सुरू आहे...',
+  'cropBids.myBids': 'माझ्या बोली',
+  'cropBids.comingSoon': 'बोली व्यवस्थापन लवकरच...',
+};
+
+export default MR;
@@ -0,0 +1,635 @@
+import { TranslationCatalog } from './en';
+
+/** Tamil catalog */
+const TA: TranslationCatalog = {
+  'common.retry': 'மீண்டும் முயற்சிக்கவும்',
+  'common.discard': 'நிராகரி',
+  'common.close': 'மூடு',
+
+  'format.lakh': 'லட்சம்',
+  'format.crore': 'கோடி',
+
+  'nav.dashboard': 'டாஷ்போர்டு',
+  'nav.marketplace': 'சந்தை',
+  'nav.myProducts': 'என் பொருட்கள்',
+  'nav.addProduct': 'பொருளைச் சேர்',
+  'nav.myBids': 'என் ஏலங்கள்',
+  'nav.wishlist': 'விருப்பப் பட்டியல்',
+  'nav.orders': 'ஆர்டர்கள்',
+  'nav.cart': 'கூடை',
+  'nav.messages': 'செய்திகள்',
+  'nav.profile': 'சுயவிவரம்',
+
+  'header.searchPlaceholder': 'பொருட்கள், விவசாயிகளைத் தேடுங்கள்...',
+  'header.notifications': 'அறிவிப்புகள்',
+  'header.messages': 'செய்திகள்',
+  'header.cart': 'கூடை',
+  'header.language': 'மொழி',
+
+  'menu.profile': 'என் சுயவிவரம்',
+  'menu.settings': 'அமைப்புகள்',
+  'menu.adminPanel': 'நிர்வாகக் குழு',
+  'menu.installApp': 'செயலியை நிறுவு',
+  'menu.logout': 'வெளியேறு',
+
+  'connectivity.offline': 'நீங்கள் ஆஃப்லைனில் உள்ளீர்கள். சேமித்த தரவு காட்டப்படுகிறது.',
+  'connectivity.pending.one': 'மீண்டும் இணைந்ததும் {count} மாற்றம் ஒத்திசைக்கப்படும்.',
+  'connectivity.pending.other': 'மீண்டும் இணைந்ததும் {count} மாற்றங்கள் ஒத்திசைக்கப்படும்.',
+  'connectivity.syncing.one': 'மீண்டும் ஆன்லைன். {count} மாற்றம் ஒத்திசைக்கப்படுகிறது…',
+  'connectivity.syncing.other': 'மீண்டும் ஆன்லைன். {count} மாற்றங்கள் ஒத்திசைக்கப்படுகின்றன…',
+  'connectivity.failed.one': '{count} மாற்றத்தை ஒத்திசைக்க முடியவில்லை.',
+  'connectivity.failed.other': '{count} மாற்றங்களை ஒத்திசைக்க முடியவில்லை.',
+  'connectivity.queueError': 'சேமித்த மாற்றங்களைப் புதுப்பிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+
+  'voice.start': 'பேசுங்கள்',
+  'voice.listening': 'கேட்கிறது… நிறுத்த தட்டவும்',
+  'voice.error.notAllowed': 'குரல் உள்ளீட்டிற்கு மைக்ரோஃபோன் அனுமதி தரவும்.',
+  'voice.error.noSpeech': 'புரியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'voice.error.failed': 'குரல் உள்ளீடு இப்போது கிடைக்கவில்லை.',
+
+  'draft.found': '{time} முதல் சேமிக்கப்படாத வரைவு உள்ளது.',
+  'draft.conflict': 'உங்கள் வரைவு தொடங்கிய பிறகு {time} அன்று இது வேறு இடத்தில் மாற்றப்பட்டது. வரைவைத் தொடர்ந்தால், சேமிக்கும்போது அந்த மாற்றங்கள் மாற்றப்படும்.',
+  'draft.resume': 'வரைவைத் தொடரவும்',
+
+  'settings.title': 'அமைப்புகள்',
+  'settings.subtitle': 'உங்கள் செயலி விருப்பங்களையும் அறிவிப்புகளையும் நிர்வகிக்கவும்',
+  'settings.saving': 'சேமிக்கிறது...',
+  'settings.preferences.title': 'செயலி விருப்பங்கள்',
+  'settings.preferences.subtitle': 'உங்கள் செயலி அனுபவத்தைத் தனிப்பயனாக்குங்கள்',
+  'settings.language.title': 'மொழி',
+  'settings.language.description': 'உங்களுக்கு விருப்பமான மொழியைத் தேர்ந்தெடுக்கவும்',
+  'settings.theme.title': 'தீம்',
+  'settings.theme.description': 'செயலியின் தோற்றத்தைத் தேர்ந்தெடுக்கவும்',
+  'settings.theme.light': 'வெளிர்',
+  'settings.theme.dark': 'இருண்ட',
+  'settings.theme.system': 'சிஸ்டம்',
+  'settings.theme.highContrast': 'உயர் மாறுபாடு',
+  'settings.compactView.title': 'சுருக்கக் காட்சி',
+  'settings.compactView.description': 'திரையில் அதிக உருப்படிகளைக் காட்டு',
+  'settings.notifications.title': 'அறிவிப்புகள்',
+  'settings.notifications.subtitle': 'நீங்கள் பெறும் அறிவிப்புகளைக் கட்டுப்படுத்துங்கள்',
+  'settings.orderUpdates.title': 'ஆர்டர் புதுப்பிப்புகள்',
+  'settings.orderUpdates.description': 'ஆர்டர் நிலை மாறும்போது அறிவிப்பைப் பெறுங்கள்',
+  'settings.bidAlerts.title': 'ஏல எச்சரிக்கைகள்',
+  'settings.bidAlerts.description': 'உங்கள் பயிர்களுக்கான புதிய ஏலங்களுக்கு எச்சரிக்கைகளைப் பெறுங்கள்',
+  'settings.priceAlerts.title': 'விலை எச்சரிக்கைகள்',
+  'settings.priceAlerts.description': 'கவனிக்கும் பொருட்களின் விலை மாறும்போது அறிவிப்பைப் பெறுங்கள்',
+  'settings.promotions.title': 'சலுகைகள்',
+  'settings.promotions.description': 'சிறப்புச் சலுகைகளும் தள்ளுபடிகளும் பெறுங்கள்',
+  'settings.newsletter.title': 'செய்தி மடல்',
+  'settings.newsletter.description': 'வாராந்திர புதுப்பிப்புகளும் விவசாயக் குறிப்புகளும்',
+  'settings.channels.title': 'அறிவிப்பு வழிகள்',
+  'settings.channels.subtitle': 'அறிவிப்புகளை எப்படிப் பெறுவது எனத் தேர்ந்தெடுக்கவும்',
+  'settings.channels.push.title': 'புஷ்',
+  'settings.channels.push.description': 'செயலியில் அறிவிப்புகள்',
+  'settings.channels.sms.title': 'SMS',
+  'settings.channels.sms.description': 'குறுஞ்செய்திகள்',
+  'settings.channels.email.title': 'மின்னஞ்சல்',
+  'settings.channels.email.description': 'மின்னஞ்சல் அறிவிப்புகள்',
+  'settings.reset': 'இயல்புநிலைக்கு மீட்டமை',
+  'settings.save': 'அமைப்புகளைச் சேமி',
+  'settings.saved': 'அமைப்புகள் வெற்றிகரமாகச் சேமிக்கப்பட்டன',
+  'settings.saveFailed': 'அமைப்புகளைச் சேமிக்க முடியவில்லை. உங்கள் மாற்றங்கள் இந்தச் சாதனத்தில் வைக்கப்பட்டுள்ளன.',
+  'settings.resetDone': 'அமைப்புகள் இயல்புநிலைக்கு மீட்டமைக்கப்பட்டன',
+
+  'cart.title': 'ஷாப்பிங் கார்ட்',
+  'cart.clear': 'கார்ட்டை அழி',
+  'cart.checkingStock': 'இருப்பு சரிபார்க்கப்படுகிறது',
+  'cart.empty': 'உங்கள் கார்ட் காலியாக உள்ளது',
+  'cart.emptyHint': 'சந்தையிலிருந்து புதிய விளைபொருட்களைச் சேர்க்கவும்',
+  'cart.browse': 'பொருட்களைப் பார்க்கவும்',
+  'cart.separateOrder': 'தனி ஆர்டராக அனுப்பப்படும்',
+  'cart.minOrder': 'குறைந்தது {quantity} {unit}',
+  'cart.decrease': 'அளவைக் குறைக்கவும்',
+  'cart.increase': 'அளவை அதிகரிக்கவும்',
+  'cart.quantityOf': '{name} அளவு',
+  'cart.remove': 'நீக்கு',
+  'cart.removeItem': '{name} நீக்கு',
+  'cart.orderSubtotal': 'ஆர்டர் உட்கூட்டுத்தொகை',
+  'cart.summary': 'சுருக்கம்',
+  'cart.items': 'பொருட்கள் ({count})',
+  'cart.subtotal': 'உட்கூட்டுத்தொகை',
+  'cart.platformFee': 'தளக் கட்டணம்',
+  'cart.total': 'மொத்தம்',
+  'cart.ordersPlaced.one': '{count} ஆர்டர் வைக்கப்படும், ஒவ்வொரு விவசாயிக்கும் ஒன்று.',
+  'cart.ordersPlaced.other': '{count} ஆர்டர்கள் வைக்கப்படும், ஒவ்வொரு விவசாயிக்கும் ஒன்று.',
+  'cart.fixIssues': 'தொடர, குறிக்கப்பட்ட பொருட்களைச் சரிசெய்யவும்.',
+  'cart.proceed': 'செக்அவுட் செய்யவும்',
+  'cart.continueShopping': 'ஷாப்பிங்கைத் தொடரவும்',
+  'checkout.title': 'செக்அவுட்',
+  'checkout.placed': 'ஆர்டர் வைக்கப்பட்டது',
+  'checkout.placedHint': 'உங்கள் விவசாயிகளுக்குத் தெரிவிக்கப்பட்டது. ஒவ்வொரு விவசாயியும் தங்கள் பங்கைத் தனி ஆர்டராக அனுப்புவார்.',
+  'checkout.viewOrder': 'ஆர்டரைப் பார்க்கவும்',
+  'checkout.myOrders': 'என் ஆர்டர்களுக்குச் செல்லவும்',
+  'checkout.stepReview': 'மதிப்பாய்வு',
+  'checkout.orderFrom': '{name} இடமிருந்து ஆர்டர்',
+  'checkout.orderTotal': 'ஆர்டர் மொத்தம் (தளக் கட்டணம் உட்பட)',
+  'checkout.editCart': 'கார்ட்டைத் திருத்து',
+  'checkout.continue': 'தொடரவும்',
+  'checkout.back': 'பின்செல்',
+  'checkout.stepAddress': 'டெலிவரி முகவரி',
+  'checkout.deliverTo': 'இங்கு டெலிவரி',
+  'checkout.manageAddresses': 'முகவரிகளை நிர்வகி',
+  'checkout.default': 'இயல்பு',
+  'checkout.newAddress': 'புதிய முகவரியைப் பயன்படுத்து',
+  'checkout.fullName': 'முழுப் பெயர்',
+  'checkout.mobile': 'மொபைல் எண்',
+  'checkout.addressLine1': 'முகவரி வரி 1',
+  'checkout.addressLine2': 'முகவரி வரி 2 (விருப்பம்)',
+  'checkout.landmark': 'அடையாளம் (விருப்பம்)',
+  'checkout.pincode': 'பின்கோடு',
+  'checkout.city': 'நகரம்',
+  'checkout.state': 'மாநிலம்',
+  'checkout.saveAddress': 'என் முகவரிகளில் சேமி',
+  'checkout.stepPayment': 'கட்டணம்',
+  'checkout.paymentMethod': 'கட்டண முறை',
+  'checkout.notes': 'விவசாயிகளுக்கான குறிப்பு (விருப்பம்)',
+  'checkout.deliveryCharges.one': '{count} ஆர்டர் வைக்கப்படும். டெலிவரி கட்டணத்தை ஒவ்வொரு விவசாயியும் உறுதிசெய்வார்.',
+  'checkout.deliveryCharges.other': '{count} ஆர்டர்கள் வைக்கப்படும். டெலிவரி கட்டணத்தை ஒவ்வொரு விவசாயியும் உறுதிசெய்வார்.',
+  'checkout.placeOrder': 'ஆர்டர் செய்',
+
+  'orders.title': 'என் ஆர்டர்கள்',
+  'orders.subtitleFarmer': 'வாங்குபவர்களின் ஆர்டர்களை நிர்வகிக்கவும்',
+  'orders.subtitleBuyer': 'உங்கள் வாங்குதல்களைக் கண்காணிக்கவும்',
+  'orders.statTotal': 'மொத்த ஆர்டர்கள்',
+  'orders.statActive': 'செயலில்',
+  'orders.statCompleted': 'முடிந்தவை',
+  'orders.statRevenue': 'வருவாய்',
+  'orders.loading': 'ஆர்டர்கள் ஏற்றப்படுகின்றன...',
+  'orders.errorTitle': 'ஏதோ தவறு நடந்தது',
+  'orders.retry': 'மீண்டும் முயலவும்',
+  'orders.noActive': 'செயலில் உள்ள ஆர்டர்கள் இல்லை',
+  'orders.noActiveHint': 'நடப்பிலுள்ள ஆர்டர்கள் இங்கு தோன்றும்',
+  'orders.noCompleted': 'முடிந்த ஆர்டர்கள் இல்லை',
+  'orders.noCompletedHint': 'டெலிவரி ஆன ஆர்டர்கள் இங்கு தோன்றும்',
+  'orders.noCancelled': 'ரத்தான ஆர்டர்கள் இல்லை',
+  'orders.noCancelledHint': 'ரத்தான ஆர்டர்கள் இங்கு தோன்றும்',
+  'orders.none': 'இன்னும் ஆர்டர்கள் இல்லை',
+  'orders.noneFarmerHint': 'வாங்குபவர்கள் உங்கள் பயிர்களுக்கு ஆர்டர் செய்தால் அவை இங்கு தோன்றும்',
+  'orders.noneBuyerHint': 'முதல் ஆர்டரை வைக்க சந்தையில் ஷாப்பிங் தொடங்குங்கள்',
+  'orders.browseMarketplace': 'சந்தையைப் பார்க்கவும்',
+  'orders.updating': 'ஆர்டர் புதுப்பிக்கப்படுகிறது...',
+  'orders.listHint': 'உங்கள் ஆர்டர்களைக் கண்காணித்து நிர்வகிக்கவும்',
+  'orders.emptyHint': 'உங்கள் ஆர்டர்கள் இங்கு தோன்றும்',
+  'orders.detailTitle': 'ஆர்டர் #{id}',
+  'orders.detailPlaceholder': 'ஆர்டர் விவரங்கள் இங்கு காட்டப்படும்.',
+  'orders.viewDetails': 'விவரங்களைப் பார்க்கவும்',
+  'orders.trackOrder': 'ஆர்டரைக் கண்காணி',
+  'orders.track': 'கண்காணி',
+  'orders.contact': '{party} ஐத் தொடர்புகொள்',
+  'orders.cancelOrder': 'ஆர்டரை ரத்து செய்',
+  'orders.arrivingToday': 'இன்று வந்துசேரும்!',
+  'orders.expectedToday': 'இன்று எதிர்பார்க்கப்படுகிறது',
+  'orders.deliveryTomorrow': 'நாளை டெலிவரி',
+  'orders.expectedOn': '{date} அன்று எதிர்பார்க்கப்படுகிறது',
+  'orders.tracking': 'கண்காணிப்பு: {id}',
+  'orders.loadingDetails': 'ஆர்டர் விவரங்கள் ஏற்றப்படுகின்றன...',
+  'orders.backToOrders': 'ஆர்டர்களுக்குத் திரும்பு',
+  'orders.placedOn': '{date} அன்று வைக்கப்பட்டது',
+  'orders.liveTracking': 'நேரடி கண்காணிப்பு',
+  'orders.delivered': 'டெலிவரி ஆனது',
+  'orders.arrivingAround': 'சுமார் இந்த நேரத்தில் வந்துசேரும்',
+  'orders.kmAway': '{distance} கி.மீ. தொலைவில்',
+  'orders.waitingLocation': 'டெலிவரி பங்காளரின் இருப்பிடத்திற்காகக் காத்திருக்கிறது…',
+  'orders.updatedAt': '{time} இல் புதுப்பிக்கப்பட்டது',
+  'orders.items': 'பொருட்கள்',
+  'orders.subtotal': 'உட்கூட்டுத்தொகை',
+  'orders.delivery': 'டெலிவரி',
+  'orders.platformFee': 'தளக் கட்டணம்',
+  'orders.discount': 'தள்ளுபடி',
+  'orders.total': 'மொத்தம்',
+  'orders.howWasIt': 'இந்த ஆர்டர் எப்படி இருந்தது?',
+  'orders.rateBuyerHint': 'மற்றவர்கள் நம்பிக்கையுடன் வர்த்தகம் செய்ய வாங்குபவரை மதிப்பிடுங்கள்.',
+  'orders.rateFarmerHint': 'மற்றவர்கள் நம்பிக்கையுடன் வர்த்தகம் செய்ய விவசாயியையும் விளைபொருளையும் மதிப்பிடுங்கள்.',
+  'orders.rate': 'ஆர்டரை மதிப்பிடு',
+  'orders.yourReviews': 'உங்கள் மதிப்புரைகள்',
+  'orders.dispute': 'சர்ச்சை',
+  'orders.problem': 'இந்த ஆர்டரில் சிக்கலா?',
+  'orders.disputeBuyerHint': 'சர்ச்சையை எழுப்புங்கள், வாங்குபவருடன் தீர்க்க எங்கள் குழு உதவும்.',
+  'orders.disputeFarmerHint': 'சர்ச்சையை எழுப்புங்கள், விவசாயியுடன் தீர்க்க எங்கள் குழு உதவும்.',
+  'orders.raiseDispute': 'சர்ச்சையை எழுப்பு',
+  'orders.timeline': 'காலவரிசை',
+  'orders.buyer': 'வாங்குபவர்',
+  'orders.seller': 'விற்பனையாளர்',
+  'orders.message': 'செய்தி',
+  'orders.expected': 'எதிர்பார்ப்பு',
+  'orders.partner': 'பங்காளர்',
+  'orders.trackingId': 'கண்காணிப்பு ஐடி',
+  'orders.trackDelivery': 'டெலிவரியைக் கண்காணி',
+  'orders.notFound': 'ஆர்டர் கிடைக்கவில்லை.',
+  'orders.cancelTitle': 'ஆர்டரை ரத்து செய்யவா?',
+  'orders.cancelReason': 'ரத்து செய்வதற்கான காரணத்தைத் தேர்ந்தெடுக்கவும்:',
+  'orders.specify': 'குறிப்பிடவும்',
+  'orders.reasonPlaceholder': 'உங்கள் காரணத்தை உள்ளிடவும்...',
+  'orders.cannotUndo': 'இந்தச் செயலைத் திரும்பப் பெற முடியாது.',
+  'orders.refundNote': 'உங்கள் அசல் கட்டண முறைக்கு பணம் திருப்பி அனுப்பப்படும்.',
+  'orders.keepOrder': 'ஆர்டரை வைத்திரு',
+  'disputes.raiseTitle': 'சர்ச்சையை எழுப்பு',
+  'disputes.whatWentWrong': 'என்ன தவறு நடந்தது?',
+  'disputes.type': 'சர்ச்சை வகை',
+  'disputes.describe': 'சிக்கலை விவரிக்கவும்',
+  'disputes.describePlaceholder': 'நீங்கள் எதிர்பார்த்தது என்ன, நடந்தது என்ன, ஆர்டரில் எவ்வளவு பாதிக்கப்பட்டது?',
+  'disputes.minLength': 'குறைந்தது {count} எழுத்துகள்',
+  'disputes.photos': 'புகைப்படங்கள் ({count}/{max})',
+  'disputes.removePhoto': '{name} நீக்கு',
+  'disputes.addPhoto': 'புகைப்படம் சேர்',
+  'disputes.reviewNote': 'எங்கள் குழு சர்ச்சையை மதிப்பாய்வு செய்து இந்த ஆர்டரின் சர்ச்சைத் தொடரில் பதிலளிக்கும். எந்தப் பணத்திருப்பமும் அசல் கட்டண முறைக்கே வரவு வைக்கப்படும்.',
+  'disputes.cancel': 'ரத்து',
+  'disputes.submit': 'சர்ச்சையைச் சமர்ப்பி',
+  'disputes.conversation': 'சர்ச்சை உரையாடல்',
+  'disputes.raisedBy': '{name} {date} அன்று எழுப்பினார்',
+  'disputes.handledBy': '{name} கையாள்கிறார்',
+  'disputes.you': 'நீங்கள்',
+  'disputes.openPhoto': '{name} திற',
+  'disputes.noMessages': 'இன்னும் செய்திகள் இல்லை',
+  'disputes.reply': 'பதில்',
+  'disputes.send': 'அனுப்பு',
+  'disputes.closed': 'இந்தச் சர்ச்சை {status}; பதில்கள் மூடப்பட்டுள்ளன.',
+
+  'reviews.rating': 'மதிப்பீடு',
+  'reviews.rateStars.one': '{count} நட்சத்திரம் கொடு',
+  'reviews.rateStars.other': '{count} நட்சத்திரங்கள் கொடு',
+  'reviews.count.one': '{count} மதிப்புரை',
+  'reviews.count.other': '{count} மதிப்புரைகள்',
+  'reviews.distribution': 'மதிப்பீட்டுப் பரவல்',
+  'reviews.report': 'மதிப்புரையைப் புகாரளி',
+  'reviews.reported': 'புகாரளிக்கப்பட்டது',
+  'reviews.photoFrom': '{name} இன் புகைப்படம்',
+  'reviews.none': 'இன்னும் மதிப்புரைகள் இல்லை',
+  'reviews.rateOrder': 'இந்த ஆர்டரை மதிப்பிடு',
+  'reviews.reviewOf': '{name} மதிப்புரை',
+  'reviews.rateSubject': '{name} ஐ மதிப்பிடு',
+  'reviews.standOut': 'எது தனித்து நின்றது',
+  'reviews.comment': 'கருத்து (விருப்பம்)',
+  'reviews.removePhoto': '{name} நீக்கு',
+  'reviews.photo': 'புகைப்படம்',
+  'reviews.later': 'பிறகு',
+  'reviews.submit.one': 'மதிப்புரையைச் சமர்ப்பி',
+  'reviews.submit.other': '{count} மதிப்புரைகளைச் சமர்ப்பி',
+
+  'marketplace.title': 'சந்தை',
+  'marketplace.cropCount.one': '{count} பயிர்',
+  'marketplace.cropCount.other': '{count} பயிர்கள்',
+  'marketplace.searchPlaceholder': 'பயிர்கள், விவசாயிகள், இடங்களைத் தேடுங்கள்...',
+  'marketplace.clearSearch': 'தேடலை அழி',
+  'marketplace.voiceSearch': 'குரல் மூலம் தேடு',
+  'marketplace.filters': 'வடிகட்டிகள்',
+  'marketplace.gridView': 'கட்டக் காட்சி',
+  'marketplace.listView': 'பட்டியல் காட்சி',
+  'marketplace.mapView': 'வரைபடக் காட்சி',
+  'marketplace.savedSearches': 'சேமித்த தேடல்கள்',
+  'marketplace.saveSearch': 'இந்தத் தேடலைச் சேமி',
+  'marketplace.manageSearches': 'சேமித்த தேடல்களை நிர்வகி',
+  'marketplace.sortNewest': 'புதியவை முதலில்',
+  'marketplace.sortPriceLow': 'விலை: குறைவு முதல் அதிகம்',
+  'marketplace.sortPriceHigh': 'விலை: அதிகம் முதல் குறைவு',
+  'marketplace.sortPopular': 'மிகப் பிரபலமானவை',
+  'marketplace.sortRating': 'அதிக மதிப்பீடு',
+  'marketplace.sortNearest': 'அருகிலுள்ளவை முதலில்',
+  'marketplace.all': 'அனைத்தும்',
+  'marketplace.activeFilters': 'செயலில் உள்ள வடிகட்டிகள்:',
+  'marketplace.organic': 'இயற்கை',
+  'marketplace.withinKm': '{place} இலிருந்து {radius} கி.மீ.க்குள்',
+  'marketplace.qualityGrades.one': '{count} தர நிலை',
+  'marketplace.qualityGrades.other': '{count} தர நிலைகள்',
+  'marketplace.clearAll': 'அனைத்தையும் அழி',
+  'marketplace.inArea': 'இந்தப் பகுதியில் {count} பயிர்கள்',
+  'marketplace.unmapped': '{count} வரைபட இருப்பிடம் இல்லாமல்',
+  'marketplace.noCrops': 'பயிர்கள் எதுவும் கிடைக்கவில்லை',
+  'marketplace.noCropsHint': 'உங்கள் வடிகட்டிகள் அல்லது தேடல் சொற்களை மாற்றிப் பாருங்கள்',
+  'marketplace.resetFilters': 'வடிகட்டிகளை மீட்டமை',
+  'marketplace.loadingMore': 'மேலும் பயிர்கள் ஏற்றப்படுகின்றன...',
+  'marketplace.loadMore': 'மேலும் ஏற்று',
+  'marketplace.showing': '{total} இல் {shown} பயிர்கள் காட்டப்படுகின்றன',
+  'marketplace.scrollTop': 'மேலே செல்',
+
+  'filters.title': 'வடிகட்டிகள்',
+  'filters.close': 'வடிகட்டிகளை மூடு',
+  'filters.sortBy': 'வரிசைப்படுத்து',
+  'filters.category': 'வகை',
+  'filters.allCategories': 'அனைத்து வகைகள்',
+  'filters.location': 'இருப்பிடம்',
+  'filters.allLocations': 'அனைத்து இடங்கள்',
+  'filters.qualityGrade': 'தர நிலை',
+  'filters.priceRange': 'விலை வரம்பு',
+  'filters.minPrice': 'குறைந்த விலை',
+  'filters.maxPrice': 'அதிக விலை',
+  'filters.organic': 'இயற்கை',
+  'filters.allProducts': 'அனைத்துப் பொருட்கள்',
+  'filters.organicOnly': 'இயற்கை மட்டும்',
+  'filters.nonOrganic': 'இயற்கையல்லாதவை',
+  'filters.resetAll': 'அனைத்தையும் மீட்டமை',
+  'filters.apply': 'வடிகட்டிகளைப் பயன்படுத்து',
+  'savedSearch.title': 'தேடலைச் சேமி',
+  'savedSearch.name': 'பெயர்',
+  'savedSearch.namePlaceholder': 'எ.கா. ₹30க்குக் குறைவான இயற்கை வெங்காயம்',
+  'savedSearch.alertOnNew': 'புதிய பட்டியல்கள் பொருந்தும்போது எனக்குத் தெரிவி',
+  'savedSearch.alertsOff': 'அமைப்புகளில் விலை எச்சரிக்கைகள் முடக்கப்பட்டுள்ளதால் உங்களுக்குத் தெரிவிக்கப்படாது.',
+  'savedSearch.cancel': 'ரத்து',
+  'savedSearch.save': 'சேமி',
+  'distance.filterLabel': 'தொலைவு வடிகட்டி: {label}',
+  'distance.measureFrom': 'இங்கிருந்து அளவிடு',
+  'distance.locating': 'உங்களைக் கண்டறிகிறது…',
+  'distance.myLocation': 'என் இருப்பிடம்',
+  'distance.pinAddress': 'என் முகவரிகளில் உங்கள் இயல்பு முகவரியை வரைபடத்தில் குறிக்கவும்',
+  'distance.deliveryAddress': 'என் டெலிவரி முகவரி',
+  'distance.from': '{place} இலிருந்து தொலைவு',
+  'distance.within': '{radius} கி.மீ.க்குள்',
+  'distance.any': 'எந்தத் தொலைவும் (வரிசைக்கு மட்டும்)',
+  'distance.clear': 'தொலைவை அழி',
+  'share.results': 'இந்த முடிவுகளைப் பகிர்',
+  'share.more': 'மேலும் விருப்பங்கள்…',
+  'share.copyLink': 'இணைப்பை நகலெடு',
+
+  'listing.featured': 'சிறப்பு',
+  'listing.removeWishlist': 'விருப்பப் பட்டியலிலிருந்து நீக்கு',
+  'listing.addWishlist': 'விருப்பப் பட்டியலில் சேர்',
+  'listing.organic': 'இயற்கை',
+  'listing.available': '{quantity} {unit} கிடைக்கிறது',
+  'listing.away': '{distance} தொலைவில்',
+  'listing.freightHint': 'இந்தத் தொலைவுக்கான தோராயமான சாலைச் சரக்குக் கட்டணம், விலைப்புள்ளி அல்ல',
+  'listing.transport': '~₹{cost}/குவிண்டால் போக்குவரத்து',
+  'listing.ready': 'எடுத்துச் செல்லத் தயார்',
+  'listing.harvestIn.one': '{count} நாளில் அறுவடை',
+  'listing.harvestIn.other': '{count} நாட்களில் அறுவடை',
+  'listing.harvestOn': 'அறுவடை: {date}',
+  'listing.bids.one': '{count} ஏலம்',
+  'listing.bids.other': '{count} ஏலங்கள்',
+  'listing.viewDetails': 'விவரங்களைப் பார்க்கவும்',
+  'listing.placeBid': 'ஏலம் கேள்',
+  'farmerCard.verified': 'சரிபார்க்கப்பட்ட விவசாயி',
+  'farmerCard.orders': '{count} ஆர்டர்கள்',
+  'farmerCard.successRate': 'வெற்றி விகிதம்',
+  'farmerCard.response': 'பதில் நேரம்',
+  'farmerCard.languages': 'மொழிகள்:',
+  'farmerCard.recentReviews': 'சமீபத்திய மதிப்புரைகள் ({count})',
+  'farmerCard.memberSince': '{date} முதல் உறுப்பினர்',
+  'farmerCard.viewProfile': 'சுயவிவரத்தைப் பார்',
+  'farmerCard.contact': 'தொடர்புகொள்',
+  'results.noCrops': 'பயிர்கள் எதுவும் கிடைக்கவில்லை',
+  'results.clearFilters': 'வடிகட்டிகளை அழி',
+  'results.loadMore': 'மேலும் ஏற்று',
+  'gallery.image': 'படம் {index}',
+  'gallery.noImage': 'படம் இல்லை',
+  'gallery.thumbnail': 'சிறுபடம் {index}',
+  'gallery.fullSize': 'முழு அளவு படம்',
+  'search.backToMarketplace': 'சந்தைக்குத் திரும்பு',
+  'search.resultsFor': '"{term}" க்கான முடிவுகள்',
+  'search.allCrops': 'அனைத்துப் பயிர்கள்',
+  'search.shareTitle': 'தேடல் முடிவுகள்',
+  'search.label': 'பயிர்களைத் தேடு',
+  'category.empty': 'இந்த வகையில் உங்கள் வடிகட்டிகளுக்குப் பொருந்துவது எதுவும் இல்லை',
+  'instantBuy.title': 'உடனடி வாங்குதல்',
+  'instantBuy.quantity': 'அளவைத் தேர்ந்தெடு',
+  'instantBuy.deliverTo': 'இங்கு டெலிவரி',
+  'instantBuy.deliveryAddress': 'டெலிவரி முகவரி',
+  'instantBuy.noAddresses': 'உங்களிடம் இன்னும் சேமித்த முகவரிகள் இல்லை.',
+  'instantBuy.manageAddresses': 'முகவரிகளை நிர்வகி',
+  'instantBuy.paymentMethod': 'கட்டண முறை',
+  'instantBuy.upi': 'UPI கட்டணம்',
+  'instantBuy.card': 'அட்டை / இணைய வங்கி',
+  'instantBuy.cod': 'டெலிவரியில் பணம்',
+  'instantBuy.subtotal': 'உட்கூட்டுத்தொகை',
+  'instantBuy.platformFee': 'தளக் கட்டணம் (2%)',
+  'instantBuy.estimatedDelivery': 'மதிப்பிடப்பட்ட டெலிவரி',
+  'instantBuy.days': '{count} நாட்கள்',
+  'instantBuy.total': 'மொத்தம்',
+  'instantBuy.cancel': 'ரத்து',
+  'instantBuy.buyNow': 'இப்போது வாங்கு',
+
+  'wishlist.title': 'விருப்பப் பட்டியல்',
+  'wishlist.saved.one': '{count} சேமித்த பயிர்',
+  'wishlist.saved.other': '{count} சேமித்த பயிர்கள்',
+  'wishlist.cheaper': '{count} சேமித்ததை விட மலிவு',
+  'wishlist.backInStockCount': '{count} மீண்டும் இருப்பில்',
+  'wishlist.browse': 'சந்தையைப் பார்க்கவும்',
+  'wishlist.savedCropsTab': 'சேமித்த பயிர்கள் ({count})',
+  'wishlist.loading': 'உங்கள் விருப்பப் பட்டியல் ஏற்றப்படுகிறது...',
+  'wishlist.empty': 'உங்கள் விருப்பப் பட்டியல் காலியாக உள்ளது',
+  'wishlist.emptyHint': 'எந்தப் பயிரின் விலை மற்றும் இருப்பைக் கண்காணிக்க இதயத்தைத் தட்டவும்.',
+  'wishlist.findCrops': 'பயிர்களைக் கண்டறி',
+  'wishlist.selectAll': 'இருப்பில் உள்ள அனைத்தையும் தேர்ந்தெடு',
+  'wishlist.addToCart': '{count} கார்ட்டில் சேர்',
+  'wishlist.addNoneToCart': 'கார்ட்டில் சேர்',
+  'wishlist.select': '{name} தேர்ந்தெடு',
+  'wishlist.percentCheaper': '{percent}% மலிவு',
+  'wishlist.backInStock': 'மீண்டும் இருப்பில்',
+  'wishlist.outOfStock': 'இருப்பில் இல்லை',
+  'wishlist.priceWhenSaved': 'சேமித்தபோது இருந்த விலை',
+  'wishlist.was': 'முன்பு',
+  'wishlist.minOrder': 'குறைந்தபட்ச ஆர்டர் {quantity} {unit}',
+  'wishlist.available': '{quantity} {unit} கிடைக்கிறது',
+  'wishlist.remove': 'விருப்பப் பட்டியலிலிருந்து நீக்கு',
+  'wishlist.removeItem': '{name} ஐ விருப்பப் பட்டியலிலிருந்து நீக்கு',
+  'wishlist.searchesTab': 'சேமித்த தேடல்கள் ({count})',
+  'wishlist.loadingSearches': 'சேமித்த தேடல்கள் ஏற்றப்படுகின்றன...',
+  'wishlist.noSearches': 'சேமித்த தேடல்கள் இல்லை',
+  'wishlist.noSearchesHint': 'சந்தையில் வடிகட்டிகளை அமைத்து, பின்னர் மீண்டும் இயக்க "இந்தத் தேடலைச் சேமி" என்பதைத் தேர்ந்தெடுக்கவும்.',
+  'wishlist.goToMarketplace': 'சந்தைக்குச் செல்',
+  'wishlist.savedOn': '{date} அன்று சேமிக்கப்பட்டது',
+  'wishlist.lastRun': 'கடைசியாக {date} இல் இயக்கப்பட்டது',
+  'wishlist.lastMatch': 'கடைசிப் பொருத்தம் {date}',
+  'wishlist.alertHint': 'பொருந்தும் புதிய பட்டியல்களைப் பற்றி எனக்குத் தெரிவி',
+  'wishlist.alerts': 'எச்சரிக்கைகள்',
+  'wishlist.run': 'இயக்கு',
+  'wishlist.deleteSearch': 'சேமித்த தேடலை நீக்கு',
+  'wishlist.deleteItem': '{name} நீக்கு',
+  'myBids.title': 'என் ஏலங்கள்',
+  'myBids.activeCount': '{count} செயலில்',
+  'myBids.awaiting.one': '{count} எதிர் சலுகைக்கு உங்கள் பதில் தேவை',
+  'myBids.awaiting.other': '{count} எதிர் சலுகைகளுக்கு உங்கள் பதில் தேவை',
+  'myBids.filter': 'ஏலங்களை வடிகட்டு',
+  'myBids.filterAll': 'அனைத்தும் ({count})',
+  'myBids.filterActive': 'செயலில் ({count})',
+  'myBids.filterAccepted': 'ஏற்கப்பட்டவை',
+  'myBids.filterClosed': 'மூடப்பட்டவை',
+  'myBids.loading': 'உங்கள் ஏலங்கள் ஏற்றப்படுகின்றன...',
+  'myBids.none': 'இங்கு ஏலங்கள் இல்லை',
+  'myBids.noneHint': 'சந்தைப் பயிர்களில் நீங்கள் வைக்கும் ஏலங்கள் இங்கு தோன்றும்.',
+  'myBids.placedOn': '{date} அன்று வைக்கப்பட்டது',
+  'myBids.highestHint': 'தற்போது உங்கள் ஏலமே அதிகம்',
+  'myBids.highest': 'அதிகபட்ச ஏலம்',
+  'myBids.outbidHint': 'வேறொரு வாங்குபவர் அதிகமாக ஏலம் கேட்டுள்ளார்',
+  'myBids.outbid': 'முந்தப்பட்டது',
+  'myBids.total': 'மொத்தம் ₹{amount}',
+  'myBids.expiresIn': '{time} இல் காலாவதியாகும்',
+  'myBids.closedOn': '{date} அன்று மூடப்பட்டது',
+  'myBids.countered': 'விவசாயி ₹{amount}/{unit} என எதிர் சலுகை தந்துள்ளார். ஏற்கவும், எதிர் சலுகை தரவும் அல்லது திரும்பப் பெறவும்.',
+  'myBids.newPrice': 'ஒரு {unit}க்கு புதிய விலை',
+  'myBids.raiseBid': 'ஏலத்தை உயர்த்து',
+  'myBids.cancel': 'ரத்து',
+  'myBids.negotiation': 'பேச்சுவார்த்தை ({count})',
+  'myBids.withdraw': 'திரும்பப் பெறு',
+  'myBids.raise': 'உயர்த்து',
+  'myBids.counter': 'எதிர் சலுகை',
+  'myBids.acceptOffer': 'சலுகையை ஏற்கவும்',
+
+  'cropDetails.loading': 'பயிர் விவரங்கள் ஏற்றப்படுகின்றன...',
+  'cropDetails.error': 'ஏதோ தவறு நடந்தது',
+  'cropDetails.back': 'சந்தைக்குத் திரும்பு',
+  'cropDetails.certifications': 'சான்றிதழ்கள்',
+  'cropDetails.share': 'பகிர்',
+  'cropDetails.basePrice': 'அடிப்படை விலை',
+  'cropDetails.instantBuy': 'உடனடி வாங்குதல்',
+  'cropDetails.available': 'கிடைக்கிறது',
+  'cropDetails.readyNow': 'இப்போது தயார்',
+  'cropDetails.days': '{count} நாட்கள்',
+  'cropDetails.untilHarvest': 'அறுவடை வரை',
+  'cropDetails.views': 'பார்வைகள்',
+  'cropDetails.description': 'விளக்கம்',
+  'cropDetails.specifications': 'விவரக்குறிப்புகள்',
+  'cropDetails.shipping': 'அனுப்புதல் & டெலிவரி',
+  'cropDetails.pickup': 'எடுத்துச் செல்லக் கிடைக்கிறது',
+  'cropDetails.deliveryWithin': '{radius} கி.மீ.க்குள் டெலிவரி',
+  'cropDetails.deliveryDays': 'மதிப்பிடப்பட்ட {count} நாட்களில் டெலிவரி',
+  'cropDetails.reviews': 'மதிப்புரைகள்',
+  'cropDetails.placeYourBid': 'உங்கள் ஏலத்தை வையுங்கள்',
+  'cropDetails.timeLeft': '{time} மீதம்',
+  'cropDetails.biddingClosed': 'ஏலம் மூடப்பட்டது',
+  'cropDetails.highestBid': 'அதிகபட்ச ஏலம்',
+  'cropDetails.totalBids': 'மொத்த ஏலங்கள்',
+  'cropDetails.average': 'சராசரி',
+  'cropDetails.bidAmount': 'ஏலத் தொகை (₹/{unit})',
+  'cropDetails.minBid': 'குறைந்தது: ₹{amount}',
+  'cropDetails.quantity': 'அளவு ({unit})',
+  'cropDetails.maxQuantity': 'அதிகபட்சம்: {quantity} {unit}',
+  'cropDetails.message': 'செய்தி (விருப்பம்)',
+  'cropDetails.totalValue': 'மொத்த மதிப்பு:',
+  'cropDetails.cancel': 'ரத்து',
+  'cropDetails.submitBid': 'ஏலத்தைச் சமர்ப்பி',
+  'cropDetails.placeBid': 'ஏலம் கேள்',
+  'cropDetails.instantBuyAt': 'உடனடி வாங்குதல் @ ₹{price}',
+  'cropDetails.addMore': 'மேலும் சேர் (கார்ட்டில் {quantity} {unit})',
+  'cropDetails.addToCart': 'கார்ட்டில் சேர்',
+  'cropDetails.processing': 'செயலாக்கப்படுகிறது...',
+
+  'placeBid.back': 'பின்செல்',
+  'placeBid.subtitle': 'விவசாயிக்குப் போட்டி விலைச் சலுகையைச் சமர்ப்பிக்கவும்',
+  'placeBid.marketPrice': 'சந்தை விலை',
+  'placeBid.harvestDate': 'அறுவடை தேதி',
+  'placeBid.negotiation': 'உங்கள் பேச்சுவார்த்தை',
+  'placeBid.currentTerms': 'தற்போதைய நிபந்தனைகள்:',
+  'placeBid.termsQuantity': '{quantity} {unit}க்கு · {total}.',
+  'placeBid.offerExpires': 'சலுகை {date} அன்று காலாவதியாகும்.',
+  'placeBid.counterOffer': 'எதிர் சலுகை',
+  'placeBid.roundLimit': 'சுற்று வரம்பை எட்டியது',
+  'placeBid.acceptAt': '₹{amount}/{unit} ஏற்கவும்',
+  'placeBid.yourOffer': 'உங்கள் சலுகை',
+  'placeBid.pricePer': 'ஒரு {unit}க்கு ஏல விலை',
+  'placeBid.pricePlaceholder': 'உங்கள் ஏல விலையை உள்ளிடவும்',
+  'placeBid.priceRequired': 'விலை தேவை',
+  'placeBid.priceMin': 'விலை குறைந்தது ₹1 இருக்க வேண்டும்',
+  'placeBid.aboveMarket': 'சந்தையை விட +{percent}% அதிகம்',
+  'placeBid.belowMarket': 'சந்தையை விட {percent}% குறைவு',
+  'placeBid.atMarket': 'சந்தை விலையில்',
+  'placeBid.quantity': 'அளவு',
+  'placeBid.quantityUnit': 'அளவு ({unit})',
+  'placeBid.quantityPlaceholder': 'அளவை உள்ளிடவும்',
+  'placeBid.maxAvailable': 'அதிகபட்சம் கிடைப்பது: {quantity} {unit}',
+  'placeBid.quantityRequired': 'அளவு தேவை',
+  'placeBid.quantityMin': 'குறைந்தபட்ச அளவு 1 {unit}',
+  'placeBid.delivery': 'டெலிவரி விவரங்கள்',
+  'placeBid.deliveryDate': 'விருப்பமான டெலிவரி தேதி',
+  'placeBid.selectDate': 'தேதியைத் தேர்ந்தெடு',
+  'placeBid.dateRequired': 'டெலிவரி தேதி தேவை',
+  'placeBid.deliveryLocation': 'டெலிவரி இடம்',
+  'placeBid.selectLocation': 'இடத்தைத் தேர்ந்தெடு',
+  'placeBid.pickup': 'பண்ணையிலிருந்து எடுத்தல்',
+  'placeBid.manageAddresses': 'முகவரிகளை நிர்வகி',
+  'placeBid.locationRequired': 'டெலிவரி இடம் தேவை',
+  'placeBid.messageTitle': 'விவசாயிக்குச் செய்தி',
+  'placeBid.optional': '(விருப்பம்)',
+  'placeBid.yourMessage': 'உங்கள் செய்தி',
+  'placeBid.messagePlaceholder': 'விவசாயிக்கான சிறப்புத் தேவைகள், கேள்விகள் அல்லது குறிப்புகளைச் சேர்க்கவும்...',
+  'placeBid.messageHint': 'இது விவசாயி உங்கள் தேவைகளை நன்கு புரிந்துகொள்ள உதவும்',
+  'placeBid.summary': 'ஏலச் சுருக்கம்',
+  'placeBid.pricePerUnit': 'ஒரு {unit}க்கு விலை',
+  'placeBid.totalAmount': 'மொத்த ஏலத் தொகை',
+  'placeBid.agreePrefix': 'நான் ஒப்புக்கொள்கிறேன்:',
+  'placeBid.terms': 'விதிமுறைகள் & நிபந்தனைகள்',
+  'placeBid.agreeSuffix': 'விவசாயி ஏற்றவுடன் இந்த ஏலம் கட்டுப்படுத்தும் என்பதைப் புரிந்துகொள்கிறேன்.',
+  'placeBid.termsRequired': 'ஏலம் வைக்க நிபந்தனைகளை ஏற்க வேண்டும்',
+  'placeBid.cancel': 'ரத்து',
+  'placeBid.placing': 'ஏலம் வைக்கப்படுகிறது...',
+  'placeBid.placeFor': 'ஏலம் கேள் - {total}',
+  'placeBid.notFound': 'பயிர் கிடைக்கவில்லை',
+  'placeBid.notFoundHint': 'நீங்கள் தேடும் பயிர் இல்லை அல்லது நீக்கப்பட்டது.',
+
+  'bids.highest': 'அதிகபட்ச ஏலம்',
+  'bids.orders': '{count} ஆர்டர்கள்',
+  'bids.total': 'மொத்தம்: ₹{amount}',
+  'bids.pending': 'நிலுவையில்',
+  'bids.accepted': 'ஏற்கப்பட்டது',
+  'bids.rejected': 'நிராகரிக்கப்பட்டது',
+  'bids.expired': 'காலாவதியானது',
+  'bids.countered': 'எதிர் சலுகை தரப்பட்டது',
+  'bids.withdrawn': 'திரும்பப் பெறப்பட்டது',
+  'bids.negotiationRounds': 'பேச்சுவார்த்தை ({count}/{max} சுற்றுகள்)',
+  'bids.responded': '{date} அன்று பதிலளிக்கப்பட்டது',
+  'bids.rejectTooltip': 'ஏலத்தை நிராகரி',
+  'bids.reject': 'நிராகரி',
+  'bids.counterTooltip': 'எதிர் சலுகை தா',
+  'bids.roundLimit': 'பேச்சுவார்த்தைச் சுற்று வரம்பை எட்டியது',
+  'bids.counter': 'எதிர் சலுகை',
+  'bids.acceptTooltip': 'ஏலத்தை ஏற்கவும்',
+  'bids.accept': 'ஏற்கவும்',
+  'negotiation.round': '{max} இல் சுற்று {count}',
+  'negotiation.finalRound': 'இறுதிச் சுற்று – ஏற்கவும் அல்லது நிராகரிக்கவும்',
+  'negotiation.left.one': '{count} எதிர் சலுகை மீதம்',
+  'negotiation.left.other': '{count} எதிர் சலுகைகள் மீதம்',
+  'negotiation.bid': 'ஏலம்',
+  'negotiation.counter': 'எதிர் சலுகை',
+  'negotiation.yourTurn': 'உங்கள் பதிலுக்காகக் காத்திருக்கிறது',
+  'negotiation.theirTurn': 'மற்ற தரப்புக்காகக் காத்திருக்கிறது',
+  'acceptBid.title': 'இந்த ஏலத்தை ஏற்கவா?',
+  'acceptBid.buyer': 'வாங்குபவர்',
+  'acceptBid.amount': 'ஏலத் தொகை',
+  'acceptBid.quantity': 'அளவு',
+  'acceptBid.totalValue': 'மொத்த மதிப்பு',
+  'acceptBid.notice': 'இந்த ஏலத்தை ஏற்பதன் மூலம் குறிப்பிட்ட விலையில் உங்கள் பயிரை விற்க ஒப்புக்கொள்கிறீர்கள். வாங்குபவருக்குத் தெரிவிக்கப்பட்டு ஆர்டர் உருவாக்கப்படும்.',
+  'acceptBid.cancel': 'ரத்து',
+  'acceptBid.confirm': 'ஏலத்தை ஏற்கவும்',
+  'counterBid.title': 'எதிர் சலுகை தா',
+  'counterBid.toFarmer': 'விவசாயிக்கு',
+  'counterBid.toBuyer': '{name} க்கு',
+  'counterBid.round': '{max} இல் சுற்று {count}',
+  'counterBid.theirOffer': 'அவர்களின் சலுகை',
+  'counterBid.theirBid': 'அவர்களின் ஏலம்',
+  'counterBid.yourCounter': 'உங்கள் எதிர் சலுகை',
+  'counterBid.amount': 'எதிர் சலுகைத் தொகை (₹/{unit})',
+  'counterBid.quantity': 'அளவு ({unit})',
+  'counterBid.deliveryDate': 'டெலிவரி தேதி',
+  'counterBid.message': 'செய்தி (விருப்பம்)',
+  'counterBid.more': 'அவர்களின் ஏலத்தை விட ₹{amount} அதிகம் (+{percent}%)',
+  'counterBid.less': 'அவர்களின் சலுகையை விட ₹{amount} குறைவு ({percent}%)',
+  'counterBid.same': 'அவர்களின் சலுகைக்குச் சமம்',
+  'counterBid.totalValue': 'மொத்த மதிப்பு',
+  'counterBid.cancel': 'ரத்து',
+  'counterBid.send': 'எதிர் சலுகையை அனுப்பு',
+  'rejectBid.title': 'இந்த ஏலத்தை நிராகரிக்கவா?',
+  'rejectBid.from': '{name} இடமிருந்து',
+  'rejectBid.reason': 'நிராகரிப்புக்கான காரணம் (விருப்பம்)',
+  'rejectBid.customReason': 'தனிப்பயன் காரணம்',
+  'rejectBid.reasonPlaceholder': 'உங்கள் காரணத்தை உள்ளிடவும்...',
+  'rejectBid.cancel': 'ரத்து',
+  'rejectBid.confirm': 'ஏலத்தை நிராகரி',
+  'cropBids.back': 'பின்செல்',
+  'cropBids.title': 'உங்கள் பயிரின் மீதான ஏலங்கள்',
+  'cropBids.live': 'நேரலை',
+  'cropBids.connecting': 'இணைக்கிறது...',
+  'cropBids.offline': 'ஆஃப்லைன்',
+  'cropBids.refresh': 'ஏலங்களைப் புதுப்பி',
+  'cropBids.loading': 'ஏலங்கள் ஏற்றப்படுகின்றன...',
+  'cropBids.available': '{quantity} {unit} கிடைக்கிறது',
+  'cropBids.listedPrice': 'பட்டியல் விலை',
+  'cropBids.averageBid': 'சராசரி ஏலம்',
+  'cropBids.totalBids': 'மொத்த ஏலங்கள்',
+  'cropBids.all': 'அனைத்தும்',
+  'cropBids.none': 'இன்னும் ஏலங்கள் இல்லை',
+  'cropBids.noneHint': 'வாங்குபவர்கள் உங்கள் பயிரில் ஏலம் வைத்தால் அவை உடனுக்குடன் இங்கு தோன்றும்.',
+  'cropBids.processing': 'செயலாக்கப்படுகிறது...',
+  'cropBids.myBids': 'என் ஏலங்கள்',
+  'cropBids.comingSoon': 'ஏல நிர்வாகம் விரைவில்...',
+};
+
+export default TA;
@@ -0,0 +1,635 @@
+import { TranslationCatalog } from './en';
+
+/** Telugu catalog */
+const TE: TranslationCatalog = {
+  'common.retry': 'మళ్ళీ ప్రయత్నించండి',
+  'common.discard': 'తీసివేయండి',
+  'common.close': 'మూసివేయండి',
+
+  'format.lakh': 'లక్ష',
+  'format.crore': 'కోటి',
+
+  'nav.dashboard': 'డాష్‌బోర్డ్',
+  'nav.marketplace': 'మార్కెట్',
+  'nav.myProducts': 'నా ఉత్పత్తులు',
+  'nav.addProduct': 'ఉత్పత్తిని జోడించండి',
+  'nav.myBids': 'నా బిడ్‌లు',
+  'nav.wishlist': 'కోరికల జాబితా',
+  'nav.orders': 'ఆర్డర్‌లు',
+  'nav.cart': 'కార్ట్',
+  'nav.messages': 'సందేశాలు',
+  'nav.profile': 'ప్రొఫైల్',
+
+  'header.searchPlaceholder': 'ఉత్పత్తులు, రైతులను వెతకండి...',
+  'header.notifications': 'నోటిఫికేషన్‌లు',
+  'header.messages': 'సందేశాలు',
+  'header.cart': 'కార్ట్',
+  'header.language': 'భాష',
+
+  'menu.profile': 'నా ప్రొఫైల్',
+  'menu.settings': 'సెట్టింగ్‌లు',
+  'menu.adminPanel': 'అడ్మిన్ ప్యానెల్',
+  'menu.installApp': 'యాప్ ఇన్‌స్టాల్ చేయండి',
+  'menu.logout': 'లాగ్ అవుట్',
+
+  'connectivity.offline': 'మీరు ఆఫ్‌లైన్‌లో ఉన్నారు. సేవ్ చేసిన డేటా చూపిస్తున్నాం.',
+  'connectivity.pending.one': 'మళ్ళీ కనెక్ట్ అయినప్పుడు {count} మార్పు సింక్ అవుతుంది.',
+  'connectivity.pending.other': 'మళ్ళీ కనెక్ట్ అయినప్పుడు {count} మార్పులు సింక్ అవుతాయి.',
+  'connectivity.syncing.one': 'మళ్ళీ ఆన్‌లైన్. {count} మార్పు సింక్ అవుతోంది…',
+  'connectivity.syncing.other': 'మళ్ళీ ఆన్‌లైన్. {count} మార్పులు సింక్ అవుతున్నాయి…',
+  'connectivity.failed.one': '{count} మార్పు సింక్ కాలేదు.',
+  'connectivity.failed.other': '{count} మార్పులు సింక్ కాలేదు.',
+  'connectivity.queueError': 'సేవ్ చేసిన మార్పులను అప్‌డేట్ చేయలేకపోయాము. దయచేసి మళ్లీ ప్రయత్నించండి.',
+
+  'voice.start': 'మాట్లాడండి',
+  'voice.listening': 'వింటోంది… ఆపడానికి నొక్కండి',
+  'voice.error.notAllowed': 'వాయిస్ ఇన్‌పుట్ కోసం మైక్రోఫోన్ అనుమతి ఇవ్వండి.',
+  'voice.error.noSpeech': 'అర్థం కాలేదు. దయచేసి మళ్ళీ ప్రయత్నించండి.',
+  'voice.error.failed': 'వాయిస్ ఇన్‌పుట్ ప్రస్తుతం అందుబాటులో లేదు.',
+
+  'draft.found': '{time} నుండి సేవ్ చేయని డ్రాఫ్ట్ ఉంది.',
+  'draft.conflict': 'మీ డ్రాఫ్ట్ ప్రారంభించిన తర్వాత {time}న ఇది వేరే చోట మార్చబడింది. డ్రాఫ్ట్ కొనసాగిస్తే, సేవ్ చేసినప్పుడు ఆ మార్పులు భర్తీ అవుతాయి.',
+  'draft.resume': 'డ్రాఫ్ట్ కొనసాగించండి',
+
+  'settings.title': 'సెట్టింగ్‌లు',
+  'settings.subtitle': 'మీ యాప్ ప్రాధాన్యతలు మరియు నోటిఫికేషన్‌లను నిర్వహించండి',
+  'settings.saving': 'సేవ్ అవుతోంది...',
+  'settings.preferences.title': 'యాప్ ప్రాధాన్యతలు',
+  'settings.preferences.subtitle': 'మీ యాప్ అనుభవాన్ని అనుకూలీకరించండి',
+  'settings.language.title': 'భాష',
+  'settings.language.description': 'మీకు నచ్చిన భాషను ఎంచుకోండి',
+  'settings.theme.title': 'థీమ్',
+  'settings.theme.description': 'యాప్ రూపాన్ని ఎంచుకోండి',
+  'settings.theme.light': 'లైట్',
+  'settings.theme.dark': 'డార్క్',
+  'settings.theme.system': 'సిస్టమ్',
+  'settings.theme.highContrast': 'అధిక కాంట్రాస్ట్',
+  'settings.compactView.title': 'కాంపాక్ట్ వ్యూ',
+  'settings.compactView.description': 'స్క్రీన్‌పై మరిన్ని అంశాలను చూపండి',
+  'settings.notifications.title': 'నోటిఫికేషన్‌లు',
+  'settings.notifications.subtitle': 'మీకు ఏ నోటిఫికేషన్‌లు రావాలో నియంత్రించండి',
+  'settings.orderUpdates.title': 'ఆర్డర్ అప్‌డేట్‌లు',
+  'settings.orderUpdates.description': 'ఆర్డర్ స్థితి మారినప్పుడు తెలియజేయండి',
+  'settings.bidAlerts.title': 'బిడ్ అలర్ట్‌లు',
+  'settings.bidAlerts.description': 'మీ పంటలపై కొత్త బిడ్‌ల అలర్ట్‌లు పొందండి',
+  'settings.priceAlerts.title': 'ధర అలర్ట్‌లు',
+  'settings.priceAlerts.description': 'మీరు గమనిస్తున్న వస్తువుల ధరలు మారినప్పుడు తెలియజేయండి',
+  'settings.promotions.title': 'ప్రమోషన్‌లు & ఆఫర్‌లు',
+  'settings.promotions.description': 'ప్రత్యేక ఆఫర్‌లు మరియు తగ్గింపులు పొందండి',
+  'settings.newsletter.title': 'వార్తాలేఖ',
+  'settings.newsletter.description': 'వారపు అప్‌డేట్‌లు మరియు వ్యవసాయ చిట్కాలు',
+  'settings.channels.title': 'నోటిఫికేషన్ మార్గాలు',
+  'settings.channels.subtitle': 'నోటిఫికేషన్‌లను ఎలా పొందాలో ఎంచుకోండి',
+  'settings.channels.push.title': 'పుష్',
+  'settings.channels.push.description': 'యాప్‌లో నోటిఫికేషన్‌లు',
+  'settings.channels.sms.title': 'SMS',
+  'settings.channels.sms.description': 'టెక్స్ట్ సందేశాలు',
+  'settings.channels.email.title': 'ఈమెయిల్',
+  'settings.channels.email.description': 'ఈమెయిల్ నోటిఫికేషన్‌లు',
+  'settings.reset': 'డిఫాల్ట్‌కు రీసెట్ చేయండి',
+  'settings.save': 'సెట్టింగ్‌లను సేవ్ చేయండి',
+  'settings.saved': 'సెట్టింగ్‌లు విజయవంతంగా సేవ్ అయ్యాయి',
+  'settings.saveFailed': 'సెట్టింగ్‌లను సేవ్ చేయడం సాధ్యం కాలేదు. మీ మార్పులు ఈ పరికరంలో ఉంచబడ్డాయి.',
+  'settings.resetDone': 'సెట్టింగ్‌లు డిఫాల్ట్‌కు రీసెట్ అయ్యాయి',
+
+  'cart.title': 'షాపింగ్ కార్ట్',
+  'cart.clear': 'కార్ట్ ఖాళీ చేయండి',
+  'cart.checkingStock': 'స్టాక్ లభ్యత తనిఖీ చేస్తోంది',
+  'cart.empty': 'మీ కార్ట్ ఖాళీగా ఉంది',
+  'cart.emptyHint': 'మార్కెట్‌ప్లేస్ నుండి తాజా ఉత్పత్తులను జోడించండి',
+  'cart.browse': 'ఉత్పత్తులను చూడండి',
+  'cart.separateOrder': 'ప్రత్యేక ఆర్డర్‌గా పంపబడుతుంది',
+  'cart.minOrder': 'కనీసం {quantity} {unit}',
+  'cart.decrease': 'పరిమాణం తగ్గించండి',
+  'cart.increase': 'పరిమాణం పెంచండి',
+  'cart.quantityOf': '{name} పరిమాణం',
+  'cart.remove': 'తొలగించండి',
+  'cart.removeItem': '{name} తొలగించండి',
+  'cart.orderSubtotal': 'ఆర్డర్ ఉప మొత్తం',
+  'cart.summary': 'సారాంశం',
+  'cart.items': 'వస్తువులు ({count})',
+  'cart.subtotal': 'ఉప మొత్తం',
+  'cart.platformFee': 'ప్లాట్‌ఫారమ్ రుసుము',
+  'cart.total': 'మొత్తం',
+  'cart.ordersPlaced.one': '{count} ఆర్డర్ ఇవ్వబడుతుంది, ప్రతి రైతుకు ఒకటి.',
+  'cart.ordersPlaced.other': '{count} ఆర్డర్లు ఇవ్వబడతాయి, ప్రతి రైతుకు ఒకటి.',
+  'cart.fixIssues': 'కొనసాగడానికి గుర్తించిన వస్తువులను సరిచేయండి.',
+  'cart.proceed': 'చెక్అవుట్‌కు వెళ్లండి',
+  'cart.continueShopping': 'షాపింగ్ కొనసాగించండి',
+  'checkout.title': 'చెక్అవుట్',
+  'checkout.placed': 'ఆర్డర్ ఇవ్వబడింది',
+  'checkout.placedHint': 'మీ రైతులకు తెలియజేయబడింది. ప్రతి రైతు తమ భాగాన్ని ప్రత్యేక ఆర్డర్‌గా పంపుతారు.',
+  'checkout.viewOrder': 'ఆర్డర్ చూడండి',
+  'checkout.myOrders': 'నా ఆర్డర్లకు వెళ్లండి',
+  'checkout.stepReview': 'సమీక్ష',
+  'checkout.orderFrom': '{name} నుండి ఆర్డర్',
+  'checkout.orderTotal': 'ఆర్డర్ మొత్తం (ప్లాట్‌ఫారమ్ రుసుముతో)',
+  'checkout.editCart': 'కార్ట్ సవరించండి',
+  'checkout.continue': 'కొనసాగించండి',
+  'checkout.back': 'వెనుకకు',
+  'checkout.stepAddress': 'డెలివరీ చిరునామా',
+  'checkout.deliverTo': 'ఇక్కడికి డెలివరీ',
+  'checkout.manageAddresses': 'చిరునామాలను నిర్వహించండి',
+  'checkout.default': 'డిఫాల్ట్',
+  'checkout.newAddress': 'కొత్త చిరునామా ఉపయోగించండి',
+  'checkout.fullName': 'పూర్తి పేరు',
+  'checkout.mobile': 'మొబైల్ నంబర్',
+  'checkout.addressLine1': 'చిరునామా పంక్తి 1',
+  'checkout.addressLine2': 'చిరునామా పంక్తి 2 (ఐచ్ఛికం)',
+  'checkout.landmark': 'ల్యాండ్‌మార్క్ (ఐచ్ఛికం)',
+  'checkout.pincode': 'పిన్‌కోడ్',
+  'checkout.city': 'నగరం',
+  'checkout.state': 'రాష్ట్రం',
+  'checkout.saveAddress': 'నా చిరునామాల్లో సేవ్ చేయండి',
+  'checkout.stepPayment': 'చెల్లింపు',
+  'checkout.paymentMethod': 'చెల్లింపు విధానం',
+  'checkout.notes': 'రైతుల కోసం గమనికలు (ఐచ్ఛికం)',
+  'checkout.deliveryCharges.one': '{count} ఆర్డర్ ఇవ్వబడుతుంది. డెలివరీ ఛార్జీలను ప్రతి రైతు నిర్ధారిస్తారు.',
+  'checkout.deliveryCharges.other': '{count} ఆర్డర్లు ఇవ్వబడతాయి. డెలివరీ ఛార్జీలను ప్రతి రైతు నిర్ధారిస్తారు.',
+  'checkout.placeOrder': 'ఆర్డర్ ఇవ్వండి',
+
+  'orders.title': 'నా ఆర్డర్లు',
+  'orders.subtitleFarmer': 'కొనుగోలుదారుల ఆర్డర్లను నిర్వహించండి',
+  'orders.subtitleBuyer': 'మీ కొనుగోళ్లను ట్రాక్ చేయండి',
+  'orders.statTotal': 'మొత్తం ఆర్డర్లు',
+  'orders.statActive': 'క్రియాశీల',
+  'orders.statCompleted': 'పూర్తయినవి',
+  'orders.statRevenue': 'ఆదాయం',
+  'orders.loading': 'ఆర్డర్లు లోడ్ అవుతున్నాయి...',
+  'orders.errorTitle': 'ఏదో తప్పు జరిగింది',
+  'orders.retry': 'మళ్లీ ప్రయత్నించండి',
+  'orders.noActive': 'క్రియాశీల ఆర్డర్లు లేవు',
+  'orders.noActiveHint': 'జరుగుతున్న ఆర్డర్లు ఇక్కడ కనిపిస్తాయి',
+  'orders.noCompleted': 'పూర్తయిన ఆర్డర్లు లేవు',
+  'orders.noCompletedHint': 'డెలివరీ అయిన ఆర్డర్లు ఇక్కడ కనిపిస్తాయి',
+  'orders.noCancelled': 'రద్దయిన ఆర్డర్లు లేవు',
+  'orders.noCancelledHint': 'రద్దయిన ఆర్డర్లు ఇక్కడ కనిపిస్తాయి',
+  'orders.none': 'ఇంకా ఆర్డర్లు లేవు',
+  'orders.noneFarmerHint': 'కొనుగోలుదారులు మీ పంటలకు ఆర్డర్ ఇచ్చినప్పుడు అవి ఇక్కడ కనిపిస్తాయి',
+  'orders.noneBuyerHint': 'మొదటి ఆర్డర్ కోసం మార్కెట్‌ప్లేస్‌లో షాపింగ్ ప్రారంభించండి',
+  'orders.browseMarketplace': 'మార్కెట్‌ప్లేస్ చూడండి',
+  'orders.updating': 'ఆర్డర్ నవీకరించబడుతోంది...',
+  'orders.listHint': 'మీ ఆర్డర్లను ట్రాక్ చేసి నిర్వహించండి',
+  'orders.emptyHint': 'మీ ఆర్డర్లు ఇక్కడ కనిపిస్తాయి',
+  'orders.detailTitle': 'ఆర్డర్ #{id}',
+  'orders.detailPlaceholder': 'ఆర్డర్ వివరాలు ఇక్కడ చూపబడతాయి.',
+  'orders.viewDetails': 'వివరాలు చూడండి',
+  'orders.trackOrder': 'ఆర్డర్ ట్రాక్ చేయండి',
+  'orders.track': 'ట్రాక్',
+  'orders.contact': '{party}ను సంప్రదించండి',
+  'orders.cancelOrder': 'ఆర్డర్ రద్దు చేయండి',
+  'orders.arrivingToday': 'ఈరోజు వస్తోంది!',
+  'orders.expectedToday': 'ఈరోజు అంచనా',
+  'orders.deliveryTomorrow': 'రేపు డెలివరీ',
+  'orders.expectedOn': '{date}కి అంచనా',
+  'orders.tracking': 'ట్రాకింగ్: {id}',
+  'orders.loadingDetails': 'ఆర్డర్ వివరాలు లోడ్ అవుతున్నాయి...',
+  'orders.backToOrders': 'ఆర్డర్లకు తిరిగి వెళ్లండి',
+  'orders.placedOn': '{date}న ఇవ్వబడింది',
+  'orders.liveTracking': 'లైవ్ ట్రాకింగ్',
+  'orders.delivered': 'డెలివరీ అయింది',
+  'orders.arrivingAround': 'సుమారు ఈ సమయానికి వస్తుంది',
+  'orders.kmAway': '{distance} కి.మీ. దూరంలో',
+  'orders.waitingLocation': 'డెలివరీ భాగస్వామి స్థానం కోసం వేచి ఉంది…',
+  'orders.updatedAt': '{time}కి నవీకరించబడింది',
+  'orders.items': 'వస్తువులు',
+  'orders.subtotal': 'ఉప మొత్తం',
+  'orders.delivery': 'డెలివరీ',
+  'orders.platformFee': 'ప్లాట్‌ఫారమ్ రుసుము',
+  'orders.discount': 'తగ్గింపు',
+  'orders.total': 'మొత్తం',
+  'orders.howWasIt': 'ఈ ఆర్డర్ ఎలా ఉంది?',
+  'orders.rateBuyerHint': 'ఇతరులు నమ్మకంగా వ్యాపారం చేయడానికి కొనుగోలుదారుని రేట్ చేయండి.',
+  'orders.rateFarmerHint': 'ఇతరులు నమ్మకంగా వ్యాపారం చేయడానికి రైతును మరియు ఉత్పత్తిని రేట్ చేయండి.',
+  'orders.rate': 'ఆర్డర్‌ను రేట్ చేయండి',
+  'orders.yourReviews': 'మీ సమీక్షలు',
+  'orders.dispute': 'వివాదం',
+  'orders.problem': 'ఈ ఆర్డర్‌లో సమస్య ఉందా?',
+  'orders.disputeBuyerHint': 'వివాదం లేవనెత్తండి, కొనుగోలుదారుతో పరిష్కరించడానికి మా బృందం సహాయం చేస్తుంది.',
+  'orders.disputeFarmerHint': 'వివాదం లేవనెత్తండి, రైతుతో పరిష్కరించడానికి మా బృందం సహాయం చేస్తుంది.',
+  'orders.raiseDispute': 'వివాదం లేవనెత్తండి',
+  'orders.timeline': 'కాలక్రమం',
+  'orders.buyer': 'కొనుగోలుదారు',
+  'orders.seller': 'విక్రేత',
+  'orders.message': 'సందేశం',
+  'orders.expected': 'అంచనా',
+  'orders.partner': 'భాగస్వామి',
+  'orders.trackingId': 'ట్రాకింగ్ ఐడీ',
+  'orders.trackDelivery': 'డెలివరీ ట్రాక్ చేయండి',
+  'orders.notFound': 'ఆర్డర్ కనుగొనబడలేదు.',
+  'orders.cancelTitle': 'ఆర్డర్ రద్దు చేయాలా?',
+  'orders.cancelReason': 'దయచేసి రద్దుకు కారణం ఎంచుకోండి:',
+  'orders.specify': 'దయచేసి పేర్కొనండి',
+  'orders.reasonPlaceholder': 'మీ కారణం నమోదు చేయండి...',
+  'orders.cannotUndo': 'ఈ చర్యను రద్దు చేయలేరు.',
+  'orders.refundNote': 'మీ అసలు చెల్లింపు విధానానికి రీఫండ్ ప్రారంభించబడుతుంది.',
+  'orders.keepOrder': 'ఆర్డర్ ఉంచండి',
+  'disputes.raiseTitle': 'వివాదం లేవనెత్తండి',
+  'disputes.whatWentWrong': 'ఏమి తప్పు జరిగింది?',
+  'disputes.type': 'వివాదం రకం',
+  'disputes.describe': 'సమస్యను వివరించండి',
+  'disputes.describePlaceholder': 'మీరు ఏమి ఆశించారు, ఏమి జరిగింది, ఆర్డర్‌లో ఎంత భాగం ప్రభావితమైంది?',
+  'disputes.minLength': 'కనీసం {count} అక్షరాలు',
+  'disputes.photos': 'ఫోటోలు ({count}/{max})',
+  'disputes.removePhoto': '{name} తొలగించండి',
+  'disputes.addPhoto': 'ఫోటో జోడించండి',
+  'disputes.reviewNote': 'మా బృందం వివాదాన్ని సమీక్షించి ఈ ఆర్డర్ వివాద థ్రెడ్‌లో సమాధానం ఇస్తుంది. ఏదైనా రీఫండ్ అసలు చెల్లింపు విధానానికి జమ అవుతుంది.',
+  'disputes.cancel': 'రద్దు',
+  'disputes.submit': 'వివాదం సమర్పించండి',
+  'disputes.conversation': 'వివాద సంభాషణ',
+  'disputes.raisedBy': '{name} {date}న లేవనెత్తారు',
+  'disputes.handledBy': '{name} నిర్వహిస్తున్నారు',
+  'disputes.you': 'మీరు',
+  'disputes.openPhoto': '{name} తెరవండి',
+  'disputes.noMessages': 'ఇంకా సందేశాలు లేవు',
+  'disputes.reply': 'జవాబు',
+  'disputes.send': 'పంపండి',
+  'disputes.closed': 'ఈ వివాదం {status}; జవాబులు మూసివేయబడ్డాయి.',
+
+  'reviews.rating': 'రేటింగ్',
+  'reviews.rateStars.one': '{count} నక్షత్రం ఇవ్వండి',
+  'reviews.rateStars.other': '{count} నక్షత్రాలు ఇవ్వండి',
+  'reviews.count.one': '{count} సమీక్ష',
+  'reviews.count.other': '{count} సమీక్షలు',
+  'reviews.distribution': 'రేటింగ్ పంపిణీ',
+  'reviews.report': 'సమీక్షను నివేదించండి',
+  'reviews.reported': 'నివేదించబడింది',
+  'reviews.photoFrom': '{name} నుండి ఫోటో',
+  'reviews.none': 'ఇంకా సమీక్షలు లేవు',
+  'reviews.rateOrder': 'ఈ ఆర్డర్‌ను రేట్ చేయండి',
+  'reviews.reviewOf': '{name} సమీక్ష',
+  'reviews.rateSubject': '{name}ను రేట్ చేయండి',
+  'reviews.standOut': 'ఏది ప్రత్యేకంగా నిలిచింది',
+  'reviews.comment': 'వ్యాఖ్య (ఐచ్ఛికం)',
+  'reviews.removePhoto': '{name} తొలగించండి',
+  'reviews.photo': 'ఫోటో',
+  'reviews.later': 'తర్వాత',
+  'reviews.submit.one': 'సమీక్ష సమర్పించండి',
+  'reviews.submit.other': '{count} సమీక్షలు సమర్పించండి',
+
+  'marketplace.title': 'మార్కెట్‌ప్లేస్',
+  'marketplace.cropCount.one': '{count} పంట',
+  'marketplace.cropCount.other': '{count} పంటలు',
+  'marketplace.searchPlaceholder': 'పంటలు, రైతులు, ప్రదేశాలను వెతకండి...',
+  'marketplace.clearSearch': 'శోధన క్లియర్ చేయండి',
+  'marketplace.voiceSearch': 'వాయిస్‌తో వెతకండి',
+  'marketplace.filters': 'ఫిల్టర్లు',
+  'marketplace.gridView': 'గ్రిడ్ వీక్షణ',
+  'marketplace.listView': 'జాబితా వీక్షణ',
+  'marketplace.mapView': 'మ్యాప్ వీక్షణ',
+  'marketplace.savedSearches': 'సేవ్ చేసిన శోధనలు',
+  'marketplace.saveSearch': 'ఈ శోధనను సేవ్ చేయండి',
+  'marketplace.manageSearches': 'సేవ్ చేసిన శోధనలను నిర్వహించండి',
+  'marketplace.sortNewest': 'కొత్తవి ముందు',
+  'marketplace.sortPriceLow': 'ధర: తక్కువ నుండి ఎక్కువ',
+  'marketplace.sortPriceHigh': 'ధర: ఎక్కువ నుండి తక్కువ',
+  'marketplace.sortPopular': 'అత్యంత ప్రజాదరణ',
+  'marketplace.sortRating': 'అత్యధిక రేటింగ్',
+  'marketplace.sortNearest': 'దగ్గరివి ముందు',
+  'marketplace.all': 'అన్నీ',
+  'marketplace.activeFilters': 'క్రియాశీల ఫిల్టర్లు:',
+  'marketplace.organic': 'సేంద్రీయ',
+  'marketplace.withinKm': '{place} నుండి {radius} కి.మీ. లోపు',
+  'marketplace.qualityGrades.one': '{count} నాణ్యత గ్రేడ్',
+  'marketplace.qualityGrades.other': '{count} నాణ్యత గ్రేడ్‌లు',
+  'marketplace.clearAll': 'అన్నీ క్లియర్ చేయండి',
+  'marketplace.inArea': 'ఈ ప్రాంతంలో {count} పంటలు',
+  'marketplace.unmapped': '{count} మ్యాప్ స్థానం లేకుండా',
+  'marketplace.noCrops': 'పంటలు కనుగొనబడలేదు',
+  'marketplace.noCropsHint': 'మీ ఫిల్టర్లు లేదా శోధన పదాలను మార్చి చూడండి',
+  'marketplace.resetFilters': 'ఫిల్టర్లను రీసెట్ చేయండి',
+  'marketplace.loadingMore': 'మరిన్ని పంటలు లోడ్ అవుతున్నాయి...',
+  'marketplace.loadMore': 'మరిన్ని లోడ్ చేయండి',
+  'marketplace.showing': '{total}లో {shown} పంటలు చూపుతోంది',
+  'marketplace.scrollTop': 'పైకి వెళ్లండి',
+
+  'filters.title': 'ఫిల్టర్లు',
+  'filters.close': 'ఫిల్టర్లను మూసివేయండి',
+  'filters.sortBy': 'క్రమబద్ధీకరణ',
+  'filters.category': 'వర్గం',
+  'filters.allCategories': 'అన్ని వర్గాలు',
+  'filters.location': 'ప్రదేశం',
+  'filters.allLocations': 'అన్ని ప్రదేశాలు',
+  'filters.qualityGrade': 'నాణ్యత గ్రేడ్',
+  'filters.priceRange': 'ధర పరిధి',
+  'filters.minPrice': 'కనీస ధర',
+  'filters.maxPrice': 'గరిష్ఠ ధర',
+  'filters.organic': 'సేంద్రీయ',
+  'filters.allProducts': 'అన్ని ఉత్పత్తులు',
+  'filters.organicOnly': 'సేంద్రీయ మాత్రమే',
+  'filters.nonOrganic': 'సేంద్రీయం కానివి',
+  'filters.resetAll': 'అన్నీ రీసెట్ చేయండి',
+  'filters.apply': 'ఫిల్టర్లను వర్తింపజేయండి',
+  'savedSearch.title': 'శోధనను సేవ్ చేయండి',
+  'savedSearch.name': 'పేరు',
+  'savedSearch.namePlaceholder': 'ఉదా. ₹30 లోపు సేంద్రీయ ఉల్లిపాయలు',
+  'savedSearch.alertOnNew': 'కొత్త లిస్టింగ్‌లు సరిపోలినప్పుడు నాకు తెలియజేయండి',
+  'savedSearch.alertsOff': 'సెట్టింగ్స్‌లో ధర హెచ్చరికలు ఆఫ్‌లో ఉన్నాయి, కాబట్టి మీకు తెలియజేయబడదు.',
+  'savedSearch.cancel': 'రద్దు',
+  'savedSearch.save': 'సేవ్ చేయండి',
+  'distance.filterLabel': 'దూరం ఫిల్టర్: {label}',
+  'distance.measureFrom': 'ఇక్కడి నుండి కొలవండి',
+  'distance.locating': 'మిమ్మల్ని కనుగొంటోంది…',
+  'distance.myLocation': 'నా స్థానం',
+  'distance.pinAddress': 'నా చిరునామాలలో మీ డిఫాల్ట్ చిరునామాను మ్యాప్‌లో పిన్ చేయండి',
+  'distance.deliveryAddress': 'నా డెలివరీ చిరునామా',
+  'distance.from': '{place} నుండి దూరం',
+  'distance.within': '{radius} కి.మీ. లోపు',
+  'distance.any': 'ఏ దూరమైనా (క్రమబద్ధీకరణ మాత్రమే)',
+  'distance.clear': 'దూరం క్లియర్ చేయండి',
+  'share.results': 'ఈ ఫలితాలను షేర్ చేయండి',
+  'share.more': 'మరిన్ని ఎంపికలు…',
+  'share.copyLink': 'లింక్ కాపీ చేయండి',
+
+  'listing.featured': 'ప్రత్యేకం',
+  'listing.removeWishlist': 'విష్‌లిస్ట్ నుండి తొలగించండి',
+  'listing.addWishlist': 'విష్‌లిస్ట్‌కు జోడించండి',
+  'listing.organic': 'సేంద్రీయ',
+  'listing.available': '{quantity} {unit} అందుబాటులో ఉంది',
+  'listing.away': '{distance} దూరంలో',
+  'listing.freightHint': 'ఈ దూరానికి రోడ్డు రవాణా అంచనా, కొటేషన్ కాదు',
+  'listing.transport': '~₹{cost}/క్వింటాల్ రవాణా',
+  'listing.ready': 'పికప్‌కు సిద్ధం',
+  'listing.harvestIn.one': '{count} రోజులో పంట కోత',
+  'listing.harvestIn.other': '{count} రోజుల్లో పంట కోత',
+  'listing.harvestOn': 'పంట కోత: {date}',
+  'listing.bids.one': '{count} బిడ్',
+  'listing.bids.other': '{count} బిడ్లు',
+  'listing.viewDetails': 'వివరాలు చూడండి',
+  'listing.placeBid': 'బిడ్ వేయండి',
+  'farmerCard.verified': 'ధృవీకరించబడిన రైతు',
+  'farmerCard.orders': '{count} ఆర్డర్లు',
+  'farmerCard.successRate': 'విజయ రేటు',
+  'farmerCard.response': 'స్పందన',
+  'farmerCard.languages': 'భాషలు:',
+  'farmerCard.recentReviews': 'ఇటీవలి సమీక్షలు ({count})',
+  'farmerCard.memberSince': '{date} నుండి సభ్యుడు',
+  'farmerCard.viewProfile': 'ప్రొఫైల్ చూడండి',
+  'farmerCard.contact': 'సంప్రదించండి',
+  'results.noCrops': 'పంటలు కనుగొనబడలేదు',
+  'results.clearFilters': 'ఫిల్టర్లను క్లియర్ చేయండి',
+  'results.loadMore': 'మరిన్ని లోడ్ చేయండి',
+  'gallery.image': 'చిత్రం {index}',
+  'gallery.noImage': 'చిత్రం అందుబాటులో లేదు',
+  'gallery.thumbnail': 'థంబ్‌నెయిల్ {index}',
+  'gallery.fullSize': 'పూర్తి పరిమాణ చిత్రం',
+  'search.backToMarketplace': 'మార్కెట్‌ప్లేస్‌కు తిరిగి వెళ్లండి',
+  'search.resultsFor': '"{term}" ఫలితాలు',
+  'search.allCrops': 'అన్ని పంటలు',
+  'search.shareTitle': 'శోధన ఫలితాలు',
+  'search.label': 'పంటలను వెతకండి',
+  'category.empty': 'ఈ వర్గంలో మీ ఫిల్టర్లకు సరిపోయేది ఏదీ లేదు',
+  'instantBuy.title': 'తక్షణ కొనుగోలు',
+  'instantBuy.quantity': 'పరిమాణం ఎంచుకోండి',
+  'instantBuy.deliverTo': 'ఇక్కడికి డెలివరీ',
+  'instantBuy.deliveryAddress': 'డెలివరీ చిరునామా',
+  'instantBuy.noAddresses': 'మీకు ఇంకా సేవ్ చేసిన చిరునామాలు లేవు.',
+  'instantBuy.manageAddresses': 'చిరునామాలను నిర్వహించండి',
+  'instantBuy.paymentMethod': 'చెల్లింపు విధానం',
+  'instantBuy.upi': 'UPI చెల్లింపు',
+  'instantBuy.card': 'కార్డ్ / నెట్ బ్యాంకింగ్',
+  'instantBuy.cod': 'డెలివరీపై నగదు',
+  'instantBuy.subtotal': 'ఉప మొత్తం',
+  'instantBuy.platformFee': 'ప్లాట్‌ఫారమ్ రుసుము (2%)',
+  'instantBuy.estimatedDelivery': 'అంచనా డెలివరీ',
+  'instantBuy.days': '{count} రోజులు',
+  'instantBuy.total': 'మొత్తం',
+  'instantBuy.cancel': 'రద్దు',
+  'instantBuy.buyNow': 'ఇప్పుడే కొనండి',
+
+  'wishlist.title': 'విష్‌లిస్ట్',
+  'wishlist.saved.one': '{count} సేవ్ చేసిన పంట',
+  'wishlist.saved.other': '{count} సేవ్ చేసిన పంటలు',
+  'wishlist.cheaper': '{count} సేవ్ చేసినప్పటి కంటే చౌక',
+  'wishlist.backInStockCount': '{count} మళ్లీ స్టాక్‌లో',
+  'wishlist.browse': 'మార్కెట్‌ప్లేస్ చూడండి',
+  'wishlist.savedCropsTab': 'సేవ్ చేసిన పంటలు ({count})',
+  'wishlist.loading': 'మీ విష్‌లిస్ట్ లోడ్ అవుతోంది...',
+  'wishlist.empty': 'మీ విష్‌లిస్ట్ ఖాళీగా ఉంది',
+  'wishlist.emptyHint': 'ఏ పంట ధర మరియు స్టాక్‌పైనైనా కన్నేసి ఉంచడానికి గుండెపై నొక్కండి.',
+  'wishlist.findCrops': 'పంటలను కనుగొనండి',
+  'wishlist.selectAll': 'స్టాక్‌లో ఉన్నవన్నీ ఎంచుకోండి',
+  'wishlist.addToCart': '{count} కార్ట్‌కు జోడించండి',
+  'wishlist.addNoneToCart': 'కార్ట్‌కు జోడించండి',
+  'wishlist.select': '{name} ఎంచుకోండి',
+  'wishlist.percentCheaper': '{percent}% చౌక',
+  'wishlist.backInStock': 'మళ్లీ స్టాక్‌లో',
+  'wishlist.outOfStock': 'స్టాక్ లేదు',
+  'wishlist.priceWhenSaved': 'సేవ్ చేసినప్పటి ధర',
+  'wishlist.was': 'గతంలో',
+  'wishlist.minOrder': 'కనీస ఆర్డర్ {quantity} {unit}',
+  'wishlist.available': '{quantity} {unit} అందుబాటులో ఉంది',
+  'wishlist.remove': 'విష్‌లిస్ట్ నుండి తొలగించండి',
+  'wishlist.removeItem': '{name}ను విష్‌లిస్ట్ నుండి తొలగించండి',
+  'wishlist.searchesTab': 'సేవ్ చేసిన శోధనలు ({count})',
+  'wishlist.loadingSearches': 'సేవ్ చేసిన శోధనలు లోడ్ అవుతున్నాయి...',
+  'wishlist.noSearches': 'సేవ్ చేసిన శోధనలు లేవు',
+  'wishlist.noSearchesHint': 'మార్కెట్‌ప్లేస్‌లో ఫిల్టర్లు సెట్ చేసి, తర్వాత మళ్లీ అమలు చేయడానికి "ఈ శోధనను సేవ్ చేయండి" ఎంచుకోండి.',
+  'wishlist.goToMarketplace': 'మార్కెట్‌ప్లేస్‌కు వెళ్లండి',
+  'wishlist.savedOn': '{date}న సేవ్ చేయబడింది',
+  'wishlist.lastRun': 'చివరిగా {date}న అమలు చేయబడింది',
+  'wishlist.lastMatch': 'చివరి సరిపోలిక {date}',
+  'wishlist.alertHint': 'సరిపోయే కొత్త లిస్టింగ్‌ల గురించి నాకు తెలియజేయండి',
+  'wishlist.alerts': 'హెచ్చరికలు',
+  'wishlist.run': 'అమలు చేయండి',
+  'wishlist.deleteSearch': 'సేవ్ చేసిన శోధనను తొలగించండి',
+  'wishlist.deleteItem': '{name} తొలగించండి',
+  'myBids.title': 'నా బిడ్లు',
+  'myBids.activeCount': '{count} క్రియాశీల',
+  'myBids.awaiting.one': '{count} కౌంటర్ ఆఫర్‌కు మీ స్పందన అవసరం',
+  'myBids.awaiting.other': '{count} కౌంటర్ ఆఫర్‌లకు మీ స్పందన అవసరం',
+  'myBids.filter': 'బిడ్లను ఫిల్టర్ చేయండి',
+  'myBids.filterAll': 'అన్నీ ({count})',
+  'myBids.filterActive': 'క్రియాశీల ({count})',
+  'myBids.filterAccepted': 'ఆమోదించినవి',
+  'myBids.filterClosed': 'మూసివేసినవి',
+  'myBids.loading': 'మీ బిడ్లు లోడ్ అవుతున్నాయి...',
+  'myBids.none': 'ఇక్కడ బిడ్లు లేవు',
+  'myBids.noneHint': 'మార్కెట్‌ప్లేస్ పంటలపై మీరు వేసే బిడ్లు ఇక్కడ కనిపిస్తాయి.',
+  'myBids.placedOn': '{date}న వేయబడింది',
+  'myBids.highestHint': 'ప్రస్తుతం మీ బిడ్ అత్యధికం',
+  'myBids.highest': 'అత్యధిక బిడ్',
+  'myBids.outbidHint': 'మరో కొనుగోలుదారు ఎక్కువ బిడ్ వేశారు',
+  'myBids.outbid': 'అధిగమించబడింది',
+  'myBids.total': 'మొత్తం ₹{amount}',
+  'myBids.expiresIn': '{time}లో గడువు ముగుస్తుంది',
+  'myBids.closedOn': '{date}న మూసివేయబడింది',
+  'myBids.countered': 'రైతు ₹{amount}/{unit}కి కౌంటర్ ఇచ్చారు. ఆమోదించండి, కౌంటర్ ఇవ్వండి లేదా ఉపసంహరించండి.',
+  'myBids.newPrice': 'ప్రతి {unit}కి కొత్త ధర',
+  'myBids.raiseBid': 'బిడ్ పెంచండి',
+  'myBids.cancel': 'రద్దు',
+  'myBids.negotiation': 'బేరసారాలు ({count})',
+  'myBids.withdraw': 'ఉపసంహరించండి',
+  'myBids.raise': 'పెంచండి',
+  'myBids.counter': 'కౌంటర్',
+  'myBids.acceptOffer': 'ఆఫర్ ఆమోదించండి',
+
+  'cropDetails.loading': 'పంట వివరాలు లోడ్ అవుతున్నాయి...',
+  'cropDetails.error': 'ఏదో తప్పు జరిగింది',
+  'cropDetails.back': 'మార్కెట్‌ప్లేస్‌కు తిరిగి వెళ్లండి',
+  'cropDetails.certifications': 'ధృవీకరణలు',
+  'cropDetails.share': 'షేర్ చేయండి',
+  'cropDetails.basePrice': 'మూల ధర',
+  'cropDetails.instantBuy': 'తక్షణ కొనుగోలు',
+  'cropDetails.available': 'అందుబాటులో',
+  'cropDetails.readyNow': 'ఇప్పుడే సిద్ధం',
+  'cropDetails.days': '{count} రోజులు',
+  'cropDetails.untilHarvest': 'పంట కోత వరకు',
+  'cropDetails.views': 'వీక్షణలు',
+  'cropDetails.description': 'వివరణ',
+  'cropDetails.specifications': 'వివరాలు',
+  'cropDetails.shipping': 'షిప్పింగ్ & డెలివరీ',
+  'cropDetails.pickup': 'పికప్‌కు అందుబాటులో',
+  'cropDetails.deliveryWithin': '{radius} కి.మీ. లోపు డెలివరీ',
+  'cropDetails.deliveryDays': 'అంచనా {count} రోజుల్లో డెలివరీ',
+  'cropDetails.reviews': 'సమీక్షలు',
+  'cropDetails.placeYourBid': 'మీ బిడ్ వేయండి',
+  'cropDetails.timeLeft': '{time} మిగిలి ఉంది',
+  'cropDetails.biddingClosed': 'బిడ్డింగ్ మూసివేయబడింది',
+  'cropDetails.highestBid': 'అత్యధిక బిడ్',
+  'cropDetails.totalBids': 'మొత్తం బిడ్లు',
+  'cropDetails.average': 'సగటు',
+  'cropDetails.bidAmount': 'బిడ్ మొత్తం (₹/{unit})',
+  'cropDetails.minBid': 'కనీసం: ₹{amount}',
+  'cropDetails.quantity': 'పరిమాణం ({unit})',
+  'cropDetails.maxQuantity': 'గరిష్ఠం: {quantity} {unit}',
+  'cropDetails.message': 'సందేశం (ఐచ్ఛికం)',
+  'cropDetails.totalValue': 'మొత్తం విలువ:',
+  'cropDetails.cancel': 'రద్దు',
+  'cropDetails.submitBid': 'బిడ్ సమర్పించండి',
+  'cropDetails.placeBid': 'బిడ్ వేయండి',
+  'cropDetails.instantBuyAt': 'తక్షణ కొనుగోలు @ ₹{price}',
+  'cropDetails.addMore': 'మరిన్ని జోడించండి (కార్ట్‌లో {quantity} {unit})',
+  'cropDetails.addToCart': 'కార్ట్‌కు జోడించండి',
+  'cropDetails.processing': 'ప్రాసెస్ అవుతోంది...',
+
+  'placeBid.back': 'వెనుకకు వెళ్లండి',
+  'placeBid.subtitle': 'రైతుకు పోటీ ఆఫర్ సమర్పించండి',
+  'placeBid.marketPrice': 'మార్కెట్ ధర',
+  'placeBid.harvestDate': 'పంట కోత తేదీ',
+  'placeBid.negotiation': 'మీ బేరసారాలు',
+  'placeBid.currentTerms': 'ప్రస్తుత నిబంధనలు:',
+  'placeBid.termsQuantity': '{quantity} {unit}కి · {total}.',
+  'placeBid.offerExpires': 'ఆఫర్ {date}న ముగుస్తుంది.',
+  'placeBid.counterOffer': 'కౌంటర్ ఆఫర్',
+  'placeBid.roundLimit': 'రౌండ్ పరిమితి చేరుకుంది',
+  'placeBid.acceptAt': '₹{amount}/{unit} ఆమోదించండి',
+  'placeBid.yourOffer': 'మీ ఆఫర్',
+  'placeBid.pricePer': 'ప్రతి {unit}కి బిడ్ ధర',
+  'placeBid.pricePlaceholder': 'మీ బిడ్ ధర నమోదు చేయండి',
+  'placeBid.priceRequired': 'ధర అవసరం',
+  'placeBid.priceMin': 'ధర కనీసం ₹1 ఉండాలి',
+  'placeBid.aboveMarket': 'మార్కెట్ కంటే +{percent}% ఎక్కువ',
+  'placeBid.belowMarket': 'మార్కెట్ కంటే {percent}% తక్కువ',
+  'placeBid.atMarket': 'మార్కెట్ ధర వద్ద',
+  'placeBid.quantity': 'పరిమాణం',
+  'placeBid.quantityUnit': 'పరిమాణం ({unit})',
+  'placeBid.quantityPlaceholder': 'పరిమాణం నమోదు చేయండి',
+  'placeBid.maxAvailable': 'గరిష్ఠంగా అందుబాటులో: {quantity} {unit}',
+  'placeBid.quantityRequired': 'పరిమాణం అవసరం',
+  'placeBid.quantityMin': 'కనీస పరిమాణం 1 {unit}',
+  'placeBid.delivery': 'డెలివరీ వివరాలు',
+  'placeBid.deliveryDate': 'ఇష్టపడే డెలివరీ తేదీ',
+  'placeBid.selectDate': 'తేదీ ఎంచుకోండి',
+  'placeBid.dateRequired': 'డెలివరీ తేదీ అవసరం',
+  'placeBid.deliveryLocation': 'డెలివరీ ప్రదేశం',
+  'placeBid.selectLocation': 'ప్రదేశం ఎంచుకోండి',
+  'placeBid.pickup': 'పొలం నుండి పికప్',
+  'placeBid.manageAddresses': 'చిరునామాలను నిర్వహించండి',
+  'placeBid.locationRequired': 'డెలివరీ ప్రదేశం అవసరం',
+  'placeBid.messageTitle': 'రైతుకు సందేశం',
+  'placeBid.optional': '(ఐచ్ఛికం)',
+  'placeBid.yourMessage': 'మీ సందేశం',
+  'placeBid.messagePlaceholder': 'రైతు కోసం ప్రత్యేక అవసరాలు, ప్రశ్నలు లేదా గమనికలు జోడించండి...',
+  'placeBid.messageHint': 'ఇది రైతు మీ అవసరాలను బాగా అర్థం చేసుకోవడానికి సహాయపడుతుంది',
+  'placeBid.summary': 'బిడ్ సారాంశం',
+  'placeBid.pricePerUnit': 'ప్రతి {unit}కి ధర',
+  'placeBid.totalAmount': 'మొత్తం బిడ్ మొత్తం',
+  'placeBid.agreePrefix': 'నేను అంగీకరిస్తున్నాను:',
+  'placeBid.terms': 'నిబంధనలు & షరతులు',
+  'placeBid.agreeSuffix': 'రైతు ఆమోదించిన తర్వాత ఈ బిడ్ బద్ధమని అర్థం చేసుకున్నాను.',
+  'placeBid.termsRequired': 'బిడ్ వేయడానికి మీరు షరతులను అంగీకరించాలి',
+  'placeBid.cancel': 'రద్దు',
+  'placeBid.placing': 'బిడ్ వేస్తోంది...',
+  'placeBid.placeFor': 'బిడ్ వేయండి - {total}',
+  'placeBid.notFound': 'పంట కనుగొనబడలేదు',
+  'placeBid.notFoundHint': 'మీరు వెతుకుతున్న పంట లేదు లేదా తొలగించబడింది.',
+
+  'bids.highest': 'అత్యధిక బిడ్',
+  'bids.orders': '{count} ఆర్డర్లు',
+  'bids.total': 'మొత్తం: ₹{amount}',
+  'bids.pending': 'పెండింగ్',
+  'bids.accepted': 'ఆమోదించబడింది',
+  'bids.rejected': 'తిరస్కరించబడింది',
+  'bids.expired': 'గడువు ముగిసింది',
+  'bids.countered': 'కౌంటర్ ఇవ్వబడింది',
+  'bids.withdrawn': 'ఉపసంహరించబడింది',
+  'bids.negotiationRounds': 'బేరసారాలు ({count}/{max} రౌండ్లు)',
+  'bids.responded': '{date}న స్పందించారు',
+  'bids.rejectTooltip': 'బిడ్ తిరస్కరించండి',
+  'bids.reject': 'తిరస్కరించండి',
+  'bids.counterTooltip': 'కౌంటర్ ఆఫర్ ఇవ్వండి',
+  'bids.roundLimit': 'బేరసారాల రౌండ్ పరిమితి చేరుకుంది',
+  'bids.counter': 'కౌంటర్',
+  'bids.acceptTooltip': 'బిడ్ ఆమోదించండి',
+  'bids.accept': 'ఆమోదించండి',
+  'negotiation.round': '{max}లో రౌండ్ {count}',
+  'negotiation.finalRound': 'చివరి రౌండ్ – ఆమోదించండి లేదా తిరస్కరించండి',
+  'negotiation.left.one': '{count} కౌంటర్ ఆఫర్ మిగిలి ఉంది',
+  'negotiation.left.other': '{count} కౌంటర్ ఆఫర్లు మిగిలి ఉన్నాయి',
+  'negotiation.bid': 'బిడ్',
+  'negotiation.counter': 'కౌంటర్',
+  'negotiation.yourTurn': 'మీ స్పందన కోసం వేచి ఉంది',
+  'negotiation.theirTurn': 'మరో పక్షం కోసం వేచి ఉంది',
+  'acceptBid.title': 'ఈ బిడ్ ఆమోదించాలా?',
+  'acceptBid.buyer': 'కొనుగోలుదారు',
+  'acceptBid.amount': 'బిడ్ మొత్తం',
+  'acceptBid.quantity': 'పరిమాణం',
+  'acceptBid.totalValue': 'మొత్తం విలువ',
+  'acceptBid.notice': 'ఈ బిడ్‌ను ఆమోదించడం ద్వారా మీ పంటను నిర్దిష్ట ధరకు అమ్మడానికి అంగీకరిస్తున్నారు. కొనుగోలుదారుకు తెలియజేయబడి ఆర్డర్ సృష్టించబడుతుంది.',
+  'acceptBid.cancel': 'రద్దు',
+  'acceptBid.confirm': 'బిడ్ ఆమోదించండి',
+  'counterBid.title': 'కౌంటర్ ఆఫర్ ఇవ్వండి',
+  'counterBid.toFarmer': 'రైతుకు',
+  'counterBid.toBuyer': '{name}కు',
+  'counterBid.round': '{max}లో రౌండ్ {count}',
+  'counterBid.theirOffer': 'వారి ఆఫర్',
+  'counterBid.theirBid': 'వారి బిడ్',
+  'counterBid.yourCounter': 'మీ కౌంటర్',
+  'counterBid.amount': 'కౌంటర్ మొత్తం (₹/{unit})',
+  'counterBid.quantity': 'పరిమాణం ({unit})',
+  'counterBid.deliveryDate': 'డెలివరీ తేదీ',
+  'counterBid.message': 'సందేశం (ఐచ్ఛికం)',
+  'counterBid.more': 'వారి బిడ్ కంటే ₹{amount} ఎక్కువ (+{percent}%)',
+  'counterBid.less': 'వారి ఆఫర్ కంటే ₹{amount} తక్కువ ({percent}%)',
+  'counterBid.same': 'వారి ఆఫర్‌తో సమానం',
+  'counterBid.totalValue': 'మొత్తం విలువ',
+  'counterBid.cancel': 'రద్దు',
+  'counterBid.send': 'కౌంటర్ ఆఫర్ పంపండి',
+  'rejectBid.title': 'ఈ బిడ్ తిరస్కరించాలా?',
+  'rejectBid.from': '{name} నుండి',
+  'rejectBid.reason': 'తిరస్కరణకు కారణం (ఐచ్ఛికం)',
+  'rejectBid.customReason': 'స్వంత కారణం',
+  'rejectBid.reasonPlaceholder': 'మీ కారణం నమోదు చేయండి...',
+  'rejectBid.cancel': 'రద్దు',
+  'rejectBid.confirm': 'బిడ్ తిరస్కరించండి',
+  'cropBids.back': 'వెనుకకు వెళ్లండి',
+  'cropBids.title': 'మీ పంటపై బిడ్లు',
+  'cropBids.live': 'లైవ్',
+  'cropBids.connecting': 'కనెక్ట్ అవుతోంది...',
+  'cropBids.offline': 'ఆఫ్‌లైన్',
+  'cropBids.refresh': 'బిడ్లను రిఫ్రెష్ చేయండి',
+  'cropBids.loading': 'బిడ్లు లోడ్ అవుతున్నాయి...',
+  'cropBids.available': '{quantity} {unit} అందుబాటులో ఉంది',
+  'cropBids.listedPrice': 'జాబితా ధర',
+  'cropBids.averageBid': 'సగటు బిడ్',
+  'cropBids.totalBids': 'మొత్తం బిడ్లు',
+  'cropBids.all': 'అన్నీ',
+  'cropBids.none': 'ఇంకా బిడ్లు లేవు',
+  'cropBids.noneHint': 'కొనుగోలుదారులు మీ పంటపై బిడ్ వేసినప్పుడు అవి వెంటనే ఇక్కడ కనిపిస్తాయి.',
+  'cropBids.processing': 'ప్రాసెస్ అవుతోంది...',
+  'cropBids.myBids': 'నా బిడ్లు',
+  'cropBids.comingSoon': 'బిడ్ నిర్వహణ త్వరలో...',
+};
+
+export default TE;
@@ -0,0 +1,9 @@
+/**
+ * i18n Public API
+ * ===============
+ * Supported languages and the source catalog types.
+ * Other catalogs are loaded on demand by TranslationService.
+ */
+
+export * from './languages';
+export { EN, type TranslationKey, type TranslationCatalog } from './catalogs/en';
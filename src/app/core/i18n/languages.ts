@@ -0,0 +1,36 @@
+/**
+ * Supported Languages
+ * ===================
+ * Languages the UI is translated into. English is the source language
+ * and the fallback for keys missing from other catalogs.
+ */
+
+export type LanguageCode = 'en' | 'hi' | 'te' | 'ta' | 'mr';
+
+export interface Language {
+  readonly code: LanguageCode;
+  /** English name */
+  readonly name: string;
+  /** Name in the language itself */
+  readonly native: string;
+  /**
+   * BCP 47 locale for number, currency and date formatting.
+   * Indian locales group digits in lakhs and crores; Latin digits are
+   * kept so prices read the same across languages.
+   */
+  readonly locale: string;
+}
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+export const SUPPORTED_LANGUAGES: readonly Language[] = [
+  { code: 'en', name: 'English', native: 'English', locale: 'en-IN' },
+  { code: 'hi', name: 'Hindi', native: 'हिंदी', locale: 'hi-IN-u-nu-latn' },
+  { code: 'te', name: 'Telugu', native: 'తెలుగు', locale: 'te-IN-u-nu-latn' },
+  { code: 'ta', name: 'Tamil', native: 'தமிழ்', locale: 'ta-IN-u-nu-latn' },
+  { code: 'mr', name: 'Marathi', native: 'मराठी', locale: 'mr-IN-u-nu-latn' },
+];
+
+export function isSupportedLanguage(code: string | null | undefined): code is LanguageCode {
+  return SUPPORTED_LANGUAGES.some((language) => language.code === code);
+}
@@ -9,6 +9,10 @@ import { Router } from '@angular/router';
 import { catchError, throwError } from 'rxjs';
 import { AuthService } from '@core/services/auth.service';
 import { NotificationService } from '@core/services/notification.service';
+import {
+  OfflineQueuedError,
+  OFFLINE_REPLAY_HEADER,
+} from '@infrastructure/services/request-queue.service';
 
 /**
  * Error Interceptor
@@ -24,8 +28,18 @@ export const errorInterceptor: HttpInterceptorFn = (
   const authService = inject(AuthService);
   const notificationService = inject(NotificationService);
 
+  // Background replays of offline requests report their own failures
+  if (req.headers.has(OFFLINE_REPLAY_HEADER)) {
+    return next(req);
+  }
+
   return next(req).pipe(
     catchError((error: HttpErrorResponse) => {
+      // Request was saved for later; callers handle this themselves
+      if (error instanceof OfflineQueuedError) {
+        return throwError(() => error);
+      }
+
       let errorMessage = 'An unexpected error occurred';
 
       switch (error.status) {
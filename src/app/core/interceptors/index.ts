@@ -6,3 +6,4 @@
 export * from './auth.interceptor';
 export * from './loading.interceptor';
 export * from './error.interceptor';
+export * from './offline.interceptor';
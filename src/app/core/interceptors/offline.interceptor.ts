@@ -0,0 +1,120 @@
+import {
+  HttpInterceptorFn,
+  HttpRequest,
+  HttpHandlerFn,
+  HttpResponse,
+  HttpErrorResponse,
+  HttpHeaders,
+} from '@angular/common/http';
+import { inject } from '@angular/core';
+import { Observable, from, throwError, of } from 'rxjs';
+import { catchError, switchMap, tap } from 'rxjs/operators';
+import { environment } from '@environments/environment';
+import { ConnectivityService } from '@infrastructure/services/connectivity.service';
+import { OfflineStoreService } from '@infrastructure/services/offline-store.service';
+import {
+  RequestQueueService,
+  OfflineQueuedError,
+  OFFLINE_QUEUE_HEADER,
+  OFFLINE_REPLAY_HEADER,
+} from '@infrastructure/services/request-queue.service';
+
+/**
+ * Offline Interceptor
+ * ===================
+ * Caches API GET responses in IndexedDB and serves them when the network
+ * is unavailable. Mutating requests marked with `X-Offline-Queue` are
+ * queued while offline and replayed on reconnect.
+ */
+export const offlineInterceptor: HttpInterceptorFn = (
+  req: HttpRequest<unknown>,
+  next: HttpHandlerFn
+) => {
+  const store = inject(OfflineStoreService);
+
+  if (!req.url.startsWith(environment.apiUrl) || !store.isSupported) {
+    return next(req);
+  }
+
+  // Replays from the queue go straight to the network
+  if (req.headers.has(OFFLINE_REPLAY_HEADER)) {
+    return next(req.clone({ headers: req.headers.delete(OFFLINE_REPLAY_HEADER) }));
+  }
+
+  if (req.method === 'GET') {
+    return handleGet(req, next, store);
+  }
+
+  const queueLabel = req.headers.get(OFFLINE_QUEUE_HEADER);
+  if (queueLabel) {
+    return handleQueueable(req.clone({ headers: req.headers.delete(OFFLINE_QUEUE_HEADER) }), next, queueLabel);
+  }
+
+  return next(req);
+};
+
+/**
+ * Network first, falling back to a fresh-enough cached copy
+ */
+function handleGet(
+  req: HttpRequest<unknown>,
+  next: HttpHandlerFn,
+  store: OfflineStoreService
+) {
+  const connectivity = inject(ConnectivityService);
+  const key = req.urlWithParams;
+
+  const fromCache = (error: unknown): Observable<HttpResponse<unknown>> =>
+    from(store.getResponse(key).catch(() => null)).pipe(
+      switchMap((cached) =>
+        cached
+          ? of(
+              new HttpResponse({
+                body: cached.body,
+                status: cached.status,
+                url: req.urlWithParams,
+                headers: new HttpHeaders({ 'X-Offline-Cache': 'true' }),
+              })
+            )
+          : throwError(() => error)
+      )
+    );
+
+  if (connectivity.isOffline()) {
+    return fromCache(new HttpErrorResponse({ status: 0, statusText: 'Offline', url: req.urlWithParams }));
+  }
+
+  return next(req).pipe(
+    tap((event) => {
+      if (event instanceof HttpResponse && event.ok) {
+        store.putResponse(key, event.body, event.status).catch(() => undefined);
+      }
+    }),
+    catchError((error: HttpErrorResponse) =>
+      error.status === 0 ? fromCache(error) : throwError(() => error)
+    )
+  );
+}
+
+/**
+ * Queue the request when offline or when the network drops mid-request
+ */
+function handleQueueable(req: HttpRequest<unknown>, next: HttpHandlerFn, label: string) {
+  const connectivity = inject(ConnectivityService);
+  const queue = inject(RequestQueueService);
+
+  const enqueue = () =>
+    from(queue.enqueue(req, label)).pipe(
+      switchMap((id) => throwError(() => new OfflineQueuedError(id, label)))
+    );
+
+  if (connectivity.isOffline()) {
+    return enqueue();
+  }
+
+  return next(req).pipe(
+    catchError((error: HttpErrorResponse) =>
+      error.status === 0 ? enqueue() : throwError(() => error)
+    )
+  );
+}
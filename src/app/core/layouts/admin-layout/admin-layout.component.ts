@@ -17,12 +17,16 @@ import { MatTooltipModule } from '@angular/material/tooltip';
 import { MatListModule } from '@angular/material/list';
 
 import { AuthService } from '@core/services/auth.service';
+import { Permission } from '@domain/models/permission.model';
+import { HasPermissionDirective } from '@shared/directives/has-permission.directive';
 
 interface AdminNavItem {
   label: string;
   icon: string;
   route: string;
   badge?: number;
+  /** Hidden from admins without these */
+  permissions: Permission[];
 }
 
 @Component({
@@ -40,6 +44,7 @@ interface AdminNavItem {
     MatDividerModule,
     MatTooltipModule,
     MatListModule,
+    HasPermissionDirective,
   ],
   templateUrl: './admin-layout.component.html',
   styleUrl: './admin-layout.component.scss',
@@ -49,12 +54,13 @@ export class AdminLayoutComponent {
   readonly authService = inject(AuthService);
 
   readonly navItems: AdminNavItem[] = [
-    { label: 'Dashboard', icon: 'dashboard', route: '/admin/dashboard' },
-    { label: 'Users', icon: 'people', route: '/admin/users', badge: 12 },
-    { label: 'Products', icon: 'inventory', route: '/admin/products', badge: 5 },
-    { label: 'Categories', icon: 'category', route: '/admin/categories' },
-    { label: 'Reports', icon: 'analytics', route: '/admin/reports' },
-    { label: 'Settings', icon: 'settings', route: '/admin/settings' },
+    { label: 'Dashboard', icon: 'dashboard', route: '/admin/dashboard', permissions: [] },
+    { label: 'Users', icon: 'people', route: '/admin/users', badge: 12, permissions: ['users:view'] },
+    { label: 'Products', icon: 'inventory', route: '/admin/products', badge: 5, permissions: ['products:view'] },
+    { label: 'Categories', icon: 'category', route: '/admin/categories', permissions: ['categories:manage'] },
+    { label: 'Disputes', icon: 'gavel', route: '/admin/disputes', permissions: ['disputes:view'] },
+    { label: 'Reports', icon: 'analytics', route: '/admin/reports', permissions: ['reports:view'] },
+    { label: 'Settings', icon: 'settings', route: '/admin/settings', permissions: ['settings:manage'] },
   ];
 }
 
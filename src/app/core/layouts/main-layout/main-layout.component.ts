@@ -5,9 +5,9 @@
  * Includes header, sidebar, and main content area.
  */
 
-import { Component, ChangeDetectionStrategy, inject, signal } from '@angular/core';
+import { Component, ChangeDetectionStrategy, inject, signal, computed, OnInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { RouterModule, RouterOutlet } from '@angular/router';
+import { Router, RouterModule, RouterOutlet } from '@angular/router';
 import { MatSidenavModule } from '@angular/material/sidenav';
 import { MatToolbarModule } from '@angular/material/toolbar';
 import { MatButtonModule } from '@angular/material/button';
@@ -20,9 +20,16 @@ import { MatListModule } from '@angular/material/list';
 
 import { AuthService } from '@core/services/auth.service';
 import { UserRole } from '@domain/models/user.model';
+import { ChatService } from '@features/chat/services/chat.service';
+import { CartService } from '@features/cart/services/cart.service';
+import { PwaService } from '@core/services/pwa.service';
+import { TranslationService } from '@core/services/translation.service';
+import { TranslationKey } from '@core/i18n';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
+import { ConnectivityBannerComponent } from '@shared/components/connectivity-banner/connectivity-banner.component';
 
 interface NavItem {
-  label: string;
+  labelKey: TranslationKey;
   icon: string;
   route: string;
   roles?: UserRole[];
@@ -45,238 +52,71 @@ interface NavItem {
     MatDividerModule,
     MatTooltipModule,
     MatListModule,
+    ConnectivityBannerComponent,
+    TranslatePipe,
   ],
   templateUrl: './main-layout.component.html',
   styleUrl: './main-layout.component.scss',
-      <!-- Sidebar -->
-      <mat-sidenav
-        #sidenav
-        [mode]="sidenavMode()"
-        [opened]="sidenavOpened()"
-        (closedStart)="sidenavOpened.set(false)"
-        class="w-64 border-r border-gray-200"
-      >
-        <!-- Logo -->
-        <div class="p-4 border-b border-gray-200">
-          <a routerLink="/dashboard" class="flex items-center gap-3">
-            <div class="w-10 h-10 bg-primary-600 rounded-xl flex items-center justify-center">
-              <span class="text-white font-bold text-lg">🌾</span>
-            </div>
-            <div>
-              <h1 class="font-display font-bold text-primary-700 text-lg leading-tight">
-                Smart Mandi
-              </h1>
-              <span class="text-xs text-gray-500">Connect</span>
-            </div>
-          </a>
-        </div>
-
-        <!-- Navigation -->
-        <nav class="p-3 flex-1">
-          <ul class="space-y-1">
-            @for (item of visibleNavItems(); track item.route) {
-              <li>
-                <a
-                  [routerLink]="item.route"
-                  routerLinkActive="bg-primary-50 text-primary-700 border-primary-200"
-                  class="flex items-center gap-3 px-3 py-2.5 rounded-lg text-gray-700 
-                         hover:bg-gray-100 transition-colors border border-transparent"
-                >
-                  <mat-icon class="text-xl">{{ item.icon }}</mat-icon>
-                  <span class="font-medium">{{ item.label }}</span>
-                  @if (item.badge) {
-                    <span class="ml-auto bg-red-500 text-white text-xs px-2 py-0.5 rounded-full">
-                      {{ item.badge }}
-                    </span>
-                  }
-                </a>
-              </li>
-            }
-          </ul>
-        </nav>
-
-        <!-- User Info -->
-        <div class="p-4 border-t border-gray-200">
-          <div class="flex items-center gap-3">
-            <div
-              class="w-10 h-10 rounded-full bg-primary-100 flex items-center justify-center
-                     text-primary-700 font-semibold"
-            >
-              {{ authService.displayName().charAt(0).toUpperCase() }}
-            </div>
-            <div class="flex-1 min-w-0">
-              <p class="text-sm font-medium text-gray-900 truncate">
-                {{ authService.displayName() }}
-              </p>
-              <p class="text-xs text-gray-500 capitalize">
-                {{ authService.userRole() }}
-              </p>
-            </div>
-          </div>
-        </div>
-      </mat-sidenav>
-
-      <!-- Main Content -->
-      <mat-sidenav-content class="flex flex-col bg-gray-50">
-        <!-- Header -->
-        <header
-          class="sticky top-0 z-40 bg-white border-b border-gray-200 px-4 lg:px-6"
-        >
-          <div class="flex items-center justify-between h-16">
-            <!-- Left: Menu Toggle & Search -->
-            <div class="flex items-center gap-4">
-              <button
-                mat-icon-button
-                (click)="toggleSidenav()"
-                class="lg:hidden"
-              >
-                <mat-icon>menu</mat-icon>
-              </button>
-
-              <!-- Search Bar -->
-              <div class="hidden sm:flex items-center">
-                <div class="relative">
-                  <mat-icon
-                    class="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400"
-                  >
-                    search
-                  </mat-icon>
-                  <input
-                    type="text"
-                    placeholder="Search products, farmers..."
-                    class="w-64 lg:w-80 pl-10 pr-4 py-2 rounded-lg border border-gray-300 
-                           focus:border-primary-500 focus:ring-2 focus:ring-primary-200 
-                           outline-none transition-all"
-                  />
-                </div>
-              </div>
-            </div>
-
-            <!-- Right: Actions -->
-            <div class="flex items-center gap-2">
-              <!-- Mobile Search -->
-              <button mat-icon-button class="sm:hidden">
-                <mat-icon>search</mat-icon>
-              </button>
-
-              <!-- Notifications -->
-              <button mat-icon-button matTooltip="Notifications" routerLink="/notifications">
-                <mat-icon matBadge="3" matBadgeColor="warn" matBadgeSize="small">
-                  notifications_outlined
-                </mat-icon>
-              </button>
-
-              <!-- Messages -->
-              <button mat-icon-button matTooltip="Messages" routerLink="/messages">
-                <mat-icon matBadge="2" matBadgeColor="accent" matBadgeSize="small">
-                  chat_bubble_outline
-                </mat-icon>
-              </button>
-
-              <!-- Cart (Buyer only) -->
-              @if (authService.isBuyer()) {
-                <button mat-icon-button matTooltip="Cart" routerLink="/cart">
-                  <mat-icon matBadge="5" matBadgeColor="primary" matBadgeSize="small">
-                    shopping_cart_outlined
-                  </mat-icon>
-                </button>
-              }
-
-              <mat-divider vertical class="h-8 mx-2"></mat-divider>
-
-              <!-- User Menu -->
-              <button mat-button [matMenuTriggerFor]="userMenu" class="!px-2">
-                <div class="flex items-center gap-2">
-                  <div
-                    class="w-8 h-8 rounded-full bg-primary-100 flex items-center justify-center
-                           text-primary-700 font-semibold text-sm"
-                  >
-                    {{ authService.displayName().charAt(0).toUpperCase() }}
-                  </div>
-                  <span class="hidden md:inline text-sm font-medium">
-                    {{ authService.displayName() }}
-                  </span>
-                  <mat-icon class="text-gray-400">arrow_drop_down</mat-icon>
-                </div>
-              </button>
-
-              <mat-menu #userMenu="matMenu" xPosition="before">
-                <a mat-menu-item routerLink="/profile">
-                  <mat-icon>person_outlined</mat-icon>
-                  <span>My Profile</span>
-                </a>
-                <a mat-menu-item routerLink="/profile/settings">
-                  <mat-icon>settings_outlined</mat-icon>
-                  <span>Settings</span>
-                </a>
-                @if (authService.isAdmin()) {
-                  <mat-divider></mat-divider>
-                  <a mat-menu-item routerLink="/admin">
-                    <mat-icon>admin_panel_settings</mat-icon>
-                    <span>Admin Panel</span>
-                  </a>
-                }
-                <mat-divider></mat-divider>
-                <button mat-menu-item (click)="authService.logout()">
-                  <mat-icon>logout</mat-icon>
-                  <span>Logout</span>
-                </button>
-              </mat-menu>
-            </div>
-          </div>
-        </header>
-
-        <!-- Page Content -->
-        <main class="flex-1 p-4 lg:p-6 overflow-auto">
-          <div class="page-enter">
-            <router-outlet />
-          </div>
-        </main>
-
-        <!-- Footer -->
-        <footer class="py-4 px-6 text-center text-sm text-gray-500 border-t border-gray-200 bg-white">
-          © 2024 Smart Mandi Connect. All rights reserved.
-        </footer>
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
-export class MainLayoutComponent {
+export class MainLayoutComponent implements OnInit {
   readonly authService = inject(AuthService);
+  readonly chatService = inject(ChatService);
+  readonly cartService = inject(CartService);
+  readonly pwaService = inject(PwaService);
+  readonly translationService = inject(TranslationService);
+  private readonly router = inject(Router);
 
   readonly sidenavOpened = signal(true);
   readonly sidenavMode = signal<'side' | 'over'>('side');
 
   private readonly navItems: NavItem[] = [
-    { label: 'Dashboard', icon: 'dashboard', route: '/dashboard' },
-    { label: 'Marketplace', icon: 'storefront', route: '/marketplace' },
+    { labelKey: 'nav.dashboard', icon: 'dashboard', route: '/dashboard' },
+    { labelKey: 'nav.marketplace', icon: 'storefront', route: '/marketplace' },
     {
-      label: 'My Products',
+      labelKey: 'nav.myProducts',
       icon: 'inventory_2',
       route: '/products',
       roles: [UserRole.FARMER],
     },
     {
-      label: 'Add Product',
+      labelKey: 'nav.addProduct',
       icon: 'add_circle_outline',
       route: '/products/new',
       roles: [UserRole.FARMER],
     },
-    { label: 'Orders', icon: 'receipt_long', route: '/orders', badge: 2 },
     {
-      label: 'Cart',
+      labelKey: 'nav.myBids',
+      icon: 'gavel',
+      route: '/marketplace/my-bids',
+      roles: [UserRole.BUYER],
+    },
+    {
+      labelKey: 'nav.wishlist',
+      icon: 'favorite',
+      route: '/marketplace/wishlist',
+      roles: [UserRole.BUYER],
+    },
+    { labelKey: 'nav.orders', icon: 'receipt_long', route: '/orders', badge: 2 },
+    {
+      labelKey: 'nav.cart',
       icon: 'shopping_cart',
       route: '/cart',
       roles: [UserRole.BUYER],
-      badge: 5,
     },
-    { label: 'Messages', icon: 'chat', route: '/messages', badge: 3 },
-    { label: 'Profile', icon: 'person', route: '/profile' },
+    { labelKey: 'nav.messages', icon: 'chat', route: '/chat' },
+    { labelKey: 'nav.profile', icon: 'person', route: '/profile' },
   ];
 
-  readonly visibleNavItems = signal(
-    this.navItems.filter(
-      (item) => !item.roles || this.authService.hasRole(item.roles)
-    )
-  );
+  readonly visibleNavItems = computed(() => {
+    const badges: Record<string, number> = {
+      '/chat': this.chatService.totalUnread(),
+      '/cart': this.cartService.itemCount(),
+    };
+    return this.navItems
+      .filter((item) => !item.roles || this.authService.hasAnyRole(item.roles))
+      .map((item) => (item.route in badges ? { ...item, badge: badges[item.route] } : item));
+  });
 
   constructor() {
     // Adjust sidenav based on screen size
@@ -286,6 +126,22 @@ export class MainLayoutComponent {
     }
   }
 
+  ngOnInit(): void {
+    // Populate the unread badge and start listening for new messages
+    this.chatService.loadThreads();
+  }
+
+  /** Header search: open the marketplace results for the term */
+  onSearch(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const q = input.value.trim();
+    if (!q) return;
+
+    this.router.navigate(['/marketplace/search'], { queryParams: { q } });
+    input.value = '';
+    input.blur();
+  }
+
   toggleSidenav(): void {
     this.sidenavOpened.update((opened) => !opened);
   }
@@ -7,3 +7,8 @@ export * from './auth.service';
 export * from './loading.service';
 export * from './media-upload.service';
 export * from './notification.service';
+export * from './pwa.service';
+export * from './translation.service';
+export * from './preferences.service';
+export * from './theme.service';
+export * from './permission.service';
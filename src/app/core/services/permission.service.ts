@@ -0,0 +1,188 @@
+import { Injectable, inject, signal, computed, effect, untracked } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, of, delay, tap, catchError, throwError } from 'rxjs';
+import { environment } from '@environments/environment';
+import { UserRole } from '@domain/models/user.model';
+import {
+  AdminRole,
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSIONS,
+  Permission,
+  RolePermissions,
+} from '@domain/models/permission.model';
+import { AuthService } from './auth.service';
+
+interface PermissionState {
+  rolePermissions: RolePermissions;
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+}
+
+const STORAGE_KEY = 'smc_role_permissions';
+
+/** Drop unknown permissions and fill in roles added since the matrix was stored */
+function normalize(stored: Partial<Record<AdminRole, readonly string[]>> | null | undefined): RolePermissions {
+  const known = (permissions: readonly string[] | undefined, role: AdminRole): readonly Permission[] =>
+    permissions
+      ? PERMISSIONS.filter((p) => permissions.includes(p))
+      : DEFAULT_ROLE_PERMISSIONS[role];
+
+  return {
+    [AdminRole.SUPER_ADMIN]: PERMISSIONS,
+    [AdminRole.MODERATOR]: known(stored?.[AdminRole.MODERATOR], AdminRole.MODERATOR),
+    [AdminRole.FINANCE]: known(stored?.[AdminRole.FINANCE], AdminRole.FINANCE),
+    [AdminRole.SUPPORT]: known(stored?.[AdminRole.SUPPORT], AdminRole.SUPPORT),
+  };
+}
+
+/**
+ * Permission Service
+ * ==================
+ * What the signed-in user may do, from their admin sub-roles and the
+ * role-permission matrix. The matrix is cached in localStorage so guards
+ * can answer before it is fetched; farmers and buyers hold no permissions.
+ */
+@Injectable({ providedIn: 'root' })
+export class PermissionService {
+  private readonly http = inject(HttpClient);
+  private readonly authService = inject(AuthService);
+  private readonly apiUrl = `${environment.apiUrl}/admin/roles`;
+
+  // ============================================
+  // State Signal
+  // ============================================
+
+  private readonly _state = signal<PermissionState>({
+    rolePermissions: normalize(this.readCache()),
+    isLoading: false,
+    isSaving: false,
+    error: null,
+  });
+
+  // ============================================
+  // Computed Signals
+  // ============================================
+
+  readonly rolePermissions = computed(() => this._state().rolePermissions);
+  readonly isLoading = computed(() => this._state().isLoading);
+  readonly isSaving = computed(() => this._state().isSaving);
+  readonly error = computed(() => this._state().error);
+
+  /**
+   * Sub-roles of the signed-in admin. An account without `adminRoles`
+   * (created before sub-roles existed) is treated like an empty list and
+   * gets nothing until a super admin assigns its roles.
+   */
+  readonly adminRoles = computed<readonly AdminRole[]>(() => {
+    const user = this.authService.currentUser();
+    if (user?.role !== UserRole.ADMIN) return [];
+    return user.adminRoles ?? [];
+  });
+
+  /** Everything the signed-in user's sub-roles grant */
+  readonly permissions = computed<ReadonlySet<Permission>>(() => {
+    const matrix = this.rolePermissions();
+    return new Set(this.adminRoles().flatMap((role) => matrix[role]));
+  });
+
+  constructor() {
+    effect(() => {
+      if (this.adminRoles().length > 0) untracked(() => this.loadRolePermissions());
+    });
+  }
+
+  // ============================================
+  // Public Methods
+  // ============================================
+
+  has(permission: Permission): boolean {
+    return this.permissions().has(permission);
+  }
+
+  /** True when every permission is held; an empty list needs none */
+  hasAll(permissions: readonly Permission[]): boolean {
+    const held = this.permissions();
+    return permissions.every((p) => held.has(p));
+  }
+
+  hasAny(permissions: readonly Permission[]): boolean {
+    const held = this.permissions();
+    return permissions.some((p) => held.has(p));
+  }
+
+  loadRolePermissions(): void {
+    this.updateState({ isLoading: true, error: null });
+
+    const request$: Observable<Partial<RolePermissions> | null> = !environment.production
+      ? of(this.readCache()).pipe(delay(300))
+      : this.http.get<RolePermissions>(this.apiUrl);
+
+    request$
+      .pipe(
+        tap((stored) => {
+          this.apply(normalize(stored));
+          this.updateState({ isLoading: false });
+        }),
+        catchError((error) => {
+          // Keep the cached matrix
+          this.updateState({ isLoading: false, error: 'Failed to load role permissions' });
+          return throwError(() => error);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Save the whole matrix. Super admin permissions can't be narrowed.
+   */
+  saveRolePermissions(rolePermissions: RolePermissions): Observable<RolePermissions> {
+    const matrix = normalize(rolePermissions);
+    this.updateState({ isSaving: true, error: null });
+
+    const request$ = !environment.production
+      ? of(matrix).pipe(delay(400))
+      : this.http.put<RolePermissions>(this.apiUrl, matrix);
+
+    return request$.pipe(
+      tap((saved) => {
+        this.apply(normalize(saved));
+        this.updateState({ isSaving: false });
+      }),
+      catchError((error) => {
+        this.updateState({ isSaving: false, error: 'Failed to save role permissions' });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private updateState(partial: Partial<PermissionState>): void {
+    this._state.update((state) => ({ ...state, ...partial }));
+  }
+
+  private apply(rolePermissions: RolePermissions): void {
+    this.updateState({ rolePermissions });
+    this.writeCache(rolePermissions);
+  }
+
+  private readCache(): Partial<RolePermissions> | null {
+    try {
+      const json = localStorage.getItem(STORAGE_KEY);
+      return json ? JSON.parse(json) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeCache(rolePermissions: RolePermissions): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(rolePermissions));
+    } catch {
+      // Storage full or unavailable; the matrix is fetched again next session
+    }
+  }
+}
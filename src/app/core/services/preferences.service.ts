@@ -0,0 +1,275 @@
+import { Injectable, inject, signal, computed, effect, untracked, DestroyRef } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { HttpClient } from '@angular/common/http';
+import { Observable, Subject, of, delay, tap, catchError, throwError, debounceTime, filter, switchMap, EMPTY } from 'rxjs';
+import { environment } from '@environments/environment';
+import { DEFAULT_LANGUAGE, LanguageCode, isSupportedLanguage } from '@core/i18n/languages';
+import { AuthService } from './auth.service';
+import { TranslationService } from './translation.service';
+
+// ============================================
+// Types
+// ============================================
+
+/** 'high-contrast' is a light palette for reading outdoors in daylight */
+export type ThemePreference = 'light' | 'dark' | 'high-contrast' | 'system';
+
+/** What the user wants to hear about, and through which channels */
+export interface NotificationPreferences {
+  readonly orderUpdates: boolean;
+  readonly bidAlerts: boolean;
+  readonly priceAlerts: boolean;
+  readonly promotions: boolean;
+  readonly newsletter: boolean;
+  readonly smsNotifications: boolean;
+  readonly emailNotifications: boolean;
+  readonly pushNotifications: boolean;
+}
+
+/** Notification categories the user can switch off */
+export type NotificationCategory = 'orderUpdates' | 'bidAlerts' | 'priceAlerts' | 'promotions';
+
+export interface AppPreferences {
+  readonly language: LanguageCode;
+  readonly currency: string;
+  readonly theme: ThemePreference;
+  readonly compactView: boolean;
+}
+
+export interface UserPreferences {
+  readonly notifications: NotificationPreferences;
+  readonly app: AppPreferences;
+}
+
+interface PreferencesState {
+  preferences: UserPreferences;
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+}
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  notifications: {
+    orderUpdates: true,
+    bidAlerts: true,
+    priceAlerts: true,
+    promotions: true,
+    newsletter: false,
+    smsNotifications: true,
+    emailNotifications: true,
+    pushNotifications: true,
+  },
+  app: {
+    language: DEFAULT_LANGUAGE,
+    currency: 'INR',
+    theme: 'light',
+    compactView: false,
+  },
+};
+
+const STORAGE_KEY = 'smc_preferences';
+
+/** Changes in quick succession go to the server as one save */
+const SAVE_DEBOUNCE_MS = 800;
+
+/** Fill in settings added since the preferences were stored */
+function withDefaults(preferences: Partial<UserPreferences> | null | undefined): UserPreferences {
+  return {
+    notifications: { ...DEFAULT_PREFERENCES.notifications, ...preferences?.notifications },
+    app: { ...DEFAULT_PREFERENCES.app, ...preferences?.app },
+  };
+}
+
+/**
+ * Preferences Service
+ * ===================
+ * The user's app and notification settings. Cached in localStorage so the
+ * theme applies before the first render, loaded from the server once the
+ * user signs in, and saved back (debounced) as they change. Applies the
+ * compact view to the document root; ThemeService applies the theme.
+ */
+@Injectable({ providedIn: 'root' })
+export class PreferencesService {
+  private readonly http = inject(HttpClient);
+  private readonly document = inject(DOCUMENT);
+  private readonly authService = inject(AuthService);
+  private readonly translation = inject(TranslationService);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly apiUrl = `${environment.apiUrl}/users/me/preferences`;
+  private readonly saveRequests = new Subject<void>();
+
+  // ============================================
+  // State Signal
+  // ============================================
+
+  private readonly _state = signal<PreferencesState>({
+    preferences: withDefaults(this.readCache()),
+    isLoading: false,
+    isSaving: false,
+    error: null,
+  });
+
+  // ============================================
+  // Computed Signals
+  // ============================================
+
+  /** The active UI language is the one TranslationService shows, however it was picked */
+  readonly preferences = computed<UserPreferences>(() => {
+    const { notifications, app } = this._state().preferences;
+    return { notifications, app: { ...app, language: this.translation.language() } };
+  });
+  readonly notifications = computed(() => this.preferences().notifications);
+  readonly app = computed(() => this.preferences().app);
+  readonly isLoading = computed(() => this._state().isLoading);
+  readonly isSaving = computed(() => this._state().isSaving);
+  readonly error = computed(() => this._state().error);
+
+  private readonly userId = computed(() => this.authService.currentUser()?.id ?? null);
+
+  constructor() {
+    effect(() => {
+      this.document.documentElement.classList.toggle('smc-compact', this.app().compactView);
+    });
+
+    // Each user's settings follow them across devices
+    effect(() => {
+      if (this.userId()) untracked(() => this.load());
+    });
+
+    // The language can also be switched outside the settings page
+    effect(() => {
+      const language = this.translation.language();
+      untracked(() => {
+        if (language !== this._state().preferences.app.language) this.updateApp({ language });
+      });
+    });
+
+    this.saveRequests
+      .pipe(
+        debounceTime(SAVE_DEBOUNCE_MS),
+        // Signed out, the settings only live on this device
+        filter(() => !!this.userId()),
+        switchMap(() => this.push().pipe(catchError(() => EMPTY))),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe();
+  }
+
+  // ============================================
+  // Public Methods
+  // ============================================
+
+  /**
+   * Fetch the signed-in user's settings. Local changes not yet saved are
+   * overwritten, so this only runs on sign-in.
+   */
+  load(): void {
+    this.updateState({ isLoading: true, error: null });
+
+    const request$: Observable<Partial<UserPreferences> | null> = !environment.production
+      ? of(this.readCache()).pipe(delay(300))
+      : this.http.get<Partial<UserPreferences>>(this.apiUrl);
+
+    request$
+      .pipe(
+        tap((stored) => {
+          this.apply(withDefaults(stored));
+          this.updateState({ isLoading: false });
+        }),
+        catchError((error) => {
+          // Keep the cached settings
+          this.updateState({ isLoading: false, error: 'Failed to load settings' });
+          return throwError(() => error);
+        })
+      )
+      .subscribe();
+  }
+
+  /** Whether notifications of a category should reach the user */
+  allows(category: NotificationCategory): boolean {
+    return this.notifications()[category];
+  }
+
+  updateNotifications(changes: Partial<NotificationPreferences>): void {
+    const preferences = this.preferences();
+    this.change({ ...preferences, notifications: { ...preferences.notifications, ...changes } });
+  }
+
+  updateApp(changes: Partial<AppPreferences>): void {
+    const preferences = this.preferences();
+    this.change({ ...preferences, app: { ...preferences.app, ...changes } });
+  }
+
+  reset(): void {
+    this.change(DEFAULT_PREFERENCES);
+  }
+
+  /**
+   * Save now instead of waiting for the debounce
+   */
+  save(): Observable<UserPreferences> {
+    return this.push();
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private updateState(partial: Partial<PreferencesState>): void {
+    this._state.update((state) => ({ ...state, ...partial }));
+  }
+
+  private change(preferences: UserPreferences): void {
+    this.apply(preferences);
+    this.saveRequests.next();
+  }
+
+  /** Use settings on this device: state, cache and UI language */
+  private apply(preferences: UserPreferences): void {
+    const language = isSupportedLanguage(preferences.app.language)
+      ? preferences.app.language
+      : DEFAULT_LANGUAGE;
+    const applied = { ...preferences, app: { ...preferences.app, language } };
+
+    this.updateState({ preferences: applied });
+    this.writeCache(applied);
+    if (this.translation.language() !== language) {
+      this.translation.setLanguage(language);
+    }
+  }
+
+  private push(): Observable<UserPreferences> {
+    const preferences = this.preferences();
+    this.updateState({ isSaving: true, error: null });
+
+    const request$ = !environment.production
+      ? of(preferences).pipe(delay(400))
+      : this.http.put<UserPreferences>(this.apiUrl, preferences);
+
+    return request$.pipe(
+      tap(() => this.updateState({ isSaving: false })),
+      catchError((error) => {
+        this.updateState({ isSaving: false, error: 'Failed to save settings' });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  private readCache(): Partial<UserPreferences> | null {
+    try {
+      const json = localStorage.getItem(STORAGE_KEY);
+      return json ? JSON.parse(json) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeCache(preferences: UserPreferences): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+    } catch {
+      // Storage full or unavailable; settings still apply for this session
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { Injectable, inject, signal, computed, ApplicationRef, OnDestroy } from '@angular/core';
+import { SwUpdate, VersionReadyEvent } from '@angular/service-worker';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { Subject, concat, interval } from 'rxjs';
+import { filter, first, takeUntil } from 'rxjs/operators';
+
+/** How often a long-running session checks for a new version */
+const UPDATE_CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/** Browser install prompt, not yet in the DOM typings */
+interface BeforeInstallPromptEvent extends Event {
+  prompt(): Promise<void>;
+  readonly userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+/**
+ * PWA Service
+ * ===========
+ * Prompts the user when a new app version is ready and exposes the
+ * browser's install prompt. Inert when the service worker is disabled.
+ */
+@Injectable({ providedIn: 'root' })
+export class PwaService implements OnDestroy {
+  private readonly swUpdate = inject(SwUpdate);
+  private readonly appRef = inject(ApplicationRef);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly destroy$ = new Subject<void>();
+
+  private readonly _updateAvailable = signal(false);
+  private readonly _installPrompt = signal<BeforeInstallPromptEvent | null>(null);
+
+  /** A new version has been downloaded and is ready to activate */
+  readonly updateAvailable = this._updateAvailable.asReadonly();
+
+  /** The browser allows installing the app */
+  readonly canInstall = computed(() => this._installPrompt() !== null);
+
+  /** Running as an installed app */
+  readonly isStandalone =
+    typeof window !== 'undefined' && window.matchMedia?.('(display-mode: standalone)').matches;
+
+  private readonly onBeforeInstallPrompt = (event: Event) => {
+    event.preventDefault();
+    this._installPrompt.set(event as BeforeInstallPromptEvent);
+  };
+
+  private readonly onAppInstalled = () => this._installPrompt.set(null);
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('beforeinstallprompt', this.onBeforeInstallPrompt);
+      window.addEventListener('appinstalled', this.onAppInstalled);
+    }
+
+    if (!this.swUpdate.isEnabled) return;
+
+    this.swUpdate.versionUpdates
+      .pipe(
+        filter((event): event is VersionReadyEvent => event.type === 'VERSION_READY'),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(() => {
+        this._updateAvailable.set(true);
+        this.promptUpdate();
+      });
+
+    this.swUpdate.unrecoverable.pipe(takeUntil(this.destroy$)).subscribe(() => {
+      this.snackBar
+        .open('The app needs to reload to keep working.', 'Reload', { duration: 0 })
+        .onAction()
+        .subscribe(() => document.location.reload());
+    });
+
+    // Poll for updates once the app has settled
+    const appIsStable$ = this.appRef.isStable.pipe(first((isStable) => isStable));
+    concat(appIsStable$, interval(UPDATE_CHECK_INTERVAL_MS))
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.swUpdate.checkForUpdate().catch(() => undefined));
+  }
+
+  ngOnDestroy(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('beforeinstallprompt', this.onBeforeInstallPrompt);
+      window.removeEventListener('appinstalled', this.onAppInstalled);
+    }
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  // ============================================
+  // Public Methods
+  // ============================================
+
+  /**
+   * Switch to the new version and reload
+   */
+  async applyUpdate(): Promise<void> {
+    await this.swUpdate.activateUpdate();
+    document.location.reload();
+  }
+
+  /**
+   * Show the browser's install prompt
+   */
+  async install(): Promise<boolean> {
+    const prompt = this._installPrompt();
+    if (!prompt) return false;
+
+    await prompt.prompt();
+    const { outcome } = await prompt.userChoice;
+    this._installPrompt.set(null);
+    return outcome === 'accepted';
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private promptUpdate(): void {
+    this.snackBar
+      .open('A new version of Smart Mandi Connect is available.', 'Update', { duration: 0 })
+      .onAction()
+      .subscribe(() => this.applyUpdate());
+  }
+}
@@ -0,0 +1,149 @@
+import { Injectable, inject, signal, computed, effect, WritableSignal } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { PreferencesService, ThemePreference } from './preferences.service';
+
+// ============================================
+// Types
+// ============================================
+
+/** Palette in effect once 'system' is resolved */
+export type ResolvedTheme = 'light' | 'dark' | 'high-contrast';
+
+/** Colours for canvas-drawn charts, which can't read CSS variables */
+export interface ChartPalette {
+  /** Dataset colours, in order */
+  readonly series: readonly string[];
+  /** Opacity of area fills under line series */
+  readonly fillOpacity: number;
+  readonly text: string;
+  readonly grid: string;
+  readonly tooltip: string;
+  /** Background exported images are flattened onto */
+  readonly surface: string;
+}
+
+interface ThemeDefinition {
+  readonly colorScheme: 'light' | 'dark';
+  /** Browser toolbar colour on phones */
+  readonly browserColor: string;
+  readonly chart: ChartPalette;
+}
+
+const THEME_CLASS_PREFIX = 'smc-theme-';
+
+const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+const MORE_CONTRAST_QUERY = '(prefers-contrast: more)';
+
+const THEMES: Record<ResolvedTheme, ThemeDefinition> = {
+  light: {
+    colorScheme: 'light',
+    browserColor: '#2d6a4f',
+    chart: {
+      series: ['#4caf50', '#2196f3', '#ff9800', '#9c27b0', '#f44336', '#00bcd4', '#795548', '#607d8b'],
+      fillOpacity: 0.1,
+      text: '#64748b',
+      grid: 'rgba(0, 0, 0, 0.05)',
+      tooltip: 'rgba(0, 0, 0, 0.8)',
+      surface: '#ffffff',
+    },
+  },
+  dark: {
+    colorScheme: 'dark',
+    browserColor: '#0f1a14',
+    chart: {
+      series: ['#66bb6a', '#42a5f5', '#ffa726', '#ba68c8', '#ef5350', '#26c6da', '#a1887f', '#90a4ae'],
+      fillOpacity: 0.18,
+      text: '#a7b8ad',
+      grid: 'rgba(255, 255, 255, 0.08)',
+      tooltip: 'rgba(30, 46, 37, 0.95)',
+      surface: '#17241c',
+    },
+  },
+  // Outdoors in full sun: pure black on white, deep saturated series, no faint lines
+  'high-contrast': {
+    colorScheme: 'light',
+    browserColor: '#000000',
+    chart: {
+      series: ['#1b5e20', '#0d47a1', '#bf360c', '#4a148c', '#b71c1c', '#006064', '#3e2723', '#263238'],
+      fillOpacity: 0.25,
+      text: '#000000',
+      grid: 'rgba(0, 0, 0, 0.35)',
+      tooltip: '#000000',
+      surface: '#ffffff',
+    },
+  },
+};
+
+/**
+ * Theme Service
+ * =============
+ * Turns the theme preference kept by PreferencesService into the palette
+ * on screen. Follows the operating system's dark mode and contrast setting
+ * when the preference is 'system', and marks the document root with
+ * `smc-theme-<name>`, which switches the Material system tokens, the
+ * `--smc-*` design tokens and the Tailwind colour scales in styles.scss.
+ */
+@Injectable({ providedIn: 'root' })
+export class ThemeService {
+  private readonly document = inject(DOCUMENT);
+  private readonly preferencesService = inject(PreferencesService);
+
+  private readonly systemPrefersDark = signal(false);
+  private readonly systemPrefersContrast = signal(false);
+
+  // ============================================
+  // Computed Signals
+  // ============================================
+
+  readonly preference = computed(() => this.preferencesService.app().theme);
+
+  readonly theme = computed<ResolvedTheme>(() => {
+    const preference = this.preference();
+    if (preference !== 'system') return preference;
+    if (this.systemPrefersContrast()) return 'high-contrast';
+    return this.systemPrefersDark() ? 'dark' : 'light';
+  });
+
+  readonly isDark = computed(() => THEMES[this.theme()].colorScheme === 'dark');
+  readonly chartPalette = computed(() => THEMES[this.theme()].chart);
+
+  constructor() {
+    this.watchMedia(DARK_SCHEME_QUERY, this.systemPrefersDark);
+    this.watchMedia(MORE_CONTRAST_QUERY, this.systemPrefersContrast);
+
+    effect(() => this.applyTheme(this.theme()));
+  }
+
+  // ============================================
+  // Public Methods
+  // ============================================
+
+  /** Switch theme; saved with the rest of the user's preferences */
+  setTheme(theme: ThemePreference): void {
+    this.preferencesService.updateApp({ theme });
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private applyTheme(theme: ResolvedTheme): void {
+    const root = this.document.documentElement;
+    for (const name of Object.keys(THEMES)) {
+      root.classList.toggle(THEME_CLASS_PREFIX + name, name === theme);
+    }
+
+    const { colorScheme, browserColor } = THEMES[theme];
+    root.style.colorScheme = colorScheme;
+    this.document.querySelector('meta[name="theme-color"]')?.setAttribute('content', browserColor);
+  }
+
+  private watchMedia(media: string, target: WritableSignal<boolean>): void {
+    const view = this.document.defaultView;
+    if (!view?.matchMedia) return;
+
+    const query = view.matchMedia(media);
+    target.set(query.matches);
+    query.addEventListener('change', (event) => target.set(event.matches));
+  }
+}
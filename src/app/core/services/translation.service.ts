@@ -0,0 +1,269 @@
+import { Injectable, inject, signal, computed, isDevMode } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import {
+  DEFAULT_LANGUAGE,
+  Language,
+  LanguageCode,
+  SUPPORTED_LANGUAGES,
+  isSupportedLanguage,
+} from '@core/i18n/languages';
+import { EN, TranslationCatalog, TranslationKey } from '@core/i18n/catalogs/en';
+
+const STORAGE_KEY = 'smc_language';
+
+/** Base of a `.one` / `.other` plural pair, e.g. `connectivity.pending` */
+type PluralKey = TranslationKey extends infer K
+  ? K extends `${infer Base}.one`
+    ? Base
+    : never
+  : never;
+
+/** Any key accepted by `translate()` */
+export type TranslatableKey = TranslationKey | PluralKey;
+
+/** Values for `{name}` placeholders; `count` also selects the plural form */
+export type TranslationParams = Record<string, string | number>;
+
+export type DateStyle = 'short' | 'medium' | 'long' | 'full';
+
+/** Partial dates: time of day, day and month, or month and year */
+export type DatePattern = 'time' | 'day-month' | 'month-year';
+
+const DATE_PATTERNS: Record<DatePattern, Intl.DateTimeFormatOptions> = {
+  time: { hour: 'numeric', minute: '2-digit' },
+  'day-month': { day: 'numeric', month: 'short' },
+  'month-year': { month: 'long', year: 'numeric' },
+};
+
+/** Untranslated string for one language */
+export interface UntranslatedEntry {
+  readonly language: LanguageCode;
+  readonly key: TranslationKey;
+  readonly source: string;
+}
+
+/** Catalogs are split into their own chunks and fetched on first use */
+const CATALOG_LOADERS: Record<Exclude<LanguageCode, 'en'>, () => Promise<TranslationCatalog>> = {
+  hi: () => import('@core/i18n/catalogs/hi').then((m) => m.default),
+  te: () => import('@core/i18n/catalogs/te').then((m) => m.default),
+  ta: () => import('@core/i18n/catalogs/ta').then((m) => m.default),
+  mr: () => import('@core/i18n/catalogs/mr').then((m) => m.default),
+};
+
+interface TranslationState {
+  language: LanguageCode;
+  catalog: TranslationCatalog;
+  isLoading: boolean;
+}
+
+/**
+ * Translation Service
+ * ===================
+ * Runtime UI translation with lazily loaded catalogs and English fallback.
+ * Also formats numbers, rupee amounts and dates for the active locale,
+ * using Indian lakh/crore digit grouping.
+ */
+@Injectable({ providedIn: 'root' })
+export class TranslationService {
+  private readonly document = inject(DOCUMENT);
+  private readonly source = EN as Record<string, string>;
+  private readonly reportedMissing = new Set<string>();
+
+  // ============================================
+  // State Signals
+  // ============================================
+
+  private readonly _state = signal<TranslationState>({
+    language: DEFAULT_LANGUAGE,
+    catalog: EN,
+    isLoading: false,
+  });
+
+  /** All languages the UI can be shown in */
+  readonly languages = SUPPORTED_LANGUAGES;
+
+  /** Active language code */
+  readonly language = computed(() => this._state().language);
+
+  /** Active language details */
+  readonly currentLanguage = computed<Language>(
+    () => SUPPORTED_LANGUAGES.find((l) => l.code === this.language()) ?? SUPPORTED_LANGUAGES[0]
+  );
+
+  /** Locale used for formatting */
+  readonly locale = computed(() => this.currentLanguage().locale);
+
+  /** A catalog is being fetched */
+  readonly isLoading = computed(() => this._state().isLoading);
+
+  private readonly numberFormat = computed(() => new Intl.NumberFormat(this.locale()));
+  private readonly pluralRules = computed(() => new Intl.PluralRules(this.locale()));
+  private readonly currencyFormat = computed(
+    () =>
+      new Intl.NumberFormat(this.locale(), {
+        style: 'currency',
+        currency: 'INR',
+        minimumFractionDigits: 0,
+        maximumFractionDigits: 2,
+      })
+  );
+
+  // ============================================
+  // Language
+  // ============================================
+
+  /**
+   * Restore the saved language, else the browser's if supported.
+   * Called during app initialization so the first render is translated.
+   */
+  restoreLanguage(): Promise<void> {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    const browser = typeof navigator !== 'undefined' ? navigator.language?.split('-')[0] : null;
+
+    const language = isSupportedLanguage(saved)
+      ? saved
+      : isSupportedLanguage(browser)
+        ? browser
+        : DEFAULT_LANGUAGE;
+
+    return this.setLanguage(language);
+  }
+
+  /**
+   * Switch the UI language. Keeps the current language if the catalog fails to load.
+   */
+  async setLanguage(language: LanguageCode): Promise<void> {
+    this.updateState({ isLoading: true });
+
+    try {
+      const catalog = await this.loadCatalog(language);
+      this._state.set({ language, catalog, isLoading: false });
+    } catch (error) {
+      console.error(`Failed to load "${language}" translations:`, error);
+      this.updateState({ isLoading: false });
+      return;
+    }
+
+    this.document.documentElement.lang = language;
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, language);
+    }
+  }
+
+  // ============================================
+  // Translation
+  // ============================================
+
+  /**
+   * Translate a key, falling back to English and then to the key itself
+   */
+  translate(key: TranslatableKey, params?: TranslationParams): string {
+    const resolved = this.resolvePlural(key, params?.['count']);
+    const catalog = this._state().catalog as Record<string, string | undefined>;
+    const template = catalog[resolved] ?? this.source[resolved];
+
+    if (template === undefined) {
+      this.reportMissing(resolved);
+      return key;
+    }
+
+    return params
+      ? template.replace(/\{(\w+)\}/g, (match, name: string) =>
+          name in params ? this.formatParam(params[name]) : match
+        )
+      : template;
+  }
+
+  /**
+   * Source strings missing from each non-English catalog
+   */
+  async getUntranslated(): Promise<UntranslatedEntry[]> {
+    const languages = SUPPORTED_LANGUAGES.filter((l) => l.code !== 'en');
+    const catalogs = await Promise.all(languages.map((l) => this.loadCatalog(l.code)));
+
+    return languages.flatMap((language, index) =>
+      (Object.keys(EN) as TranslationKey[])
+        .filter((key) => !catalogs[index][key])
+        .map((key) => ({ language: language.code, key, source: EN[key] }))
+    );
+  }
+
+  // ============================================
+  // Formatting
+  // ============================================
+
+  /**
+   * Format a number with locale digit grouping, e.g. 12,34,567
+   */
+  formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+    return options
+      ? new Intl.NumberFormat(this.locale(), options).format(value)
+      : this.numberFormat().format(value);
+  }
+
+  /**
+   * Format a rupee amount, e.g. ₹12,34,567.50
+   */
+  formatCurrency(value: number): string {
+    return this.currencyFormat().format(value);
+  }
+
+  /**
+   * Abbreviate large rupee amounts in lakhs and crores, e.g. ₹1.25 Cr
+   */
+  formatCompactCurrency(value: number): string {
+    const abs = Math.abs(value);
+    const compact = (divisor: number, unit: TranslationKey) =>
+      `₹${this.formatNumber(value / divisor, { maximumFractionDigits: 2 })} ${this.translate(unit)}`;
+
+    if (abs >= 1e7) return compact(1e7, 'format.crore');
+    if (abs >= 1e5) return compact(1e5, 'format.lakh');
+    return this.formatCurrency(value);
+  }
+
+  /**
+   * Format a date, optionally with time
+   */
+  formatDate(value: Date | string | number, style: DateStyle | DatePattern = 'medium', withTime = false): string {
+    const date = value instanceof Date ? value : new Date(value);
+    if (isNaN(date.getTime())) return '';
+
+    // Patterns can't be combined with Intl's date and time styles
+    const options: Intl.DateTimeFormatOptions =
+      style in DATE_PATTERNS
+        ? { ...DATE_PATTERNS[style as DatePattern], ...(withTime ? DATE_PATTERNS.time : {}) }
+        : { dateStyle: style as DateStyle, ...(withTime ? { timeStyle: 'short' as const } : {}) };
+
+    return new Intl.DateTimeFormat(this.locale(), options).format(date);
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private async loadCatalog(language: LanguageCode): Promise<TranslationCatalog> {
+    return language === 'en' ? EN : CATALOG_LOADERS[language]();
+  }
+
+  private resolvePlural(key: string, count: string | number | undefined): string {
+    if (typeof count !== 'number' || key in this.source) return key;
+
+    const form = `${key}.${this.pluralRules().select(count)}`;
+    return form in this.source ? form : `${key}.other`;
+  }
+
+  private formatParam(value: string | number): string {
+    return typeof value === 'number' ? this.formatNumber(value) : value;
+  }
+
+  private reportMissing(key: string): void {
+    if (!isDevMode() || this.reportedMissing.has(key)) return;
+
+    this.reportedMissing.add(key);
+    console.warn(`Missing translation key: ${key}`);
+  }
+
+  private updateState(partial: Partial<TranslationState>): void {
+    this._state.update((state) => ({ ...state, ...partial }));
+  }
+}
@@ -7,3 +7,4 @@
 export * from './user.model';
 export * from './product.model';
 export * from './order.model';
+export * from './permission.model';
@@ -0,0 +1,108 @@
+/**
+ * Permission Domain Models
+ * ========================
+ * Admin sub-roles and the permissions they grant. ADMIN users hold one or
+ * more sub-roles; what each sub-role may do is editable in admin settings.
+ */
+
+/** Admin team sub-roles */
+export enum AdminRole {
+  SUPER_ADMIN = 'SUPER_ADMIN',
+  MODERATOR = 'MODERATOR',
+  FINANCE = 'FINANCE',
+  SUPPORT = 'SUPPORT',
+}
+
+/** Every permission, as `<area>:<action>` */
+export const PERMISSIONS = [
+  'users:view',
+  'users:manage',
+  'products:view',
+  'products:moderate',
+  'categories:manage',
+  'disputes:view',
+  'disputes:resolve',
+  'orders:view',
+  'orders:refund',
+  'reports:view',
+  'reports:export',
+  'settings:manage',
+  'roles:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export type RolePermissions = Record<AdminRole, readonly Permission[]>;
+
+export interface AdminRoleInfo {
+  readonly role: AdminRole;
+  readonly label: string;
+  readonly description: string;
+}
+
+export interface PermissionGroup {
+  readonly label: string;
+  readonly permissions: readonly { readonly permission: Permission; readonly label: string }[];
+}
+
+export const ADMIN_ROLES: readonly AdminRoleInfo[] = [
+  { role: AdminRole.SUPER_ADMIN, label: 'Super admin', description: 'Everything, including who can do what' },
+  { role: AdminRole.MODERATOR, label: 'Moderator', description: 'Listings, reviews and categories' },
+  { role: AdminRole.FINANCE, label: 'Finance', description: 'Orders, refunds and reports' },
+  { role: AdminRole.SUPPORT, label: 'Support', description: 'Users, orders and disputes' },
+];
+
+/** Permissions by area, in the order the role editor lists them */
+export const PERMISSION_GROUPS: readonly PermissionGroup[] = [
+  {
+    label: 'Users',
+    permissions: [
+      { permission: 'users:view', label: 'View users' },
+      { permission: 'users:manage', label: 'Verify, suspend and delete users' },
+    ],
+  },
+  {
+    label: 'Products',
+    permissions: [
+      { permission: 'products:view', label: 'View listings' },
+      { permission: 'products:moderate', label: 'Approve listings and moderate reviews' },
+      { permission: 'categories:manage', label: 'Manage categories' },
+    ],
+  },
+  {
+    label: 'Disputes',
+    permissions: [
+      { permission: 'disputes:view', label: 'View disputes' },
+      { permission: 'disputes:resolve', label: 'Assign, escalate and resolve disputes' },
+    ],
+  },
+  {
+    label: 'Orders',
+    permissions: [
+      { permission: 'orders:view', label: 'View orders' },
+      { permission: 'orders:refund', label: 'Issue refunds' },
+    ],
+  },
+  {
+    label: 'Reports',
+    permissions: [
+      { permission: 'reports:view', label: 'View reports' },
+      { permission: 'reports:export', label: 'Export and schedule reports' },
+    ],
+  },
+  {
+    label: 'Administration',
+    permissions: [
+      { permission: 'settings:manage', label: 'Change platform settings' },
+      { permission: 'roles:manage', label: 'Edit role permissions' },
+    ],
+  },
+];
+
+/** Super admins always hold every permission, so the roles stay editable */
+export const DEFAULT_ROLE_PERMISSIONS: RolePermissions = {
+  [AdminRole.SUPER_ADMIN]: PERMISSIONS,
+  [AdminRole.MODERATOR]: ['users:view', 'products:view', 'products:moderate', 'categories:manage', 'disputes:view'],
+  [AdminRole.FINANCE]: ['orders:view', 'orders:refund', 'reports:view', 'reports:export', 'disputes:view'],
+  [AdminRole.SUPPORT]: ['users:view', 'products:view', 'orders:view', 'disputes:view', 'disputes:resolve'],
+};
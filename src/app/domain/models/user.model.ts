@@ -4,6 +4,8 @@
  * Core user entities and value objects for Smart Mandi Connect
  */
 
+import { AdminRole } from './permission.model';
+
 /** User roles in the marketplace */
 export enum UserRole {
   FARMER = 'FARMER',
@@ -62,6 +64,8 @@ export interface User {
   readonly email: string;
   readonly fullName: string;
   readonly role: UserRole;
+  /** Sub-roles of an ADMIN. Missing (accounts from before sub-roles) or empty grants nothing. */
+  readonly adminRoles?: readonly AdminRole[];
   readonly status: UserStatus;
   readonly profile: UserProfile | FarmerProfile | BuyerProfile;
   readonly createdAt: Date;
@@ -1,15 +1,19 @@
 import { Routes } from '@angular/router';
+import { permissionGuard } from '@core/guards';
 
 /**
  * Admin Routes
  * ============
- * Routes for admin panel (ADMIN role only).
+ * Routes for admin panel (ADMIN role only). Each section also needs the
+ * permission in its route data, granted by the admin's sub-roles.
  * 
  * URL Structure:
  * - /admin              → Admin dashboard
  * - /admin/users        → User management
  * - /admin/products     → Product moderation
  * - /admin/orders       → Order oversight
+ * - /admin/disputes     → Dispute queue (?status=)
+ * - /admin/disputes/:id → Dispute detail & resolution
  * - /admin/reports      → Analytics & reports
  * - /admin/settings     → System settings
  */
@@ -24,6 +28,8 @@ export const ADMIN_ROUTES: Routes = [
   },
   {
     path: 'users',
+    canActivate: [permissionGuard],
+    data: { permissions: ['users:view'] },
     loadComponent: () =>
       import('./pages/user-management/user-management.component').then(
         (m) => m.UserManagementComponent
@@ -32,6 +38,8 @@ export const ADMIN_ROUTES: Routes = [
   },
   {
     path: 'products',
+    canActivate: [permissionGuard],
+    data: { permissions: ['products:view'] },
     loadComponent: () =>
       import('./pages/product-moderation/product-moderation.component').then(
         (m) => m.ProductModerationComponent
@@ -40,14 +48,38 @@ export const ADMIN_ROUTES: Routes = [
   },
   {
     path: 'categories',
+    canActivate: [permissionGuard],
+    data: { permissions: ['categories:manage'] },
     loadComponent: () =>
       import('./pages/category-management/category-management.component').then(
         (m) => m.CategoryManagementComponent
       ),
     title: 'Category Management | Smart Mandi Connect',
   },
+  {
+    path: 'disputes',
+    canActivate: [permissionGuard],
+    data: { permissions: ['disputes:view'] },
+    loadComponent: () =>
+      import('./pages/dispute-management/dispute-management.component').then(
+        (m) => m.DisputeManagementComponent
+      ),
+    title: 'Disputes | Smart Mandi Connect',
+  },
+  {
+    path: 'disputes/:id',
+    canActivate: [permissionGuard],
+    data: { permissions: ['disputes:view'] },
+    loadComponent: () =>
+      import('./pages/dispute-detail/dispute-detail.component').then(
+        (m) => m.DisputeDetailComponent
+      ),
+    title: 'Dispute | Smart Mandi Connect',
+  },
   {
     path: 'reports',
+    canActivate: [permissionGuard],
+    data: { permissions: ['reports:view'] },
     loadComponent: () =>
       import('./pages/reports/reports.component').then(
         (m) => m.ReportsComponent
@@ -56,6 +88,8 @@ export const ADMIN_ROUTES: Routes = [
   },
   {
     path: 'settings',
+    canActivate: [permissionGuard],
+    data: { permissions: ['settings:manage'] },
     loadComponent: () =>
       import('./pages/admin-settings/admin-settings.component').then(
         (m) => m.AdminSettingsComponent
@@ -1,14 +1,17 @@
 /**
  * Chart Card Component
  * ====================
- * Wrapper component for Chart.js charts.
+ * Wrapper component for Chart.js charts. Colours come from the active
+ * theme, and the chart is redrawn when it changes.
  */
 
 import {
   Component,
   ChangeDetectionStrategy,
   input,
+  inject,
   effect,
+  untracked,
   ElementRef,
   viewChild,
   AfterViewInit,
@@ -27,8 +30,26 @@ import {
   registerables,
 } from 'chart.js';
 
+import { ChartPalette, ThemeService } from '@core/services/theme.service';
+import { downloadFile } from '@shared/services/file-export';
 import { TimeSeriesData, ChartDataPoint } from '../../services/admin-dashboard.service';
 
+/** A rendered chart, for embedding in exported files */
+export interface ChartImage {
+  readonly title: string;
+  /** PNG data URL */
+  readonly dataUrl: string;
+  /** Size in CSS pixels */
+  readonly width: number;
+  readonly height: number;
+}
+
+/** `#rrggbb` at the given opacity */
+const withAlpha = (hex: string, alpha: number): string => {
+  const [r, g, b] = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+};
+
 // Register Chart.js components
 Chart.register(...registerables);
 
@@ -38,42 +59,6 @@ Chart.register(...registerables);
   imports: [CommonModule, MatCardModule, MatIconModule, MatButtonModule, MatMenuModule],
   templateUrl: './chart-card.component.html',
   styleUrl: './chart-card.component.scss',
-    .chart-card {
-      border-radius: 16px;
-      overflow: hidden;
-    }
-
-    .chart-header {
-      display: flex;
-      justify-content: space-between;
-      align-items: flex-start;
-      padding: 1.25rem 1.25rem 0;
-    }
-
-    .chart-title {
-      h3 {
-        margin: 0;
-        font-size: 1rem;
-        font-weight: 600;
-        color: #333;
-      }
-
-      .subtitle {
-        font-size: 0.75rem;
-        color: #999;
-      }
-    }
-
-    .chart-container {
-      padding: 1rem;
-      height: 300px;
-
-      canvas {
-        max-width: 100%;
-        max-height: 100%;
-      }
-    }
-  `],
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class ChartCardComponent implements AfterViewInit, OnDestroy {
@@ -82,9 +67,13 @@ export class ChartCardComponent implements AfterViewInit, OnDestroy {
   readonly chartType = input<'line' | 'bar' | 'doughnut' | 'pie'>('line');
   readonly timeSeriesData = input<TimeSeriesData | null>(null);
   readonly pieData = input<ChartDataPoint[]>([]);
+  readonly beginAtZero = input(true);
 
+  private readonly palette = inject(ThemeService).chartPalette;
   private readonly chartCanvas = viewChild<ElementRef<HTMLCanvasElement>>('chartCanvas');
   private chart: Chart | null = null;
+  /** Palette the current chart was drawn with */
+  private drawnPalette: ChartPalette | null = null;
 
   constructor() {
     effect(() => {
@@ -95,6 +84,17 @@ export class ChartCardComponent implements AfterViewInit, OnDestroy {
         this.updateChart(tsData, pData);
       }
     });
+
+    // Scales, legend and tooltip colours are baked into the config
+    effect(() => {
+      const palette = this.palette();
+      untracked(() => {
+        if (this.chart && palette !== this.drawnPalette) {
+          this.chart.destroy();
+          this.createChart();
+        }
+      });
+    });
   }
 
   ngAfterViewInit(): void {
@@ -107,6 +107,40 @@ export class ChartCardComponent implements AfterViewInit, OnDestroy {
     }
   }
 
+  /**
+   * Current chart as a PNG on the theme's surface colour
+   */
+  toImage(): ChartImage | null {
+    const canvas = this.chart?.canvas;
+    if (!canvas || canvas.width === 0) return null;
+
+    // Charts are drawn on a transparent canvas; flatten it so the labels stay legible in PDFs and sheets
+    const copy = document.createElement('canvas');
+    copy.width = canvas.width;
+    copy.height = canvas.height;
+    const ctx = copy.getContext('2d');
+    if (!ctx) return null;
+    ctx.fillStyle = this.palette().surface;
+    ctx.fillRect(0, 0, copy.width, copy.height);
+    ctx.drawImage(canvas, 0, 0);
+
+    return {
+      title: this.title(),
+      dataUrl: copy.toDataURL('image/png'),
+      width: canvas.clientWidth,
+      height: canvas.clientHeight,
+    };
+  }
+
+  exportPng(): void {
+    const image = this.toImage();
+    if (!image) return;
+
+    const bytes = Uint8Array.from(atob(image.dataUrl.split(',')[1]), (char) => char.charCodeAt(0));
+    const name = image.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'chart';
+    downloadFile(bytes, `${name}.png`, 'image/png');
+  }
+
   private createChart(): void {
     const canvas = this.chartCanvas()?.nativeElement;
     if (!canvas) return;
@@ -116,6 +150,7 @@ export class ChartCardComponent implements AfterViewInit, OnDestroy {
 
     const config = this.getChartConfig();
     this.chart = new Chart(ctx, config);
+    this.drawnPalette = this.palette();
   }
 
   private updateChart(tsData: TimeSeriesData | null, pData: ChartDataPoint[]): void {
@@ -127,19 +162,17 @@ export class ChartCardComponent implements AfterViewInit, OnDestroy {
       if (pData.length > 0) {
         this.chart.data.labels = pData.map((d) => d.label);
         this.chart.data.datasets[0].data = pData.map((d) => d.value);
+        this.chart.data.datasets[0].backgroundColor = this.pieColors(pData.length);
       }
     } else if (tsData) {
       this.chart.data.labels = tsData.labels;
-      this.chart.data.datasets = tsData.datasets.map((ds, i) => ({
-        ...this.chart!.data.datasets[i],
-        ...ds,
-      }));
+      this.chart.data.datasets = tsData.datasets.map((ds, i) => this.toDataset(type, ds, i));
     }
 
     this.chart.update();
   }
 
-  private getChartConfig(): ChartConfiguration {
+  private getChartConfig(): ChartConfiguration | ChartConfiguration<'doughnut'> {
     const type = this.chartType();
     const tsData = this.timeSeriesData();
     const pData = this.pieData();
@@ -151,37 +184,46 @@ export class ChartCardComponent implements AfterViewInit, OnDestroy {
     return this.getLineBarConfig(type, tsData);
   }
 
+  private toDataset(
+    type: 'line' | 'bar' | 'doughnut' | 'pie',
+    ds: TimeSeriesData['datasets'][number],
+    index: number
+  ) {
+    const { series, fillOpacity } = this.palette();
+    // Line and bar series use the first four colours
+    const color = series[index % 4];
+    const pointRadius = ds.pointRadius ?? (type === 'line' ? 4 : 0);
+
+    return {
+      label: ds.label,
+      data: ds.data,
+      borderColor: ds.borderColor || color,
+      backgroundColor: ds.backgroundColor || withAlpha(color, fillOpacity),
+      borderWidth: 2,
+      borderDash: ds.borderDash,
+      fill: ds.fill ?? type === 'line',
+      tension: 0.4,
+      pointRadius,
+      pointHoverRadius: type === 'line' ? Math.max(pointRadius, 4) + 2 : 0,
+    };
+  }
+
   private getLineBarConfig(
     type: 'line' | 'bar',
     data: TimeSeriesData | null
   ): ChartConfiguration {
-    const colors = [
-      { border: '#4caf50', bg: 'rgba(76, 175, 80, 0.1)' },
-      { border: '#2196f3', bg: 'rgba(33, 150, 243, 0.1)' },
-      { border: '#ff9800', bg: 'rgba(255, 152, 0, 0.1)' },
-      { border: '#9c27b0', bg: 'rgba(156, 39, 176, 0.1)' },
-    ];
+    const palette = this.palette();
 
     return {
       type,
       data: {
         labels: data?.labels || [],
-        datasets:
-          data?.datasets.map((ds, i) => ({
-            label: ds.label,
-            data: ds.data,
-            borderColor: ds.borderColor || colors[i % colors.length].border,
-            backgroundColor: ds.backgroundColor || colors[i % colors.length].bg,
-            borderWidth: 2,
-            fill: type === 'line',
-            tension: 0.4,
-            pointRadius: type === 'line' ? 4 : 0,
-            pointHoverRadius: type === 'line' ? 6 : 0,
-          })) || [],
+        datasets: data?.datasets.map((ds, i) => this.toDataset(type, ds, i)) || [],
       },
       options: {
         responsive: true,
         maintainAspectRatio: false,
+        color: palette.text,
         interaction: {
           intersect: false,
           mode: 'index',
@@ -196,7 +238,7 @@ export class ChartCardComponent implements AfterViewInit, OnDestroy {
             },
           },
           tooltip: {
-            backgroundColor: 'rgba(0, 0, 0, 0.8)',
+            backgroundColor: palette.tooltip,
             padding: 12,
             cornerRadius: 8,
             titleFont: { size: 14, weight: 'bold' },
@@ -206,29 +248,20 @@ export class ChartCardComponent implements AfterViewInit, OnDestroy {
         scales: {
           x: {
             grid: { display: false },
-            ticks: { font: { size: 11 } },
+            ticks: { color: palette.text, font: { size: 11 } },
           },
           y: {
-            beginAtZero: true,
-            grid: { color: 'rgba(0, 0, 0, 0.05)' },
-            ticks: { font: { size: 11 } },
+            beginAtZero: this.beginAtZero(),
+            grid: { color: palette.grid },
+            ticks: { color: palette.text, font: { size: 11 } },
           },
         },
       },
     };
   }
 
-  private getPieConfig(data: ChartDataPoint[]): ChartConfiguration {
-    const colors = [
-      '#4caf50',
-      '#2196f3',
-      '#ff9800',
-      '#9c27b0',
-      '#f44336',
-      '#00bcd4',
-      '#795548',
-      '#607d8b',
-    ];
+  private getPieConfig(data: ChartDataPoint[]): ChartConfiguration<'doughnut'> {
+    const palette = this.palette();
 
     return {
       type: 'doughnut',
@@ -237,7 +270,7 @@ export class ChartCardComponent implements AfterViewInit, OnDestroy {
         datasets: [
           {
             data: data.map((d) => d.value),
-            backgroundColor: colors.slice(0, data.length),
+            backgroundColor: this.pieColors(data.length),
             borderWidth: 0,
             hoverOffset: 8,
           },
@@ -247,6 +280,7 @@ export class ChartCardComponent implements AfterViewInit, OnDestroy {
         responsive: true,
         maintainAspectRatio: false,
         cutout: '65%',
+        color: palette.text,
         plugins: {
           legend: {
             position: 'right',
@@ -257,7 +291,7 @@ export class ChartCardComponent implements AfterViewInit, OnDestroy {
             },
           },
           tooltip: {
-            backgroundColor: 'rgba(0, 0, 0, 0.8)',
+            backgroundColor: palette.tooltip,
             padding: 12,
             cornerRadius: 8,
           },
@@ -265,5 +299,9 @@ export class ChartCardComponent implements AfterViewInit, OnDestroy {
       },
     };
   }
-}
 
+  private pieColors(count: number): string[] {
+    const { series } = this.palette();
+    return Array.from({ length: count }, (_, i) => series[i % series.length]);
+  }
+}
@@ -5,7 +5,7 @@
  */
 
 import { Component, ChangeDetectionStrategy, input, output } from '@angular/core';
-import { CommonModule, DatePipe, CurrencyPipe } from '@angular/common';
+import { CommonModule } from '@angular/common';
 import { MatTableModule } from '@angular/material/table';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
@@ -26,8 +26,6 @@ import { RecentUser, UserStatus } from '../../services/admin-dashboard.service';
     MatChipsModule,
     MatMenuModule,
     MatTooltipModule,
-    DatePipe,
-    CurrencyPipe,
   ],
   templateUrl: './recent-users-table.component.html',
   styleUrl: './recent-users-table.component.scss',
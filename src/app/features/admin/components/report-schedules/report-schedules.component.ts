@@ -0,0 +1,106 @@
+/**
+ * Report Schedules Component
+ * ==========================
+ * Settings for the daily and weekly report emails: which templates go out,
+ * in which format, to whom and when. Changes are saved as they are made.
+ */
+
+import { Component, ChangeDetectionStrategy, inject, signal } from '@angular/core';
+
+import { MatCardModule } from '@angular/material/card';
+import { MatIconModule } from '@angular/material/icon';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+import {
+  ReportService,
+  ReportSchedule,
+  REPORT_TEMPLATES,
+  WEEKDAYS,
+  nextRunAt,
+} from '../../services/report.service';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+@Component({
+  selector: 'smc-report-schedules',
+  standalone: true,
+  imports: [
+    MatCardModule,
+    MatIconModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatSlideToggleModule,
+    MatSnackBarModule,
+    LocaleDatePipe,
+  ],
+  templateUrl: './report-schedules.component.html',
+  styleUrl: './report-schedules.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ReportSchedulesComponent {
+  private readonly reportService = inject(ReportService);
+  private readonly snackBar = inject(MatSnackBar);
+
+  readonly schedules = this.reportService.schedules;
+  readonly templates = REPORT_TEMPLATES;
+  readonly weekdays = WEEKDAYS;
+  readonly hours = Array.from({ length: 24 }, (_, hour) => ({
+    value: hour,
+    label: `${hour.toString().padStart(2, '0')}:00`,
+  }));
+
+  /** Frequency of the schedule being saved */
+  readonly saving = signal<ReportSchedule['frequency'] | null>(null);
+
+  constructor() {
+    this.reportService.loadSchedules();
+  }
+
+  update(schedule: ReportSchedule, changes: Partial<ReportSchedule>): void {
+    const next = { ...schedule, ...changes };
+    if (next.enabled && next.templates.length === 0) {
+      this.snackBar.open('Pick at least one report to send', 'Close', { duration: 3000 });
+      return;
+    }
+
+    this.saving.set(schedule.frequency);
+    this.reportService.saveSchedule(next).subscribe({
+      next: () => {
+        this.saving.set(null);
+        this.snackBar.open(`${this.label(schedule)} schedule saved`, 'Close', { duration: 2000 });
+      },
+      error: () => {
+        this.saving.set(null);
+        this.snackBar.open('Could not save the schedule', 'Close', { duration: 3000 });
+      },
+    });
+  }
+
+  updateRecipients(schedule: ReportSchedule, value: string): void {
+    const recipients = value
+      .split(/[,;\s]+/)
+      .map((email) => email.trim())
+      .filter(Boolean);
+    const invalid = recipients.filter((email) => !EMAIL_PATTERN.test(email));
+
+    if (invalid.length > 0) {
+      this.snackBar.open(`Not an email address: ${invalid.join(', ')}`, 'Close', { duration: 4000 });
+      return;
+    }
+    if (recipients.join() !== schedule.recipients.join()) this.update(schedule, { recipients });
+  }
+
+  label(schedule: ReportSchedule): string {
+    return schedule.frequency === 'daily' ? 'Daily report' : 'Weekly report';
+  }
+
+  nextRun(schedule: ReportSchedule): Date {
+    return nextRunAt(schedule);
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Resolve Dispute Dialog Component
+ * ================================
+ * Admin dialog for settling a dispute with a full, partial or no refund.
+ */
+
+import { Component, ChangeDetectionStrategy, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialogRef, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatRadioModule } from '@angular/material/radio';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+
+import {
+  Dispute,
+  RefundType,
+  ResolveDisputeRequest,
+  REFUND_TYPE_CONFIG,
+} from '@features/orders/services/dispute.service';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
+
+interface DialogData {
+  dispute: Dispute;
+}
+
+export interface ResolveDisputeDialogResult {
+  confirmed: boolean;
+  request?: ResolveDisputeRequest;
+}
+
+@Component({
+  selector: 'smc-resolve-dispute-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    MatRadioModule,
+    MatFormFieldModule,
+    MatInputModule,
+    LocaleNumberPipe,
+  ],
+  templateUrl: './resolve-dispute-dialog.component.html',
+  styleUrl: './resolve-dispute-dialog.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ResolveDisputeDialogComponent {
+  readonly dialogRef = inject(MatDialogRef<ResolveDisputeDialogComponent, ResolveDisputeDialogResult>);
+  readonly data: DialogData = inject(MAT_DIALOG_DATA);
+
+  readonly RefundType = RefundType;
+  readonly refundTypes = Object.values(RefundType).map((value) => ({ value, ...REFUND_TYPE_CONFIG[value] }));
+
+  refundType = RefundType.PARTIAL;
+  refundAmount: number | null = null;
+  note = '';
+
+  isValid(): boolean {
+    if (!this.note.trim()) return false;
+    if (this.refundType !== RefundType.PARTIAL) return true;
+    return !!this.refundAmount && this.refundAmount > 0 && this.refundAmount < this.data.dispute.amount;
+  }
+
+  onCancel(): void {
+    this.dialogRef.close({ confirmed: false });
+  }
+
+  onConfirm(): void {
+    if (!this.isValid()) return;
+
+    this.dialogRef.close({
+      confirmed: true,
+      request: {
+        refundType: this.refundType,
+        refundAmount: this.refundType === RefundType.PARTIAL ? (this.refundAmount ?? 0) : 0,
+        note: this.note.trim(),
+      },
+    });
+  }
+}
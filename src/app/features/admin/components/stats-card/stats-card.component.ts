@@ -5,14 +5,16 @@
  */
 
 import { Component, ChangeDetectionStrategy, input, computed } from '@angular/core';
-import { CommonModule, DecimalPipe, CurrencyPipe } from '@angular/common';
+import { CommonModule } from '@angular/common';
 import { MatCardModule } from '@angular/material/card';
 import { MatIconModule } from '@angular/material/icon';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
+import { LocaleCurrencyPipe } from '@shared/pipes/locale-currency.pipe';
 
 @Component({
   selector: 'smc-stats-card',
   standalone: true,
-  imports: [CommonModule, MatCardModule, MatIconModule, DecimalPipe, CurrencyPipe],
+  imports: [CommonModule, MatCardModule, MatIconModule, LocaleNumberPipe, LocaleCurrencyPipe],
   templateUrl: './stats-card.component.html',
   styleUrl: './stats-card.component.scss',
     .stats-card {
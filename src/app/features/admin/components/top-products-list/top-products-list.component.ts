@@ -5,15 +5,16 @@
  */
 
 import { Component, ChangeDetectionStrategy, input } from '@angular/core';
-import { CommonModule, DecimalPipe, CurrencyPipe } from '@angular/common';
+import { CommonModule } from '@angular/common';
 import { MatIconModule } from '@angular/material/icon';
 
 import { TopProduct } from '../../services/admin-dashboard.service';
+import { LocaleCurrencyPipe } from '@shared/pipes/locale-currency.pipe';
 
 @Component({
   selector: 'smc-top-products-list',
   standalone: true,
-  imports: [CommonModule, MatIconModule, DecimalPipe, CurrencyPipe],
+  imports: [CommonModule, MatIconModule, LocaleCurrencyPipe],
   templateUrl: './top-products-list.component.html',
   styleUrl: './top-products-list.component.scss',
     .products-list {
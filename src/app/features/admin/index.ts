@@ -6,6 +6,8 @@ export * from './pages/admin-dashboard/admin-dashboard.component';
 export * from './pages/user-management/user-management.component';
 export * from './pages/product-moderation/product-moderation.component';
 export * from './pages/category-management/category-management.component';
+export * from './pages/dispute-management/dispute-management.component';
+export * from './pages/dispute-detail/dispute-detail.component';
 export * from './pages/reports/reports.component';
 export * from './pages/admin-settings/admin-settings.component';
 
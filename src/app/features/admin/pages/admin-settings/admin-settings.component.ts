@@ -2,11 +2,13 @@
  * Admin Settings Page Component
  * ==============================
  * Platform configuration, system settings, and admin preferences.
+ * Super admins also edit which permissions each admin sub-role grants.
  */
 
-import { Component, ChangeDetectionStrategy, signal, inject } from '@angular/core';
+import { Component, ChangeDetectionStrategy, signal, computed, linkedSignal, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule, ReactiveFormsModule, FormBuilder, FormGroup } from '@angular/forms';
+import { RouterLink } from '@angular/router';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
@@ -18,6 +20,23 @@ import { MatTabsModule } from '@angular/material/tabs';
 import { MatDividerModule } from '@angular/material/divider';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { TranslationService } from '@core/services/translation.service';
+import { PermissionService } from '@core/services/permission.service';
+import {
+  ADMIN_ROLES,
+  AdminRole,
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSION_GROUPS,
+  Permission,
+  RolePermissions,
+} from '@domain/models/permission.model';
+import { EN, Language } from '@core/i18n';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
+import { HasPermissionDirective } from '@shared/directives/has-permission.directive';
+import { toCsv, downloadFile } from '@shared/services/file-export';
+import { ReportService, ReportFrequency } from '../../services/report.service';
 
 interface PlatformSettings {
   siteName: string;
@@ -40,13 +59,17 @@ interface CommissionSettings {
   paymentMethods: string[];
 }
 
+interface TranslationCoverage {
+  language: Language;
+  translated: number;
+  total: number;
+}
+
 interface NotificationSettings {
   emailNotifications: boolean;
   smsNotifications: boolean;
   pushNotifications: boolean;
   adminAlerts: boolean;
-  dailyReports: boolean;
-  weeklyReports: boolean;
 }
 
 @Component({
@@ -56,6 +79,7 @@ interface NotificationSettings {
     CommonModule,
     FormsModule,
     ReactiveFormsModule,
+    RouterLink,
     MatCardModule,
     MatButtonModule,
     MatIconModule,
@@ -67,6 +91,10 @@ interface NotificationSettings {
     MatDividerModule,
     MatSnackBarModule,
     MatProgressSpinnerModule,
+    MatProgressBarModule,
+    MatCheckboxModule,
+    TranslatePipe,
+    HasPermissionDirective,
   ],
   templateUrl: './admin-settings.component.html',
   styleUrl: './admin-settings.component.scss',
@@ -75,6 +103,9 @@ interface NotificationSettings {
 export class AdminSettingsComponent {
   private readonly fb = inject(FormBuilder);
   private readonly snackBar = inject(MatSnackBar);
+  private readonly translation = inject(TranslationService);
+  private readonly reportService = inject(ReportService);
+  private readonly permissionService = inject(PermissionService);
 
   readonly selectedTab = signal(0);
   readonly isSaving = signal(false);
@@ -105,17 +136,13 @@ export class AdminSettingsComponent {
     smsNotifications: true,
     pushNotifications: true,
     adminAlerts: true,
-    dailyReports: false,
-    weeklyReports: true,
   });
 
-  readonly languages = [
-    { code: 'en', name: 'English' },
-    { code: 'hi', name: 'Hindi' },
-    { code: 'mr', name: 'Marathi' },
-    { code: 'gu', name: 'Gujarati' },
-    { code: 'ta', name: 'Tamil' },
-  ];
+  readonly languages = this.translation.languages;
+
+  /** Translated share of UI strings per non-English language */
+  readonly translationCoverage = signal<TranslationCoverage[]>([]);
+  readonly isExporting = signal(false);
 
   readonly currencies = [
     { code: 'INR', name: 'Indian Rupee (₹)' },
@@ -129,6 +156,39 @@ export class AdminSettingsComponent {
     { value: 'cod', label: 'Cash on Delivery', icon: 'payments' },
   ];
 
+  /** Daily and weekly report emails, configured in full on the reports page */
+  readonly reportSchedules = this.reportService.schedules;
+
+  // Role permissions
+  readonly adminRoles = ADMIN_ROLES;
+  readonly permissionGroups = PERMISSION_GROUPS;
+  readonly isSavingRoles = this.permissionService.isSaving;
+
+  /** Unsaved edits to the role-permission matrix; follows the saved one */
+  readonly roleDraft = linkedSignal<RolePermissions>(() => this.permissionService.rolePermissions());
+
+  readonly hasRoleChanges = computed(() => {
+    const saved = this.permissionService.rolePermissions();
+    const draft = this.roleDraft();
+    return this.adminRoles.some(
+      ({ role }) =>
+        saved[role].length !== draft[role].length || saved[role].some((p) => !draft[role].includes(p))
+    );
+  });
+
+  /** Sub-roles of the signed-in admin, for the editor's heading */
+  readonly currentRoleLabels = computed(() =>
+    this.permissionService
+      .adminRoles()
+      .map((role) => ADMIN_ROLES.find((r) => r.role === role)?.label ?? role)
+      .join(', ')
+  );
+
+  constructor() {
+    this.loadTranslationCoverage();
+    this.reportService.loadSchedules();
+  }
+
   updatePlatformSetting<K extends keyof PlatformSettings>(key: K, value: PlatformSettings[K]): void {
     this.platformSettings.update(s => ({ ...s, [key]: value }));
   }
@@ -141,6 +201,59 @@ export class AdminSettingsComponent {
     this.notificationSettings.update(s => ({ ...s, [key]: value }));
   }
 
+  isReportScheduled(frequency: ReportFrequency): boolean {
+    return this.reportSchedules().some((s) => s.frequency === frequency && s.enabled);
+  }
+
+  /** The toggle stays disabled until the schedule has loaded, so a flip always saves */
+  hasReportSchedule(frequency: ReportFrequency): boolean {
+    return !!this.reportService.schedule(frequency);
+  }
+
+  toggleReportSchedule(frequency: ReportFrequency, enabled: boolean): void {
+    const schedule = this.reportService.schedule(frequency);
+    if (!schedule) return;
+
+    this.reportService.saveSchedule({ ...schedule, enabled }).subscribe({
+      error: () => this.snackBar.open('Could not update the report schedule', 'Close', { duration: 3000 }),
+    });
+  }
+
+  isGranted(role: AdminRole, permission: Permission): boolean {
+    return this.roleDraft()[role].includes(permission);
+  }
+
+  /** Super admins keep every permission so someone can always edit roles */
+  isLocked(role: AdminRole): boolean {
+    return role === AdminRole.SUPER_ADMIN;
+  }
+
+  togglePermission(role: AdminRole, permission: Permission, granted: boolean): void {
+    if (this.isLocked(role)) return;
+
+    this.roleDraft.update((draft) => ({
+      ...draft,
+      [role]: granted
+        ? [...draft[role].filter((p) => p !== permission), permission]
+        : draft[role].filter((p) => p !== permission),
+    }));
+  }
+
+  restoreDefaultRoles(): void {
+    this.roleDraft.set(DEFAULT_ROLE_PERMISSIONS);
+  }
+
+  discardRoleChanges(): void {
+    this.roleDraft.set(this.permissionService.rolePermissions());
+  }
+
+  saveRolePermissions(): void {
+    this.permissionService.saveRolePermissions(this.roleDraft()).subscribe({
+      next: () => this.snackBar.open('Role permissions saved', 'Close', { duration: 3000 }),
+      error: () => this.snackBar.open('Could not save role permissions', 'Close', { duration: 3000 }),
+    });
+  }
+
   togglePaymentMethod(method: string): void {
     this.commissionSettings.update(s => {
       const methods = s.paymentMethods.includes(method)
@@ -160,6 +273,35 @@ export class AdminSettingsComponent {
     }, 1000);
   }
 
+  /**
+   * Download every untranslated UI string as CSV for translators
+   */
+  async exportUntranslated(): Promise<void> {
+    this.isExporting.set(true);
+
+    try {
+      const entries = await this.translation.getUntranslated();
+      if (entries.length === 0) {
+        this.snackBar.open(this.translation.translate('admin.translations.complete'), 'Close', { duration: 3000 });
+        return;
+      }
+
+      const csv = toCsv([
+        ['language', 'key', 'english'],
+        ...entries.map((e) => [e.language, e.key, e.source]),
+      ]);
+      downloadFile(csv, 'untranslated-keys.csv', 'text/csv;charset=utf-8');
+
+      this.snackBar.open(
+        this.translation.translate('admin.translations.exported', { count: entries.length }),
+        'Close',
+        { duration: 3000 }
+      );
+    } finally {
+      this.isExporting.set(false);
+    }
+  }
+
   resetToDefaults(): void {
     this.platformSettings.set({
       siteName: 'Smart Mandi Connect',
@@ -175,4 +317,19 @@ export class AdminSettingsComponent {
     });
     this.snackBar.open('Settings reset to defaults', 'Close', { duration: 3000 });
   }
+
+  private async loadTranslationCoverage(): Promise<void> {
+    const total = Object.keys(EN).length;
+    const untranslated = await this.translation.getUntranslated();
+
+    this.translationCoverage.set(
+      this.languages
+        .filter((language) => language.code !== 'en')
+        .map((language) => ({
+          language,
+          total,
+          translated: total - untranslated.filter((e) => e.language === language.code).length,
+        }))
+    );
+  }
 }
@@ -0,0 +1,198 @@
+/**
+ * Dispute Detail Page Component
+ * =============================
+ * Admin view of one dispute: the thread with both parties, evidence and
+ * the workflow actions (assign, escalate, resolve with refund, close).
+ */
+
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  input,
+  signal,
+  computed,
+  viewChild,
+  effect,
+  untracked,
+  DestroyRef,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Observable, filter, switchMap } from 'rxjs';
+
+import { AuthService } from '@core/services/auth.service';
+import { HasPermissionDirective } from '@shared/directives/has-permission.directive';
+import {
+  Dispute,
+  DisputeService,
+  DisputeStatus,
+  DISPUTE_TYPE_CONFIG,
+  isDisputeActive,
+} from '@features/orders/services/dispute.service';
+import { DisputeThreadComponent } from '@features/orders/components/dispute-thread/dispute-thread.component';
+import {
+  ResolveDisputeDialogComponent,
+  ResolveDisputeDialogResult,
+} from '../../components/resolve-dispute-dialog/resolve-dispute-dialog.component';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
+
+@Component({
+  selector: 'smc-dispute-detail',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    RouterLink,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatProgressBarModule,
+    MatDialogModule,
+    MatSnackBarModule,
+    DisputeThreadComponent,
+    HasPermissionDirective,
+    LocaleDatePipe,
+    LocaleNumberPipe,
+  ],
+  templateUrl: './dispute-detail.component.html',
+  styleUrl: './dispute-detail.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class DisputeDetailComponent {
+  private readonly disputeService = inject(DisputeService);
+  private readonly authService = inject(AuthService);
+  private readonly dialog = inject(MatDialog);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly destroyRef = inject(DestroyRef);
+
+  private readonly thread = viewChild(DisputeThreadComponent);
+
+  /** Route param */
+  readonly id = input.required<string>();
+
+  readonly DISPUTE_TYPE_CONFIG = DISPUTE_TYPE_CONFIG;
+
+  readonly dispute = this.disputeService.selectedDispute;
+  readonly assignees = this.disputeService.assignees;
+  readonly isLoading = this.disputeService.isLoading;
+  readonly isUpdating = this.disputeService.isUpdating;
+  readonly error = this.disputeService.error;
+  readonly currentUserId = computed(() => this.authService.currentUser()?.id ?? null);
+
+  /** Admin note used for escalation and closing */
+  readonly note = signal('');
+  readonly assigneeId = signal<string | null>(null);
+
+  readonly isActive = computed(() => {
+    const dispute = this.dispute();
+    return !!dispute && isDisputeActive(dispute);
+  });
+
+  readonly canEscalate = computed(() => this.isActive() && this.dispute()?.status !== DisputeStatus.ESCALATED);
+
+  readonly canClose = computed(() => !!this.dispute() && this.dispute()?.status !== DisputeStatus.CLOSED);
+
+  constructor() {
+    this.disputeService.loadAssignees();
+
+    effect(() => {
+      const id = this.id();
+      untracked(() => this.disputeService.loadDispute(id));
+    });
+
+    effect(() => {
+      const assignee = this.dispute()?.assignee;
+      untracked(() => this.assigneeId.set(assignee?.id ?? null));
+    });
+  }
+
+  // ============================================
+  // Workflow Actions
+  // ============================================
+
+  onAssign(): void {
+    const dispute = this.dispute();
+    const assignee = this.assignees().find((a) => a.id === this.assigneeId());
+    if (!dispute || !assignee) return;
+
+    this.run(this.disputeService.assign(dispute.id, assignee), `Assigned to ${assignee.name}`);
+  }
+
+  onEscalate(): void {
+    const dispute = this.dispute();
+    if (!dispute) return;
+
+    this.run(this.disputeService.escalate(dispute.id, this.note().trim()), 'Dispute escalated', true);
+  }
+
+  onResolve(): void {
+    const dispute = this.dispute();
+    if (!dispute) return;
+
+    this.dialog
+      .open<ResolveDisputeDialogComponent, { dispute: Dispute }, ResolveDisputeDialogResult>(
+        ResolveDisputeDialogComponent,
+        { width: '460px', data: { dispute }, panelClass: 'smc-dialog', ariaLabel: 'Resolve dispute' }
+      )
+      .afterClosed()
+      .pipe(
+        filter((result): result is Required<ResolveDisputeDialogResult> => !!result?.confirmed && !!result.request),
+        switchMap((result) => this.disputeService.resolve(dispute.id, result.request)),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe({
+        next: () => this.snackBar.open('Dispute resolved', 'Close', { duration: 3000 }),
+        error: () => this.snackBar.open('Failed to resolve dispute', 'Close', { duration: 5000 }),
+      });
+  }
+
+  onClose(): void {
+    const dispute = this.dispute();
+    if (!dispute) return;
+
+    this.run(this.disputeService.close(dispute.id, this.note().trim()), 'Dispute closed', true);
+  }
+
+  onSendMessage(body: string): void {
+    const dispute = this.dispute();
+    if (!dispute) return;
+
+    this.disputeService
+      .sendMessage(dispute.id, body)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => this.thread()?.clearDraft(),
+        error: () => this.snackBar.open('Failed to send message', 'Close', { duration: 5000 }),
+      });
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private run(action: Observable<Dispute>, successMessage: string, clearNote = false): void {
+    action.pipe(takeUntilDestroyed(this.destroyRef)).subscribe({
+      next: () => {
+        if (clearNote) this.note.set('');
+        this.snackBar.open(successMessage, 'Close', { duration: 3000 });
+      },
+      error: () => this.snackBar.open(this.error() ?? 'Action failed', 'Close', { duration: 5000 }),
+    });
+  }
+}
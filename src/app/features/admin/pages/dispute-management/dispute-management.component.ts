@@ -0,0 +1,80 @@
+/**
+ * Dispute Management Page Component
+ * =================================
+ * Admin queue of order disputes, filterable by status. Active disputes are
+ * listed most urgent first.
+ */
+
+import { Component, ChangeDetectionStrategy, inject, input, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+
+import {
+  Dispute,
+  DisputeService,
+  DisputeStatus,
+  DISPUTE_STATUS_CONFIG,
+} from '@features/orders/services/dispute.service';
+import { DisputeCardComponent } from '../../components/dispute-card/dispute-card.component';
+
+type DisputeFilter = 'active' | DisputeStatus;
+
+@Component({
+  selector: 'smc-dispute-management',
+  standalone: true,
+  imports: [CommonModule, MatButtonToggleModule, MatIconModule, MatProgressBarModule, DisputeCardComponent],
+  templateUrl: './dispute-management.component.html',
+  styleUrl: './dispute-management.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class DisputeManagementComponent {
+  private readonly router = inject(Router);
+  private readonly disputeService = inject(DisputeService);
+
+  /** Query param: status filter */
+  readonly status = input<string>();
+
+  readonly isLoading = this.disputeService.isLoading;
+  readonly error = this.disputeService.error;
+  readonly statusCounts = this.disputeService.statusCounts;
+
+  readonly filters: { value: DisputeFilter; label: string }[] = [
+    { value: 'active', label: 'Active' },
+    ...Object.values(DisputeStatus).map((value) => ({ value, label: DISPUTE_STATUS_CONFIG[value].label })),
+  ];
+
+  readonly selectedFilter = computed<DisputeFilter>(() => {
+    const status = this.status();
+    return this.filters.some((f) => f.value === status) ? (status as DisputeFilter) : 'active';
+  });
+
+  readonly activeCount = computed(() => this.disputeService.activeDisputes().length);
+
+  readonly visibleDisputes = computed(() => {
+    const selected = this.selectedFilter();
+    if (selected === 'active') return this.disputeService.activeDisputes();
+    return this.disputeService
+      .disputes()
+      .filter((d) => d.status === selected)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  });
+
+  constructor() {
+    this.disputeService.loadDisputes();
+  }
+
+  countFor(filter: DisputeFilter): number {
+    return filter === 'active' ? this.activeCount() : this.statusCounts()[filter];
+  }
+
+  onFilterChange(status: DisputeFilter): void {
+    this.router.navigate([], { queryParams: { status: status === 'active' ? null : status }, replaceUrl: true });
+  }
+
+  onOpen(dispute: Dispute): void {
+    this.router.navigate(['/admin/disputes', dispute.id]);
+  }
+}
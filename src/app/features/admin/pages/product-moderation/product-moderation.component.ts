@@ -1,10 +1,11 @@
 /**
  * Product Moderation Page Component
  * ==================================
- * Admin tool for reviewing and moderating farmer products.
+ * Admin tool for reviewing and moderating farmer products, and for
+ * keeping or removing reviews that users have reported.
  */
 
-import { Component, ChangeDetectionStrategy } from '@angular/core';
+import { Component, ChangeDetectionStrategy, inject, signal, computed } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
@@ -12,6 +13,21 @@ import { MatIconModule } from '@angular/material/icon';
 import { MatTableModule } from '@angular/material/table';
 import { MatChipsModule } from '@angular/material/chips';
 import { MatMenuModule } from '@angular/material/menu';
+import { MatTabsModule } from '@angular/material/tabs';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+import {
+  Review,
+  ReviewService,
+  ReviewStatus,
+  REVIEW_STATUS_CONFIG,
+  REVIEW_TAG_CONFIG,
+} from '@features/reviews/services/review.service';
+import { StarRatingComponent } from '@features/reviews/components/star-rating/star-rating.component';
+import { HasPermissionDirective } from '@shared/directives/has-permission.directive';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
 
 @Component({
   selector: 'smc-product-moderation',
@@ -24,12 +40,22 @@ import { MatMenuModule } from '@angular/material/menu';
     MatTableModule,
     MatChipsModule,
     MatMenuModule,
+    MatTabsModule,
+    MatButtonToggleModule,
+    MatProgressBarModule,
+    MatSnackBarModule,
+    StarRatingComponent,
+    HasPermissionDirective,
+    LocaleDatePipe,
   ],
   templateUrl: './product-moderation.component.html',
   styleUrl: './product-moderation.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class ProductModerationComponent {
+  private readonly reviewService = inject(ReviewService);
+  private readonly snackBar = inject(MatSnackBar);
+
   /** Pending products for moderation */
   readonly pendingProducts = [
     {
@@ -88,4 +114,49 @@ export class ProductModerationComponent {
     console.log('Viewing product:', productId);
     // TODO: Navigate to product details
   }
-}
\ No newline at end of file
+
+  // ============================================
+  // Review Moderation
+  // ============================================
+
+  readonly REVIEW_STATUS_CONFIG = REVIEW_STATUS_CONFIG;
+  readonly REVIEW_TAG_CONFIG = REVIEW_TAG_CONFIG;
+  readonly ReviewStatus = ReviewStatus;
+
+  readonly isLoadingReviews = this.reviewService.isLoading;
+  readonly isModerating = this.reviewService.isSubmitting;
+  readonly flaggedCount = this.reviewService.flaggedCount;
+
+  /** Reported reviews only, or every review */
+  readonly reviewFilter = signal<'flagged' | 'all'>('flagged');
+
+  readonly visibleReviews = computed(() => {
+    const queue = this.reviewService.moderationQueue();
+    return this.reviewFilter() === 'flagged' ? queue.filter((r) => r.status === ReviewStatus.FLAGGED) : queue;
+  });
+
+  constructor() {
+    this.reviewService.loadModerationQueue();
+  }
+
+  /** Keep a reported review published */
+  keepReview(review: Review): void {
+    this.moderateReview(review, ReviewStatus.PUBLISHED, 'Review kept');
+  }
+
+  /** Take a review down */
+  removeReview(review: Review): void {
+    this.moderateReview(review, ReviewStatus.REMOVED, 'Review removed');
+  }
+
+  private moderateReview(
+    review: Review,
+    status: ReviewStatus.PUBLISHED | ReviewStatus.REMOVED,
+    successMessage: string
+  ): void {
+    this.reviewService.moderate(review, status).subscribe({
+      next: () => this.snackBar.open(successMessage, 'Close', { duration: 3000 }),
+      error: () => this.snackBar.open('Failed to update review', 'Close', { duration: 5000 }),
+    });
+  }
+}
@@ -1,17 +1,54 @@
 /**
  * Reports & Analytics Page Component
  * ===================================
- * Admin analytics dashboard with charts and reports.
+ * Admin report builder: pick a template and period, drill down by state
+ * and category, export the report with its charts as PDF or Excel, and
+ * manage the scheduled report emails.
  */
 
-import { Component, ChangeDetectionStrategy, signal } from '@angular/core';
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  signal,
+  computed,
+  effect,
+  untracked,
+  viewChildren,
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
-import { MatTabsModule } from '@angular/material/tabs';
 import { MatSelectModule } from '@angular/material/select';
 import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatDatepickerModule } from '@angular/material/datepicker';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+import { downloadFile } from '@shared/services/file-export';
+import { XLSX_MIME } from '@shared/services/xlsx-export';
+import { HasPermissionDirective } from '@shared/directives/has-permission.directive';
+import { ChartCardComponent, ChartImage } from '../../components/chart-card/chart-card.component';
+import { ReportSchedulesComponent } from '../../components/report-schedules/report-schedules.component';
+import {
+  ReportService,
+  ReportBreakdownRow,
+  ReportFormat,
+  ReportMetric,
+  ReportPeriod,
+  ReportQuery,
+  ReportTemplateId,
+  ReportValueFormat,
+  REPORT_CATEGORIES,
+  REPORT_PERIODS,
+  REPORT_STATES,
+  REPORT_TEMPLATES,
+  formatReportValue,
+  periodRange,
+} from '../../services/report.service';
+import { buildReportPdf, buildReportXlsx, reportFileName } from '../../services/report-export';
 
 @Component({
   selector: 'smc-reports',
@@ -21,77 +58,152 @@ import { MatFormFieldModule } from '@angular/material/form-field';
     MatCardModule,
     MatButtonModule,
     MatIconModule,
-    MatTabsModule,
     MatSelectModule,
     MatFormFieldModule,
+    MatDatepickerModule,
+    MatChipsModule,
+    MatProgressBarModule,
+    MatSnackBarModule,
+    ChartCardComponent,
+    ReportSchedulesComponent,
+    HasPermissionDirective,
   ],
   templateUrl: './reports.component.html',
   styleUrl: './reports.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class ReportsComponent {
-  /** Selected time period */
-  readonly selectedPeriod = signal<string>('week');
-
-  /** Time period options */
-  readonly periods = [
-    { value: 'today', label: 'Today' },
-    { value: 'week', label: 'This Week' },
-    { value: 'month', label: 'This Month' },
-    { value: 'quarter', label: 'This Quarter' },
-    { value: 'year', label: 'This Year' },
-  ];
-
-  /** Key metrics */
-  readonly metrics = [
-    {
-      title: 'Total Revenue',
-      value: '₹12,45,000',
-      change: '+12.5%',
-      trend: 'up',
-      icon: 'payments',
-    },
-    {
-      title: 'Total Orders',
-      value: '1,234',
-      change: '+8.3%',
-      trend: 'up',
-      icon: 'shopping_cart',
-    },
-    {
-      title: 'Active Farmers',
-      value: '456',
-      change: '+5.2%',
-      trend: 'up',
-      icon: 'agriculture',
-    },
-    {
-      title: 'Active Buyers',
-      value: '2,089',
-      change: '+15.7%',
-      trend: 'up',
-      icon: 'people',
-    },
-  ];
-
-  /** Top selling products */
-  readonly topProducts = [
-    { name: 'Organic Tomatoes', sales: 234, revenue: '₹52,000' },
-    { name: 'Basmati Rice', sales: 189, revenue: '₹1,12,000' },
-    { name: 'Fresh Mangoes', sales: 156, revenue: '₹78,000' },
-    { name: 'Green Chillies', sales: 145, revenue: '₹18,000' },
-    { name: 'Potatoes', sales: 132, revenue: '₹26,000' },
-  ];
-
-  /** Update selected period */
-  onPeriodChange(period: string): void {
+  private readonly reportService = inject(ReportService);
+  private readonly snackBar = inject(MatSnackBar);
+
+  private readonly chartCards = viewChildren(ChartCardComponent);
+
+  readonly templates = REPORT_TEMPLATES;
+  readonly periods = REPORT_PERIODS;
+  readonly states = REPORT_STATES;
+  readonly categories = REPORT_CATEGORIES;
+
+  readonly result = this.reportService.result;
+  readonly isLoading = this.reportService.isLoading;
+  readonly error = this.reportService.error;
+
+  // ============================================
+  // Query
+  // ============================================
+
+  readonly template = signal<ReportTemplateId>('gmv');
+  readonly selectedPeriod = signal<ReportPeriod>('month');
+  readonly customFrom = signal<Date | null>(null);
+  readonly customTo = signal<Date | null>(null);
+  readonly state = signal<string | null>(null);
+  readonly category = signal<string | null>(null);
+
+  /** Null while a custom range is incomplete */
+  readonly range = computed(() => {
+    const period = this.selectedPeriod();
+    if (period !== 'custom') return periodRange(period);
+
+    const from = this.customFrom();
+    const to = this.customTo();
+    if (!from || !to) return null;
+    // Include the whole of the last day
+    return { from, to: new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1) };
+  });
+
+  readonly query = computed<ReportQuery | null>(() => {
+    const range = this.range();
+    return range
+      ? { template: this.template(), ...range, state: this.state(), category: this.category() }
+      : null;
+  });
+
+  readonly periodLabel = computed(() => {
+    const range = this.range();
+    const period = this.periods.find((p) => p.value === this.selectedPeriod())?.label ?? '';
+    if (!range) return period;
+
+    const format = (date: Date) => date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+    // Custom ranges end at midnight after the last day
+    const last = this.selectedPeriod() === 'custom' ? new Date(range.to.getTime() - 1) : range.to;
+    const dates = `${format(range.from)} – ${format(last)}`;
+    return this.selectedPeriod() === 'custom' ? dates : `${period} (${dates})`;
+  });
+
+  readonly isExporting = signal(false);
+
+  constructor() {
+    effect(() => {
+      const query = this.query();
+      if (query) untracked(() => this.reportService.loadReport(query));
+    });
+  }
+
+  // ============================================
+  // Filters
+  // ============================================
+
+  selectTemplate(template: ReportTemplateId): void {
+    this.template.set(template);
+  }
+
+  onPeriodChange(period: ReportPeriod): void {
     this.selectedPeriod.set(period);
-    // TODO: Fetch new data based on period
   }
 
-  /** Export report */
-  exportReport(format: 'pdf' | 'excel'): void {
-    console.log('Exporting report as:', format);
-    // TODO: Implement export functionality
+  onCustomRangeChange(changes: { from?: Date | null; to?: Date | null }): void {
+    if (changes.from !== undefined) this.customFrom.set(changes.from);
+    if (changes.to !== undefined) this.customTo.set(changes.to);
+  }
+
+  /** Filter to the clicked state or category, showing the next level down */
+  drillDown(row: ReportBreakdownRow): void {
+    const dimension = this.result()?.breakdown.dimension;
+    if (dimension === 'state') this.state.set(row.key);
+    if (dimension === 'category') this.category.set(row.key);
+  }
+
+  clearFilter(filter: 'state' | 'category'): void {
+    this[filter].set(null);
+  }
+
+  // ============================================
+  // Display
+  // ============================================
+
+  formatValue(value: number, format: ReportValueFormat): string {
+    return formatReportValue(value, format);
+  }
+
+  /** Whether a metric moved the right way, e.g. resolution time going down */
+  isImprovement(metric: ReportMetric): boolean {
+    return metric.change !== null && (metric.invert ? metric.change <= 0 : metric.change >= 0);
+  }
+
+  // ============================================
+  // Export
+  // ============================================
+
+  async exportReport(format: ReportFormat): Promise<void> {
+    const result = this.result();
+    if (!result || this.isExporting()) return;
+
+    this.isExporting.set(true);
+    try {
+      const charts = this.chartCards()
+        .map((card) => card.toImage())
+        .filter((image): image is ChartImage => image !== null);
+      const report = { result, periodLabel: this.periodLabel(), charts };
+
+      if (format === 'pdf') {
+        downloadFile(await buildReportPdf(report), reportFileName(result, 'pdf'), 'application/pdf');
+      } else {
+        downloadFile(buildReportXlsx(report), reportFileName(result, 'xlsx'), XLSX_MIME);
+      }
+    } catch (error) {
+      console.error('Report export failed:', error);
+      this.snackBar.open('Could not export the report', 'Close', { duration: 3000 });
+    } finally {
+      this.isExporting.set(false);
+    }
   }
-}
\ No newline at end of file
+}
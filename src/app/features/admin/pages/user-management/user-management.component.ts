@@ -23,6 +23,8 @@ import { MatTooltipModule } from '@angular/material/tooltip';
 import { MatDialogModule } from '@angular/material/dialog';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
 import { MatDividerModule } from '@angular/material/divider';
+import { HasPermissionDirective } from '@shared/directives/has-permission.directive';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
 
 export interface User {
   id: string;
@@ -60,6 +62,8 @@ export interface User {
     MatDialogModule,
     MatSnackBarModule,
     MatDividerModule,
+    HasPermissionDirective,
+    LocaleDatePipe,
   ],
   templateUrl: './user-management.component.html',
   styleUrl: './user-management.component.scss',
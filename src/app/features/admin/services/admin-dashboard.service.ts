@@ -8,26 +8,12 @@ import { Injectable, inject, signal, computed } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
 import { of, delay, tap, catchError, throwError } from 'rxjs';
 import { environment } from '@environments/environment';
+import { Dispute, DisputeStatus, DisputeType } from '@features/orders/services/dispute.service';
 
 // ============================================
 // Enums & Types
 // ============================================
 
-export enum DisputeStatus {
-  OPEN = 'OPEN',
-  IN_PROGRESS = 'IN_PROGRESS',
-  RESOLVED = 'RESOLVED',
-  ESCALATED = 'ESCALATED',
-}
-
-export enum DisputeType {
-  QUALITY = 'QUALITY',
-  PAYMENT = 'PAYMENT',
-  DELIVERY = 'DELIVERY',
-  FRAUD = 'FRAUD',
-  OTHER = 'OTHER',
-}
-
 export enum UserStatus {
   ACTIVE = 'ACTIVE',
   INACTIVE = 'INACTIVE',
@@ -82,6 +68,10 @@ export interface TimeSeriesData {
     readonly data: number[];
     readonly borderColor?: string;
     readonly backgroundColor?: string;
+    /** Line charts fill to the axis unless set; a string such as '+1' fills to another dataset */
+    readonly fill?: boolean | string;
+    readonly borderDash?: number[];
+    readonly pointRadius?: number;
   }[];
 }
 
@@ -98,28 +88,6 @@ export interface RecentUser {
   readonly totalSpent: number;
 }
 
-export interface Dispute {
-  readonly id: string;
-  readonly orderId: string;
-  readonly type: DisputeType;
-  readonly status: DisputeStatus;
-  readonly description: string;
-  readonly raisedBy: {
-    readonly id: string;
-    readonly name: string;
-    readonly role: 'FARMER' | 'BUYER';
-  };
-  readonly against: {
-    readonly id: string;
-    readonly name: string;
-    readonly role: 'FARMER' | 'BUYER';
-  };
-  readonly amount: number;
-  readonly createdAt: Date;
-  readonly updatedAt: Date;
-  readonly priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
-}
-
 export interface TopProduct {
   readonly id: string;
   readonly name: string;
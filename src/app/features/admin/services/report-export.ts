@@ -0,0 +1,269 @@
+/**
+ * Report Export
+ * =============
+ * Admin reports generated in the browser as PDF or XLSX, with the charts
+ * on screen embedded as images. jsPDF is loaded on demand so it stays out
+ * of the reports page bundle.
+ */
+
+import { buildXlsx, XlsxCell, XlsxImage } from '@shared/services/xlsx-export';
+import type { ChartImage } from '../components/chart-card/chart-card.component';
+import {
+  REPORT_TEMPLATES,
+  ReportDimension,
+  ReportResult,
+  ReportValueFormat,
+  formatReportValue,
+} from './report.service';
+
+export interface ReportExport {
+  readonly result: ReportResult;
+  /** e.g. "This Month (1 Oct – 19 Oct 2026)" */
+  readonly periodLabel: string;
+  readonly charts: ChartImage[];
+}
+
+const DIMENSION_LABELS: Record<ReportDimension, string> = {
+  state: 'State',
+  category: 'Category',
+  date: 'Date',
+};
+
+const UNIT_SUFFIX: Record<ReportValueFormat, string> = {
+  currency: ' (INR)',
+  percent: ' (%)',
+  hours: ' (hours)',
+  number: '',
+};
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+export function reportTitle(result: ReportResult): string {
+  return `${REPORT_TEMPLATES.find((t) => t.id === result.query.template)?.label ?? 'Marketplace'} Report`;
+}
+
+/** e.g. "State: Punjab · Category: Grains", or "All states and categories" */
+export function reportFilterLabel(result: ReportResult): string {
+  const { state, category } = result.query;
+  const filters = [state && `State: ${state}`, category && `Category: ${category}`].filter(Boolean);
+  return filters.length > 0 ? filters.join(' · ') : 'All states and categories';
+}
+
+/** e.g. "gmv-report-2026-10-19" */
+export function reportFileName(result: ReportResult, extension: 'pdf' | 'xlsx'): string {
+  const scope = [result.query.state, result.query.category]
+    .filter(Boolean)
+    .map((part) => part!.toLowerCase().replace(/[^a-z0-9]+/g, '-'));
+  const date = result.generatedAt.toISOString().slice(0, 10);
+  return [`${result.query.template}-report`, ...scope, date].join('-') + `.${extension}`;
+}
+
+// ============================================
+// PDF
+// ============================================
+
+/**
+ * A4 report: key metrics, the charts, then the breakdown table.
+ */
+export async function buildReportPdf(report: ReportExport): Promise<Blob> {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const { result } = report;
+
+  const margin = 14;
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const contentWidth = pageWidth - margin * 2;
+  let y = margin;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin - 6) {
+      doc.addPage();
+      y = margin;
+    }
+  };
+
+  // Header
+  doc.setFont('helvetica', 'bold').setFontSize(16).setTextColor(27, 94, 32);
+  doc.text('Smart Mandi Connect', margin, y + 4);
+  doc.setFontSize(12).setTextColor(33, 33, 33);
+  doc.text(`${reportTitle(result)}: ${report.periodLabel}`, margin, y + 12);
+  doc.setFont('helvetica', 'normal').setFontSize(9).setTextColor(97, 97, 97);
+  doc.text(reportFilterLabel(result), margin, y + 18);
+  doc.text(`Generated on ${formatDate(result.generatedAt)}`, pageWidth - margin, y + 18, { align: 'right' });
+  y += 26;
+
+  // Metrics
+  const metricWidth = contentWidth / Math.max(result.metrics.length, 1);
+  doc.setDrawColor(224, 224, 224).setFillColor(245, 248, 245);
+  doc.roundedRect(margin, y, contentWidth, 22, 2, 2, 'FD');
+  result.metrics.forEach((metric, i) => {
+    const x = margin + 4 + i * metricWidth;
+    doc.setFontSize(8).setTextColor(117, 117, 117).text(metric.label, x, y + 7);
+    doc.setFont('helvetica', 'bold').setFontSize(11).setTextColor(33, 33, 33);
+    doc.text(formatReportValue(metric.value, metric.format, 'Rs. '), x, y + 13);
+    doc.setFont('helvetica', 'normal').setFontSize(7.5);
+    if (metric.change !== null) {
+      const good = metric.invert ? metric.change <= 0 : metric.change >= 0;
+      if (good) {
+        doc.setTextColor(22, 163, 74);
+      } else {
+        doc.setTextColor(220, 38, 38);
+      }
+      doc.text(`${metric.change >= 0 ? '+' : ''}${metric.change}% vs previous`, x, y + 18);
+    }
+  });
+  y += 30;
+
+  // Charts, full width and at most 80mm tall
+  for (const chart of report.charts) {
+    let width = contentWidth;
+    let height = (width * chart.height) / chart.width;
+    if (height > 80) {
+      width = (width * 80) / height;
+      height = 80;
+    }
+    ensureSpace(height + 8);
+    doc.setFont('helvetica', 'bold').setFontSize(10).setTextColor(33, 33, 33);
+    doc.text(chart.title, margin, y + 4);
+    doc.addImage(chart.dataUrl, 'PNG', margin, y + 7, width, height);
+    y += height + 12;
+  }
+
+  // Breakdown
+  const { breakdown } = result;
+  const firstWidth = 50;
+  const valueWidth = (contentWidth - firstWidth) / Math.max(breakdown.columns.length, 1);
+  const drawRow = (cells: string[]) => {
+    cells.forEach((cell, i) => {
+      const text = doc.splitTextToSize(cell, (i === 0 ? firstWidth : valueWidth) - 3)[0] ?? '';
+      if (i === 0) {
+        doc.text(text, margin + 1.5, y);
+      } else {
+        doc.text(text, margin + firstWidth + i * valueWidth - 1.5, y, { align: 'right' });
+      }
+    });
+  };
+  const drawHeader = () => {
+    doc.setFillColor(27, 94, 32).rect(margin, y - 4.5, contentWidth, 7, 'F');
+    doc.setFont('helvetica', 'bold').setFontSize(8).setTextColor(255, 255, 255);
+    drawRow([DIMENSION_LABELS[breakdown.dimension], ...breakdown.columns.map((c) => c.label)]);
+    doc.setFont('helvetica', 'normal').setTextColor(33, 33, 33);
+    y += 7;
+  };
+  const cells = (values: number[]) =>
+    values.map((value, i) => formatReportValue(value, breakdown.columns[i].format, 'Rs. '));
+
+  ensureSpace(30);
+  doc.setFont('helvetica', 'bold').setFontSize(10).setTextColor(33, 33, 33);
+  doc.text(`By ${DIMENSION_LABELS[breakdown.dimension].toLowerCase()}`, margin, y + 4);
+  y += 12;
+  drawHeader();
+  breakdown.rows.forEach((row, index) => {
+    if (y > pageHeight - margin - 10) {
+      doc.addPage();
+      y = margin + 4;
+      drawHeader();
+    }
+    if (index % 2 === 1) {
+      doc.setFillColor(248, 248, 248).rect(margin, y - 4, contentWidth, 6, 'F');
+    }
+    drawRow([row.label, ...cells(row.values)]);
+    y += 6;
+  });
+  doc.setDrawColor(189, 189, 189).line(margin, y - 3.5, pageWidth - margin, y - 3.5);
+  doc.setFont('helvetica', 'bold');
+  y += 1.5;
+  drawRow(['Total', ...cells(breakdown.total)]);
+
+  // Footer on every page
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal').setFontSize(7).setTextColor(158, 158, 158);
+    doc.text('Amounts in Indian Rupees. Changes compare with the previous period of the same length.', margin, pageHeight - 8);
+    doc.text(`Page ${page} of ${pages}`, pageWidth - margin, pageHeight - 8, { align: 'right' });
+  }
+
+  return doc.output('blob');
+}
+
+// ============================================
+// XLSX
+// ============================================
+
+/** Excel's default row height in pixels, for stacking chart images */
+const XLSX_ROW_PX = 20;
+/** Width charts are placed at in the summary sheet */
+const XLSX_CHART_PX = 640;
+
+/**
+ * Workbook with a summary sheet (metrics and charts), the breakdown, and
+ * the figures behind each chart. Values are plain numbers so they can be
+ * summed and charted again.
+ */
+export function buildReportXlsx(report: ReportExport): Blob {
+  const { result } = report;
+  const { breakdown } = result;
+
+  const summary: XlsxCell[][] = [
+    [reportTitle(result)],
+    [report.periodLabel],
+    [reportFilterLabel(result)],
+    [`Generated on ${formatDate(result.generatedAt)}`],
+    [],
+    ['Metric', 'Value', 'Change vs previous period (%)'],
+    ...result.metrics.map((m) => [`${m.label}${UNIT_SUFFIX[m.format]}`, m.value, m.change]),
+  ];
+
+  const images: XlsxImage[] = [];
+  let row = summary.length + 1;
+  for (const chart of report.charts) {
+    const height = Math.round((XLSX_CHART_PX * chart.height) / chart.width);
+    summary[row] = [chart.title];
+    images.push({ dataUrl: chart.dataUrl, row: row + 1, col: 0, width: XLSX_CHART_PX, height });
+    row += Math.ceil(height / XLSX_ROW_PX) + 3;
+  }
+
+  const chartData: XlsxCell[][] = [];
+  const chartTitleRows: number[] = [];
+  for (const chart of result.charts) {
+    chartTitleRows.push(chartData.length, chartData.length + 1);
+    chartData.push([chart.title]);
+    if (chart.series) {
+      chartData.push(['', ...chart.series.datasets.map((d) => d.label)]);
+      chart.series.labels.forEach((label, i) => chartData.push([label, ...chart.series!.datasets.map((d) => d.data[i])]));
+    } else {
+      chartData.push(['', 'Value']);
+      chart.points.forEach((point) => chartData.push([point.label, point.value]));
+    }
+    chartData.push([]);
+  }
+
+  return buildXlsx([
+    {
+      name: 'Summary',
+      rows: Array.from(summary, (cells) => cells ?? []),
+      boldRows: [0, 5, ...images.map((image) => image.row - 1)],
+      columnWidths: [34, 16, 30],
+      images,
+    },
+    {
+      name: `By ${DIMENSION_LABELS[breakdown.dimension]}`,
+      rows: [
+        [DIMENSION_LABELS[breakdown.dimension], ...breakdown.columns.map((c) => `${c.label}${UNIT_SUFFIX[c.format]}`)],
+        ...breakdown.rows.map((r) => [r.label, ...r.values]),
+        ['Total', ...breakdown.total],
+      ],
+      boldRows: [0, breakdown.rows.length + 1],
+      columnWidths: [22, ...breakdown.columns.map(() => 18)],
+    },
+    {
+      name: 'Chart Data',
+      rows: chartData,
+      boldRows: chartTitleRows,
+      columnWidths: [22, 24, 24, 24],
+    },
+  ]);
+}
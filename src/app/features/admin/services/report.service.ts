@@ -0,0 +1,708 @@
+/**
+ * Report Service
+ * ==============
+ * Signals-based service for admin reports: runs a report template over a
+ * date range with optional state and category filters, and keeps the
+ * daily and weekly schedules the server emails reports on.
+ */
+
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, Subscription, of, delay, tap, catchError, throwError } from 'rxjs';
+import { environment } from '@environments/environment';
+import { ChartDataPoint, TimeSeriesData } from './admin-dashboard.service';
+
+// ============================================
+// Types
+// ============================================
+
+export type ReportTemplateId = 'gmv' | 'order-funnel' | 'farmer-onboarding' | 'category-sales' | 'dispute-sla';
+export type ReportPeriod = 'today' | 'week' | 'month' | 'quarter' | 'year' | 'custom';
+/** What breakdown rows are grouped by; 'date' once both filters are set */
+export type ReportDimension = 'state' | 'category' | 'date';
+export type ReportValueFormat = 'currency' | 'number' | 'percent' | 'hours';
+export type ReportFormat = 'pdf' | 'xlsx';
+export type ReportFrequency = 'daily' | 'weekly';
+
+export interface ReportTemplate {
+  readonly id: ReportTemplateId;
+  readonly label: string;
+  readonly description: string;
+  readonly icon: string;
+}
+
+export interface ReportQuery {
+  readonly template: ReportTemplateId;
+  readonly from: Date;
+  readonly to: Date;
+  readonly state: string | null;
+  readonly category: string | null;
+}
+
+export interface ReportMetric {
+  readonly label: string;
+  readonly icon: string;
+  readonly value: number;
+  readonly format: ReportValueFormat;
+  /** Percent change from the previous period of the same length */
+  readonly change: number | null;
+  /** Lower is better, e.g. resolution time */
+  readonly invert?: boolean;
+}
+
+export interface ReportChart {
+  readonly title: string;
+  readonly type: 'line' | 'bar' | 'doughnut';
+  /** Set for line and bar charts */
+  readonly series: TimeSeriesData | null;
+  /** Set for doughnut charts */
+  readonly points: ChartDataPoint[];
+}
+
+export interface ReportBreakdownRow {
+  /** State, category or ISO date the row stands for */
+  readonly key: string;
+  readonly label: string;
+  readonly values: number[];
+}
+
+export interface ReportBreakdown {
+  readonly dimension: ReportDimension;
+  readonly columns: { readonly label: string; readonly format: ReportValueFormat }[];
+  readonly rows: ReportBreakdownRow[];
+  readonly total: number[];
+}
+
+export interface ReportResult {
+  readonly query: ReportQuery;
+  readonly generatedAt: Date;
+  readonly metrics: ReportMetric[];
+  readonly charts: ReportChart[];
+  readonly breakdown: ReportBreakdown;
+}
+
+/** A report email the server sends on a schedule */
+export interface ReportSchedule {
+  readonly frequency: ReportFrequency;
+  readonly enabled: boolean;
+  readonly templates: ReportTemplateId[];
+  readonly format: ReportFormat;
+  readonly recipients: string[];
+  /** Hour of day (IST) the report goes out */
+  readonly hour: number;
+  /** Day of week for weekly reports, 0 = Sunday */
+  readonly weekday: number;
+}
+
+interface ReportState {
+  result: ReportResult | null;
+  schedules: ReportSchedule[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const REPORT_TEMPLATES: readonly ReportTemplate[] = [
+  { id: 'gmv', label: 'GMV', description: 'Gross merchandise value, orders and fees', icon: 'payments' },
+  {
+    id: 'order-funnel',
+    label: 'Order Funnel',
+    description: 'Listing views through bids and orders to delivery',
+    icon: 'filter_alt',
+  },
+  {
+    id: 'farmer-onboarding',
+    label: 'Farmer Onboarding',
+    description: 'Registrations, KYC and first listings',
+    icon: 'agriculture',
+  },
+  {
+    id: 'category-sales',
+    label: 'Category Sales',
+    description: 'Sales value and volume by crop category',
+    icon: 'category',
+  },
+  { id: 'dispute-sla', label: 'Dispute SLA', description: 'Dispute volume and resolution times', icon: 'gavel' },
+];
+
+export const REPORT_PERIODS: readonly { value: ReportPeriod; label: string }[] = [
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'This Week' },
+  { value: 'month', label: 'This Month' },
+  { value: 'quarter', label: 'This Quarter' },
+  { value: 'year', label: 'This Year' },
+  { value: 'custom', label: 'Custom Range' },
+];
+
+export const REPORT_STATES: readonly string[] = [
+  'Maharashtra',
+  'Uttar Pradesh',
+  'Madhya Pradesh',
+  'Karnataka',
+  'Punjab',
+  'Gujarat',
+  'Andhra Pradesh',
+  'Tamil Nadu',
+];
+
+export const REPORT_CATEGORIES: readonly string[] = ['Vegetables', 'Fruits', 'Grains', 'Pulses', 'Spices', 'Others'];
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** Disputes resolved within this many hours meet the SLA */
+export const DISPUTE_SLA_HOURS = 48;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Date range of a preset period, from its start up to now
+ */
+export function periodRange(period: Exclude<ReportPeriod, 'custom'>, now = new Date()): { from: Date; to: Date } {
+  const from = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  switch (period) {
+    case 'week':
+      // Weeks start on Monday
+      from.setDate(from.getDate() - ((from.getDay() + 6) % 7));
+      break;
+    case 'month':
+      from.setDate(1);
+      break;
+    case 'quarter':
+      from.setMonth(from.getMonth() - (from.getMonth() % 3), 1);
+      break;
+    case 'year':
+      from.setMonth(0, 1);
+      break;
+  }
+
+  return { from, to: now };
+}
+
+/**
+ * Display a report figure, e.g. ₹12,34,567, 42.5%, 18.2 h. PDFs pass
+ * "Rs. " as the built-in PDF fonts have no rupee glyph.
+ */
+export function formatReportValue(value: number, format: ReportValueFormat, rupee = '₹'): string {
+  switch (format) {
+    case 'currency':
+      return `${rupee}${Math.round(value).toLocaleString('en-IN')}`;
+    case 'percent':
+      return `${value.toLocaleString('en-IN', { maximumFractionDigits: 1 })}%`;
+    case 'hours':
+      return `${value.toLocaleString('en-IN', { maximumFractionDigits: 1 })} h`;
+    default:
+      return Math.round(value).toLocaleString('en-IN');
+  }
+}
+
+/**
+ * When a schedule next sends its report
+ */
+export function nextRunAt(schedule: ReportSchedule, now = new Date()): Date {
+  const next = new Date(now.getFullYear(), now.getMonth(), now.getDate(), schedule.hour);
+  if (schedule.frequency === 'weekly') {
+    next.setDate(next.getDate() + ((schedule.weekday - next.getDay() + 7) % 7));
+  }
+  if (next <= now) next.setDate(next.getDate() + (schedule.frequency === 'weekly' ? 7 : 1));
+  return next;
+}
+
+@Injectable({ providedIn: 'root' })
+export class ReportService {
+  private readonly http = inject(HttpClient);
+  private readonly apiUrl = `${environment.apiUrl}/admin/reports`;
+  /** Report still loading, dropped when filters change again */
+  private loading?: Subscription;
+
+  // ============================================
+  // State Signal
+  // ============================================
+
+  private readonly _state = signal<ReportState>({
+    result: null,
+    schedules: [],
+    isLoading: false,
+    error: null,
+  });
+
+  // ============================================
+  // Computed Signals
+  // ============================================
+
+  readonly result = computed(() => this._state().result);
+  readonly schedules = computed(() => this._state().schedules);
+  readonly isLoading = computed(() => this._state().isLoading);
+  readonly error = computed(() => this._state().error);
+
+  // ============================================
+  // Public Methods
+  // ============================================
+
+  loadReport(query: ReportQuery): void {
+    this.loading?.unsubscribe();
+    this.updateState({ isLoading: true, error: null });
+
+    if (!environment.production) {
+      this.loading = of(null)
+        .pipe(delay(500))
+        .subscribe(() => this.updateState({ result: buildMockReport(query, new Date()), isLoading: false }));
+      return;
+    }
+
+    let params = new HttpParams().set('from', query.from.toISOString()).set('to', query.to.toISOString());
+    if (query.state) params = params.set('state', query.state);
+    if (query.category) params = params.set('category', query.category);
+
+    this.loading = this.http
+      .get<ReportResult>(`${this.apiUrl}/${query.template}`, { params })
+      .pipe(
+        tap((result) => this.updateState({ result: reviveReport(result, query), isLoading: false })),
+        catchError((error) => {
+          this.updateState({ isLoading: false, error: 'Failed to load report' });
+          return throwError(() => error);
+        })
+      )
+      .subscribe();
+  }
+
+  loadSchedules(): void {
+    if (!environment.production) {
+      if (this._state().schedules.length === 0) {
+        of(this.getMockSchedules())
+          .pipe(delay(300))
+          .subscribe((schedules) => this.updateState({ schedules }));
+      }
+      return;
+    }
+
+    this.http
+      .get<ReportSchedule[]>(`${this.apiUrl}/schedules`)
+      .pipe(
+        tap((schedules) => this.updateState({ schedules })),
+        catchError((error) => {
+          this.updateState({ error: 'Failed to load report schedules' });
+          return throwError(() => error);
+        })
+      )
+      .subscribe();
+  }
+
+  schedule(frequency: ReportFrequency): ReportSchedule | undefined {
+    return this._state().schedules.find((s) => s.frequency === frequency);
+  }
+
+  saveSchedule(schedule: ReportSchedule): Observable<ReportSchedule> {
+    const request$ = environment.production
+      ? this.http.put<ReportSchedule>(`${this.apiUrl}/schedules/${schedule.frequency}`, schedule)
+      : of(schedule).pipe(delay(400));
+
+    return request$.pipe(
+      tap((saved) =>
+        this.updateState({
+          schedules: this._state().schedules.map((s) => (s.frequency === saved.frequency ? saved : s)),
+        })
+      )
+    );
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private updateState(partial: Partial<ReportState>): void {
+    this._state.update((state) => ({ ...state, ...partial }));
+  }
+
+  private getMockSchedules(): ReportSchedule[] {
+    return [
+      {
+        frequency: 'daily',
+        enabled: false,
+        templates: ['gmv', 'order-funnel'],
+        format: 'pdf',
+        recipients: ['ops@smartmandi.com'],
+        hour: 7,
+        weekday: 1,
+      },
+      {
+        frequency: 'weekly',
+        enabled: true,
+        templates: ['gmv', 'farmer-onboarding', 'category-sales', 'dispute-sla'],
+        format: 'xlsx',
+        recipients: ['admin@smartmandi.com', 'ops@smartmandi.com'],
+        hour: 8,
+        weekday: 1,
+      },
+    ];
+  }
+}
+
+// ============================================
+// Mock Reports
+// ============================================
+// Figures are drawn per state × category × time bucket from a seeded
+// generator, so the same query always gives the same report and the
+// breakdown rows add up to the totals.
+
+type Totals = Record<string, number>;
+
+interface ValueSpec {
+  readonly label: string;
+  readonly format: ReportValueFormat;
+  /** `all` holds the totals of the whole report, for shares */
+  readonly value: (t: Totals, all: Totals) => number;
+}
+
+interface TemplateSpec {
+  /** Order filters are drilled into */
+  readonly drill: ('state' | 'category')[];
+  /** Platform-wide amount per day */
+  readonly measures: Totals;
+  readonly metrics: (ValueSpec & { readonly icon: string; readonly invert?: boolean })[];
+  readonly columns: ValueSpec[];
+  readonly trend: { readonly title: string; readonly measures: { id: string; label: string }[] };
+  readonly detail:
+    | { readonly kind: 'share'; readonly title: string; readonly measure: string }
+    | { readonly kind: 'stages'; readonly title: string; readonly stages: { id: string; label: string }[] };
+}
+
+const STATE_WEIGHTS = [0.22, 0.17, 0.14, 0.12, 0.1, 0.1, 0.08, 0.07];
+const CATEGORY_WEIGHTS = [0.31, 0.27, 0.18, 0.12, 0.08, 0.04];
+
+const ratio = (a: number, b: number, scale = 1) => (b > 0 ? (a / b) * scale : 0);
+
+const TEMPLATE_SPECS: Record<ReportTemplateId, TemplateSpec> = {
+  gmv: {
+    drill: ['state', 'category'],
+    measures: { gmv: 1_850_000, orders: 410, fees: 74_000 },
+    metrics: [
+      { label: 'GMV', icon: 'payments', format: 'currency', value: (t) => t['gmv'] },
+      { label: 'Orders', icon: 'shopping_cart', format: 'number', value: (t) => t['orders'] },
+      { label: 'Avg Order Value', icon: 'receipt_long', format: 'currency', value: (t) => ratio(t['gmv'], t['orders']) },
+      { label: 'Platform Fees', icon: 'account_balance', format: 'currency', value: (t) => t['fees'] },
+    ],
+    columns: [
+      { label: 'GMV', format: 'currency', value: (t) => t['gmv'] },
+      { label: 'Orders', format: 'number', value: (t) => t['orders'] },
+      { label: 'Avg Order Value', format: 'currency', value: (t) => ratio(t['gmv'], t['orders']) },
+      { label: 'Share', format: 'percent', value: (t, all) => ratio(t['gmv'], all['gmv'], 100) },
+    ],
+    trend: { title: 'GMV Trend', measures: [{ id: 'gmv', label: 'GMV (₹)' }] },
+    detail: { kind: 'share', title: 'GMV Share', measure: 'gmv' },
+  },
+  'order-funnel': {
+    drill: ['state', 'category'],
+    measures: { views: 12_400, bids: 1_850, orders: 410, delivered: 372 },
+    metrics: [
+      { label: 'Orders Placed', icon: 'shopping_cart', format: 'number', value: (t) => t['orders'] },
+      { label: 'View to Order', icon: 'visibility', format: 'percent', value: (t) => ratio(t['orders'], t['views'], 100) },
+      { label: 'Bid to Order', icon: 'gavel', format: 'percent', value: (t) => ratio(t['orders'], t['bids'], 100) },
+      {
+        label: 'Delivery Rate',
+        icon: 'local_shipping',
+        format: 'percent',
+        value: (t) => ratio(t['delivered'], t['orders'], 100),
+      },
+    ],
+    columns: [
+      { label: 'Views', format: 'number', value: (t) => t['views'] },
+      { label: 'Bids', format: 'number', value: (t) => t['bids'] },
+      { label: 'Orders', format: 'number', value: (t) => t['orders'] },
+      { label: 'Delivered', format: 'number', value: (t) => t['delivered'] },
+      { label: 'Conversion', format: 'percent', value: (t) => ratio(t['orders'], t['views'], 100) },
+    ],
+    trend: {
+      title: 'Orders Placed vs Delivered',
+      measures: [
+        { id: 'orders', label: 'Placed' },
+        { id: 'delivered', label: 'Delivered' },
+      ],
+    },
+    detail: {
+      kind: 'stages',
+      title: 'Funnel',
+      stages: [
+        { id: 'views', label: 'Listing views' },
+        { id: 'bids', label: 'Bids' },
+        { id: 'orders', label: 'Orders' },
+        { id: 'delivered', label: 'Delivered' },
+      ],
+    },
+  },
+  'farmer-onboarding': {
+    drill: ['state', 'category'],
+    measures: { registered: 38, verified: 29, listed: 21 },
+    metrics: [
+      { label: 'New Farmers', icon: 'person_add', format: 'number', value: (t) => t['registered'] },
+      { label: 'KYC Verified', icon: 'verified', format: 'number', value: (t) => t['verified'] },
+      { label: 'Listed First Crop', icon: 'inventory_2', format: 'number', value: (t) => t['listed'] },
+      {
+        label: 'Activation Rate',
+        icon: 'rocket_launch',
+        format: 'percent',
+        value: (t) => ratio(t['listed'], t['registered'], 100),
+      },
+    ],
+    columns: [
+      { label: 'Registered', format: 'number', value: (t) => t['registered'] },
+      { label: 'KYC Verified', format: 'number', value: (t) => t['verified'] },
+      { label: 'Listed', format: 'number', value: (t) => t['listed'] },
+      { label: 'Activation', format: 'percent', value: (t) => ratio(t['listed'], t['registered'], 100) },
+    ],
+    trend: {
+      title: 'Registrations',
+      measures: [
+        { id: 'registered', label: 'Registered' },
+        { id: 'verified', label: 'KYC verified' },
+      ],
+    },
+    detail: { kind: 'share', title: 'New Farmers', measure: 'registered' },
+  },
+  'category-sales': {
+    drill: ['category', 'state'],
+    measures: { gmv: 1_850_000, quantity: 960, orders: 410 },
+    metrics: [
+      { label: 'Sales Value', icon: 'payments', format: 'currency', value: (t) => t['gmv'] },
+      { label: 'Quantity (qtl)', icon: 'scale', format: 'number', value: (t) => t['quantity'] },
+      { label: 'Orders', icon: 'shopping_cart', format: 'number', value: (t) => t['orders'] },
+      { label: 'Avg Price / qtl', icon: 'sell', format: 'currency', value: (t) => ratio(t['gmv'], t['quantity']) },
+    ],
+    columns: [
+      { label: 'Sales Value', format: 'currency', value: (t) => t['gmv'] },
+      { label: 'Quantity (qtl)', format: 'number', value: (t) => t['quantity'] },
+      { label: 'Orders', format: 'number', value: (t) => t['orders'] },
+      { label: 'Avg Price / qtl', format: 'currency', value: (t) => ratio(t['gmv'], t['quantity']) },
+      { label: 'Share', format: 'percent', value: (t, all) => ratio(t['gmv'], all['gmv'], 100) },
+    ],
+    trend: { title: 'Sales Value Trend', measures: [{ id: 'gmv', label: 'Sales value (₹)' }] },
+    detail: { kind: 'share', title: 'Sales Share', measure: 'gmv' },
+  },
+  'dispute-sla': {
+    drill: ['state', 'category'],
+    measures: { opened: 8.5, resolved: 7.8, withinSla: 6.6, resolutionHours: 250 },
+    metrics: [
+      { label: 'Disputes Opened', icon: 'report_problem', format: 'number', value: (t) => t['opened'] },
+      { label: 'Resolved', icon: 'task_alt', format: 'number', value: (t) => t['resolved'] },
+      {
+        label: `Within ${DISPUTE_SLA_HOURS}h SLA`,
+        icon: 'timer',
+        format: 'percent',
+        value: (t) => ratio(t['withinSla'], t['resolved'], 100),
+      },
+      {
+        label: 'Avg Resolution',
+        icon: 'hourglass_bottom',
+        format: 'hours',
+        value: (t) => ratio(t['resolutionHours'], t['resolved']),
+        invert: true,
+      },
+    ],
+    columns: [
+      { label: 'Opened', format: 'number', value: (t) => t['opened'] },
+      { label: 'Resolved', format: 'number', value: (t) => t['resolved'] },
+      { label: 'Within SLA', format: 'percent', value: (t) => ratio(t['withinSla'], t['resolved'], 100) },
+      { label: 'Avg Resolution', format: 'hours', value: (t) => ratio(t['resolutionHours'], t['resolved']) },
+    ],
+    trend: {
+      title: 'Opened vs Resolved',
+      measures: [
+        { id: 'opened', label: 'Opened' },
+        { id: 'resolved', label: 'Resolved' },
+      ],
+    },
+    detail: { kind: 'share', title: 'Disputes Opened', measure: 'opened' },
+  },
+};
+
+interface Bucket {
+  readonly start: Date;
+  readonly label: string;
+  /** Length in days */
+  readonly days: number;
+}
+
+/** JSON dates arrive as strings */
+function reviveReport(result: ReportResult, query: ReportQuery): ReportResult {
+  return { ...result, query, generatedAt: new Date(result.generatedAt) };
+}
+
+function buildMockReport(query: ReportQuery, generatedAt: Date): ReportResult {
+  const spec = TEMPLATE_SPECS[query.template];
+  const states = query.state ? [query.state] : REPORT_STATES;
+  const categories = query.category ? [query.category] : REPORT_CATEGORIES;
+  const buckets = timeBuckets(query.from, query.to);
+
+  const span = query.to.getTime() - query.from.getTime();
+  const previous = timeBuckets(new Date(query.from.getTime() - span), query.from);
+
+  // Totals per breakdown key, plus per bucket for the trend
+  const dimension: ReportDimension =
+    spec.drill.find((d) => (d === 'state' ? !query.state : !query.category)) ?? 'date';
+  const byKey = new Map<string, Totals>();
+  const byBucket = buckets.map(() => emptyTotals(spec));
+  const total = emptyTotals(spec);
+  const previousTotal = emptyTotals(spec);
+  const previousByBucket = previous.map(() => emptyTotals(spec));
+
+  for (const state of states) {
+    for (const category of categories) {
+      buckets.forEach((bucket, i) => {
+        const key = dimension === 'state' ? state : dimension === 'category' ? category : bucket.start.toISOString();
+        const row = byKey.get(key) ?? emptyTotals(spec);
+        byKey.set(key, row);
+        addCell(spec, state, category, bucket, [row, byBucket[i], total]);
+      });
+      previous.forEach((bucket, i) => addCell(spec, state, category, bucket, [previousTotal, previousByBucket[i]]));
+    }
+  }
+
+  const metrics: ReportMetric[] = spec.metrics.map((metric) => {
+    const value = metric.value(total, total);
+    const before = metric.value(previousTotal, previousTotal);
+    return {
+      label: metric.label,
+      icon: metric.icon,
+      format: metric.format,
+      value: round(value, metric.format),
+      change: before > 0 ? Math.round(((value - before) / before) * 1000) / 10 : null,
+      invert: metric.invert,
+    };
+  });
+
+  const trendMeasures = spec.trend.measures;
+  const trend: ReportChart = {
+    title: spec.trend.title,
+    type: buckets.length > 1 ? 'line' : 'bar',
+    points: [],
+    series: {
+      labels: buckets.map((b) => b.label),
+      datasets: [
+        ...trendMeasures.map((m) => ({ label: m.label, data: byBucket.map((t) => Math.round(t[m.id])) })),
+        // Compare the first measure with the period before
+        {
+          label: `${trendMeasures[0].label}, previous period`,
+          data: buckets.map((_, i) => Math.round(previousByBucket[i]?.[trendMeasures[0].id] ?? 0)),
+          borderColor: '#9e9e9e',
+          backgroundColor: 'transparent',
+          borderDash: [6, 4],
+          fill: false,
+          pointRadius: 0,
+        },
+      ],
+    },
+  };
+
+  const rows = [...byKey.entries()].map(([key, totals]) => ({
+    key,
+    label: dimension === 'date' ? buckets.find((b) => b.start.toISOString() === key)!.label : key,
+    values: spec.columns.map((column) => round(column.value(totals, total), column.format)),
+    totals,
+  }));
+  if (dimension !== 'date') rows.sort((a, b) => b.values[0] - a.values[0]);
+
+  const detail = spec.detail;
+  const detailChart: ReportChart =
+    detail.kind === 'stages'
+      ? {
+          title: detail.title,
+          type: 'bar',
+          points: [],
+          series: {
+            labels: detail.stages.map((s) => s.label),
+            datasets: [{ label: 'Count', data: detail.stages.map((s) => Math.round(total[s.id])) }],
+          },
+        }
+      : {
+          title: dimension === 'date' ? detail.title : `${detail.title} by ${dimension}`,
+          type: 'doughnut',
+          series: null,
+          points: rows.slice(0, 8).map((row) => ({ label: row.label, value: Math.round(row.totals[detail.measure]) })),
+        };
+
+  return {
+    query,
+    generatedAt,
+    metrics,
+    charts: [trend, detailChart],
+    breakdown: {
+      dimension,
+      columns: spec.columns.map((c) => ({ label: c.label, format: c.format })),
+      rows: rows.map(({ key, label, values }) => ({ key, label, values })),
+      total: spec.columns.map((column) => round(column.value(total, total), column.format)),
+    },
+  };
+}
+
+/** Hours for a day, days up to six weeks, weeks up to ~6 months, then months */
+function timeBuckets(from: Date, to: Date): Bucket[] {
+  const days = (to.getTime() - from.getTime()) / DAY_MS;
+  const buckets: Bucket[] = [];
+  const dayLabel = (d: Date) => d.toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+
+  let start = new Date(from);
+  while (start < to) {
+    const next = new Date(start);
+    let label: string;
+    if (days <= 1) {
+      next.setHours(start.getHours() + 1, 0, 0, 0);
+      label = `${start.getHours().toString().padStart(2, '0')}:00`;
+    } else if (days <= 45) {
+      next.setDate(start.getDate() + 1);
+      next.setHours(0, 0, 0, 0);
+      label = dayLabel(start);
+    } else if (days <= 190) {
+      next.setDate(start.getDate() + 7);
+      next.setHours(0, 0, 0, 0);
+      label = dayLabel(start);
+    } else {
+      next.setMonth(start.getMonth() + 1, 1);
+      next.setHours(0, 0, 0, 0);
+      label = start.toLocaleDateString('en-IN', { month: 'short', year: '2-digit' });
+    }
+
+    const end = next < to ? next : to;
+    buckets.push({ start, label, days: (end.getTime() - start.getTime()) / DAY_MS });
+    start = next;
+  }
+  return buckets;
+}
+
+function addCell(spec: TemplateSpec, state: string, category: string, bucket: Bucket, into: Totals[]): void {
+  const weight =
+    (STATE_WEIGHTS[REPORT_STATES.indexOf(state)] ?? 0.05) *
+    (CATEGORY_WEIGHTS[REPORT_CATEGORIES.indexOf(category)] ?? 0.05);
+  const seed = `${state}|${category}|${bucket.start.getTime()}`;
+  // Slow growth through the year plus noise shared by a cell's measures
+  const growth = 1 + (bucket.start.getMonth() + bucket.start.getDate() / 31) * 0.02;
+  const base = weight * bucket.days * growth * (0.75 + 0.5 * seeded(seed));
+
+  for (const [id, daily] of Object.entries(spec.measures)) {
+    const value = daily * base * (0.97 + 0.06 * seeded(`${seed}|${id}`));
+    for (const totals of into) totals[id] += value;
+  }
+}
+
+function emptyTotals(spec: TemplateSpec): Totals {
+  return Object.fromEntries(Object.keys(spec.measures).map((id) => [id, 0]));
+}
+
+function round(value: number, format: ReportValueFormat): number {
+  return format === 'percent' || format === 'hours' ? Math.round(value * 10) / 10 : Math.round(value);
+}
+
+/** Deterministic number in [0, 1) for a string */
+function seeded(key: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < key.length; i++) h = Math.imul(h ^ key.charCodeAt(i), 16777619);
+  h = Math.imul(h ^ (h >>> 15), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
@@ -0,0 +1,27 @@
+import { Routes } from '@angular/router';
+
+/**
+ * Cart Feature Routes
+ * ===================
+ * Routes for the buyer shopping cart and checkout.
+ *
+ * URL Structure:
+ * - /cart          → Cart grouped by farmer
+ * - /cart/checkout → Multi-step checkout (one order per farmer)
+ */
+export const CART_ROUTES: Routes = [
+  {
+    path: '',
+    loadComponent: () =>
+      import('./pages/cart/cart.component').then((m) => m.CartComponent),
+    title: 'Cart | Smart Mandi Connect',
+  },
+  {
+    path: 'checkout',
+    loadComponent: () =>
+      import('./pages/checkout/checkout.component').then(
+        (m) => m.CheckoutComponent
+      ),
+    title: 'Checkout | Smart Mandi Connect',
+  },
+];
@@ -2,6 +2,12 @@
  * Cart Feature Public API
  */
 
+// Routes
+export * from './cart.routes';
+
+// Services
+export * from './services';
+
+// Pages
 export * from './pages/cart/cart.component';
 export * from './pages/checkout/checkout.component';
-
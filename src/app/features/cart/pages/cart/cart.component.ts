@@ -1,21 +1,108 @@
 /**
  * Cart Page Component
+ * ===================
+ * Shows cart items grouped by farmer with quantity editing,
+ * stock validation and a summary leading to checkout.
  */
 
-import { Component, ChangeDetectionStrategy } from '@angular/core';
+import { Component, ChangeDetectionStrategy, inject, OnInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { RouterLink } from '@angular/router';
+import { Router, RouterLink } from '@angular/router';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatDividerModule } from '@angular/material/divider';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+
+import { CartService, CartItem } from '../../services/cart.service';
+import { LocaleCurrencyPipe } from '@shared/pipes/locale-currency.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
 
 @Component({
   selector: 'smc-cart',
   standalone: true,
-  imports: [CommonModule, RouterLink, MatCardModule, MatButtonModule, MatIconModule],
+  imports: [
+    CommonModule,
+    RouterLink,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatTooltipModule,
+    MatDividerModule,
+    MatProgressBarModule,
+    LocaleCurrencyPipe,
+    TranslatePipe,
+  ],
   templateUrl: './cart.component.html',
   styleUrl: './cart.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
-export class CartComponent {}
+export class CartComponent implements OnInit {
+  private readonly cartService = inject(CartService);
+  private readonly router = inject(Router);
+
+  // ============================================
+  // Expose Service Signals
+  // ============================================
+
+  readonly farmerGroups = this.cartService.farmerGroups;
+  readonly itemCount = this.cartService.itemCount;
+  readonly isEmpty = this.cartService.isEmpty;
+  readonly isRefreshing = this.cartService.isRefreshing;
+  readonly issues = this.cartService.issues;
+  readonly hasIssues = this.cartService.hasIssues;
+  readonly canCheckout = this.cartService.canCheckout;
+  readonly subtotal = this.cartService.subtotal;
+  readonly platformFee = this.cartService.platformFee;
+  readonly total = this.cartService.total;
+
+  // ============================================
+  // Lifecycle
+  // ============================================
+
+  ngOnInit(): void {
+    this.cartService.refreshAvailability();
+  }
+
+  // ============================================
+  // Item Actions
+  // ============================================
+
+  lineTotal(item: CartItem): number {
+    return this.cartService.lineTotal(item);
+  }
+
+  decreaseQuantity(item: CartItem): void {
+    this.cartService.updateQuantity(item.cropId, Math.max(1, item.quantity - 1));
+  }
+
+  increaseQuantity(item: CartItem): void {
+    this.cartService.updateQuantity(item.cropId, item.quantity + 1);
+  }
+
+  onQuantityInput(item: CartItem, event: Event): void {
+    const value = Number((event.target as HTMLInputElement).value);
+    if (Number.isFinite(value) && value > 0) {
+      this.cartService.updateQuantity(item.cropId, Math.floor(value));
+    }
+  }
+
+  removeItem(item: CartItem): void {
+    this.cartService.removeItem(item.cropId);
+  }
+
+  clearCart(): void {
+    this.cartService.clear();
+  }
+
+  // ============================================
+  // Navigation
+  // ============================================
 
+  proceedToCheckout(): void {
+    if (this.canCheckout()) {
+      this.router.navigate(['/cart/checkout']);
+    }
+  }
+}
@@ -1,19 +1,266 @@
 /**
  * Checkout Page Component
+ * =======================
+ * Multi-step checkout: review cart, delivery address, payment.
+ * The address is one of the saved addresses (the default preselected) or
+ * a new one, optionally saved to the address book. Submits one order per
+ * farmer through CartService.
  */
 
-import { Component, ChangeDetectionStrategy } from '@angular/core';
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  signal,
+  computed,
+  effect,
+  OnInit,
+  DestroyRef,
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { Router, RouterLink } from '@angular/router';
+import { ReactiveFormsModule, FormBuilder, Validators } from '@angular/forms';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatStepperModule } from '@angular/material/stepper';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatRadioModule } from '@angular/material/radio';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatDividerModule } from '@angular/material/divider';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+import { AuthService } from '@core/services/auth.service';
+import { DeliveryAddress, PaymentMethod } from '@domain/models/order.model';
+import {
+  Address,
+  AddressService,
+  formatAddressLine,
+  toDeliveryAddress,
+} from '@features/profile/services/address.service';
+import { lookupPincode, pincodeValidator } from '@features/profile/services/pincode-directory';
+import { CartService, CheckoutError, PlacedOrder } from '../../services/cart.service';
+import { LocaleCurrencyPipe } from '@shared/pipes/locale-currency.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
+
+/** Address choice for entering a new address */
+const NEW_ADDRESS = 'new';
+
+/** Payment options offered at checkout */
+const PAYMENT_OPTIONS: { value: PaymentMethod; label: string; icon: string }[] = [
+  { value: PaymentMethod.UPI, label: 'UPI', icon: 'qr_code_2' },
+  { value: PaymentMethod.NET_BANKING, label: 'Net Banking', icon: 'account_balance' },
+  { value: PaymentMethod.CARD, label: 'Debit / Credit Card', icon: 'credit_card' },
+  { value: PaymentMethod.CASH_ON_DELIVERY, label: 'Cash on Delivery', icon: 'payments' },
+];
 
 @Component({
   selector: 'smc-checkout',
   standalone: true,
-  imports: [CommonModule, MatCardModule, MatButtonModule],
+  imports: [
+    CommonModule,
+    RouterLink,
+    ReactiveFormsModule,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatStepperModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatRadioModule,
+    MatCheckboxModule,
+    MatDividerModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+    LocaleCurrencyPipe,
+    TranslatePipe,
+  ],
   templateUrl: './checkout.component.html',
   styleUrl: './checkout.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
-export class CheckoutComponent {}
+export class CheckoutComponent implements OnInit {
+  private readonly cartService = inject(CartService);
+  private readonly authService = inject(AuthService);
+  private readonly addressService = inject(AddressService);
+  private readonly fb = inject(FormBuilder);
+  private readonly router = inject(Router);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly destroyRef = inject(DestroyRef);
+
+  // ============================================
+  // Expose Service Signals
+  // ============================================
+
+  readonly farmerGroups = this.cartService.farmerGroups;
+  readonly issues = this.cartService.issues;
+  readonly canCheckout = this.cartService.canCheckout;
+  readonly isSubmitting = this.cartService.isSubmitting;
+  readonly subtotal = this.cartService.subtotal;
+  readonly platformFee = this.cartService.platformFee;
+  readonly total = this.cartService.total;
+  readonly savedAddresses = this.addressService.addresses;
+
+  // ============================================
+  // Local State
+  // ============================================
+
+  readonly paymentOptions = PAYMENT_OPTIONS;
+  readonly NEW_ADDRESS = NEW_ADDRESS;
+  readonly formatAddressLine = formatAddressLine;
+
+  /** Saved address id or NEW_ADDRESS; null (a new address) until the address book loads */
+  readonly selectedAddressId = signal<string | null>(null);
+
+  readonly selectedAddress = computed<Address | null>(
+    () => this.savedAddresses().find((a) => a.id === this.selectedAddressId()) ?? null
+  );
+
+  /** Add a new address to the address book when the order is placed */
+  readonly saveNewAddress = signal(true);
+
+  /** Orders created by a successful checkout */
+  readonly placedOrders = signal<PlacedOrder[]>([]);
+  /** Placed by attempts that then failed on another farmer's order */
+  private readonly earlierOrders: PlacedOrder[] = [];
+
+  readonly addressForm = this.fb.nonNullable.group({
+    fullName: ['', [Validators.required, Validators.maxLength(100)]],
+    phoneNumber: ['', [Validators.required, Validators.pattern(/^[6-9]\d{9}$/)]],
+    addressLine1: ['', [Validators.required, Validators.maxLength(200)]],
+    addressLine2: [''],
+    landmark: [''],
+    city: ['', [Validators.required]],
+    state: ['', [Validators.required]],
+    pincode: ['', [Validators.required, pincodeValidator]],
+  });
+
+  readonly paymentForm = this.fb.nonNullable.group({
+    paymentMethod: [PaymentMethod.UPI, [Validators.required]],
+    notes: ['', [Validators.maxLength(500)]],
+  });
+
+  constructor() {
+    // Preselect the default address once the book has loaded
+    effect(() => {
+      const addresses = this.savedAddresses();
+      if (this.selectedAddressId() !== null || !this.addressService.isLoaded()) return;
+      this.selectAddress(this.addressService.defaultAddress()?.id ?? addresses[0]?.id ?? NEW_ADDRESS);
+    });
+
+    this.addressForm.controls.pincode.valueChanges
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe((pincode) => this.fillFromPincode(pincode));
+  }
+
+  // ============================================
+  // Lifecycle
+  // ============================================
+
+  ngOnInit(): void {
+    if (this.cartService.isEmpty()) {
+      this.router.navigate(['/cart']);
+      return;
+    }
+
+    const user = this.authService.currentUser();
+    if (user) {
+      this.addressForm.patchValue({
+        fullName: user.fullName,
+        phoneNumber: user.profile?.phoneNumber ?? '',
+      });
+    }
+  }
+
+  // ============================================
+  // Actions
+  // ============================================
+
+  /** A saved address needs no form, so the form only counts for a new one */
+  selectAddress(id: string): void {
+    this.selectedAddressId.set(id);
+    if (id === NEW_ADDRESS) {
+      this.addressForm.enable();
+    } else {
+      this.addressForm.disable();
+    }
+  }
+
+  placeOrder(): void {
+    if (this.addressForm.invalid || this.paymentForm.invalid || !this.canCheckout()) {
+      this.addressForm.markAllAsTouched();
+      this.paymentForm.markAllAsTouched();
+      return;
+    }
+
+    const saved = this.selectedAddress();
+    const deliveryAddress = saved ? toDeliveryAddress(saved) : this.formAddress();
+    const { paymentMethod, notes } = this.paymentForm.getRawValue();
+
+    this.cartService
+      .checkout(deliveryAddress, paymentMethod, notes)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (orders) => {
+          this.placedOrders.set([...this.earlierOrders, ...orders]);
+          if (!saved && this.saveNewAddress()) this.addToAddressBook(deliveryAddress);
+          this.snackBar.open(
+            this.cartService.successMessage() ?? 'Order placed successfully!',
+            'View Orders',
+            { duration: 5000 }
+          ).onAction().subscribe(() => this.router.navigate(['/orders']));
+        },
+        error: (error) => {
+          // Orders placed before the failure have left the cart; retrying sends the rest
+          if (error instanceof CheckoutError) this.earlierOrders.push(...error.placed);
+          this.snackBar
+            .open(this.cartService.error() ?? 'Failed to place order', 'Retry', { duration: 5000 })
+            .onAction()
+            .subscribe(() => this.placeOrder());
+        },
+      });
+  }
+
+  getErrorMessage(field: keyof typeof this.addressForm.controls): string {
+    const control = this.addressForm.controls[field];
+    if (control.hasError('required')) return 'This field is required';
+    if (control.hasError('pincode')) return 'Enter a valid Indian pincode';
+    if (control.hasError('pattern')) return 'Enter a valid 10-digit mobile number';
+    if (control.hasError('maxlength')) return 'Too long';
+    return '';
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private formAddress(): DeliveryAddress {
+    const address = this.addressForm.getRawValue();
+    return {
+      ...address,
+      addressLine2: address.addressLine2 || undefined,
+      landmark: address.landmark || undefined,
+    };
+  }
+
+  /** Fill in what the pincode tells us, keeping a city the user typed */
+  private fillFromPincode(pincode: string): void {
+    const info = lookupPincode(pincode);
+    if (!info) return;
+
+    this.addressForm.controls.state.setValue(info.state);
+    const city = this.addressForm.controls.city;
+    if (info.city && (!city.value || !city.dirty)) city.setValue(info.city);
+  }
 
+  /** Best effort; the order is already placed */
+  private addToAddressBook(address: DeliveryAddress): void {
+    const { phoneNumber, ...rest } = address;
+    this.addressService
+      .create({ ...rest, phone: phoneNumber, label: address.city, type: 'other' })
+      .subscribe({ error: () => undefined });
+  }
+}
@@ -0,0 +1,447 @@
+/**
+ * Cart Service
+ * ============
+ * Signals-based shopping cart for buyers.
+ * Persists line items across reloads, groups them by farmer,
+ * validates quantities against stock and submits one order per farmer.
+ */
+
+import { Injectable, inject, signal, computed, effect } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, of, from, delay, tap, catchError, throwError, concatMap, toArray, map } from 'rxjs';
+import { environment } from '@environments/environment';
+import {
+  CreateOrderDto,
+  DeliveryAddress,
+  PaymentMethod,
+} from '@domain/models/order.model';
+import { QualityGrade } from '@features/marketplace/services/marketplace.service';
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+/** Cart line item with a price snapshot taken when it was added */
+export interface CartItem {
+  readonly cropId: string;
+  readonly cropName: string;
+  readonly cropImage: string;
+  readonly farmerId: string;
+  readonly farmerName: string;
+  readonly farmerLocation: string;
+  readonly qualityGrade: QualityGrade;
+  readonly quantity: number;
+  readonly unit: string;
+  readonly pricePerUnit: number;
+  readonly availableQuantity: number;
+  readonly minOrderQuantity: number;
+  readonly addedAt: string;
+}
+
+/** Input for adding a crop to the cart */
+export type AddToCartDto = Omit<CartItem, 'addedAt'>;
+
+/** Cart items belonging to a single farmer (becomes one order) */
+export interface CartFarmerGroup {
+  readonly farmerId: string;
+  readonly farmerName: string;
+  readonly farmerLocation: string;
+  readonly items: CartItem[];
+  readonly subtotal: number;
+  readonly platformFee: number;
+  readonly total: number;
+}
+
+/** Latest stock figures for a crop in the cart */
+export interface CartAvailability {
+  readonly cropId: string;
+  readonly availableQuantity: number;
+  readonly minOrderQuantity: number;
+}
+
+/** Order created for one farmer group during checkout */
+export interface PlacedOrder {
+  readonly farmerId: string;
+  readonly farmerName: string;
+  readonly orderId: string;
+}
+
+/**
+ * Raised when checkout stops at a farmer's order; the orders placed
+ * before it have already left the cart
+ */
+export class CheckoutError extends Error {
+  constructor(readonly placed: PlacedOrder[], readonly failedFarmerName: string) {
+    super(`The order from ${failedFarmerName} could not be placed`);
+    this.name = 'CheckoutError';
+  }
+}
+
+interface CartState {
+  items: CartItem[];
+  isRefreshing: boolean;
+  isSubmitting: boolean;
+  error: string | null;
+  successMessage: string | null;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Storage key for persisted cart items */
+const CART_STORAGE_KEY = 'smc_cart';
+
+/** Platform fee charged per order (matches instant buy) */
+export const PLATFORM_FEE_RATE = 0.02;
+
+@Injectable({ providedIn: 'root' })
+export class CartService {
+  private readonly http = inject(HttpClient);
+  private readonly apiUrl = environment.apiUrl;
+
+  // ============================================
+  // State Signal
+  // ============================================
+
+  private readonly _state = signal<CartState>({
+    items: this.loadItemsFromStorage(),
+    isRefreshing: false,
+    isSubmitting: false,
+    error: null,
+    successMessage: null,
+  });
+
+  // ============================================
+  // Computed Signals
+  // ============================================
+
+  readonly items = computed(() => this._state().items);
+  readonly isRefreshing = computed(() => this._state().isRefreshing);
+  readonly isSubmitting = computed(() => this._state().isSubmitting);
+  readonly error = computed(() => this._state().error);
+  readonly successMessage = computed(() => this._state().successMessage);
+
+  /** Number of line items (used for the cart badge) */
+  readonly itemCount = computed(() => this._state().items.length);
+
+  /** Cart is empty */
+  readonly isEmpty = computed(() => this._state().items.length === 0);
+
+  /** Items grouped by farmer, one group per resulting order */
+  readonly farmerGroups = computed<CartFarmerGroup[]>(() => {
+    const groups = new Map<string, CartItem[]>();
+    for (const item of this._state().items) {
+      groups.set(item.farmerId, [...(groups.get(item.farmerId) ?? []), item]);
+    }
+
+    return Array.from(groups.values()).map((items) => {
+      const subtotal = items.reduce((sum, i) => sum + this.lineTotal(i), 0);
+      const platformFee = Math.round(subtotal * PLATFORM_FEE_RATE);
+      return {
+        farmerId: items[0].farmerId,
+        farmerName: items[0].farmerName,
+        farmerLocation: items[0].farmerLocation,
+        items,
+        subtotal,
+        platformFee,
+        total: subtotal + platformFee,
+      };
+    });
+  });
+
+  /** Sum of all line totals */
+  readonly subtotal = computed(() =>
+    this.farmerGroups().reduce((sum, g) => sum + g.subtotal, 0)
+  );
+
+  /** Sum of platform fees across orders */
+  readonly platformFee = computed(() =>
+    this.farmerGroups().reduce((sum, g) => sum + g.platformFee, 0)
+  );
+
+  /** Grand total across orders */
+  readonly total = computed(() => this.subtotal() + this.platformFee());
+
+  /** Validation problems keyed by crop ID */
+  readonly issues = computed(() => {
+    const issues: Record<string, string> = {};
+    for (const item of this._state().items) {
+      const issue = this.validateItem(item);
+      if (issue) issues[item.cropId] = issue;
+    }
+    return issues;
+  });
+
+  /** Cart has items that cannot be ordered as-is */
+  readonly hasIssues = computed(() => Object.keys(this.issues()).length > 0);
+
+  /** Cart can proceed to checkout */
+  readonly canCheckout = computed(() => !this.isEmpty() && !this.hasIssues());
+
+  // ============================================
+  // Constructor
+  // ============================================
+
+  constructor() {
+    // Persist items whenever they change
+    effect(() => {
+      this.saveItemsToStorage(this._state().items);
+    });
+  }
+
+  // ============================================
+  // Public Methods
+  // ============================================
+
+  /**
+   * Add a crop to the cart, merging quantities for existing lines
+   */
+  addItem(dto: AddToCartDto): void {
+    const existing = this.getItem(dto.cropId);
+
+    if (existing) {
+      this.updateItem(dto.cropId, {
+        ...dto,
+        quantity: existing.quantity + dto.quantity,
+      });
+    } else {
+      this.updateState({
+        items: [
+          ...this._state().items,
+          { ...dto, addedAt: new Date().toISOString() },
+        ],
+      });
+    }
+
+    this.updateState({ successMessage: `${dto.cropName} added to cart` });
+  }
+
+  /**
+   * Change the quantity of a line item
+   */
+  updateQuantity(cropId: string, quantity: number): void {
+    if (quantity <= 0) {
+      this.removeItem(cropId);
+      return;
+    }
+    this.updateItem(cropId, { quantity });
+  }
+
+  /**
+   * Remove a line item
+   */
+  removeItem(cropId: string): void {
+    this.updateState({
+      items: this._state().items.filter((i) => i.cropId !== cropId),
+    });
+  }
+
+  /**
+   * Remove all items
+   */
+  clear(): void {
+    this.updateState({ items: [] });
+  }
+
+  /**
+   * Find a line item by crop ID
+   */
+  getItem(cropId: string): CartItem | undefined {
+    return this._state().items.find((i) => i.cropId === cropId);
+  }
+
+  /**
+   * Line total using the price snapshot
+   */
+  lineTotal(item: CartItem): number {
+    return item.quantity * item.pricePerUnit;
+  }
+
+  /**
+   * Re-fetch stock figures so validation reflects the current listing
+   */
+  refreshAvailability(): void {
+    const items = this._state().items;
+    if (items.length === 0) return;
+
+    this.updateState({ isRefreshing: true, error: null });
+
+    if (!environment.production) {
+      of(null)
+        .pipe(delay(500))
+        .subscribe(() => this.updateState({ isRefreshing: false }));
+      return;
+    }
+
+    this.http
+      .get<CartAvailability[]>(`${this.apiUrl}/marketplace/crops/availability`, {
+        params: { ids: items.map((i) => i.cropId).join(',') },
+      })
+      .pipe(
+        tap((availability) => {
+          const byId = new Map(availability.map((a) => [a.cropId, a]));
+          this.updateState({
+            items: this._state().items.map((item) => {
+              const latest = byId.get(item.cropId);
+              return latest
+                ? {
+                    ...item,
+                    availableQuantity: latest.availableQuantity,
+                    minOrderQuantity: latest.minOrderQuantity,
+                  }
+                : item;
+            }),
+            isRefreshing: false,
+          });
+        }),
+        catchError((error) => {
+          this.updateState({
+            isRefreshing: false,
+            error: 'Failed to refresh stock availability',
+          });
+          return throwError(() => error);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Place one order per farmer, one after another. Each farmer's items
+   * leave the cart once their order is placed, and checkout stops at the
+   * first failure, so trying again only places the remaining orders.
+   */
+  checkout(
+    deliveryAddress: DeliveryAddress,
+    paymentMethod: PaymentMethod,
+    notes?: string
+  ): Observable<PlacedOrder[]> {
+    if (!this.canCheckout()) {
+      return throwError(() => new Error('Cart has items that cannot be ordered'));
+    }
+
+    this.updateState({ isSubmitting: true, error: null, successMessage: null });
+
+    const placed: PlacedOrder[] = [];
+
+    return from(this.farmerGroups()).pipe(
+      concatMap((group) =>
+        this.submitOrder(this.buildOrderDto(group, deliveryAddress, paymentMethod, notes)).pipe(
+          map((response): PlacedOrder => ({
+            farmerId: group.farmerId,
+            farmerName: group.farmerName,
+            orderId: response.orderId,
+          })),
+          tap((order) => {
+            placed.push(order);
+            this.updateState({
+              items: this._state().items.filter((item) => item.farmerId !== group.farmerId),
+            });
+          }),
+          catchError(() => throwError(() => new CheckoutError([...placed], group.farmerName)))
+        )
+      ),
+      toArray(),
+      tap((orders) => {
+        this.updateState({
+          isSubmitting: false,
+          successMessage:
+            orders.length === 1
+              ? 'Order placed successfully!'
+              : `${orders.length} orders placed successfully!`,
+        });
+      }),
+      catchError((error) => {
+        const failed = error instanceof CheckoutError ? error : null;
+        this.updateState({
+          isSubmitting: false,
+          error: failed?.placed.length
+            ? `${failed.placed.length} placed; the order from ${failed.failedFarmerName} failed`
+            : 'Failed to place order',
+        });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Clear messages
+   */
+  clearMessages(): void {
+    this.updateState({ error: null, successMessage: null });
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private updateState(partial: Partial<CartState>): void {
+    this._state.update((state) => ({ ...state, ...partial }));
+  }
+
+  private updateItem(cropId: string, updates: Partial<CartItem>): void {
+    this.updateState({
+      items: this._state().items.map((item) =>
+        item.cropId === cropId ? { ...item, ...updates } : item
+      ),
+    });
+  }
+
+  private validateItem(item: CartItem): string | null {
+    if (item.availableQuantity <= 0) {
+      return 'This crop is out of stock';
+    }
+    if (item.quantity > item.availableQuantity) {
+      return `Only ${item.availableQuantity} ${item.unit} available`;
+    }
+    if (item.quantity < item.minOrderQuantity) {
+      return `Minimum order is ${item.minOrderQuantity} ${item.unit}`;
+    }
+    return null;
+  }
+
+  private buildOrderDto(
+    group: CartFarmerGroup,
+    deliveryAddress: DeliveryAddress,
+    paymentMethod: PaymentMethod,
+    notes?: string
+  ): CreateOrderDto {
+    return {
+      items: group.items.map((item) => ({
+        productId: item.cropId,
+        quantity: item.quantity,
+      })),
+      deliveryAddress,
+      paymentMethod,
+      notes: notes || undefined,
+    };
+  }
+
+  private submitOrder(dto: CreateOrderDto): Observable<{ success: boolean; orderId: string }> {
+    if (!environment.production) {
+      return of({
+        success: true,
+        orderId: `order_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+      }).pipe(delay(1500));
+    }
+
+    return this.http.post<{ success: boolean; orderId: string }>(`${this.apiUrl}/orders`, dto);
+  }
+
+  private loadItemsFromStorage(): CartItem[] {
+    try {
+      const json = localStorage.getItem(CART_STORAGE_KEY);
+      return json ? JSON.parse(json) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private saveItemsToStorage(items: CartItem[]): void {
+    try {
+      localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(items));
+    } catch {
+      // Storage full or unavailable; cart stays in memory
+    }
+  }
+}
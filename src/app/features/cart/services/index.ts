@@ -0,0 +1,6 @@
+/**
+ * Cart Services Barrel Export
+ * ===========================
+ */
+
+export * from './cart.service';
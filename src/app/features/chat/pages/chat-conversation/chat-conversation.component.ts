@@ -2,50 +2,50 @@
  * Chat Conversation Component
  * ===========================
  * Displays chat conversation with a specific user.
- * Uses signals-based state management with OnPush change detection.
+ * Messages, typing state and receipts come live from ChatService.
  */
 
 import {
   Component,
   ChangeDetectionStrategy,
-  signal,
   computed,
   inject,
   OnInit,
+  OnDestroy,
+  DestroyRef,
+  effect,
+  ElementRef,
+  viewChild,
 } from '@angular/core';
-import { CommonModule, DatePipe } from '@angular/common';
+import { CommonModule } from '@angular/common';
 import { ActivatedRoute, RouterLink } from '@angular/router';
 import { FormsModule } from '@angular/forms';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
 import { MatInputModule } from '@angular/material/input';
 import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatTooltipModule } from '@angular/material/tooltip';
 
-interface ChatMessage {
-  id: string;
-  senderId: string;
-  content: string;
-  timestamp: Date;
-  isRead: boolean;
-  isMine: boolean;
-}
+import { ChatService, ChatMessage, ChatMessageStatus } from '../../services/chat.service';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
 
-interface ChatUser {
-  id: string;
-  name: string;
-  avatar?: string;
-  isOnline: boolean;
-  lastSeen?: Date;
-}
+/** Receipt icon per delivery state */
+const STATUS_ICONS: Record<ChatMessageStatus, string> = {
+  sending: 'schedule',
+  sent: 'done',
+  delivered: 'done_all',
+  read: 'done_all',
+  failed: 'error_outline',
+};
 
 @Component({
   selector: 'smc-chat-conversation',
   standalone: true,
   imports: [
     CommonModule,
-    DatePipe,
     RouterLink,
     FormsModule,
     MatCardModule,
@@ -54,117 +54,117 @@ interface ChatUser {
     MatInputModule,
     MatFormFieldModule,
     MatProgressSpinnerModule,
+    MatTooltipModule,
+    LocaleDatePipe,
   ],
   templateUrl: './chat-conversation.component.html',
   styleUrl: './chat-conversation.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
-export class ChatConversationComponent implements OnInit {
+export class ChatConversationComponent implements OnInit, OnDestroy {
   private readonly route = inject(ActivatedRoute);
+  private readonly chatService = inject(ChatService);
+  private readonly destroyRef = inject(DestroyRef);
 
-  /** Current user ID from route */
-  readonly userId = signal<string>('');
+  private readonly messagesContainer = viewChild<ElementRef<HTMLElement>>('messagesContainer');
 
   /** Loading state */
-  readonly isLoading = signal(false);
+  readonly isLoading = this.chatService.isLoadingMessages;
+
+  /** Loading older history */
+  readonly isLoadingMore = this.chatService.isLoadingMore;
 
-  /** Sending message state */
-  readonly isSending = signal(false);
+  /** Older history available */
+  readonly hasMore = this.chatService.activeHasMore;
+
+  /** Recipient is typing */
+  readonly isRecipientTyping = this.chatService.isRecipientTyping;
+
+  /** Messages in the conversation */
+  readonly messages = this.chatService.activeMessages;
 
   /** New message input */
   newMessage = '';
 
   /** Chat recipient */
-  readonly recipient = signal<ChatUser>({
-    id: 'user1',
-    name: 'Rajesh Kumar',
-    isOnline: true,
+  readonly recipient = computed(() => {
+    const thread = this.chatService.activeThread();
+    return {
+      name: thread?.recipientName ?? '',
+      isOnline: thread?.isOnline ?? false,
+      lastSeen: thread?.lastSeen,
+    };
   });
 
-  /** Messages in the conversation */
-  readonly messages = signal<ChatMessage[]>([
-    {
-      id: '1',
-      senderId: 'user1',
-      content: 'Hello! I saw your wheat listing.',
-      timestamp: new Date(Date.now() - 1000 * 60 * 30),
-      isRead: true,
-      isMine: false,
-    },
-    {
-      id: '2',
-      senderId: 'me',
-      content: 'Hi! Yes, it\'s fresh from this season\'s harvest.',
-      timestamp: new Date(Date.now() - 1000 * 60 * 25),
-      isRead: true,
-      isMine: true,
-    },
-    {
-      id: '3',
-      senderId: 'user1',
-      content: 'What\'s the best price you can offer for 10 quintals?',
-      timestamp: new Date(Date.now() - 1000 * 60 * 20),
-      isRead: true,
-      isMine: false,
-    },
-    {
-      id: '4',
-      senderId: 'me',
-      content: 'For 10 quintals, I can offer ₹2,200 per quintal. That includes loading.',
-      timestamp: new Date(Date.now() - 1000 * 60 * 15),
-      isRead: true,
-      isMine: true,
-    },
-    {
-      id: '5',
-      senderId: 'user1',
-      content: 'Is the wheat still available?',
-      timestamp: new Date(Date.now() - 1000 * 60 * 5),
-      isRead: false,
-      isMine: false,
-    },
-  ]);
+  /** ID of the newest message, used to scroll on arrival */
+  private readonly lastMessageId = computed(() => this.messages().at(-1)?.id);
 
-  /** Format time for messages */
-  formatTime(date: Date): string {
-    return new Date(date).toLocaleTimeString('en-IN', {
-      hour: '2-digit',
-      minute: '2-digit',
+  constructor() {
+    effect(() => {
+      this.lastMessageId();
+      this.isRecipientTyping();
+      const container = this.messagesContainer()?.nativeElement;
+      if (container) {
+        setTimeout(() => (container.scrollTop = container.scrollHeight));
+      }
     });
   }
 
   ngOnInit(): void {
-    this.route.paramMap.subscribe((params) => {
+    this.route.paramMap.pipe(takeUntilDestroyed(this.destroyRef)).subscribe((params) => {
       const userId = params.get('userId');
       if (userId) {
-        this.userId.set(userId);
+        this.chatService.openConversation(userId);
       }
     });
   }
 
+  ngOnDestroy(): void {
+    this.chatService.closeConversation();
+  }
+
+  /** Format time for messages */
+  formatTime(date: Date): string {
+    return new Date(date).toLocaleTimeString('en-IN', {
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+
+  /** Receipt icon for own messages */
+  statusIcon(status: ChatMessageStatus): string {
+    return STATUS_ICONS[status];
+  }
+
   /** Send a new message */
   sendMessage(): void {
     if (!this.newMessage.trim()) return;
 
-    this.isSending.set(true);
+    this.chatService.sendMessage(this.newMessage);
+    this.newMessage = '';
+  }
 
-    const newMsg: ChatMessage = {
-      id: Date.now().toString(),
-      senderId: 'me',
-      content: this.newMessage.trim(),
-      timestamp: new Date(),
-      isRead: false,
-      isMine: true,
-    };
+  /** Retry a failed message */
+  retry(message: ChatMessage): void {
+    if (message.clientId) {
+      this.chatService.retryMessage(message.clientId);
+    }
+  }
 
-    this.messages.update((msgs) => [...msgs, newMsg]);
-    this.newMessage = '';
-    this.isSending.set(false);
+  /** Report typing activity */
+  onTyping(): void {
+    if (this.newMessage.trim()) {
+      this.chatService.notifyTyping();
+    }
+  }
+
+  /** Load older messages */
+  loadOlder(): void {
+    this.chatService.loadOlderMessages();
   }
 
   /** Track by function for messages */
   trackByMessage(index: number, message: ChatMessage): string {
-    return message.id;
+    return message.clientId ?? message.id;
   }
 }
-
@@ -2,16 +2,16 @@
  * Chat Inbox Component
  * ====================
  * Displays list of conversations/chat threads for the user.
- * Uses signals-based state management with OnPush change detection.
+ * Threads and unread counts are kept live by ChatService.
  */
 
 import {
   Component,
   ChangeDetectionStrategy,
-  signal,
-  computed,
+  inject,
+  OnInit,
 } from '@angular/core';
-import { CommonModule, DatePipe } from '@angular/common';
+import { CommonModule } from '@angular/common';
 import { RouterLink } from '@angular/router';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
@@ -20,23 +20,13 @@ import { MatListModule } from '@angular/material/list';
 import { MatBadgeModule } from '@angular/material/badge';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 
-interface ChatThread {
-  id: string;
-  recipientId: string;
-  recipientName: string;
-  recipientAvatar?: string;
-  lastMessage: string;
-  lastMessageTime: Date;
-  unreadCount: number;
-  isOnline: boolean;
-}
+import { ChatService, ChatThread } from '../../services/chat.service';
 
 @Component({
   selector: 'smc-chat-inbox',
   standalone: true,
   imports: [
     CommonModule,
-    DatePipe,
     RouterLink,
     MatCardModule,
     MatButtonModule,
@@ -49,45 +39,21 @@ interface ChatThread {
   styleUrl: './chat-inbox.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
-export class ChatInboxComponent {
+export class ChatInboxComponent implements OnInit {
+  private readonly chatService = inject(ChatService);
+
   /** Loading state */
-  readonly isLoading = signal(false);
+  readonly isLoading = this.chatService.isLoadingThreads;
 
   /** Chat threads/conversations */
-  readonly threads = signal<ChatThread[]>([
-    {
-      id: '1',
-      recipientId: 'user1',
-      recipientName: 'Rajesh Kumar',
-      lastMessage: 'Is the wheat still available?',
-      lastMessageTime: new Date(Date.now() - 1000 * 60 * 5),
-      unreadCount: 2,
-      isOnline: true,
-    },
-    {
-      id: '2',
-      recipientId: 'user2',
-      recipientName: 'Amit Sharma',
-      lastMessage: 'Thank you for the quick delivery!',
-      lastMessageTime: new Date(Date.now() - 1000 * 60 * 60),
-      unreadCount: 0,
-      isOnline: false,
-    },
-    {
-      id: '3',
-      recipientId: 'user3',
-      recipientName: 'Priya Patel',
-      lastMessage: 'Can you offer a better price?',
-      lastMessageTime: new Date(Date.now() - 1000 * 60 * 60 * 3),
-      unreadCount: 1,
-      isOnline: true,
-    },
-  ]);
+  readonly threads = this.chatService.threads;
 
   /** Total unread count */
-  readonly totalUnread = computed(() =>
-    this.threads().reduce((sum, thread) => sum + thread.unreadCount, 0)
-  );
+  readonly totalUnread = this.chatService.totalUnread;
+
+  ngOnInit(): void {
+    this.chatService.loadThreads();
+  }
 
   /** Format relative time */
   formatRelativeTime(date: Date): string {
@@ -0,0 +1,6 @@
+/**
+ * Chat Services Barrel Export
+ * ===========================
+ */
+
+export * from './chat.service';
@@ -5,7 +5,7 @@
  */
 
 import { Component, ChangeDetectionStrategy, inject } from '@angular/core';
-import { CommonModule, CurrencyPipe } from '@angular/common';
+import { CommonModule } from '@angular/common';
 import {
   MAT_DIALOG_DATA,
   MatDialogRef,
@@ -15,6 +15,8 @@ import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
 
 import { Bid } from '../../services/bid.service';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
 
 interface DialogData {
   bid: Bid;
@@ -28,7 +30,8 @@ interface DialogData {
     MatDialogModule,
     MatButtonModule,
     MatIconModule,
-    CurrencyPipe,
+    LocaleNumberPipe,
+    TranslatePipe,
   ],
   templateUrl: './accept-bid-dialog.component.html',
   styleUrl: './accept-bid-dialog.component.scss',
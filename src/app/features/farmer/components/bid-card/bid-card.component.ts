@@ -11,8 +11,9 @@ import {
   input,
   output,
   computed,
+  signal,
 } from '@angular/core';
-import { CommonModule, DatePipe, CurrencyPipe } from '@angular/common';
+import { CommonModule } from '@angular/common';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
@@ -20,7 +21,18 @@ import { MatTooltipModule } from '@angular/material/tooltip';
 import { MatMenuModule } from '@angular/material/menu';
 import { MatChipsModule } from '@angular/material/chips';
 
-import { Bid, BidStatus } from '../../services/bid.service';
+import {
+  Bid,
+  BidParty,
+  BidStatus,
+  MAX_NEGOTIATION_ROUNDS,
+  isAwaitingResponse,
+  canCounterOffer,
+} from '../../services/bid.service';
+import { BidNegotiationTimelineComponent } from '../bid-negotiation-timeline/bid-negotiation-timeline.component';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
 
 @Component({
   selector: 'smc-bid-card',
@@ -33,8 +45,10 @@ import { Bid, BidStatus } from '../../services/bid.service';
     MatTooltipModule,
     MatMenuModule,
     MatChipsModule,
-    DatePipe,
-    CurrencyPipe,
+    BidNegotiationTimelineComponent,
+    LocaleDatePipe,
+    LocaleNumberPipe,
+    TranslatePipe,
   ],
   templateUrl: './bid-card.component.html',
   styleUrl: './bid-card.component.scss',
@@ -75,6 +89,16 @@ export class BidCardComponent {
   // ============================================
 
   readonly BidStatus = BidStatus;
+  readonly BidParty = BidParty;
+  readonly maxRounds = MAX_NEGOTIATION_ROUNDS;
+
+  /** Negotiation history expanded */
+  readonly showHistory = signal(false);
+
+  /** Negotiation still in progress */
+  readonly isOpen = computed(
+    () => this.bid().status === BidStatus.PENDING || this.bid().status === BidStatus.COUNTERED
+  );
 
   /** Status color class */
   readonly statusClass = computed(() => {
@@ -133,8 +157,15 @@ export class BidCardComponent {
     return { full, half, empty };
   });
 
-  /** Is bid actionable */
-  readonly isActionable = computed(() => this.bid().status === BidStatus.PENDING);
+  /** Is bid actionable (awaiting the farmer and not expired) */
+  readonly isActionable = computed(() =>
+    isAwaitingResponse(this.bid(), BidParty.FARMER, this.currentTime())
+  );
+
+  /** Counter-offer allowed (round cap not reached) */
+  readonly canCounter = computed(() =>
+    canCounterOffer(this.bid(), BidParty.FARMER, this.currentTime())
+  );
 
   // ============================================
   // Actions
@@ -152,6 +183,10 @@ export class BidCardComponent {
     this.counter.emit(this.bid());
   }
 
+  toggleHistory(): void {
+    this.showHistory.update((shown) => !shown);
+  }
+
   onViewProfile(): void {
     this.viewProfile.emit(this.bid().buyerId);
   }
@@ -0,0 +1,62 @@
+/**
+ * Bid Negotiation Timeline Component
+ * ==================================
+ * Shows every offer and counter-offer on a bid, oldest first.
+ * Dumb component shared by the farmer and buyer bid screens.
+ */
+
+import { Component, ChangeDetectionStrategy, input, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatIconModule } from '@angular/material/icon';
+
+import {
+  Bid,
+  BidOffer,
+  BidParty,
+  BidStatus,
+  MAX_NEGOTIATION_ROUNDS,
+  awaitingResponseFrom,
+} from '../../services/bid.service';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
+
+@Component({
+  selector: 'smc-bid-negotiation-timeline',
+  standalone: true,
+  imports: [CommonModule, MatIconModule, LocaleDatePipe, TranslatePipe],
+  templateUrl: './bid-negotiation-timeline.component.html',
+  styleUrl: './bid-negotiation-timeline.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class BidNegotiationTimelineComponent {
+  /** Bid whose history is shown */
+  readonly bid = input.required<Bid>();
+
+  /** Party viewing the timeline, whose offers are labelled "You" */
+  readonly viewer = input.required<BidParty>();
+
+  readonly maxRounds = MAX_NEGOTIATION_ROUNDS;
+
+  readonly offers = computed(() => this.bid().history);
+
+  /** Counter-offers left before the negotiation must be settled */
+  readonly roundsLeft = computed(() => Math.max(0, MAX_NEGOTIATION_ROUNDS - this.offers().length));
+
+  /** Negotiation still in progress */
+  readonly isOpen = computed(() => {
+    const status = this.bid().status;
+    return status === BidStatus.PENDING || status === BidStatus.COUNTERED;
+  });
+
+  /** Whose turn it is, from the viewer's perspective */
+  readonly isViewerTurn = computed(() => awaitingResponseFrom(this.bid()) === this.viewer());
+
+  offerLabel(offer: BidOffer): string {
+    if (offer.offeredBy === this.viewer()) return 'You';
+    return offer.offeredBy === BidParty.BUYER ? this.bid().buyerName : 'Farmer';
+  }
+
+  isOwnOffer(offer: BidOffer): boolean {
+    return offer.offeredBy === this.viewer();
+  }
+}
@@ -2,6 +2,7 @@
  * Counter Bid Dialog Component
  * ============================
  * Dialog for making a counter offer to a bid.
+ * Used by both farmers and buyers; the price range depends on who counters.
  */
 
 import {
@@ -23,12 +24,23 @@ import { MatIconModule } from '@angular/material/icon';
 import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatInputModule } from '@angular/material/input';
 import { MatSliderModule } from '@angular/material/slider';
+import { MatDatepickerModule } from '@angular/material/datepicker';
+import { MatNativeDateModule } from '@angular/material/core';
 
-import { Bid } from '../../services/bid.service';
+import {
+  Bid,
+  BidParty,
+  CounterOfferDto,
+  MAX_NEGOTIATION_ROUNDS,
+} from '../../services/bid.service';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
 
 interface DialogData {
   bid: Bid;
-  listedPrice: number;
+  listedPrice?: number;
+  /** Party making the counter; defaults to the farmer */
+  counterBy?: BidParty;
 }
 
 @Component({
@@ -43,6 +55,10 @@ interface DialogData {
     MatFormFieldModule,
     MatInputModule,
     MatSliderModule,
+    MatDatepickerModule,
+    MatNativeDateModule,
+    LocaleNumberPipe,
+    TranslatePipe,
   ],
   templateUrl: './counter-bid-dialog.component.html',
   styleUrl: './counter-bid-dialog.component.scss',
@@ -52,33 +68,49 @@ export class CounterBidDialogComponent {
   readonly dialogRef = inject(MatDialogRef<CounterBidDialogComponent>);
   readonly data: DialogData = inject(MAT_DIALOG_DATA);
 
-  // Counter amount (default to listed price or 10% higher than bid)
-  counterAmountValue =
-    this.data.listedPrice || Math.round(this.data.bid.amount * 1.1);
+  readonly isBuyer = this.data.counterBy === BidParty.BUYER;
 
-  // Max price (2x the bid or listed price + 50%)
-  readonly maxPrice = Math.max(
-    this.data.bid.amount * 2,
-    (this.data.listedPrice || this.data.bid.amount) * 1.5
-  );
+  /** Round this counter will be, out of MAX_NEGOTIATION_ROUNDS */
+  readonly round = this.data.bid.history.length + 1;
+  readonly maxRounds = MAX_NEGOTIATION_ROUNDS;
 
-  // Computed signals
-  readonly counterAmount = computed(() => this.counterAmountValue);
+  // Farmers counter upwards from the bid, buyers downwards from the farmer's offer
+  readonly minPrice = this.isBuyer ? Math.max(1, Math.round(this.data.bid.amount * 0.5)) : this.data.bid.amount;
 
-  readonly priceDiff = computed(
-    () => this.counterAmountValue - this.data.bid.amount
+  readonly maxPrice = this.isBuyer
+    ? this.data.bid.amount
+    : Math.max(this.data.bid.amount * 2, (this.data.listedPrice || this.data.bid.amount) * 1.5);
+
+  // Form values
+  readonly counterAmount = signal(
+    this.isBuyer
+      ? Math.round(this.data.bid.amount * 0.95)
+      : this.data.listedPrice || Math.round(this.data.bid.amount * 1.1)
+  );
+  readonly quantity = signal(this.data.bid.quantity);
+  readonly deliveryDate = signal<Date>(
+    this.data.bid.deliveryDate ? new Date(this.data.bid.deliveryDate) : new Date(Date.now() + 3 * 24 * 60 * 60 * 1000)
   );
+  readonly message = signal('');
+
+  /** Earliest delivery date (tomorrow) */
+  readonly minDeliveryDate = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+  // Computed signals
+  readonly priceDiff = computed(() => this.counterAmount() - this.data.bid.amount);
 
   readonly diffPercentage = computed(
     () => (this.priceDiff() / this.data.bid.amount) * 100
   );
 
-  readonly totalValue = computed(
-    () => this.counterAmountValue * this.data.bid.quantity
-  );
+  readonly totalValue = computed(() => this.counterAmount() * this.quantity());
 
   readonly isValid = computed(
-    () => this.counterAmountValue >= this.data.bid.amount
+    () =>
+      this.counterAmount() >= this.minPrice &&
+      this.counterAmount() <= this.maxPrice &&
+      this.quantity() >= 1 &&
+      !!this.deliveryDate()
   );
 
   onCancel(): void {
@@ -87,9 +119,13 @@ export class CounterBidDialogComponent {
 
   onConfirm(): void {
     if (this.isValid()) {
-      this.dialogRef.close({
-        counterAmount: this.counterAmountValue,
-      });
+      const offer: CounterOfferDto = {
+        amount: this.counterAmount(),
+        quantity: this.quantity(),
+        deliveryDate: this.deliveryDate(),
+        message: this.message().trim() || undefined,
+      };
+      this.dialogRef.close(offer);
     }
   }
 }
@@ -11,7 +11,7 @@ import {
   input,
   output,
 } from '@angular/core';
-import { CommonModule, DatePipe } from '@angular/common';
+import { CommonModule } from '@angular/common';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
@@ -22,6 +22,7 @@ import { MatRippleModule } from '@angular/material/core';
 import { MatDividerModule } from '@angular/material/divider';
 
 import { CropListing, QualityGrade, QUALITY_GRADE_LABELS } from '../../services/crop.service';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
 
 /** Crop status configuration */
 const STATUS_CONFIG: Record<
@@ -40,7 +41,6 @@ const STATUS_CONFIG: Record<
   standalone: true,
   imports: [
     CommonModule,
-    DatePipe,
     MatCardModule,
     MatButtonModule,
     MatIconModule,
@@ -49,6 +49,7 @@ const STATUS_CONFIG: Record<
     MatTooltipModule,
     MatRippleModule,
     MatDividerModule,
+    LocaleDatePipe,
   ],
   templateUrl: './crop-card.component.html',
   styleUrl: './crop-card.component.scss',
@@ -9,3 +9,4 @@ export * from './accept-bid-dialog/accept-bid-dialog.component';
 export * from './reject-bid-dialog/reject-bid-dialog.component';
 export * from './counter-bid-dialog/counter-bid-dialog.component';
 
+export * from './bid-negotiation-timeline/bid-negotiation-timeline.component';
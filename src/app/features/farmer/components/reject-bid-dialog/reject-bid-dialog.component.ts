@@ -24,6 +24,7 @@ import { MatInputModule } from '@angular/material/input';
 import { MatRadioModule } from '@angular/material/radio';
 
 import { Bid } from '../../services/bid.service';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
 
 interface DialogData {
   bid: Bid;
@@ -46,6 +47,7 @@ interface RejectReason {
     MatFormFieldModule,
     MatInputModule,
     MatRadioModule,
+    TranslatePipe,
   ],
   templateUrl: './reject-bid-dialog.component.html',
   styleUrl: './reject-bid-dialog.component.scss',
@@ -8,11 +8,13 @@ import { Routes } from '@angular/router';
  * URL Structure:
  * - /farmer/dashboard      → Farmer dashboard with mandi prices
  * - /farmer/add-crop       → Add new crop listing
+ * - /farmer/bulk-import    → Import many crop listings from a sheet
  * - /farmer/crops          → My crops listing
  * - /farmer/crops/:id      → View crop details
  * - /farmer/bids           → All bids overview
  * - /farmer/bids/:cropId   → Real-time bids for specific crop
  * - /farmer/earnings       → Earnings & analytics
+ * - /farmer/price-history  → Mandi price history (?crop=&mandis=&range=)
  */
 export const FARMER_ROUTES: Routes = [
   {
@@ -36,6 +38,14 @@ export const FARMER_ROUTES: Routes = [
       ),
     title: 'Add Crop Listing | Smart Mandi Connect',
   },
+  {
+    path: 'bulk-import',
+    loadComponent: () =>
+      import('./pages/bulk-import/bulk-import.component').then(
+        (m) => m.BulkImportComponent
+      ),
+    title: 'Bulk Import Crops | Smart Mandi Connect',
+  },
   {
     path: 'crops',
     loadComponent: () =>
@@ -88,4 +98,12 @@ export const FARMER_ROUTES: Routes = [
       ),
     title: 'Earnings | Smart Mandi Connect',
   },
+  {
+    path: 'price-history',
+    loadComponent: () =>
+      import('./pages/price-history/price-history.component').then(
+        (m) => m.PriceHistoryComponent
+      ),
+    title: 'Price History | Smart Mandi Connect',
+  },
 ];
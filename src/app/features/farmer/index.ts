@@ -9,6 +9,9 @@ export * from './farmer.routes';
 // Services
 export * from './services/farmer-dashboard.service';
 export * from './services/crop.service';
+export * from './services/mandi-price-history.service';
+export * from './services/earnings.service';
+export * from './services/earnings-statement';
 
 // Components
 export * from './components';
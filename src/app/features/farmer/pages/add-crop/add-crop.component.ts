@@ -2,7 +2,9 @@
  * Add Crop Listing Component
  * ==========================
  * Form for farmers to create new crop listings.
- * Features reactive forms, image upload with preview, and validation.
+ * Features reactive forms, image upload with preview, validation and
+ * voice input for farmers who prefer speaking to typing. Unsaved input,
+ * images included, is kept as a draft that can be resumed later.
  */
 
 import {
@@ -11,9 +13,12 @@ import {
   inject,
   signal,
   computed,
+  input,
   OnInit,
   OnDestroy,
+  DestroyRef,
 } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
 import { CommonModule } from '@angular/common';
 import { Router, RouterLink } from '@angular/router';
 import {
@@ -36,11 +41,18 @@ import { MatProgressBarModule } from '@angular/material/progress-bar';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
 import { MatChipsModule } from '@angular/material/chips';
 
+import { VoiceInputButtonComponent } from '@shared/components/voice-input-button/voice-input-button.component';
+import { DraftBannerComponent } from '@shared/components/draft-banner/draft-banner.component';
+import { DraftService, DraftSnapshot } from '@infrastructure/services/draft.service';
+import { StoredDraft } from '@infrastructure/services/offline-store.service';
+import { parseSpokenNumber, parseSpokenQuantity } from '@shared/services/spoken-quantity';
 import {
   CropService,
   QualityGrade,
   CreateCropDto,
 } from '../../services/crop.service';
+import { CROP_RULES, harvestDateWindow } from '../../services/crop-rules';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
 
 /** Image preview interface */
 interface ImagePreview {
@@ -71,6 +83,9 @@ interface ImagePreview {
     MatProgressBarModule,
     MatSnackBarModule,
     MatChipsModule,
+    VoiceInputButtonComponent,
+    DraftBannerComponent,
+    LocaleNumberPipe,
   ],
   templateUrl: './add-crop.component.html',
   styleUrl: './add-crop.component.scss',
@@ -80,27 +95,45 @@ export class AddCropComponent implements OnInit, OnDestroy {
   private readonly fb = inject(FormBuilder);
   private readonly router = inject(Router);
   private readonly snackBar = inject(MatSnackBar);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly draftService = inject(DraftService);
   readonly cropService = inject(CropService);
 
+  /** Draft to resume straight away (`?draft=` from the My Crops draft list) */
+  readonly draft = input<string>();
+
   /** Maximum number of images allowed */
-  readonly MAX_IMAGES = 5;
+  readonly MAX_IMAGES = CROP_RULES.maxImages;
 
   /** Maximum file size in bytes (5MB) */
-  readonly MAX_FILE_SIZE = 5 * 1024 * 1024;
+  readonly MAX_FILE_SIZE = CROP_RULES.maxImageSize;
 
   /** Allowed image types */
-  readonly ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+  readonly ALLOWED_TYPES: readonly string[] = CROP_RULES.imageTypes;
 
   /** Crop form */
   readonly cropForm: FormGroup = this.fb.group({
-    cropName: ['', [Validators.required, Validators.minLength(2), Validators.maxLength(100)]],
+    cropName: [
+      '',
+      [
+        Validators.required,
+        Validators.minLength(CROP_RULES.cropNameMinLength),
+        Validators.maxLength(CROP_RULES.cropNameMaxLength),
+      ],
+    ],
     category: ['', [Validators.required]],
-    quantity: ['', [Validators.required, Validators.min(1), Validators.max(100000)]],
+    quantity: [
+      '',
+      [Validators.required, Validators.min(CROP_RULES.quantityMin), Validators.max(CROP_RULES.quantityMax)],
+    ],
     unit: ['kg', [Validators.required]],
-    expectedPrice: ['', [Validators.required, Validators.min(1), Validators.max(1000000)]],
+    expectedPrice: [
+      '',
+      [Validators.required, Validators.min(CROP_RULES.priceMin), Validators.max(CROP_RULES.priceMax)],
+    ],
     qualityGrade: [QualityGrade.GRADE_A, [Validators.required]],
     harvestDate: ['', [Validators.required]],
-    description: ['', [Validators.maxLength(500)]],
+    description: ['', [Validators.maxLength(CROP_RULES.descriptionMaxLength)]],
     isOrganic: [false],
   });
 
@@ -111,10 +144,10 @@ export class AddCropComponent implements OnInit, OnDestroy {
   readonly submitted = signal(false);
 
   /** Today's date for date picker min */
-  readonly today = new Date();
+  readonly today = harvestDateWindow().min;
 
   /** Max date (1 year from now) */
-  readonly maxDate = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+  readonly maxDate = harvestDateWindow().max;
 
   /** Categories from service */
   readonly categories = this.cropService.categories;
@@ -138,8 +171,30 @@ export class AddCropComponent implements OnInit, OnDestroy {
     () => this.MAX_IMAGES - this.imagePreviews().length
   );
 
+  /** Key this form's draft is saved under */
+  private draftKey = this.draftService.newKey('crop');
+
+  /** Earlier crop draft offered for resuming */
+  readonly draftOffer = signal<StoredDraft | null>(null);
+
   ngOnInit(): void {
     this.cropService.clearMessages();
+
+    this.draftService.autosave({
+      key: () => this.draftKey,
+      form: 'crop',
+      control: this.cropForm,
+      changes: toObservable(this.imagePreviews),
+      snapshot: () => this.draftSnapshot(),
+      destroyRef: this.destroyRef,
+    });
+
+    const key = this.draft();
+    if (key) {
+      this.draftService.get(key).then((draft) => draft && this.restoreDraft(draft));
+    } else {
+      this.draftService.latestNew('crop').then((draft) => this.draftOffer.set(draft));
+    }
   }
 
   ngOnDestroy(): void {
@@ -231,6 +286,55 @@ export class AddCropComponent implements OnInit, OnDestroy {
     }
   }
 
+  /** Fill crop name from speech */
+  onCropNameSpoken(transcript: string): void {
+    this.setSpokenValue('cropName', transcript.slice(0, CROP_RULES.cropNameMaxLength));
+  }
+
+  /** Fill quantity and unit from speech, e.g. "paanch quintal" */
+  onQuantitySpoken(transcript: string): void {
+    const { quantity, unit } = parseSpokenQuantity(transcript);
+
+    if (quantity === null) {
+      this.showError(`Couldn't find a quantity in "${transcript}"`);
+      return;
+    }
+
+    this.setSpokenValue('quantity', quantity);
+    if (unit && this.units.some((u) => u.value === unit)) {
+      this.setSpokenValue('unit', unit);
+    }
+  }
+
+  /** Fill expected price from speech */
+  onPriceSpoken(transcript: string): void {
+    const price = parseSpokenNumber(transcript);
+
+    if (price === null) {
+      this.showError(`Couldn't find a price in "${transcript}"`);
+      return;
+    }
+
+    this.setSpokenValue('expectedPrice', price);
+  }
+
+  /** Append dictated text to the description */
+  onDescriptionSpoken(transcript: string): void {
+    const current: string = this.f['description'].value ?? '';
+    const text = current ? `${current.trimEnd()} ${transcript}` : transcript;
+    this.setSpokenValue('description', text.slice(0, CROP_RULES.descriptionMaxLength));
+  }
+
+  /** Fill the form from an earlier draft */
+  onResumeDraft(draft: StoredDraft): void {
+    this.restoreDraft(draft);
+  }
+
+  onDiscardDraft(draft: StoredDraft): void {
+    this.draftOffer.set(null);
+    this.draftService.discard(draft.key);
+  }
+
   /** Submit form */
   onSubmit(): void {
     this.submitted.set(true);
@@ -263,6 +367,7 @@ export class AddCropComponent implements OnInit, OnDestroy {
 
     this.cropService.createCrop(cropData, imageFiles).subscribe({
       next: () => {
+        this.draftService.discard(this.draftKey);
         this.snackBar.open('Crop listing created successfully!', 'View', {
           duration: 5000,
         });
@@ -289,9 +394,43 @@ export class AddCropComponent implements OnInit, OnDestroy {
     });
     this.imagePreviews.set([]);
 
+    this.draftService.discard(this.draftKey);
     this.cropService.clearMessages();
   }
 
+  /** Form contents for the draft, or null while nothing has been entered */
+  private draftSnapshot(): DraftSnapshot | null {
+    const images = this.imagePreviews().map((p) => p.file);
+    if (!this.cropForm.dirty && images.length === 0) return null;
+
+    const values = this.cropForm.getRawValue();
+    return {
+      title: values.cropName?.trim() || 'Untitled crop',
+      values,
+      files: images,
+      baseVersion: null,
+    };
+  }
+
+  private restoreDraft(draft: StoredDraft): void {
+    this.draftKey = draft.key;
+    this.draftOffer.set(null);
+
+    this.cropForm.patchValue(draft.values);
+    this.cropForm.markAsDirty();
+
+    this.imagePreviews().forEach((preview) => URL.revokeObjectURL(preview.url));
+    this.imagePreviews.set(
+      draft.files.slice(0, this.MAX_IMAGES).map((file) => ({
+        file,
+        url: URL.createObjectURL(file),
+        name: file.name,
+        size: this.formatFileSize(file.size),
+        uploading: false,
+      }))
+    );
+  }
+
   /** Mark all form controls as touched */
   private markFormAsTouched(): void {
     Object.keys(this.cropForm.controls).forEach((key) => {
@@ -299,6 +438,14 @@ export class AddCropComponent implements OnInit, OnDestroy {
     });
   }
 
+  /** Set a control from voice input as if typed */
+  private setSpokenValue(field: string, value: string | number): void {
+    const control = this.f[field];
+    control.setValue(value);
+    control.markAsDirty();
+    control.markAsTouched();
+  }
+
   /** Format file size for display */
   private formatFileSize(bytes: number): string {
     if (bytes < 1024) return `${bytes} B`;
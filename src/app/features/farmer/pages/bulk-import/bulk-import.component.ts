@@ -0,0 +1,311 @@
+/**
+ * Bulk Import Page Component
+ * ==========================
+ * Wizard for FPOs listing many crops at once: upload a CSV/Excel sheet and
+ * a zip of photos, map the sheet's columns, review per-row errors, then
+ * submit the valid rows in batches while each row shows its progress.
+ */
+
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  signal,
+  computed,
+  DestroyRef,
+} from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { RouterLink } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatCardModule } from '@angular/material/card';
+import { MatIconModule } from '@angular/material/icon';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatStepperModule } from '@angular/material/stepper';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { Observable, from, of, defer, concatMap, forkJoin, map, switchMap, catchError, finalize } from 'rxjs';
+
+import { ConnectivityService } from '@infrastructure/services/connectivity.service';
+import { downloadFile } from '@shared/services/file-export';
+import { readSpreadsheet, SpreadsheetReadError, SPREADSHEET_ACCEPT } from '@shared/services/file-import';
+import { readZip, ZipEntry, ZipReadError } from '@shared/services/zip-reader';
+import { CropService } from '../../services/crop.service';
+import {
+  CROP_IMPORT_COLUMNS,
+  CropImportField,
+  CropImportMapping,
+  CropImportRow,
+  buildCropImportTemplate,
+  guessColumnMapping,
+  imageFiles,
+  imageKey,
+  unmappedRequiredColumns,
+  validateCropRows,
+} from '../../services/crop-import';
+
+/** Listings created in parallel per batch */
+const BATCH_SIZE = 5;
+
+/** `queued`: saved offline, published when the connection returns */
+type RowStatus = 'pending' | 'uploading' | 'done' | 'queued' | 'failed';
+
+interface RowProgress {
+  readonly status: RowStatus;
+  readonly error?: string;
+}
+
+@Component({
+  selector: 'smc-bulk-import',
+  standalone: true,
+  imports: [
+    RouterLink,
+    MatButtonModule,
+    MatCardModule,
+    MatIconModule,
+    MatFormFieldModule,
+    MatSelectModule,
+    MatStepperModule,
+    MatSlideToggleModule,
+    MatProgressBarModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+  ],
+  templateUrl: './bulk-import.component.html',
+  styleUrl: './bulk-import.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class BulkImportComponent {
+  private readonly cropService = inject(CropService);
+  private readonly connectivity = inject(ConnectivityService);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly columns = CROP_IMPORT_COLUMNS;
+  readonly spreadsheetAccept = SPREADSHEET_ACCEPT;
+
+  // ============================================
+  // Upload
+  // ============================================
+
+  readonly sheetName = signal<string | null>(null);
+  readonly zipName = signal<string | null>(null);
+  readonly isReading = signal(false);
+  readonly readError = signal<string | null>(null);
+
+  /** Sheet rows, header first */
+  private readonly sheetRows = signal<string[][]>([]);
+  private readonly zipImages = signal<ReadonlyMap<string, ZipEntry>>(new Map());
+
+  readonly headers = computed(() => this.sheetRows()[0] ?? []);
+  readonly dataRowCount = computed(() => Math.max(0, this.sheetRows().length - 1));
+  readonly photoCount = computed(() => this.zipImages().size);
+
+  // ============================================
+  // Mapping & Review
+  // ============================================
+
+  readonly mapping = signal<CropImportMapping>({});
+  readonly missingColumns = computed(() => unmappedRequiredColumns(this.mapping()));
+
+  readonly rows = computed<CropImportRow[]>(() =>
+    validateCropRows(this.sheetRows(), this.mapping(), {
+      categories: this.cropService.categories(),
+      units: this.cropService.units,
+      images: this.zipImages(),
+    })
+  );
+  readonly validRows = computed(() => this.rows().filter((row) => row.dto));
+  readonly invalidCount = computed(() => this.rows().length - this.validRows().length);
+
+  readonly errorsOnly = signal(false);
+  readonly reviewRows = computed(() =>
+    this.errorsOnly() ? this.rows().filter((row) => row.errors.length > 0) : this.rows()
+  );
+
+  // ============================================
+  // Submit
+  // ============================================
+
+  /** Keyed by row number */
+  readonly progress = signal<Record<number, RowProgress>>({});
+  readonly isSubmitting = signal(false);
+
+  readonly doneCount = computed(() => this.countStatus('done'));
+  readonly queuedCount = computed(() => this.countStatus('queued'));
+  readonly failedCount = computed(() => this.countStatus('failed'));
+  readonly percentComplete = computed(() => {
+    const total = this.validRows().length;
+    return total === 0 ? 0 : Math.round((100 * (this.doneCount() + this.queuedCount() + this.failedCount())) / total);
+  });
+  readonly hasStarted = computed(() => Object.keys(this.progress()).length > 0);
+
+  // ============================================
+  // Files
+  // ============================================
+
+  async onSheetSelected(event: Event): Promise<void> {
+    const file = this.takeFile(event);
+    if (!file) return;
+
+    await this.read(async () => {
+      const rows = await readSpreadsheet(file);
+      if (rows.length < 2) throw new SpreadsheetReadError('The sheet needs a header row and at least one crop');
+
+      this.sheetRows.set(rows);
+      this.mapping.set(guessColumnMapping(rows[0]));
+      this.sheetName.set(file.name);
+      this.progress.set({});
+    });
+  }
+
+  async onZipSelected(event: Event): Promise<void> {
+    const file = this.takeFile(event);
+    if (!file) return;
+
+    await this.read(async () => {
+      const images = new Map<string, ZipEntry>();
+      for (const entry of await readZip(file)) {
+        // Skip macOS resource forks and other hidden files
+        if (!imageKey(entry.name).startsWith('.')) images.set(imageKey(entry.name), entry);
+      }
+      this.zipImages.set(images);
+      this.zipName.set(file.name);
+      this.progress.set({});
+    });
+  }
+
+  clearZip(): void {
+    this.zipImages.set(new Map());
+    this.zipName.set(null);
+  }
+
+  downloadTemplate(): void {
+    downloadFile(buildCropImportTemplate(), 'crop-import-template.csv', 'text/csv;charset=utf-8');
+  }
+
+  // ============================================
+  // Mapping
+  // ============================================
+
+  setColumn(field: CropImportField, index: number | null): void {
+    this.mapping.update((mapping) => {
+      const next = { ...mapping };
+      if (index === null) {
+        delete next[field];
+      } else {
+        next[field] = index;
+      }
+      return next;
+    });
+  }
+
+  /** Sample value from the first data row, to help pick the right column */
+  sampleValue(index: number): string {
+    return this.sheetRows()[1]?.[index] ?? '';
+  }
+
+  // ============================================
+  // Submit
+  // ============================================
+
+  submit(): void {
+    const rows = this.validRows().filter((row) => {
+      const status = this.progress()[row.rowNumber]?.status;
+      return status !== 'done' && status !== 'queued';
+    });
+    if (rows.length === 0 || this.isSubmitting()) return;
+
+    this.progress.update((progress) => ({
+      ...progress,
+      ...Object.fromEntries(rows.map((row) => [row.rowNumber, { status: 'pending' }])),
+    }));
+    this.isSubmitting.set(true);
+
+    const batches: CropImportRow[][] = [];
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) batches.push(rows.slice(i, i + BATCH_SIZE));
+
+    from(batches)
+      .pipe(
+        concatMap((batch) => forkJoin(batch.map((row) => this.submitRow(row)))),
+        finalize(() => {
+          this.isSubmitting.set(false);
+          this.cropService.clearMessages();
+        }),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe({
+        complete: () => {
+          const summary = [`${this.doneCount()} listings created`];
+          if (this.queuedCount() > 0) summary.push(`${this.queuedCount()} queued until you reconnect`);
+          if (this.failedCount() > 0) summary.push(`${this.failedCount()} failed`);
+          this.snackBar.open(summary.join(', '), 'Dismiss', { duration: 5000 });
+        },
+      });
+  }
+
+  statusOf(row: CropImportRow): RowProgress | undefined {
+    return this.progress()[row.rowNumber];
+  }
+
+  // ============================================
+  // Private Helpers
+  // ============================================
+
+  /** Create one listing; failures are recorded on the row rather than ending the import */
+  private submitRow(row: CropImportRow): Observable<RowStatus> {
+    return defer(() => {
+      this.setProgress(row.rowNumber, { status: 'uploading' });
+      return from(imageFiles(row.images));
+    }).pipe(
+      switchMap((files) => this.cropService.createCrop(row.dto!, files)),
+      map(() => {
+        // Offline, createCrop queues the request and resolves with a placeholder listing
+        const status: RowStatus = this.connectivity.isOffline() ? 'queued' : 'done';
+        this.setProgress(row.rowNumber, { status });
+        return status;
+      }),
+      catchError((error) => {
+        this.setProgress(row.rowNumber, {
+          status: 'failed',
+          error: error?.error?.message || error?.message || 'Could not create the listing',
+        });
+        return of('failed' as const);
+      })
+    );
+  }
+
+  private setProgress(rowNumber: number, progress: RowProgress): void {
+    this.progress.update((all) => ({ ...all, [rowNumber]: progress }));
+  }
+
+  private countStatus(status: RowStatus): number {
+    return Object.values(this.progress()).filter((p) => p.status === status).length;
+  }
+
+  private takeFile(event: Event): File | null {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0] ?? null;
+    // Let the same file be picked again after editing it
+    input.value = '';
+    return file;
+  }
+
+  private async read(task: () => Promise<void>): Promise<void> {
+    this.isReading.set(true);
+    this.readError.set(null);
+    try {
+      await task();
+    } catch (error) {
+      this.readError.set(
+        error instanceof SpreadsheetReadError || error instanceof ZipReadError
+          ? error.message
+          : 'The file could not be read'
+      );
+    } finally {
+      this.isReading.set(false);
+    }
+  }
+}
@@ -15,7 +15,7 @@ import {
   OnDestroy,
   input,
 } from '@angular/core';
-import { CommonModule, DatePipe, CurrencyPipe } from '@angular/common';
+import { CommonModule } from '@angular/common';
 import { Router, RouterLink } from '@angular/router';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
@@ -30,12 +30,14 @@ import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
 import { MatDialog, MatDialogModule } from '@angular/material/dialog';
 import { Subject, takeUntil, interval } from 'rxjs';
 
-import { BidService, Bid, BidStatus } from '../../services/bid.service';
+import { BidService, Bid, BidStatus, BidParty, CounterOfferDto } from '../../services/bid.service';
 import { SocketService } from '@infrastructure/services/socket.service';
 import { BidCardComponent } from '../../components/bid-card/bid-card.component';
 import { AcceptBidDialogComponent } from '../../components/accept-bid-dialog/accept-bid-dialog.component';
 import { RejectBidDialogComponent } from '../../components/reject-bid-dialog/reject-bid-dialog.component';
 import { CounterBidDialogComponent } from '../../components/counter-bid-dialog/counter-bid-dialog.component';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
 
 @Component({
   selector: 'smc-crop-bids',
@@ -54,9 +56,9 @@ import { CounterBidDialogComponent } from '../../components/counter-bid-dialog/c
     MatDividerModule,
     MatSnackBarModule,
     MatDialogModule,
-    DatePipe,
-    CurrencyPipe,
     BidCardComponent,
+    LocaleNumberPipe,
+    TranslatePipe,
   ],
   templateUrl: './crop-bids.component.html',
   styleUrl: './crop-bids.component.scss',
@@ -107,7 +109,9 @@ export class CropBidsComponent implements OnInit, OnDestroy {
 
     switch (filter) {
       case 'pending':
-        return allBids.filter((b) => b.status === BidStatus.PENDING);
+        return allBids.filter(
+          (b) => b.status === BidStatus.PENDING || b.status === BidStatus.COUNTERED
+        );
       case 'accepted':
         return allBids.filter((b) => b.status === BidStatus.ACCEPTED);
       case 'rejected':
@@ -220,19 +224,25 @@ export class CropBidsComponent implements OnInit, OnDestroy {
   onCounterBid(bid: Bid): void {
     const dialogRef = this.dialog.open(CounterBidDialogComponent, {
       width: '450px',
-      data: { bid, listedPrice: this.cropSummary()?.listedPrice },
+      data: { bid, listedPrice: this.cropSummary()?.listedPrice, counterBy: BidParty.FARMER },
       panelClass: 'smc-dialog',
     });
 
-    dialogRef.afterClosed().subscribe((result) => {
-      if (result?.counterAmount) {
-        this.bidService.counterBid(bid.id, result.counterAmount).subscribe({
+    dialogRef.afterClosed().subscribe((offer: CounterOfferDto | null) => {
+      if (offer) {
+        this.bidService.counterBid(bid.id, offer).subscribe({
           next: () => {
-            this.snackBar.open('Counter offer sent!', 'Close', {
+            this.snackBar.open(this.bidService.successMessage() ?? 'Counter offer sent!', 'Close', {
               duration: 4000,
               panelClass: ['snackbar-success'],
             });
           },
+          error: () => {
+            this.snackBar.open(this.bidService.error() ?? 'Failed to send counter offer', 'Close', {
+              duration: 5000,
+              panelClass: ['snackbar-error'],
+            });
+          },
         });
       }
     });
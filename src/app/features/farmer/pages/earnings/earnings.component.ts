@@ -1,21 +1,127 @@
 /**
  * Earnings Component
  * ==================
- * View earnings and financial analytics.
+ * Per-order settlement ledger: gross, platform fee, delivery deduction and
+ * net payout with its status, filterable by date, crop and payout status.
+ * Monthly statements download as PDF or CSV.
  */
 
-import { Component, ChangeDetectionStrategy } from '@angular/core';
+import { Component, ChangeDetectionStrategy, inject, signal, computed, effect } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
 import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatDatepickerModule } from '@angular/material/datepicker';
+import { MatNativeDateModule } from '@angular/material/core';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+import { LocaleCurrencyPipe } from '@shared/pipes/locale-currency.pipe';
+import {
+  EarningsService,
+  EarningsFilters,
+  PayoutStatus,
+  PAYOUT_STATUS_CONFIG,
+  StatementFormat,
+} from '../../services/earnings.service';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
 
 @Component({
   selector: 'smc-earnings',
   standalone: true,
-  imports: [CommonModule, MatCardModule, MatIconModule],
+  imports: [
+    CommonModule,
+    RouterLink,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatDatepickerModule,
+    MatNativeDateModule,
+    MatProgressBarModule,
+    MatSnackBarModule,
+    LocaleCurrencyPipe,
+    LocaleDatePipe,
+  ],
   templateUrl: './earnings.component.html',
   styleUrl: './earnings.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
-export class EarningsComponent {}
+export class EarningsComponent {
+  private readonly earningsService = inject(EarningsService);
+  private readonly snackBar = inject(MatSnackBar);
+
+  readonly PAYOUT_STATUS_CONFIG = PAYOUT_STATUS_CONFIG;
+  readonly payoutStatuses = Object.values(PayoutStatus);
+
+  readonly lines = this.earningsService.filteredLines;
+  readonly totals = this.earningsService.totals;
+  readonly filters = this.earningsService.filters;
+  readonly crops = this.earningsService.crops;
+  readonly statementMonths = this.earningsService.statementMonths;
+  readonly hasActiveFilters = this.earningsService.hasActiveFilters;
+  readonly isLoading = this.earningsService.isLoading;
+  readonly isExporting = this.earningsService.isExporting;
+  readonly error = this.earningsService.error;
+
+  /** Month picked for statement download; defaults to the latest */
+  private readonly pickedMonth = signal<string | null>(null);
+  readonly statementMonth = computed(() => this.pickedMonth() ?? this.statementMonths()[0]?.key ?? null);
+
+  /** Totals of the selected statement month */
+  readonly statementTotals = computed(() => {
+    const month = this.statementMonth();
+    return month ? this.earningsService.getStatement(month).totals : null;
+  });
+
+  constructor() {
+    this.earningsService.loadEarnings();
+
+    // Drop a picked month that is no longer in the ledger
+    effect(() => {
+      const month = this.pickedMonth();
+      if (month && !this.statementMonths().some((m) => m.key === month)) {
+        this.pickedMonth.set(null);
+      }
+    });
+  }
+
+  // ============================================
+  // Filters
+  // ============================================
+
+  onFilterChange(filters: Partial<EarningsFilters>): void {
+    this.earningsService.setFilters(filters);
+  }
+
+  clearFilters(): void {
+    this.earningsService.clearFilters();
+  }
+
+  // ============================================
+  // Statements
+  // ============================================
+
+  onStatementMonthChange(month: string): void {
+    this.pickedMonth.set(month);
+  }
+
+  async downloadStatement(format: StatementFormat): Promise<void> {
+    const month = this.statementMonth();
+    if (!month || this.isExporting()) return;
 
+    try {
+      await this.earningsService.downloadStatement(month, format);
+    } catch {
+      this.snackBar.open('Could not generate the statement. Please try again.', 'Dismiss', {
+        duration: 4000,
+      });
+    }
+  }
+}
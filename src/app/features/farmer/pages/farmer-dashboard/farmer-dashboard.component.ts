@@ -13,7 +13,7 @@ import {
   signal,
   computed,
 } from '@angular/core';
-import { CommonModule, CurrencyPipe, DatePipe } from '@angular/common';
+import { CommonModule } from '@angular/common';
 import { RouterLink } from '@angular/router';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
@@ -29,6 +29,7 @@ import {
   MandiPrice,
   ActivityItem,
 } from '../../services/farmer-dashboard.service';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
 
 @Component({
   selector: 'smc-farmer-dashboard',
@@ -36,8 +37,6 @@ import {
   imports: [
     CommonModule,
     RouterLink,
-    CurrencyPipe,
-    DatePipe,
     MatCardModule,
     MatButtonModule,
     MatIconModule,
@@ -45,6 +44,7 @@ import {
     MatBadgeModule,
     MatTooltipModule,
     MatRippleModule,
+    LocaleNumberPipe,
   ],
   templateUrl: './farmer-dashboard.component.html',
   styleUrl: './farmer-dashboard.component.scss',
@@ -78,7 +78,7 @@ export class FarmerDashboardComponent implements OnInit {
       prefix: '₹',
       suffix: '',
       format: 'currency',
-      route: '/earnings',
+      route: '/farmer/earnings',
     },
     {
       id: 'crops',
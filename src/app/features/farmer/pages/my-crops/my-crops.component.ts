@@ -3,6 +3,7 @@
  * =======================
  * Lists farmer's crop listings with virtual scrolling for performance.
  * Smart container component that manages state and delegates to CropCard.
+ * Unsaved crop and product drafts on this device are listed above.
  */
 
 import {
@@ -29,8 +30,11 @@ import { MatTooltipModule } from '@angular/material/tooltip';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
 import { MatDialog, MatDialogModule } from '@angular/material/dialog';
 
+import { DraftService } from '@infrastructure/services/draft.service';
+import { StoredDraft } from '@infrastructure/services/offline-store.service';
 import { CropService, CropListing } from '../../services/crop.service';
 import { CropCardComponent } from '../../components/crop-card/crop-card.component';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
 
 /** View mode type */
 type ViewMode = 'grid' | 'list';
@@ -66,6 +70,7 @@ interface SortOption {
     MatSnackBarModule,
     MatDialogModule,
     CropCardComponent,
+    LocaleDatePipe,
   ],
   templateUrl: './my-crops.component.html',
   styleUrl: './my-crops.component.scss',
@@ -75,8 +80,12 @@ export class MyCropsComponent implements OnInit {
   private readonly router = inject(Router);
   private readonly snackBar = inject(MatSnackBar);
   private readonly dialog = inject(MatDialog);
+  private readonly draftService = inject(DraftService);
   readonly cropService = inject(CropService);
 
+  /** Unsaved crop and product forms */
+  readonly drafts = this.draftService.drafts;
+
   /** Search query */
   readonly searchQuery = signal('');
 
@@ -231,6 +240,22 @@ export class MyCropsComponent implements OnInit {
     }
   }
 
+  /** Reopen the form a draft was saved from */
+  onResumeDraft(draft: StoredDraft): void {
+    const [form, id] = draft.key.split(':');
+    if (id.startsWith('new-')) {
+      this.router.navigate([form === 'crop' ? '/farmer/add-crop' : '/products/add'], {
+        queryParams: { draft: draft.key },
+      });
+    } else {
+      this.router.navigate(['/products/edit', id]);
+    }
+  }
+
+  onDiscardDraft(draft: StoredDraft): void {
+    this.draftService.discard(draft.key);
+  }
+
   /** Refresh crops */
   onRefresh(): void {
     this.cropService.loadCrops();
@@ -0,0 +1,238 @@
+/**
+ * Price History Component
+ * =======================
+ * Mandi price history for one crop: modal price with moving averages and
+ * daily min/max band, range statistics, and a comparison across mandis.
+ * Crop, mandis and range live in the query string so views can be shared.
+ */
+
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  input,
+  computed,
+  effect,
+  untracked,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router, RouterLink } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+
+import { TranslationService } from '@core/services/translation.service';
+import { LocaleCurrencyPipe } from '@shared/pipes/locale-currency.pipe';
+import { ChartCardComponent } from '@features/admin/components/chart-card/chart-card.component';
+import { TimeSeriesData } from '@features/admin/services/admin-dashboard.service';
+import { FarmerDashboardService } from '../../services/farmer-dashboard.service';
+import {
+  MandiPriceHistoryService,
+  PriceHistoryRange,
+  PriceTrendAnalysis,
+  MAX_COMPARED_MANDIS,
+  SHORT_AVERAGE_DAYS,
+  LONG_AVERAGE_DAYS,
+} from '../../services/mandi-price-history.service';
+
+const DEFAULT_RANGE: PriceHistoryRange = 30;
+
+@Component({
+  selector: 'smc-price-history',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterLink,
+    MatCardModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatFormFieldModule,
+    MatSelectModule,
+    MatIconModule,
+    MatProgressBarModule,
+    LocaleCurrencyPipe,
+    ChartCardComponent,
+  ],
+  templateUrl: './price-history.component.html',
+  styleUrl: './price-history.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class PriceHistoryComponent {
+  private readonly router = inject(Router);
+  private readonly translation = inject(TranslationService);
+  private readonly dashboardService = inject(FarmerDashboardService);
+  readonly historyService = inject(MandiPriceHistoryService);
+
+  /** Query param: crop name */
+  readonly crop = input<string>();
+
+  /** Query param: comma-separated mandis, primary first */
+  readonly mandis = input<string>();
+
+  /** Query param: range in days */
+  readonly range = input<string>();
+
+  readonly MAX_COMPARED_MANDIS = MAX_COMPARED_MANDIS;
+  readonly LONG_AVERAGE_DAYS = LONG_AVERAGE_DAYS;
+  readonly ranges = this.historyService.ranges;
+
+  /** Crops from the dashboard price ticker */
+  readonly crops = computed(() => [
+    ...new Set(this.dashboardService.mandiPrices().map((p) => p.cropName)),
+  ]);
+
+  readonly selectedCrop = computed(() => this.crop() || this.crops()[0] || null);
+
+  readonly selectedRange = computed<PriceHistoryRange>(() => {
+    const range = Number(this.range());
+    return this.ranges.some((r) => r.value === range) ? (range as PriceHistoryRange) : DEFAULT_RANGE;
+  });
+
+  readonly localName = computed(
+    () => this.dashboardService.mandiPrices().find((p) => p.cropName === this.selectedCrop())?.localName
+  );
+
+  readonly primary = this.historyService.primary;
+  readonly analyses = this.historyService.analyses;
+  readonly bestMandi = this.historyService.bestMandi;
+  readonly selectedMandis = this.historyService.mandis;
+  readonly availableMandis = this.historyService.availableMandis;
+  readonly isLoading = this.historyService.isLoading;
+  readonly error = this.historyService.error;
+
+  /** Primary mandi: modal price, moving averages and min/max band */
+  readonly trendChart = computed<TimeSeriesData | null>(() => {
+    const primary = this.primary();
+    if (!primary) return null;
+
+    const pointRadius = primary.points.length > 31 ? 0 : 3;
+    const band = { borderColor: 'transparent', pointRadius: 0 };
+
+    return {
+      labels: this.labels(primary),
+      datasets: [
+        {
+          label: 'Modal price',
+          data: primary.points.map((p) => p.modalPrice),
+          borderColor: '#2e7d32',
+          fill: false,
+          pointRadius,
+        },
+        {
+          label: `${SHORT_AVERAGE_DAYS}-day average`,
+          data: primary.shortAverage.map((v) => v ?? NaN),
+          borderColor: '#2196f3',
+          borderDash: [4, 4],
+          fill: false,
+          pointRadius: 0,
+        },
+        {
+          label: `${LONG_AVERAGE_DAYS}-day average`,
+          data: primary.longAverage.map((v) => v ?? NaN),
+          borderColor: '#ff9800',
+          borderDash: [8, 4],
+          fill: false,
+          pointRadius: 0,
+        },
+        {
+          ...band,
+          label: 'Daily high',
+          data: primary.points.map((p) => p.maxPrice),
+          backgroundColor: 'rgba(76, 175, 80, 0.15)',
+          fill: '+1',
+        },
+        {
+          ...band,
+          label: 'Daily low',
+          data: primary.points.map((p) => p.minPrice),
+          fill: false,
+        },
+      ],
+    };
+  });
+
+  /** Modal price at each selected mandi */
+  readonly comparisonChart = computed<TimeSeriesData | null>(() => {
+    const analyses = this.analyses();
+    if (analyses.length < 2) return null;
+
+    const pointRadius = analyses[0].points.length > 31 ? 0 : 3;
+    return {
+      labels: this.labels(analyses[0]),
+      datasets: analyses.map((a) => ({
+        label: a.mandiName,
+        data: a.points.map((p) => p.modalPrice),
+        fill: false,
+        pointRadius,
+      })),
+    };
+  });
+
+  constructor() {
+    // The ticker supplies the crop list
+    if (this.dashboardService.mandiPrices().length === 0) {
+      this.dashboardService.loadDashboard();
+    }
+
+    effect(() => {
+      const crop = this.selectedCrop();
+      const mandis = this.mandis()?.split(',').filter(Boolean) ?? [];
+      const range = this.selectedRange();
+
+      if (crop) {
+        untracked(() => this.historyService.loadHistory(crop, mandis, range));
+      }
+    });
+  }
+
+  // ============================================
+  // Selection
+  // ============================================
+
+  onCropChange(crop: string): void {
+    this.navigate({ crop, mandis: null });
+  }
+
+  onRangeChange(range: PriceHistoryRange): void {
+    this.navigate({ range });
+  }
+
+  onMandisChange(mandis: string[]): void {
+    if (mandis.length === 0) return;
+    this.navigate({ mandis: mandis.join(',') });
+  }
+
+  /** Another mandi can be added to the comparison */
+  canSelectMandi(mandi: string): boolean {
+    return this.selectedMandis().includes(mandi) || this.selectedMandis().length < MAX_COMPARED_MANDIS;
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private navigate(queryParams: Record<string, string | number | null>): void {
+    this.router.navigate([], {
+      queryParams: {
+        crop: this.selectedCrop(),
+        mandis: this.selectedMandis().join(',') || null,
+        range: this.selectedRange(),
+        ...queryParams,
+      },
+      replaceUrl: true,
+    });
+  }
+
+  private labels(analysis: PriceTrendAnalysis): string[] {
+    const format = new Intl.DateTimeFormat(this.translation.locale(), {
+      day: 'numeric',
+      month: 'short',
+      ...(analysis.points.length > 90 ? { year: '2-digit' as const } : {}),
+    });
+    return analysis.points.map((p) => format.format(p.date));
+  }
+}
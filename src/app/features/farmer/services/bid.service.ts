@@ -1,9 +1,16 @@
 import { Injectable, inject, signal, computed, OnDestroy } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable, tap, catchError, throwError, of, delay, Subject } from 'rxjs';
+import { HttpClient, HttpHeaders } from '@angular/common/http';
+import { Observable, tap, catchError, throwError, of, delay, Subject, interval, EMPTY } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
 import { environment } from '@environments/environment';
 import { SocketService, BidEvent } from '@infrastructure/services/socket.service';
+import { OFFLINE_QUEUE_HEADER, OfflineQueuedError } from '@infrastructure/services/request-queue.service';
+
+/** Maximum offers (initial bid plus counters) in one negotiation */
+export const MAX_NEGOTIATION_ROUNDS = 5;
+
+/** How long the other party has to respond to an offer */
+export const NEGOTIATION_WINDOW_MS = 24 * 60 * 60 * 1000;
 
 /**
  * Bid Status
@@ -14,6 +21,39 @@ export enum BidStatus {
   REJECTED = 'REJECTED',
   EXPIRED = 'EXPIRED',
   COUNTERED = 'COUNTERED',
+  WITHDRAWN = 'WITHDRAWN',
+}
+
+/**
+ * Negotiating Party
+ */
+export enum BidParty {
+  BUYER = 'BUYER',
+  FARMER = 'FARMER',
+}
+
+/**
+ * One offer in a bid negotiation
+ */
+export interface BidOffer {
+  readonly id: string;
+  readonly round: number;
+  readonly offeredBy: BidParty;
+  readonly amount: number;
+  readonly quantity: number;
+  readonly deliveryDate: Date;
+  readonly message?: string;
+  readonly createdAt: Date;
+}
+
+/**
+ * Counter-offer terms
+ */
+export interface CounterOfferDto {
+  readonly amount: number;
+  readonly quantity: number;
+  readonly deliveryDate: Date;
+  readonly message?: string;
 }
 
 /**
@@ -38,6 +78,74 @@ export interface Bid {
   readonly createdAt: Date;
   readonly expiresAt: Date;
   readonly respondedAt?: Date;
+  /** Delivery date of the terms currently on the table */
+  readonly deliveryDate?: Date;
+  /** Offers in order, the last one being the current terms */
+  readonly history: BidOffer[];
+}
+
+/**
+ * Party expected to act next on a bid
+ */
+export function awaitingResponseFrom(bid: Bid): BidParty {
+  const last = bid.history[bid.history.length - 1];
+  return last?.offeredBy === BidParty.FARMER ? BidParty.BUYER : BidParty.FARMER;
+}
+
+/**
+ * Whether a party can accept, reject or counter a bid right now
+ */
+export function isAwaitingResponse(bid: Bid, party: BidParty, now = new Date()): boolean {
+  return (
+    (bid.status === BidStatus.PENDING || bid.status === BidStatus.COUNTERED) &&
+    new Date(bid.expiresAt).getTime() > now.getTime() &&
+    awaitingResponseFrom(bid) === party
+  );
+}
+
+/**
+ * Whether a party can still make a counter-offer on a bid
+ */
+export function canCounterOffer(bid: Bid, party: BidParty, now = new Date()): boolean {
+  return isAwaitingResponse(bid, party, now) && bid.history.length < MAX_NEGOTIATION_ROUNDS;
+}
+
+/**
+ * Apply a new offer to a bid: the offer becomes the current terms
+ * and the response window restarts.
+ */
+export function applyOffer(bid: Bid, offer: BidOffer, expiresAt?: Date): Bid {
+  if (bid.history.some((o) => o.id === offer.id)) return bid;
+
+  return {
+    ...bid,
+    amount: offer.amount,
+    quantity: offer.quantity,
+    totalValue: offer.amount * offer.quantity,
+    deliveryDate: offer.deliveryDate,
+    message: offer.message ?? bid.message,
+    status: bid.history.length === 0 ? BidStatus.PENDING : BidStatus.COUNTERED,
+    expiresAt: expiresAt ?? new Date(new Date(offer.createdAt).getTime() + NEGOTIATION_WINDOW_MS),
+    history: [...bid.history, offer],
+  };
+}
+
+/**
+ * Build a bid offer from a socket event payload
+ */
+export function offerFromEvent(event: BidEvent, round: number): BidOffer | null {
+  if (!event.offer) return null;
+
+  return {
+    id: event.offer.offerId,
+    round,
+    offeredBy: event.offer.offeredBy as BidParty,
+    amount: event.offer.amount,
+    quantity: event.offer.quantity,
+    deliveryDate: new Date(event.offer.deliveryDate),
+    message: event.offer.message,
+    createdAt: new Date(event.offer.timestamp),
+  };
 }
 
 /**
@@ -79,6 +187,7 @@ export class BidService implements OnDestroy {
   private readonly socketService = inject(SocketService);
   private readonly apiUrl = `${environment.apiUrl}/farmer/bids`;
   private readonly destroy$ = new Subject<void>();
+  private expiryTimerStarted = false;
 
   // ============================================
   // Private State Signal
@@ -161,6 +270,7 @@ export class BidService implements OnDestroy {
     this.socketService.connect();
     this.socketService.joinCropBidsRoom(cropId);
     this.setupSocketListeners(cropId);
+    this.startExpiryTimer();
 
     if (!environment.production) {
       // Use mock data in development
@@ -222,7 +332,9 @@ export class BidService implements OnDestroy {
       );
     }
 
-    return this.http.post<Bid>(`${this.apiUrl}/${bidId}/accept`, {}).pipe(
+    const headers = new HttpHeaders({ [OFFLINE_QUEUE_HEADER]: 'Accept bid' });
+
+    return this.http.post<Bid>(`${this.apiUrl}/${bidId}/accept`, {}, { headers }).pipe(
       tap((bid) => {
         this.updateBidInState(bid);
         this.updateState({
@@ -231,6 +343,14 @@ export class BidService implements OnDestroy {
         });
       }),
       catchError((error) => {
+        if (error instanceof OfflineQueuedError) {
+          const bid = this.updateBidStatus(bidId, BidStatus.ACCEPTED);
+          this.updateState({
+            isProcessing: false,
+            successMessage: `You are offline. Acceptance of ${bid.buyerName}'s bid will be sent when you reconnect.`,
+          });
+          return of(bid);
+        }
         this.updateState({
           isProcessing: false,
           error: 'Failed to accept bid',
@@ -277,31 +397,50 @@ export class BidService implements OnDestroy {
   }
 
   /**
-   * Counter a bid with new price
+   * Counter a bid with new terms.
+   * Fails once the negotiation has reached MAX_NEGOTIATION_ROUNDS.
    */
-  counterBid(bidId: string, counterAmount: number): Observable<Bid> {
+  counterBid(bidId: string, offer: CounterOfferDto): Observable<Bid> {
+    const bid = this._state().bids.find((b) => b.id === bidId);
+    if (bid && !canCounterOffer(bid, BidParty.FARMER)) {
+      const error = bid.history.length >= MAX_NEGOTIATION_ROUNDS
+        ? `Negotiation limit of ${MAX_NEGOTIATION_ROUNDS} rounds reached`
+        : 'This bid is no longer open for negotiation';
+      this.updateState({ error });
+      return throwError(() => new Error(error));
+    }
+
     this.updateState({ isProcessing: true, error: null, successMessage: null });
 
-    if (!environment.production) {
-      return of(this.updateBidStatus(bidId, BidStatus.COUNTERED)).pipe(
+    if (!environment.production && bid) {
+      const updated = applyOffer(bid, {
+        id: `offer_${Date.now()}`,
+        round: bid.history.length + 1,
+        offeredBy: BidParty.FARMER,
+        ...offer,
+        createdAt: new Date(),
+      });
+
+      return of(updated).pipe(
         delay(1000),
-        tap(() => {
+        tap((counteredBid) => {
+          this.updateBidInState({ ...counteredBid, respondedAt: new Date() });
           this.updateState({
             isProcessing: false,
-            successMessage: `Counter offer of ₹${counterAmount} sent`,
+            successMessage: `Counter offer of ₹${offer.amount} sent (round ${counteredBid.history.length} of ${MAX_NEGOTIATION_ROUNDS})`,
           });
         })
       );
     }
 
     return this.http
-      .post<Bid>(`${this.apiUrl}/${bidId}/counter`, { counterAmount })
+      .post<Bid>(`${this.apiUrl}/${bidId}/counter`, offer)
       .pipe(
-        tap((bid) => {
-          this.updateBidInState(bid);
+        tap((counteredBid) => {
+          this.updateBidInState(counteredBid);
           this.updateState({
             isProcessing: false,
-            successMessage: `Counter offer of ₹${counterAmount} sent`,
+            successMessage: `Counter offer of ₹${offer.amount} sent`,
           });
         }),
         catchError((error) => {
@@ -336,7 +475,7 @@ export class BidService implements OnDestroy {
         }
       });
 
-    // Bid updated
+    // Bid updated (including buyer counter-offers)
     this.socketService
       .on('bid:updated')
       .pipe(takeUntil(this.destroy$))
@@ -345,6 +484,48 @@ export class BidService implements OnDestroy {
           this.handleBidUpdated(event);
         }
       });
+
+    // Bid expired on the server
+    this.socketService
+      .on('bid:expired')
+      .pipe(catchError(() => EMPTY), takeUntil(this.destroy$))
+      .subscribe((event) => {
+        if (event.cropId === cropId) {
+          this.markExpired([event.bidId]);
+        }
+      });
+  }
+
+  /**
+   * Expire open bids locally once their response window closes
+   */
+  private startExpiryTimer(): void {
+    if (this.expiryTimerStarted) return;
+    this.expiryTimerStarted = true;
+
+    interval(30000)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.expireStaleBids());
+  }
+
+  private expireStaleBids(): void {
+    const now = Date.now();
+    const stale = this._state().bids.filter(
+      (b) =>
+        (b.status === BidStatus.PENDING || b.status === BidStatus.COUNTERED) &&
+        new Date(b.expiresAt).getTime() <= now
+    );
+    if (stale.length > 0) {
+      this.markExpired(stale.map((b) => b.id));
+    }
+  }
+
+  private markExpired(bidIds: string[]): void {
+    const bids = this._state().bids.map((bid) =>
+      bidIds.includes(bid.id) ? { ...bid, status: BidStatus.EXPIRED, isHighest: false } : bid
+    );
+    this.updateState({ bids });
+    this.recalculateHighestBid();
   }
 
   private handleNewBid(event: BidEvent): void {
@@ -364,7 +545,11 @@ export class BidService implements OnDestroy {
       status: BidStatus.PENDING,
       isHighest: false,
       createdAt: new Date(event.timestamp),
-      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      expiresAt: event.expiresAt
+        ? new Date(event.expiresAt)
+        : new Date(Date.now() + NEGOTIATION_WINDOW_MS),
+      deliveryDate: event.offer ? new Date(event.offer.deliveryDate) : undefined,
+      history: [offerFromEvent(event, 1)].filter((o): o is BidOffer => o !== null),
     };
 
     this.updateState({
@@ -375,12 +560,16 @@ export class BidService implements OnDestroy {
   }
 
   private handleBidUpdated(event: BidEvent): void {
-    // Update bid in state
-    const bids = this._state().bids.map((bid) =>
-      bid.id === event.bidId
-        ? { ...bid, amount: event.amount, quantity: event.quantity }
-        : bid
-    );
+    const bids = this._state().bids.map((bid) => {
+      if (bid.id !== event.bidId) return bid;
+
+      const offer = offerFromEvent(event, bid.history.length + 1);
+      const updated = offer
+        ? applyOffer(bid, offer, event.expiresAt ? new Date(event.expiresAt) : undefined)
+        : { ...bid, amount: event.amount, quantity: event.quantity };
+
+      return event.status ? { ...updated, status: event.status as BidStatus } : updated;
+    });
     this.updateState({ bids });
     this.recalculateHighestBid();
   }
@@ -432,6 +621,9 @@ export class BidService implements OnDestroy {
 
   private getMockBids(cropId: string): Bid[] {
     const now = Date.now();
+    const MINUTE = 60 * 1000;
+    const HOUR = 60 * MINUTE;
+    const DAY = 24 * HOUR;
     return [
       {
         id: 'bid_1',
@@ -451,6 +643,10 @@ export class BidService implements OnDestroy {
         isHighest: true,
         createdAt: new Date(now - 15 * 60 * 1000),
         expiresAt: new Date(now + 23 * 60 * 60 * 1000),
+        deliveryDate: new Date(now + 3 * DAY),
+        history: [
+          this.mockOffer('bid_1', 1, BidParty.BUYER, 52, 200, now - 15 * MINUTE, 'Interested in bulk purchase. Can pickup tomorrow.'),
+        ],
       },
       {
         id: 'bid_2',
@@ -464,11 +660,17 @@ export class BidService implements OnDestroy {
         quantity: 150,
         unit: 'kg',
         totalValue: 7200,
-        message: 'Regular supplier needed',
-        status: BidStatus.PENDING,
+        message: 'Meet me at ₹48 and I will order weekly.',
+        status: BidStatus.COUNTERED,
         isHighest: false,
         createdAt: new Date(now - 45 * 60 * 1000),
         expiresAt: new Date(now + 22 * 60 * 60 * 1000),
+        deliveryDate: new Date(now + 3 * DAY),
+        history: [
+          this.mockOffer('bid_2', 1, BidParty.BUYER, 44, 150, now - 5 * HOUR, 'Regular supplier needed'),
+          this.mockOffer('bid_2', 2, BidParty.FARMER, 50, 150, now - 3 * HOUR, 'Best I can do for Grade A.'),
+          this.mockOffer('bid_2', 3, BidParty.BUYER, 48, 150, now - 45 * MINUTE, 'Meet me at ₹48 and I will order weekly.'),
+        ],
       },
       {
         id: 'bid_3',
@@ -486,6 +688,8 @@ export class BidService implements OnDestroy {
         isHighest: false,
         createdAt: new Date(now - 2 * 60 * 60 * 1000),
         expiresAt: new Date(now + 20 * 60 * 60 * 1000),
+        deliveryDate: new Date(now + 3 * DAY),
+        history: [this.mockOffer('bid_3', 1, BidParty.BUYER, 50, 100, now - 2 * HOUR)],
       },
       {
         id: 'bid_4',
@@ -505,6 +709,10 @@ export class BidService implements OnDestroy {
         createdAt: new Date(now - 5 * 60 * 60 * 1000),
         expiresAt: new Date(now + 18 * 60 * 60 * 1000),
         respondedAt: new Date(now - 3 * 60 * 60 * 1000),
+        deliveryDate: new Date(now + 3 * DAY),
+        history: [
+          this.mockOffer('bid_4', 1, BidParty.BUYER, 46, 300, now - 5 * HOUR, 'Can wait for harvest'),
+        ],
       },
       {
         id: 'bid_5',
@@ -523,10 +731,33 @@ export class BidService implements OnDestroy {
         createdAt: new Date(now - 8 * 60 * 60 * 1000),
         expiresAt: new Date(now + 15 * 60 * 60 * 1000),
         respondedAt: new Date(now - 6 * 60 * 60 * 1000),
+        deliveryDate: new Date(now + 3 * DAY),
+        history: [this.mockOffer('bid_5', 1, BidParty.BUYER, 42, 50, now - 8 * HOUR)],
       },
     ];
   }
 
+  private mockOffer(
+    bidId: string,
+    round: number,
+    offeredBy: BidParty,
+    amount: number,
+    quantity: number,
+    at: number,
+    message?: string
+  ): BidOffer {
+    return {
+      id: `${bidId}_offer_${round}`,
+      round,
+      offeredBy,
+      amount,
+      quantity,
+      deliveryDate: new Date(at + 3 * 24 * 60 * 60 * 1000),
+      message,
+      createdAt: new Date(at),
+    };
+  }
+
   private getMockCropSummary(cropId: string): CropBidSummary {
     return {
       cropId,
@@ -0,0 +1,302 @@
+/**
+ * Crop Import
+ * ===========
+ * Turns spreadsheet rows into crop listings for the bulk import wizard.
+ * Columns are mapped to `CreateCropDto` fields and each row is checked
+ * against the same rules as the add-crop form. Photos are matched by file
+ * name against the entries of an uploaded zip.
+ */
+
+import { toCsv } from '@shared/services/file-export';
+import { excelSerialToDate } from '@shared/services/file-import';
+import { ZipEntry } from '@shared/services/zip-reader';
+import { CROP_RULES, harvestDateWindow } from './crop-rules';
+import { CreateCropDto, CropCategory, QualityGrade, QUALITY_GRADE_LABELS } from './crop.service';
+
+export type CropImportField = keyof CreateCropDto | 'images';
+
+export interface CropImportColumn {
+  readonly field: CropImportField;
+  readonly label: string;
+  readonly required: boolean;
+  /** Header names recognised when guessing the mapping, normalised */
+  readonly aliases: readonly string[];
+}
+
+export const CROP_IMPORT_COLUMNS: readonly CropImportColumn[] = [
+  { field: 'cropName', label: 'Crop name', required: true, aliases: ['cropname', 'crop', 'name', 'product'] },
+  { field: 'category', label: 'Category', required: true, aliases: ['category', 'type'] },
+  { field: 'quantity', label: 'Quantity', required: true, aliases: ['quantity', 'qty'] },
+  { field: 'unit', label: 'Unit', required: true, aliases: ['unit', 'uom'] },
+  {
+    field: 'expectedPrice',
+    label: 'Price per unit (₹)',
+    required: true,
+    aliases: ['expectedprice', 'price', 'priceperunit', 'rate'],
+  },
+  { field: 'qualityGrade', label: 'Quality grade', required: true, aliases: ['qualitygrade', 'quality', 'grade'] },
+  { field: 'harvestDate', label: 'Harvest date', required: true, aliases: ['harvestdate', 'harvest', 'date'] },
+  { field: 'description', label: 'Description', required: false, aliases: ['description', 'notes', 'details'] },
+  { field: 'isOrganic', label: 'Organic', required: false, aliases: ['isorganic', 'organic'] },
+  { field: 'images', label: 'Photos', required: true, aliases: ['images', 'photos', 'image', 'photo', 'files'] },
+];
+
+/** Spreadsheet column index per field; unmapped fields are left out */
+export type CropImportMapping = Partial<Record<CropImportField, number>>;
+
+export interface CropImportRow {
+  /** Row number as shown in the spreadsheet, header being row 1 */
+  readonly rowNumber: number;
+  /** Set when the row has no errors */
+  readonly dto: CreateCropDto | null;
+  readonly images: ZipEntry[];
+  readonly errors: string[];
+}
+
+export interface CropImportContext {
+  readonly categories: CropCategory[];
+  readonly units: readonly { value: string; label: string }[];
+  /** Zip entries keyed by `imageKey` */
+  readonly images: ReadonlyMap<string, ZipEntry>;
+  readonly now?: Date;
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+const GRADE_ALIASES: Record<string, QualityGrade> = {
+  a: QualityGrade.GRADE_A,
+  b: QualityGrade.GRADE_B,
+  std: QualityGrade.STANDARD,
+  ...Object.fromEntries(
+    Object.values(QualityGrade).flatMap((grade) => [
+      [normalise(grade), grade],
+      [normalise(QUALITY_GRADE_LABELS[grade]), grade],
+    ])
+  ),
+};
+
+const TRUE_VALUES = ['yes', 'y', 'true', '1', 'organic'];
+const FALSE_VALUES = ['no', 'n', 'false', '0', ''];
+
+// ============================================
+// Mapping
+// ============================================
+
+/**
+ * Map columns whose header matches a field name or alias
+ */
+export function guessColumnMapping(headers: string[]): CropImportMapping {
+  const mapping: CropImportMapping = {};
+  const taken = new Set<number>();
+
+  for (const column of CROP_IMPORT_COLUMNS) {
+    const index = headers.findIndex((header, i) => !taken.has(i) && column.aliases.includes(normalise(header)));
+    if (index >= 0) {
+      mapping[column.field] = index;
+      taken.add(index);
+    }
+  }
+  return mapping;
+}
+
+/** Required fields with no column mapped */
+export function unmappedRequiredColumns(mapping: CropImportMapping): CropImportColumn[] {
+  return CROP_IMPORT_COLUMNS.filter((column) => column.required && mapping[column.field] === undefined);
+}
+
+/** Key a photo is looked up by: the lower-cased file name without folders */
+export function imageKey(path: string): string {
+  return path.split('/').pop()!.trim().toLowerCase();
+}
+
+/** Headers and an example row, for farmers starting a new sheet */
+export function buildCropImportTemplate(now = new Date()): string {
+  const harvest = new Date(now.getFullYear(), now.getMonth() + 1, 1).toLocaleDateString('en-GB');
+  return toCsv([
+    CROP_IMPORT_COLUMNS.map((column) => column.label),
+    ['Tomato', 'Vegetables', 500, 'kg', 25, 'Grade A', harvest, 'Hybrid, firm', 'No', 'tomato-1.jpg; tomato-2.jpg'],
+  ]);
+}
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Check every data row (the first row is the header) and build its listing
+ */
+export function validateCropRows(
+  rows: string[][],
+  mapping: CropImportMapping,
+  context: CropImportContext
+): CropImportRow[] {
+  const window = harvestDateWindow(context.now);
+
+  return rows.slice(1).map((cells, i) => {
+    const errors: string[] = [];
+    const cell = (field: CropImportField) => {
+      const index = mapping[field];
+      return index === undefined ? '' : (cells[index] ?? '').trim();
+    };
+
+    const cropName = cell('cropName');
+    if (!cropName) {
+      errors.push('Crop name is required');
+    } else if (cropName.length < CROP_RULES.cropNameMinLength || cropName.length > CROP_RULES.cropNameMaxLength) {
+      errors.push(
+        `Crop name must be ${CROP_RULES.cropNameMinLength}–${CROP_RULES.cropNameMaxLength} characters`
+      );
+    }
+
+    const categoryText = cell('category').toLowerCase();
+    const category = context.categories.find(
+      (c) => c.name.toLowerCase() === categoryText || c.localName === cell('category')
+    );
+    if (!category) errors.push(`Unknown category "${cell('category')}"`);
+
+    const quantity = parseNumber(cell('quantity'));
+    if (quantity === null) {
+      errors.push('Quantity must be a number');
+    } else if (quantity < CROP_RULES.quantityMin || quantity > CROP_RULES.quantityMax) {
+      errors.push(`Quantity must be between ${CROP_RULES.quantityMin} and ${CROP_RULES.quantityMax}`);
+    }
+
+    const unit = context.units.find((u) => u.value === cell('unit').toLowerCase());
+    if (!unit) errors.push(`Unknown unit "${cell('unit')}"`);
+
+    const expectedPrice = parseNumber(cell('expectedPrice'));
+    if (expectedPrice === null) {
+      errors.push('Price must be a number');
+    } else if (expectedPrice < CROP_RULES.priceMin || expectedPrice > CROP_RULES.priceMax) {
+      errors.push(`Price must be between ₹${CROP_RULES.priceMin} and ₹${CROP_RULES.priceMax}`);
+    }
+
+    const qualityGrade = GRADE_ALIASES[normalise(cell('qualityGrade'))];
+    if (!qualityGrade) errors.push(`Unknown quality grade "${cell('qualityGrade')}"`);
+
+    const harvestDate = parseDate(cell('harvestDate'));
+    if (!harvestDate) {
+      errors.push('Harvest date must be a date like 25/12/2026');
+    } else if (harvestDate < window.min || harvestDate > window.max) {
+      errors.push(`Harvest date must be within the next ${CROP_RULES.harvestWindowDays} days`);
+    }
+
+    const description = cell('description');
+    if (description.length > CROP_RULES.descriptionMaxLength) {
+      errors.push(`Description must be at most ${CROP_RULES.descriptionMaxLength} characters`);
+    }
+
+    const organicText = cell('isOrganic').toLowerCase();
+    const isOrganic = TRUE_VALUES.includes(organicText);
+    if (!isOrganic && !FALSE_VALUES.includes(organicText)) {
+      errors.push(`Organic must be Yes or No, not "${cell('isOrganic')}"`);
+    }
+
+    const images = matchImages(cell('images'), context.images, errors);
+
+    const dto: CreateCropDto | null =
+      errors.length === 0
+        ? {
+            cropName,
+            category: category!.name,
+            quantity: quantity!,
+            unit: unit!.value,
+            expectedPrice: expectedPrice!,
+            qualityGrade,
+            harvestDate: harvestDate!,
+            description: description || undefined,
+            isOrganic,
+          }
+        : null;
+
+    return { rowNumber: i + 2, dto, images, errors };
+  });
+}
+
+/** Photos of a row as files for upload */
+export async function imageFiles(entries: ZipEntry[]): Promise<File[]> {
+  return Promise.all(
+    entries.map(async (entry) => {
+      const name = imageKey(entry.name);
+      return new File([await entry.blob()], name, { type: IMAGE_TYPES[extension(name)] });
+    })
+  );
+}
+
+// ============================================
+// Private Helpers
+// ============================================
+
+/** Lower-case letters and digits only: "Grade A" → "gradea" */
+function normalise(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function extension(name: string): string {
+  return name.slice(name.lastIndexOf('.') + 1);
+}
+
+/** Accepts thousands separators and a rupee sign */
+function parseNumber(text: string): number | null {
+  const cleaned = text.replace(/[₹,\s]/g, '');
+  if (cleaned === '') return null;
+  const value = Number(cleaned);
+  return Number.isFinite(value) ? value : null;
+}
+
+/** ISO (2026-12-25), Indian day-first (25/12/2026, 25-12-2026) or an Excel serial */
+function parseDate(text: string): Date | null {
+  let year: number, month: number, day: number;
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/))) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if (/^\d{5}(\.\d+)?$/.test(text)) {
+    return excelSerialToDate(Number(text));
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+  // Reject roll-overs such as 31/02
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+function matchImages(text: string, available: ReadonlyMap<string, ZipEntry>, errors: string[]): ZipEntry[] {
+  const names = text
+    .split(/[;|\n]/)
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  if (names.length === 0) {
+    errors.push('At least one photo is required');
+    return [];
+  }
+  if (names.length > CROP_RULES.maxImages) {
+    errors.push(`At most ${CROP_RULES.maxImages} photos per listing`);
+  }
+
+  const entries: ZipEntry[] = [];
+  for (const name of names) {
+    const entry = available.get(imageKey(name));
+    const type = IMAGE_TYPES[extension(imageKey(name))];
+
+    if (!entry) {
+      errors.push(`Photo "${name}" is not in the zip`);
+    } else if (!type || !(CROP_RULES.imageTypes as readonly string[]).includes(type)) {
+      errors.push(`Photo "${name}" must be a JPEG, PNG or WebP image`);
+    } else if (entry.size > CROP_RULES.maxImageSize) {
+      errors.push(`Photo "${name}" is larger than ${CROP_RULES.maxImageSize / (1024 * 1024)}MB`);
+    } else {
+      entries.push(entry);
+    }
+  }
+  return entries;
+}
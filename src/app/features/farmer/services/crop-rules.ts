@@ -0,0 +1,30 @@
+/**
+ * Crop Listing Rules
+ * ==================
+ * Limits a crop listing must meet, shared by the add-crop form and the
+ * bulk import so both accept the same listings.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const CROP_RULES = {
+  cropNameMinLength: 2,
+  cropNameMaxLength: 100,
+  quantityMin: 1,
+  quantityMax: 100000,
+  priceMin: 1,
+  priceMax: 1000000,
+  descriptionMaxLength: 500,
+  /** Harvest may be today or up to this many days ahead */
+  harvestWindowDays: 365,
+  maxImages: 5,
+  /** Bytes per image */
+  maxImageSize: 5 * 1024 * 1024,
+  imageTypes: ['image/jpeg', 'image/png', 'image/webp'],
+} as const;
+
+/** Earliest and latest allowed harvest dates, from today */
+export function harvestDateWindow(now = new Date()): { min: Date; max: Date } {
+  const min = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return { min, max: new Date(min.getTime() + CROP_RULES.harvestWindowDays * DAY_MS) };
+}
@@ -1,7 +1,8 @@
 import { Injectable, inject, signal, computed } from '@angular/core';
-import { HttpClient, HttpEventType } from '@angular/common/http';
+import { HttpClient, HttpEventType, HttpHeaders } from '@angular/common/http';
 import { Observable, tap, catchError, throwError, of, delay, forkJoin, map, switchMap } from 'rxjs';
 import { environment } from '@environments/environment';
+import { OFFLINE_QUEUE_HEADER, OfflineQueuedError } from '@infrastructure/services/request-queue.service';
 
 /**
  * Quality Grade Enum
@@ -237,7 +238,9 @@ export class CropService {
     });
     images.forEach((image) => formData.append('images', image));
 
-    return this.http.post<CropListing>(this.apiUrl, formData).pipe(
+    const headers = new HttpHeaders({ [OFFLINE_QUEUE_HEADER]: 'Add crop' });
+
+    return this.http.post<CropListing>(this.apiUrl, formData, { headers }).pipe(
       tap((crop) => {
         this.updateState({
           crops: [crop, ...this._state().crops],
@@ -246,6 +249,15 @@ export class CropService {
         });
       }),
       catchError((error) => {
+        if (error instanceof OfflineQueuedError) {
+          const crop = this.createMockCrop(data);
+          this.updateState({
+            crops: [crop, ...this._state().crops],
+            isSubmitting: false,
+            successMessage: 'You are offline. The crop listing will be published when you reconnect.',
+          });
+          return of(crop);
+        }
         this.updateState({
           isSubmitting: false,
           error: error.error?.message || 'Failed to create crop listing',
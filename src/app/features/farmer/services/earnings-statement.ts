@@ -0,0 +1,228 @@
+/**
+ * Earnings Statement
+ * ==================
+ * Monthly payout statements generated in the browser as CSV or PDF.
+ * jsPDF is loaded on demand so it stays out of the earnings page bundle.
+ */
+
+import { toCsv } from '@shared/services/file-export';
+import {
+  EarningsTotals,
+  SettlementLine,
+  PAYOUT_STATUS_CONFIG,
+} from './earnings.service';
+
+export interface EarningsStatement {
+  /** YYYY-MM */
+  readonly month: string;
+  readonly periodLabel: string;
+  readonly farmerName: string;
+  /** Oldest first */
+  readonly lines: SettlementLine[];
+  readonly totals: EarningsTotals;
+  readonly generatedAt: Date;
+}
+
+const formatDate = (date: Date | undefined) =>
+  date ? date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }) : '';
+
+/** Rounded to paise, kept a number for the CSV */
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const formatAmount = (value: number) =>
+  value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// ============================================
+// CSV
+// ============================================
+
+/**
+ * One row per order followed by a totals row. Amounts are plain numbers
+ * so spreadsheets can sum them.
+ */
+export function buildStatementCsv(statement: EarningsStatement): string {
+  const { lines, totals } = statement;
+
+  return toCsv([
+    [`Earnings statement: ${statement.periodLabel}`],
+    [`Farmer: ${statement.farmerName}`],
+    [`Generated: ${formatDate(statement.generatedAt)}`],
+    [],
+    [
+      'Delivered',
+      'Order',
+      'Crop',
+      'Buyer',
+      'Quantity',
+      'Unit',
+      'Gross (INR)',
+      'Platform fee (INR)',
+      'Delivery deduction (INR)',
+      'Net (INR)',
+      'Payout status',
+      'Payout date',
+      'Payout reference',
+    ],
+    ...lines.map((line) => [
+      formatDate(line.deliveredAt),
+      line.orderNumber,
+      line.cropName,
+      line.buyerName,
+      line.quantity,
+      line.unit,
+      roundAmount(line.gross),
+      roundAmount(line.platformFee),
+      roundAmount(line.deliveryDeduction),
+      roundAmount(line.net),
+      PAYOUT_STATUS_CONFIG[line.payoutStatus].label,
+      formatDate(line.settledAt ?? line.expectedPayoutDate),
+      line.payoutReference,
+    ]),
+    [],
+    [
+      'Total',
+      `${totals.orders} orders`,
+      '',
+      '',
+      '',
+      '',
+      roundAmount(totals.gross),
+      roundAmount(totals.platformFee),
+      roundAmount(totals.deliveryDeduction),
+      roundAmount(totals.net),
+    ],
+    ['Settled', '', '', '', '', '', '', '', '', roundAmount(totals.settled)],
+    ['Pending', '', '', '', '', '', '', '', '', roundAmount(totals.pending)],
+  ]);
+}
+
+// ============================================
+// PDF
+// ============================================
+
+/** Table columns: header, width in mm, alignment */
+const PDF_COLUMNS: { header: string; width: number; align: 'left' | 'right' }[] = [
+  { header: 'Delivered', width: 22, align: 'left' },
+  { header: 'Order', width: 26, align: 'left' },
+  { header: 'Crop', width: 32, align: 'left' },
+  { header: 'Gross', width: 22, align: 'right' },
+  { header: 'Fee', width: 16, align: 'right' },
+  { header: 'Delivery', width: 18, align: 'right' },
+  { header: 'Net', width: 24, align: 'right' },
+  { header: 'Status', width: 20, align: 'left' },
+];
+
+/**
+ * A4 statement with a summary and a line-item table. The built-in PDF fonts
+ * have no rupee glyph, so amounts are labelled "Rs.".
+ */
+export async function buildStatementPdf(statement: EarningsStatement): Promise<Blob> {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+
+  const margin = 14;
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let y = margin;
+
+  // Header
+  doc.setFont('helvetica', 'bold').setFontSize(16).setTextColor(27, 94, 32);
+  doc.text('Smart Mandi Connect', margin, y + 4);
+  doc.setFontSize(12).setTextColor(33, 33, 33);
+  doc.text(`Earnings Statement: ${statement.periodLabel}`, margin, y + 12);
+  doc.setFont('helvetica', 'normal').setFontSize(9).setTextColor(97, 97, 97);
+  doc.text(`Farmer: ${statement.farmerName}`, margin, y + 18);
+  doc.text(`Generated on ${formatDate(statement.generatedAt)}`, pageWidth - margin, y + 18, {
+    align: 'right',
+  });
+  y += 26;
+
+  // Summary
+  const { totals } = statement;
+  const summary: [string, number][] = [
+    ['Gross sales', totals.gross],
+    ['Platform fees', -totals.platformFee],
+    ['Delivery deductions', -totals.deliveryDeduction],
+    ['Net earnings', totals.net],
+    ['Settled', totals.settled],
+    ['Pending payout', totals.pending],
+  ];
+  doc.setDrawColor(224, 224, 224).setFillColor(245, 248, 245);
+  doc.roundedRect(margin, y, pageWidth - margin * 2, 26, 2, 2, 'FD');
+  summary.forEach(([label, value], i) => {
+    const x = margin + 4 + (i % 3) * ((pageWidth - margin * 2) / 3);
+    const rowY = y + 8 + Math.floor(i / 3) * 11;
+    doc.setFontSize(8).setTextColor(117, 117, 117).text(label, x, rowY);
+    doc.setFont('helvetica', 'bold').setFontSize(10).setTextColor(33, 33, 33);
+    doc.text(`Rs. ${formatAmount(value)}`, x, rowY + 5);
+    doc.setFont('helvetica', 'normal');
+  });
+  y += 34;
+
+  // Line items
+  const drawHeader = () => {
+    doc.setFillColor(27, 94, 32).rect(margin, y - 4.5, pageWidth - margin * 2, 7, 'F');
+    doc.setFont('helvetica', 'bold').setFontSize(8).setTextColor(255, 255, 255);
+    drawRow(PDF_COLUMNS.map((c) => c.header));
+    doc.setFont('helvetica', 'normal').setTextColor(33, 33, 33);
+    y += 7;
+  };
+  const drawRow = (cells: string[]) => {
+    let x = margin + 1.5;
+    cells.forEach((cell, i) => {
+      const { width, align } = PDF_COLUMNS[i];
+      const text = doc.splitTextToSize(cell, width - 2)[0] ?? '';
+      doc.text(text, align === 'right' ? x + width - 3 : x, y, { align });
+      x += width;
+    });
+  };
+
+  drawHeader();
+  statement.lines.forEach((line, index) => {
+    if (y > pageHeight - margin - 10) {
+      doc.addPage();
+      y = margin + 4;
+      drawHeader();
+    }
+    if (index % 2 === 1) {
+      doc.setFillColor(248, 248, 248).rect(margin, y - 4, pageWidth - margin * 2, 6, 'F');
+    }
+    drawRow([
+      formatDate(line.deliveredAt),
+      line.orderNumber,
+      `${line.cropName} (${line.quantity} ${line.unit})`,
+      formatAmount(line.gross),
+      formatAmount(line.platformFee),
+      formatAmount(line.deliveryDeduction),
+      formatAmount(line.net),
+      PAYOUT_STATUS_CONFIG[line.payoutStatus].label,
+    ]);
+    y += 6;
+  });
+
+  // Totals row
+  doc.setDrawColor(189, 189, 189).line(margin, y - 3.5, pageWidth - margin, y - 3.5);
+  doc.setFont('helvetica', 'bold');
+  y += 1.5;
+  drawRow([
+    'Total',
+    `${totals.orders} orders`,
+    '',
+    formatAmount(totals.gross),
+    formatAmount(totals.platformFee),
+    formatAmount(totals.deliveryDeduction),
+    formatAmount(totals.net),
+    '',
+  ]);
+
+  // Footer on every page
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal').setFontSize(7).setTextColor(158, 158, 158);
+    doc.text('Amounts in Indian Rupees. This is a system-generated statement.', margin, pageHeight - 8);
+    doc.text(`Page ${page} of ${pages}`, pageWidth - margin, pageHeight - 8, { align: 'right' });
+  }
+
+  return doc.output('blob');
+}
@@ -0,0 +1,349 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { tap, catchError, of, delay, map } from 'rxjs';
+import { environment } from '@environments/environment';
+import { AuthService } from '@core/services/auth.service';
+import { PLATFORM_FEE_RATE } from '@features/cart/services/cart.service';
+import { downloadFile } from '@shared/services/file-export';
+import {
+  EarningsStatement,
+  buildStatementCsv,
+  buildStatementPdf,
+} from './earnings-statement';
+
+/**
+ * Payout status of a settlement line
+ */
+export enum PayoutStatus {
+  PENDING = 'PENDING',
+  PROCESSING = 'PROCESSING',
+  SETTLED = 'SETTLED',
+}
+
+export const PAYOUT_STATUS_CONFIG: Record<PayoutStatus, { label: string; icon: string; badgeClass: string }> = {
+  [PayoutStatus.PENDING]: { label: 'Pending', icon: 'schedule', badgeClass: 'smc-badge-warning' },
+  [PayoutStatus.PROCESSING]: { label: 'Processing', icon: 'autorenew', badgeClass: 'smc-badge-info' },
+  [PayoutStatus.SETTLED]: { label: 'Settled', icon: 'check_circle', badgeClass: 'smc-badge-success' },
+};
+
+/**
+ * Settlement for one delivered order
+ */
+export interface SettlementLine {
+  readonly id: string;
+  readonly orderId: string;
+  readonly orderNumber: string;
+  readonly cropName: string;
+  readonly buyerName: string;
+  readonly quantity: number;
+  readonly unit: string;
+  readonly deliveredAt: Date;
+  /** Order value paid by the buyer for the produce */
+  readonly gross: number;
+  readonly platformFee: number;
+  /** Delivery cost borne by the farmer */
+  readonly deliveryDeduction: number;
+  readonly net: number;
+  readonly payoutStatus: PayoutStatus;
+  readonly expectedPayoutDate?: Date;
+  readonly settledAt?: Date;
+  /** Bank UTR of the payout */
+  readonly payoutReference?: string;
+}
+
+/**
+ * Sums over a set of settlement lines
+ */
+export interface EarningsTotals {
+  readonly orders: number;
+  readonly gross: number;
+  readonly platformFee: number;
+  readonly deliveryDeduction: number;
+  readonly net: number;
+  readonly settled: number;
+  readonly pending: number;
+}
+
+export interface EarningsFilters {
+  from: Date | null;
+  to: Date | null;
+  cropName: string;
+  payoutStatus: 'all' | PayoutStatus;
+}
+
+/**
+ * Month a statement can be downloaded for
+ */
+export interface StatementMonth {
+  /** YYYY-MM */
+  readonly key: string;
+  readonly label: string;
+}
+
+export type StatementFormat = 'pdf' | 'csv';
+
+interface EarningsState {
+  lines: SettlementLine[];
+  filters: EarningsFilters;
+  isLoading: boolean;
+  isExporting: boolean;
+  error: string | null;
+}
+
+const DEFAULT_FILTERS: EarningsFilters = {
+  from: null,
+  to: null,
+  cropName: '',
+  payoutStatus: 'all',
+};
+
+/**
+ * Earnings Service
+ * ================
+ * Signals-based ledger of per-order settlements for the signed-in farmer,
+ * with filters, pending vs settled totals and monthly statements.
+ */
+@Injectable({ providedIn: 'root' })
+export class EarningsService {
+  private readonly http = inject(HttpClient);
+  private readonly authService = inject(AuthService);
+  private readonly apiUrl = `${environment.apiUrl}/farmer/earnings`;
+
+  // ============================================
+  // Private State Signal
+  // ============================================
+
+  private readonly _state = signal<EarningsState>({
+    lines: [],
+    filters: { ...DEFAULT_FILTERS },
+    isLoading: false,
+    isExporting: false,
+    error: null,
+  });
+
+  // ============================================
+  // Public Computed Signals
+  // ============================================
+
+  /** All settlement lines, newest first */
+  readonly lines = computed(() => this._state().lines);
+
+  /** Active filters */
+  readonly filters = computed(() => this._state().filters);
+
+  /** Lines matching the filters */
+  readonly filteredLines = computed(() => {
+    const { from, to, cropName, payoutStatus } = this._state().filters;
+    const end = to ? endOfDay(to) : null;
+
+    return this._state().lines.filter(
+      (line) =>
+        (!from || line.deliveredAt >= from) &&
+        (!end || line.deliveredAt <= end) &&
+        (!cropName || line.cropName === cropName) &&
+        (payoutStatus === 'all' || line.payoutStatus === payoutStatus)
+    );
+  });
+
+  /** Totals of the filtered lines */
+  readonly totals = computed(() => sumLines(this.filteredLines()));
+
+  /** Crops that appear in the ledger */
+  readonly crops = computed(() => [...new Set(this._state().lines.map((l) => l.cropName))].sort());
+
+  /** Months with settlement lines, newest first */
+  readonly statementMonths = computed<StatementMonth[]>(() => {
+    const keys = [...new Set(this._state().lines.map((l) => monthKey(l.deliveredAt)))];
+    return keys.sort().reverse().map((key) => ({ key, label: monthLabel(key) }));
+  });
+
+  /** Filters differ from the defaults */
+  readonly hasActiveFilters = computed(() => {
+    const f = this._state().filters;
+    return !!(f.from || f.to || f.cropName || f.payoutStatus !== 'all');
+  });
+
+  /** Loading state */
+  readonly isLoading = computed(() => this._state().isLoading);
+
+  /** A statement is being generated */
+  readonly isExporting = computed(() => this._state().isExporting);
+
+  /** Error state */
+  readonly error = computed(() => this._state().error);
+
+  // ============================================
+  // Public Methods
+  // ============================================
+
+  /**
+   * Load the settlement ledger
+   */
+  loadEarnings(): void {
+    this.updateState({ isLoading: true, error: null });
+
+    if (!environment.production) {
+      of(null)
+        .pipe(delay(600))
+        .subscribe(() => this.updateState({ lines: this.getMockLines(), isLoading: false }));
+      return;
+    }
+
+    this.http
+      .get<SettlementLine[]>(`${this.apiUrl}/settlements`)
+      .pipe(
+        map((lines) =>
+          lines.map((line) => ({
+            ...line,
+            deliveredAt: new Date(line.deliveredAt),
+            expectedPayoutDate: line.expectedPayoutDate ? new Date(line.expectedPayoutDate) : undefined,
+            settledAt: line.settledAt ? new Date(line.settledAt) : undefined,
+          }))
+        ),
+        tap((lines) => this.updateState({ lines, isLoading: false })),
+        catchError(() => {
+          this.updateState({ isLoading: false, error: 'Failed to load earnings' });
+          return of(null);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Update filters
+   */
+  setFilters(filters: Partial<EarningsFilters>): void {
+    this.updateState({ filters: { ...this._state().filters, ...filters } });
+  }
+
+  /**
+   * Reset filters
+   */
+  clearFilters(): void {
+    this.updateState({ filters: { ...DEFAULT_FILTERS } });
+  }
+
+  /**
+   * Statement of all lines delivered in a month (YYYY-MM), ignoring filters
+   */
+  getStatement(month: string): EarningsStatement {
+    const lines = this._state()
+      .lines.filter((line) => monthKey(line.deliveredAt) === month)
+      .sort((a, b) => a.deliveredAt.getTime() - b.deliveredAt.getTime());
+
+    return {
+      month,
+      periodLabel: monthLabel(month),
+      farmerName: this.authService.displayName(),
+      lines,
+      totals: sumLines(lines),
+      generatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Generate a monthly statement in the browser and download it
+   */
+  async downloadStatement(month: string, format: StatementFormat): Promise<void> {
+    const statement = this.getStatement(month);
+    const filename = `smc-statement-${month}.${format}`;
+    this.updateState({ isExporting: true, error: null });
+
+    try {
+      if (format === 'csv') {
+        downloadFile(buildStatementCsv(statement), filename, 'text/csv;charset=utf-8');
+      } else {
+        downloadFile(await buildStatementPdf(statement), filename, 'application/pdf');
+      }
+    } catch (error) {
+      console.error('Failed to generate statement:', error);
+      this.updateState({ error: 'Failed to generate statement' });
+      throw error;
+    } finally {
+      this.updateState({ isExporting: false });
+    }
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private updateState(partial: Partial<EarningsState>): void {
+    this._state.update((state) => ({ ...state, ...partial }));
+  }
+
+  private getMockLines(): SettlementLine[] {
+    const crops = [
+      { name: 'Organic Tomatoes', unit: 'kg', price: 45, qty: [100, 600] },
+      { name: 'Onion', unit: 'kg', price: 32, qty: [200, 1000] },
+      { name: 'Potato', unit: 'kg', price: 28, qty: [200, 1200] },
+      { name: 'Wheat', unit: 'quintal', price: 2400, qty: [5, 40] },
+      { name: 'Green Chilli', unit: 'kg', price: 65, qty: [50, 250] },
+    ];
+    const buyers = ['Fresh Mart Stores', 'Hotel Grand Palace', 'Reliance Fresh', 'City Kirana', 'BigBasket Hub'];
+    const day = 24 * 60 * 60 * 1000;
+    const now = Date.now();
+
+    return Array.from({ length: 36 }, (_, i) => {
+      const crop = crops[(i * 7) % crops.length];
+      const deliveredAt = new Date(now - (1 + i * 5 + (i % 3)) * day);
+      const quantity = crop.qty[0] + ((i * 37) % (crop.qty[1] - crop.qty[0]));
+      const gross = quantity * crop.price;
+      const platformFee = Math.round(gross * PLATFORM_FEE_RATE);
+      const deliveryDeduction = i % 3 === 0 ? 0 : 150 + ((i * 53) % 500);
+      const ageDays = (now - deliveredAt.getTime()) / day;
+      const payoutStatus =
+        ageDays > 7 ? PayoutStatus.SETTLED : ageDays > 3 ? PayoutStatus.PROCESSING : PayoutStatus.PENDING;
+      const payoutDate = new Date(deliveredAt.getTime() + 3 * day);
+
+      return {
+        id: `stl_${i + 1}`,
+        orderId: `order_${100 + i}`,
+        orderNumber: `SMC-2024-${String(100 + i).padStart(3, '0')}`,
+        cropName: crop.name,
+        buyerName: buyers[i % buyers.length],
+        quantity,
+        unit: crop.unit,
+        deliveredAt,
+        gross,
+        platformFee,
+        deliveryDeduction,
+        net: gross - platformFee - deliveryDeduction,
+        payoutStatus,
+        ...(payoutStatus === PayoutStatus.SETTLED
+          ? { settledAt: payoutDate, payoutReference: `UTR${(40213370 + i * 7919).toString()}` }
+          : { expectedPayoutDate: payoutDate }),
+      };
+    });
+  }
+}
+
+function sumLines(lines: SettlementLine[]): EarningsTotals {
+  return lines.reduce<EarningsTotals>(
+    (totals, line) => ({
+      orders: totals.orders + 1,
+      gross: totals.gross + line.gross,
+      platformFee: totals.platformFee + line.platformFee,
+      deliveryDeduction: totals.deliveryDeduction + line.deliveryDeduction,
+      net: totals.net + line.net,
+      settled: totals.settled + (line.payoutStatus === PayoutStatus.SETTLED ? line.net : 0),
+      pending: totals.pending + (line.payoutStatus === PayoutStatus.SETTLED ? 0 : line.net),
+    }),
+    { orders: 0, gross: 0, platformFee: 0, deliveryDeduction: 0, net: 0, settled: 0, pending: 0 }
+  );
+}
+
+function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function monthLabel(key: string): string {
+  const [year, month] = key.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString('en-IN', { month: 'long', year: 'numeric' });
+}
+
+function endOfDay(date: Date): Date {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
@@ -0,0 +1,353 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, catchError, of, delay, map, throwError } from 'rxjs';
+import { environment } from '@environments/environment';
+
+/**
+ * History ranges offered to farmers, in days
+ */
+export type PriceHistoryRange = 7 | 30 | 90 | 365;
+
+/**
+ * One day of prices at a mandi
+ */
+export interface PriceHistoryPoint {
+  readonly date: Date;
+  readonly modalPrice: number;
+  readonly minPrice: number;
+  readonly maxPrice: number;
+}
+
+/**
+ * Daily price history for a crop at one mandi
+ */
+export interface MandiPriceHistory {
+  readonly cropName: string;
+  readonly mandiName: string;
+  readonly unit: string;
+  readonly points: PriceHistoryPoint[];
+}
+
+/**
+ * Trend figures for the selected range at one mandi
+ */
+export interface PriceTrendAnalysis {
+  readonly mandiName: string;
+  readonly unit: string;
+  readonly points: PriceHistoryPoint[];
+  /** Aligned with `points`; null until a full window of data exists */
+  readonly shortAverage: (number | null)[];
+  readonly longAverage: (number | null)[];
+  readonly latest: number;
+  readonly average: number;
+  readonly high: number;
+  readonly low: number;
+  readonly change: number;
+  readonly changePercent: number;
+  /** Latest price relative to the long moving average, in percent */
+  readonly vsLongAverage: number | null;
+}
+
+/** Moving average windows, in days */
+export const SHORT_AVERAGE_DAYS = 7;
+export const LONG_AVERAGE_DAYS = 30;
+
+/** Most mandis shown together in the comparison chart */
+export const MAX_COMPARED_MANDIS = 4;
+
+/**
+ * Price History State
+ */
+interface PriceHistoryState {
+  cropName: string | null;
+  range: PriceHistoryRange;
+  mandis: string[];
+  availableMandis: string[];
+  histories: MandiPriceHistory[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Mandi Price History Service
+ * ===========================
+ * Signals-based state for historical mandi prices of one crop across
+ * up to four mandis, with moving averages and range statistics.
+ * The first selected mandi is the primary one shown in detail.
+ */
+@Injectable({ providedIn: 'root' })
+export class MandiPriceHistoryService {
+  private readonly http = inject(HttpClient);
+  private readonly apiUrl = `${environment.apiUrl}/mandi-prices`;
+
+  // ============================================
+  // Private State Signal
+  // ============================================
+
+  private readonly _state = signal<PriceHistoryState>({
+    cropName: null,
+    range: 30,
+    mandis: [],
+    availableMandis: [],
+    histories: [],
+    isLoading: false,
+    error: null,
+  });
+
+  // ============================================
+  // Public Computed Signals
+  // ============================================
+
+  /** Crop being viewed */
+  readonly cropName = computed(() => this._state().cropName);
+
+  /** Selected range in days */
+  readonly range = computed(() => this._state().range);
+
+  /** Selected mandis, primary first */
+  readonly mandis = computed(() => this._state().mandis);
+
+  /** Mandis trading the current crop */
+  readonly availableMandis = computed(() => this._state().availableMandis);
+
+  /** Trend analysis per selected mandi */
+  readonly analyses = computed(() =>
+    this._state().histories.map((history) => this.analyze(history, this._state().range))
+  );
+
+  /** Analysis for the primary mandi */
+  readonly primary = computed(() => this.analyses()[0] ?? null);
+
+  /** Mandi with the highest latest price */
+  readonly bestMandi = computed(() => {
+    const analyses = this.analyses();
+    if (analyses.length < 2) return null;
+    return analyses.reduce((best, a) => (a.latest > best.latest ? a : best));
+  });
+
+  /** Loading state */
+  readonly isLoading = computed(() => this._state().isLoading);
+
+  /** Error state */
+  readonly error = computed(() => this._state().error);
+
+  /** Range options */
+  readonly ranges: { value: PriceHistoryRange; label: string }[] = [
+    { value: 7, label: '7D' },
+    { value: 30, label: '30D' },
+    { value: 90, label: '90D' },
+    { value: 365, label: '1Y' },
+  ];
+
+  // ============================================
+  // Public Methods
+  // ============================================
+
+  /**
+   * Load price history for a crop. Defaults to the first mandi trading it
+   * when none are given.
+   */
+  loadHistory(cropName: string, mandis: string[], range: PriceHistoryRange): void {
+    const cropChanged = cropName !== this._state().cropName;
+    this.updateState({
+      cropName,
+      range,
+      mandis: mandis.slice(0, MAX_COMPARED_MANDIS),
+      availableMandis: cropChanged ? [] : this._state().availableMandis,
+      isLoading: true,
+      error: null,
+    });
+
+    this.fetchMandis(cropName).subscribe({
+      next: (availableMandis) => {
+        if (this._state().cropName !== cropName) return;
+
+        const selected = mandis.filter((m) => availableMandis.includes(m));
+        const requested = (selected.length > 0 ? selected : availableMandis.slice(0, 1)).slice(
+          0,
+          MAX_COMPARED_MANDIS
+        );
+        this.updateState({ availableMandis, mandis: requested });
+
+        this.fetchHistory(cropName, requested, range).subscribe({
+          next: (histories) => {
+            // Ignore responses for a selection that has since changed
+            if (this._state().mandis !== requested || this._state().range !== range) return;
+            this.updateState({ histories, isLoading: false });
+          },
+          error: () => this.updateState({ isLoading: false, error: 'Failed to load price history' }),
+        });
+      },
+      error: () => this.updateState({ isLoading: false, error: 'Failed to load mandis' }),
+    });
+  }
+
+  /**
+   * Reload the current crop with another range
+   */
+  setRange(range: PriceHistoryRange): void {
+    const { cropName, mandis } = this._state();
+    if (cropName) this.loadHistory(cropName, mandis, range);
+  }
+
+  /**
+   * Reload the current crop with another set of mandis
+   */
+  setMandis(mandis: string[]): void {
+    const { cropName, range } = this._state();
+    if (cropName) this.loadHistory(cropName, mandis, range);
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private updateState(partial: Partial<PriceHistoryState>): void {
+    this._state.update((state) => ({ ...state, ...partial }));
+  }
+
+  private fetchMandis(cropName: string): Observable<string[]> {
+    if (!environment.production) {
+      return of(this.getMockMandis(cropName)).pipe(delay(200));
+    }
+
+    return this.http.get<string[]>(`${this.apiUrl}/mandis`, { params: { crop: cropName } });
+  }
+
+  /**
+   * Fetches enough lead-in days for the long moving average to cover the whole range
+   */
+  private fetchHistory(
+    cropName: string,
+    mandis: string[],
+    range: PriceHistoryRange
+  ): Observable<MandiPriceHistory[]> {
+    const days = range + LONG_AVERAGE_DAYS - 1;
+
+    if (!environment.production) {
+      return of(mandis.map((mandi) => this.getMockHistory(cropName, mandi, days))).pipe(delay(500));
+    }
+
+    return this.http
+      .get<MandiPriceHistory[]>(`${this.apiUrl}/history`, {
+        params: { crop: cropName, mandis: mandis.join(','), days },
+      })
+      .pipe(
+        map((histories) =>
+          histories.map((h) => ({
+            ...h,
+            points: h.points.map((p) => ({ ...p, date: new Date(p.date) })),
+          }))
+        ),
+        catchError((error) => {
+          console.error('Failed to load price history:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  private analyze(history: MandiPriceHistory, range: PriceHistoryRange): PriceTrendAnalysis {
+    const all = history.points.map((p) => p.modalPrice);
+    const offset = Math.max(0, all.length - range);
+    const points = history.points.slice(offset);
+    const prices = all.slice(offset);
+
+    const shortAverage = movingAverage(all, SHORT_AVERAGE_DAYS).slice(offset);
+    const longAverage = movingAverage(all, LONG_AVERAGE_DAYS).slice(offset);
+
+    const first = prices[0] ?? 0;
+    const latest = prices[prices.length - 1] ?? 0;
+    const lastLongAverage = longAverage[longAverage.length - 1] ?? null;
+
+    return {
+      mandiName: history.mandiName,
+      unit: history.unit,
+      points,
+      shortAverage,
+      longAverage,
+      latest,
+      average: prices.length ? round(prices.reduce((sum, p) => sum + p, 0) / prices.length) : 0,
+      high: points.length ? Math.max(...points.map((p) => p.maxPrice)) : 0,
+      low: points.length ? Math.min(...points.map((p) => p.minPrice)) : 0,
+      change: round(latest - first),
+      changePercent: first ? round(((latest - first) / first) * 100) : 0,
+      vsLongAverage: lastLongAverage ? round(((latest - lastLongAverage) / lastLongAverage) * 100) : null,
+    };
+  }
+
+  // ============================================
+  // Mock Data
+  // ============================================
+
+  private getMockMandis(cropName: string): string[] {
+    const grain = ['Wheat', 'Rice (Basmati)'].includes(cropName);
+    return grain
+      ? ['Karnal Mandi', 'Khanna Mandi', 'Azadpur Mandi', 'Indore Mandi']
+      : ['Azadpur Mandi', 'Vashi Mandi', 'Lasalgaon Mandi', 'Koyambedu Mandi', 'Bowenpally Mandi'];
+  }
+
+  /**
+   * Deterministic random walk so a crop/mandi pair always draws the same chart
+   */
+  private getMockHistory(cropName: string, mandiName: string, days: number): MandiPriceHistory {
+    const base: Record<string, [number, string]> = {
+      Tomato: [45, 'kg'],
+      Onion: [32, 'kg'],
+      Potato: [28, 'kg'],
+      Wheat: [2400, 'quintal'],
+      'Rice (Basmati)': [4500, 'quintal'],
+      'Green Chilli': [65, 'kg'],
+      'Mango (Alphonso)': [350, 'kg'],
+      Cauliflower: [35, 'kg'],
+    };
+    const [basePrice, unit] = base[cropName] ?? [50, 'kg'];
+
+    const random = seededRandom(`${cropName}|${mandiName}`);
+    const mandiBias = 0.9 + random() * 0.2;
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    let price = basePrice * mandiBias;
+    const points: PriceHistoryPoint[] = [];
+
+    for (let i = days - 1; i >= 0; i--) {
+      const date = new Date(today);
+      date.setDate(today.getDate() - i);
+
+      // Gentle seasonal swing plus daily noise, pulled back towards the base
+      const seasonal = Math.sin((date.getMonth() / 12) * 2 * Math.PI) * 0.004;
+      price *= 1 + seasonal + (random() - 0.5) * 0.05 + ((basePrice * mandiBias - price) / price) * 0.05;
+
+      const spread = price * (0.05 + random() * 0.08);
+      points.push({
+        date,
+        modalPrice: round(price),
+        minPrice: round(price - spread),
+        maxPrice: round(price + spread),
+      });
+    }
+
+    return { cropName, mandiName, unit, points };
+  }
+}
+
+function movingAverage(values: number[], window: number): (number | null)[] {
+  let sum = 0;
+  return values.map((value, i) => {
+    sum += value;
+    if (i >= window) sum -= values[i - window];
+    return i >= window - 1 ? round(sum / window) : null;
+  });
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function seededRandom(seed: string): () => number {
+  let state = [...seed].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) | 0, 7);
+  return () => {
+    state = (state * 1664525 + 1013904223) | 0;
+    return (state >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * Crop Results Component
+ * ======================
+ * Result list for the search and category pages: count, distance filter,
+ * sort, crop cards with wishlist toggles, load more and an empty state. Reads the listing
+ * from MarketplaceService.
+ */
+
+import { Component, ChangeDetectionStrategy, inject, computed, input, output, DestroyRef } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+import { AuthService } from '@core/services/auth.service';
+import { MarketplaceService, MarketplaceCrop, MarketplaceFilters } from '../../services/marketplace.service';
+import { WishlistService, wishlistEntryFromListing } from '../../services/wishlist.service';
+import { MarketplaceCropCardComponent } from '../marketplace-crop-card/marketplace-crop-card.component';
+import { DistanceFilterComponent } from '../distance-filter/distance-filter.component';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
+
+const SORT_OPTIONS: { value: MarketplaceFilters['sortBy']; label: string; icon: string }[] = [
+  { value: 'newest', label: 'Newest First', icon: 'schedule' },
+  { value: 'price_low', label: 'Price: Low to High', icon: 'arrow_upward' },
+  { value: 'price_high', label: 'Price: High to Low', icon: 'arrow_downward' },
+  { value: 'popular', label: 'Most Popular', icon: 'trending_up' },
+  { value: 'rating', label: 'Highest Rated', icon: 'star' },
+  { value: 'distance', label: 'Nearest First', icon: 'near_me' },
+];
+
+@Component({
+  selector: 'smc-crop-results',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatButtonModule,
+    MatIconModule,
+    MatMenuModule,
+    MatProgressBarModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+    MarketplaceCropCardComponent,
+    DistanceFilterComponent,
+    TranslatePipe,
+  ],
+  templateUrl: './crop-results.component.html',
+  styleUrl: './crop-results.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class CropResultsComponent {
+  private readonly marketplaceService = inject(MarketplaceService);
+  private readonly wishlistService = inject(WishlistService);
+  private readonly authService = inject(AuthService);
+  private readonly router = inject(Router);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly destroyRef = inject(DestroyRef);
+
+  /** Shown when nothing matches */
+  readonly emptyMessage = input('Try a different search or clear some filters');
+
+  /** Emitted from the empty state */
+  readonly clearFilters = output<void>();
+
+  readonly crops = this.marketplaceService.crops;
+  readonly pagination = this.marketplaceService.pagination;
+  readonly isLoading = this.marketplaceService.isLoading;
+  readonly isLoadingMore = this.marketplaceService.isLoadingMore;
+  readonly hasMore = this.marketplaceService.hasMore;
+
+  readonly sortOptions = SORT_OPTIONS;
+
+  /** Distance sort needs an origin */
+  readonly hasOrigin = computed(() => !!this.marketplaceService.filters().origin);
+
+  readonly currentSort = computed(
+    () => SORT_OPTIONS.find((o) => o.value === this.marketplaceService.appliedFilters().sortBy) ?? SORT_OPTIONS[0]
+  );
+
+  constructor() {
+    if (this.authService.isBuyer()) {
+      this.wishlistService.loadWishlist();
+    }
+  }
+
+  onSortChange(sortBy: MarketplaceFilters['sortBy']): void {
+    this.marketplaceService.setSortBy(sortBy);
+  }
+
+  loadMore(): void {
+    this.marketplaceService.loadMore();
+  }
+
+  isWishlisted(crop: MarketplaceCrop): boolean {
+    return this.wishlistService.isWishlisted(crop.id);
+  }
+
+  onToggleWishlist(crop: MarketplaceCrop): void {
+    if (!this.authService.isBuyer()) {
+      this.snackBar.open('Sign in as a buyer to save crops', 'Close', { duration: 3000 });
+      return;
+    }
+
+    this.wishlistService
+      .toggle(wishlistEntryFromListing(crop))
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (saved) =>
+          this.snackBar.open(`${crop.cropName} ${saved ? 'added to' : 'removed from'} wishlist`, 'Close', {
+            duration: 3000,
+          }),
+        error: () => this.snackBar.open('Failed to update wishlist', 'Close', { duration: 5000 }),
+      });
+  }
+
+  onViewDetails(crop: MarketplaceCrop): void {
+    this.router.navigate(['/marketplace/crop', crop.id]);
+  }
+
+  onPlaceBid(crop: MarketplaceCrop): void {
+    this.router.navigate(['/marketplace/crop', crop.id, 'bid']);
+  }
+
+  onViewFarmer(farmerId: string): void {
+    this.router.navigate(['/profile', farmerId]);
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Distance Filter Component
+ * =========================
+ * "Within N km of me / of my delivery address" menu. Picking an origin
+ * applies it straight away, with a default radius; the radius can then be
+ * widened or dropped to just sort by distance.
+ */
+
+import { Component, ChangeDetectionStrategy, inject, computed, DestroyRef } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatDividerModule } from '@angular/material/divider';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+import { MarketplaceService, MarketplaceOrigin } from '../../services/marketplace.service';
+import { BuyerLocationService } from '../../services/buyer-location.service';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
+
+/** Radius applied when an origin is first picked */
+const DEFAULT_RADIUS_KM = 100;
+
+const RADIUS_OPTIONS_KM = [10, 25, 50, 100, 250, 500];
+
+@Component({
+  selector: 'smc-distance-filter',
+  standalone: true,
+  imports: [MatButtonModule, MatIconModule, MatMenuModule, MatDividerModule, MatTooltipModule, MatSnackBarModule, TranslatePipe],
+  templateUrl: './distance-filter.component.html',
+  styleUrl: './distance-filter.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class DistanceFilterComponent {
+  private readonly marketplaceService = inject(MarketplaceService);
+  private readonly buyerLocation = inject(BuyerLocationService);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly radiusOptions = RADIUS_OPTIONS_KM;
+
+  readonly origin = computed(() => this.marketplaceService.filters().origin);
+  readonly radiusKm = computed(() => this.marketplaceService.filters().radiusKm);
+  readonly deliveryOrigin = this.buyerLocation.deliveryOrigin;
+  readonly isLocating = this.buyerLocation.isLocating;
+  readonly canLocate = this.buyerLocation.isSupported;
+
+  /** Button text */
+  readonly label = computed(() => {
+    const origin = this.origin();
+    if (!origin) return 'Any distance';
+    const radiusKm = this.radiusKm();
+    return radiusKm === null ? `Near ${origin.label}` : `Within ${radiusKm} km`;
+  });
+
+  useMyLocation(): void {
+    this.buyerLocation
+      .locate()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (origin) => this.applyOrigin(origin),
+        error: (error) => this.snackBar.open(this.buyerLocation.errorMessage(error), 'Close', { duration: 5000 }),
+      });
+  }
+
+  useDeliveryAddress(): void {
+    const origin = this.deliveryOrigin();
+    if (origin) this.applyOrigin(origin);
+  }
+
+  setRadius(radiusKm: number | null): void {
+    const origin = this.origin();
+    if (origin) this.marketplaceService.setOrigin(origin, radiusKm);
+  }
+
+  clear(): void {
+    this.marketplaceService.setOrigin(null);
+  }
+
+  private applyOrigin(origin: MarketplaceOrigin): void {
+    this.marketplaceService.setOrigin(origin, this.radiusKm() ?? DEFAULT_RADIUS_KM);
+  }
+}
@@ -1,7 +1,8 @@
 /**
  * Farmer Card Component
  * =====================
- * Displays farmer information with ratings and contact options.
+ * Displays farmer information with ratings, recent reviews and contact
+ * options.
  */
 
 import {
@@ -11,7 +12,7 @@ import {
   output,
   computed,
 } from '@angular/core';
-import { CommonModule, DatePipe } from '@angular/common';
+import { CommonModule } from '@angular/common';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
@@ -19,6 +20,10 @@ import { MatTooltipModule } from '@angular/material/tooltip';
 import { MatDividerModule } from '@angular/material/divider';
 
 import { FarmerInfo } from '../../services/crop-details.service';
+import { Review } from '@features/reviews/services/review.service';
+import { ReviewListComponent } from '@features/reviews/components/review-list/review-list.component';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
 
 @Component({
   selector: 'smc-farmer-card',
@@ -30,7 +35,9 @@ import { FarmerInfo } from '../../services/crop-details.service';
     MatIconModule,
     MatTooltipModule,
     MatDividerModule,
-    DatePipe,
+    ReviewListComponent,
+    LocaleDatePipe,
+    TranslatePipe,
   ],
   templateUrl: './farmer-card.component.html',
   styleUrl: './farmer-card.component.scss',
@@ -38,6 +45,8 @@ import { FarmerInfo } from '../../services/crop-details.service';
 })
 export class FarmerCardComponent {
   readonly farmer = input.required<FarmerInfo>();
+  /** Published reviews of the farmer, newest first */
+  readonly reviews = input<Review[]>([]);
   readonly viewProfile = output<void>();
   readonly contact = output<void>();
 
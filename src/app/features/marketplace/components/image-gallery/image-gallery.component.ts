@@ -17,11 +17,12 @@ import { MatIconModule } from '@angular/material/icon';
 import { MatButtonModule } from '@angular/material/button';
 
 import { CropImage } from '../../services/crop-details.service';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
 
 @Component({
   selector: 'smc-image-gallery',
   standalone: true,
-  imports: [CommonModule, MatIconModule, MatButtonModule],
+  imports: [CommonModule, MatIconModule, MatButtonModule, TranslatePipe],
   templateUrl: './image-gallery.component.html',
   styleUrl: './image-gallery.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
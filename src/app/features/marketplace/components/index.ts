@@ -8,4 +8,8 @@ export * from './marketplace-filters/marketplace-filters.component';
 export * from './image-gallery/image-gallery.component';
 export * from './farmer-card/farmer-card.component';
 export * from './instant-buy-dialog/instant-buy-dialog.component';
-
+export * from './save-search-dialog/save-search-dialog.component';
+export * from './share-link-menu/share-link-menu.component';
+export * from './crop-results/crop-results.component';
+export * from './distance-filter/distance-filter.component';
+export * from './marketplace-map/marketplace-map.component';
@@ -1,7 +1,9 @@
 /**
  * Instant Buy Dialog Component
  * ============================
- * Dialog for instant purchase with quantity and payment selection.
+ * Dialog for instant purchase with quantity, delivery address and payment
+ * selection. The address is one of the buyer's saved addresses, the
+ * default preselected.
  */
 
 import {
@@ -12,6 +14,7 @@ import {
   computed,
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
 import { FormsModule } from '@angular/forms';
 import {
   MAT_DIALOG_DATA,
@@ -26,17 +29,32 @@ import { MatRadioModule } from '@angular/material/radio';
 import { MatSliderModule } from '@angular/material/slider';
 import { MatDividerModule } from '@angular/material/divider';
 
+import { DeliveryAddress } from '@domain/models/order.model';
+import {
+  AddressService,
+  formatAddressLine,
+  toDeliveryAddress,
+} from '@features/profile/services/address.service';
 import { CropDetails } from '../../services/crop-details.service';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
 
 interface DialogData {
   crop: CropDetails;
 }
 
+export interface InstantBuyDialogResult {
+  quantity: number;
+  paymentMethod: 'cod' | 'online' | 'upi';
+  deliveryAddress: DeliveryAddress;
+}
+
 @Component({
   selector: 'smc-instant-buy-dialog',
   standalone: true,
   imports: [
     CommonModule,
+    RouterLink,
     FormsModule,
     MatDialogModule,
     MatButtonModule,
@@ -46,14 +64,24 @@ interface DialogData {
     MatRadioModule,
     MatSliderModule,
     MatDividerModule,
+    LocaleNumberPipe,
+    TranslatePipe,
   ],
   templateUrl: './instant-buy-dialog.component.html',
   styleUrl: './instant-buy-dialog.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class InstantBuyDialogComponent {
-  readonly dialogRef = inject(MatDialogRef<InstantBuyDialogComponent>);
+  readonly dialogRef = inject(MatDialogRef<InstantBuyDialogComponent, InstantBuyDialogResult | null>);
   readonly data: DialogData = inject(MAT_DIALOG_DATA);
+  private readonly addressService = inject(AddressService);
+
+  readonly savedAddresses = this.addressService.addresses;
+  readonly formatAddressLine = formatAddressLine;
+  readonly addressId = signal<string | null>(this.addressService.defaultAddress()?.id ?? null);
+  readonly selectedAddress = computed(
+    () => this.savedAddresses().find((a) => a.id === this.addressId()) ?? null
+  );
 
   quantityValue = Math.min(100, this.data.crop.availableQuantity);
   paymentMethod: 'cod' | 'online' | 'upi' = 'upi';
@@ -89,10 +117,12 @@ export class InstantBuyDialogComponent {
   }
 
   onConfirm(): void {
-    if (this.isValid()) {
+    const address = this.selectedAddress();
+    if (this.isValid() && address) {
       this.dialogRef.close({
         quantity: this.quantityValue,
         paymentMethod: this.paymentMethod,
+        deliveryAddress: toDeliveryAddress(address),
       });
     }
   }
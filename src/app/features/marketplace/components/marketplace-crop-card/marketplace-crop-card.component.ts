@@ -12,7 +12,7 @@ import {
   output,
   computed,
 } from '@angular/core';
-import { CommonModule, DatePipe } from '@angular/common';
+import { CommonModule } from '@angular/common';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
@@ -21,6 +21,9 @@ import { MatTooltipModule } from '@angular/material/tooltip';
 import { MatRippleModule } from '@angular/material/core';
 
 import { MarketplaceCrop, QualityGrade } from '../../services/marketplace.service';
+import { estimateTransportCostPerQuintal, formatDistance } from '../../services/transport-estimate';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
 
 @Component({
   selector: 'smc-marketplace-crop-card',
@@ -33,7 +36,8 @@ import { MarketplaceCrop, QualityGrade } from '../../services/marketplace.servic
     MatChipsModule,
     MatTooltipModule,
     MatRippleModule,
-    DatePipe,
+    LocaleDatePipe,
+    TranslatePipe,
   ],
   templateUrl: './marketplace-crop-card.component.html',
   styleUrl: './marketplace-crop-card.component.scss',
@@ -46,6 +50,7 @@ export class MarketplaceCropCardComponent {
 
   readonly crop = input.required<MarketplaceCrop>();
   readonly viewMode = input<'grid' | 'list'>('grid');
+  readonly isWishlisted = input(false);
 
   // ============================================
   // Outputs
@@ -53,7 +58,7 @@ export class MarketplaceCropCardComponent {
 
   readonly viewDetails = output<MarketplaceCrop>();
   readonly placeBid = output<MarketplaceCrop>();
-  readonly addToWishlist = output<MarketplaceCrop>();
+  readonly toggleWishlist = output<MarketplaceCrop>();
   readonly viewFarmer = output<string>();
 
   // ============================================
@@ -122,6 +127,18 @@ export class MarketplaceCropCardComponent {
     return 'upcoming';
   });
 
+  /** Distance from the buyer's chosen origin, when one is set */
+  readonly distanceLabel = computed(() => {
+    const distanceKm = this.crop().distanceKm;
+    return distanceKm === undefined ? null : formatDistance(distanceKm);
+  });
+
+  /** Estimated transport to the buyer, ₹ per quintal */
+  readonly transportCostPerQuintal = computed(() => {
+    const distanceKm = this.crop().distanceKm;
+    return distanceKm === undefined ? null : estimateTransportCostPerQuintal(distanceKm);
+  });
+
   /** Image URL with fallback */
   readonly imageUrl = computed(() => {
     const images = this.crop().images;
@@ -142,9 +159,9 @@ export class MarketplaceCropCardComponent {
     this.placeBid.emit(this.crop());
   }
 
-  onAddToWishlist(event: Event): void {
+  onToggleWishlist(event: Event): void {
     event.stopPropagation();
-    this.addToWishlist.emit(this.crop());
+    this.toggleWishlist.emit(this.crop());
   }
 
   onViewFarmer(event: Event): void {
@@ -30,6 +30,7 @@ import {
   QualityGrade,
   PriceRange,
 } from '../../services/marketplace.service';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
 
 @Component({
   selector: 'smc-marketplace-filters',
@@ -45,6 +46,7 @@ import {
     MatIconModule,
     MatChipsModule,
     MatDividerModule,
+    TranslatePipe,
   ],
   templateUrl: './marketplace-filters.component.html',
   styleUrl: './marketplace-filters.component.scss',
@@ -88,6 +90,7 @@ export class MarketplaceFiltersComponent {
     { value: 'price_high', label: 'Price: High to Low', icon: 'arrow_downward' },
     { value: 'popular', label: 'Most Popular', icon: 'trending_up' },
     { value: 'rating', label: 'Highest Rated', icon: 'star' },
+    { value: 'distance', label: 'Nearest First', icon: 'near_me' },
   ];
 
   // Local price range for slider
@@ -0,0 +1,296 @@
+/**
+ * Marketplace Map Component
+ * =========================
+ * Leaflet map of marketplace listings. Listings from the same farm share a
+ * marker that opens a popup with price and quality; nearby farms merge into
+ * a numbered cluster at lower zooms. The distance origin and radius, when
+ * set, are drawn too. Map movement is reported (debounced) so the page can
+ * re-query the visible area.
+ */
+
+import {
+  Component,
+  ChangeDetectionStrategy,
+  input,
+  output,
+  effect,
+  ElementRef,
+  viewChild,
+  AfterViewInit,
+  OnDestroy,
+} from '@angular/core';
+import * as L from 'leaflet';
+
+import { environment } from '@environments/environment';
+import { GeoBounds, LatLngLike } from '@shared/services/geo-distance';
+import { MarketplaceCrop, MarketplaceOrigin, QualityGrade } from '../../services/marketplace.service';
+
+/** Markers closer than this on screen merge into a cluster */
+const CLUSTER_RADIUS_PX = 56;
+
+/** Wait for the map to settle before re-querying */
+const BOUNDS_DEBOUNCE_MS = 500;
+
+const QUALITY_LABELS: Record<QualityGrade, string> = {
+  [QualityGrade.PREMIUM]: 'Premium',
+  [QualityGrade.GRADE_A]: 'Grade A',
+  [QualityGrade.GRADE_B]: 'Grade B',
+  [QualityGrade.STANDARD]: 'Standard',
+};
+
+/** Listings at one farm location */
+interface FarmGroup {
+  readonly latLng: L.LatLng;
+  readonly crops: MarketplaceCrop[];
+}
+
+/** Farms drawn as one marker at the current zoom */
+interface MapCluster {
+  readonly farms: FarmGroup[];
+  readonly point: L.Point;
+}
+
+const toLatLng = (point: LatLngLike): L.LatLngTuple => [point.latitude, point.longitude];
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+@Component({
+  selector: 'smc-marketplace-map',
+  standalone: true,
+  templateUrl: './marketplace-map.component.html',
+  styleUrl: './marketplace-map.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class MarketplaceMapComponent implements AfterViewInit, OnDestroy {
+  readonly crops = input.required<MarketplaceCrop[]>();
+  readonly origin = input<MarketplaceOrigin | null>(null);
+  readonly radiusKm = input<number | null>(null);
+
+  /** Visible area after the user pans or zooms */
+  readonly boundsChange = output<GeoBounds>();
+  readonly viewDetails = output<MarketplaceCrop>();
+
+  private readonly mapContainer = viewChild<ElementRef<HTMLDivElement>>('mapContainer');
+
+  private map: L.Map | null = null;
+  private readonly clusterLayer = L.layerGroup();
+  private readonly originLayer = L.layerGroup();
+  private boundsTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Fit the first listings, then leave panning to the user */
+  private hasFitted = false;
+  /** What is on the map now; a re-query returning the same listings keeps open popups */
+  private drawnKey = '';
+
+  constructor() {
+    effect(() => {
+      const crops = this.crops();
+      if (this.map) this.drawListings(crops);
+    });
+
+    effect(() => {
+      const origin = this.origin();
+      const radiusKm = this.radiusKm();
+      if (this.map) this.drawOrigin(origin, radiusKm);
+    });
+  }
+
+  ngAfterViewInit(): void {
+    const container = this.mapContainer()?.nativeElement;
+    if (!container) return;
+
+    const { tileUrl, attribution, maxZoom, defaultCenter, defaultZoom } = environment.map;
+    this.map = L.map(container, { center: defaultCenter, zoom: defaultZoom });
+    // CORS tiles can be cached by the service worker without opaque-response padding
+    L.tileLayer(tileUrl, { attribution, maxZoom, crossOrigin: true }).addTo(this.map);
+    this.originLayer.addTo(this.map);
+    this.clusterLayer.addTo(this.map);
+
+    this.map.on('zoomend', () => this.drawListings(this.crops()));
+    this.map.on('moveend', () => this.scheduleBoundsChange());
+    // Popup buttons are plain HTML; route their clicks back through Angular
+    this.map.on('popupopen', (event: L.PopupEvent) => this.bindPopup(event.popup));
+
+    this.drawOrigin(this.origin(), this.radiusKm());
+    this.drawListings(this.crops());
+  }
+
+  ngOnDestroy(): void {
+    if (this.boundsTimer) clearTimeout(this.boundsTimer);
+    this.map?.remove();
+    this.map = null;
+  }
+
+  // ============================================
+  // Listings
+  // ============================================
+
+  private drawListings(crops: MarketplaceCrop[]): void {
+    const map = this.map;
+    if (!map) return;
+
+    const farms = this.groupByFarm(crops);
+    if (!this.hasFitted && farms.length > 0) {
+      this.hasFitted = true;
+      // A zoom change redraws on zoomend
+      map.fitBounds(L.latLngBounds(farms.map((farm) => farm.latLng)), { padding: [48, 48], maxZoom: 10 });
+    }
+
+    const drawKey = `${map.getZoom()}|${crops.map((crop) => `${crop.id}:${crop.price}`).join(',')}`;
+    if (drawKey === this.drawnKey) return;
+    this.drawnKey = drawKey;
+
+    this.clusterLayer.clearLayers();
+    for (const cluster of this.cluster(farms, map.getZoom())) {
+      this.clusterLayer.addLayer(
+        cluster.farms.length === 1 ? this.farmMarker(cluster.farms[0]) : this.clusterMarker(cluster)
+      );
+    }
+  }
+
+  /** One group per farm location; listings without coordinates are left off */
+  private groupByFarm(crops: MarketplaceCrop[]): FarmGroup[] {
+    const groups = new Map<string, MarketplaceCrop[]>();
+    for (const crop of crops) {
+      if (!crop.farmerGeo) continue;
+      const key = `${crop.farmerGeo.latitude.toFixed(4)},${crop.farmerGeo.longitude.toFixed(4)}`;
+      groups.set(key, [...(groups.get(key) ?? []), crop]);
+    }
+    return [...groups.values()].map((farmCrops) => ({
+      latLng: L.latLng(toLatLng(farmCrops[0].farmerGeo!)),
+      crops: farmCrops,
+    }));
+  }
+
+  /** Greedy screen-space clustering at the given zoom */
+  private cluster(farms: FarmGroup[], zoom: number): MapCluster[] {
+    const map = this.map!;
+    const clusters: { farms: FarmGroup[]; point: L.Point }[] = [];
+
+    for (const farm of farms) {
+      const point = map.project(farm.latLng, zoom);
+      const near = clusters.find((cluster) => cluster.point.distanceTo(point) < CLUSTER_RADIUS_PX);
+      if (near) {
+        near.farms.push(farm);
+      } else {
+        clusters.push({ farms: [farm], point });
+      }
+    }
+    return clusters;
+  }
+
+  private farmMarker(farm: FarmGroup): L.Marker {
+    const lowest = Math.min(...farm.crops.map((crop) => crop.price));
+    const count = farm.crops.length > 1 ? `<span class="count">${farm.crops.length}</span>` : '';
+
+    return L.marker(farm.latLng, {
+      icon: L.divIcon({
+        html: `<span class="price">₹${lowest}</span>${count}`,
+        className: 'smc-map-marker farm',
+        iconSize: [72, 30],
+        iconAnchor: [36, 30],
+      }),
+      title: `${farm.crops[0].farmerName}, ${farm.crops[0].farmerLocation}`,
+      keyboard: true,
+    }).bindPopup(this.popupHtml(farm), { maxWidth: 280, minWidth: 220 });
+  }
+
+  private clusterMarker(cluster: MapCluster): L.Marker {
+    const map = this.map!;
+    const bounds = L.latLngBounds(cluster.farms.map((farm) => farm.latLng));
+    const count = cluster.farms.reduce((total, farm) => total + farm.crops.length, 0);
+
+    return L.marker(bounds.getCenter(), {
+      icon: L.divIcon({
+        html: `<span>${count}</span>`,
+        className: 'smc-map-marker cluster',
+        iconSize: [40, 40],
+        iconAnchor: [20, 20],
+      }),
+      title: `${count} listings from ${cluster.farms.length} farms`,
+      keyboard: true,
+    }).on('click', () => map.fitBounds(bounds, { padding: [64, 64] }));
+  }
+
+  private popupHtml(farm: FarmGroup): string {
+    const { farmerName, farmerLocation } = farm.crops[0];
+    const rows = farm.crops
+      .map(
+        (crop) => `
+          <li>
+            <div class="crop">
+              <strong>${escapeHtml(crop.cropName)}</strong>
+              <span class="quality ${crop.qualityGrade.toLowerCase()}">${QUALITY_LABELS[crop.qualityGrade]}</span>
+              ${crop.isOrganic ? '<span class="organic">Organic</span>' : ''}
+            </div>
+            <div class="price">₹${crop.price}/${escapeHtml(crop.unit)} · ${crop.quantity} ${escapeHtml(crop.unit)}</div>
+            <button type="button" data-crop-id="${escapeHtml(crop.id)}">View details</button>
+          </li>`
+      )
+      .join('');
+
+    return `
+      <div class="smc-map-popup">
+        <div class="farmer">${escapeHtml(farmerName)}</div>
+        <div class="location">${escapeHtml(farmerLocation)}</div>
+        <ul>${rows}</ul>
+      </div>`;
+  }
+
+  private bindPopup(popup: L.Popup): void {
+    const element = popup.getElement();
+    if (!element) return;
+
+    element.querySelectorAll<HTMLButtonElement>('button[data-crop-id]').forEach((button) => {
+      button.onclick = () => {
+        const crop = this.crops().find((c) => c.id === button.dataset['cropId']);
+        if (crop) this.viewDetails.emit(crop);
+      };
+    });
+  }
+
+  // ============================================
+  // Origin & Bounds
+  // ============================================
+
+  private drawOrigin(origin: MarketplaceOrigin | null, radiusKm: number | null): void {
+    this.originLayer.clearLayers();
+    if (!origin) return;
+
+    L.marker(toLatLng(origin), {
+      icon: L.divIcon({
+        html: '<span class="material-icons">my_location</span>',
+        className: 'smc-map-marker origin',
+        iconSize: [32, 32],
+        iconAnchor: [16, 16],
+      }),
+      title: `Distances from ${origin.label}`,
+      zIndexOffset: -1000,
+    }).addTo(this.originLayer);
+
+    if (radiusKm !== null) {
+      L.circle(toLatLng(origin), {
+        radius: radiusKm * 1000,
+        color: '#1b5e20',
+        weight: 1,
+        fillOpacity: 0.06,
+        interactive: false,
+      }).addTo(this.originLayer);
+    }
+  }
+
+  private scheduleBoundsChange(): void {
+    if (this.boundsTimer) clearTimeout(this.boundsTimer);
+    this.boundsTimer = setTimeout(() => {
+      this.boundsTimer = null;
+      const bounds = this.map?.getBounds();
+      if (!bounds) return;
+      this.boundsChange.emit({
+        south: bounds.getSouth(),
+        west: bounds.getWest(),
+        north: bounds.getNorth(),
+        east: bounds.getEast(),
+      });
+    }, BOUNDS_DEBOUNCE_MS);
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Save Search Dialog Component
+ * ============================
+ * Names the current marketplace filters as a saved search and optionally
+ * turns on alerts for new matching listings.
+ */
+
+import { Component, ChangeDetectionStrategy, inject, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialogRef, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+
+import { PreferencesService } from '@core/services/preferences.service';
+import { MarketplaceFilters } from '../../services/marketplace.service';
+import { CreateSavedSearchDto, describeFilters } from '../../services/saved-search.service';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
+
+interface DialogData {
+  filters: MarketplaceFilters;
+}
+
+export interface SaveSearchDialogResult {
+  confirmed: boolean;
+  request?: CreateSavedSearchDto;
+}
+
+@Component({
+  selector: 'smc-save-search-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSlideToggleModule,
+    TranslatePipe,
+  ],
+  templateUrl: './save-search-dialog.component.html',
+  styleUrl: './save-search-dialog.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class SaveSearchDialogComponent {
+  readonly dialogRef = inject(MatDialogRef<SaveSearchDialogComponent, SaveSearchDialogResult>);
+  readonly data: DialogData = inject(MAT_DIALOG_DATA);
+  private readonly preferencesService = inject(PreferencesService);
+
+  readonly summary = describeFilters(this.data.filters);
+
+  name = this.data.filters.search || this.data.filters.category;
+  alertOnNew = false;
+
+  /** Saved-search alerts are price alerts, which can be switched off in settings */
+  readonly alertsOff = computed(() => !this.preferencesService.notifications().priceAlerts);
+
+  isValid(): boolean {
+    return !!this.name.trim();
+  }
+
+  onCancel(): void {
+    this.dialogRef.close({ confirmed: false });
+  }
+
+  onConfirm(): void {
+    if (!this.isValid()) return;
+
+    this.dialogRef.close({
+      confirmed: true,
+      request: {
+        name: this.name.trim(),
+        filters: this.data.filters,
+        alertOnNew: this.alertOnNew,
+      },
+    });
+  }
+}
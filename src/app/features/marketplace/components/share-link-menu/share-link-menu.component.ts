@@ -0,0 +1,53 @@
+/**
+ * Share Link Menu Component
+ * =========================
+ * Share button for the current page's URL: WhatsApp, the device share
+ * sheet where available, or copy to clipboard. The URL is read when the
+ * menu is used, so it includes any filters applied since the page opened.
+ */
+
+import { Component, ChangeDetectionStrategy, inject, input } from '@angular/core';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
+
+@Component({
+  selector: 'smc-share-link-menu',
+  standalone: true,
+  imports: [MatButtonModule, MatIconModule, MatMenuModule, MatTooltipModule, MatSnackBarModule, TranslatePipe],
+  templateUrl: './share-link-menu.component.html',
+  styleUrl: './share-link-menu.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ShareLinkMenuComponent {
+  private readonly snackBar = inject(MatSnackBar);
+
+  /** Title for the device share sheet */
+  readonly title = input('Smart Mandi Connect');
+
+  /** Message sent ahead of the link */
+  readonly text = input.required<string>();
+
+  readonly canUseShareSheet = typeof navigator !== 'undefined' && !!navigator.share;
+
+  shareOnWhatsApp(): void {
+    const message = `${this.text()} ${window.location.href}`;
+    window.open(`https://wa.me/?text=${encodeURIComponent(message)}`, '_blank', 'noopener');
+  }
+
+  shareWithDevice(): void {
+    navigator.share({ title: this.title(), text: this.text(), url: window.location.href }).catch(() => {
+      // Dismissing the share sheet rejects; nothing to do
+    });
+  }
+
+  copyLink(): void {
+    navigator.clipboard.writeText(window.location.href).then(
+      () => this.snackBar.open('Link copied to clipboard!', 'Close', { duration: 3000 }),
+      () => this.snackBar.open('Could not copy the link', 'Close', { duration: 3000 })
+    );
+  }
+}
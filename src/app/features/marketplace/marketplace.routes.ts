@@ -1,14 +1,22 @@
 import { Routes } from '@angular/router';
+import { buyerGuard } from '@core/guards';
 
 /**
  * Marketplace Feature Routes
  * ==========================
  * Routes for marketplace browsing and crop details.
  *
+ * Filters, sort and page on the browse, search and category pages are
+ * kept in the query string (see MarketplaceUrlSyncService).
+ *
  * URL Structure:
  * - /marketplace              → Browse all crops
+ * - /marketplace/search       → Search results (?q=)
+ * - /marketplace/category/:categoryId → Crops in one category
  * - /marketplace/crop/:id     → View crop details
  * - /marketplace/crop/:id/bid → Place bid on crop
+ * - /marketplace/my-bids      → Buyer's bids (BUYER only)
+ * - /marketplace/wishlist     → Saved crops and saved searches (BUYER only)
  */
 export const MARKETPLACE_ROUTES: Routes = [
   {
@@ -19,6 +27,22 @@ export const MARKETPLACE_ROUTES: Routes = [
       ),
     title: 'Marketplace | Smart Mandi Connect',
   },
+  {
+    path: 'search',
+    loadComponent: () =>
+      import('./pages/search-results/search-results.component').then(
+        (m) => m.SearchResultsComponent
+      ),
+    title: 'Search | Smart Mandi Connect',
+  },
+  {
+    path: 'category/:categoryId',
+    loadComponent: () =>
+      import('./pages/category/category.component').then(
+        (m) => m.CategoryComponent
+      ),
+    title: 'Category | Smart Mandi Connect',
+  },
   {
     path: 'crop/:id',
     loadComponent: () =>
@@ -35,4 +59,22 @@ export const MARKETPLACE_ROUTES: Routes = [
       ),
     title: 'Place Bid | Smart Mandi Connect',
   },
+  {
+    path: 'my-bids',
+    canActivate: [buyerGuard],
+    loadComponent: () =>
+      import('./pages/my-bids/my-bids.component').then(
+        (m) => m.MyBidsComponent
+      ),
+    title: 'My Bids | Smart Mandi Connect',
+  },
+  {
+    path: 'wishlist',
+    canActivate: [buyerGuard],
+    loadComponent: () =>
+      import('./pages/wishlist/wishlist.component').then(
+        (m) => m.WishlistComponent
+      ),
+    title: 'Wishlist | Smart Mandi Connect',
+  },
 ];
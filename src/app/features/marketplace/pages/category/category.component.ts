@@ -1,19 +1,66 @@
 /**
  * Category Page Component
+ * =======================
+ * Crops in one category (`/marketplace/category/:categoryId`, the category
+ * name). The category comes from the path; other filters, sort and page
+ * live in the query string like the main marketplace.
  */
 
-import { Component, ChangeDetectionStrategy, input } from '@angular/core';
+import { Component, ChangeDetectionStrategy, inject, input, computed, effect, untracked } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+
+import { TranslationService } from '@core/services/translation.service';
+import { MarketplaceService } from '../../services/marketplace.service';
+import { MarketplaceUrlSyncService } from '../../services/marketplace-url-sync.service';
+import { describeFilters } from '../../services/saved-search.service';
+import { CropResultsComponent } from '../../components/crop-results/crop-results.component';
+import { ShareLinkMenuComponent } from '../../components/share-link-menu/share-link-menu.component';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
 
 @Component({
   selector: 'smc-category',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, RouterLink, MatButtonModule, MatIconModule, CropResultsComponent, ShareLinkMenuComponent, TranslatePipe],
+  providers: [MarketplaceUrlSyncService],
   templateUrl: './category.component.html',
   styleUrl: './category.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class CategoryComponent {
+  private readonly marketplaceService = inject(MarketplaceService);
+  private readonly urlSync = inject(MarketplaceUrlSyncService);
+  private readonly translation = inject(TranslationService);
+
+  /** Route param: category name */
   readonly categoryId = input.required<string>();
-}
 
+  readonly category = computed(() =>
+    this.marketplaceService.categories().find((c) => c.name.toLowerCase() === this.categoryId().toLowerCase())
+  );
+
+  readonly categoryName = computed(() => this.category()?.name ?? this.categoryId());
+
+  readonly showLocalName = computed(() => this.translation.language() !== 'en' && !!this.category()?.localName);
+
+  readonly shareText = computed(
+    () => `${this.categoryName()} on Smart Mandi Connect: ${describeFilters(this.marketplaceService.appliedFilters())}`
+  );
+
+  constructor() {
+    // Hold syncing until the route param has been read
+    this.urlSync.setFixedFilters(null);
+
+    effect(() => {
+      const category = this.categoryName();
+      untracked(() => this.urlSync.setFixedFilters({ category }));
+    });
+  }
+
+  /** Drop the filters but stay in the category */
+  onClearFilters(): void {
+    this.marketplaceService.setFilters({ category: this.categoryName() });
+  }
+}
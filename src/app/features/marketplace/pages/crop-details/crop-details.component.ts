@@ -2,7 +2,7 @@
  * Crop Details Component
  * ======================
  * Displays comprehensive crop information with image gallery,
- * farmer info, bid form, and instant buy option.
+ * farmer info, reviews, bid form, and instant buy option.
  */
 
 import {
@@ -12,10 +12,12 @@ import {
   signal,
   computed,
   input,
+  effect,
+  untracked,
   OnInit,
   OnDestroy,
 } from '@angular/core';
-import { CommonModule, DatePipe, CurrencyPipe } from '@angular/common';
+import { CommonModule } from '@angular/common';
 import { Router, RouterLink } from '@angular/router';
 import { FormsModule, ReactiveFormsModule, FormBuilder, Validators } from '@angular/forms';
 import { MatCardModule } from '@angular/material/card';
@@ -43,9 +45,22 @@ import {
   InstantBuyDto,
 } from '../../services/crop-details.service';
 import { QualityGrade } from '../../services/marketplace.service';
+import { WishlistService, wishlistEntryFromDetails } from '../../services/wishlist.service';
+import { CartService } from '@features/cart/services/cart.service';
+import { AuthService } from '@core/services/auth.service';
 import { ImageGalleryComponent } from '../../components/image-gallery/image-gallery.component';
 import { FarmerCardComponent } from '../../components/farmer-card/farmer-card.component';
-import { InstantBuyDialogComponent } from '../../components/instant-buy-dialog/instant-buy-dialog.component';
+import {
+  InstantBuyDialogComponent,
+  InstantBuyDialogResult,
+} from '../../components/instant-buy-dialog/instant-buy-dialog.component';
+import { ReviewService, ReviewSubjectType } from '@features/reviews/services/review.service';
+import {
+  ReviewListComponent,
+  ReviewReport,
+} from '@features/reviews/components/review-list/review-list.component';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
 
 @Component({
   selector: 'smc-crop-details',
@@ -70,10 +85,11 @@ import { InstantBuyDialogComponent } from '../../components/instant-buy-dialog/i
     MatBadgeModule,
     MatSnackBarModule,
     MatDialogModule,
-    DatePipe,
-    CurrencyPipe,
     ImageGalleryComponent,
     FarmerCardComponent,
+    ReviewListComponent,
+    LocaleNumberPipe,
+    TranslatePipe,
   ],
   templateUrl: './crop-details.component.html',
   styleUrl: './crop-details.component.scss',
@@ -81,6 +97,10 @@ import { InstantBuyDialogComponent } from '../../components/instant-buy-dialog/i
 })
 export class CropDetailsComponent implements OnInit, OnDestroy {
   private readonly cropDetailsService = inject(CropDetailsService);
+  private readonly cartService = inject(CartService);
+  private readonly authService = inject(AuthService);
+  private readonly reviewService = inject(ReviewService);
+  private readonly wishlistService = inject(WishlistService);
   private readonly router = inject(Router);
   private readonly fb = inject(FormBuilder);
   private readonly snackBar = inject(MatSnackBar);
@@ -103,6 +123,17 @@ export class CropDetailsComponent implements OnInit, OnDestroy {
   readonly error = this.cropDetailsService.error;
   readonly isBiddingOpen = this.cropDetailsService.isBiddingOpen;
   readonly biddingTimeRemaining = this.cropDetailsService.biddingTimeRemaining;
+  readonly isAuthenticated = this.authService.isAuthenticated;
+
+  readonly cropReviews = computed(() => {
+    const crop = this.crop();
+    return crop ? this.reviewService.reviewsFor(ReviewSubjectType.CROP, crop.id) : [];
+  });
+
+  readonly farmerReviews = computed(() => {
+    const farmer = this.farmer();
+    return farmer ? this.reviewService.reviewsFor(ReviewSubjectType.FARMER, farmer.id) : [];
+  });
 
   // ============================================
   // Local State
@@ -110,7 +141,6 @@ export class CropDetailsComponent implements OnInit, OnDestroy {
 
   readonly QualityGrade = QualityGrade;
   readonly selectedImageIndex = signal(0);
-  readonly isWishlisted = signal(false);
   readonly currentTime = signal(new Date());
   readonly showBidForm = signal(false);
 
@@ -171,6 +201,29 @@ export class CropDetailsComponent implements OnInit, OnDestroy {
     return Math.ceil((harvest - now) / (1000 * 60 * 60 * 24));
   });
 
+  /** Buyers (and admins) can order through the cart */
+  readonly canUseCart = computed(
+    () => this.authService.isBuyer() || this.authService.isAdmin()
+  );
+
+  /** Saved to the buyer's wishlist */
+  readonly isWishlisted = computed(() => {
+    const crop = this.crop();
+    return !!crop && this.wishlistService.isWishlisted(crop.id);
+  });
+
+  readonly isWishlistPending = computed(() => {
+    const crop = this.crop();
+    return !!crop && this.wishlistService.isPending(crop.id);
+  });
+
+  /** Quantity of this crop already in the cart */
+  readonly quantityInCart = computed(() => {
+    const crop = this.crop();
+    if (!crop) return 0;
+    return this.cartService.items().find((i) => i.cropId === crop.id)?.quantity ?? 0;
+  });
+
   /** Bid total */
   readonly bidTotal = computed(() => {
     const amount = this.bidForm.get('amount')?.value || 0;
@@ -178,12 +231,31 @@ export class CropDetailsComponent implements OnInit, OnDestroy {
     return amount * quantity;
   });
 
+  constructor() {
+    // Reviews of the crop and its farmer, once the crop has loaded
+    const cropId = computed(() => this.crop()?.id);
+    const farmerId = computed(() => this.farmer()?.id);
+
+    effect(() => {
+      const id = cropId();
+      if (id) untracked(() => this.reviewService.loadReviews(ReviewSubjectType.CROP, id));
+    });
+
+    effect(() => {
+      const id = farmerId();
+      if (id) untracked(() => this.reviewService.loadReviews(ReviewSubjectType.FARMER, id));
+    });
+  }
+
   // ============================================
   // Lifecycle
   // ============================================
 
   ngOnInit(): void {
     this.cropDetailsService.loadCropDetails(this.id());
+    if (this.authService.isBuyer()) {
+      this.wishlistService.loadWishlist();
+    }
 
     // Update time every second
     interval(1000)
@@ -219,16 +291,22 @@ export class CropDetailsComponent implements OnInit, OnDestroy {
     const crop = this.crop();
     if (!crop) return;
 
-    this.isWishlisted.update((v) => !v);
-    this.cropDetailsService.addToWishlist(crop.id).subscribe({
-      next: () => {
-        this.snackBar.open(
-          this.isWishlisted() ? 'Added to wishlist' : 'Removed from wishlist',
-          'Close',
-          { duration: 3000 }
-        );
-      },
-    });
+    if (!this.authService.isBuyer()) {
+      this.snackBar.open('Sign in as a buyer to save crops', 'Close', { duration: 3000 });
+      return;
+    }
+
+    this.wishlistService
+      .toggle(wishlistEntryFromDetails(crop))
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (saved) => {
+          this.snackBar.open(saved ? 'Added to wishlist' : 'Removed from wishlist', 'Close', {
+            duration: 3000,
+          });
+        },
+        error: () => this.snackBar.open('Failed to update wishlist', 'Close', { duration: 5000 }),
+      });
   }
 
   // ============================================
@@ -282,6 +360,40 @@ export class CropDetailsComponent implements OnInit, OnDestroy {
     });
   }
 
+  // ============================================
+  // Cart
+  // ============================================
+
+  addToCart(): void {
+    const crop = this.crop();
+    if (!crop) return;
+
+    const quantity = Math.min(
+      Math.max(crop.minOrderQuantity, Math.min(100, crop.availableQuantity)),
+      crop.availableQuantity
+    );
+
+    this.cartService.addItem({
+      cropId: crop.id,
+      cropName: crop.cropName,
+      cropImage: (crop.images.find((i) => i.isPrimary) ?? crop.images[0])?.thumbnailUrl ?? '',
+      farmerId: crop.farmer.id,
+      farmerName: crop.farmer.name,
+      farmerLocation: `${crop.farmer.district}, ${crop.farmer.state}`,
+      qualityGrade: crop.qualityGrade,
+      quantity,
+      unit: crop.unit,
+      pricePerUnit: crop.price,
+      availableQuantity: crop.availableQuantity,
+      minOrderQuantity: crop.minOrderQuantity,
+    });
+
+    this.snackBar
+      .open(`${quantity} ${crop.unit} added to cart`, 'View Cart', { duration: 5000 })
+      .onAction()
+      .subscribe(() => this.router.navigate(['/cart']));
+  }
+
   // ============================================
   // Instant Buy
   // ============================================
@@ -296,23 +408,21 @@ export class CropDetailsComponent implements OnInit, OnDestroy {
       panelClass: 'smc-dialog',
     });
 
-    dialogRef.afterClosed().subscribe((result) => {
+    dialogRef.afterClosed().subscribe((result: InstantBuyDialogResult | null | undefined) => {
       if (result) {
         this.processInstantBuy(result);
       }
     });
   }
 
-  private processInstantBuy(data: {
-    quantity: number;
-    paymentMethod: 'cod' | 'online' | 'upi';
-  }): void {
+  private processInstantBuy(data: InstantBuyDialogResult): void {
     const crop = this.crop();
     if (!crop) return;
 
     const dto: InstantBuyDto = {
       cropId: crop.id,
       quantity: data.quantity,
+      deliveryAddress: data.deliveryAddress,
       paymentMethod: data.paymentMethod,
     };
 
@@ -350,6 +460,17 @@ export class CropDetailsComponent implements OnInit, OnDestroy {
     }
   }
 
+  // ============================================
+  // Reviews
+  // ============================================
+
+  onReportReview({ review, reason }: ReviewReport): void {
+    this.reviewService.flagReview(review, reason).subscribe({
+      next: () => this.snackBar.open('Thanks, our moderators will take a look', 'Close', { duration: 3000 }),
+      error: () => this.snackBar.open('Failed to report review', 'Close', { duration: 5000 }),
+    });
+  }
+
   // ============================================
   // Navigation
   // ============================================
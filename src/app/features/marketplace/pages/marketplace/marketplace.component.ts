@@ -3,6 +3,8 @@
  * =====================
  * Main marketplace page with crop listings, filters, and search.
  * Uses signals for reactive state management with minimal subscriptions.
+ * Filters, sort and page are mirrored in the URL (MarketplaceUrlSyncService).
+ * The map view limits the listing to the visible area as the user pans.
  * 
  * Refactored to:
  * - Use DestroyRef + takeUntilDestroyed (no manual Subject cleanup)
@@ -16,10 +18,13 @@ import {
   inject,
   signal,
   computed,
+  effect,
+  untracked,
   DestroyRef,
   ViewChild,
   ElementRef,
   HostListener,
+  OnInit,
   AfterViewInit,
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
@@ -38,14 +43,32 @@ import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatProgressBarModule } from '@angular/material/progress-bar';
 import { MatTooltipModule } from '@angular/material/tooltip';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { filter, switchMap } from 'rxjs';
 
+import { AuthService } from '@core/services/auth.service';
+import { TranslationService } from '@core/services/translation.service';
 import {
   MarketplaceService,
   MarketplaceCrop,
   MarketplaceFilters,
 } from '../../services/marketplace.service';
+import { WishlistService, wishlistEntryFromListing } from '../../services/wishlist.service';
+import { SavedSearchService, SavedSearch, describeFilters } from '../../services/saved-search.service';
+import { MarketplaceUrlSyncService } from '../../services/marketplace-url-sync.service';
+import { GeoBounds } from '@shared/services/geo-distance';
+import { VoiceInputButtonComponent } from '@shared/components/voice-input-button/voice-input-button.component';
 import { MarketplaceCropCardComponent } from '../../components/marketplace-crop-card/marketplace-crop-card.component';
 import { MarketplaceFiltersComponent } from '../../components/marketplace-filters/marketplace-filters.component';
+import {
+  SaveSearchDialogComponent,
+  SaveSearchDialogResult,
+} from '../../components/save-search-dialog/save-search-dialog.component';
+import { ShareLinkMenuComponent } from '../../components/share-link-menu/share-link-menu.component';
+import { DistanceFilterComponent } from '../../components/distance-filter/distance-filter.component';
+import { MarketplaceMapComponent } from '../../components/marketplace-map/marketplace-map.component';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
 
 @Component({
   selector: 'smc-marketplace',
@@ -67,9 +90,16 @@ import { MarketplaceFiltersComponent } from '../../components/marketplace-filter
     MatProgressBarModule,
     MatTooltipModule,
     MatSnackBarModule,
+    MatDialogModule,
     MarketplaceCropCardComponent,
     MarketplaceFiltersComponent,
+    DistanceFilterComponent,
+    MarketplaceMapComponent,
+    ShareLinkMenuComponent,
+    VoiceInputButtonComponent,
+    TranslatePipe,
   ],
+  providers: [MarketplaceUrlSyncService],
   templateUrl: './marketplace.component.html',
   styleUrl: './marketplace.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
@@ -79,11 +109,18 @@ import { MarketplaceFiltersComponent } from '../../components/marketplace-filter
     '[attr.aria-label]': '"Marketplace - Browse fresh produce"',
   },
 })
-export class MarketplaceComponent implements AfterViewInit {
+export class MarketplaceComponent implements OnInit, AfterViewInit {
   private readonly marketplaceService = inject(MarketplaceService);
+  private readonly wishlistService = inject(WishlistService);
+  private readonly savedSearchService = inject(SavedSearchService);
+  private readonly authService = inject(AuthService);
+  private readonly dialog = inject(MatDialog);
+  /** Mirrors the filters in the URL from construction on */
+  private readonly urlSync = inject(MarketplaceUrlSyncService);
   private readonly router = inject(Router);
   private readonly snackBar = inject(MatSnackBar);
   private readonly destroyRef = inject(DestroyRef);
+  private readonly translation = inject(TranslationService);
 
   @ViewChild('filterDrawer') filterDrawer!: MatDrawer;
   @ViewChild('cropsGrid') cropsGrid!: ElementRef;
@@ -96,20 +133,28 @@ export class MarketplaceComponent implements AfterViewInit {
   readonly crops = this.marketplaceService.crops;
   readonly featuredCrops = this.marketplaceService.featuredCrops;
   readonly categories = this.marketplaceService.categories;
+
+  /** Show local crop names alongside English ones */
+  readonly showLocalNames = computed(() => this.translation.language() !== 'en');
   readonly locations = this.marketplaceService.locations;
   readonly filters = this.marketplaceService.filters;
+  readonly appliedFilters = this.marketplaceService.appliedFilters;
   readonly pagination = this.marketplaceService.pagination;
   readonly isLoading = this.marketplaceService.isLoading;
   readonly isLoadingMore = this.marketplaceService.isLoadingMore;
   readonly hasMore = this.marketplaceService.hasMore;
   readonly activeFilterCount = this.marketplaceService.activeFilterCount;
   readonly hasActiveFilters = this.marketplaceService.hasActiveFilters;
+  readonly savedSearches = this.savedSearchService.searches;
+  readonly isBuyer = this.authService.isBuyer;
+
+  readonly describeFilters = describeFilters;
 
   // ============================================
   // Local State (Signals)
   // ============================================
 
-  readonly viewMode = signal<'grid' | 'list'>('grid');
+  readonly viewMode = signal<'grid' | 'list' | 'map'>('grid');
   readonly searchTerm = signal('');
   readonly showFiltersOnMobile = signal(false);
   readonly isScrolled = signal(false);
@@ -125,6 +170,7 @@ export class MarketplaceComponent implements AfterViewInit {
     price_high: 'Price ↓',
     popular: 'Popular',
     rating: 'Top Rated',
+    distance: 'Nearest',
   };
 
   /** Current sort label */
@@ -132,6 +178,14 @@ export class MarketplaceComponent implements AfterViewInit {
     return this.sortLabels[this.filters().sortBy] || 'Sort';
   });
 
+  /** Message shared ahead of the results link */
+  readonly shareText = computed(
+    () => `Crops on Smart Mandi Connect: ${describeFilters(this.marketplaceService.appliedFilters())}`
+  );
+
+  /** Listings the map can't place (no farm coordinates) */
+  readonly unmappedCount = computed(() => this.crops().filter((crop) => !crop.farmerGeo).length);
+
   /** Show scroll-to-top button */
   readonly showScrollToTop = computed(() => this.scrollY() > 500);
 
@@ -142,10 +196,29 @@ export class MarketplaceComponent implements AfterViewInit {
     return `Showing ${count} of ${total} crops`;
   });
 
+  constructor() {
+    // Show the search the results are for (from the URL or a saved search)
+    effect(() => {
+      const search = this.marketplaceService.appliedFilters().search;
+      untracked(() => this.searchTerm.set(search));
+    });
+
+    // The map area only applies while the map is open
+    this.destroyRef.onDestroy(() => {
+      if (this.marketplaceService.mapBounds()) this.marketplaceService.setMapBounds(null);
+    });
+  }
+
   // ============================================
   // Lifecycle
   // ============================================
 
+  ngOnInit(): void {
+    if (this.isBuyer()) {
+      this.wishlistService.loadWishlist();
+    }
+  }
+
   ngAfterViewInit(): void {
     // Focus search input for keyboard users
     this.searchInput?.nativeElement?.focus();
@@ -172,7 +245,7 @@ export class MarketplaceComponent implements AfterViewInit {
   }
 
   private checkInfiniteScroll(): void {
-    if (this.isLoading() || this.isLoadingMore() || !this.hasMore()) return;
+    if (this.isLoading() || this.isLoadingMore() || !this.hasMore() || this.viewMode() === 'map') return;
 
     const scrollPosition = window.innerHeight + window.scrollY;
     const threshold = document.documentElement.scrollHeight - 500;
@@ -210,6 +283,13 @@ export class MarketplaceComponent implements AfterViewInit {
     this.marketplaceService.search(value);
   }
 
+  onSearchSpoken(transcript: string): void {
+    // Recognizers often end a phrase with a full stop
+    const value = transcript.replace(/[.?!।]+$/, '').trim();
+    this.searchTerm.set(value);
+    this.marketplaceService.search(value);
+  }
+
   clearSearch(): void {
     this.searchTerm.set('');
     this.marketplaceService.search('');
@@ -234,6 +314,10 @@ export class MarketplaceComponent implements AfterViewInit {
     );
   }
 
+  onClearDistance(): void {
+    this.marketplaceService.setOrigin(null);
+  }
+
   onResetFilters(): void {
     this.marketplaceService.resetFilters();
     this.searchTerm.set('');
@@ -257,11 +341,45 @@ export class MarketplaceComponent implements AfterViewInit {
     this.announceToScreenReader(`Sorted by ${this.sortLabels[sortBy]}`);
   }
 
-  setViewMode(mode: 'grid' | 'list'): void {
+  setViewMode(mode: 'grid' | 'list' | 'map'): void {
+    if (mode !== 'map' && this.marketplaceService.mapBounds()) {
+      this.marketplaceService.setMapBounds(null);
+    }
     this.viewMode.set(mode);
     this.announceToScreenReader(`Switched to ${mode} view`);
   }
 
+  onMapBoundsChange(bounds: GeoBounds): void {
+    this.marketplaceService.setMapBounds(bounds);
+  }
+
+  // ============================================
+  // Saved Searches
+  // ============================================
+
+  onSaveSearch(): void {
+    this.dialog
+      .open<SaveSearchDialogComponent, { filters: MarketplaceFilters }, SaveSearchDialogResult>(
+        SaveSearchDialogComponent,
+        { width: '440px', data: { filters: this.filters() }, panelClass: 'smc-dialog', ariaLabel: 'Save search' }
+      )
+      .afterClosed()
+      .pipe(
+        filter((result): result is Required<SaveSearchDialogResult> => !!result?.confirmed && !!result.request),
+        switchMap((result) => this.savedSearchService.save(result.request)),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe({
+        next: (search) => this.snackBar.open(`Saved "${search.name}"`, 'Close', { duration: 3000 }),
+        error: () => this.snackBar.open('Failed to save search', 'Close', { duration: 5000 }),
+      });
+  }
+
+  onRunSearch(search: SavedSearch): void {
+    this.savedSearchService.run(search);
+    this.announceToScreenReader(`Showing results for ${search.name}`);
+  }
+
   // ============================================
   // Category Quick Filter
   // ============================================
@@ -282,11 +400,32 @@ export class MarketplaceComponent implements AfterViewInit {
     this.router.navigate(['/marketplace/crop', crop.id, 'bid']);
   }
 
-  onAddToWishlist(crop: MarketplaceCrop): void {
-    this.snackBar.open(`${crop.cropName} added to wishlist`, 'View', {
-      duration: 3000,
-      politeness: 'polite',
-    });
+  isWishlisted(crop: MarketplaceCrop): boolean {
+    return this.wishlistService.isWishlisted(crop.id);
+  }
+
+  onToggleWishlist(crop: MarketplaceCrop): void {
+    if (!this.isBuyer()) {
+      this.snackBar.open('Sign in as a buyer to save crops', 'Close', { duration: 3000 });
+      return;
+    }
+
+    this.wishlistService
+      .toggle(wishlistEntryFromListing(crop))
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (saved) => {
+          if (!saved) {
+            this.snackBar.open(`${crop.cropName} removed from wishlist`, 'Close', { duration: 3000 });
+            return;
+          }
+          this.snackBar
+            .open(`${crop.cropName} added to wishlist`, 'View', { duration: 3000, politeness: 'polite' })
+            .onAction()
+            .subscribe(() => this.router.navigate(['/marketplace/wishlist']));
+        },
+        error: () => this.snackBar.open('Failed to update wishlist', 'Close', { duration: 5000 }),
+      });
   }
 
   onViewFarmer(farmerId: string): void {
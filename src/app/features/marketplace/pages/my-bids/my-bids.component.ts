@@ -0,0 +1,303 @@
+/**
+ * My Bids Component
+ * =================
+ * Buyer dashboard of all placed bids with live status, highest-bid
+ * indicator and expiry countdown. Supports withdrawing, raising and
+ * answering farmer counter-offers.
+ */
+
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  signal,
+  computed,
+  OnInit,
+  OnDestroy,
+  DestroyRef,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { interval } from 'rxjs';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
+
+import { BuyerBidService } from '../../services/buyer-bid.service';
+import {
+  Bid,
+  BidParty,
+  BidStatus,
+  CounterOfferDto,
+  isAwaitingResponse,
+  canCounterOffer,
+} from '@features/farmer/services/bid.service';
+import { BidNegotiationTimelineComponent } from '@features/farmer/components/bid-negotiation-timeline/bid-negotiation-timeline.component';
+import { CounterBidDialogComponent } from '@features/farmer/components/counter-bid-dialog/counter-bid-dialog.component';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
+
+type BidFilter = 'all' | 'active' | 'accepted' | 'closed';
+
+/** Status label and icon per bid status */
+const STATUS_DISPLAY: Record<BidStatus, { label: string; icon: string; classes: string }> = {
+  [BidStatus.PENDING]: { label: 'Pending', icon: 'schedule', classes: 'bg-amber-50 text-amber-800' },
+  [BidStatus.COUNTERED]: { label: 'Countered', icon: 'swap_horiz', classes: 'bg-blue-50 text-blue-800' },
+  [BidStatus.ACCEPTED]: { label: 'Accepted', icon: 'check_circle', classes: 'bg-green-50 text-green-800' },
+  [BidStatus.REJECTED]: { label: 'Rejected', icon: 'cancel', classes: 'bg-red-50 text-red-800' },
+  [BidStatus.EXPIRED]: { label: 'Expired', icon: 'timer_off', classes: 'bg-gray-100 text-gray-700' },
+  [BidStatus.WITHDRAWN]: { label: 'Withdrawn', icon: 'undo', classes: 'bg-gray-100 text-gray-700' },
+};
+
+@Component({
+  selector: 'smc-my-bids',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    RouterLink,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatChipsModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatTooltipModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+    MatDialogModule,
+    BidNegotiationTimelineComponent,
+    LocaleDatePipe,
+    LocaleNumberPipe,
+    TranslatePipe,
+  ],
+  templateUrl: './my-bids.component.html',
+  styleUrl: './my-bids.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class MyBidsComponent implements OnInit, OnDestroy {
+  private readonly buyerBidService = inject(BuyerBidService);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly dialog = inject(MatDialog);
+  private readonly destroyRef = inject(DestroyRef);
+
+  // ============================================
+  // Expose Service Signals
+  // ============================================
+
+  readonly bids = this.buyerBidService.bids;
+  readonly activeBids = this.buyerBidService.activeBids;
+  readonly awaitingResponseCount = this.buyerBidService.awaitingResponseCount;
+  readonly isLoading = this.buyerBidService.isLoading;
+  readonly isProcessing = this.buyerBidService.isProcessing;
+
+  // ============================================
+  // Local State
+  // ============================================
+
+  readonly BidParty = BidParty;
+  readonly selectedFilter = signal<BidFilter>('all');
+  readonly currentTime = signal(new Date());
+
+  /** Bid whose raise form is open */
+  readonly raisingBidId = signal<string | null>(null);
+  raiseAmount = 0;
+
+  /** Bid whose negotiation history is expanded */
+  readonly expandedBidId = signal<string | null>(null);
+
+  readonly filteredBids = computed(() => {
+    const bids = this.bids();
+    switch (this.selectedFilter()) {
+      case 'active':
+        return this.activeBids();
+      case 'accepted':
+        return bids.filter((b) => b.status === BidStatus.ACCEPTED);
+      case 'closed':
+        return bids.filter(
+          (b) =>
+            b.status === BidStatus.REJECTED ||
+            b.status === BidStatus.EXPIRED ||
+            b.status === BidStatus.WITHDRAWN
+        );
+      default:
+        return bids;
+    }
+  });
+
+  // ============================================
+  // Lifecycle
+  // ============================================
+
+  ngOnInit(): void {
+    this.buyerBidService.loadMyBids();
+
+    // Update time every second for countdowns
+    interval(1000)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(() => this.currentTime.set(new Date()));
+  }
+
+  ngOnDestroy(): void {
+    this.buyerBidService.leaveActiveBidRooms();
+  }
+
+  // ============================================
+  // Filter Actions
+  // ============================================
+
+  setFilter(filter: BidFilter): void {
+    this.selectedFilter.set(filter);
+  }
+
+  // ============================================
+  // Bid Actions
+  // ============================================
+
+  onWithdraw(bid: Bid): void {
+    this.snackBar
+      .open(`Withdraw your bid on ${bid.cropName}?`, 'Withdraw', { duration: 6000 })
+      .onAction()
+      .subscribe(() => {
+        this.buyerBidService
+          .withdrawBid(bid.id)
+          .pipe(takeUntilDestroyed(this.destroyRef))
+          .subscribe({
+            next: () => this.snackBar.open('Bid withdrawn', 'Close', { duration: 3000 }),
+            error: () => this.snackBar.open('Failed to withdraw bid', 'OK', { duration: 4000 }),
+          });
+      });
+  }
+
+  startRaise(bid: Bid): void {
+    this.raiseAmount = bid.amount + 1;
+    this.raisingBidId.set(bid.id);
+  }
+
+  cancelRaise(): void {
+    this.raisingBidId.set(null);
+  }
+
+  confirmRaise(bid: Bid): void {
+    this.buyerBidService
+      .raiseBid(bid.id, Number(this.raiseAmount))
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => {
+          this.raisingBidId.set(null);
+          this.snackBar.open(this.buyerBidService.successMessage() ?? 'Bid raised', 'Close', {
+            duration: 3000,
+          });
+        },
+        error: () => {
+          this.snackBar.open(this.buyerBidService.error() ?? 'Failed to raise bid', 'OK', {
+            duration: 4000,
+          });
+        },
+      });
+  }
+
+  onAcceptCounter(bid: Bid): void {
+    this.buyerBidService
+      .acceptCounterOffer(bid.id)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => {
+          this.snackBar.open(this.buyerBidService.successMessage() ?? 'Offer accepted!', 'Close', {
+            duration: 5000,
+          });
+        },
+        error: () => this.snackBar.open('Failed to accept offer', 'OK', { duration: 4000 }),
+      });
+  }
+
+  onCounter(bid: Bid): void {
+    const dialogRef = this.dialog.open(CounterBidDialogComponent, {
+      width: '450px',
+      data: { bid, counterBy: BidParty.BUYER },
+      panelClass: 'smc-dialog',
+    });
+
+    dialogRef.afterClosed().subscribe((offer: CounterOfferDto | null) => {
+      if (!offer) return;
+
+      this.buyerBidService
+        .counterOffer(bid.id, offer)
+        .pipe(takeUntilDestroyed(this.destroyRef))
+        .subscribe({
+          next: () => {
+            this.snackBar.open(this.buyerBidService.successMessage() ?? 'Counter offer sent!', 'Close', {
+              duration: 4000,
+            });
+          },
+          error: () => {
+            this.snackBar.open(this.buyerBidService.error() ?? 'Failed to send counter offer', 'OK', {
+              duration: 4000,
+            });
+          },
+        });
+    });
+  }
+
+  toggleHistory(bid: Bid): void {
+    this.expandedBidId.update((id) => (id === bid.id ? null : bid.id));
+  }
+
+  // ============================================
+  // Utility Methods
+  // ============================================
+
+  statusDisplay(bid: Bid): { label: string; icon: string; classes: string } {
+    return STATUS_DISPLAY[bid.status];
+  }
+
+  /** Farmer countered and the buyer must respond */
+  hasCounterOffer(bid: Bid): boolean {
+    return isAwaitingResponse(bid, BidParty.BUYER, this.currentTime());
+  }
+
+  /** Buyer's offer is on the table, so it can be raised or withdrawn */
+  isWaitingOnFarmer(bid: Bid): boolean {
+    return isAwaitingResponse(bid, BidParty.FARMER, this.currentTime());
+  }
+
+  canCounter(bid: Bid): boolean {
+    return canCounterOffer(bid, BidParty.BUYER, this.currentTime());
+  }
+
+  isOpen(bid: Bid): boolean {
+    return bid.status === BidStatus.PENDING || bid.status === BidStatus.COUNTERED;
+  }
+
+  getTimeRemaining(expiresAt: Date): string {
+    const diff = new Date(expiresAt).getTime() - this.currentTime().getTime();
+
+    if (diff <= 0) return 'Expired';
+
+    const hours = Math.floor(diff / (1000 * 60 * 60));
+    const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
+    const seconds = Math.floor((diff % (1000 * 60)) / 1000);
+
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    return `${minutes}m ${seconds}s`;
+  }
+
+  isExpiringSoon(expiresAt: Date): boolean {
+    const diff = new Date(expiresAt).getTime() - this.currentTime().getTime();
+    return diff > 0 && diff < 2 * 60 * 60 * 1000;
+  }
+
+  trackByBidId(index: number, bid: Bid): string {
+    return bid.id;
+  }
+}
@@ -3,6 +3,9 @@
  * ===================
  * Form for placing a bid on a crop listing.
  * Includes bid amount, quantity, delivery preferences, and messaging.
+ * Delivery is to one of the buyer's saved addresses (the default
+ * preselected) or pickup from the farm.
+ * While a bid on the crop is being negotiated, shows its live offer timeline instead.
  */
 
 import {
@@ -11,8 +14,10 @@ import {
   inject,
   signal,
   computed,
+  effect,
   input,
   OnInit,
+  OnDestroy,
   DestroyRef,
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
@@ -35,10 +40,33 @@ import { MatCheckboxModule } from '@angular/material/checkbox';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
 import { MatDividerModule } from '@angular/material/divider';
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { of, delay } from 'rxjs';
 
 import { MarketplaceService, MarketplaceCrop } from '../../services/marketplace.service';
+import { BuyerBidService } from '../../services/buyer-bid.service';
+import {
+  AddressService,
+  formatAddressLine,
+  toDeliveryAddress,
+} from '@features/profile/services/address.service';
+import {
+  Bid,
+  BidParty,
+  BidStatus,
+  CounterOfferDto,
+  isAwaitingResponse,
+  canCounterOffer,
+} from '@features/farmer/services/bid.service';
+import { BidNegotiationTimelineComponent } from '@features/farmer/components/bid-negotiation-timeline/bid-negotiation-timeline.component';
+import { CounterBidDialogComponent } from '@features/farmer/components/counter-bid-dialog/counter-bid-dialog.component';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
+
+/** Delivery location option for collecting at the farm */
+const PICKUP_FROM_FARM = 'pickup';
 
 @Component({
   selector: 'smc-place-bid',
@@ -60,17 +88,25 @@ import { MarketplaceService, MarketplaceCrop } from '../../services/marketplace.
     MatProgressSpinnerModule,
     MatSnackBarModule,
     MatDividerModule,
+    MatDialogModule,
+    BidNegotiationTimelineComponent,
+    LocaleDatePipe,
+    LocaleNumberPipe,
+    TranslatePipe,
   ],
   templateUrl: './place-bid.component.html',
   styleUrl: './place-bid.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
-export class PlaceBidComponent implements OnInit {
+export class PlaceBidComponent implements OnInit, OnDestroy {
   private readonly fb = inject(FormBuilder);
   private readonly router = inject(Router);
   private readonly snackBar = inject(MatSnackBar);
   private readonly destroyRef = inject(DestroyRef);
   private readonly marketplaceService = inject(MarketplaceService);
+  private readonly buyerBidService = inject(BuyerBidService);
+  private readonly dialog = inject(MatDialog);
+  private readonly addressService = inject(AddressService);
 
   /** Crop ID from route */
   readonly id = input.required<string>();
@@ -84,6 +120,31 @@ export class PlaceBidComponent implements OnInit {
   /** Submitting state */
   readonly isSubmitting = signal(false);
 
+  readonly BidParty = BidParty;
+
+  /** Processing a negotiation response */
+  readonly isProcessing = this.buyerBidService.isProcessing;
+
+  /** Buyer's bid on this crop while it is still being negotiated */
+  readonly negotiatingBid = computed(() => {
+    const bid = this.buyerBidService.bidForCrop(this.id());
+    return bid && (bid.status === BidStatus.PENDING || bid.status === BidStatus.COUNTERED)
+      ? bid
+      : null;
+  });
+
+  /** Farmer has made a counter-offer awaiting the buyer */
+  readonly canRespond = computed(() => {
+    const bid = this.negotiatingBid();
+    return !!bid && isAwaitingResponse(bid, BidParty.BUYER);
+  });
+
+  /** Buyer may still counter (round cap not reached) */
+  readonly canCounter = computed(() => {
+    const bid = this.negotiatingBid();
+    return !!bid && canCounterOffer(bid, BidParty.BUYER);
+  });
+
   /** Bid form */
   readonly bidForm = this.fb.nonNullable.group({
     bidPrice: [0, [Validators.required, Validators.min(1)]],
@@ -107,20 +168,28 @@ export class PlaceBidComponent implements OnInit {
     return price * qty;
   });
 
-  /** Delivery location options */
-  readonly deliveryLocations = [
-    'Pickup from Farm',
-    'Nashik, Maharashtra',
-    'Pune, Maharashtra',
-    'Mumbai, Maharashtra',
-    'Indore, Madhya Pradesh',
-    'Jaipur, Rajasthan',
-    'Delhi NCR',
-    'Other (specify in message)',
-  ];
+  readonly PICKUP_FROM_FARM = PICKUP_FROM_FARM;
+
+  /** Delivery location options besides pickup: the buyer's saved addresses */
+  readonly savedAddresses = this.addressService.addresses;
+  readonly formatAddressLine = formatAddressLine;
+
+  constructor() {
+    // Preselect the default address once the book has loaded
+    effect(() => {
+      const address = this.addressService.defaultAddress();
+      const control = this.bidForm.controls.deliveryLocation;
+      if (address && !control.value) control.setValue(address.id);
+    });
+  }
 
   ngOnInit(): void {
     this.loadCropDetails();
+    this.buyerBidService.loadBidsForCrop(this.id());
+  }
+
+  ngOnDestroy(): void {
+    this.buyerBidService.leaveBidRoom(this.id());
   }
 
   /** Load crop details */
@@ -186,9 +255,13 @@ export class PlaceBidComponent implements OnInit {
 
     this.isSubmitting.set(true);
 
+    const { deliveryLocation, ...form } = this.bidForm.getRawValue();
+    const address = this.addressService.getById(deliveryLocation);
     const bidData = {
       cropId: this.id(),
-      ...this.bidForm.getRawValue(),
+      ...form,
+      deliveryLocation: address ? `${address.city}, ${address.state}` : 'Pickup from Farm',
+      deliveryAddress: address ? toDeliveryAddress(address) : undefined,
       totalAmount: this.totalAmount(),
     };
 
@@ -198,11 +271,12 @@ export class PlaceBidComponent implements OnInit {
       .subscribe({
         next: () => {
           this.isSubmitting.set(false);
-          this.snackBar.open(
-            '🎉 Bid placed successfully! The farmer will respond soon.',
-            'View Bids',
-            { duration: 5000 }
-          );
+          this.snackBar
+            .open('🎉 Bid placed successfully! The farmer will respond soon.', 'View Bids', {
+              duration: 5000,
+            })
+            .onAction()
+            .subscribe(() => this.router.navigate(['/marketplace/my-bids']));
           this.router.navigate(['/marketplace']);
         },
         error: () => {
@@ -214,6 +288,54 @@ export class PlaceBidComponent implements OnInit {
       });
   }
 
+  /** Counter the farmer's latest offer */
+  onCounterOffer(bid: Bid): void {
+    const dialogRef = this.dialog.open(CounterBidDialogComponent, {
+      width: '450px',
+      data: { bid, counterBy: BidParty.BUYER },
+      panelClass: 'smc-dialog',
+    });
+
+    dialogRef.afterClosed().subscribe((offer: CounterOfferDto | null) => {
+      if (!offer) return;
+
+      this.buyerBidService
+        .counterOffer(bid.id, offer)
+        .pipe(takeUntilDestroyed(this.destroyRef))
+        .subscribe({
+          next: () => {
+            this.snackBar.open(this.buyerBidService.successMessage() ?? 'Counter offer sent!', 'Close', {
+              duration: 4000,
+            });
+          },
+          error: () => {
+            this.snackBar.open(this.buyerBidService.error() ?? 'Failed to send counter offer', 'OK', {
+              duration: 4000,
+            });
+          },
+        });
+    });
+  }
+
+  /** Accept the farmer's counter-offer */
+  onAcceptCounter(bid: Bid): void {
+    this.buyerBidService
+      .acceptCounterOffer(bid.id)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => {
+          this.snackBar.open(this.buyerBidService.successMessage() ?? 'Offer accepted!', 'Close', {
+            duration: 5000,
+          });
+        },
+        error: () => {
+          this.snackBar.open('Failed to accept offer. Please try again.', 'OK', {
+            duration: 3000,
+          });
+        },
+      });
+  }
+
   /** Go back */
   goBack(): void {
     this.router.navigate(['/marketplace/crop', this.id()]);
@@ -1,17 +1,67 @@
 /**
  * Search Results Page Component
+ * =============================
+ * Full-page results for a marketplace search (`/marketplace/search?q=`),
+ * e.g. from the header search box. The search, filters, sort and page
+ * live in the URL, so results can be refreshed, navigated and shared.
  */
 
-import { Component, ChangeDetectionStrategy } from '@angular/core';
+import { Component, ChangeDetectionStrategy, inject, signal, computed, effect, untracked } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+
+import { MarketplaceService } from '../../services/marketplace.service';
+import { MarketplaceUrlSyncService } from '../../services/marketplace-url-sync.service';
+import { describeFilters } from '../../services/saved-search.service';
+import { CropResultsComponent } from '../../components/crop-results/crop-results.component';
+import { ShareLinkMenuComponent } from '../../components/share-link-menu/share-link-menu.component';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
 
 @Component({
   selector: 'smc-search-results',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, RouterLink, MatButtonModule, MatIconModule, CropResultsComponent, ShareLinkMenuComponent, TranslatePipe],
+  providers: [MarketplaceUrlSyncService],
   templateUrl: './search-results.component.html',
   styleUrl: './search-results.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
-export class SearchResultsComponent {}
+export class SearchResultsComponent {
+  private readonly marketplaceService = inject(MarketplaceService);
+
+  /** Mirrors the search in the URL from construction on */
+  private readonly urlSync = inject(MarketplaceUrlSyncService);
+
+  readonly searchTerm = signal('');
+
+  readonly appliedSearch = computed(() => this.marketplaceService.appliedFilters().search);
+
+  readonly shareText = computed(
+    () => `Crops on Smart Mandi Connect: ${describeFilters(this.marketplaceService.appliedFilters())}`
+  );
+
+  constructor() {
+    effect(() => {
+      const search = this.appliedSearch();
+      untracked(() => this.searchTerm.set(search));
+    });
+  }
+
+  onSearchChange(event: Event): void {
+    const value = (event.target as HTMLInputElement).value;
+    this.searchTerm.set(value);
+    this.marketplaceService.search(value);
+  }
+
+  clearSearch(): void {
+    this.searchTerm.set('');
+    this.marketplaceService.search('');
+  }
 
+  /** Drop the filters but keep the search */
+  onClearFilters(): void {
+    this.marketplaceService.setFilters({ search: this.appliedSearch() });
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Wishlist Component
+ * ==================
+ * Buyer's saved crops with current price and stock, price-drop and
+ * back-in-stock indicators and a bulk add-to-cart, plus the saved
+ * marketplace searches with one-click re-run and new-listing alerts.
+ */
+
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  signal,
+  computed,
+  OnInit,
+  DestroyRef,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router, RouterLink } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatTabsModule } from '@angular/material/tabs';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+import { CartService } from '@features/cart/services/cart.service';
+import {
+  WishlistService,
+  WishlistItem,
+  priceDropPercent,
+  isOutOfStock,
+  isBackInStock,
+} from '../../services/wishlist.service';
+import { SavedSearchService, SavedSearch, describeFilters } from '../../services/saved-search.service';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
+
+@Component({
+  selector: 'smc-wishlist',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterLink,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatTabsModule,
+    MatCheckboxModule,
+    MatSlideToggleModule,
+    MatTooltipModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+    LocaleDatePipe,
+    LocaleNumberPipe,
+    TranslatePipe,
+  ],
+  templateUrl: './wishlist.component.html',
+  styleUrl: './wishlist.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class WishlistComponent implements OnInit {
+  private readonly wishlistService = inject(WishlistService);
+  private readonly savedSearchService = inject(SavedSearchService);
+  private readonly cartService = inject(CartService);
+  private readonly router = inject(Router);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly destroyRef = inject(DestroyRef);
+
+  // ============================================
+  // Expose Service Signals
+  // ============================================
+
+  readonly items = this.wishlistService.items;
+  readonly inStockItems = this.wishlistService.inStockItems;
+  readonly priceDrops = this.wishlistService.priceDrops;
+  readonly isLoading = this.wishlistService.isLoading;
+  readonly searches = this.savedSearchService.searches;
+  readonly isLoadingSearches = this.savedSearchService.isLoading;
+
+  readonly priceDropPercent = priceDropPercent;
+  readonly isOutOfStock = isOutOfStock;
+  readonly isBackInStock = isBackInStock;
+  readonly describeFilters = describeFilters;
+
+  // ============================================
+  // Local State
+  // ============================================
+
+  /** Crops ticked for the bulk add-to-cart */
+  readonly selectedIds = signal<string[]>([]);
+
+  /** Selected crops that can still be ordered */
+  readonly selectedItems = computed(() => {
+    const selected = this.selectedIds();
+    return this.inStockItems().filter((i) => selected.includes(i.cropId));
+  });
+
+  readonly allSelected = computed(
+    () => this.inStockItems().length > 0 && this.selectedItems().length === this.inStockItems().length
+  );
+
+  readonly someSelected = computed(() => this.selectedItems().length > 0 && !this.allSelected());
+
+  readonly backInStockCount = computed(() => this.items().filter(isBackInStock).length);
+
+  // ============================================
+  // Lifecycle
+  // ============================================
+
+  ngOnInit(): void {
+    this.wishlistService.loadWishlist(true);
+    this.savedSearchService.start();
+  }
+
+  // ============================================
+  // Saved Crops
+  // ============================================
+
+  isSelected(item: WishlistItem): boolean {
+    return this.selectedIds().includes(item.cropId);
+  }
+
+  toggleSelected(item: WishlistItem, selected: boolean): void {
+    this.selectedIds.update((ids) =>
+      selected ? [...ids, item.cropId] : ids.filter((id) => id !== item.cropId)
+    );
+  }
+
+  toggleAll(selected: boolean): void {
+    this.selectedIds.set(selected ? this.inStockItems().map((i) => i.cropId) : []);
+  }
+
+  isPending(item: WishlistItem): boolean {
+    return this.wishlistService.isPending(item.cropId);
+  }
+
+  /** Add every selected crop to the cart at its minimum order quantity */
+  addSelectedToCart(): void {
+    const items = this.selectedItems();
+    if (items.length === 0) return;
+
+    for (const item of items) {
+      this.cartService.addItem({
+        cropId: item.cropId,
+        cropName: item.cropName,
+        cropImage: item.cropImage,
+        farmerId: item.farmerId,
+        farmerName: item.farmerName,
+        farmerLocation: item.farmerLocation,
+        qualityGrade: item.qualityGrade,
+        quantity: Math.min(Math.max(item.minOrderQuantity, 1), item.availableQuantity),
+        unit: item.unit,
+        pricePerUnit: item.price,
+        availableQuantity: item.availableQuantity,
+        minOrderQuantity: item.minOrderQuantity,
+      });
+    }
+
+    this.selectedIds.set([]);
+    this.snackBar
+      .open(`${items.length} ${items.length === 1 ? 'crop' : 'crops'} added to cart`, 'View Cart', {
+        duration: 5000,
+      })
+      .onAction()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(() => this.router.navigate(['/cart']));
+  }
+
+  remove(item: WishlistItem): void {
+    this.wishlistService
+      .remove(item.cropId)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => {
+          this.toggleSelected(item, false);
+          this.snackBar.open(`${item.cropName} removed from wishlist`, 'Close', { duration: 3000 });
+        },
+        error: () => this.snackBar.open('Failed to remove from wishlist', 'Close', { duration: 5000 }),
+      });
+  }
+
+  // ============================================
+  // Saved Searches
+  // ============================================
+
+  runSearch(search: SavedSearch): void {
+    this.savedSearchService.run(search);
+  }
+
+  setAlert(search: SavedSearch, alertOnNew: boolean): void {
+    this.savedSearchService
+      .setAlert(search.id, alertOnNew)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () =>
+          this.snackBar.open(
+            alertOnNew ? `You'll be alerted to new matches for "${search.name}"` : 'Alerts turned off',
+            'Close',
+            { duration: 3000 }
+          ),
+        error: () => this.snackBar.open('Failed to update saved search', 'Close', { duration: 5000 }),
+      });
+  }
+
+  deleteSearch(search: SavedSearch): void {
+    this.savedSearchService
+      .delete(search.id)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => this.snackBar.open(`Deleted "${search.name}"`, 'Close', { duration: 3000 }),
+        error: () => this.snackBar.open('Failed to delete saved search', 'Close', { duration: 5000 }),
+      });
+  }
+
+  // ============================================
+  // Tracking Functions
+  // ============================================
+
+  trackByCropId(_index: number, item: WishlistItem): string {
+    return item.cropId;
+  }
+
+  trackBySearchId(_index: number, search: SavedSearch): string {
+    return search.id;
+  }
+}
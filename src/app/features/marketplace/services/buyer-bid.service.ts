@@ -0,0 +1,681 @@
+import { Injectable, inject, signal, computed, OnDestroy } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, throwError, of, delay, Subject, interval, EMPTY } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { environment } from '@environments/environment';
+import { AuthService } from '@core/services/auth.service';
+import { SocketService, BidEvent } from '@infrastructure/services/socket.service';
+import {
+  Bid,
+  BidOffer,
+  BidParty,
+  BidStatus,
+  CounterOfferDto,
+  MAX_NEGOTIATION_ROUNDS,
+  applyOffer,
+  canCounterOffer,
+  isAwaitingResponse,
+  offerFromEvent,
+} from '@features/farmer/services/bid.service';
+
+/**
+ * Buyer Bid Service State
+ */
+interface BuyerBidState {
+  bids: Bid[];
+  isLoading: boolean;
+  isProcessing: boolean;
+  error: string | null;
+  successMessage: string | null;
+}
+
+/**
+ * Buyer Bid Service
+ * =================
+ * Signals-based service for the buyer's side of bid negotiations.
+ * Keeps the buyer's bids in sync with farmer counter-offers in real time.
+ */
+@Injectable({ providedIn: 'root' })
+export class BuyerBidService implements OnDestroy {
+  private readonly http = inject(HttpClient);
+  private readonly socketService = inject(SocketService);
+  private readonly authService = inject(AuthService);
+  private readonly apiUrl = `${environment.apiUrl}/buyer/bids`;
+  private readonly destroy$ = new Subject<void>();
+  private listenersReady = false;
+
+  // ============================================
+  // Private State Signal
+  // ============================================
+
+  private readonly _state = signal<BuyerBidState>({
+    bids: [],
+    isLoading: false,
+    isProcessing: false,
+    error: null,
+    successMessage: null,
+  });
+
+  // ============================================
+  // Public Computed Signals
+  // ============================================
+
+  /** All of the buyer's bids, newest first */
+  readonly bids = computed(() =>
+    [...this._state().bids].sort(
+      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    )
+  );
+
+  /** Bids still being negotiated */
+  readonly activeBids = computed(() =>
+    this.bids().filter((b) => b.status === BidStatus.PENDING || b.status === BidStatus.COUNTERED)
+  );
+
+  /** Active bids where the farmer has countered and the buyer must respond */
+  readonly awaitingResponseCount = computed(
+    () => this.activeBids().filter((b) => isAwaitingResponse(b, BidParty.BUYER)).length
+  );
+
+  /** Loading state */
+  readonly isLoading = computed(() => this._state().isLoading);
+
+  /** Processing state (countering/accepting) */
+  readonly isProcessing = computed(() => this._state().isProcessing);
+
+  /** Error message */
+  readonly error = computed(() => this._state().error);
+
+  /** Success message */
+  readonly successMessage = computed(() => this._state().successMessage);
+
+  // ============================================
+  // Lifecycle
+  // ============================================
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  // ============================================
+  // Public Methods
+  // ============================================
+
+  /**
+   * Most recent bid the buyer has on a crop
+   */
+  bidForCrop(cropId: string): Bid | undefined {
+    return this._state()
+      .bids.filter((b) => b.cropId === cropId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+  }
+
+  /**
+   * Load the buyer's bids on a crop and follow them live
+   */
+  loadBidsForCrop(cropId: string): void {
+    this.updateState({ isLoading: true, error: null });
+
+    this.socketService.connect();
+    this.socketService.joinCropBidsRoom(cropId);
+    this.setupSocketListeners();
+
+    if (!environment.production) {
+      of(this.getMockBids(cropId))
+        .pipe(delay(600))
+        .subscribe((bids) => {
+          this.mergeBids(bids);
+          this.updateState({ isLoading: false });
+        });
+      return;
+    }
+
+    this.http
+      .get<Bid[]>(this.apiUrl, { params: { cropId } })
+      .pipe(
+        tap((bids) => {
+          this.mergeBids(bids);
+          this.updateState({ isLoading: false });
+        }),
+        catchError((error) => {
+          this.updateState({ isLoading: false, error: 'Failed to load your bids' });
+          return throwError(() => error);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Load all of the buyer's bids and follow the active ones live
+   */
+  loadMyBids(): void {
+    this.updateState({ isLoading: true, error: null });
+
+    this.socketService.connect();
+    this.setupSocketListeners();
+
+    if (!environment.production) {
+      of(this.getMockMyBids())
+        .pipe(delay(800))
+        .subscribe((bids) => {
+          this.updateState({ bids, isLoading: false });
+          this.joinActiveBidRooms();
+        });
+      return;
+    }
+
+    this.http
+      .get<Bid[]>(this.apiUrl)
+      .pipe(
+        tap((bids) => {
+          this.updateState({ bids, isLoading: false });
+          this.joinActiveBidRooms();
+        }),
+        catchError((error) => {
+          this.updateState({ isLoading: false, error: 'Failed to load your bids' });
+          return throwError(() => error);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Leave the rooms of all active bids
+   */
+  leaveActiveBidRooms(): void {
+    new Set(this.activeBids().map((b) => b.cropId)).forEach((cropId) =>
+      this.socketService.leaveCropBidsRoom(cropId)
+    );
+  }
+
+  /**
+   * Raise the buyer's standing offer on a bid.
+   * Only possible while the farmer has not responded. The raise is added to
+   * the history as a new buyer offer, so it counts as a negotiation round.
+   */
+  raiseBid(bidId: string, amount: number): Observable<Bid> {
+    const bid = this._state().bids.find((b) => b.id === bidId);
+    if (
+      bid &&
+      (!isAwaitingResponse(bid, BidParty.FARMER) ||
+        amount <= bid.amount ||
+        bid.history.length >= MAX_NEGOTIATION_ROUNDS)
+    ) {
+      const error = amount <= bid.amount
+        ? 'New amount must be higher than your current bid'
+        : bid.history.length >= MAX_NEGOTIATION_ROUNDS
+          ? `Negotiation limit of ${MAX_NEGOTIATION_ROUNDS} rounds reached`
+          : 'This bid can no longer be raised';
+      this.updateState({ error });
+      return throwError(() => new Error(error));
+    }
+
+    this.updateState({ isProcessing: true, error: null, successMessage: null });
+
+    if (!environment.production && bid) {
+      // Same terms as the buyer's offer the farmer is yet to answer, at the new amount
+      const raised = applyOffer(bid, {
+        ...bid.history[bid.history.length - 1],
+        id: `offer_${Date.now()}`,
+        round: bid.history.length + 1,
+        amount,
+        createdAt: new Date(),
+      });
+      // Still the buyer's offer waiting on the farmer, so the status stays as it was
+      return of({ ...raised, status: bid.status, isHighest: true }).pipe(
+        delay(800),
+        tap((raisedBid) => {
+          this.updateBidInState(raisedBid);
+          this.updateState({
+            isProcessing: false,
+            successMessage: `Bid raised to ₹${amount}/${raisedBid.unit}`,
+          });
+        })
+      );
+    }
+
+    return this.http.post<Bid>(`${this.apiUrl}/${bidId}/raise`, { amount }).pipe(
+      tap((raisedBid) => {
+        this.updateBidInState(raisedBid);
+        this.updateState({
+          isProcessing: false,
+          successMessage: `Bid raised to ₹${amount}/${raisedBid.unit}`,
+        });
+      }),
+      catchError((error) => {
+        this.updateState({ isProcessing: false, error: 'Failed to raise bid' });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Withdraw an active bid, whichever side is due to respond
+   */
+  withdrawBid(bidId: string): Observable<Bid> {
+    const bid = this._state().bids.find((b) => b.id === bidId);
+    if (bid && !isAwaitingResponse(bid, BidParty.FARMER) && !isAwaitingResponse(bid, BidParty.BUYER)) {
+      const error = 'This bid is no longer open and cannot be withdrawn';
+      this.updateState({ error });
+      return throwError(() => new Error(error));
+    }
+
+    this.updateState({ isProcessing: true, error: null, successMessage: null });
+
+    if (!environment.production && bid) {
+      return of({ ...bid, status: BidStatus.WITHDRAWN, isHighest: false, respondedAt: new Date() }).pipe(
+        delay(800),
+        tap((withdrawnBid) => {
+          this.updateBidInState(withdrawnBid);
+          this.socketService.leaveCropBidsRoom(withdrawnBid.cropId);
+          this.updateState({ isProcessing: false, successMessage: 'Bid withdrawn' });
+        })
+      );
+    }
+
+    return this.http.post<Bid>(`${this.apiUrl}/${bidId}/withdraw`, {}).pipe(
+      tap((withdrawnBid) => {
+        this.updateBidInState(withdrawnBid);
+        this.socketService.leaveCropBidsRoom(withdrawnBid.cropId);
+        this.updateState({ isProcessing: false, successMessage: 'Bid withdrawn' });
+      }),
+      catchError((error) => {
+        this.updateState({ isProcessing: false, error: 'Failed to withdraw bid' });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Leave bid room
+   */
+  leaveBidRoom(cropId: string): void {
+    this.socketService.leaveCropBidsRoom(cropId);
+  }
+
+  /**
+   * Respond to a farmer's counter-offer with new terms.
+   * Fails once the negotiation has reached MAX_NEGOTIATION_ROUNDS.
+   */
+  counterOffer(bidId: string, offer: CounterOfferDto): Observable<Bid> {
+    const bid = this._state().bids.find((b) => b.id === bidId);
+    if (bid && !canCounterOffer(bid, BidParty.BUYER)) {
+      const error = bid.history.length >= MAX_NEGOTIATION_ROUNDS
+        ? `Negotiation limit of ${MAX_NEGOTIATION_ROUNDS} rounds reached`
+        : 'This bid is no longer open for negotiation';
+      this.updateState({ error });
+      return throwError(() => new Error(error));
+    }
+
+    this.updateState({ isProcessing: true, error: null, successMessage: null });
+
+    if (!environment.production && bid) {
+      const updated = applyOffer(bid, {
+        id: `offer_${Date.now()}`,
+        round: bid.history.length + 1,
+        offeredBy: BidParty.BUYER,
+        ...offer,
+        createdAt: new Date(),
+      });
+
+      return of(updated).pipe(
+        delay(1000),
+        tap((counteredBid) => {
+          this.updateBidInState(counteredBid);
+          this.updateState({
+            isProcessing: false,
+            successMessage: `Counter offer of ₹${offer.amount} sent (round ${counteredBid.history.length} of ${MAX_NEGOTIATION_ROUNDS})`,
+          });
+        })
+      );
+    }
+
+    return this.http.post<Bid>(`${this.apiUrl}/${bidId}/counter`, offer).pipe(
+      tap((counteredBid) => {
+        this.updateBidInState(counteredBid);
+        this.updateState({
+          isProcessing: false,
+          successMessage: `Counter offer of ₹${offer.amount} sent`,
+        });
+      }),
+      catchError((error) => {
+        this.updateState({ isProcessing: false, error: 'Failed to send counter offer' });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Accept the farmer's latest counter-offer
+   */
+  acceptCounterOffer(bidId: string): Observable<Bid> {
+    const bid = this._state().bids.find((b) => b.id === bidId);
+    if (bid && !isAwaitingResponse(bid, BidParty.BUYER)) {
+      const error = 'There is no counter offer waiting for your answer';
+      this.updateState({ error });
+      return throwError(() => new Error(error));
+    }
+
+    this.updateState({ isProcessing: true, error: null, successMessage: null });
+
+    if (!environment.production && bid) {
+      return of({ ...bid, status: BidStatus.ACCEPTED, respondedAt: new Date() }).pipe(
+        delay(1000),
+        tap((acceptedBid) => {
+          this.updateBidInState(acceptedBid);
+          this.updateState({
+            isProcessing: false,
+            successMessage: `Deal agreed at ₹${acceptedBid.amount}/${acceptedBid.unit}`,
+          });
+        })
+      );
+    }
+
+    return this.http.post<Bid>(`${this.apiUrl}/${bidId}/accept`, {}).pipe(
+      tap((acceptedBid) => {
+        this.updateBidInState(acceptedBid);
+        this.updateState({
+          isProcessing: false,
+          successMessage: `Deal agreed at ₹${acceptedBid.amount}/${acceptedBid.unit}`,
+        });
+      }),
+      catchError((error) => {
+        this.updateState({ isProcessing: false, error: 'Failed to accept counter offer' });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Clear messages
+   */
+  clearMessages(): void {
+    this.updateState({ error: null, successMessage: null });
+  }
+
+  // ============================================
+  // Socket Event Handlers
+  // ============================================
+
+  private setupSocketListeners(): void {
+    if (this.listenersReady || this.socketService.connectionState() === 'disconnected') return;
+    this.listenersReady = true;
+
+    // Farmer counter-offers
+    this.socketService
+      .on('bid:updated')
+      .pipe(catchError(() => EMPTY), takeUntil(this.destroy$))
+      .subscribe((event) => this.handleBidUpdated(event));
+
+    // Competing bids may outbid the buyer
+    this.socketService
+      .on('bid:new')
+      .pipe(catchError(() => EMPTY), takeUntil(this.destroy$))
+      .subscribe((event) => this.handleCompetingBid(event));
+
+    // Farmer decisions
+    this.socketService
+      .on('bid:accepted')
+      .pipe(catchError(() => EMPTY), takeUntil(this.destroy$))
+      .subscribe((event) => this.handleDecision(event, BidStatus.ACCEPTED));
+
+    this.socketService
+      .on('bid:rejected')
+      .pipe(catchError(() => EMPTY), takeUntil(this.destroy$))
+      .subscribe((event) => this.handleDecision(event, BidStatus.REJECTED));
+
+    // Bid expired on the server
+    this.socketService
+      .on('bid:expired')
+      .pipe(catchError(() => EMPTY), takeUntil(this.destroy$))
+      .subscribe((event) => this.markExpired([event.bidId]));
+
+    // Expire open bids locally once their response window closes
+    interval(30000)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.expireStaleBids());
+  }
+
+  private handleBidUpdated(event: BidEvent): void {
+    if (!this._state().bids.some((b) => b.id === event.bidId)) {
+      this.handleCompetingBid(event);
+      return;
+    }
+
+    const bids = this._state().bids.map((bid) => {
+      if (bid.id !== event.bidId) return bid;
+
+      const offer = offerFromEvent(event, bid.history.length + 1);
+      const updated = offer
+        ? applyOffer(bid, offer, event.expiresAt ? new Date(event.expiresAt) : undefined)
+        : { ...bid, amount: event.amount, quantity: event.quantity };
+
+      return event.status ? { ...updated, status: event.status as BidStatus } : updated;
+    });
+    this.updateState({ bids });
+  }
+
+  private handleDecision(event: BidEvent, status: BidStatus): void {
+    const bid = this._state().bids.find((b) => b.id === event.bidId);
+    if (!bid) return;
+
+    this.updateBidInState({
+      ...bid,
+      status,
+      isHighest: false,
+      respondedAt: new Date(event.timestamp),
+    });
+    this.socketService.leaveCropBidsRoom(bid.cropId);
+    this.updateState({
+      successMessage:
+        status === BidStatus.ACCEPTED
+          ? `Your bid on ${bid.cropName} was accepted!`
+          : `Your bid on ${bid.cropName} was declined`,
+    });
+  }
+
+  /** Another buyer bid on a crop we are bidding on */
+  private handleCompetingBid(event: BidEvent): void {
+    if (this._state().bids.some((b) => b.id === event.bidId)) return;
+
+    const bids = this._state().bids.map((bid) =>
+      bid.cropId === event.cropId && bid.isHighest && event.amount > bid.amount
+        ? { ...bid, isHighest: false }
+        : bid
+    );
+    this.updateState({ bids });
+  }
+
+  private joinActiveBidRooms(): void {
+    new Set(this.activeBids().map((b) => b.cropId)).forEach((cropId) =>
+      this.socketService.joinCropBidsRoom(cropId)
+    );
+  }
+
+  private expireStaleBids(): void {
+    const now = Date.now();
+    const stale = this._state().bids.filter(
+      (b) =>
+        (b.status === BidStatus.PENDING || b.status === BidStatus.COUNTERED) &&
+        new Date(b.expiresAt).getTime() <= now
+    );
+    if (stale.length > 0) {
+      this.markExpired(stale.map((b) => b.id));
+    }
+  }
+
+  private markExpired(bidIds: string[]): void {
+    const bids = this._state().bids.map((bid) =>
+      bidIds.includes(bid.id) ? { ...bid, status: BidStatus.EXPIRED } : bid
+    );
+    this.updateState({ bids });
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private updateState(partial: Partial<BuyerBidState>): void {
+    this._state.update((state) => ({ ...state, ...partial }));
+  }
+
+  private updateBidInState(updatedBid: Bid): void {
+    const bids = this._state().bids.map((bid) =>
+      bid.id === updatedBid.id ? updatedBid : bid
+    );
+    this.updateState({ bids });
+  }
+
+  /** Replace loaded bids by ID, keeping bids for other crops */
+  private mergeBids(loaded: Bid[]): void {
+    const ids = loaded.map((b) => b.id);
+    this.updateState({
+      bids: [...this._state().bids.filter((b) => !ids.includes(b.id)), ...loaded],
+    });
+  }
+
+  private getMockMyBids(): Bid[] {
+    const now = Date.now();
+    const HOUR = 60 * 60 * 1000;
+    const user = this.authService.currentUser();
+    const buyer = {
+      buyerId: user?.id ?? 'buyer_1',
+      buyerName: user?.fullName ?? 'You',
+      buyerRating: 4.6,
+      buyerOrderCount: 18,
+    };
+    const singleOffer = (bidId: string, amount: number, quantity: number, hoursAgo: number): BidOffer[] => [
+      {
+        id: `${bidId}_offer_1`,
+        round: 1,
+        offeredBy: BidParty.BUYER,
+        amount,
+        quantity,
+        deliveryDate: new Date(now + 72 * HOUR),
+        createdAt: new Date(now - hoursAgo * HOUR),
+      },
+    ];
+
+    return [
+      ...this.getMockBids('crop_1'),
+      {
+        ...buyer,
+        id: 'my_bid_2',
+        cropId: 'crop_2',
+        cropName: 'Basmati Rice',
+        amount: 78,
+        quantity: 500,
+        unit: 'kg',
+        totalValue: 39000,
+        status: BidStatus.PENDING,
+        isHighest: true,
+        createdAt: new Date(now - 3 * HOUR),
+        expiresAt: new Date(now + 21 * HOUR),
+        deliveryDate: new Date(now + 72 * HOUR),
+        history: singleOffer('my_bid_2', 78, 500, 3),
+      },
+      {
+        ...buyer,
+        id: 'my_bid_3',
+        cropId: 'crop_3',
+        cropName: 'Alphonso Mangoes',
+        amount: 310,
+        quantity: 40,
+        unit: 'dozen',
+        totalValue: 12400,
+        status: BidStatus.PENDING,
+        isHighest: false,
+        createdAt: new Date(now - 22 * HOUR),
+        expiresAt: new Date(now + 1.5 * HOUR),
+        deliveryDate: new Date(now + 72 * HOUR),
+        history: singleOffer('my_bid_3', 310, 40, 22),
+      },
+      {
+        ...buyer,
+        id: 'my_bid_4',
+        cropId: 'crop_4',
+        cropName: 'Red Onions',
+        amount: 28,
+        quantity: 1000,
+        unit: 'kg',
+        totalValue: 28000,
+        status: BidStatus.ACCEPTED,
+        isHighest: false,
+        createdAt: new Date(now - 48 * HOUR),
+        expiresAt: new Date(now - 24 * HOUR),
+        respondedAt: new Date(now - 40 * HOUR),
+        deliveryDate: new Date(now + 24 * HOUR),
+        history: singleOffer('my_bid_4', 28, 1000, 48),
+      },
+      {
+        ...buyer,
+        id: 'my_bid_5',
+        cropId: 'crop_5',
+        cropName: 'Green Chillies',
+        amount: 35,
+        quantity: 80,
+        unit: 'kg',
+        totalValue: 2800,
+        status: BidStatus.EXPIRED,
+        isHighest: false,
+        createdAt: new Date(now - 96 * HOUR),
+        expiresAt: new Date(now - 72 * HOUR),
+        deliveryDate: new Date(now - 48 * HOUR),
+        history: singleOffer('my_bid_5', 35, 80, 96),
+      },
+    ];
+  }
+
+  private getMockBids(cropId: string): Bid[] {
+    const now = Date.now();
+    const HOUR = 60 * 60 * 1000;
+    const user = this.authService.currentUser();
+
+    const history: BidOffer[] = [
+      {
+        id: `bid_${cropId}_offer_1`,
+        round: 1,
+        offeredBy: BidParty.BUYER,
+        amount: 40,
+        quantity: 100,
+        deliveryDate: new Date(now + 72 * HOUR),
+        message: 'Looking for a steady weekly supply.',
+        createdAt: new Date(now - 6 * HOUR),
+      },
+      {
+        id: `bid_${cropId}_offer_2`,
+        round: 2,
+        offeredBy: BidParty.FARMER,
+        amount: 46,
+        quantity: 100,
+        deliveryDate: new Date(now + 96 * HOUR),
+        message: 'Can do ₹46 with delivery a day later.',
+        createdAt: new Date(now - 2 * HOUR),
+      },
+    ];
+
+    return [
+      {
+        id: `bid_${cropId}`,
+        cropId,
+        cropName: 'Organic Tomatoes',
+        buyerId: user?.id ?? 'buyer_1',
+        buyerName: user?.fullName ?? 'You',
+        buyerRating: 4.6,
+        buyerOrderCount: 18,
+        amount: 46,
+        quantity: 100,
+        unit: 'kg',
+        totalValue: 4600,
+        message: history[1].message,
+        status: BidStatus.COUNTERED,
+        isHighest: false,
+        createdAt: history[0].createdAt,
+        expiresAt: new Date(now + 22 * HOUR),
+        deliveryDate: history[1].deliveryDate,
+        history,
+      },
+    ];
+  }
+}
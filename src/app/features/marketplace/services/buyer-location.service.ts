@@ -0,0 +1,135 @@
+/**
+ * Buyer Location Service
+ * ======================
+ * Where marketplace distances are measured from: the device's current
+ * position (browser geolocation) or the buyer's delivery address: the
+ * default saved address when it is pinned, else the profile location.
+ */
+
+import { Injectable, NgZone, inject, signal, computed } from '@angular/core';
+import { Observable } from 'rxjs';
+import { environment } from '@environments/environment';
+import { AuthService } from '@core/services/auth.service';
+import { AddressService } from '@features/profile/services/address.service';
+import { MarketplaceOrigin } from './marketplace.service';
+
+/** Why the device position could not be read */
+export type LocateErrorCode = 'unsupported' | 'denied' | 'unavailable' | 'timeout';
+
+export class LocateError extends Error {
+  constructor(readonly code: LocateErrorCode) {
+    super(`Location unavailable: ${code}`);
+    this.name = 'LocateError';
+  }
+}
+
+const LOCATE_ERROR_MESSAGES: Record<LocateErrorCode, string> = {
+  unsupported: 'This browser cannot share your location',
+  denied: 'Location access was blocked. Allow it in your browser settings.',
+  unavailable: 'Your location could not be found',
+  timeout: 'Finding your location took too long',
+};
+
+/** Mock delivery address used in development when the profile has none */
+const MOCK_DELIVERY_ORIGIN: MarketplaceOrigin = {
+  latitude: 18.5204,
+  longitude: 73.8567,
+  label: 'Pune',
+};
+
+@Injectable({ providedIn: 'root' })
+export class BuyerLocationService {
+  private readonly zone = inject(NgZone);
+  private readonly authService = inject(AuthService);
+  private readonly addressService = inject(AddressService);
+
+  /** Browser supports geolocation */
+  readonly isSupported = typeof navigator !== 'undefined' && 'geolocation' in navigator;
+
+  /** A position request is in progress */
+  readonly isLocating = signal(false);
+
+  /** Delivery address coordinates from the buyer's addresses or profile, if set */
+  readonly deliveryOrigin = computed<MarketplaceOrigin | null>(() => {
+    const address = this.addressService.defaultAddress();
+    if (address?.location) {
+      return {
+        latitude: address.location.latitude,
+        longitude: address.location.longitude,
+        label: address.label,
+      };
+    }
+
+    const location = this.authService.currentUser()?.profile?.location;
+    if (location) {
+      return {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        label: location.city ?? 'my delivery address',
+      };
+    }
+    return !environment.production ? MOCK_DELIVERY_ORIGIN : null;
+  });
+
+  /**
+   * Read the device position once. Emits the origin and completes.
+   */
+  locate(): Observable<MarketplaceOrigin> {
+    return new Observable<MarketplaceOrigin>((subscriber) => {
+      if (!this.isSupported) {
+        subscriber.error(new LocateError('unsupported'));
+        return;
+      }
+
+      let active = true;
+      this.isLocating.set(true);
+
+      // Geolocation callbacks fire outside Angular's zone
+      navigator.geolocation.getCurrentPosition(
+        (position) =>
+          this.zone.run(() => {
+            if (!active) return;
+            this.isLocating.set(false);
+            subscriber.next({
+              latitude: position.coords.latitude,
+              longitude: position.coords.longitude,
+              label: 'my location',
+            });
+            subscriber.complete();
+          }),
+        (error) =>
+          this.zone.run(() => {
+            if (!active) return;
+            this.isLocating.set(false);
+            subscriber.error(new LocateError(this.toErrorCode(error)));
+          }),
+        { enableHighAccuracy: false, timeout: 15000, maximumAge: 5 * 60 * 1000 }
+      );
+
+      return () => {
+        if (active && this.isLocating()) this.isLocating.set(false);
+        active = false;
+      };
+    });
+  }
+
+  /** Message for a failed `locate()` */
+  errorMessage(error: unknown): string {
+    return error instanceof LocateError ? LOCATE_ERROR_MESSAGES[error.code] : LOCATE_ERROR_MESSAGES.unavailable;
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private toErrorCode(error: GeolocationPositionError): LocateErrorCode {
+    switch (error.code) {
+      case error.PERMISSION_DENIED:
+        return 'denied';
+      case error.TIMEOUT:
+        return 'timeout';
+      default:
+        return 'unavailable';
+    }
+  }
+}
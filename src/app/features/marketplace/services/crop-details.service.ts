@@ -8,6 +8,7 @@ import { Injectable, inject, signal, computed } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
 import { Observable, of, delay, tap, catchError, throwError } from 'rxjs';
 import { environment } from '@environments/environment';
+import { DeliveryAddress } from '@domain/models/order.model';
 import { QualityGrade } from './marketplace.service';
 
 // ============================================
@@ -53,6 +54,7 @@ export interface CropDetails {
   readonly description: string;
   readonly quantity: number;
   readonly availableQuantity: number;
+  readonly minOrderQuantity: number;
   readonly unit: string;
   readonly price: number;
   readonly minBidPrice: number;
@@ -89,7 +91,7 @@ export interface PlaceBidDto {
 export interface InstantBuyDto {
   cropId: string;
   quantity: number;
-  deliveryAddress?: string;
+  deliveryAddress?: DeliveryAddress;
   paymentMethod: 'cod' | 'online' | 'upi';
 }
 
@@ -262,17 +264,6 @@ export class CropDetailsService {
       );
   }
 
-  /**
-   * Add to wishlist
-   */
-  addToWishlist(cropId: string): Observable<boolean> {
-    if (!environment.production) {
-      return of(true).pipe(delay(500));
-    }
-
-    return this.http.post<boolean>(`${this.apiUrl}/wishlist`, { cropId });
-  }
-
   /**
    * Clear messages
    */
@@ -302,6 +293,7 @@ export class CropDetailsService {
         The tomatoes are hand-picked and sorted for quality before packaging.`,
       quantity: 500,
       availableQuantity: 450,
+      minOrderQuantity: 10,
       unit: 'kg',
       price: 45,
       minBidPrice: 40,
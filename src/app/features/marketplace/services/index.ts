@@ -5,4 +5,10 @@
 
 export * from './marketplace.service';
 export * from './crop-details.service';
-
+export * from './buyer-bid.service';
+export * from './wishlist.service';
+export * from './saved-search.service';
+export * from './marketplace-query-params';
+export * from './marketplace-url-sync.service';
+export * from './buyer-location.service';
+export * from './transport-estimate';
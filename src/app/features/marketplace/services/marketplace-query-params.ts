@@ -0,0 +1,146 @@
+/**
+ * Marketplace Query Params
+ * ========================
+ * Maps marketplace filters and the loaded page to URL query params and
+ * back. Defaults are left out so links stay short. Origin coordinates are
+ * rounded to about a kilometre before they go into a shareable link.
+ */
+
+import { ParamMap, Params } from '@angular/router';
+import {
+  DEFAULT_FILTERS,
+  MAX_RESTORED_PAGES,
+  MarketplaceFilters,
+  MarketplaceOrigin,
+  QualityGrade,
+} from './marketplace.service';
+
+export interface MarketplaceUrlState {
+  filters: MarketplaceFilters;
+  page: number;
+}
+
+const SORT_OPTIONS: MarketplaceFilters['sortBy'][] = [
+  'newest',
+  'price_low',
+  'price_high',
+  'popular',
+  'rating',
+  'distance',
+];
+
+const QUALITY_GRADES = Object.values(QualityGrade);
+
+/** Query param names, in the order they appear in the URL */
+export const MARKETPLACE_QUERY_KEYS = [
+  'q',
+  'category',
+  'location',
+  'grade',
+  'organic',
+  'min',
+  'max',
+  'near',
+  'place',
+  'radius',
+  'sort',
+  'page',
+] as const;
+
+export type MarketplaceQueryKey = (typeof MARKETPLACE_QUERY_KEYS)[number];
+
+/** Filter fields each query param carries */
+export const QUERY_KEY_FILTERS: Partial<Record<keyof MarketplaceFilters, MarketplaceQueryKey[]>> = {
+  search: ['q'],
+  category: ['category'],
+  location: ['location'],
+  qualityGrades: ['grade'],
+  isOrganic: ['organic'],
+  priceRange: ['min', 'max'],
+  origin: ['near', 'place'],
+  radiusKm: ['radius'],
+  sortBy: ['sort'],
+};
+
+/**
+ * Query params for a filter state. Defaults map to `null`, which the router
+ * drops from the URL.
+ */
+export function filtersToQueryParams(filters: MarketplaceFilters, page = 1): Record<MarketplaceQueryKey, string | null> {
+  return {
+    q: filters.search.trim() || null,
+    category: filters.category || null,
+    location: filters.location || null,
+    grade: filters.qualityGrades.length > 0 ? [...filters.qualityGrades].sort().join(',') : null,
+    organic: filters.isOrganic === null ? null : String(filters.isOrganic),
+    min: filters.priceRange.min !== DEFAULT_FILTERS.priceRange.min ? String(filters.priceRange.min) : null,
+    max: filters.priceRange.max !== DEFAULT_FILTERS.priceRange.max ? String(filters.priceRange.max) : null,
+    near: filters.origin ? toNearParam(filters.origin) : null,
+    place: filters.origin?.label || null,
+    radius: filters.origin && filters.radiusKm !== null ? String(filters.radiusKm) : null,
+    sort: filters.sortBy !== DEFAULT_FILTERS.sortBy ? filters.sortBy : null,
+    page: page > 1 ? String(page) : null,
+  };
+}
+
+/**
+ * Filter state from query params. Unknown or malformed values fall back to
+ * the defaults rather than failing.
+ */
+export function filtersFromQueryParams(params: ParamMap): MarketplaceUrlState {
+  const grades = (params.get('grade') ?? '')
+    .split(',')
+    .filter((g): g is QualityGrade => QUALITY_GRADES.includes(g as QualityGrade));
+  const organic = params.get('organic');
+  const sort = params.get('sort') as MarketplaceFilters['sortBy'] | null;
+  const min = toNumber(params.get('min'), DEFAULT_FILTERS.priceRange.min);
+  const max = toNumber(params.get('max'), DEFAULT_FILTERS.priceRange.max);
+  const origin = toOrigin(params.get('near'), params.get('place'));
+  const radius = toNumber(params.get('radius'), 0);
+
+  return {
+    filters: {
+      search: params.get('q')?.trim() ?? '',
+      category: params.get('category') ?? '',
+      location: params.get('location') ?? '',
+      qualityGrades: [...new Set(grades)],
+      isOrganic: organic === 'true' ? true : organic === 'false' ? false : null,
+      priceRange: min <= max ? { min, max } : { ...DEFAULT_FILTERS.priceRange },
+      origin,
+      radiusKm: origin && radius > 0 ? radius : null,
+      sortBy: sort && SORT_OPTIONS.includes(sort) && (sort !== 'distance' || origin) ? sort : DEFAULT_FILTERS.sortBy,
+    },
+    page: Math.min(MAX_RESTORED_PAGES, Math.max(1, Math.floor(toNumber(params.get('page'), 1)))),
+  };
+}
+
+/** Stable key for comparing two URL states */
+export function urlStateKey(state: MarketplaceUrlState): string {
+  return JSON.stringify(filtersToQueryParams(state.filters, state.page));
+}
+
+/** Whether two query param sets differ only in the keys given */
+export function differsOnlyIn(a: Params, b: Params, keys: MarketplaceQueryKey[]): boolean {
+  return MARKETPLACE_QUERY_KEYS.every((key) => keys.includes(key) || (a[key] ?? null) === (b[key] ?? null));
+}
+
+function toOrigin(near: string | null, place: string | null): MarketplaceOrigin | null {
+  const parts = (near ?? '').split(',');
+  if (parts.length !== 2 || parts.some((part) => part.trim() === '')) return null;
+
+  const [latitude, longitude] = parts.map(Number);
+  if (!(Math.abs(latitude) <= 90) || !(Math.abs(longitude) <= 180)) return null;
+  return { latitude, longitude, label: place?.trim() || 'the shared location' };
+}
+
+/** "18.52,73.86": two decimal places is roughly 1 km, precise enough for a radius */
+function toNearParam(origin: MarketplaceOrigin): string {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return `${round(origin.latitude)},${round(origin.longitude)}`;
+}
+
+function toNumber(value: string | null, fallback: number): number {
+  if (value === null || value.trim() === '') return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
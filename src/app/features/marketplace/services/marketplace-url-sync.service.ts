@@ -0,0 +1,224 @@
+/**
+ * Marketplace URL Sync Service
+ * ============================
+ * Keeps the marketplace filters, sort and loaded page in the URL query
+ * params of the page that provides it, in both directions, so a refresh,
+ * a shared link or back/forward navigation shows the same results.
+ *
+ * Provide it on the page component:
+ *   providers: [MarketplaceUrlSyncService]
+ *
+ * Filter changes push a history entry; typing a search or loading another
+ * page only replaces the current one. The scroll offset of the page's
+ * scroll container is kept in the history entry's state and restored once
+ * the results for that entry have loaded.
+ */
+
+import {
+  Injectable,
+  inject,
+  signal,
+  effect,
+  untracked,
+  afterNextRender,
+  DestroyRef,
+  ElementRef,
+  Injector,
+} from '@angular/core';
+import { Location } from '@angular/common';
+import { ActivatedRoute, NavigationStart, Params, Router } from '@angular/router';
+import { takeUntilDestroyed, toSignal } from '@angular/core/rxjs-interop';
+import { debounceTime, filter, fromEvent } from 'rxjs';
+import { MarketplaceService, MarketplaceFilters } from './marketplace.service';
+import {
+  MarketplaceUrlState,
+  QUERY_KEY_FILTERS,
+  differsOnlyIn,
+  filtersFromQueryParams,
+  filtersToQueryParams,
+  urlStateKey,
+} from './marketplace-query-params';
+
+/** History state key holding the scroll offset */
+const SCROLL_STATE_KEY = 'smcMarketplaceScrollTop';
+
+@Injectable()
+export class MarketplaceUrlSyncService {
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly location = inject(Location);
+  private readonly host = inject(ElementRef<HTMLElement>);
+  private readonly injector = inject(Injector);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly marketplaceService = inject(MarketplaceService);
+
+  private readonly queryParamMap = toSignal(this.route.queryParamMap, { requireSync: true });
+
+  /**
+   * Filters that come from the route path rather than the query string
+   * (e.g. the category page). `null` holds syncing until they are known.
+   */
+  private readonly fixedFilters = signal<Partial<MarketplaceFilters> | null>({});
+
+  /** Scroll offset to restore once the results have loaded */
+  private readonly pendingScrollTop = signal<number | null>(null);
+
+  /** URL state last applied to the service */
+  private lastUrlKey: string | null = null;
+
+  private scrollContainer: HTMLElement | null = null;
+
+  constructor() {
+    // A refresh or a back/forward navigation lands on an entry that may carry a scroll offset
+    this.pendingScrollTop.set(this.readScrollState(this.location.getState()));
+
+    effect(() => {
+      const fixed = this.fixedFilters();
+      const fromUrl = filtersFromQueryParams(this.queryParamMap());
+      const applied: MarketplaceUrlState = {
+        filters: this.marketplaceService.appliedFilters(),
+        page: this.marketplaceService.pagination().page,
+      };
+      const isLoading = this.marketplaceService.isLoading();
+      if (!fixed) return;
+
+      untracked(() =>
+        this.sync({ filters: { ...fromUrl.filters, ...fixed }, page: fromUrl.page }, applied, fixed, isLoading)
+      );
+    });
+
+    effect(() => {
+      const scrollTop = this.pendingScrollTop();
+      if (scrollTop === null || this.marketplaceService.isLoading()) return;
+
+      untracked(() => {
+        this.pendingScrollTop.set(null);
+        afterNextRender(() => this.getScrollContainer().scrollTo({ top: scrollTop }), {
+          injector: this.injector,
+        });
+      });
+    });
+
+    // Back/forward between entries of this same page
+    this.router.events
+      .pipe(
+        filter((event): event is NavigationStart => event instanceof NavigationStart),
+        filter((event) => event.navigationTrigger === 'popstate'),
+        takeUntilDestroyed()
+      )
+      .subscribe((event) => this.pendingScrollTop.set(this.readScrollState(event.restoredState)));
+
+    afterNextRender(() => {
+      const container = this.getScrollContainer();
+      // The document's own scrolling element reports scroll events on the window
+      fromEvent(container === document.scrollingElement ? window : container, 'scroll', { passive: true })
+        .pipe(debounceTime(200), takeUntilDestroyed(this.destroyRef))
+        .subscribe(() => this.saveScrollState());
+    });
+  }
+
+  // ============================================
+  // Public Methods
+  // ============================================
+
+  /**
+   * Pin filters taken from the route path; pass `null` while they are
+   * still being resolved.
+   */
+  setFixedFilters(filters: Partial<MarketplaceFilters> | null): void {
+    this.fixedFilters.set(filters);
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private sync(
+    urlState: MarketplaceUrlState,
+    applied: MarketplaceUrlState,
+    fixed: Partial<MarketplaceFilters>,
+    isLoading: boolean
+  ): void {
+    const urlKey = urlStateKey(urlState);
+    const appliedKey = urlStateKey(applied);
+
+    // The URL moved (first load, link, back/forward): it wins
+    if (urlKey !== this.lastUrlKey) {
+      this.lastUrlKey = urlKey;
+      if (urlKey !== appliedKey) {
+        this.marketplaceService.setFilters(urlState.filters, urlState.page);
+      }
+      return;
+    }
+
+    // Otherwise the page changed the filters: write them once the results are in
+    if (appliedKey !== urlKey && !isLoading) {
+      this.writeUrl(urlState, applied, fixed);
+    }
+  }
+
+  private writeUrl(
+    urlState: MarketplaceUrlState,
+    applied: MarketplaceUrlState,
+    fixed: Partial<MarketplaceFilters>
+  ): void {
+    const current: Params = this.withoutFixed(filtersToQueryParams(urlState.filters, urlState.page), fixed);
+    const next: Params = this.withoutFixed(filtersToQueryParams(applied.filters, applied.page), fixed);
+
+    if (differsOnlyIn(current, next, ['q', 'page'])) {
+      // Search keystrokes and infinite scroll don't deserve history entries,
+      // and a router navigation would reset the scroll position
+      const tree = this.router.createUrlTree([], {
+        relativeTo: this.route,
+        queryParams: next,
+        queryParamsHandling: 'merge',
+      });
+      this.location.replaceState(this.router.serializeUrl(tree), '', this.location.getState());
+      return;
+    }
+
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: next,
+      queryParamsHandling: 'merge',
+    });
+  }
+
+  private withoutFixed(params: Params, fixed: Partial<MarketplaceFilters>): Params {
+    const result = { ...params };
+    for (const key of Object.keys(fixed) as (keyof MarketplaceFilters)[]) {
+      for (const queryKey of QUERY_KEY_FILTERS[key] ?? []) {
+        result[queryKey] = null;
+      }
+    }
+    return result;
+  }
+
+  private saveScrollState(): void {
+    const state = (this.location.getState() ?? {}) as Record<string, unknown>;
+    this.location.replaceState(this.location.path(), '', {
+      ...state,
+      [SCROLL_STATE_KEY]: this.getScrollContainer().scrollTop,
+    });
+  }
+
+  private readScrollState(state: unknown): number | null {
+    const scrollTop = (state as Record<string, unknown> | null)?.[SCROLL_STATE_KEY];
+    return typeof scrollTop === 'number' && scrollTop > 0 ? scrollTop : null;
+  }
+
+  /** Nearest scrolling ancestor of the page; the layout scrolls, not the window */
+  private getScrollContainer(): HTMLElement {
+    if (this.scrollContainer?.isConnected) return this.scrollContainer;
+
+    let element = (this.host.nativeElement as HTMLElement).parentElement;
+    while (element) {
+      const { overflowY } = getComputedStyle(element);
+      if (overflowY === 'auto' || overflowY === 'scroll') break;
+      element = element.parentElement;
+    }
+
+    this.scrollContainer = element ?? (document.scrollingElement as HTMLElement) ?? document.documentElement;
+    return this.scrollContainer;
+  }
+}
@@ -13,8 +13,10 @@
 import { Injectable, inject, signal, computed, effect, DestroyRef } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
-import { catchError, tap, of, delay } from 'rxjs';
+import { Subscription, catchError, tap, of, delay } from 'rxjs';
 import { environment } from '@environments/environment';
+import { GeoLocation } from '@domain/models/user.model';
+import { GeoBounds, distanceKm, isWithinBounds } from '@shared/services/geo-distance';
 
 // ============================================
 // Types & Interfaces
@@ -33,6 +35,10 @@ export interface MarketplaceCrop {
   readonly farmerName: string;
   readonly farmerRating: number;
   readonly farmerLocation: string;
+  /** Farm coordinates, when the farmer has pinned them */
+  readonly farmerGeo?: GeoLocation;
+  /** Straight-line distance from the search origin, in km */
+  readonly distanceKm?: number;
   readonly cropName: string;
   readonly category: string;
   readonly quantity: number;
@@ -69,6 +75,14 @@ export interface PriceRange {
   readonly max: number;
 }
 
+/** Point distances are measured from (the buyer's location or delivery address) */
+export interface MarketplaceOrigin {
+  readonly latitude: number;
+  readonly longitude: number;
+  /** Shown in "within 50 km of …" */
+  readonly label: string;
+}
+
 export interface MarketplaceFilters {
   search: string;
   category: string;
@@ -76,7 +90,11 @@ export interface MarketplaceFilters {
   qualityGrades: QualityGrade[];
   priceRange: PriceRange;
   isOrganic: boolean | null;
-  sortBy: 'newest' | 'price_low' | 'price_high' | 'popular' | 'rating';
+  /** Measure distances from here; required for the radius and distance sort */
+  origin: MarketplaceOrigin | null;
+  /** Only crops within this many km of the origin */
+  radiusKm: number | null;
+  sortBy: 'newest' | 'price_low' | 'price_high' | 'popular' | 'rating' | 'distance';
 }
 
 export interface PaginationState {
@@ -91,6 +109,10 @@ interface MarketplaceState {
   categories: CropCategory[];
   locations: Location[];
   filters: MarketplaceFilters;
+  /** Filters the loaded crops were requested with */
+  appliedFilters: MarketplaceFilters;
+  /** Visible map area while the map view is open; limits the query */
+  mapBounds: GeoBounds | null;
   pagination: PaginationState;
   isLoading: boolean;
   isLoadingMore: boolean;
@@ -101,13 +123,15 @@ interface MarketplaceState {
 // Default Values
 // ============================================
 
-const DEFAULT_FILTERS: MarketplaceFilters = {
+export const DEFAULT_FILTERS: MarketplaceFilters = {
   search: '',
   category: '',
   location: '',
   qualityGrades: [],
   priceRange: { min: 0, max: 10000 },
   isOrganic: null,
+  origin: null,
+  radiusKm: null,
   sortBy: 'newest',
 };
 
@@ -118,12 +142,48 @@ const DEFAULT_PAGINATION: PaginationState = {
   totalPages: 0,
 };
 
+/** Listings fetched at once for the map view */
+const MAP_PAGE_SIZE = 200;
+
+/** Most pages a shared link or restored scroll position loads at once */
+export const MAX_RESTORED_PAGES = 20;
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Fill in each crop's distance from the origin. The API sends it when
+ * given an origin; otherwise it is worked out from the farm coordinates.
+ */
+function withDistances(crops: MarketplaceCrop[], origin: MarketplaceOrigin | null): MarketplaceCrop[] {
+  if (!origin) return crops;
+  return crops.map((crop) =>
+    crop.distanceKm !== undefined || !crop.farmerGeo
+      ? crop
+      : { ...crop, distanceKm: distanceKm(origin, crop.farmerGeo) }
+  );
+}
+
+/** Distance filters and sorting mean nothing without an origin */
+function normalizeFilters(filters: MarketplaceFilters): MarketplaceFilters {
+  if (filters.origin) return filters;
+  return {
+    ...filters,
+    radiusKm: null,
+    sortBy: filters.sortBy === 'distance' ? DEFAULT_FILTERS.sortBy : filters.sortBy,
+  };
+}
+
 @Injectable({ providedIn: 'root' })
 export class MarketplaceService {
   private readonly http = inject(HttpClient);
   private readonly destroyRef = inject(DestroyRef);
   private readonly apiUrl = `${environment.apiUrl}/marketplace`;
 
+  /** In-flight crops request; a newer load supersedes it */
+  private cropsRequest: Subscription | null = null;
+
   // ============================================
   // Private State Signal
   // ============================================
@@ -133,6 +193,8 @@ export class MarketplaceService {
     categories: [],
     locations: [],
     filters: { ...DEFAULT_FILTERS },
+    appliedFilters: { ...DEFAULT_FILTERS },
+    mapBounds: null,
     pagination: { ...DEFAULT_PAGINATION },
     isLoading: false,
     isLoadingMore: false,
@@ -173,6 +235,12 @@ export class MarketplaceService {
   /** Current filters */
   readonly filters = computed(() => this._state().filters);
 
+  /** Filters behind the crops on screen (edits not yet applied are excluded) */
+  readonly appliedFilters = computed(() => this._state().appliedFilters);
+
+  /** Visible map area the crops are limited to, if any */
+  readonly mapBounds = computed(() => this._state().mapBounds);
+
   /** Pagination state */
   readonly pagination = computed(() => this._state().pagination);
 
@@ -201,6 +269,7 @@ export class MarketplaceService {
     if (f.qualityGrades.length > 0) count++;
     if (f.isOrganic !== null) count++;
     if (f.priceRange.min > 0 || f.priceRange.max < 10000) count++;
+    if (f.origin && f.radiusKm !== null) count++;
     return count;
   });
 
@@ -265,16 +334,9 @@ export class MarketplaceService {
           this.updateState({
             categories: this.getMockCategories(),
             locations: this.getMockLocations(),
-            crops: this.getMockCrops(),
-            pagination: {
-              page: 1,
-              pageSize: 12,
-              total: 24,
-              totalPages: 2,
-            },
-            isLoading: false,
           });
         });
+      this.loadCrops();
       return;
     }
 
@@ -285,25 +347,44 @@ export class MarketplaceService {
   }
 
   /**
-   * Load crops with current filters
+   * Load crops with current filters. `throughPage` loads every page up to
+   * it in one request, to restore an infinite-scroll position.
    */
-  loadCrops(): void {
-    this.updateState({ isLoading: true, error: null });
+  loadCrops(throughPage = 1): void {
+    this.cropsRequest?.unsubscribe();
+
+    // Page counts from the last load only hold while the filters are the same
+    const state = this._state();
+    const sameQuery = JSON.stringify(state.filters) === JSON.stringify(state.appliedFilters);
+    const knownPages = sameQuery && state.pagination.totalPages > 0 ? state.pagination.totalPages : MAX_RESTORED_PAGES;
+    const pages = Math.max(1, Math.min(throughPage, knownPages, MAX_RESTORED_PAGES));
+
+    this.updateState({
+      isLoading: true,
+      error: null,
+      appliedFilters: this._state().filters,
+    });
+
+    const { pageSize } = DEFAULT_PAGINATION;
 
     if (!environment.production) {
-      of(null)
+      this.cropsRequest = of(null)
         .pipe(
           delay(600),
           takeUntilDestroyed(this.destroyRef)
         )
         .subscribe(() => {
-          const filteredCrops = this.applyFiltersToMockData(this.getMockCrops());
+          const filteredCrops = this.applyFiltersToMockData(
+            withDistances(this.getMockCrops(), this._state().filters.origin)
+          );
+          const totalPages = Math.ceil(filteredCrops.length / pageSize);
           this.updateState({
             crops: filteredCrops,
             pagination: {
-              ...this._state().pagination,
+              page: Math.max(1, Math.min(pages, totalPages)),
+              pageSize,
               total: filteredCrops.length,
-              totalPages: Math.ceil(filteredCrops.length / 12),
+              totalPages,
             },
             isLoading: false,
           });
@@ -311,17 +392,25 @@ export class MarketplaceService {
       return;
     }
 
-    const params = this.buildHttpParams();
-    this.http
+    const params = this.buildHttpParams()
+      .set('page', '1')
+      .set('pageSize', (this._state().mapBounds ? MAP_PAGE_SIZE : pageSize * pages).toString());
+    this.cropsRequest = this.http
       .get<{ data: MarketplaceCrop[]; pagination: PaginationState }>(
         `${this.apiUrl}/crops`,
         { params }
       )
       .pipe(
         tap((response) => {
+          const totalPages = Math.ceil(response.pagination.total / pageSize);
           this.updateState({
-            crops: response.data,
-            pagination: response.pagination,
+            crops: withDistances(response.data, this._state().appliedFilters.origin),
+            pagination: {
+              page: Math.max(1, Math.min(pages, totalPages)),
+              pageSize,
+              total: response.pagination.total,
+              totalPages,
+            },
             isLoading: false,
           });
         }),
@@ -354,7 +443,7 @@ export class MarketplaceService {
           takeUntilDestroyed(this.destroyRef)
         )
         .subscribe(() => {
-          const moreCrops = this.getMockCrops().slice(0, 6);
+          const moreCrops = withDistances(this.getMockCrops().slice(0, 6), this._state().filters.origin);
           this.updateState({
             crops: [...this._state().crops, ...moreCrops],
             pagination: {
@@ -376,7 +465,10 @@ export class MarketplaceService {
       .pipe(
         tap((response) => {
           this.updateState({
-            crops: [...this._state().crops, ...response.data],
+            crops: [
+              ...this._state().crops,
+              ...withDistances(response.data, this._state().appliedFilters.origin),
+            ],
             pagination: response.pagination,
             isLoadingMore: false,
           });
@@ -412,13 +504,34 @@ export class MarketplaceService {
    * Update filters and reload
    */
   updateFilters(partial: Partial<MarketplaceFilters>): void {
-    const newFilters = { ...this._state().filters, ...partial };
+    const newFilters = normalizeFilters({ ...this._state().filters, ...partial });
     this.updateState({
       filters: newFilters,
       pagination: { ...DEFAULT_PAGINATION },
     });
   }
 
+  /**
+   * Replace every filter at once (a saved search, the URL) and reload.
+   * Filters left out fall back to their defaults.
+   */
+  setFilters(filters: Partial<MarketplaceFilters>, throughPage = 1): void {
+    const next = normalizeFilters({ ...DEFAULT_FILTERS, ...filters });
+
+    // Keep the debounced search in step so the search effect does not undo it
+    this._searchTerm.set(next.search);
+    this.debouncedSearchTerm.set(next.search);
+    if (this.searchDebounceTimer) {
+      clearTimeout(this.searchDebounceTimer);
+      this.searchDebounceTimer = null;
+    }
+    this.updateState({
+      filters: next,
+      pagination: { ...DEFAULT_PAGINATION },
+    });
+    this.loadCrops(throughPage);
+  }
+
   /**
    * Apply filters and reload crops
    */
@@ -478,6 +591,24 @@ export class MarketplaceService {
     this.loadCrops();
   }
 
+  /**
+   * Measure distances from a point, optionally limited to a radius.
+   * Pass `null` to stop filtering and sorting by distance.
+   */
+  setOrigin(origin: MarketplaceOrigin | null, radiusKm: number | null = null): void {
+    this.updateFilters({ origin, radiusKm });
+    this.loadCrops();
+  }
+
+  /**
+   * Limit the listing to the visible map area, or pass `null` when the map
+   * closes. Reloads straight away; callers debounce map movement.
+   */
+  setMapBounds(mapBounds: GeoBounds | null): void {
+    this.updateState({ mapBounds, pagination: { ...DEFAULT_PAGINATION } });
+    this.loadCrops();
+  }
+
   /**
    * Set price range
    */
@@ -527,6 +658,16 @@ export class MarketplaceService {
     if (f.priceRange.max < 10000) {
       params = params.set('maxPrice', f.priceRange.max.toString());
     }
+    const bounds = this._state().mapBounds;
+    if (bounds) {
+      params = params.set('bbox', [bounds.west, bounds.south, bounds.east, bounds.north].join(','));
+    }
+    if (f.origin) {
+      params = params
+        .set('lat', f.origin.latitude.toString())
+        .set('lng', f.origin.longitude.toString());
+      if (f.radiusKm !== null) params = params.set('radiusKm', f.radiusKm.toString());
+    }
 
     return params;
   }
@@ -594,6 +735,18 @@ export class MarketplaceService {
       (c) => c.price >= f.priceRange.min && c.price <= f.priceRange.max
     );
 
+    // Map area filter
+    const bounds = this._state().mapBounds;
+    if (bounds) {
+      filtered = filtered.filter((c) => !!c.farmerGeo && isWithinBounds(c.farmerGeo, bounds));
+    }
+
+    // Radius filter (crops without coordinates can't be placed, so they drop out)
+    if (f.origin && f.radiusKm !== null) {
+      const radiusKm = f.radiusKm;
+      filtered = filtered.filter((c) => c.distanceKm !== undefined && c.distanceKm <= radiusKm);
+    }
+
     // Sorting
     switch (f.sortBy) {
       case 'newest':
@@ -614,6 +767,9 @@ export class MarketplaceService {
       case 'rating':
         filtered.sort((a, b) => b.farmerRating - a.farmerRating);
         break;
+      case 'distance':
+        filtered.sort((a, b) => (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity));
+        break;
     }
 
     return filtered;
@@ -654,6 +810,7 @@ export class MarketplaceService {
         farmerName: 'Ramesh Patil',
         farmerRating: 4.8,
         farmerLocation: 'Nashik, Maharashtra',
+        farmerGeo: { latitude: 19.9345, longitude: 73.8168, city: 'Nashik', state: 'Maharashtra' },
         cropName: 'Organic Tomatoes',
         category: 'Vegetables',
         quantity: 500,
@@ -675,6 +832,7 @@ export class MarketplaceService {
         farmerName: 'Suresh Kumar',
         farmerRating: 4.5,
         farmerLocation: 'Indore, Madhya Pradesh',
+        farmerGeo: { latitude: 22.6776, longitude: 75.8037, city: 'Indore', state: 'Madhya Pradesh' },
         cropName: 'Basmati Rice',
         category: 'Grains',
         quantity: 2000,
@@ -696,6 +854,7 @@ export class MarketplaceService {
         farmerName: 'Priya Sharma',
         farmerRating: 4.9,
         farmerLocation: 'Jaipur, Rajasthan',
+        farmerGeo: { latitude: 26.8914, longitude: 75.8413, city: 'Jaipur', state: 'Rajasthan' },
         cropName: 'Alphonso Mangoes',
         category: 'Fruits',
         quantity: 300,
@@ -717,6 +876,7 @@ export class MarketplaceService {
         farmerName: 'Vikram Singh',
         farmerRating: 4.3,
         farmerLocation: 'Lucknow, Uttar Pradesh',
+        farmerGeo: { latitude: 26.8467, longitude: 80.9192, city: 'Lucknow', state: 'Uttar Pradesh' },
         cropName: 'Fresh Potatoes',
         category: 'Vegetables',
         quantity: 1500,
@@ -738,6 +898,7 @@ export class MarketplaceService {
         farmerName: 'Anita Desai',
         farmerRating: 4.7,
         farmerLocation: 'Pune, Maharashtra',
+        farmerGeo: { latitude: 18.5414, longitude: 73.9377, city: 'Pune', state: 'Maharashtra' },
         cropName: 'Green Chillies',
         category: 'Vegetables',
         quantity: 200,
@@ -759,6 +920,7 @@ export class MarketplaceService {
         farmerName: 'Mohan Yadav',
         farmerRating: 4.4,
         farmerLocation: 'Nagpur, Maharashtra',
+        farmerGeo: { latitude: 21.1878, longitude: 79.0882, city: 'Nagpur', state: 'Maharashtra' },
         cropName: 'Red Onions',
         category: 'Vegetables',
         quantity: 1000,
@@ -780,6 +942,7 @@ export class MarketplaceService {
         farmerName: 'Kavita Joshi',
         farmerRating: 4.6,
         farmerLocation: 'Nashik, Maharashtra',
+        farmerGeo: { latitude: 20.0605, longitude: 73.7088, city: 'Nashik', state: 'Maharashtra' },
         cropName: 'Organic Spinach',
         category: 'Vegetables',
         quantity: 100,
@@ -801,6 +964,7 @@ export class MarketplaceService {
         farmerName: 'Rajesh Gupta',
         farmerRating: 4.2,
         farmerLocation: 'Indore, Madhya Pradesh',
+        farmerGeo: { latitude: 22.8036, longitude: 75.8847, city: 'Indore', state: 'Madhya Pradesh' },
         cropName: 'Wheat',
         category: 'Grains',
         quantity: 5000,
@@ -822,6 +986,7 @@ export class MarketplaceService {
         farmerName: 'Sunita Patel',
         farmerRating: 4.8,
         farmerLocation: 'Pune, Maharashtra',
+        farmerGeo: { latitude: 18.4364, longitude: 73.8027, city: 'Pune', state: 'Maharashtra' },
         cropName: 'Turmeric',
         category: 'Spices',
         quantity: 150,
@@ -843,6 +1008,7 @@ export class MarketplaceService {
         farmerName: 'Anil Verma',
         farmerRating: 4.1,
         farmerLocation: 'Lucknow, Uttar Pradesh',
+        farmerGeo: { latitude: 26.7837, longitude: 81.0002, city: 'Lucknow', state: 'Uttar Pradesh' },
         cropName: 'Moong Dal',
         category: 'Pulses',
         quantity: 800,
@@ -864,6 +1030,7 @@ export class MarketplaceService {
         farmerName: 'Deepak Sharma',
         farmerRating: 4.5,
         farmerLocation: 'Jaipur, Rajasthan',
+        farmerGeo: { latitude: 26.8704, longitude: 75.7603, city: 'Jaipur', state: 'Rajasthan' },
         cropName: 'Groundnuts',
         category: 'Oilseeds',
         quantity: 600,
@@ -885,6 +1052,7 @@ export class MarketplaceService {
         farmerName: 'Meena Kulkarni',
         farmerRating: 4.9,
         farmerLocation: 'Nashik, Maharashtra',
+        farmerGeo: { latitude: 19.9765, longitude: 73.8708, city: 'Nashik', state: 'Maharashtra' },
         cropName: 'Organic Carrots',
         category: 'Vegetables',
         quantity: 400,
@@ -0,0 +1,420 @@
+/**
+ * Saved Search Service
+ * ====================
+ * Named marketplace filter combinations a buyer can re-run with one click.
+ * Searches with alerts on are checked against new listings (`listing:new`)
+ * and matches are delivered through NotificationService.
+ */
+
+import { Injectable, inject, signal, computed, effect, untracked, OnDestroy } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Router } from '@angular/router';
+import { Observable, of, delay, tap, map, catchError, throwError, Subject, EMPTY } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { environment } from '@environments/environment';
+import { AuthService } from '@core/services/auth.service';
+import { SocketService, ListingEvent } from '@infrastructure/services/socket.service';
+import {
+  NotificationService,
+  NotificationType,
+  NotificationPriority,
+} from '@features/notifications/services/notification.service';
+import { MarketplaceFilters, QualityGrade } from './marketplace.service';
+import { filtersToQueryParams } from './marketplace-query-params';
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export interface SavedSearch {
+  readonly id: string;
+  readonly name: string;
+  readonly filters: MarketplaceFilters;
+  /** Notify when a new listing matches */
+  readonly alertOnNew: boolean;
+  readonly createdAt: Date;
+  readonly lastRunAt?: Date;
+  readonly lastAlertedAt?: Date;
+}
+
+export interface CreateSavedSearchDto {
+  name: string;
+  filters: MarketplaceFilters;
+  alertOnNew: boolean;
+}
+
+interface SavedSearchState {
+  searches: SavedSearch[];
+  isLoaded: boolean;
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+}
+
+const SORT_LABELS: Record<MarketplaceFilters['sortBy'], string> = {
+  newest: 'newest',
+  price_low: 'price low to high',
+  price_high: 'price high to low',
+  popular: 'most popular',
+  rating: 'top rated',
+  distance: 'nearest first',
+};
+
+const GRADE_LABELS: Record<QualityGrade, string> = {
+  [QualityGrade.PREMIUM]: 'Premium',
+  [QualityGrade.GRADE_A]: 'Grade A',
+  [QualityGrade.GRADE_B]: 'Grade B',
+  [QualityGrade.STANDARD]: 'Standard',
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Whether a new listing falls inside a filter combination. Listing events
+ * carry no quality grade or farm coordinates, so grade and radius filters
+ * are not checked.
+ */
+export function listingMatchesFilters(filters: MarketplaceFilters, listing: ListingEvent): boolean {
+  const term = filters.search.trim().toLowerCase();
+  if (
+    term &&
+    ![listing.cropName, listing.category, listing.farmerName, listing.farmerLocation].some((field) =>
+      field.toLowerCase().includes(term)
+    )
+  ) {
+    return false;
+  }
+
+  return (
+    (!filters.category || listing.category === filters.category) &&
+    (!filters.location || listing.farmerLocation.includes(filters.location)) &&
+    (filters.isOrganic === null || listing.isOrganic === filters.isOrganic) &&
+    listing.price >= filters.priceRange.min &&
+    listing.price <= filters.priceRange.max
+  );
+}
+
+/** Short human-readable summary of a filter combination */
+export function describeFilters(filters: MarketplaceFilters): string {
+  const parts: string[] = [];
+  if (filters.search) parts.push(`"${filters.search}"`);
+  if (filters.category) parts.push(filters.category);
+  if (filters.isOrganic === true) parts.push('organic');
+  if (filters.isOrganic === false) parts.push('non-organic');
+  if (filters.qualityGrades.length > 0) {
+    parts.push(filters.qualityGrades.map((g) => GRADE_LABELS[g]).join('/'));
+  }
+  if (filters.location) parts.push(`in ${filters.location}`);
+  if (filters.origin && filters.radiusKm !== null) {
+    parts.push(`within ${filters.radiusKm} km of ${filters.origin.label}`);
+  }
+  if (filters.priceRange.min > 0 || filters.priceRange.max < 10000) {
+    parts.push(`₹${filters.priceRange.min}–₹${filters.priceRange.max}`);
+  }
+  parts.push(`sorted ${SORT_LABELS[filters.sortBy]}`);
+  return parts.join(' · ');
+}
+
+@Injectable({ providedIn: 'root' })
+export class SavedSearchService implements OnDestroy {
+  private readonly http = inject(HttpClient);
+  private readonly router = inject(Router);
+  private readonly authService = inject(AuthService);
+  private readonly socketService = inject(SocketService);
+  private readonly notificationService = inject(NotificationService);
+  private readonly apiUrl = `${environment.apiUrl}/marketplace/saved-searches`;
+  private readonly destroy$ = new Subject<void>();
+  /** Ends the socket listeners of the current session on sign-out */
+  private readonly signOut$ = new Subject<void>();
+
+  private listenersReady = false;
+
+  // ============================================
+  // State Signal
+  // ============================================
+
+  private readonly _state = signal<SavedSearchState>({
+    searches: [],
+    isLoaded: false,
+    isLoading: false,
+    isSaving: false,
+    error: null,
+  });
+
+  // ============================================
+  // Computed Signals
+  // ============================================
+
+  /** All saved searches, newest first */
+  readonly searches = computed(() => this._state().searches);
+
+  /** Searches that alert on new listings */
+  readonly alertingSearches = computed(() => this._state().searches.filter((s) => s.alertOnNew));
+
+  /** Loading state */
+  readonly isLoading = computed(() => this._state().isLoading);
+
+  /** Saving state */
+  readonly isSaving = computed(() => this._state().isSaving);
+
+  /** Error message */
+  readonly error = computed(() => this._state().error);
+
+  // ============================================
+  // Constructor
+  // ============================================
+
+  constructor() {
+    // Saved searches belong to the signed-in buyer
+    effect(() => {
+      if (this.authService.isBuyer()) {
+        untracked(() => this.start());
+      } else {
+        this.signOut$.next();
+        this.listenersReady = false;
+        untracked(() => this.updateState({ searches: [], isLoaded: false, error: null }));
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  // ============================================
+  // Public Methods
+  // ============================================
+
+  /**
+   * Load searches and listen for new listings. Safe to call repeatedly.
+   */
+  start(): void {
+    if (!this._state().isLoaded && !this._state().isLoading) {
+      this.loadSearches();
+    }
+
+    this.socketService.connect();
+    // No socket exists until the user is authenticated
+    if (this.listenersReady || this.socketService.connectionState() === 'disconnected') return;
+    this.listenersReady = true;
+    this.setupSocketListeners();
+  }
+
+  /**
+   * Load the buyer's saved searches
+   */
+  loadSearches(): void {
+    this.updateState({ isLoading: true, error: null });
+
+    if (!environment.production) {
+      of(null)
+        .pipe(delay(300))
+        .subscribe(() =>
+          this.updateState({ searches: this.getMockSearches(), isLoaded: true, isLoading: false })
+        );
+      return;
+    }
+
+    this.http
+      .get<SavedSearch[]>(this.apiUrl)
+      .pipe(
+        map((searches) => searches.map(reviveSearch)),
+        tap((searches) => this.updateState({ searches, isLoaded: true, isLoading: false })),
+        catchError((error) => {
+          this.updateState({ isLoading: false, error: 'Failed to load saved searches' });
+          return throwError(() => error);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Save a filter combination under a name
+   */
+  save(dto: CreateSavedSearchDto): Observable<SavedSearch> {
+    this.updateState({ isSaving: true, error: null });
+
+    const request$: Observable<SavedSearch> = !environment.production
+      ? of<SavedSearch>({
+          ...dto,
+          id: `search_${Date.now()}`,
+          createdAt: new Date(),
+        }).pipe(delay(300))
+      : this.http.post<SavedSearch>(this.apiUrl, dto).pipe(map(reviveSearch));
+
+    return request$.pipe(
+      tap((search) =>
+        this.updateState({ searches: [search, ...this._state().searches], isSaving: false })
+      ),
+      catchError((error) => {
+        this.updateState({ isSaving: false, error: 'Failed to save search' });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Turn new-listing alerts on or off
+   */
+  setAlert(searchId: string, alertOnNew: boolean): Observable<SavedSearch> {
+    return this.patchSearch(searchId, { alertOnNew });
+  }
+
+  /**
+   * Delete a saved search
+   */
+  delete(searchId: string): Observable<boolean> {
+    this.updateState({ isSaving: true, error: null });
+
+    const request$ = !environment.production
+      ? of(true).pipe(delay(300))
+      : this.http.delete<boolean>(`${this.apiUrl}/${searchId}`);
+
+    return request$.pipe(
+      tap(() =>
+        this.updateState({
+          searches: this._state().searches.filter((s) => s.id !== searchId),
+          isSaving: false,
+        })
+      ),
+      catchError((error) => {
+        this.updateState({ isSaving: false, error: 'Failed to delete saved search' });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Open the marketplace with a saved search's filters. They travel in the
+   * URL, which the marketplace page applies.
+   */
+  run(search: SavedSearch): void {
+    this.replaceSearch({ ...search, lastRunAt: new Date() });
+    this.router.navigate(['/marketplace'], { queryParams: filtersToQueryParams(search.filters) });
+  }
+
+  /**
+   * Check a new listing against searches with alerts on
+   */
+  evaluateListing(listing: ListingEvent): void {
+    // Search alerts are price alerts in the user's notification settings
+    if (!this.notificationService.isWanted(NotificationType.PRICE_ALERT)) return;
+
+    for (const search of this.alertingSearches()) {
+      if (!listingMatchesFilters(search.filters, listing)) continue;
+
+      this.notificationService.deliver({
+        type: NotificationType.PRICE_ALERT,
+        priority: NotificationPriority.MEDIUM,
+        title: `New match for "${search.name}"`,
+        message: `${listing.farmerName} (${listing.farmerLocation}) listed ${listing.quantity} ${listing.unit} of ${listing.cropName} at ₹${listing.price}/${listing.unit}`,
+        icon: 'saved_search',
+        actionUrl: `/marketplace/crop/${listing.cropId}`,
+        actionLabel: 'View Listing',
+        metadata: { savedSearchId: search.id, cropId: listing.cropId, price: listing.price },
+      });
+      this.replaceSearch({ ...search, lastAlertedAt: new Date() });
+    }
+  }
+
+  // ============================================
+  // Socket Listeners
+  // ============================================
+
+  private setupSocketListeners(): void {
+    this.socketService
+      .on('listing:new')
+      .pipe(
+        catchError(() => EMPTY),
+        takeUntil(this.signOut$),
+        takeUntil(this.destroy$)
+      )
+      .subscribe((listing) => this.evaluateListing(listing));
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private updateState(partial: Partial<SavedSearchState>): void {
+    this._state.update((state) => ({ ...state, ...partial }));
+  }
+
+  private patchSearch(searchId: string, changes: Partial<SavedSearch>): Observable<SavedSearch> {
+    const current = this._state().searches.find((s) => s.id === searchId);
+    if (!current) return throwError(() => new Error('Saved search not found'));
+
+    const request$ = !environment.production
+      ? of<SavedSearch>({ ...current, ...changes }).pipe(delay(200))
+      : this.http.patch<SavedSearch>(`${this.apiUrl}/${searchId}`, changes).pipe(map(reviveSearch));
+
+    return request$.pipe(
+      tap((search) => this.replaceSearch(search)),
+      catchError((error) => {
+        this.updateState({ error: 'Failed to update saved search' });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  private replaceSearch(search: SavedSearch): void {
+    this.updateState({
+      searches: this._state().searches.map((s) => (s.id === search.id ? search : s)),
+    });
+  }
+
+  private getMockSearches(): SavedSearch[] {
+    const now = Date.now();
+    const day = 24 * 60 * 60 * 1000;
+
+    return [
+      {
+        id: 'search_1',
+        name: 'Organic vegetables near Nashik',
+        filters: {
+          search: '',
+          category: 'Vegetables',
+          location: 'Nashik',
+          qualityGrades: [],
+          priceRange: { min: 0, max: 10000 },
+          isOrganic: true,
+          origin: null,
+          radiusKm: null,
+          sortBy: 'price_low',
+        },
+        alertOnNew: true,
+        createdAt: new Date(now - 9 * day),
+        lastRunAt: new Date(now - 2 * day),
+      },
+      {
+        id: 'search_2',
+        name: 'Premium rice',
+        filters: {
+          search: 'rice',
+          category: 'Grains',
+          location: '',
+          qualityGrades: [QualityGrade.PREMIUM, QualityGrade.GRADE_A],
+          priceRange: { min: 0, max: 120 },
+          isOrganic: null,
+          origin: null,
+          radiusKm: null,
+          sortBy: 'rating',
+        },
+        alertOnNew: false,
+        createdAt: new Date(now - 21 * day),
+      },
+    ];
+  }
+}
+
+function reviveSearch(search: SavedSearch): SavedSearch {
+  return {
+    ...search,
+    createdAt: new Date(search.createdAt),
+    lastRunAt: search.lastRunAt && new Date(search.lastRunAt),
+    lastAlertedAt: search.lastAlertedAt && new Date(search.lastAlertedAt),
+  };
+}
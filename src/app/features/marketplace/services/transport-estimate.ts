@@ -0,0 +1,29 @@
+/**
+ * Transport Estimate
+ * ==================
+ * Rough road freight from farm to buyer, so listings can be compared by
+ * landed cost. An indication only, not a transporter's quote.
+ */
+
+/** Roads run longer than the straight line between two points */
+const ROAD_DETOUR_FACTOR = 1.3;
+
+/** Loading, unloading and handling, ₹ per quintal */
+const HANDLING_PER_QUINTAL = 20;
+
+/** Truck freight, ₹ per quintal per road km */
+const FREIGHT_PER_QUINTAL_KM = 0.4;
+
+/**
+ * Estimated cost of moving one quintal (100 kg) over a straight-line
+ * distance, rounded to the rupee
+ */
+export function estimateTransportCostPerQuintal(distanceKm: number): number {
+  return Math.round(HANDLING_PER_QUINTAL + FREIGHT_PER_QUINTAL_KM * distanceKm * ROAD_DETOUR_FACTOR);
+}
+
+/** "800 m", "12 km", "1,240 km" */
+export function formatDistance(distanceKm: number): string {
+  if (distanceKm < 1) return `${Math.max(100, Math.round(distanceKm * 10) * 100)} m`;
+  return `${Math.round(distanceKm).toLocaleString('en-IN')} km`;
+}
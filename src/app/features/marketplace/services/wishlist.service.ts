@@ -0,0 +1,357 @@
+/**
+ * Wishlist Service
+ * ================
+ * The buyer's saved crops. Each entry carries the listing's current price
+ * and stock next to the price it was saved at, so the wishlist can show
+ * price drops and crops that are back in stock.
+ */
+
+import { Injectable, inject, signal, computed, effect, untracked } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, of, delay, tap, catchError, throwError, map } from 'rxjs';
+import { environment } from '@environments/environment';
+import { AuthService } from '@core/services/auth.service';
+import { MarketplaceCrop, QualityGrade } from './marketplace.service';
+import { CropDetails } from './crop-details.service';
+
+// ============================================
+// Types & Interfaces
+// ============================================
+
+export interface WishlistItem {
+  readonly cropId: string;
+  readonly cropName: string;
+  readonly cropImage: string;
+  readonly category: string;
+  readonly farmerId: string;
+  readonly farmerName: string;
+  readonly farmerLocation: string;
+  readonly qualityGrade: QualityGrade;
+  readonly unit: string;
+  /** Current listing price */
+  readonly price: number;
+  /** Current stock */
+  readonly availableQuantity: number;
+  readonly minOrderQuantity: number;
+  /** Listing price when the crop was saved */
+  readonly savedPrice: number;
+  /** The listing has sold out at some point since it was saved */
+  readonly wasOutOfStock: boolean;
+  readonly addedAt: Date;
+}
+
+/** Listing snapshot sent when saving a crop */
+export type AddToWishlistDto = Omit<WishlistItem, 'savedPrice' | 'wasOutOfStock' | 'addedAt'>;
+
+interface WishlistState {
+  items: WishlistItem[];
+  isLoaded: boolean;
+  isLoading: boolean;
+  /** Crops being added or removed */
+  pendingIds: string[];
+  error: string | null;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/** Percentage the price has fallen since saving; 0 when it has not */
+export function priceDropPercent(item: WishlistItem): number {
+  if (item.savedPrice <= 0 || item.price >= item.savedPrice) return 0;
+  return Math.round(((item.savedPrice - item.price) / item.savedPrice) * 100);
+}
+
+export function isOutOfStock(item: WishlistItem): boolean {
+  return item.availableQuantity <= 0 || item.availableQuantity < item.minOrderQuantity;
+}
+
+/** Sold out after saving and available again now */
+export function isBackInStock(item: WishlistItem): boolean {
+  return item.wasOutOfStock && !isOutOfStock(item);
+}
+
+export function wishlistEntryFromDetails(crop: CropDetails): AddToWishlistDto {
+  return {
+    cropId: crop.id,
+    cropName: crop.cropName,
+    cropImage: (crop.images.find((i) => i.isPrimary) ?? crop.images[0])?.thumbnailUrl ?? '',
+    category: crop.category,
+    farmerId: crop.farmer.id,
+    farmerName: crop.farmer.name,
+    farmerLocation: `${crop.farmer.district}, ${crop.farmer.state}`,
+    qualityGrade: crop.qualityGrade,
+    unit: crop.unit,
+    price: crop.price,
+    availableQuantity: crop.availableQuantity,
+    minOrderQuantity: crop.minOrderQuantity,
+  };
+}
+
+/** Listing cards carry no minimum order; the server fills it in */
+export function wishlistEntryFromListing(crop: MarketplaceCrop): AddToWishlistDto {
+  return {
+    cropId: crop.id,
+    cropName: crop.cropName,
+    cropImage: crop.images[0] ?? '',
+    category: crop.category,
+    farmerId: crop.farmerId,
+    farmerName: crop.farmerName,
+    farmerLocation: crop.farmerLocation,
+    qualityGrade: crop.qualityGrade,
+    unit: crop.unit,
+    price: crop.price,
+    availableQuantity: crop.quantity,
+    minOrderQuantity: 1,
+  };
+}
+
+@Injectable({ providedIn: 'root' })
+export class WishlistService {
+  private readonly http = inject(HttpClient);
+  private readonly authService = inject(AuthService);
+  private readonly apiUrl = `${environment.apiUrl}/marketplace/wishlist`;
+
+  /** Dev mode: the wishlist survives reloads of the page within a session */
+  private mockItems: WishlistItem[] | null = null;
+
+  // ============================================
+  // State Signal
+  // ============================================
+
+  private readonly _state = signal<WishlistState>({
+    items: [],
+    isLoaded: false,
+    isLoading: false,
+    pendingIds: [],
+    error: null,
+  });
+
+  // ============================================
+  // Computed Signals
+  // ============================================
+
+  /** Saved crops, most recently saved first */
+  readonly items = computed(() => this._state().items);
+
+  /** Number of saved crops */
+  readonly count = computed(() => this._state().items.length);
+
+  /** Saved crops whose price has fallen */
+  readonly priceDrops = computed(() => this._state().items.filter((i) => priceDropPercent(i) > 0));
+
+  /** Saved crops that can be ordered right now */
+  readonly inStockItems = computed(() => this._state().items.filter((i) => !isOutOfStock(i)));
+
+  /** Loading state */
+  readonly isLoading = computed(() => this._state().isLoading);
+
+  /** Error message */
+  readonly error = computed(() => this._state().error);
+
+  // ============================================
+  // Constructor
+  // ============================================
+
+  constructor() {
+    // The wishlist belongs to the signed-in user
+    effect(() => {
+      if (!this.authService.isAuthenticated()) {
+        untracked(() => this.updateState({ items: [], isLoaded: false, pendingIds: [], error: null }));
+      }
+    });
+  }
+
+  // ============================================
+  // Selectors
+  // ============================================
+
+  /** Whether a crop is saved. Reads state, so it is reactive inside computed/templates. */
+  isWishlisted(cropId: string): boolean {
+    return this._state().items.some((i) => i.cropId === cropId);
+  }
+
+  /** Whether a crop is being added or removed */
+  isPending(cropId: string): boolean {
+    return this._state().pendingIds.includes(cropId);
+  }
+
+  // ============================================
+  // Public Methods
+  // ============================================
+
+  /**
+   * Load the wishlist with current prices and stock
+   */
+  loadWishlist(force = false): void {
+    if ((this._state().isLoaded && !force) || this._state().isLoading) return;
+    this.updateState({ isLoading: true, error: null });
+
+    if (!environment.production) {
+      of(null)
+        .pipe(delay(400))
+        .subscribe(() => {
+          this.mockItems ??= this.getMockWishlist();
+          this.updateState({ items: [...this.mockItems], isLoaded: true, isLoading: false });
+        });
+      return;
+    }
+
+    this.http
+      .get<WishlistItem[]>(this.apiUrl)
+      .pipe(
+        map((items) => items.map(reviveItem)),
+        tap((items) => this.updateState({ items, isLoaded: true, isLoading: false })),
+        catchError((error) => {
+          this.updateState({ isLoading: false, error: 'Failed to load wishlist' });
+          return throwError(() => error);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Save a crop
+   */
+  add(dto: AddToWishlistDto): Observable<WishlistItem> {
+    const existing = this._state().items.find((i) => i.cropId === dto.cropId);
+    if (existing) return of(existing);
+
+    this.setPending(dto.cropId, true);
+
+    const request$: Observable<WishlistItem> = !environment.production
+      ? of<WishlistItem>({
+          ...dto,
+          savedPrice: dto.price,
+          wasOutOfStock: false,
+          addedAt: new Date(),
+        }).pipe(delay(300))
+      : this.http.post<WishlistItem>(this.apiUrl, { cropId: dto.cropId }).pipe(map(reviveItem));
+
+    return request$.pipe(
+      tap((item) => {
+        if (!environment.production) {
+          this.mockItems = [item, ...(this.mockItems ?? this.getMockWishlist())];
+        }
+        this.updateState({ items: [item, ...this._state().items] });
+        this.setPending(dto.cropId, false);
+      }),
+      catchError((error) => {
+        this.setPending(dto.cropId, false);
+        this.updateState({ error: 'Failed to add to wishlist' });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Remove a crop
+   */
+  remove(cropId: string): Observable<boolean> {
+    this.setPending(cropId, true);
+
+    const request$ = !environment.production
+      ? of(true).pipe(delay(300))
+      : this.http.delete<boolean>(`${this.apiUrl}/${cropId}`);
+
+    return request$.pipe(
+      tap(() => {
+        if (!environment.production) {
+          this.mockItems = (this.mockItems ?? this.getMockWishlist()).filter((i) => i.cropId !== cropId);
+        }
+        this.updateState({ items: this._state().items.filter((i) => i.cropId !== cropId) });
+        this.setPending(cropId, false);
+      }),
+      catchError((error) => {
+        this.setPending(cropId, false);
+        this.updateState({ error: 'Failed to remove from wishlist' });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Save or unsave a crop. Emits whether the crop is saved afterwards.
+   */
+  toggle(dto: AddToWishlistDto): Observable<boolean> {
+    return this.isWishlisted(dto.cropId)
+      ? this.remove(dto.cropId).pipe(map(() => false))
+      : this.add(dto).pipe(map(() => true));
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private updateState(partial: Partial<WishlistState>): void {
+    this._state.update((state) => ({ ...state, ...partial }));
+  }
+
+  private setPending(cropId: string, pending: boolean): void {
+    const others = this._state().pendingIds.filter((id) => id !== cropId);
+    this.updateState({ pendingIds: pending ? [...others, cropId] : others });
+  }
+
+  private getMockWishlist(): WishlistItem[] {
+    const now = Date.now();
+    const day = 24 * 60 * 60 * 1000;
+
+    return [
+      {
+        cropId: 'crop_1',
+        cropName: 'Organic Tomatoes',
+        cropImage: 'https://images.unsplash.com/photo-1592924357228-91a4daadcfea?w=400',
+        category: 'Vegetables',
+        farmerId: 'farmer_1',
+        farmerName: 'Ramesh Patil',
+        farmerLocation: 'Nashik, Maharashtra',
+        qualityGrade: QualityGrade.PREMIUM,
+        unit: 'kg',
+        price: 45,
+        availableQuantity: 500,
+        minOrderQuantity: 50,
+        savedPrice: 52,
+        wasOutOfStock: false,
+        addedAt: new Date(now - 6 * day),
+      },
+      {
+        cropId: 'crop_3',
+        cropName: 'Alphonso Mangoes',
+        cropImage: 'https://images.unsplash.com/photo-1553279768-865429fa0078?w=400',
+        category: 'Fruits',
+        farmerId: 'farmer_3',
+        farmerName: 'Priya Sharma',
+        farmerLocation: 'Jaipur, Rajasthan',
+        qualityGrade: QualityGrade.PREMIUM,
+        unit: 'kg',
+        price: 350,
+        availableQuantity: 300,
+        minOrderQuantity: 20,
+        savedPrice: 350,
+        wasOutOfStock: true,
+        addedAt: new Date(now - 12 * day),
+      },
+      {
+        cropId: 'crop_2',
+        cropName: 'Basmati Rice',
+        cropImage: 'https://images.unsplash.com/photo-1586201375761-83865001e31c?w=400',
+        category: 'Grains',
+        farmerId: 'farmer_2',
+        farmerName: 'Suresh Kumar',
+        farmerLocation: 'Indore, Madhya Pradesh',
+        qualityGrade: QualityGrade.GRADE_A,
+        unit: 'kg',
+        price: 89,
+        availableQuantity: 0,
+        minOrderQuantity: 100,
+        savedPrice: 85,
+        wasOutOfStock: false,
+        addedAt: new Date(now - 20 * day),
+      },
+    ];
+  }
+}
+
+function reviveItem(item: WishlistItem): WishlistItem {
+  return { ...item, addedAt: new Date(item.addedAt) };
+}
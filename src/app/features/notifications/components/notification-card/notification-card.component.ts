@@ -11,7 +11,7 @@ import {
   output,
   computed,
 } from '@angular/core';
-import { CommonModule, DatePipe } from '@angular/common';
+import { CommonModule } from '@angular/common';
 import { RouterLink } from '@angular/router';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
@@ -26,6 +26,7 @@ import {
   NotificationPriority,
   NOTIFICATION_TYPE_CONFIG,
 } from '../../services/notification.service';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
 
 @Component({
   selector: 'smc-notification-card',
@@ -39,7 +40,7 @@ import {
     MatMenuModule,
     MatTooltipModule,
     MatRippleModule,
-    DatePipe,
+    LocaleDatePipe,
   ],
   templateUrl: './notification-card.component.html',
   styleUrl: './notification-card.component.scss',
@@ -3,6 +3,9 @@
  * ====================================
  */
 
+// Routes
+export * from './notifications.routes';
+
 // Services
 export * from './services';
 
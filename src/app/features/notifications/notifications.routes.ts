@@ -0,0 +1,28 @@
+import { Routes } from '@angular/router';
+
+/**
+ * Notifications Routes
+ * ====================
+ *
+ * URL Structure:
+ * - /notifications               → Notification inbox
+ * - /notifications/price-alerts  → Price alert rules (?crop=&mandi= to prefill)
+ */
+export const NOTIFICATIONS_ROUTES: Routes = [
+  {
+    path: '',
+    loadComponent: () =>
+      import('./pages/notifications/notifications.component').then(
+        (m) => m.NotificationsComponent
+      ),
+    title: 'Notifications | Smart Mandi Connect',
+  },
+  {
+    path: 'price-alerts',
+    loadComponent: () =>
+      import('./pages/price-alerts/price-alerts.component').then(
+        (m) => m.PriceAlertsComponent
+      ),
+    title: 'Price Alerts | Smart Mandi Connect',
+  },
+];
@@ -0,0 +1,175 @@
+/**
+ * Price Alerts Component
+ * ======================
+ * Create and manage price alert rules for mandi rates and marketplace
+ * listings. Matches arrive as Price Alert notifications.
+ */
+
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  input,
+  computed,
+  OnInit,
+  DestroyRef,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { ReactiveFormsModule, FormBuilder, Validators } from '@angular/forms';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar } from '@angular/material/snack-bar';
+
+import { PreferencesService } from '@core/services/preferences.service';
+import {
+  PriceAlertService,
+  PriceAlertRule,
+  PriceAlertSource,
+  PriceAlertCondition,
+  CreatePriceAlertDto,
+} from '../../services/price-alert.service';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
+
+@Component({
+  selector: 'smc-price-alerts',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterLink,
+    ReactiveFormsModule,
+    MatCardModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatCheckboxModule,
+    MatSlideToggleModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    LocaleDatePipe,
+  ],
+  templateUrl: './price-alerts.component.html',
+  styleUrl: './price-alerts.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class PriceAlertsComponent implements OnInit {
+  private readonly fb = inject(FormBuilder);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly destroyRef = inject(DestroyRef);
+  readonly priceAlertService = inject(PriceAlertService);
+  private readonly preferencesService = inject(PreferencesService);
+
+  /** Query param: crop to prefill */
+  readonly crop = input<string>();
+
+  /** Query param: mandi to prefill */
+  readonly mandi = input<string>();
+
+  readonly rules = this.priceAlertService.rules;
+
+  /** Rules stay silent while price alerts are switched off in settings */
+  readonly alertsOff = computed(() => !this.preferencesService.notifications().priceAlerts);
+  readonly isLoading = this.priceAlertService.isLoading;
+  readonly isSaving = this.priceAlertService.isSaving;
+  readonly units = this.priceAlertService.units;
+
+  readonly form = this.fb.nonNullable.group({
+    source: ['mandi' as PriceAlertSource],
+    cropName: ['', [Validators.required, Validators.maxLength(60)]],
+    mandiName: [''],
+    location: [''],
+    organicOnly: [false],
+    condition: ['above' as PriceAlertCondition],
+    threshold: [0, [Validators.required, Validators.min(0.01)]],
+    unit: ['quintal'],
+  });
+
+  ngOnInit(): void {
+    this.priceAlertService.start();
+
+    const crop = this.crop();
+    const mandi = this.mandi();
+    if (crop) {
+      this.form.patchValue({ cropName: crop, mandiName: mandi ?? '' });
+    }
+  }
+
+  /** Rule being created watches listings */
+  get isListingRule(): boolean {
+    return this.form.controls.source.value === 'listing';
+  }
+
+  onSubmit(): void {
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    const value = this.form.getRawValue();
+    const dto: CreatePriceAlertDto = {
+      source: value.source,
+      cropName: value.cropName.trim(),
+      condition: value.condition,
+      threshold: Number(value.threshold),
+      unit: value.unit,
+      ...(value.source === 'mandi'
+        ? { mandiName: value.mandiName.trim() || undefined }
+        : { location: value.location.trim() || undefined, organicOnly: value.organicOnly }),
+    };
+
+    this.priceAlertService
+      .createRule(dto)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (rule) => {
+          this.snackBar.open(`Alert set: ${this.priceAlertService.describe(rule)}`, 'OK', {
+            duration: 3000,
+          });
+          this.form.reset({
+            source: value.source,
+            condition: value.condition,
+            unit: value.unit,
+          });
+        },
+        error: () => this.snackBar.open('Failed to create price alert', 'Dismiss', { duration: 3000 }),
+      });
+  }
+
+  onToggle(rule: PriceAlertRule, isActive: boolean): void {
+    this.priceAlertService
+      .setActive(rule.id, isActive)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        error: () => this.snackBar.open('Failed to update price alert', 'Dismiss', { duration: 3000 }),
+      });
+  }
+
+  onDelete(rule: PriceAlertRule): void {
+    this.priceAlertService
+      .deleteRule(rule.id)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => this.snackBar.open('Price alert deleted', 'OK', { duration: 2000 }),
+        error: () => this.snackBar.open('Failed to delete price alert', 'Dismiss', { duration: 3000 }),
+      });
+  }
+
+  describe(rule: PriceAlertRule): string {
+    return this.priceAlertService.describe(rule);
+  }
+
+  trackByRule(index: number, rule: PriceAlertRule): string {
+    return rule.id;
+  }
+}
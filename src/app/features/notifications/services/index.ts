@@ -4,6 +4,4 @@
  */
 
 export * from './notification.service';
-
-
-
+export * from './price-alert.service';
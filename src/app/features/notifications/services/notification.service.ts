@@ -2,6 +2,8 @@
  * Notification Service
  * ====================
  * Signals-based service for managing notifications with real-time updates.
+ * Live notifications in a category the user has switched off in their
+ * preferences are dropped.
  */
 
 import { Injectable, inject, signal, computed, OnDestroy } from '@angular/core';
@@ -10,6 +12,7 @@ import { Observable, of, delay, tap, catchError, throwError, Subject } from 'rxj
 import { takeUntil } from 'rxjs/operators';
 import { environment } from '@environments/environment';
 import { SocketService } from '@infrastructure/services/socket.service';
+import { NotificationCategory, PreferencesService } from '@core/services/preferences.service';
 
 // ============================================
 // Enums & Types
@@ -85,10 +88,25 @@ export const NOTIFICATION_TYPE_CONFIG: Record<
   [NotificationType.PROMOTION]: { label: 'Promotions', icon: 'local_offer', color: '#e91e63' },
 };
 
+/** Preference that switches each type off; types without one always arrive */
+const NOTIFICATION_CATEGORIES: Partial<Record<NotificationType, NotificationCategory>> = {
+  [NotificationType.ORDER]: 'orderUpdates',
+  [NotificationType.BID]: 'bidAlerts',
+  [NotificationType.PRICE_ALERT]: 'priceAlerts',
+  [NotificationType.PROMOTION]: 'promotions',
+};
+
+const LOCAL_ID_PREFIX = 'local_';
+
+function isLocalNotification(id: string): boolean {
+  return id.startsWith(LOCAL_ID_PREFIX);
+}
+
 @Injectable({ providedIn: 'root' })
 export class NotificationService implements OnDestroy {
   private readonly http = inject(HttpClient);
   private readonly socketService = inject(SocketService);
+  private readonly preferencesService = inject(PreferencesService);
   private readonly apiUrl = `${environment.apiUrl}/notifications`;
   private readonly destroy$ = new Subject<void>();
 
@@ -243,7 +261,7 @@ export class NotificationService implements OnDestroy {
       .onAny<Notification>('notification:new')
       .pipe(takeUntil(this.destroy$))
       .subscribe((notification) => {
-        this.addNotification(notification);
+        if (this.isWanted(notification.type)) this.addNotification(notification);
       });
   }
 
@@ -262,7 +280,7 @@ export class NotificationService implements OnDestroy {
         .pipe(delay(600))
         .subscribe(() => {
           this.updateState({
-            notifications: this.getMockNotifications(),
+            notifications: this.withLocal(this.getMockNotifications()),
             isLoading: false,
           });
         });
@@ -272,7 +290,9 @@ export class NotificationService implements OnDestroy {
     this.http
       .get<Notification[]>(this.apiUrl)
       .pipe(
-        tap((notifications) => this.updateState({ notifications, isLoading: false })),
+        tap((notifications) =>
+          this.updateState({ notifications: this.withLocal(notifications), isLoading: false })
+        ),
         catchError((error) => {
           this.updateState({ isLoading: false, error: 'Failed to load notifications' });
           return throwError(() => error);
@@ -294,7 +314,8 @@ export class NotificationService implements OnDestroy {
   markAsRead(notificationId: string): Observable<boolean> {
     this.updateState({ isUpdating: true });
 
-    if (!environment.production) {
+    // Notifications raised on this device only exist locally
+    if (!environment.production || isLocalNotification(notificationId)) {
       return of(true).pipe(
         delay(300),
         tap(() => {
@@ -356,7 +377,8 @@ export class NotificationService implements OnDestroy {
   deleteNotification(notificationId: string): Observable<boolean> {
     this.updateState({ isUpdating: true });
 
-    if (!environment.production) {
+    // Notifications raised on this device only exist locally
+    if (!environment.production || isLocalNotification(notificationId)) {
       return of(true).pipe(
         delay(300),
         tap(() => {
@@ -408,6 +430,29 @@ export class NotificationService implements OnDestroy {
     );
   }
 
+  /** Whether the user's preferences let this type through */
+  isWanted(type: NotificationType): boolean {
+    const category = NOTIFICATION_CATEGORIES[type];
+    return !category || this.preferencesService.allows(category);
+  }
+
+  /**
+   * Deliver a notification raised on this device, such as a matched price
+   * alert. Null when the user has switched its category off.
+   */
+  deliver(notification: Omit<Notification, 'id' | 'isRead' | 'createdAt'>): Notification | null {
+    if (!this.isWanted(notification.type)) return null;
+
+    const delivered: Notification = {
+      ...notification,
+      id: `${LOCAL_ID_PREFIX}${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      isRead: false,
+      createdAt: new Date(),
+    };
+    this.addNotification(delivered);
+    return delivered;
+  }
+
   // ============================================
   // Private Methods
   // ============================================
@@ -423,6 +468,12 @@ export class NotificationService implements OnDestroy {
     }));
   }
 
+  /** Keep notifications raised on this device, which the server doesn't know about */
+  private withLocal(notifications: Notification[]): Notification[] {
+    const local = this._state().notifications.filter((n) => isLocalNotification(n.id));
+    return [...local, ...notifications];
+  }
+
   private updateNotificationInState(
     notificationId: string,
     updates: Partial<Notification>
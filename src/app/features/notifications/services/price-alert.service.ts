@@ -0,0 +1,466 @@
+/**
+ * Price Alert Service
+ * ===================
+ * User-defined price alert rules, evaluated on this device against live
+ * mandi rate updates (`price:update`) and new marketplace listings
+ * (`listing:new`). Matches are delivered through NotificationService.
+ */
+
+import { Injectable, inject, signal, computed, effect, untracked, OnDestroy } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, of, delay, tap, catchError, throwError, Subject, EMPTY } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { environment } from '@environments/environment';
+import { AuthService } from '@core/services/auth.service';
+import {
+  SocketService,
+  PriceUpdateEvent,
+  ListingEvent,
+} from '@infrastructure/services/socket.service';
+import {
+  NotificationService,
+  NotificationType,
+  NotificationPriority,
+} from './notification.service';
+
+// ============================================
+// Types
+// ============================================
+
+/** What a rule watches: mandi rates or marketplace listings */
+export type PriceAlertSource = 'mandi' | 'listing';
+
+export type PriceAlertCondition = 'above' | 'below';
+
+export interface PriceAlertRule {
+  readonly id: string;
+  readonly source: PriceAlertSource;
+  readonly cropName: string;
+  readonly condition: PriceAlertCondition;
+  readonly threshold: number;
+  readonly unit: string;
+  /** Mandi rules only; any mandi when unset */
+  readonly mandiName?: string;
+  /** Listing rules only; matched against the farmer's location */
+  readonly location?: string;
+  /** Listing rules only */
+  readonly organicOnly?: boolean;
+  readonly isActive: boolean;
+  readonly createdAt: Date;
+  readonly lastTriggeredAt?: Date;
+}
+
+export type CreatePriceAlertDto = Omit<
+  PriceAlertRule,
+  'id' | 'isActive' | 'createdAt' | 'lastTriggeredAt'
+>;
+
+interface PriceAlertState {
+  rules: PriceAlertRule[];
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+}
+
+/** Weight units rules can be compared across, in kg */
+const KG_PER_UNIT: Record<string, number> = {
+  kg: 1,
+  quintal: 100,
+  ton: 1000,
+};
+
+@Injectable({ providedIn: 'root' })
+export class PriceAlertService implements OnDestroy {
+  private readonly http = inject(HttpClient);
+  private readonly authService = inject(AuthService);
+  private readonly socketService = inject(SocketService);
+  private readonly notificationService = inject(NotificationService);
+  private readonly apiUrl = `${environment.apiUrl}/price-alerts`;
+  private readonly destroy$ = new Subject<void>();
+  /** Ends the socket listeners of the current session on sign-out */
+  private readonly signOut$ = new Subject<void>();
+
+  private listenersReady = false;
+
+  /** Mandi rules currently past their threshold; they fire again only after resetting */
+  private readonly triggered = new Set<string>();
+
+  // ============================================
+  // State Signal
+  // ============================================
+
+  private readonly _state = signal<PriceAlertState>({
+    rules: [],
+    isLoading: false,
+    isSaving: false,
+    error: null,
+  });
+
+  // ============================================
+  // Computed Signals
+  // ============================================
+
+  /** All rules, newest first */
+  readonly rules = computed(() => this._state().rules);
+
+  /** Rules being evaluated */
+  readonly activeRules = computed(() => this._state().rules.filter((r) => r.isActive));
+
+  /** Loading state */
+  readonly isLoading = computed(() => this._state().isLoading);
+
+  /** Saving state */
+  readonly isSaving = computed(() => this._state().isSaving);
+
+  /** Error message */
+  readonly error = computed(() => this._state().error);
+
+  /** Units a threshold can be set in */
+  readonly units = ['kg', 'quintal', 'ton', 'dozen', 'piece', 'bundle'];
+
+  // ============================================
+  // Constructor
+  // ============================================
+
+  constructor() {
+    // Watch while signed in; rules belong to the signed-in user
+    effect(() => {
+      if (this.authService.isAuthenticated()) {
+        untracked(() => this.start());
+      } else {
+        this.signOut$.next();
+        this.listenersReady = false;
+        this.triggered.clear();
+        untracked(() => this.updateState({ rules: [], error: null }));
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  // ============================================
+  // Public Methods
+  // ============================================
+
+  /**
+   * Load rules and listen for price updates and listings. Safe to call repeatedly.
+   */
+  start(): void {
+    if (this._state().rules.length === 0 && !this._state().isLoading) {
+      this.loadRules();
+    }
+
+    this.socketService.connect();
+    // No socket exists until the user is authenticated
+    if (this.listenersReady || this.socketService.connectionState() === 'disconnected') return;
+    this.listenersReady = true;
+    this.setupSocketListeners();
+  }
+
+  /**
+   * Load the user's rules
+   */
+  loadRules(): void {
+    this.updateState({ isLoading: true, error: null });
+
+    if (!environment.production) {
+      of(null)
+        .pipe(delay(400))
+        .subscribe(() => this.updateState({ rules: this.getMockRules(), isLoading: false }));
+      return;
+    }
+
+    this.http
+      .get<PriceAlertRule[]>(this.apiUrl)
+      .pipe(
+        tap((rules) => this.updateState({ rules, isLoading: false })),
+        catchError((error) => {
+          this.updateState({ isLoading: false, error: 'Failed to load price alerts' });
+          return throwError(() => error);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Create a rule
+   */
+  createRule(dto: CreatePriceAlertDto): Observable<PriceAlertRule> {
+    this.updateState({ isSaving: true, error: null });
+
+    const request$: Observable<PriceAlertRule> = !environment.production
+      ? of<PriceAlertRule>({
+          ...dto,
+          id: `alert_${Date.now()}`,
+          isActive: true,
+          createdAt: new Date(),
+        }).pipe(delay(300))
+      : this.http.post<PriceAlertRule>(this.apiUrl, dto);
+
+    return request$.pipe(
+      tap((rule) => this.updateState({ rules: [rule, ...this._state().rules], isSaving: false })),
+      catchError((error) => {
+        this.updateState({ isSaving: false, error: 'Failed to create price alert' });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Pause or resume a rule
+   */
+  setActive(ruleId: string, isActive: boolean): Observable<PriceAlertRule> {
+    this.triggered.delete(ruleId);
+    return this.patchRule(ruleId, { isActive });
+  }
+
+  /**
+   * Delete a rule
+   */
+  deleteRule(ruleId: string): Observable<boolean> {
+    this.updateState({ isSaving: true, error: null });
+
+    const request$ = !environment.production
+      ? of(true).pipe(delay(300))
+      : this.http.delete<boolean>(`${this.apiUrl}/${ruleId}`);
+
+    return request$.pipe(
+      tap(() => {
+        this.triggered.delete(ruleId);
+        this.updateState({
+          rules: this._state().rules.filter((r) => r.id !== ruleId),
+          isSaving: false,
+        });
+      }),
+      catchError((error) => {
+        this.updateState({ isSaving: false, error: 'Failed to delete price alert' });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Check a mandi rate update against active mandi rules
+   */
+  evaluatePriceUpdate(event: PriceUpdateEvent): void {
+    // Price alerts switched off in settings; rules stay untriggered
+    if (!this.notificationService.isWanted(NotificationType.PRICE_ALERT)) return;
+
+    for (const rule of this.activeRules()) {
+      if (rule.source !== 'mandi') continue;
+
+      const unit = event.unit ?? rule.unit;
+      const forRule =
+        cropMatches(rule.cropName, event.cropName) &&
+        (!rule.mandiName || (!!event.mandiName && sameMandi(rule.mandiName, event.mandiName))) &&
+        convertPrice(event.newPrice, unit, rule.unit) !== null;
+
+      // Other crops and mandis say nothing about this rule
+      if (!forRule) continue;
+
+      // Back on the other side of the threshold: alert again next time it crosses
+      if (!this.crossesThreshold(rule, event.newPrice, unit)) {
+        this.triggered.delete(rule.id);
+        continue;
+      }
+      if (this.triggered.has(rule.id)) continue;
+
+      this.triggered.add(rule.id);
+      this.notify(rule, {
+        title: `Price Alert: ${event.cropName}`,
+        message: `${event.cropName} at ${event.mandiName ?? 'the mandi'} is ${rule.condition} ₹${rule.threshold}/${rule.unit}: now ₹${event.newPrice}/${event.unit ?? rule.unit}`,
+        actionUrl: '/farmer/price-history',
+        actionLabel: 'View Prices',
+        metadata: { ruleId: rule.id, cropId: event.cropId, price: event.newPrice },
+        icon: event.newPrice >= event.oldPrice ? 'trending_up' : 'trending_down',
+      });
+    }
+  }
+
+  /**
+   * Check a new marketplace listing against active listing rules
+   */
+  evaluateListing(listing: ListingEvent): void {
+    if (!this.notificationService.isWanted(NotificationType.PRICE_ALERT)) return;
+
+    for (const rule of this.activeRules()) {
+      const matches =
+        rule.source === 'listing' &&
+        cropMatches(rule.cropName, listing.cropName) &&
+        (!rule.organicOnly || listing.isOrganic) &&
+        (!rule.location || listing.farmerLocation.toLowerCase().includes(rule.location.toLowerCase())) &&
+        this.crossesThreshold(rule, listing.price, listing.unit);
+
+      if (!matches) continue;
+
+      this.notify(rule, {
+        title: `New Listing: ${listing.cropName}`,
+        message: `${listing.farmerName} (${listing.farmerLocation}) listed ${listing.quantity} ${listing.unit} at ₹${listing.price}/${listing.unit}`,
+        actionUrl: `/marketplace/crop/${listing.cropId}`,
+        actionLabel: 'View Listing',
+        metadata: { ruleId: rule.id, cropId: listing.cropId, price: listing.price },
+        icon: 'storefront',
+      });
+    }
+  }
+
+  /**
+   * Human-readable summary of a rule
+   */
+  describe(rule: PriceAlertRule): string {
+    const subject =
+      rule.source === 'mandi'
+        ? `${rule.cropName} in ${rule.mandiName || 'any mandi'}`
+        : `Any listing of ${rule.organicOnly ? 'organic ' : ''}${rule.cropName}${rule.location ? ` from ${rule.location}` : ''}`;
+    return `${subject} ${rule.condition === 'above' ? 'above' : 'under'} ₹${rule.threshold.toLocaleString('en-IN')}/${rule.unit}`;
+  }
+
+  // ============================================
+  // Socket Listeners
+  // ============================================
+
+  private setupSocketListeners(): void {
+    this.socketService
+      .on('price:update')
+      .pipe(
+        catchError(() => EMPTY),
+        takeUntil(this.signOut$),
+        takeUntil(this.destroy$)
+      )
+      .subscribe((event) => this.evaluatePriceUpdate(event));
+
+    this.socketService
+      .on('listing:new')
+      .pipe(
+        catchError(() => EMPTY),
+        takeUntil(this.signOut$),
+        takeUntil(this.destroy$)
+      )
+      .subscribe((listing) => this.evaluateListing(listing));
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private updateState(partial: Partial<PriceAlertState>): void {
+    this._state.update((state) => ({ ...state, ...partial }));
+  }
+
+  private patchRule(ruleId: string, changes: Partial<PriceAlertRule>): Observable<PriceAlertRule> {
+    const current = this._state().rules.find((r) => r.id === ruleId);
+    if (!current) return throwError(() => new Error('Price alert not found'));
+
+    const request$ = !environment.production
+      ? of<PriceAlertRule>({ ...current, ...changes }).pipe(delay(200))
+      : this.http.patch<PriceAlertRule>(`${this.apiUrl}/${ruleId}`, changes);
+
+    return request$.pipe(
+      tap((rule) => this.replaceRule(rule)),
+      catchError((error) => {
+        this.updateState({ error: 'Failed to update price alert' });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  private replaceRule(rule: PriceAlertRule): void {
+    this.updateState({
+      rules: this._state().rules.map((r) => (r.id === rule.id ? rule : r)),
+    });
+  }
+
+  /** Compare in the rule's unit; prices in unrelated units never match */
+  private crossesThreshold(rule: PriceAlertRule, price: number, unit: string): boolean {
+    const converted = convertPrice(price, unit, rule.unit);
+    if (converted === null) return false;
+    return rule.condition === 'above' ? converted > rule.threshold : converted < rule.threshold;
+  }
+
+  private notify(
+    rule: PriceAlertRule,
+    content: {
+      title: string;
+      message: string;
+      icon: string;
+      actionUrl: string;
+      actionLabel: string;
+      metadata: Record<string, unknown>;
+    }
+  ): void {
+    this.notificationService.deliver({
+      ...content,
+      type: NotificationType.PRICE_ALERT,
+      priority: NotificationPriority.HIGH,
+    });
+    this.replaceRule({ ...rule, lastTriggeredAt: new Date() });
+  }
+
+  private getMockRules(): PriceAlertRule[] {
+    const now = Date.now();
+
+    return [
+      {
+        id: 'alert_1',
+        source: 'mandi',
+        cropName: 'Onion',
+        mandiName: 'Lasalgaon Mandi',
+        condition: 'above',
+        threshold: 2400,
+        unit: 'quintal',
+        isActive: true,
+        createdAt: new Date(now - 3 * 24 * 60 * 60 * 1000),
+      },
+      {
+        id: 'alert_2',
+        source: 'listing',
+        cropName: 'Turmeric',
+        condition: 'below',
+        threshold: 90,
+        unit: 'kg',
+        organicOnly: true,
+        isActive: true,
+        createdAt: new Date(now - 6 * 24 * 60 * 60 * 1000),
+        lastTriggeredAt: new Date(now - 2 * 24 * 60 * 60 * 1000),
+      },
+    ];
+  }
+}
+
+// ============================================
+// Matching Helpers
+// ============================================
+
+function normalize(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\bmandi\b/g, '')
+    .replace(/[^\p{L}\p{N} ]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => word.replace(/(es|s)$/, ''))
+    .join(' ');
+}
+
+/** "Onion" matches "Onions" and "Red Onion"; "Turmeric" matches "Organic Turmeric Powder" */
+function cropMatches(ruleCrop: string, cropName: string): boolean {
+  const wanted = normalize(ruleCrop);
+  return !!wanted && ` ${normalize(cropName)} `.includes(` ${wanted} `);
+}
+
+function sameMandi(a: string, b: string): boolean {
+  return normalize(a) === normalize(b);
+}
+
+function convertPrice(price: number, from: string, to: string): number | null {
+  if (from === to) return price;
+
+  const fromKg = KG_PER_UNIT[from];
+  const toKg = KG_PER_UNIT[to];
+  if (!fromKg || !toKg) return null;
+
+  return (price / fromKg) * toKg;
+}
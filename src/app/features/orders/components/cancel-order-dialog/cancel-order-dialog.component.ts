@@ -19,6 +19,8 @@ import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatInputModule } from '@angular/material/input';
 
 import { Order } from '../../services/orders.service';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
 
 interface DialogData {
   order: Order;
@@ -41,6 +43,8 @@ interface CancelReason {
     MatRadioModule,
     MatFormFieldModule,
     MatInputModule,
+    LocaleNumberPipe,
+    TranslatePipe,
   ],
   templateUrl: './cancel-order-dialog.component.html',
   styleUrl: './cancel-order-dialog.component.scss',
@@ -0,0 +1,120 @@
+/**
+ * Delivery Map Component
+ * ======================
+ * Leaflet map of a delivery in progress: the vehicle, the route still ahead
+ * and the drop-off point. Tiles come from the layer set in the environment
+ * and are cached by the service worker, so visited areas render offline.
+ */
+
+import {
+  Component,
+  ChangeDetectionStrategy,
+  input,
+  effect,
+  ElementRef,
+  viewChild,
+  AfterViewInit,
+  OnDestroy,
+} from '@angular/core';
+import * as L from 'leaflet';
+
+import { environment } from '@environments/environment';
+import { LatLngLike } from '@shared/services/geo-distance';
+import { TrackingPosition } from '../../services/order-tracking.service';
+
+const toLatLng = (point: LatLngLike): L.LatLngTuple => [point.latitude, point.longitude];
+
+@Component({
+  selector: 'smc-delivery-map',
+  standalone: true,
+  templateUrl: './delivery-map.component.html',
+  styleUrl: './delivery-map.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class DeliveryMapComponent implements AfterViewInit, OnDestroy {
+  readonly position = input<TrackingPosition | null>(null);
+  readonly route = input<LatLngLike[]>([]);
+  readonly destination = input<LatLngLike | null>(null);
+
+  private readonly mapContainer = viewChild<ElementRef<HTMLDivElement>>('mapContainer');
+
+  private map: L.Map | null = null;
+  private vehicleMarker: L.Marker | null = null;
+  private destinationMarker: L.Marker | null = null;
+  private routeLine: L.Polyline | null = null;
+  /** Fit the whole delivery once, then leave panning to the user */
+  private hasFitted = false;
+
+  constructor() {
+    effect(() => {
+      const position = this.position();
+      const route = this.route();
+      const destination = this.destination();
+
+      if (this.map) {
+        this.updateLayers(position, route, destination);
+      }
+    });
+  }
+
+  ngAfterViewInit(): void {
+    const container = this.mapContainer()?.nativeElement;
+    if (!container) return;
+
+    const { tileUrl, attribution, maxZoom, defaultCenter, defaultZoom } = environment.map;
+    this.map = L.map(container, { center: defaultCenter, zoom: defaultZoom });
+    // CORS tiles can be cached by the service worker without opaque-response padding
+    L.tileLayer(tileUrl, { attribution, maxZoom, crossOrigin: true }).addTo(this.map);
+
+    this.updateLayers(this.position(), this.route(), this.destination());
+  }
+
+  ngOnDestroy(): void {
+    this.map?.remove();
+    this.map = null;
+  }
+
+  private updateLayers(position: TrackingPosition | null, route: LatLngLike[], destination: LatLngLike | null): void {
+    const map = this.map;
+    if (!map) return;
+
+    if (destination) {
+      this.destinationMarker ??= L.marker(toLatLng(destination), {
+        icon: this.icon('place', 'destination'),
+        title: 'Drop-off',
+      }).addTo(map);
+      this.destinationMarker.setLatLng(toLatLng(destination));
+    }
+
+    if (position) {
+      this.vehicleMarker ??= L.marker(toLatLng(position), {
+        icon: this.icon('local_shipping', 'vehicle'),
+        title: 'Delivery vehicle',
+        zIndexOffset: 1000,
+      }).addTo(map);
+      this.vehicleMarker.setLatLng(toLatLng(position));
+    }
+
+    const line = [position, ...route].filter((point): point is LatLngLike => !!point).map(toLatLng);
+    this.routeLine ??= L.polyline([], { color: '#2d6a4f', weight: 4, dashArray: '8 6' }).addTo(map);
+    this.routeLine.setLatLngs(line);
+
+    const points = [...line, ...(destination ? [toLatLng(destination)] : [])];
+    if (!this.hasFitted && points.length > 1) {
+      map.fitBounds(L.latLngBounds(points), { padding: [32, 32] });
+      this.hasFitted = true;
+    } else if (!this.hasFitted && points.length === 1) {
+      map.setView(points[0], 14);
+    }
+  }
+
+  /** Material icon markers; Leaflet's default PNG icons do not survive bundling */
+  private icon(name: string, className: string): L.DivIcon {
+    return L.divIcon({
+      html: `<span class="material-icons">${name}</span>`,
+      className: `smc-map-marker ${className}`,
+      iconSize: [36, 36],
+      iconAnchor: [18, 18],
+    });
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Dispute Thread Component
+ * ========================
+ * Conversation between the buyer, the farmer and the admin handling a
+ * dispute, with workflow steps shown inline and a reply box while the
+ * dispute is active. Shared by the order detail and admin dispute pages.
+ */
+
+import { Component, ChangeDetectionStrategy, input, output, signal, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+
+import {
+  Dispute,
+  DisputeParticipant,
+  DISPUTE_STATUS_CONFIG,
+  DISPUTE_TYPE_CONFIG,
+  REFUND_TYPE_CONFIG,
+  isDisputeActive,
+} from '../../services/dispute.service';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
+
+@Component({
+  selector: 'smc-dispute-thread',
+  standalone: true,
+  imports: [CommonModule, FormsModule, MatButtonModule, MatIconModule, MatFormFieldModule, MatInputModule, LocaleDatePipe, LocaleNumberPipe, TranslatePipe],
+  templateUrl: './dispute-thread.component.html',
+  styleUrl: './dispute-thread.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class DisputeThreadComponent {
+  readonly dispute = input.required<Dispute>();
+  readonly currentUserId = input<string | null>(null);
+  readonly isSending = input(false);
+
+  readonly send = output<string>();
+
+  readonly DISPUTE_STATUS_CONFIG = DISPUTE_STATUS_CONFIG;
+  readonly DISPUTE_TYPE_CONFIG = DISPUTE_TYPE_CONFIG;
+  readonly REFUND_TYPE_CONFIG = REFUND_TYPE_CONFIG;
+
+  readonly draft = signal('');
+
+  readonly messages = computed(() => this.dispute().messages ?? []);
+  readonly canReply = computed(() => isDisputeActive(this.dispute()));
+
+  isOwn(author: DisputeParticipant): boolean {
+    return author.id === this.currentUserId();
+  }
+
+  roleLabel(author: DisputeParticipant): string {
+    return author.role === 'ADMIN' ? 'Support' : author.role === 'FARMER' ? 'Farmer' : 'Buyer';
+  }
+
+  onSend(): void {
+    const body = this.draft().trim();
+    if (!body || this.isSending()) return;
+    this.send.emit(body);
+  }
+
+  /** Called by the host once the reply is posted */
+  clearDraft(): void {
+    this.draft.set('');
+  }
+}
@@ -5,6 +5,9 @@
 
 export * from './order-card/order-card.component';
 export * from './cancel-order-dialog/cancel-order-dialog.component';
+export * from './raise-dispute-dialog/raise-dispute-dialog.component';
+export * from './dispute-thread/dispute-thread.component';
 
 
 
+export * from './delivery-map/delivery-map.component';
@@ -12,7 +12,7 @@ import {
   output,
   computed,
 } from '@angular/core';
-import { CommonModule, DatePipe, CurrencyPipe } from '@angular/common';
+import { CommonModule } from '@angular/common';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
@@ -28,6 +28,9 @@ import {
   ORDER_STATUS_CONFIG,
   PAYMENT_STATUS_CONFIG,
 } from '../../services/orders.service';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
 
 @Component({
   selector: 'smc-order-card',
@@ -41,8 +44,9 @@ import {
     MatMenuModule,
     MatTooltipModule,
     MatDividerModule,
-    DatePipe,
-    CurrencyPipe,
+    LocaleDatePipe,
+    LocaleNumberPipe,
+    TranslatePipe,
   ],
   templateUrl: './order-card.component.html',
   styleUrl: './order-card.component.scss',
@@ -0,0 +1,94 @@
+/**
+ * Raise Dispute Dialog Component
+ * ==============================
+ * Dialog for raising a dispute on an order: issue type, description and
+ * up to five photos as evidence. Photos upload as soon as they are picked.
+ */
+
+import { Component, ChangeDetectionStrategy, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialogRef, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatRadioModule } from '@angular/material/radio';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+
+import { PhotoUploads } from '@shared/services/photo-uploads';
+import { Order } from '../../services/orders.service';
+import {
+  DisputeType,
+  RaiseDisputeRequest,
+  DISPUTE_TYPE_CONFIG,
+  MAX_DISPUTE_EVIDENCE,
+} from '../../services/dispute.service';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
+
+interface DialogData {
+  order: Order;
+}
+
+export interface RaiseDisputeDialogResult {
+  confirmed: boolean;
+  request?: RaiseDisputeRequest;
+}
+
+const MIN_DESCRIPTION_LENGTH = 20;
+
+@Component({
+  selector: 'smc-raise-dispute-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    MatRadioModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatProgressSpinnerModule,
+    LocaleNumberPipe,
+    TranslatePipe,
+  ],
+  templateUrl: './raise-dispute-dialog.component.html',
+  styleUrl: './raise-dispute-dialog.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class RaiseDisputeDialogComponent {
+  readonly dialogRef = inject(MatDialogRef<RaiseDisputeDialogComponent, RaiseDisputeDialogResult>);
+  readonly data: DialogData = inject(MAT_DIALOG_DATA);
+
+  readonly types = Object.values(DisputeType).map((value) => ({ value, ...DISPUTE_TYPE_CONFIG[value] }));
+  readonly MAX_DISPUTE_EVIDENCE = MAX_DISPUTE_EVIDENCE;
+  readonly MIN_DESCRIPTION_LENGTH = MIN_DESCRIPTION_LENGTH;
+
+  selectedType: DisputeType | '' = '';
+  description = '';
+
+  readonly photos = new PhotoUploads(MAX_DISPUTE_EVIDENCE);
+
+  canSubmit(): boolean {
+    return !!this.selectedType && this.description.trim().length >= MIN_DESCRIPTION_LENGTH && !this.photos.isUploading();
+  }
+
+  onCancel(): void {
+    this.dialogRef.close({ confirmed: false });
+  }
+
+  onConfirm(): void {
+    if (!this.canSubmit()) return;
+
+    this.dialogRef.close({
+      confirmed: true,
+      request: {
+        type: this.selectedType as DisputeType,
+        description: this.description.trim(),
+        evidence: this.photos.uploaded(),
+      },
+    });
+  }
+}
@@ -1,21 +1,73 @@
 /**
  * Order Details Component
  * =======================
- * Displays detailed order information with timeline.
+ * Displays detailed order information with timeline. Buyers and farmers
+ * can raise a dispute on the order and follow it in the dispute thread.
+ * The tracking route adds a live map of the delivery with its ETA. Once
+ * delivered, both parties are prompted to rate each other and the produce.
  */
 
-import { Component, ChangeDetectionStrategy, input, signal, inject, OnInit } from '@angular/core';
+import {
+  Component,
+  ChangeDetectionStrategy,
+  input,
+  inject,
+  computed,
+  viewChild,
+  effect,
+  untracked,
+  OnInit,
+  OnDestroy,
+  DestroyRef,
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterLink } from '@angular/router';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
-import { MatStepperModule } from '@angular/material/stepper';
 import { MatDividerModule } from '@angular/material/divider';
-import { MatChipsModule } from '@angular/material/chips';
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { filter, switchMap } from 'rxjs';
 
-import { OrdersService, Order } from '../../services/orders.service';
+import { AuthService } from '@core/services/auth.service';
+import {
+  OrdersService,
+  OrderStatus,
+  OrderTimeline,
+  ORDER_STATUS_CONFIG,
+  PAYMENT_STATUS_CONFIG,
+  TRACKABLE_STATUSES,
+} from '../../services/orders.service';
+import { DisputeService, isDisputeActive } from '../../services/dispute.service';
+import { OrderTrackingService } from '../../services/order-tracking.service';
+import {
+  RaiseDisputeDialogComponent,
+  RaiseDisputeDialogResult,
+} from '../../components/raise-dispute-dialog/raise-dispute-dialog.component';
+import { DisputeThreadComponent } from '../../components/dispute-thread/dispute-thread.component';
+import { DeliveryMapComponent } from '../../components/delivery-map/delivery-map.component';
+import { ReviewService, reviewSubjectsFor } from '@features/reviews/services/review.service';
+import {
+  ReviewDialogComponent,
+  ReviewDialogResult,
+} from '@features/reviews/components/review-dialog/review-dialog.component';
+import { StarRatingComponent } from '@features/reviews/components/star-rating/star-rating.component';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
+
+/** Orders that can be disputed: the farmer has committed to them */
+const DISPUTABLE_STATUSES = [
+  OrderStatus.CONFIRMED,
+  OrderStatus.PROCESSING,
+  OrderStatus.SHIPPED,
+  OrderStatus.OUT_FOR_DELIVERY,
+  OrderStatus.DELIVERED,
+  OrderStatus.RETURNED,
+];
 
 @Component({
   selector: 'smc-order-details',
@@ -27,33 +79,196 @@ import { OrdersService, Order } from '../../services/orders.service';
     MatButtonModule,
     MatIconModule,
     MatProgressSpinnerModule,
-    MatStepperModule,
     MatDividerModule,
-    MatChipsModule,
+    MatDialogModule,
+    MatSnackBarModule,
+    DisputeThreadComponent,
+    DeliveryMapComponent,
+    StarRatingComponent,
+    LocaleDatePipe,
+    LocaleNumberPipe,
+    TranslatePipe,
   ],
   templateUrl: './order-details.component.html',
   styleUrl: './order-details.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
-export class OrderDetailsComponent implements OnInit {
+export class OrderDetailsComponent implements OnInit, OnDestroy {
   private readonly ordersService = inject(OrdersService);
+  private readonly disputeService = inject(DisputeService);
+  private readonly trackingService = inject(OrderTrackingService);
+  private readonly reviewService = inject(ReviewService);
+  private readonly authService = inject(AuthService);
+  private readonly dialog = inject(MatDialog);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly destroyRef = inject(DestroyRef);
+
+  private readonly thread = viewChild(DisputeThreadComponent);
 
   readonly id = input.required<string>();
 
-  readonly isLoading = signal(true);
-  readonly order = signal<Order | null>(null);
+  /** Route data: set on /orders/:id/tracking */
+  readonly showTracking = input(false);
+
+  readonly order = this.ordersService.selectedOrder;
+  readonly isLoading = this.ordersService.isLoading;
+  readonly isFarmerView = this.ordersService.isFarmerView;
+  readonly dispute = this.disputeService.selectedDispute;
+  readonly isDisputeUpdating = this.disputeService.isUpdating;
+  readonly currentUserId = computed(() => this.authService.currentUser()?.id ?? null);
+
+  readonly vehiclePosition = this.trackingService.position;
+  readonly remainingRoute = this.trackingService.route;
+  readonly dropOff = this.trackingService.destination;
+  readonly eta = this.trackingService.eta;
+  readonly remainingKm = this.trackingService.remainingKm;
+  readonly isDelivered = this.trackingService.isDelivered;
+  readonly trackingError = this.trackingService.error;
+
+  /** The order is on its way and can be followed on the map */
+  readonly canTrack = computed(() => {
+    const order = this.order();
+    return !!order && TRACKABLE_STATUSES.includes(order.orderStatus);
+  });
+
+  readonly statusConfig = computed(() => {
+    const order = this.order();
+    return order ? ORDER_STATUS_CONFIG[order.orderStatus] : null;
+  });
+
+  readonly paymentConfig = computed(() => {
+    const order = this.order();
+    return order ? PAYMENT_STATUS_CONFIG[order.paymentStatus] : null;
+  });
+
+  /** Other party (buyer if farmer view, farmer if buyer view) */
+  readonly otherParty = computed(() => {
+    const order = this.order();
+    if (!order) return null;
+    return this.isFarmerView() ? order.buyer : order.farmer;
+  });
+
+  /** Timeline, newest first */
+  readonly timeline = computed(() => [...(this.order()?.timeline ?? [])].reverse());
+
+  /** Buyer or farmer may open a dispute while none is active */
+  readonly canRaiseDispute = computed(() => {
+    const order = this.order();
+    const dispute = this.dispute();
+    if (!order || this.authService.isAdmin()) return false;
+    return DISPUTABLE_STATUSES.includes(order.orderStatus) && !(dispute && isDisputeActive(dispute));
+  });
+
+  /** Reviews the current user left on this order */
+  readonly myReviews = computed(() => this.reviewService.orderReviews(this.id()));
+
+  /** Who and what is still to be rated once the order is delivered */
+  readonly pendingReviewSubjects = computed(() => {
+    const order = this.order();
+    if (!order || order.orderStatus !== OrderStatus.DELIVERED || this.authService.isAdmin()) return [];
+
+    const reviewed = this.myReviews();
+    return reviewSubjectsFor(order, this.isFarmerView()).filter(
+      (subject) => !reviewed.some((r) => r.subjectType === subject.type && r.subjectId === subject.id)
+    );
+  });
+
+  constructor() {
+    // Follow the delivery once the order has loaded; start() ignores repeat calls
+    effect(() => {
+      const order = this.order();
+      if (!this.showTracking() || !order || order.id !== this.id()) return;
+      untracked(() => this.trackingService.start(order));
+    });
+  }
 
   ngOnInit(): void {
-    this.loadOrder();
+    this.ordersService.loadOrderDetails(this.id());
+    this.disputeService.loadOrderDispute(this.id());
+    this.reviewService.loadOrderReviews(this.id());
+  }
+
+  ngOnDestroy(): void {
+    this.trackingService.stop();
+  }
+
+  timelineConfig(entry: OrderTimeline): { icon: string; label: string; color: string } {
+    return entry.disputeId
+      ? { icon: 'gavel', label: 'Dispute', color: 'dispute' }
+      : ORDER_STATUS_CONFIG[entry.status];
+  }
+
+  // ============================================
+  // Dispute Actions
+  // ============================================
+
+  onRaiseDispute(): void {
+    const order = this.order();
+    if (!order) return;
+
+    this.dialog
+      .open<RaiseDisputeDialogComponent, unknown, RaiseDisputeDialogResult>(RaiseDisputeDialogComponent, {
+        width: '520px',
+        data: { order },
+        panelClass: 'smc-dialog',
+        ariaLabel: 'Raise a dispute',
+      })
+      .afterClosed()
+      .pipe(
+        filter((result): result is Required<RaiseDisputeDialogResult> => !!result?.confirmed && !!result.request),
+        switchMap((result) => this.disputeService.raiseDispute(order, result.request)),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe({
+        next: () => {
+          this.snackBar.open('Dispute raised. Our team will respond in the dispute thread.', 'Close', {
+            duration: 4000,
+          });
+        },
+        error: () => {
+          this.snackBar.open('Failed to raise dispute', 'Close', { duration: 5000 });
+        },
+      });
   }
 
-  private loadOrder(): void {
-    this.isLoading.set(true);
-    
-    // Simulate API call
-    setTimeout(() => {
-      // In real app, fetch from service
-      this.isLoading.set(false);
-    }, 500);
+  onSendMessage(body: string): void {
+    const dispute = this.dispute();
+    if (!dispute) return;
+
+    this.disputeService
+      .sendMessage(dispute.id, body)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => this.thread()?.clearDraft(),
+        error: () => this.snackBar.open('Failed to send message', 'Close', { duration: 5000 }),
+      });
+  }
+
+  // ============================================
+  // Reviews
+  // ============================================
+
+  onRateOrder(): void {
+    const order = this.order();
+    const subjects = this.pendingReviewSubjects();
+    if (!order || subjects.length === 0) return;
+
+    this.dialog
+      .open<ReviewDialogComponent, unknown, ReviewDialogResult>(ReviewDialogComponent, {
+        width: '520px',
+        data: { order, subjects },
+        panelClass: 'smc-dialog',
+        ariaLabel: 'Rate this order',
+      })
+      .afterClosed()
+      .pipe(
+        filter((result): result is Required<ReviewDialogResult> => !!result?.confirmed && !!result.requests?.length),
+        switchMap((result) => this.reviewService.submitReviews(order.id, result.requests)),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe({
+        next: () => this.snackBar.open('Thanks for your review!', 'Close', { duration: 3000 }),
+        error: () => this.snackBar.open('Failed to submit review', 'Close', { duration: 5000 }),
+      });
   }
 }
@@ -17,7 +17,7 @@ import {
   OnInit,
   DestroyRef,
 } from '@angular/core';
-import { CommonModule, DatePipe, CurrencyPipe } from '@angular/common';
+import { CommonModule } from '@angular/common';
 import { Router } from '@angular/router';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
@@ -39,6 +39,8 @@ import {
 } from '../../services/orders.service';
 import { OrderCardComponent } from '../../components/order-card/order-card.component';
 import { CancelOrderDialogComponent } from '../../components/cancel-order-dialog/cancel-order-dialog.component';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
 
 @Component({
   selector: 'smc-orders-list',
@@ -54,9 +56,9 @@ import { CancelOrderDialogComponent } from '../../components/cancel-order-dialog
     MatSnackBarModule,
     MatDialogModule,
     MatBadgeModule,
-    DatePipe,
-    CurrencyPipe,
     OrderCardComponent,
+    LocaleNumberPipe,
+    TranslatePipe,
   ],
   templateUrl: './orders-list.component.html',
   styleUrl: './orders-list.component.scss',
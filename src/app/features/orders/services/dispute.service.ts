@@ -0,0 +1,812 @@
+/**
+ * Dispute Service
+ * ===============
+ * Signals-based service for order disputes. Buyers and farmers raise a
+ * dispute on an order and talk it through with an admin; admins assign,
+ * escalate, resolve (with a full, partial or no refund) and close it.
+ * Every workflow step is mirrored on the order's timeline and refunds
+ * update its payment status.
+ */
+
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, of, delay, tap, catchError, throwError, map } from 'rxjs';
+import { environment } from '@environments/environment';
+import { AuthService } from '@core/services/auth.service';
+import { UserRole } from '@domain/models/user.model';
+import { OrdersService, Order, PaymentStatus } from './orders.service';
+
+// ============================================
+// Enums & Types
+// ============================================
+
+export enum DisputeStatus {
+  OPEN = 'OPEN',
+  IN_PROGRESS = 'IN_PROGRESS',
+  RESOLVED = 'RESOLVED',
+  ESCALATED = 'ESCALATED',
+  CLOSED = 'CLOSED',
+}
+
+export enum DisputeType {
+  QUALITY = 'QUALITY',
+  PAYMENT = 'PAYMENT',
+  DELIVERY = 'DELIVERY',
+  FRAUD = 'FRAUD',
+  OTHER = 'OTHER',
+}
+
+export enum RefundType {
+  FULL = 'FULL',
+  PARTIAL = 'PARTIAL',
+  NONE = 'NONE',
+}
+
+export type DisputePriority = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+// ============================================
+// Interfaces
+// ============================================
+
+/** Buyer or farmer on either side of a dispute */
+export interface DisputeParty {
+  readonly id: string;
+  readonly name: string;
+  readonly role: 'FARMER' | 'BUYER';
+}
+
+/** Anyone taking part in the dispute thread */
+export interface DisputeParticipant {
+  readonly id: string;
+  readonly name: string;
+  readonly role: DisputeParty['role'] | 'ADMIN';
+}
+
+/** Photo attached to a dispute or reply */
+export interface DisputeEvidence {
+  readonly url: string;
+  readonly fileName: string;
+  readonly thumbnailUrl?: string;
+}
+
+export interface DisputeMessage {
+  readonly id: string;
+  /** `event` entries record workflow steps and are written by the system */
+  readonly kind: 'message' | 'event';
+  readonly author: DisputeParticipant;
+  readonly body: string;
+  readonly attachments: DisputeEvidence[];
+  readonly createdAt: Date;
+}
+
+export interface DisputeResolution {
+  readonly refundType: RefundType;
+  readonly refundAmount: number;
+  readonly note: string;
+  readonly resolvedBy: DisputeParticipant;
+  readonly resolvedAt: Date;
+}
+
+export interface Dispute {
+  readonly id: string;
+  readonly orderId: string;
+  readonly orderNumber?: string;
+  readonly type: DisputeType;
+  readonly status: DisputeStatus;
+  readonly description: string;
+  readonly raisedBy: DisputeParty;
+  readonly against: DisputeParty;
+  /** Order value in dispute; caps the refund */
+  readonly amount: number;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+  readonly priority: DisputePriority;
+  readonly evidence?: DisputeEvidence[];
+  readonly assignee?: DisputeParticipant;
+  /** Thread, oldest first; present once the dispute is loaded in full */
+  readonly messages?: DisputeMessage[];
+  readonly resolution?: DisputeResolution;
+}
+
+export interface RaiseDisputeRequest {
+  readonly type: DisputeType;
+  readonly description: string;
+  readonly evidence: DisputeEvidence[];
+}
+
+export interface ResolveDisputeRequest {
+  readonly refundType: RefundType;
+  /** Ignored unless the refund is partial */
+  readonly refundAmount: number;
+  readonly note: string;
+}
+
+interface DisputeState {
+  disputes: Dispute[];
+  selectedDispute: Dispute | null;
+  assignees: DisputeParticipant[];
+  isLoading: boolean;
+  isUpdating: boolean;
+  error: string | null;
+}
+
+// ============================================
+// Status Configurations
+// ============================================
+
+export const DISPUTE_STATUS_CONFIG: Record<DisputeStatus, { label: string; icon: string; color: string }> = {
+  [DisputeStatus.OPEN]: { label: 'Open', icon: 'report', color: 'warn' },
+  [DisputeStatus.IN_PROGRESS]: { label: 'In Review', icon: 'manage_search', color: 'primary' },
+  [DisputeStatus.ESCALATED]: { label: 'Escalated', icon: 'priority_high', color: 'error' },
+  [DisputeStatus.RESOLVED]: { label: 'Resolved', icon: 'task_alt', color: 'success' },
+  [DisputeStatus.CLOSED]: { label: 'Closed', icon: 'lock', color: 'muted' },
+};
+
+export const DISPUTE_TYPE_CONFIG: Record<DisputeType, { label: string; icon: string; hint: string }> = {
+  [DisputeType.QUALITY]: {
+    label: 'Quality issue',
+    icon: 'grade',
+    hint: 'Produce damaged, spoilt or not matching the listed grade',
+  },
+  [DisputeType.PAYMENT]: {
+    label: 'Payment issue',
+    icon: 'payment',
+    hint: 'Payment not received, charged twice or wrong amount',
+  },
+  [DisputeType.DELIVERY]: {
+    label: 'Delivery issue',
+    icon: 'local_shipping',
+    hint: 'Not delivered, delivered late or short quantity',
+  },
+  [DisputeType.FRAUD]: {
+    label: 'Fraud',
+    icon: 'warning',
+    hint: 'Fake listing or suspicious behaviour',
+  },
+  [DisputeType.OTHER]: { label: 'Other', icon: 'help', hint: 'Anything else about this order' },
+};
+
+export const REFUND_TYPE_CONFIG: Record<RefundType, { label: string; paymentStatus: PaymentStatus | null }> = {
+  [RefundType.FULL]: { label: 'Full refund', paymentStatus: PaymentStatus.REFUNDED },
+  [RefundType.PARTIAL]: { label: 'Partial refund', paymentStatus: PaymentStatus.PARTIALLY_REFUNDED },
+  [RefundType.NONE]: { label: 'No refund', paymentStatus: null },
+};
+
+/** Most photos attached to a dispute */
+export const MAX_DISPUTE_EVIDENCE = 5;
+
+const PRIORITY_ORDER: DisputePriority[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+/** Dispute is still being worked on */
+export function isDisputeActive(dispute: Pick<Dispute, 'status'>): boolean {
+  return dispute.status !== DisputeStatus.RESOLVED && dispute.status !== DisputeStatus.CLOSED;
+}
+
+@Injectable({ providedIn: 'root' })
+export class DisputeService {
+  private readonly http = inject(HttpClient);
+  private readonly authService = inject(AuthService);
+  private readonly ordersService = inject(OrdersService);
+  private readonly apiUrl = `${environment.apiUrl}/disputes`;
+
+  /** Dev-mode store so actions survive navigation */
+  private mockDisputes: Dispute[] | null = null;
+
+  // ============================================
+  // State
+  // ============================================
+
+  private readonly _state = signal<DisputeState>({
+    disputes: [],
+    selectedDispute: null,
+    assignees: [],
+    isLoading: false,
+    isUpdating: false,
+    error: null,
+  });
+
+  readonly disputes = computed(() => this._state().disputes);
+  readonly selectedDispute = computed(() => this._state().selectedDispute);
+  readonly assignees = computed(() => this._state().assignees);
+  readonly isLoading = computed(() => this._state().isLoading);
+  readonly isUpdating = computed(() => this._state().isUpdating);
+  readonly error = computed(() => this._state().error);
+
+  /** Disputes still being worked on, most urgent first */
+  readonly activeDisputes = computed(() =>
+    this._state()
+      .disputes.filter(isDisputeActive)
+      .sort(
+        (a, b) =>
+          PRIORITY_ORDER.indexOf(b.priority) - PRIORITY_ORDER.indexOf(a.priority) ||
+          a.createdAt.getTime() - b.createdAt.getTime()
+      )
+  );
+
+  /** Count of disputes per status */
+  readonly statusCounts = computed(() => {
+    const counts = Object.fromEntries(Object.values(DisputeStatus).map((s) => [s, 0])) as Record<
+      DisputeStatus,
+      number
+    >;
+    this._state().disputes.forEach((d) => counts[d.status]++);
+    return counts;
+  });
+
+  // ============================================
+  // Loading
+  // ============================================
+
+  /**
+   * Load disputes visible to the current user: all of them for admins,
+   * otherwise those the user raised or is party to
+   */
+  loadDisputes(): void {
+    this.updateState({ isLoading: true, error: null });
+
+    if (!environment.production) {
+      of(null)
+        .pipe(delay(600))
+        .subscribe(() => {
+          const userId = this.authService.currentUser()?.id;
+          const disputes = this.authService.isAdmin()
+            ? this.getMockStore()
+            : this.getMockStore().filter((d) => d.raisedBy.id === userId || d.against.id === userId);
+          this.updateState({ disputes, isLoading: false });
+        });
+      return;
+    }
+
+    this.http
+      .get<Dispute[]>(this.apiUrl)
+      .pipe(
+        map((disputes) => disputes.map(reviveDispute)),
+        tap((disputes) => this.updateState({ disputes, isLoading: false })),
+        catchError((error) => {
+          this.updateState({ isLoading: false, error: 'Failed to load disputes' });
+          return throwError(() => error);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Load one dispute with its thread
+   */
+  loadDispute(disputeId: string): void {
+    this.updateState({ isLoading: true, error: null, selectedDispute: null });
+
+    if (!environment.production) {
+      of(null)
+        .pipe(delay(400))
+        .subscribe(() => {
+          const dispute = this.getMockStore().find((d) => d.id === disputeId) ?? null;
+          this.updateState({
+            selectedDispute: dispute,
+            isLoading: false,
+            error: dispute ? null : 'Dispute not found',
+          });
+        });
+      return;
+    }
+
+    this.http
+      .get<Dispute>(`${this.apiUrl}/${disputeId}`)
+      .pipe(
+        map(reviveDispute),
+        tap((dispute) => this.updateState({ selectedDispute: dispute, isLoading: false })),
+        catchError((error) => {
+          this.updateState({ isLoading: false, error: 'Failed to load dispute' });
+          return throwError(() => error);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Select the latest dispute on an order, if any
+   */
+  loadOrderDispute(orderId: string): void {
+    this.updateState({ isLoading: true, error: null, selectedDispute: null });
+
+    if (!environment.production) {
+      of(null)
+        .pipe(delay(300))
+        .subscribe(() => {
+          const dispute = this.getMockStore()
+            .filter((d) => d.orderId === orderId)
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+          this.updateState({ selectedDispute: dispute ?? null, isLoading: false });
+        });
+      return;
+    }
+
+    this.http
+      .get<Dispute[]>(this.apiUrl, { params: { orderId } })
+      .pipe(
+        map((disputes) => disputes.map(reviveDispute)),
+        tap((disputes) => {
+          const latest = disputes.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+          this.updateState({ selectedDispute: latest ?? null, isLoading: false });
+        }),
+        catchError((error) => {
+          this.updateState({ isLoading: false, error: 'Failed to load dispute' });
+          return throwError(() => error);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Load admins a dispute can be assigned to
+   */
+  loadAssignees(): void {
+    if (!environment.production) {
+      const user = this.authService.currentUser();
+      const team: DisputeParticipant[] = [
+        { id: 'admin_2', name: 'Priya Nair', role: 'ADMIN' },
+        { id: 'admin_3', name: 'Arjun Mehta', role: 'ADMIN' },
+      ];
+      this.updateState({
+        assignees: user ? [{ id: user.id, name: this.authService.displayName(), role: 'ADMIN' }, ...team] : team,
+      });
+      return;
+    }
+
+    this.http
+      .get<DisputeParticipant[]>(`${this.apiUrl}/assignees`)
+      .pipe(catchError(() => of([])))
+      .subscribe((assignees) => this.updateState({ assignees }));
+  }
+
+  // ============================================
+  // Buyer & Farmer Actions
+  // ============================================
+
+  /**
+   * Raise a dispute on an order against the other party
+   */
+  raiseDispute(order: Order, request: RaiseDisputeRequest): Observable<Dispute> {
+    this.updateState({ isUpdating: true, error: null });
+
+    const onRaised = (dispute: Dispute) => {
+      this.upsert(dispute);
+      this.updateState({ selectedDispute: dispute, isUpdating: false });
+      this.ordersService.applyDisputeEvent(order.id, {
+        disputeId: dispute.id,
+        description: `Dispute raised: ${DISPUTE_TYPE_CONFIG[dispute.type].label}`,
+        updatedBy: dispute.raisedBy.name,
+      });
+    };
+
+    if (!environment.production) {
+      const raisedBy = this.currentParticipant() as DisputeParty;
+      const isBuyer = raisedBy.role === 'BUYER';
+      const counterparty = isBuyer ? order.farmer : order.buyer;
+      const now = new Date();
+      const dispute: Dispute = {
+        id: `dispute_${Date.now()}`,
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        type: request.type,
+        status: DisputeStatus.OPEN,
+        description: request.description,
+        raisedBy,
+        against: { id: counterparty.id, name: counterparty.name, role: isBuyer ? 'FARMER' : 'BUYER' },
+        amount: order.totalAmount,
+        createdAt: now,
+        updatedAt: now,
+        priority: request.type === DisputeType.FRAUD ? 'HIGH' : 'MEDIUM',
+        evidence: request.evidence,
+        messages: [
+          {
+            id: `msg_${Date.now()}`,
+            kind: 'message',
+            author: raisedBy,
+            body: request.description,
+            attachments: request.evidence,
+            createdAt: now,
+          },
+        ],
+      };
+      this.mockDisputes = [dispute, ...this.getMockStore()];
+      return of(dispute).pipe(delay(800), tap(onRaised));
+    }
+
+    return this.http.post<Dispute>(this.apiUrl, { orderId: order.id, ...request }).pipe(
+      map(reviveDispute),
+      tap(onRaised),
+      catchError((error) => {
+        this.updateState({ isUpdating: false, error: 'Failed to raise dispute' });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Post a reply to the dispute thread
+   */
+  sendMessage(disputeId: string, body: string): Observable<DisputeMessage> {
+    this.updateState({ isUpdating: true, error: null });
+
+    const onSent = (message: DisputeMessage) => {
+      const dispute = this.findDispute(disputeId);
+      if (dispute) {
+        this.upsert({
+          ...dispute,
+          messages: [...(dispute.messages ?? []), message],
+          updatedAt: message.createdAt,
+        });
+      }
+      this.updateState({ isUpdating: false });
+    };
+
+    if (!environment.production) {
+      const message: DisputeMessage = {
+        id: `msg_${Date.now()}`,
+        kind: 'message',
+        author: this.currentParticipant(),
+        body,
+        attachments: [],
+        createdAt: new Date(),
+      };
+      return of(message).pipe(delay(300), tap(onSent));
+    }
+
+    return this.http.post<DisputeMessage>(`${this.apiUrl}/${disputeId}/messages`, { body }).pipe(
+      map((message) => ({ ...message, createdAt: new Date(message.createdAt) })),
+      tap(onSent),
+      catchError((error) => {
+        this.updateState({ isUpdating: false, error: 'Failed to send message' });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  // ============================================
+  // Admin Actions
+  // ============================================
+
+  /**
+   * Hand the dispute to an admin for review
+   */
+  assign(disputeId: string, assignee: DisputeParticipant): Observable<Dispute> {
+    return this.applyAction(disputeId, 'assign', { assigneeId: assignee.id }, (dispute) => ({
+      changes: {
+        assignee,
+        status: dispute.status === DisputeStatus.OPEN ? DisputeStatus.IN_PROGRESS : dispute.status,
+      },
+      event: `Assigned to ${assignee.name} for review`,
+    }));
+  }
+
+  /**
+   * Raise priority and flag for senior review
+   */
+  escalate(disputeId: string, note: string): Observable<Dispute> {
+    return this.applyAction(disputeId, 'escalate', { note }, (dispute) => ({
+      changes: {
+        status: DisputeStatus.ESCALATED,
+        priority: PRIORITY_ORDER[Math.min(PRIORITY_ORDER.indexOf(dispute.priority) + 1, PRIORITY_ORDER.length - 1)],
+      },
+      event: note ? `Escalated: ${note}` : 'Escalated for senior review',
+    }));
+  }
+
+  /**
+   * Resolve with a refund decision; refunds update the order's payment status
+   */
+  resolve(disputeId: string, request: ResolveDisputeRequest): Observable<Dispute> {
+    return this.applyAction(disputeId, 'resolve', request, (dispute) => {
+      const refundAmount =
+        request.refundType === RefundType.FULL
+          ? dispute.amount
+          : request.refundType === RefundType.PARTIAL
+            ? Math.min(request.refundAmount, dispute.amount)
+            : 0;
+      const outcome =
+        refundAmount > 0
+          ? `${REFUND_TYPE_CONFIG[request.refundType].label} of ₹${refundAmount.toLocaleString('en-IN')}`
+          : 'no refund';
+
+      return {
+        changes: {
+          status: DisputeStatus.RESOLVED,
+          resolution: {
+            refundType: request.refundType,
+            refundAmount,
+            note: request.note,
+            resolvedBy: this.currentParticipant(),
+            resolvedAt: new Date(),
+          },
+        },
+        event: `Resolved with ${outcome.toLowerCase()}${request.note ? `: ${request.note}` : ''}`,
+        paymentStatus: REFUND_TYPE_CONFIG[request.refundType].paymentStatus,
+      };
+    });
+  }
+
+  /**
+   * Close the dispute; no further replies are accepted
+   */
+  close(disputeId: string, note: string): Observable<Dispute> {
+    return this.applyAction(disputeId, 'close', { note }, () => ({
+      changes: { status: DisputeStatus.CLOSED },
+      event: note ? `Closed: ${note}` : 'Closed',
+    }));
+  }
+
+  /**
+   * Clear error
+   */
+  clearError(): void {
+    this.updateState({ error: null });
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private updateState(partial: Partial<DisputeState>): void {
+    this._state.update((state) => ({ ...state, ...partial }));
+  }
+
+  /**
+   * Run an admin workflow step. The server applies the change and returns the
+   * dispute; in development the change is applied locally. Either way the
+   * order's timeline and payment status are brought in line.
+   */
+  private applyAction(
+    disputeId: string,
+    action: 'assign' | 'escalate' | 'resolve' | 'close',
+    body: object,
+    step: (dispute: Dispute) => {
+      changes: Partial<Dispute>;
+      event: string;
+      paymentStatus?: PaymentStatus | null;
+    }
+  ): Observable<Dispute> {
+    const current = this.findDispute(disputeId);
+    if (!current) {
+      return throwError(() => new Error('Dispute not found'));
+    }
+
+    this.updateState({ isUpdating: true, error: null });
+    const { changes, event, paymentStatus } = step(current);
+    const admin = this.currentParticipant();
+
+    const onApplied = (dispute: Dispute) => {
+      this.upsert(dispute);
+      this.updateState({ isUpdating: false });
+      this.ordersService.applyDisputeEvent(dispute.orderId, {
+        disputeId,
+        description: `Dispute ${event.charAt(0).toLowerCase()}${event.slice(1)}`,
+        updatedBy: admin.name,
+        paymentStatus: paymentStatus ?? undefined,
+      });
+    };
+
+    if (!environment.production) {
+      const now = new Date();
+      const updated: Dispute = {
+        ...current,
+        ...changes,
+        updatedAt: now,
+        messages: [
+          ...(current.messages ?? []),
+          { id: `msg_${Date.now()}`, kind: 'event', author: admin, body: event, attachments: [], createdAt: now },
+        ],
+      };
+      return of(updated).pipe(delay(600), tap(onApplied));
+    }
+
+    return this.http.post<Dispute>(`${this.apiUrl}/${disputeId}/${action}`, body).pipe(
+      map(reviveDispute),
+      tap(onApplied),
+      catchError((error) => {
+        this.updateState({ isUpdating: false, error: `Failed to ${action} dispute` });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  private findDispute(disputeId: string): Dispute | undefined {
+    const { selectedDispute, disputes } = this._state();
+    return selectedDispute?.id === disputeId ? selectedDispute : disputes.find((d) => d.id === disputeId);
+  }
+
+  /** Replace or add the dispute in the list and selection */
+  private upsert(dispute: Dispute): void {
+    const { disputes, selectedDispute } = this._state();
+    const exists = disputes.some((d) => d.id === dispute.id);
+
+    this.updateState({
+      disputes: exists ? disputes.map((d) => (d.id === dispute.id ? dispute : d)) : [dispute, ...disputes],
+      selectedDispute: selectedDispute?.id === dispute.id ? dispute : selectedDispute,
+    });
+
+    if (this.mockDisputes) {
+      this.mockDisputes = this.mockDisputes.some((d) => d.id === dispute.id)
+        ? this.mockDisputes.map((d) => (d.id === dispute.id ? dispute : d))
+        : [dispute, ...this.mockDisputes];
+    }
+  }
+
+  private currentParticipant(): DisputeParticipant {
+    const user = this.authService.currentUser();
+    const role = user?.role === UserRole.FARMER ? 'FARMER' : user?.role === UserRole.ADMIN ? 'ADMIN' : 'BUYER';
+    return { id: user?.id ?? 'guest', name: this.authService.displayName(), role };
+  }
+
+  // ============================================
+  // Mock Data
+  // ============================================
+
+  private getMockStore(): Dispute[] {
+    this.mockDisputes ??= this.getMockDisputes();
+    return this.mockDisputes;
+  }
+
+  private getMockDisputes(): Dispute[] {
+    const hour = 60 * 60 * 1000;
+    const now = Date.now();
+    const admin: DisputeParticipant = { id: 'admin_2', name: 'Priya Nair', role: 'ADMIN' };
+    const buyer: DisputeParty = { id: 'buyer_2', name: 'Hotel Grand Palace', role: 'BUYER' };
+    const farmer: DisputeParty = { id: 'farmer_2', name: 'Suresh Kumar', role: 'FARMER' };
+    const photo = (id: string, fileName: string): DisputeEvidence => ({
+      url: `https://images.unsplash.com/${id}?w=800`,
+      thumbnailUrl: `https://images.unsplash.com/${id}?w=200`,
+      fileName,
+    });
+    const evidence = [photo('photo-1586201375761-83865001e31c', 'broken-grains.jpg')];
+
+    return [
+      {
+        id: 'dispute_1',
+        orderId: 'order_2',
+        orderNumber: 'SMC-2024-002',
+        type: DisputeType.QUALITY,
+        status: DisputeStatus.IN_PROGRESS,
+        description: 'About 60 kg of the rice has broken grains and does not match the Grade A listing.',
+        raisedBy: buyer,
+        against: farmer,
+        amount: 43350,
+        createdAt: new Date(now - 30 * hour),
+        updatedAt: new Date(now - 4 * hour),
+        priority: 'HIGH',
+        evidence,
+        assignee: admin,
+        messages: [
+          {
+            id: 'msg_1',
+            kind: 'message',
+            author: buyer,
+            body: 'About 60 kg of the rice has broken grains and does not match the Grade A listing.',
+            attachments: evidence,
+            createdAt: new Date(now - 30 * hour),
+          },
+          {
+            id: 'msg_2',
+            kind: 'event',
+            author: admin,
+            body: `Assigned to ${admin.name} for review`,
+            attachments: [],
+            createdAt: new Date(now - 26 * hour),
+          },
+          {
+            id: 'msg_3',
+            kind: 'message',
+            author: farmer,
+            body: 'The lot was checked before dispatch. Some breakage can happen in transit, I am willing to settle the 60 kg.',
+            attachments: [],
+            createdAt: new Date(now - 20 * hour),
+          },
+          {
+            id: 'msg_4',
+            kind: 'message',
+            author: admin,
+            body: 'Thanks both. I have asked Agri Express for the handover photos and will update you shortly.',
+            attachments: [],
+            createdAt: new Date(now - 4 * hour),
+          },
+        ],
+      },
+      {
+        id: 'dispute_2',
+        orderId: 'order_5',
+        orderNumber: 'SMC-2024-005',
+        type: DisputeType.DELIVERY,
+        status: DisputeStatus.OPEN,
+        description: 'Delivery is two days late and the delivery partner is not answering calls.',
+        raisedBy: { id: 'buyer_5', name: 'Green Grocers', role: 'BUYER' },
+        against: { id: 'farmer_5', name: 'Vijay Reddy', role: 'FARMER' },
+        amount: 15600,
+        createdAt: new Date(now - 3 * hour),
+        updatedAt: new Date(now - 3 * hour),
+        priority: 'MEDIUM',
+        evidence: [],
+        messages: [
+          {
+            id: 'msg_5',
+            kind: 'message',
+            author: { id: 'buyer_5', name: 'Green Grocers', role: 'BUYER' },
+            body: 'Delivery is two days late and the delivery partner is not answering calls.',
+            attachments: [],
+            createdAt: new Date(now - 3 * hour),
+          },
+        ],
+      },
+      {
+        id: 'dispute_3',
+        orderId: 'order_1',
+        orderNumber: 'SMC-2024-001',
+        type: DisputeType.PAYMENT,
+        status: DisputeStatus.ESCALATED,
+        description: 'Buyer marked the order paid but the settlement has not reached my account.',
+        raisedBy: { id: 'farmer_1', name: 'Ramesh Patil', role: 'FARMER' },
+        against: { id: 'buyer_1', name: 'Fresh Mart Stores', role: 'BUYER' },
+        amount: 9992,
+        createdAt: new Date(now - 50 * hour),
+        updatedAt: new Date(now - 12 * hour),
+        priority: 'CRITICAL',
+        evidence: [],
+        assignee: { id: 'admin_3', name: 'Arjun Mehta', role: 'ADMIN' },
+        messages: [
+          {
+            id: 'msg_6',
+            kind: 'message',
+            author: { id: 'farmer_1', name: 'Ramesh Patil', role: 'FARMER' },
+            body: 'Buyer marked the order paid but the settlement has not reached my account.',
+            attachments: [],
+            createdAt: new Date(now - 50 * hour),
+          },
+          {
+            id: 'msg_7',
+            kind: 'event',
+            author: { id: 'admin_3', name: 'Arjun Mehta', role: 'ADMIN' },
+            body: 'Escalated: payment gateway reference needs finance review',
+            attachments: [],
+            createdAt: new Date(now - 12 * hour),
+          },
+        ],
+      },
+      {
+        id: 'dispute_4',
+        orderId: 'order_4',
+        orderNumber: 'SMC-2024-004',
+        type: DisputeType.QUALITY,
+        status: DisputeStatus.RESOLVED,
+        description: 'Weight discrepancy in delivered goods.',
+        raisedBy: { id: 'buyer_4', name: 'Metro Foods', role: 'BUYER' },
+        against: { id: 'farmer_4', name: 'Mahesh Sharma', role: 'FARMER' },
+        amount: 3200,
+        createdAt: new Date(now - 5 * 24 * hour),
+        updatedAt: new Date(now - 2 * 24 * hour),
+        priority: 'LOW',
+        evidence: [],
+        assignee: admin,
+        resolution: {
+          refundType: RefundType.PARTIAL,
+          refundAmount: 800,
+          note: 'Refund for 25 kg short weight',
+          resolvedBy: admin,
+          resolvedAt: new Date(now - 2 * 24 * hour),
+        },
+        messages: [],
+      },
+    ];
+  }
+}
+
+function reviveDispute(dispute: Dispute): Dispute {
+  return {
+    ...dispute,
+    createdAt: new Date(dispute.createdAt),
+    updatedAt: new Date(dispute.updatedAt),
+    messages: dispute.messages?.map((m) => ({ ...m, createdAt: new Date(m.createdAt) })),
+    resolution: dispute.resolution && {
+      ...dispute.resolution,
+      resolvedAt: new Date(dispute.resolution.resolvedAt),
+    },
+  };
+}
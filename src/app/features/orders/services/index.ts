@@ -4,6 +4,8 @@
  */
 
 export * from './orders.service';
+export * from './dispute.service';
+export * from './order-tracking.service';
 
 
 
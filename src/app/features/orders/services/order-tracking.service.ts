@@ -0,0 +1,274 @@
+/**
+ * Order Tracking Service
+ * ======================
+ * Live delivery tracking for the order being viewed. Follows `order:location`
+ * socket events, keeps the vehicle position and the remaining route,
+ * recomputes the ETA and records OUT_FOR_DELIVERY / DELIVERED on the order
+ * timeline.
+ */
+
+import { Injectable, inject, signal, computed, OnDestroy } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { EMPTY, Observable, Subscription, catchError, filter, interval, map, merge, take } from 'rxjs';
+import { environment } from '@environments/environment';
+import { SocketService, OrderLocationEvent } from '@infrastructure/services/socket.service';
+import { LatLngLike, distanceKm, pathLengthKm } from '@shared/services/geo-distance';
+import { Order, OrderStatus, OrdersService } from './orders.service';
+
+// ============================================
+// Interfaces
+// ============================================
+
+export interface TrackingPosition extends LatLngLike {
+  /** Degrees clockwise from north */
+  readonly heading?: number;
+  readonly timestamp: Date;
+}
+
+interface OrderTrackingState {
+  orderId: string | null;
+  position: TrackingPosition | null;
+  /** Points still ahead of the vehicle */
+  route: LatLngLike[];
+  destination: LatLngLike | null;
+  remainingKm: number | null;
+  eta: Date | null;
+  isDelivered: boolean;
+  error: string | null;
+}
+
+/** Used when the partner reports no speed or is standing still */
+const DEFAULT_SPEED_KMH = 25;
+const MIN_SPEED_KMH = 5;
+
+@Injectable({ providedIn: 'root' })
+export class OrderTrackingService implements OnDestroy {
+  private readonly http = inject(HttpClient);
+  private readonly socketService = inject(SocketService);
+  private readonly ordersService = inject(OrdersService);
+  private readonly apiUrl = `${environment.apiUrl}/orders`;
+
+  private subscription: Subscription | null = null;
+
+  // ============================================
+  // State Signal
+  // ============================================
+
+  private readonly _state = signal<OrderTrackingState>({
+    orderId: null,
+    position: null,
+    route: [],
+    destination: null,
+    remainingKm: null,
+    eta: null,
+    isDelivered: false,
+    error: null,
+  });
+
+  // ============================================
+  // Computed Signals
+  // ============================================
+
+  /** Last reported vehicle position */
+  readonly position = computed(() => this._state().position);
+
+  /** Remaining route, from the vehicle to the drop-off */
+  readonly route = computed(() => this._state().route);
+
+  /** Drop-off point */
+  readonly destination = computed(() => this._state().destination);
+
+  /** Remaining distance in km */
+  readonly remainingKm = computed(() => this._state().remainingKm);
+
+  /** Estimated arrival, recomputed on every position update */
+  readonly eta = computed(() => this._state().eta);
+
+  /** The partner has reported the delivery */
+  readonly isDelivered = computed(() => this._state().isDelivered);
+
+  /** A position has been received */
+  readonly hasFix = computed(() => this._state().position !== null);
+
+  /** Error message */
+  readonly error = computed(() => this._state().error);
+
+  // ============================================
+  // Lifecycle
+  // ============================================
+
+  ngOnDestroy(): void {
+    this.stop();
+  }
+
+  // ============================================
+  // Public Methods
+  // ============================================
+
+  /**
+   * Start following an order. Replaces any order tracked before.
+   */
+  start(order: Order): void {
+    if (this._state().orderId === order.id && this.subscription) return;
+    this.stop();
+
+    this.updateState({
+      orderId: order.id,
+      destination: order.deliveryInfo.location ?? null,
+      isDelivered: order.orderStatus === OrderStatus.DELIVERED,
+    });
+
+    if (!environment.production) {
+      this.subscription = this.simulateDelivery(order).subscribe((event) => this.handleLocation(event));
+      return;
+    }
+
+    this.socketService.connect();
+    this.socketService.joinOrderRoom(order.id);
+
+    // Last known position first, then live updates
+    const lastKnown$ = this.http.get<OrderLocationEvent | null>(`${this.apiUrl}/${order.id}/tracking`).pipe(
+      filter((event): event is OrderLocationEvent => !!event),
+      catchError(() => {
+        this.updateState({ error: 'Live location is not available yet' });
+        return EMPTY;
+      })
+    );
+    const live$ = this.socketService.on('order:location').pipe(
+      filter((event) => event.orderId === order.id),
+      catchError(() => EMPTY)
+    );
+
+    this.subscription = merge(lastKnown$, live$).subscribe((event) => this.handleLocation(event));
+  }
+
+  /**
+   * Stop following the current order
+   */
+  stop(): void {
+    const { orderId } = this._state();
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+
+    if (orderId && environment.production) {
+      this.socketService.leaveOrderRoom(orderId);
+    }
+
+    this.updateState({
+      orderId: null,
+      position: null,
+      route: [],
+      destination: null,
+      remainingKm: null,
+      eta: null,
+      isDelivered: false,
+      error: null,
+    });
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private updateState(partial: Partial<OrderTrackingState>): void {
+    this._state.update((state) => ({ ...state, ...partial }));
+  }
+
+  private handleLocation(event: OrderLocationEvent): void {
+    const { orderId, destination, isDelivered: wasDelivered } = this._state();
+    if (!orderId) return;
+
+    const timestamp = new Date(event.timestamp);
+    const position: TrackingPosition = {
+      latitude: event.latitude,
+      longitude: event.longitude,
+      heading: event.heading,
+      timestamp,
+    };
+
+    const route = event.route
+      ? event.route.map(([latitude, longitude]) => ({ latitude, longitude }))
+      : this.routeAhead(position);
+
+    // The route may stop short of the drop-off; count the last stretch as straight
+    const last = route[route.length - 1] ?? position;
+    const remainingKm =
+      pathLengthKm([position, ...route]) + (destination ? distanceKm(last, destination) : 0);
+
+    const isDelivered = wasDelivered || event.status === OrderStatus.DELIVERED;
+    const speedKmh = event.speed && event.speed >= MIN_SPEED_KMH ? event.speed : DEFAULT_SPEED_KMH;
+
+    this.updateState({
+      position,
+      route,
+      remainingKm: isDelivered ? 0 : remainingKm,
+      eta: isDelivered ? null : new Date(timestamp.getTime() + (remainingKm / speedKmh) * 3600000),
+      isDelivered,
+      error: null,
+    });
+
+    if (event.status === OrderStatus.OUT_FOR_DELIVERY || event.status === OrderStatus.DELIVERED) {
+      this.ordersService.applyTrackingStatus(orderId, {
+        status: event.status,
+        timestamp,
+        description: event.status === OrderStatus.DELIVERED ? 'Delivered at the drop-off point' : 'Out for delivery',
+      });
+    }
+  }
+
+  /**
+   * Drop the route points the vehicle has already passed: everything up to
+   * and including the point closest to it.
+   */
+  private routeAhead(position: LatLngLike): LatLngLike[] {
+    const { route } = this._state();
+    if (route.length === 0) return route;
+
+    let closest = 0;
+    route.forEach((point, index) => {
+      if (distanceKm(position, point) < distanceKm(position, route[closest])) closest = index;
+    });
+    return route.slice(closest + 1);
+  }
+
+  /**
+   * Dev mode: drive from a few km out to the drop-off, one step every 2 seconds
+   */
+  private simulateDelivery(order: Order): Observable<OrderLocationEvent> {
+    const destination = order.deliveryInfo.location;
+    if (!destination || order.orderStatus === OrderStatus.DELIVERED) return EMPTY;
+
+    const steps = 30;
+    const start = { latitude: destination.latitude + 0.035, longitude: destination.longitude + 0.025 };
+    // An L-shaped drive: south first, then west
+    const corner = { latitude: destination.latitude, longitude: start.longitude };
+    const path = [...this.interpolate(start, corner, steps / 2), ...this.interpolate(corner, destination, steps / 2)];
+    const asTuple = (point: LatLngLike): [number, number] => [point.latitude, point.longitude];
+
+    return interval(2000).pipe(
+      take(path.length),
+      map((index): OrderLocationEvent => ({
+        orderId: order.id,
+        latitude: path[index].latitude,
+        longitude: path[index].longitude,
+        heading: index < steps / 2 ? 180 : 270,
+        speed: 20 + Math.random() * 15,
+        route: index === 0 ? path.slice(1).map(asTuple) : undefined,
+        status:
+          index === 0
+            ? OrderStatus.OUT_FOR_DELIVERY
+            : index === path.length - 1
+              ? OrderStatus.DELIVERED
+              : undefined,
+        timestamp: new Date(),
+      }))
+    );
+  }
+
+  private interpolate(from: LatLngLike, to: LatLngLike, count: number): LatLngLike[] {
+    return Array.from({ length: count }, (_, i) => ({
+      latitude: from.latitude + ((to.latitude - from.latitude) * (i + 1)) / count,
+      longitude: from.longitude + ((to.longitude - from.longitude) * (i + 1)) / count,
+    }));
+  }
+}
@@ -6,11 +6,12 @@
  */
 
 import { Injectable, inject, signal, computed } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
+import { HttpClient, HttpHeaders } from '@angular/common/http';
 import { Observable, of, delay, tap, catchError, throwError } from 'rxjs';
 import { environment } from '@environments/environment';
 import { AuthService } from '@core/services/auth.service';
-import { UserRole } from '@domain/models/user.model';
+import { OFFLINE_QUEUE_HEADER, OfflineQueuedError } from '@infrastructure/services/request-queue.service';
+import { GeoLocation, UserRole } from '@domain/models/user.model';
 
 // ============================================
 // Enums & Types
@@ -81,6 +82,8 @@ export interface DeliveryInfo {
   readonly actualDelivery?: Date;
   readonly trackingId?: string;
   readonly deliveryPartner?: string;
+  /** Drop-off point, used by live tracking */
+  readonly location?: GeoLocation;
 }
 
 export interface OrderTimeline {
@@ -88,6 +91,8 @@ export interface OrderTimeline {
   readonly timestamp: Date;
   readonly description: string;
   readonly updatedBy?: string;
+  /** Set on entries recording a dispute step */
+  readonly disputeId?: string;
 }
 
 export interface Order {
@@ -144,6 +149,9 @@ export const PAYMENT_STATUS_CONFIG: Record<PaymentStatus, { label: string; icon:
   [PaymentStatus.PARTIALLY_REFUNDED]: { label: 'Partially Refunded', icon: 'replay', color: 'warn' },
 };
 
+/** Orders on their way to the buyer, which can be tracked live */
+export const TRACKABLE_STATUSES = [OrderStatus.SHIPPED, OrderStatus.OUT_FOR_DELIVERY];
+
 @Injectable({ providedIn: 'root' })
 export class OrdersService {
   private readonly http = inject(HttpClient);
@@ -310,7 +318,11 @@ export class OrdersService {
       );
     }
 
-    return this.http.patch<Order>(`${this.apiUrl}/${orderId}/status`, { status }).pipe(
+    const headers = new HttpHeaders({
+      [OFFLINE_QUEUE_HEADER]: `Mark order ${ORDER_STATUS_CONFIG[status].label.toLowerCase()}`,
+    });
+
+    return this.http.patch<Order>(`${this.apiUrl}/${orderId}/status`, { status }, { headers }).pipe(
       tap((order) => {
         this.updateOrderInState(orderId, order);
         this.updateState({
@@ -319,6 +331,14 @@ export class OrdersService {
         });
       }),
       catchError((error) => {
+        if (error instanceof OfflineQueuedError) {
+          const order = this.updateOrderInState(orderId, { orderStatus: status });
+          this.updateState({
+            isUpdating: false,
+            successMessage: `You are offline. Status change to ${ORDER_STATUS_CONFIG[status].label} will sync when you reconnect.`,
+          });
+          return of(order);
+        }
         this.updateState({ isUpdating: false, error: 'Failed to update order status' });
         return throwError(() => error);
       })
@@ -365,6 +385,54 @@ export class OrdersService {
     return this.updateOrderStatus(orderId, OrderStatus.DELIVERED);
   }
 
+  /**
+   * Reflect a dispute step on the loaded order: adds a timeline entry and,
+   * for refunds, the new payment status. The server records the same change.
+   */
+  applyDisputeEvent(
+    orderId: string,
+    event: { disputeId: string; description: string; updatedBy?: string; paymentStatus?: PaymentStatus }
+  ): void {
+    const order = this.findLoadedOrder(orderId);
+    if (!order) return;
+
+    this.updateOrderInState(orderId, {
+      paymentStatus: event.paymentStatus ?? order.paymentStatus,
+      timeline: [
+        ...order.timeline,
+        {
+          status: order.orderStatus,
+          timestamp: new Date(),
+          description: event.description,
+          updatedBy: event.updatedBy,
+          disputeId: event.disputeId,
+        },
+      ],
+    });
+  }
+
+  /**
+   * Reflect a status reported by live delivery tracking on the loaded order.
+   * Each status is recorded on the timeline once; only orders in transit change.
+   */
+  applyTrackingStatus(
+    orderId: string,
+    event: { status: OrderStatus.OUT_FOR_DELIVERY | OrderStatus.DELIVERED; timestamp: Date; description: string }
+  ): void {
+    const order = this.findLoadedOrder(orderId);
+    if (!order || !TRACKABLE_STATUSES.includes(order.orderStatus)) return;
+    if (order.timeline.some((entry) => entry.status === event.status && !entry.disputeId)) return;
+
+    this.updateOrderInState(orderId, {
+      orderStatus: event.status,
+      deliveryInfo:
+        event.status === OrderStatus.DELIVERED
+          ? { ...order.deliveryInfo, actualDelivery: event.timestamp }
+          : order.deliveryInfo,
+      timeline: [...order.timeline, { status: event.status, timestamp: event.timestamp, description: event.description }],
+    });
+  }
+
   /**
    * Clear messages
    */
@@ -380,25 +448,34 @@ export class OrdersService {
     this._state.update((state) => ({ ...state, ...partial }));
   }
 
+  private findLoadedOrder(orderId: string): Order | null {
+    const { orders, selectedOrder } = this._state();
+    return selectedOrder?.id === orderId ? selectedOrder : orders.find((o) => o.id === orderId) ?? null;
+  }
+
   private updateOrderInState(orderId: string, updates: Partial<Order>): Order {
-    const orders = this._state().orders;
+    const { orders, selectedOrder } = this._state();
     const orderIndex = orders.findIndex((o) => o.id === orderId);
-    
-    if (orderIndex === -1) {
+    // The detail page may have loaded the order without the list
+    const order = orderIndex === -1 ? (selectedOrder?.id === orderId ? selectedOrder : null) : orders[orderIndex];
+
+    if (!order) {
       throw new Error('Order not found');
     }
 
-    const updatedOrder = { ...orders[orderIndex], ...updates, updatedAt: new Date() };
-    const updatedOrders = [...orders];
-    updatedOrders[orderIndex] = updatedOrder as Order;
+    const updatedOrder = { ...order, ...updates, updatedAt: new Date() } as Order;
 
-    this.updateState({ orders: updatedOrders });
+    if (orderIndex !== -1) {
+      const updatedOrders = [...orders];
+      updatedOrders[orderIndex] = updatedOrder;
+      this.updateState({ orders: updatedOrders });
+    }
 
-    if (this._state().selectedOrder?.id === orderId) {
-      this.updateState({ selectedOrder: updatedOrder as Order });
+    if (selectedOrder?.id === orderId) {
+      this.updateState({ selectedOrder: updatedOrder });
     }
 
-    return updatedOrder as Order;
+    return updatedOrder;
   }
 
   private getMockOrders(): Order[] {
@@ -453,6 +530,7 @@ export class OrdersService {
           estimatedDelivery: new Date(now + 2 * 24 * 60 * 60 * 1000),
           trackingId: 'TRK123456789',
           deliveryPartner: 'FastTrack Logistics',
+          location: { latitude: 18.9388, longitude: 72.8354, city: 'Mumbai', pincode: '400001' },
         },
         timeline: [
           { status: OrderStatus.PENDING, timestamp: new Date(now - 3 * 24 * 60 * 60 * 1000), description: 'Order placed' },
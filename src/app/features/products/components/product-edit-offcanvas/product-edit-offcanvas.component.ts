@@ -1,10 +1,11 @@
 /**
  * Product Edit Off-Canvas Component
  * ==================================
- * Side panel for quick editing of products
+ * Side panel for quick editing of products. Unsaved edits are kept as a
+ * draft shared with the full product form.
  */
 
-import { Component, ChangeDetectionStrategy, signal, inject, input, output, effect } from '@angular/core';
+import { Component, ChangeDetectionStrategy, signal, inject, input, output, effect, DestroyRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormBuilder, FormGroup, Validators, ReactiveFormsModule } from '@angular/forms';
 import { HttpClient } from '@angular/common/http';
@@ -21,6 +22,9 @@ import { catchError, throwError } from 'rxjs';
 
 import { Product } from '../../pages/product-list/product-list.component';
 import { environment } from '@environments/environment';
+import { DraftService, DraftSnapshot } from '@infrastructure/services/draft.service';
+import { StoredDraft } from '@infrastructure/services/offline-store.service';
+import { DraftBannerComponent } from '@shared/components/draft-banner/draft-banner.component';
 
 @Component({
   selector: 'smc-product-edit-offcanvas',
@@ -37,6 +41,7 @@ import { environment } from '@environments/environment';
     MatNativeDateModule,
     MatProgressSpinnerModule,
     MatSnackBarModule,
+    DraftBannerComponent,
   ],
   template: `
     <!-- Backdrop -->
@@ -60,6 +65,16 @@ import { environment } from '@environments/environment';
             <p>Loading product...</p>
           </div>
         } @else {
+          @if (draftOffer(); as offer) {
+            <smc-draft-banner
+              class="draft-offer"
+              [draft]="offer"
+              [serverVersion]="serverVersion()"
+              (resume)="onResumeDraft(offer)"
+              (discard)="onDiscardDraft(offer)"
+            />
+          }
+
           <form [formGroup]="editForm" class="edit-form">
             <!-- Product Name -->
             <mat-form-field appearance="outline" class="full-width">
@@ -250,6 +265,11 @@ import { environment } from '@environments/environment';
       color: #666;
     }
 
+    .draft-offer {
+      display: block;
+      margin-bottom: 1rem;
+    }
+
     .edit-form {
       display: flex;
       flex-direction: column;
@@ -301,6 +321,8 @@ export class ProductEditOffcanvasComponent {
   private readonly fb = inject(FormBuilder);
   private readonly http = inject(HttpClient);
   private readonly snackBar = inject(MatSnackBar);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly draftService = inject(DraftService);
 
   /** Product to edit */
   readonly product = input<Product | null>(null);
@@ -320,6 +342,15 @@ export class ProductEditOffcanvasComponent {
   /** Event emitted when panel is closed */
   readonly panelClosed = output<void>();
 
+  /** Server `updatedAt` of the product being edited */
+  readonly serverVersion = signal<string | null>(null);
+
+  /** Earlier draft of this product offered for resuming */
+  readonly draftOffer = signal<StoredDraft | null>(null);
+
+  /** Resumed draft; fields this panel does not edit are carried over from it */
+  private resumedDraft: StoredDraft | null = null;
+
   readonly categories = [
     { id: 'vegetables', name: 'Vegetables' },
     { id: 'fruits', name: 'Fruits' },
@@ -390,6 +421,14 @@ export class ProductEditOffcanvasComponent {
   private isManuallyClosing = false;
 
   constructor() {
+    this.draftService.autosave({
+      key: () => this.draftKey(),
+      form: 'product',
+      control: this.editForm,
+      snapshot: () => this.draftSnapshot(),
+      destroyRef: this.destroyRef,
+    });
+
     // Open panel when product is set
     effect(() => {
       const product = this.product();
@@ -492,6 +531,10 @@ export class ProductEditOffcanvasComponent {
 
   close(): void {
     console.log('[close] Closing off-canvas panel');
+    // Keep edits made since the last autosave
+    this.saveDraft();
+    this.draftOffer.set(null);
+    this.resumedDraft = null;
     this.isManuallyClosing = true;
     this.isOpen.set(false);
     this.editForm.reset();
@@ -566,6 +609,9 @@ export class ProductEditOffcanvasComponent {
         const stateInfo = this.states.find(s => s.label === stateName);
         const stateCode = stateInfo?.value || '';
 
+        this.serverVersion.set(productData.updatedAt ?? null);
+        this.offerDraft();
+
         // Format harvest date
         let harvestDate: Date | null = null;
         if (productData.harvestDate) {
@@ -665,9 +711,57 @@ export class ProductEditOffcanvasComponent {
       next: (response) => {
         this.isSaving.set(false);
         this.snackBar.open('Product updated successfully', 'Close', { duration: 3000 });
+        this.editForm.markAsPristine();
+        this.draftService.discard(`product:${product.id}`);
         this.productUpdated.emit(product);
         this.close();
       },
     });
   }
+
+  // ============================================
+  // Drafts
+  // ============================================
+
+  onResumeDraft(draft: StoredDraft): void {
+    this.resumedDraft = draft;
+    this.draftOffer.set(null);
+    this.editForm.patchValue(draft.values);
+    this.editForm.markAsDirty();
+  }
+
+  onDiscardDraft(draft: StoredDraft): void {
+    this.draftOffer.set(null);
+    this.draftService.discard(draft.key);
+  }
+
+  private draftKey(): string | null {
+    return this.isOpen() && this.currentProductId ? `product:${this.currentProductId}` : null;
+  }
+
+  private async offerDraft(): Promise<void> {
+    const key = this.draftKey();
+    this.draftOffer.set(key ? await this.draftService.get(key) : null);
+  }
+
+  /** Form contents for the draft, or null while nothing has changed */
+  private draftSnapshot(): DraftSnapshot | null {
+    if (!this.editForm.dirty) return null;
+
+    const values = this.editForm.getRawValue();
+    return {
+      title: values.name?.trim() || 'Untitled product',
+      values: { ...this.resumedDraft?.values, ...values },
+      files: this.resumedDraft?.files ?? [],
+      baseVersion: this.serverVersion(),
+    };
+  }
+
+  private saveDraft(): void {
+    const key = this.draftKey();
+    const snapshot = this.draftSnapshot();
+    if (key && snapshot) {
+      this.draftService.save(key, 'product', snapshot).catch((error) => console.error('Failed to save draft:', error));
+    }
+  }
 }
@@ -15,6 +15,7 @@ import { MatTabsModule } from '@angular/material/tabs';
 import { MatDividerModule } from '@angular/material/divider';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
 
 interface ProductDetail {
   id: string;
@@ -60,6 +61,7 @@ interface Bid {
     MatDividerModule,
     MatProgressSpinnerModule,
     MatSnackBarModule,
+    LocaleDatePipe,
   ],
   templateUrl: './product-detail.component.html',
   styleUrl: './product-detail.component.scss',
@@ -2,9 +2,12 @@
  * Product Form Page Component
  * ===========================
  * Add/Edit product form with image upload and validation.
+ * Unsaved changes, including images still waiting to upload, are kept as
+ * a draft and offered for resuming when the form is opened again.
  */
 
-import { Component, ChangeDetectionStrategy, input, computed, signal, inject, OnInit } from '@angular/core';
+import { Component, ChangeDetectionStrategy, input, computed, signal, inject, OnInit, DestroyRef } from '@angular/core';
+import { toObservable, takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { CommonModule } from '@angular/common';
 import { Router, RouterLink } from '@angular/router';
 import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
@@ -27,6 +30,10 @@ import { MatTooltipModule } from '@angular/material/tooltip';
 import { catchError, throwError } from 'rxjs';
 
 import { MediaUploadService } from '@core/services/media-upload.service';
+import { ConnectivityService } from '@infrastructure/services/connectivity.service';
+import { DraftService, DraftSnapshot } from '@infrastructure/services/draft.service';
+import { StoredDraft } from '@infrastructure/services/offline-store.service';
+import { DraftBannerComponent } from '@shared/components/draft-banner/draft-banner.component';
 import { environment } from '@environments/environment';
 
 interface Category {
@@ -42,6 +49,8 @@ interface UploadedImage {
   isUploading: boolean;
   progress: number;
   error?: string;
+  /** Local file, kept until the upload succeeds so drafts can retry it */
+  file?: File;
 }
 
 @Component({
@@ -66,6 +75,7 @@ interface UploadedImage {
     MatStepperModule,
     MatSnackBarModule,
     MatTooltipModule,
+    DraftBannerComponent,
   ],
   templateUrl: './product-form.component.html',
   styleUrl: './product-form.component.scss',
@@ -78,9 +88,17 @@ export class ProductFormComponent implements OnInit {
   private readonly snackBar = inject(MatSnackBar);
   private readonly mediaUploadService = inject(MediaUploadService);
   private readonly http = inject(HttpClient);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly draftService = inject(DraftService);
+  private readonly connectivity = inject(ConnectivityService);
 
   readonly productId = input<string>();
-  readonly isEditMode = computed(() => !!this.productId());
+  /** Route parameter of /products/edit/:id */
+  readonly id = input<string>();
+  private readonly editId = computed(() => this.productId() ?? this.id());
+  /** New-product draft to resume straight away (`?draft=` from the My Crops draft list) */
+  readonly draft = input<string>();
+  readonly isEditMode = computed(() => !!this.editId());
 
   readonly isLoading = signal(false);
   readonly isSaving = signal(false);
@@ -97,6 +115,15 @@ export class ProductFormComponent implements OnInit {
     this.uploadedImages().some(img => img.isUploading)
   );
 
+  /** Server `updatedAt` of the product being edited */
+  readonly serverVersion = signal<string | null>(null);
+
+  /** Earlier draft offered for resuming */
+  readonly draftOffer = signal<StoredDraft | null>(null);
+
+  private draftKey: string | null = null;
+  private imagesEdited = false;
+
   readonly categories: Category[] = [
     { id: 'vegetables', name: 'Vegetables', icon: '🥬' },
     { id: 'fruits', name: 'Fruits', icon: '🍎' },
@@ -178,9 +205,76 @@ export class ProductFormComponent implements OnInit {
   });
 
   ngOnInit(): void {
+    // Photos picked while offline stay in the form and upload on reconnect
+    this.connectivity.reconnected$
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(() => this.retryWaitingImages());
+
+    this.draftService.autosave({
+      key: () => this.draftKey,
+      form: 'product',
+      control: this.productForm,
+      changes: toObservable(this.uploadedImages),
+      snapshot: () => this.draftSnapshot(),
+      destroyRef: this.destroyRef,
+    });
+
     if (this.isEditMode()) {
+      this.draftKey = `product:${this.editId()}`;
       this.loadProduct();
+    } else {
+      this.draftKey = this.draftService.newKey('product');
+      const key = this.draft();
+      if (key) {
+        this.draftService.get(key).then((draft) => draft && this.onResumeDraft(draft));
+      } else {
+        this.draftService.latestNew('product').then((draft) => this.draftOffer.set(draft));
+      }
+    }
+  }
+
+  // ============================================
+  // Drafts
+  // ============================================
+
+  onResumeDraft(draft: StoredDraft): void {
+    const { images, ...values } = draft.values as { images?: { url: string; publicId: string }[] };
+
+    this.draftKey = draft.key;
+    this.draftOffer.set(null);
+    this.productForm.patchValue(values);
+    this.productForm.markAsDirty();
+
+    if (images) {
+      this.imagesEdited = true;
+      this.uploadedImages.set(images.map((img) => ({ ...img, isUploading: false, progress: 100 })));
     }
+    // Images that had not finished uploading are sent again
+    this.handleFiles(draft.files);
+  }
+
+  onDiscardDraft(draft: StoredDraft): void {
+    this.draftOffer.set(null);
+    this.draftService.discard(draft.key);
+  }
+
+  /** Form contents for the draft, or null while nothing has changed */
+  private draftSnapshot(): DraftSnapshot | null {
+    if (!this.productForm.dirty && !this.imagesEdited) return null;
+
+    const values = this.productForm.getRawValue();
+    const images = this.uploadedImages();
+    return {
+      title: values.name?.trim() || 'Untitled product',
+      values: {
+        ...values,
+        images: images
+          .filter((img) => !img.file)
+          .map(({ url, publicId }) => ({ url, publicId })),
+      },
+      files: images.filter((img) => img.file).map((img) => img.file!),
+      baseVersion: this.serverVersion(),
+    };
   }
 
   private loadProduct(): void {
@@ -203,6 +297,7 @@ export class ProductFormComponent implements OnInit {
         state: 'MH',
         pincode: '422001',
       });
+      this.serverVersion.set('2026-01-15T09:30:00.000Z');
       this.uploadedImages.set([
         { 
           url: 'https://images.unsplash.com/photo-1592924357228-91a4daadcfea?w=400',
@@ -212,9 +307,15 @@ export class ProductFormComponent implements OnInit {
         },
       ]);
       this.isLoading.set(false);
+      this.offerEditDraft();
     }, 500);
   }
 
+  private async offerEditDraft(): Promise<void> {
+    const draft = this.draftKey ? await this.draftService.get(this.draftKey) : null;
+    this.draftOffer.set(draft);
+  }
+
   onDragOver(event: DragEvent): void {
     event.preventDefault();
     event.stopPropagation();
@@ -245,8 +346,9 @@ export class ProductFormComponent implements OnInit {
     }
   }
 
-  private handleFiles(files: FileList): void {
+  private handleFiles(files: FileList | File[]): void {
     const { allowedImageTypes, maxFileSize } = environment.upload;
+    this.imagesEdited = true;
 
     Array.from(files).forEach(file => {
       if (!allowedImageTypes.includes(file.type)) {
@@ -270,38 +372,59 @@ export class ProductFormComponent implements OnInit {
         publicId: tempId,
         isUploading: true,
         progress: 0,
+        file,
       }]);
 
-      // Upload to server
-      this.mediaUploadService.uploadFile(file).subscribe({
-        next: (response) => {
-          // Update the image with server URL
-          this.uploadedImages.update(images => 
-            images.map(img => 
-              img.publicId === tempId 
-                ? { ...img, url: response.url, publicId: response.publicId, isUploading: false, progress: 100 }
-                : img
-            )
-          );
-          // Revoke the local object URL
-          URL.revokeObjectURL(localUrl);
-        },
-        error: (error) => {
-          console.error('Upload failed:', error);
-          // Mark as error
-          this.uploadedImages.update(images => 
-            images.map(img => 
-              img.publicId === tempId 
-                ? { ...img, isUploading: false, error: 'Upload failed' }
-                : img
-            )
-          );
-          this.snackBar.open(`Failed to upload ${file.name}`, 'Retry', { duration: 5000 });
-        },
-      });
+      this.uploadImage(tempId, file, localUrl);
     });
   }
 
+  private uploadImage(tempId: string, file: File, localUrl: string): void {
+    this.mediaUploadService.uploadFile(file).subscribe({
+      next: (response) => {
+        // Update the image with server URL
+        this.uploadedImages.update(images =>
+          images.map(img =>
+            img.publicId === tempId
+              ? { ...img, url: response.url, publicId: response.publicId, isUploading: false, progress: 100, file: undefined }
+              : img
+          )
+        );
+        // Revoke the local object URL
+        URL.revokeObjectURL(localUrl);
+      },
+      error: (error) => {
+        // The form needs the uploaded URL, so uploads are never queued; keep the file until reconnect
+        const offline = this.connectivity.isOffline();
+        if (!offline) console.error('Upload failed:', error);
+
+        this.uploadedImages.update(images =>
+          images.map(img =>
+            img.publicId === tempId
+              ? { ...img, isUploading: false, error: offline ? 'Will upload when online' : 'Upload failed' }
+              : img
+          )
+        );
+        this.snackBar.open(
+          offline ? `${file.name} will upload when you're back online` : `Failed to upload ${file.name}`,
+          'OK',
+          { duration: 5000 }
+        );
+      },
+    });
+  }
+
+  private retryWaitingImages(): void {
+    this.uploadedImages()
+      .filter((img) => img.error && img.file)
+      .forEach((img) => {
+        this.uploadedImages.update(images =>
+          images.map(i => (i.publicId === img.publicId ? { ...i, isUploading: true, error: undefined } : i))
+        );
+        this.uploadImage(img.publicId, img.file!, img.url);
+      });
+  }
+
   removeImage(index: number): void {
     const images = this.uploadedImages();
     const imageToRemove = images[index];
@@ -311,6 +434,7 @@ export class ProductFormComponent implements OnInit {
       URL.revokeObjectURL(imageToRemove.url);
     }
     
+    this.imagesEdited = true;
     this.uploadedImages.update(imgs => imgs.filter((_, i) => i !== index));
   }
 
@@ -391,8 +515,8 @@ export class ProductFormComponent implements OnInit {
 
     // Make API call
     const apiUrl = `${environment.apiUrl}/products`;
-    const request = this.isEditMode() && this.productId()
-      ? this.http.put(`${apiUrl}/${this.productId()}`, apiPayload)
+    const request = this.isEditMode() && this.editId()
+      ? this.http.put(`${apiUrl}/${this.editId()}`, apiPayload)
       : this.http.post(apiUrl, apiPayload);
 
     request.pipe(
@@ -406,6 +530,7 @@ export class ProductFormComponent implements OnInit {
     ).subscribe({
       next: (response) => {
         this.isSaving.set(false);
+        if (this.draftKey) this.draftService.discard(this.draftKey);
         this.snackBar.open(
           saveAsDraft ? 'Product saved as draft' : 
           this.isEditMode() ? 'Product updated successfully' : 'Product published successfully',
@@ -0,0 +1,191 @@
+/**
+ * Address Form Dialog Component
+ * =============================
+ * Add or edit a saved address. A valid pincode fills in the state and,
+ * for the main sorting districts, the city; the map pin is optional.
+ * Closes with the address to save.
+ */
+
+import { Component, ChangeDetectionStrategy, inject, signal, computed, DestroyRef } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule, FormBuilder, Validators } from '@angular/forms';
+import { takeUntilDestroyed, toSignal } from '@angular/core/rxjs-interop';
+import { MAT_DIALOG_DATA, MatDialogRef, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+
+import { LatLngLike } from '@shared/services/geo-distance';
+import { BuyerLocationService } from '@features/marketplace/services/buyer-location.service';
+import { Address, AddressDto, AddressType } from '../../services/address.service';
+import { INDIAN_STATES, lookupPincode, pincodeValidator } from '../../services/pincode-directory';
+import { LocationPickerComponent } from '../location-picker/location-picker.component';
+
+interface DialogData {
+  /** Address being edited; omitted when adding */
+  address?: Address;
+}
+
+export type AddressFormDialogResult = AddressDto | undefined;
+
+const ADDRESS_TYPES: { value: AddressType; label: string; icon: string }[] = [
+  { value: 'home', label: 'Home', icon: 'home' },
+  { value: 'work', label: 'Work', icon: 'business' },
+  { value: 'other', label: 'Other', icon: 'location_on' },
+];
+
+/** Optional +91, then a 10-digit mobile number with optional spacing */
+const PHONE_PATTERN = /^(\+91[\s-]?)?[6-9]\d{4}\s?\d{5}$/;
+
+@Component({
+  selector: 'smc-address-form-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatButtonToggleModule,
+    MatCheckboxModule,
+    MatProgressSpinnerModule,
+    LocationPickerComponent,
+  ],
+  templateUrl: './address-form-dialog.component.html',
+  styleUrl: './address-form-dialog.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class AddressFormDialogComponent {
+  readonly dialogRef = inject(MatDialogRef<AddressFormDialogComponent, AddressFormDialogResult>);
+  readonly data: DialogData = inject(MAT_DIALOG_DATA);
+  private readonly fb = inject(FormBuilder);
+  private readonly locationService = inject(BuyerLocationService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly addressTypes = ADDRESS_TYPES;
+  readonly states = INDIAN_STATES;
+  readonly isEdit = !!this.data.address;
+  readonly isLocating = this.locationService.isLocating;
+
+  readonly form = this.fb.nonNullable.group({
+    label: [this.data.address?.label ?? 'Home', [Validators.required, Validators.maxLength(30)]],
+    type: [this.data.address?.type ?? ('home' as AddressType)],
+    fullName: [this.data.address?.fullName ?? '', [Validators.required, Validators.maxLength(100)]],
+    phone: [this.data.address?.phone ?? '', [Validators.required, Validators.pattern(PHONE_PATTERN)]],
+    addressLine1: [this.data.address?.addressLine1 ?? '', [Validators.required, Validators.maxLength(200)]],
+    addressLine2: [this.data.address?.addressLine2 ?? ''],
+    landmark: [this.data.address?.landmark ?? ''],
+    pincode: [this.data.address?.pincode ?? '', [Validators.required, pincodeValidator]],
+    city: [this.data.address?.city ?? '', [Validators.required]],
+    state: [this.data.address?.state ?? '', [Validators.required]],
+    isDefault: [false],
+  });
+
+  private readonly pincode = toSignal(this.form.controls.pincode.valueChanges, {
+    initialValue: this.form.controls.pincode.value,
+  });
+
+  /** Directory entry for the entered pincode */
+  readonly pincodeInfo = computed(() => lookupPincode(this.pincode()));
+
+  /** Where the map opens when nothing is pinned yet */
+  readonly mapCenter = computed<LatLngLike | null>(() => {
+    const info = this.pincodeInfo();
+    return info?.latitude != null && info.longitude != null
+      ? { latitude: info.latitude, longitude: info.longitude }
+      : null;
+  });
+
+  readonly pin = signal<LatLngLike | null>(this.data.address?.location ?? null);
+  readonly locateError = signal<string | null>(null);
+
+  constructor() {
+    this.form.controls.pincode.valueChanges
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe((pincode) => this.fillFromPincode(pincode));
+  }
+
+  // ============================================
+  // Actions
+  // ============================================
+
+  onTypeChange(type: AddressType): void {
+    // Keep a custom label; swap the default one for the new type's name
+    const label = this.form.controls.label;
+    if (ADDRESS_TYPES.some((t) => t.label === label.value)) {
+      label.setValue(ADDRESS_TYPES.find((t) => t.value === type)?.label ?? label.value);
+    }
+  }
+
+  useCurrentLocation(): void {
+    this.locateError.set(null);
+    this.locationService
+      .locate()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: ({ latitude, longitude }) => this.pin.set({ latitude, longitude }),
+        error: (error) => this.locateError.set(this.locationService.errorMessage(error)),
+      });
+  }
+
+  clearPin(): void {
+    this.pin.set(null);
+  }
+
+  onCancel(): void {
+    this.dialogRef.close();
+  }
+
+  onSave(): void {
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    const { isDefault, ...value } = this.form.getRawValue();
+    const pin = this.pin();
+
+    this.dialogRef.close({
+      ...value,
+      label: value.label.trim(),
+      fullName: value.fullName.trim(),
+      addressLine2: value.addressLine2.trim() || undefined,
+      landmark: value.landmark.trim() || undefined,
+      isDefault,
+      location: pin
+        ? { ...pin, city: value.city, state: value.state, pincode: value.pincode }
+        : undefined,
+    });
+  }
+
+  getErrorMessage(field: keyof typeof this.form.controls): string {
+    const control = this.form.controls[field];
+    if (control.hasError('required')) return 'This field is required';
+    if (control.hasError('pincode')) return 'Enter a valid Indian pincode';
+    if (control.hasError('pattern')) return 'Enter a valid 10-digit mobile number';
+    if (control.hasError('maxlength')) return 'Too long';
+    return '';
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  /** Fill in what the pincode tells us, keeping a city the user typed */
+  private fillFromPincode(pincode: string): void {
+    const info = lookupPincode(pincode);
+    if (!info) return;
+
+    this.form.controls.state.setValue(info.state);
+    const city = this.form.controls.city;
+    if (info.city && (!city.value || !city.dirty)) city.setValue(info.city);
+  }
+}
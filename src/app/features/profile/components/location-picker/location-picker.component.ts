@@ -0,0 +1,131 @@
+/**
+ * Location Picker Component
+ * =========================
+ * Leaflet map for pinning an address. Clicking the map drops the pin and
+ * dragging moves it. Without a pin the map shows `center`, such as the
+ * sorting district of the entered pincode.
+ */
+
+import {
+  Component,
+  ChangeDetectionStrategy,
+  input,
+  output,
+  effect,
+  ElementRef,
+  viewChild,
+  AfterViewInit,
+  OnDestroy,
+} from '@angular/core';
+import * as L from 'leaflet';
+
+import { environment } from '@environments/environment';
+import { LatLngLike } from '@shared/services/geo-distance';
+
+const PIN_ZOOM = 15;
+const CENTER_ZOOM = 12;
+
+const toLatLng = (point: LatLngLike): L.LatLngTuple => [point.latitude, point.longitude];
+
+@Component({
+  selector: 'smc-location-picker',
+  standalone: true,
+  templateUrl: './location-picker.component.html',
+  styleUrl: './location-picker.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class LocationPickerComponent implements AfterViewInit, OnDestroy {
+  readonly pin = input<LatLngLike | null>(null);
+  readonly center = input<LatLngLike | null>(null);
+
+  /** Pin placed or moved by the user */
+  readonly pinChange = output<LatLngLike>();
+
+  private readonly mapContainer = viewChild<ElementRef<HTMLDivElement>>('mapContainer');
+
+  private map: L.Map | null = null;
+  private marker: L.Marker | null = null;
+  private resizeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    effect(() => {
+      const pin = this.pin();
+      if (this.map) this.drawPin(pin, true);
+    });
+
+    effect(() => {
+      const center = this.center();
+      if (this.map && center && !this.marker) this.map.setView(toLatLng(center), CENTER_ZOOM);
+    });
+  }
+
+  ngAfterViewInit(): void {
+    const container = this.mapContainer()?.nativeElement;
+    if (!container) return;
+
+    const { tileUrl, attribution, maxZoom, defaultCenter, defaultZoom } = environment.map;
+    const pin = this.pin();
+    const center = this.center();
+    this.map = pin
+      ? L.map(container, { center: toLatLng(pin), zoom: PIN_ZOOM })
+      : center
+        ? L.map(container, { center: toLatLng(center), zoom: CENTER_ZOOM })
+        : L.map(container, { center: defaultCenter, zoom: defaultZoom });
+    // CORS tiles can be cached by the service worker without opaque-response padding
+    L.tileLayer(tileUrl, { attribution, maxZoom, crossOrigin: true }).addTo(this.map);
+
+    this.map.on('click', (event: L.LeafletMouseEvent) => this.placePin(event.latlng));
+    this.drawPin(pin, false);
+
+    // Dialogs animate open, so the container has no size on the first pass
+    this.resizeTimer = setTimeout(() => this.map?.invalidateSize(), 250);
+  }
+
+  ngOnDestroy(): void {
+    if (this.resizeTimer) clearTimeout(this.resizeTimer);
+    this.map?.remove();
+    this.map = null;
+    this.marker = null;
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private placePin(latLng: L.LatLng): void {
+    this.marker?.setLatLng(latLng);
+    this.pinChange.emit({ latitude: latLng.lat, longitude: latLng.lng });
+  }
+
+  private drawPin(pin: LatLngLike | null, pan: boolean): void {
+    const map = this.map;
+    if (!map) return;
+
+    if (!pin) {
+      this.marker?.remove();
+      this.marker = null;
+      return;
+    }
+
+    if (this.marker) {
+      // Our own emit coming back through the input
+      const current = this.marker.getLatLng();
+      if (current.lat === pin.latitude && current.lng === pin.longitude) return;
+      this.marker.setLatLng(toLatLng(pin));
+    } else {
+      this.marker = L.marker(toLatLng(pin), {
+        icon: L.divIcon({
+          html: '<span class="material-icons">location_on</span>',
+          className: 'smc-map-marker pin',
+          iconSize: [36, 36],
+          iconAnchor: [18, 34],
+        }),
+        draggable: true,
+        title: 'Drag to adjust',
+      }).addTo(map);
+      this.marker.on('dragend', () => this.marker && this.placePin(this.marker.getLatLng()));
+    }
+
+    if (pan) map.setView(toLatLng(pin), Math.max(map.getZoom(), PIN_ZOOM));
+  }
+}
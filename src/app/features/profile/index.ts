@@ -6,3 +6,5 @@ export * from './pages/profile/profile.component';
 export * from './pages/settings/settings.component';
 export * from './pages/addresses/addresses.component';
 
+export * from './services/address.service';
+export * from './services/pincode-directory';
@@ -1,33 +1,29 @@
 /**
  * Addresses Page Component
  * ========================
- * Manage user delivery and billing addresses.
+ * Manage the user's saved addresses through AddressService: add and edit
+ * in a dialog with pincode lookup and map pin, pick the default, delete
+ * with undo.
  */
 
-import { Component, ChangeDetectionStrategy, signal, inject } from '@angular/core';
+import { Component, ChangeDetectionStrategy, inject, DestroyRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
 import { MatChipsModule } from '@angular/material/chips';
 import { MatMenuModule } from '@angular/material/menu';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
 import { MatDialog, MatDialogModule } from '@angular/material/dialog';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { Observable, filter } from 'rxjs';
 
-export interface Address {
-  id: string;
-  label: string;
-  fullName: string;
-  phone: string;
-  addressLine1: string;
-  addressLine2?: string;
-  city: string;
-  state: string;
-  pincode: string;
-  landmark?: string;
-  isDefault: boolean;
-  type: 'home' | 'work' | 'other';
-}
+import { Address, AddressDto, AddressService } from '../../services/address.service';
+import {
+  AddressFormDialogComponent,
+  AddressFormDialogResult,
+} from '../../components/address-form-dialog/address-form-dialog.component';
 
 @Component({
   selector: 'smc-addresses',
@@ -39,6 +35,7 @@ export interface Address {
     MatIconModule,
     MatChipsModule,
     MatMenuModule,
+    MatProgressBarModule,
     MatDialogModule,
     MatSnackBarModule,
   ],
@@ -47,39 +44,14 @@ export interface Address {
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class AddressesComponent {
+  private readonly addressService = inject(AddressService);
   private readonly dialog = inject(MatDialog);
   private readonly snackBar = inject(MatSnackBar);
+  private readonly destroyRef = inject(DestroyRef);
 
-  readonly isLoading = signal(false);
-  
-  readonly addresses = signal<Address[]>([
-    {
-      id: '1',
-      label: 'Home',
-      fullName: 'Ramesh Patil',
-      phone: '+91 98765 43210',
-      addressLine1: '123, Green Valley Apartments',
-      addressLine2: 'Near City Mall',
-      city: 'Nashik',
-      state: 'Maharashtra',
-      pincode: '422001',
-      landmark: 'Opposite SBI Bank',
-      isDefault: true,
-      type: 'home',
-    },
-    {
-      id: '2',
-      label: 'Farm',
-      fullName: 'Ramesh Patil',
-      phone: '+91 98765 43210',
-      addressLine1: 'Survey No. 45, Village Road',
-      city: 'Sinnar',
-      state: 'Maharashtra',
-      pincode: '422103',
-      isDefault: false,
-      type: 'work',
-    },
-  ]);
+  readonly addresses = this.addressService.addresses;
+  readonly isLoading = this.addressService.isLoading;
+  readonly isSaving = this.addressService.isSaving;
 
   readonly addressTypeIcons: Record<string, string> = {
     home: 'home',
@@ -88,29 +60,72 @@ export class AddressesComponent {
   };
 
   onAddAddress(): void {
-    // TODO: Open add address dialog
-    this.snackBar.open('Add address dialog coming soon', 'Close', { duration: 3000 });
+    this.openForm().subscribe((dto) =>
+      this.addressService
+        .create(dto)
+        .pipe(takeUntilDestroyed(this.destroyRef))
+        .subscribe({
+          next: (address) => this.snackBar.open(`${address.label} saved`, 'Close', { duration: 3000 }),
+          error: () => this.snackBar.open('Failed to save address', 'Close', { duration: 3000 }),
+        })
+    );
   }
 
   onEditAddress(address: Address): void {
-    // TODO: Open edit address dialog
-    this.snackBar.open(`Editing: ${address.label}`, 'Close', { duration: 3000 });
+    this.openForm(address).subscribe((dto) =>
+      this.addressService
+        .update(address.id, dto)
+        .pipe(takeUntilDestroyed(this.destroyRef))
+        .subscribe({
+          next: () => this.snackBar.open('Address updated', 'Close', { duration: 3000 }),
+          error: () => this.snackBar.open('Failed to update address', 'Close', { duration: 3000 }),
+        })
+    );
   }
 
   onDeleteAddress(address: Address): void {
-    // TODO: Confirm and delete
-    this.addresses.update(addrs => addrs.filter(a => a.id !== address.id));
-    this.snackBar.open('Address deleted', 'Undo', { duration: 3000 });
+    const { id, isDefault, ...dto } = address;
+
+    this.addressService
+      .remove(id)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () =>
+          this.snackBar
+            .open('Address deleted', 'Undo', { duration: 5000 })
+            .onAction()
+            .subscribe(() => this.addressService.create({ ...dto, isDefault }).subscribe()),
+        error: () => this.snackBar.open('Failed to delete address', 'Close', { duration: 3000 }),
+      });
   }
 
   onSetDefault(address: Address): void {
-    this.addresses.update(addrs => 
-      addrs.map(a => ({ ...a, isDefault: a.id === address.id }))
-    );
-    this.snackBar.open(`${address.label} set as default`, 'Close', { duration: 3000 });
+    this.addressService
+      .setDefault(address.id)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => this.snackBar.open(`${address.label} set as default`, 'Close', { duration: 3000 }),
+        error: () => this.snackBar.open('Failed to update address', 'Close', { duration: 3000 }),
+      });
   }
 
   trackByAddressId(_index: number, address: Address): string {
     return address.id;
   }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private openForm(address?: Address): Observable<AddressDto> {
+    return this.dialog
+      .open<AddressFormDialogComponent, { address?: Address }, AddressFormDialogResult>(AddressFormDialogComponent, {
+        data: { address },
+        width: '640px',
+        maxWidth: '95vw',
+        autoFocus: 'first-tabbable',
+      })
+      .afterClosed()
+      .pipe(filter((dto): dto is AddressDto => !!dto));
+  }
 }
@@ -16,6 +16,8 @@ import { MatChipsModule } from '@angular/material/chips';
 import { MatProgressBarModule } from '@angular/material/progress-bar';
 
 import { AuthService } from '@core/services/auth.service';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
 
 interface ProfileStats {
   totalOrders: number;
@@ -38,6 +40,8 @@ interface ProfileStats {
     MatDividerModule,
     MatChipsModule,
     MatProgressBarModule,
+    LocaleDatePipe,
+    LocaleNumberPipe,
   ],
   templateUrl: './profile.component.html',
   styleUrl: './profile.component.scss',
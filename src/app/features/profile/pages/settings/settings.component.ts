@@ -1,10 +1,11 @@
 /**
  * Settings Page Component
  * =======================
- * User app settings, preferences, and notifications configuration.
+ * User app settings, preferences, and notifications configuration,
+ * kept by PreferencesService.
  */
 
-import { Component, ChangeDetectionStrategy, signal, inject } from '@angular/core';
+import { Component, ChangeDetectionStrategy, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { MatCardModule } from '@angular/material/card';
@@ -15,24 +16,16 @@ import { MatSelectModule } from '@angular/material/select';
 import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatDividerModule } from '@angular/material/divider';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
-
-interface NotificationSettings {
-  orderUpdates: boolean;
-  bidAlerts: boolean;
-  priceAlerts: boolean;
-  promotions: boolean;
-  newsletter: boolean;
-  smsNotifications: boolean;
-  emailNotifications: boolean;
-  pushNotifications: boolean;
-}
-
-interface AppPreferences {
-  language: string;
-  currency: string;
-  theme: 'light' | 'dark' | 'system';
-  compactView: boolean;
-}
+import { TranslationService } from '@core/services/translation.service';
+import {
+  AppPreferences,
+  NotificationPreferences,
+  PreferencesService,
+  ThemePreference,
+} from '@core/services/preferences.service';
+import { ThemeService } from '@core/services/theme.service';
+import { TranslationKey } from '@core/i18n';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
 
 @Component({
   selector: 'smc-settings',
@@ -48,6 +41,7 @@ interface AppPreferences {
     MatFormFieldModule,
     MatDividerModule,
     MatSnackBarModule,
+    TranslatePipe,
   ],
   templateUrl: './settings.component.html',
   styleUrl: './settings.component.scss',
@@ -55,85 +49,53 @@ interface AppPreferences {
 })
 export class SettingsComponent {
   private readonly snackBar = inject(MatSnackBar);
+  private readonly translation = inject(TranslationService);
+  private readonly preferencesService = inject(PreferencesService);
+  private readonly themeService = inject(ThemeService);
 
-  readonly isSaving = signal(false);
-
-  readonly notifications = signal<NotificationSettings>({
-    orderUpdates: true,
-    bidAlerts: true,
-    priceAlerts: false,
-    promotions: true,
-    newsletter: false,
-    smsNotifications: true,
-    emailNotifications: true,
-    pushNotifications: true,
-  });
-
-  readonly preferences = signal<AppPreferences>({
-    language: 'en',
-    currency: 'INR',
-    theme: 'light',
-    compactView: false,
-  });
+  readonly isSaving = this.preferencesService.isSaving;
+  readonly notifications = this.preferencesService.notifications;
+  readonly preferences = this.preferencesService.app;
 
-  readonly languages = [
-    { code: 'en', name: 'English', native: 'English' },
-    { code: 'hi', name: 'Hindi', native: 'हिंदी' },
-    { code: 'mr', name: 'Marathi', native: 'मराठी' },
-    { code: 'gu', name: 'Gujarati', native: 'ગુજરાતી' },
-    { code: 'ta', name: 'Tamil', native: 'தமிழ்' },
-    { code: 'te', name: 'Telugu', native: 'తెలుగు' },
-  ];
+  readonly languages = this.translation.languages;
 
-  readonly themes: { value: 'light' | 'dark' | 'system'; label: string; icon: string }[] = [
-    { value: 'light', label: 'Light', icon: 'light_mode' },
-    { value: 'dark', label: 'Dark', icon: 'dark_mode' },
-    { value: 'system', label: 'System', icon: 'settings_brightness' },
+  readonly themes: { value: ThemePreference; labelKey: TranslationKey; icon: string }[] = [
+    { value: 'light', labelKey: 'settings.theme.light', icon: 'light_mode' },
+    { value: 'dark', labelKey: 'settings.theme.dark', icon: 'dark_mode' },
+    { value: 'high-contrast', labelKey: 'settings.theme.highContrast', icon: 'contrast' },
+    { value: 'system', labelKey: 'settings.theme.system', icon: 'settings_brightness' },
   ];
 
-  updateNotification(key: keyof NotificationSettings, value: boolean): void {
-    this.notifications.update(n => ({ ...n, [key]: value }));
-    this.autoSave();
+  /** Changes apply at once and save in the background */
+  updateNotification(key: keyof NotificationPreferences, value: boolean): void {
+    this.preferencesService.updateNotifications({ [key]: value });
   }
 
   updatePreference<K extends keyof AppPreferences>(key: K, value: AppPreferences[K]): void {
-    this.preferences.update(p => ({ ...p, [key]: value }));
-    this.autoSave();
+    this.preferencesService.updateApp({ [key]: value });
   }
 
-  private autoSave(): void {
-    // Simulate auto-save
-    this.isSaving.set(true);
-    setTimeout(() => {
-      this.isSaving.set(false);
-    }, 500);
+  selectTheme(theme: ThemePreference): void {
+    this.themeService.setTheme(theme);
   }
 
   saveSettings(): void {
-    this.isSaving.set(true);
-    setTimeout(() => {
-      this.isSaving.set(false);
-      this.snackBar.open('Settings saved successfully', 'Close', { duration: 3000 });
-    }, 1000);
+    this.preferencesService.save().subscribe({
+      next: () => this.toast('settings.saved'),
+      error: () => this.toast('settings.saveFailed'),
+    });
   }
 
   resetToDefaults(): void {
-    this.notifications.set({
-      orderUpdates: true,
-      bidAlerts: true,
-      priceAlerts: false,
-      promotions: true,
-      newsletter: false,
-      smsNotifications: true,
-      emailNotifications: true,
-      pushNotifications: true,
-    });
-    this.preferences.set({
-      language: 'en',
-      currency: 'INR',
-      theme: 'light',
-      compactView: false,
-    });
-    this.snackBar.open('Settings reset to defaults', 'Close', { duration: 3000 });
+    this.preferencesService.reset();
+    this.toast('settings.resetDone');
+  }
+
+  private toast(key: TranslationKey): void {
+    this.snackBar.open(
+      this.translation.translate(key),
+      this.translation.translate('common.close'),
+      { duration: 3000 }
+    );
   }
 }
@@ -0,0 +1,288 @@
+/**
+ * Address Service
+ * ===============
+ * Signals-based address book of the signed-in user. One address is the
+ * default, which checkout, bids and instant buys preselect. In development
+ * the book is kept in localStorage per user.
+ */
+
+import { Injectable, inject, signal, computed, effect, untracked } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, of, delay, map, tap, catchError, throwError } from 'rxjs';
+import { environment } from '@environments/environment';
+import { AuthService } from '@core/services/auth.service';
+import { GeoLocation } from '@domain/models/user.model';
+import { DeliveryAddress } from '@domain/models/order.model';
+
+// ============================================
+// Interfaces
+// ============================================
+
+export type AddressType = 'home' | 'work' | 'other';
+
+export interface Address {
+  readonly id: string;
+  readonly label: string;
+  readonly fullName: string;
+  readonly phone: string;
+  readonly addressLine1: string;
+  readonly addressLine2?: string;
+  readonly city: string;
+  readonly state: string;
+  readonly pincode: string;
+  readonly landmark?: string;
+  readonly isDefault: boolean;
+  readonly type: AddressType;
+  /** Map pin, when the user has placed one */
+  readonly location?: GeoLocation;
+}
+
+export type AddressDto = Omit<Address, 'id' | 'isDefault'> & { readonly isDefault?: boolean };
+
+interface AddressState {
+  addresses: Address[];
+  /** The signed-in user's book has been fetched */
+  isLoaded: boolean;
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+}
+
+const STORAGE_KEY_PREFIX = 'smc_addresses_';
+
+/**
+ * Address as an order's delivery address
+ */
+export function toDeliveryAddress(address: Address): DeliveryAddress {
+  return {
+    fullName: address.fullName,
+    phoneNumber: address.phone,
+    addressLine1: address.addressLine1,
+    addressLine2: address.addressLine2,
+    city: address.city,
+    state: address.state,
+    pincode: address.pincode,
+    landmark: address.landmark,
+    location: address.location,
+  };
+}
+
+/** One-line summary, e.g. "Green Valley Apartments, Nashik 422001" */
+export function formatAddressLine(address: Pick<Address, 'addressLine1' | 'city' | 'pincode'>): string {
+  return `${address.addressLine1}, ${address.city} ${address.pincode}`;
+}
+
+@Injectable({ providedIn: 'root' })
+export class AddressService {
+  private readonly http = inject(HttpClient);
+  private readonly authService = inject(AuthService);
+  private readonly apiUrl = `${environment.apiUrl}/users/me/addresses`;
+
+  // ============================================
+  // State Signal
+  // ============================================
+
+  private readonly _state = signal<AddressState>({
+    addresses: [],
+    isLoaded: false,
+    isLoading: false,
+    isSaving: false,
+    error: null,
+  });
+
+  // ============================================
+  // Computed Signals
+  // ============================================
+
+  /** Default address first, then in the order they were added */
+  readonly addresses = computed(() =>
+    [...this._state().addresses].sort((a, b) => Number(b.isDefault) - Number(a.isDefault))
+  );
+  readonly defaultAddress = computed(() => this._state().addresses.find((a) => a.isDefault) ?? null);
+  readonly isLoaded = computed(() => this._state().isLoaded);
+  readonly isLoading = computed(() => this._state().isLoading);
+  readonly isSaving = computed(() => this._state().isSaving);
+  readonly error = computed(() => this._state().error);
+
+  private readonly userId = computed(() => this.authService.currentUser()?.id ?? null);
+
+  constructor() {
+    // Each user has their own book
+    effect(() => {
+      const userId = this.userId();
+      untracked(() => {
+        if (userId) {
+          this.loadAddresses();
+        } else {
+          this.updateState({ addresses: [], isLoaded: false });
+        }
+      });
+    });
+  }
+
+  // ============================================
+  // Public Methods
+  // ============================================
+
+  loadAddresses(): void {
+    this.updateState({ isLoading: true, error: null });
+
+    if (!environment.production) {
+      of(this.readStorage() ?? this.getMockAddresses())
+        .pipe(delay(300))
+        .subscribe((addresses) => this.updateState({ addresses, isLoaded: true, isLoading: false }));
+      return;
+    }
+
+    this.http
+      .get<Address[]>(this.apiUrl)
+      .pipe(
+        tap((addresses) => this.updateState({ addresses, isLoaded: true, isLoading: false })),
+        catchError((error) => {
+          this.updateState({ isLoading: false, error: 'Failed to load addresses' });
+          return throwError(() => error);
+        })
+      )
+      .subscribe();
+  }
+
+  getById(id: string): Address | undefined {
+    return this._state().addresses.find((a) => a.id === id);
+  }
+
+  /** The first address added becomes the default */
+  create(dto: AddressDto): Observable<Address> {
+    const isDefault = dto.isDefault || this._state().addresses.length === 0;
+
+    const request$ = environment.production
+      ? this.http.post<Address>(this.apiUrl, { ...dto, isDefault })
+      : of<Address>({ ...dto, id: `addr_${Date.now().toString(36)}`, isDefault }).pipe(delay(400));
+
+    return this.save(request$, (addresses, saved) => [
+      ...addresses.map((a) => (saved.isDefault ? { ...a, isDefault: false } : a)),
+      saved,
+    ]);
+  }
+
+  update(id: string, dto: AddressDto): Observable<Address> {
+    const current = this.getById(id);
+    if (!current) return throwError(() => new Error('Address not found'));
+    // The default can only move by making another address the default
+    const isDefault = current.isDefault || !!dto.isDefault;
+
+    const request$ = environment.production
+      ? this.http.put<Address>(`${this.apiUrl}/${id}`, { ...dto, isDefault })
+      : of<Address>({ ...dto, id, isDefault }).pipe(delay(400));
+
+    return this.save(request$, (addresses, saved) =>
+      addresses.map((a) => (a.id === id ? saved : saved.isDefault ? { ...a, isDefault: false } : a))
+    );
+  }
+
+  setDefault(id: string): Observable<Address> {
+    const current = this.getById(id);
+    if (!current) return throwError(() => new Error('Address not found'));
+    return this.update(id, { ...current, isDefault: true });
+  }
+
+  /** Removing the default makes the next address the default */
+  remove(id: string): Observable<void> {
+    const request$ = environment.production
+      ? this.http.delete<void>(`${this.apiUrl}/${id}`)
+      : of(undefined).pipe(delay(300));
+
+    return this.save(request$, (addresses) => {
+      const remaining = addresses.filter((a) => a.id !== id);
+      if (remaining.length > 0 && !remaining.some((a) => a.isDefault)) {
+        remaining[0] = { ...remaining[0], isDefault: true };
+      }
+      return remaining;
+    });
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private updateState(partial: Partial<AddressState>): void {
+    this._state.update((state) => ({ ...state, ...partial }));
+  }
+
+  /** Run a write and apply its result to the book */
+  private save<T>(request$: Observable<T>, apply: (addresses: Address[], saved: T) => Address[]): Observable<T> {
+    this.updateState({ isSaving: true, error: null });
+
+    return request$.pipe(
+      map((saved) => {
+        const addresses = apply(this._state().addresses, saved);
+        this.updateState({ addresses, isSaving: false });
+        if (!environment.production) this.writeStorage(addresses);
+        return saved;
+      }),
+      catchError((error) => {
+        this.updateState({ isSaving: false, error: 'Failed to save address' });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  private storageKey(): string | null {
+    const userId = this.userId();
+    return userId ? `${STORAGE_KEY_PREFIX}${userId}` : null;
+  }
+
+  private readStorage(): Address[] | null {
+    const key = this.storageKey();
+    try {
+      const json = key ? localStorage.getItem(key) : null;
+      return json ? JSON.parse(json) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeStorage(addresses: Address[]): void {
+    const key = this.storageKey();
+    try {
+      if (key) localStorage.setItem(key, JSON.stringify(addresses));
+    } catch {
+      // Storage full or unavailable; the book stays in memory
+    }
+  }
+
+  private getMockAddresses(): Address[] {
+    const user = this.authService.currentUser();
+    const fullName = user?.fullName ?? 'Ramesh Patil';
+    const phone = user?.profile?.phoneNumber ?? '+91 98765 43210';
+
+    return [
+      {
+        id: 'addr_1',
+        label: 'Home',
+        fullName,
+        phone,
+        addressLine1: '123, Green Valley Apartments',
+        addressLine2: 'Near City Mall',
+        city: 'Nashik',
+        state: 'Maharashtra',
+        pincode: '422001',
+        landmark: 'Opposite SBI Bank',
+        isDefault: true,
+        type: 'home',
+        location: { latitude: 19.9975, longitude: 73.7898, city: 'Nashik', state: 'Maharashtra', pincode: '422001' },
+      },
+      {
+        id: 'addr_2',
+        label: 'Farm',
+        fullName,
+        phone,
+        addressLine1: 'Survey No. 45, Village Road',
+        city: 'Sinnar',
+        state: 'Maharashtra',
+        pincode: '422103',
+        isDefault: false,
+        type: 'work',
+      },
+    ];
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Pincode Directory
+ * =================
+ * Bundled lookup from Indian pincodes to state and district. The first
+ * three digits of a pincode name its sorting district; every range India
+ * Post assigns maps to a state, and the busier sorting districts also name
+ * their main city, its revenue district and its approximate centre, used to
+ * place the map pin.
+ * Sorting districts on a state border are filed under their main state,
+ * so the filled-in state stays editable.
+ */
+
+import { ValidatorFn } from '@angular/forms';
+
+export interface PincodeInfo {
+  readonly pincode: string;
+  readonly state: string;
+  /** Main city of the sorting district, when listed */
+  readonly city: string | null;
+  /** Revenue district of that city, when listed */
+  readonly district: string | null;
+  /** Approximate centre of the sorting district, when listed */
+  readonly latitude: number | null;
+  readonly longitude: number | null;
+}
+
+export const INDIAN_STATES: readonly string[] = [
+  'Andaman and Nicobar Islands',
+  'Andhra Pradesh',
+  'Arunachal Pradesh',
+  'Assam',
+  'Bihar',
+  'Chandigarh',
+  'Chhattisgarh',
+  'Dadra and Nagar Haveli and Daman and Diu',
+  'Delhi',
+  'Goa',
+  'Gujarat',
+  'Haryana',
+  'Himachal Pradesh',
+  'Jammu and Kashmir',
+  'Jharkhand',
+  'Karnataka',
+  'Kerala',
+  'Ladakh',
+  'Lakshadweep',
+  'Madhya Pradesh',
+  'Maharashtra',
+  'Manipur',
+  'Meghalaya',
+  'Mizoram',
+  'Nagaland',
+  'Odisha',
+  'Puducherry',
+  'Punjab',
+  'Rajasthan',
+  'Sikkim',
+  'Tamil Nadu',
+  'Telangana',
+  'Tripura',
+  'Uttar Pradesh',
+  'Uttarakhand',
+  'West Bengal',
+];
+
+export const PINCODE_PATTERN = /^[1-8]\d{5}$/;
+
+/**
+ * Sorting district prefix ranges by state. Checked in order, so the
+ * narrower ranges carved out of a postal circle come first.
+ */
+const STATE_RANGES: readonly [from: number, to: number, state: string][] = [
+  [110, 110, 'Delhi'],
+  [160, 160, 'Chandigarh'],
+  [120, 136, 'Haryana'],
+  [140, 159, 'Punjab'],
+  [171, 177, 'Himachal Pradesh'],
+  [194, 194, 'Ladakh'],
+  [180, 193, 'Jammu and Kashmir'],
+  [246, 246, 'Uttarakhand'],
+  [248, 249, 'Uttarakhand'],
+  [263, 263, 'Uttarakhand'],
+  [201, 285, 'Uttar Pradesh'],
+  [301, 345, 'Rajasthan'],
+  [360, 396, 'Gujarat'],
+  [403, 403, 'Goa'],
+  [400, 445, 'Maharashtra'],
+  [450, 488, 'Madhya Pradesh'],
+  [490, 497, 'Chhattisgarh'],
+  [500, 509, 'Telangana'],
+  [515, 535, 'Andhra Pradesh'],
+  [560, 591, 'Karnataka'],
+  [600, 643, 'Tamil Nadu'],
+  [670, 695, 'Kerala'],
+  [737, 737, 'Sikkim'],
+  [744, 744, 'Andaman and Nicobar Islands'],
+  [700, 743, 'West Bengal'],
+  [751, 770, 'Odisha'],
+  [781, 788, 'Assam'],
+  [790, 792, 'Arunachal Pradesh'],
+  [793, 794, 'Meghalaya'],
+  [795, 795, 'Manipur'],
+  [796, 796, 'Mizoram'],
+  [797, 798, 'Nagaland'],
+  [799, 799, 'Tripura'],
+  [814, 816, 'Jharkhand'],
+  [822, 822, 'Jharkhand'],
+  [825, 835, 'Jharkhand'],
+  [800, 855, 'Bihar'],
+];
+
+/** Sorting district prefix → main city, its district, latitude, longitude */
+const SORTING_DISTRICTS: Record<
+  string,
+  readonly [city: string, district: string, latitude: number, longitude: number]
+> = {
+  '110': ['New Delhi', 'New Delhi', 28.6139, 77.209],
+  '121': ['Faridabad', 'Faridabad', 28.4089, 77.3178],
+  '122': ['Gurugram', 'Gurugram', 28.4595, 77.0266],
+  '124': ['Rohtak', 'Rohtak', 28.8955, 76.6066],
+  '125': ['Hisar', 'Hisar', 29.1492, 75.7217],
+  '132': ['Karnal', 'Karnal', 29.6857, 76.9905],
+  '141': ['Ludhiana', 'Ludhiana', 30.901, 75.8573],
+  '143': ['Amritsar', 'Amritsar', 31.634, 74.8723],
+  '144': ['Jalandhar', 'Jalandhar', 31.326, 75.5762],
+  '147': ['Patiala', 'Patiala', 30.3398, 76.3869],
+  '151': ['Bathinda', 'Bathinda', 30.211, 74.9455],
+  '160': ['Chandigarh', 'Chandigarh', 30.7333, 76.7794],
+  '171': ['Shimla', 'Shimla', 31.1048, 77.1734],
+  '180': ['Jammu', 'Jammu', 32.7266, 74.857],
+  '190': ['Srinagar', 'Srinagar', 34.0837, 74.7973],
+  '201': ['Ghaziabad', 'Ghaziabad', 28.6692, 77.4538],
+  '202': ['Aligarh', 'Aligarh', 27.8974, 78.088],
+  '208': ['Kanpur', 'Kanpur Nagar', 26.4499, 80.3319],
+  '211': ['Prayagraj', 'Prayagraj', 25.4358, 81.8463],
+  '221': ['Varanasi', 'Varanasi', 25.3176, 82.9739],
+  '226': ['Lucknow', 'Lucknow', 26.8467, 80.9462],
+  '243': ['Bareilly', 'Bareilly', 28.367, 79.4304],
+  '244': ['Moradabad', 'Moradabad', 28.8386, 78.7733],
+  '247': ['Saharanpur', 'Saharanpur', 29.968, 77.5552],
+  '248': ['Dehradun', 'Dehradun', 30.3165, 78.0322],
+  '250': ['Meerut', 'Meerut', 28.9845, 77.7064],
+  '273': ['Gorakhpur', 'Gorakhpur', 26.7606, 83.3732],
+  '282': ['Agra', 'Agra', 27.1767, 78.0081],
+  '302': ['Jaipur', 'Jaipur', 26.9124, 75.7873],
+  '305': ['Ajmer', 'Ajmer', 26.4499, 74.6399],
+  '313': ['Udaipur', 'Udaipur', 24.5854, 73.7125],
+  '324': ['Kota', 'Kota', 25.2138, 75.8648],
+  '334': ['Bikaner', 'Bikaner', 28.0229, 73.3119],
+  '342': ['Jodhpur', 'Jodhpur', 26.2389, 73.0243],
+  '360': ['Rajkot', 'Rajkot', 22.3039, 70.8022],
+  '380': ['Ahmedabad', 'Ahmedabad', 23.0225, 72.5714],
+  '388': ['Anand', 'Anand', 22.5645, 72.9289],
+  '390': ['Vadodara', 'Vadodara', 22.3072, 73.1812],
+  '395': ['Surat', 'Surat', 21.1702, 72.8311],
+  '400': ['Mumbai', 'Mumbai', 19.076, 72.8777],
+  '403': ['Panaji', 'North Goa', 15.4909, 73.8278],
+  '411': ['Pune', 'Pune', 18.5204, 73.8567],
+  '412': ['Pune', 'Pune', 18.5204, 73.8567],
+  '413': ['Solapur', 'Solapur', 17.6599, 75.9064],
+  '414': ['Ahmednagar', 'Ahmednagar', 19.0952, 74.7496],
+  '415': ['Satara', 'Satara', 17.6805, 74.0183],
+  '416': ['Kolhapur', 'Kolhapur', 16.705, 74.2433],
+  '422': ['Nashik', 'Nashik', 19.9975, 73.7898],
+  '423': ['Nashik', 'Nashik', 20.5579, 74.5287],
+  '424': ['Dhule', 'Dhule', 20.9042, 74.7749],
+  '425': ['Jalgaon', 'Jalgaon', 21.0077, 75.5626],
+  '431': ['Chhatrapati Sambhajinagar', 'Chhatrapati Sambhajinagar', 19.8762, 75.3433],
+  '440': ['Nagpur', 'Nagpur', 21.1458, 79.0882],
+  '444': ['Amravati', 'Amravati', 20.9374, 77.7796],
+  '445': ['Yavatmal', 'Yavatmal', 20.3888, 78.1204],
+  '452': ['Indore', 'Indore', 22.7196, 75.8577],
+  '456': ['Ujjain', 'Ujjain', 23.1765, 75.7885],
+  '462': ['Bhopal', 'Bhopal', 23.2599, 77.4126],
+  '474': ['Gwalior', 'Gwalior', 26.2183, 78.1828],
+  '482': ['Jabalpur', 'Jabalpur', 23.1815, 79.9864],
+  '492': ['Raipur', 'Raipur', 21.2514, 81.6296],
+  '500': ['Hyderabad', 'Hyderabad', 17.385, 78.4867],
+  '506': ['Warangal', 'Warangal', 17.9689, 79.5941],
+  '515': ['Anantapur', 'Anantapur', 14.6819, 77.6006],
+  '517': ['Tirupati', 'Tirupati', 13.6288, 79.4192],
+  '520': ['Vijayawada', 'NTR', 16.5062, 80.648],
+  '522': ['Guntur', 'Guntur', 16.3067, 80.4365],
+  '530': ['Visakhapatnam', 'Visakhapatnam', 17.6868, 83.2185],
+  '560': ['Bengaluru', 'Bengaluru Urban', 12.9716, 77.5946],
+  '570': ['Mysuru', 'Mysuru', 12.2958, 76.6394],
+  '575': ['Mangaluru', 'Dakshina Kannada', 12.9141, 74.856],
+  '580': ['Hubballi-Dharwad', 'Dharwad', 15.3647, 75.124],
+  '590': ['Belagavi', 'Belagavi', 15.8497, 74.4977],
+  '600': ['Chennai', 'Chennai', 13.0827, 80.2707],
+  '620': ['Tiruchirappalli', 'Tiruchirappalli', 10.7905, 78.7047],
+  '625': ['Madurai', 'Madurai', 9.9252, 78.1198],
+  '636': ['Salem', 'Salem', 11.6643, 78.146],
+  '641': ['Coimbatore', 'Coimbatore', 11.0168, 76.9558],
+  '673': ['Kozhikode', 'Kozhikode', 11.2588, 75.7804],
+  '682': ['Kochi', 'Ernakulam', 9.9312, 76.2673],
+  '695': ['Thiruvananthapuram', 'Thiruvananthapuram', 8.5241, 76.9366],
+  '700': ['Kolkata', 'Kolkata', 22.5726, 88.3639],
+  '711': ['Howrah', 'Howrah', 22.5958, 88.2636],
+  '734': ['Siliguri', 'Darjeeling', 26.7271, 88.3953],
+  '737': ['Gangtok', 'Gangtok', 27.3389, 88.6065],
+  '744': ['Port Blair', 'South Andaman', 11.6234, 92.7265],
+  '751': ['Bhubaneswar', 'Khordha', 20.2961, 85.8245],
+  '753': ['Cuttack', 'Cuttack', 20.4625, 85.883],
+  '781': ['Guwahati', 'Kamrup Metropolitan', 26.1445, 91.7362],
+  '793': ['Shillong', 'East Khasi Hills', 25.5788, 91.8933],
+  '795': ['Imphal', 'Imphal West', 24.817, 93.9368],
+  '796': ['Aizawl', 'Aizawl', 23.7271, 92.7176],
+  '799': ['Agartala', 'West Tripura', 23.8315, 91.2868],
+  '800': ['Patna', 'Patna', 25.5941, 85.1376],
+  '812': ['Bhagalpur', 'Bhagalpur', 25.2425, 86.9842],
+  '823': ['Gaya', 'Gaya', 24.7914, 85.0002],
+  '826': ['Dhanbad', 'Dhanbad', 23.7957, 86.4304],
+  '831': ['Jamshedpur', 'East Singhbhum', 22.8046, 86.2029],
+  '834': ['Ranchi', 'Ranchi', 23.3441, 85.3096],
+  '842': ['Muzaffarpur', 'Muzaffarpur', 26.1209, 85.3647],
+};
+
+/**
+ * State and, where listed, city, district and map centre for a pincode; null if it
+ * is malformed or in no range India Post assigns to a state (such as
+ * Army Postal Service pincodes).
+ */
+export function lookupPincode(pincode: string): PincodeInfo | null {
+  const value = pincode.trim();
+  if (!PINCODE_PATTERN.test(value)) return null;
+
+  const prefix = Number(value.slice(0, 3));
+  const state = STATE_RANGES.find(([from, to]) => prefix >= from && prefix <= to)?.[2];
+  if (!state) return null;
+
+  const sorting = SORTING_DISTRICTS[value.slice(0, 3)];
+  return {
+    pincode: value,
+    state,
+    city: sorting?.[0] ?? null,
+    district: sorting?.[1] ?? null,
+    latitude: sorting?.[2] ?? null,
+    longitude: sorting?.[3] ?? null,
+  };
+}
+
+/**
+ * Form validator: `{ pincode: true }` unless the value is a pincode
+ * assigned to a state. Empty values are left to `Validators.required`.
+ */
+export const pincodeValidator: ValidatorFn = (control) => {
+  const value = control.value;
+  if (!value) return null;
+  return lookupPincode(String(value)) ? null : { pincode: true };
+};
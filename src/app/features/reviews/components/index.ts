@@ -0,0 +1,8 @@
+/**
+ * Reviews Components Barrel Export
+ * =================================
+ */
+
+export * from './star-rating/star-rating.component';
+export * from './review-list/review-list.component';
+export * from './review-dialog/review-dialog.component';
@@ -0,0 +1,142 @@
+/**
+ * Review Dialog Component
+ * =======================
+ * Rates a delivered order: one section per subject (the other party and,
+ * for buyers, each crop) with stars, tags, a comment and photos. Subjects
+ * left without stars are skipped.
+ */
+
+import { Component, ChangeDetectionStrategy, inject, signal, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialogRef, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+
+import { PhotoUploads } from '@shared/services/photo-uploads';
+import { Order } from '@features/orders/services/orders.service';
+import {
+  ReviewPhoto,
+  ReviewSubject,
+  ReviewSubjectType,
+  ReviewTag,
+  SubmitReviewRequest,
+  MAX_REVIEW_PHOTOS,
+  REVIEW_TAG_CONFIG,
+} from '../../services/review.service';
+import { StarRatingComponent } from '../star-rating/star-rating.component';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
+
+interface DialogData {
+  order: Order;
+  subjects: ReviewSubject[];
+}
+
+export interface ReviewDialogResult {
+  confirmed: boolean;
+  requests?: SubmitReviewRequest[];
+}
+
+interface ReviewDraft {
+  subject: ReviewSubject;
+  rating: number;
+  tags: ReviewTag[];
+  comment: string;
+  photos: PhotoUploads;
+}
+
+const SUBJECT_LABELS: Record<ReviewSubjectType, string> = {
+  [ReviewSubjectType.FARMER]: 'Farmer',
+  [ReviewSubjectType.BUYER]: 'Buyer',
+  [ReviewSubjectType.CROP]: 'Produce',
+};
+
+@Component({
+  selector: 'smc-review-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatIconModule,
+    MatChipsModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatProgressSpinnerModule,
+    StarRatingComponent,
+    TranslatePipe,
+  ],
+  templateUrl: './review-dialog.component.html',
+  styleUrl: './review-dialog.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ReviewDialogComponent {
+  readonly dialogRef = inject(MatDialogRef<ReviewDialogComponent, ReviewDialogResult>);
+  readonly data: DialogData = inject(MAT_DIALOG_DATA);
+
+  readonly tags = Object.values(ReviewTag).map((value) => ({ value, ...REVIEW_TAG_CONFIG[value] }));
+  readonly SUBJECT_LABELS = SUBJECT_LABELS;
+
+  readonly drafts = signal<ReviewDraft[]>(
+    this.data.subjects.map((subject) => ({
+      subject,
+      rating: 0,
+      tags: [],
+      comment: '',
+      photos: new PhotoUploads(MAX_REVIEW_PHOTOS),
+    }))
+  );
+
+  readonly isUploading = computed(() => this.drafts().some((d) => d.photos.isUploading()));
+  readonly ratedCount = computed(() => this.drafts().filter((d) => d.rating > 0).length);
+  readonly canSubmit = computed(() => this.ratedCount() > 0 && !this.isUploading());
+
+  setRating(index: number, rating: number): void {
+    this.patchDraft(index, { rating });
+  }
+
+  setTags(index: number, tags: ReviewTag[]): void {
+    this.patchDraft(index, { tags });
+  }
+
+  setComment(index: number, comment: string): void {
+    this.patchDraft(index, { comment });
+  }
+
+  onCancel(): void {
+    this.dialogRef.close({ confirmed: false });
+  }
+
+  onConfirm(): void {
+    if (!this.canSubmit()) return;
+
+    const requests = this.drafts()
+      .filter((draft) => draft.rating > 0)
+      .map(
+        (draft): SubmitReviewRequest => ({
+          subjectType: draft.subject.type,
+          subjectId: draft.subject.id,
+          subjectName: draft.subject.name,
+          rating: draft.rating,
+          tags: draft.tags,
+          comment: draft.comment.trim(),
+          photos: draft.photos.uploaded().map(({ url, thumbnailUrl }): ReviewPhoto => ({ url, thumbnailUrl })),
+        })
+      );
+
+    this.dialogRef.close({ confirmed: true, requests });
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private patchDraft(index: number, changes: Partial<ReviewDraft>): void {
+    this.drafts.update((drafts) => drafts.map((d, i) => (i === index ? { ...d, ...changes } : d)));
+  }
+}
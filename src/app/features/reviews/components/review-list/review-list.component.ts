@@ -0,0 +1,81 @@
+/**
+ * Review List Component
+ * =====================
+ * Rating summary (average, star distribution, most mentioned tags) and
+ * the reviews of a farmer, buyer or crop. Signed-in users can report a
+ * review to the moderators.
+ */
+
+import { Component, ChangeDetectionStrategy, input, output, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatMenuModule } from '@angular/material/menu';
+
+import {
+  Review,
+  ReviewStatus,
+  ReviewTag,
+  REVIEW_REPORT_REASONS,
+  REVIEW_TAG_CONFIG,
+  summarizeReviews,
+} from '../../services/review.service';
+import { StarRatingComponent } from '../star-rating/star-rating.component';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
+import { LocaleNumberPipe } from '@shared/pipes/locale-number.pipe';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
+
+export interface ReviewReport {
+  review: Review;
+  reason: string;
+}
+
+@Component({
+  selector: 'smc-review-list',
+  standalone: true,
+  imports: [CommonModule, MatButtonModule, MatIconModule, MatMenuModule, StarRatingComponent, LocaleDatePipe, LocaleNumberPipe, TranslatePipe],
+  templateUrl: './review-list.component.html',
+  styleUrl: './review-list.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ReviewListComponent {
+  readonly reviews = input.required<Review[]>();
+  /** Show at most this many reviews; 0 shows all */
+  readonly limit = input(0);
+  readonly showSummary = input(true);
+  readonly canReport = input(false);
+
+  readonly report = output<ReviewReport>();
+
+  readonly REVIEW_TAG_CONFIG = REVIEW_TAG_CONFIG;
+  readonly REVIEW_REPORT_REASONS = REVIEW_REPORT_REASONS;
+  readonly ReviewStatus = ReviewStatus;
+
+  readonly summary = computed(() => summarizeReviews(this.reviews()));
+
+  readonly visibleReviews = computed(() => {
+    const limit = this.limit();
+    return limit ? this.reviews().slice(0, limit) : this.reviews();
+  });
+
+  /** Tags by how often reviewers picked them */
+  readonly topTags = computed(() =>
+    (Object.entries(this.summary().tagCounts) as [ReviewTag, number][])
+      .sort(([, a], [, b]) => b - a)
+      .map(([tag, count]) => ({ ...REVIEW_TAG_CONFIG[tag], count }))
+  );
+
+  /** Bar width per star, 5 stars first */
+  readonly distribution = computed(() => {
+    const { distribution, count } = this.summary();
+    return [5, 4, 3, 2, 1].map((star) => ({
+      star,
+      count: distribution[star - 1],
+      percent: count ? (distribution[star - 1] / count) * 100 : 0,
+    }));
+  });
+
+  onReport(review: Review, reason: string): void {
+    this.report.emit({ review, reason });
+  }
+}
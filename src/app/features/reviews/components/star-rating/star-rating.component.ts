@@ -0,0 +1,44 @@
+/**
+ * Star Rating Component
+ * =====================
+ * Five-star rating. Read-only by default (half stars allowed); editable
+ * ratings render as buttons and emit whole stars.
+ */
+
+import { Component, ChangeDetectionStrategy, input, output, signal, computed } from '@angular/core';
+import { MatIconModule } from '@angular/material/icon';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
+
+@Component({
+  selector: 'smc-star-rating',
+  standalone: true,
+  imports: [MatIconModule, TranslatePipe],
+  templateUrl: './star-rating.component.html',
+  styleUrl: './star-rating.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class StarRatingComponent {
+  readonly rating = input(0);
+  readonly editable = input(false);
+  readonly size = input<'sm' | 'md' | 'lg'>('md');
+  /** Used in the accessible labels, e.g. "Rate Ramesh Patil 4 stars" */
+  readonly label = input('');
+
+  readonly ratingChange = output<number>();
+
+  /** Star under the pointer while choosing */
+  readonly hovered = signal(0);
+
+  readonly stars = computed(() => {
+    const value = this.hovered() || this.rating();
+    return [1, 2, 3, 4, 5].map((star) =>
+      value >= star ? 'star' : value >= star - 0.5 && !this.editable() ? 'star_half' : 'star_outline'
+    );
+  });
+
+  readonly ariaLabel = computed(() => `${this.label() ? this.label() + ': ' : ''}${this.rating()} out of 5 stars`);
+
+  onRate(star: number): void {
+    this.ratingChange.emit(star);
+  }
+}
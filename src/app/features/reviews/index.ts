@@ -0,0 +1,11 @@
+/**
+ * Reviews Feature Barrel Export
+ * =============================
+ * Ratings and reviews shared by orders, the marketplace and admin.
+ */
+
+// Services
+export * from './services';
+
+// Components
+export * from './components';
@@ -0,0 +1,6 @@
+/**
+ * Reviews Services Barrel Export
+ * ===============================
+ */
+
+export * from './review.service';
@@ -0,0 +1,547 @@
+/**
+ * Review Service
+ * ==============
+ * Signals-based service for ratings and reviews. After an order is
+ * delivered the buyer rates the farmer and the produce, and the farmer
+ * rates the buyer. Anyone can report a review; admins keep or remove
+ * reported reviews from the moderation queue.
+ */
+
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, of, delay, tap, catchError, throwError, map } from 'rxjs';
+import { environment } from '@environments/environment';
+import { AuthService } from '@core/services/auth.service';
+import { UserRole } from '@domain/models/user.model';
+import { Order } from '@features/orders/services/orders.service';
+
+// ============================================
+// Enums & Types
+// ============================================
+
+export enum ReviewSubjectType {
+  FARMER = 'FARMER',
+  BUYER = 'BUYER',
+  CROP = 'CROP',
+}
+
+export enum ReviewTag {
+  QUALITY = 'QUALITY',
+  PACKAGING = 'PACKAGING',
+  PUNCTUALITY = 'PUNCTUALITY',
+}
+
+export enum ReviewStatus {
+  PUBLISHED = 'PUBLISHED',
+  FLAGGED = 'FLAGGED',
+  REMOVED = 'REMOVED',
+}
+
+// ============================================
+// Interfaces
+// ============================================
+
+export interface ReviewAuthor {
+  readonly id: string;
+  readonly name: string;
+  readonly role: 'BUYER' | 'FARMER';
+}
+
+export interface ReviewPhoto {
+  readonly url: string;
+  readonly thumbnailUrl?: string;
+}
+
+export interface Review {
+  readonly id: string;
+  readonly orderId: string;
+  readonly subjectType: ReviewSubjectType;
+  readonly subjectId: string;
+  readonly subjectName: string;
+  readonly author: ReviewAuthor;
+  /** 1 to 5 stars */
+  readonly rating: number;
+  readonly tags: ReviewTag[];
+  readonly comment: string;
+  readonly photos: ReviewPhoto[];
+  readonly status: ReviewStatus;
+  /** Why the review was reported */
+  readonly flagReason?: string;
+  readonly moderationNote?: string;
+  readonly createdAt: Date;
+}
+
+/** Someone or something that can be reviewed on an order */
+export interface ReviewSubject {
+  readonly type: ReviewSubjectType;
+  readonly id: string;
+  readonly name: string;
+  readonly image?: string;
+}
+
+export interface SubmitReviewRequest {
+  subjectType: ReviewSubjectType;
+  subjectId: string;
+  subjectName: string;
+  rating: number;
+  tags: ReviewTag[];
+  comment: string;
+  photos: ReviewPhoto[];
+}
+
+export interface ReviewSummary {
+  readonly average: number;
+  readonly count: number;
+  /** Review count per star, index 0 holding 1-star reviews */
+  readonly distribution: number[];
+  readonly tagCounts: Partial<Record<ReviewTag, number>>;
+}
+
+interface ReviewState {
+  /** Published reviews keyed by `${subjectType}:${subjectId}` */
+  bySubject: Record<string, Review[]>;
+  /** Reviews the current user left, by order */
+  byOrder: Record<string, Review[]>;
+  moderationQueue: Review[];
+  isLoading: boolean;
+  isSubmitting: boolean;
+  error: string | null;
+}
+
+// ============================================
+// Configurations
+// ============================================
+
+export const REVIEW_TAG_CONFIG: Record<ReviewTag, { label: string; icon: string }> = {
+  [ReviewTag.QUALITY]: { label: 'Quality', icon: 'verified' },
+  [ReviewTag.PACKAGING]: { label: 'Packaging', icon: 'inventory_2' },
+  [ReviewTag.PUNCTUALITY]: { label: 'Punctuality', icon: 'schedule' },
+};
+
+export const REVIEW_STATUS_CONFIG: Record<ReviewStatus, { label: string; badgeClass: string }> = {
+  [ReviewStatus.PUBLISHED]: { label: 'Published', badgeClass: 'smc-badge-success' },
+  [ReviewStatus.FLAGGED]: { label: 'Reported', badgeClass: 'smc-badge-warning' },
+  [ReviewStatus.REMOVED]: { label: 'Removed', badgeClass: 'smc-badge-error' },
+};
+
+/** Reasons offered when reporting a review */
+export const REVIEW_REPORT_REASONS = ['Offensive or abusive', 'Spam or advertising', 'Not about this order'];
+
+export const MAX_REVIEW_PHOTOS = 3;
+
+const subjectKey = (type: ReviewSubjectType, id: string) => `${type}:${id}`;
+
+const reviveReview = (review: Review): Review => ({ ...review, createdAt: new Date(review.createdAt) });
+
+const byNewest = (a: Review, b: Review) => b.createdAt.getTime() - a.createdAt.getTime();
+
+/**
+ * Average, star distribution and tag counts of a set of reviews
+ */
+export function summarizeReviews(reviews: readonly Review[]): ReviewSummary {
+  const distribution = [0, 0, 0, 0, 0];
+  const tagCounts: Partial<Record<ReviewTag, number>> = {};
+  let total = 0;
+
+  reviews.forEach((review) => {
+    distribution[review.rating - 1]++;
+    total += review.rating;
+    review.tags.forEach((tag) => (tagCounts[tag] = (tagCounts[tag] ?? 0) + 1));
+  });
+
+  return {
+    average: reviews.length ? Math.round((total / reviews.length) * 10) / 10 : 0,
+    count: reviews.length,
+    distribution,
+    tagCounts,
+  };
+}
+
+/**
+ * What the current user rates on a delivered order: buyers rate the
+ * farmer and each crop, farmers rate the buyer
+ */
+export function reviewSubjectsFor(order: Order, isFarmerView: boolean): ReviewSubject[] {
+  if (isFarmerView) {
+    return [{ type: ReviewSubjectType.BUYER, id: order.buyer.id, name: order.buyer.name, image: order.buyer.avatar }];
+  }
+
+  return [
+    { type: ReviewSubjectType.FARMER, id: order.farmer.id, name: order.farmer.name, image: order.farmer.avatar },
+    ...order.items.map((item) => ({
+      type: ReviewSubjectType.CROP,
+      id: item.cropId,
+      name: item.cropName,
+      image: item.cropImage,
+    })),
+  ];
+}
+
+@Injectable({ providedIn: 'root' })
+export class ReviewService {
+  private readonly http = inject(HttpClient);
+  private readonly authService = inject(AuthService);
+  private readonly apiUrl = `${environment.apiUrl}/reviews`;
+
+  /** Dev-mode store so reviews survive navigation */
+  private mockReviews: Review[] | null = null;
+
+  // ============================================
+  // State
+  // ============================================
+
+  private readonly _state = signal<ReviewState>({
+    bySubject: {},
+    byOrder: {},
+    moderationQueue: [],
+    isLoading: false,
+    isSubmitting: false,
+    error: null,
+  });
+
+  readonly moderationQueue = computed(() => this._state().moderationQueue);
+  readonly isLoading = computed(() => this._state().isLoading);
+  readonly isSubmitting = computed(() => this._state().isSubmitting);
+  readonly error = computed(() => this._state().error);
+
+  /** Reported reviews awaiting a decision */
+  readonly flaggedCount = computed(
+    () => this._state().moderationQueue.filter((r) => r.status === ReviewStatus.FLAGGED).length
+  );
+
+  // ============================================
+  // Selectors
+  // ============================================
+  // Read from the state signal, so computed() callers update with it
+
+  /** Published reviews of a farmer, buyer or crop, newest first */
+  reviewsFor(type: ReviewSubjectType, id: string): Review[] {
+    return this._state().bySubject[subjectKey(type, id)] ?? [];
+  }
+
+  /** Reviews the current user left on an order */
+  orderReviews(orderId: string): Review[] {
+    return this._state().byOrder[orderId] ?? [];
+  }
+
+  // ============================================
+  // Loading
+  // ============================================
+
+  /**
+   * Load the published reviews of a farmer, buyer or crop
+   */
+  loadReviews(type: ReviewSubjectType, id: string): void {
+    this.updateState({ isLoading: true, error: null });
+
+    const onLoaded = (reviews: Review[]) =>
+      this._state.update((state) => ({
+        ...state,
+        bySubject: { ...state.bySubject, [subjectKey(type, id)]: reviews },
+        isLoading: false,
+      }));
+
+    if (!environment.production) {
+      of(null)
+        .pipe(delay(400))
+        .subscribe(() =>
+          onLoaded(
+            this.getMockStore()
+              .filter((r) => r.subjectType === type && r.subjectId === id && r.status !== ReviewStatus.REMOVED)
+              .sort(byNewest)
+          )
+        );
+      return;
+    }
+
+    this.http
+      .get<Review[]>(this.apiUrl, { params: { subjectType: type, subjectId: id } })
+      .pipe(
+        map((reviews) => reviews.map(reviveReview)),
+        tap(onLoaded),
+        catchError((error) => {
+          this.updateState({ isLoading: false, error: 'Failed to load reviews' });
+          return throwError(() => error);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Load the reviews the current user left on an order
+   */
+  loadOrderReviews(orderId: string): void {
+    if (!environment.production) {
+      const authorId = this.currentAuthor().id;
+      this.setOrderReviews(
+        orderId,
+        this.getMockStore().filter((r) => r.orderId === orderId && r.author.id === authorId)
+      );
+      return;
+    }
+
+    this.http
+      .get<Review[]>(`${this.apiUrl}/mine`, { params: { orderId } })
+      .pipe(
+        map((reviews) => reviews.map(reviveReview)),
+        catchError(() => of([]))
+      )
+      .subscribe((reviews) => this.setOrderReviews(orderId, reviews));
+  }
+
+  /**
+   * Load reviews for moderation, reported ones first (admin)
+   */
+  loadModerationQueue(): void {
+    this.updateState({ isLoading: true, error: null });
+
+    const onLoaded = (reviews: Review[]) =>
+      this.updateState({
+        isLoading: false,
+        moderationQueue: [...reviews].sort(
+          (a, b) =>
+            Number(b.status === ReviewStatus.FLAGGED) - Number(a.status === ReviewStatus.FLAGGED) || byNewest(a, b)
+        ),
+      });
+
+    if (!environment.production) {
+      of(null)
+        .pipe(delay(500))
+        .subscribe(() => onLoaded(this.getMockStore()));
+      return;
+    }
+
+    this.http
+      .get<Review[]>(`${this.apiUrl}/moderation`)
+      .pipe(
+        map((reviews) => reviews.map(reviveReview)),
+        tap(onLoaded),
+        catchError((error) => {
+          this.updateState({ isLoading: false, error: 'Failed to load reviews' });
+          return throwError(() => error);
+        })
+      )
+      .subscribe();
+  }
+
+  // ============================================
+  // Buyer & Farmer Actions
+  // ============================================
+
+  /**
+   * Submit the ratings for a delivered order in one go
+   */
+  submitReviews(orderId: string, requests: SubmitReviewRequest[]): Observable<Review[]> {
+    this.updateState({ isSubmitting: true, error: null });
+
+    const onSubmitted = (reviews: Review[]) => {
+      this.setOrderReviews(orderId, [...(this._state().byOrder[orderId] ?? []), ...reviews]);
+      reviews.forEach((review) => this.upsert(review));
+      this.updateState({ isSubmitting: false });
+    };
+
+    if (!environment.production) {
+      const author = this.currentAuthor();
+      const now = Date.now();
+      const reviews: Review[] = requests.map((request, index) => ({
+        ...request,
+        id: `review_${now}_${index}`,
+        orderId,
+        author,
+        comment: request.comment.trim(),
+        status: ReviewStatus.PUBLISHED,
+        createdAt: new Date(now),
+      }));
+      this.mockReviews = [...reviews, ...this.getMockStore()];
+      return of(reviews).pipe(delay(800), tap(onSubmitted));
+    }
+
+    return this.http.post<Review[]>(this.apiUrl, { orderId, reviews: requests }).pipe(
+      map((reviews) => reviews.map(reviveReview)),
+      tap(onSubmitted),
+      catchError((error) => {
+        this.updateState({ isSubmitting: false, error: 'Failed to submit reviews' });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Report a review to the moderators
+   */
+  flagReview(review: Review, reason: string): Observable<Review> {
+    return this.updateReview(review, `${this.apiUrl}/${review.id}/flag`, { reason }, {
+      status: ReviewStatus.FLAGGED,
+      flagReason: reason,
+    });
+  }
+
+  // ============================================
+  // Admin Actions
+  // ============================================
+
+  /**
+   * Keep a reported review published, or remove it
+   */
+  moderate(review: Review, status: ReviewStatus.PUBLISHED | ReviewStatus.REMOVED, note?: string): Observable<Review> {
+    return this.updateReview(review, `${this.apiUrl}/${review.id}/moderation`, { status, note }, {
+      status,
+      moderationNote: note || undefined,
+    });
+  }
+
+  clearError(): void {
+    this.updateState({ error: null });
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private updateState(partial: Partial<ReviewState>): void {
+    this._state.update((state) => ({ ...state, ...partial }));
+  }
+
+  private setOrderReviews(orderId: string, reviews: Review[]): void {
+    this._state.update((state) => ({ ...state, byOrder: { ...state.byOrder, [orderId]: reviews } }));
+  }
+
+  private updateReview(
+    review: Review,
+    url: string,
+    body: object,
+    changes: Partial<Review>
+  ): Observable<Review> {
+    this.updateState({ isSubmitting: true, error: null });
+
+    const onUpdated = (updated: Review) => {
+      this.upsert(updated);
+      this.updateState({ isSubmitting: false });
+    };
+
+    if (!environment.production) {
+      return of({ ...review, ...changes }).pipe(delay(400), tap(onUpdated));
+    }
+
+    return this.http.post<Review>(url, body).pipe(
+      map(reviveReview),
+      tap(onUpdated),
+      catchError((error) => {
+        this.updateState({ isSubmitting: false, error: 'Failed to update review' });
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /** Replace or add the review wherever it is listed; removed reviews leave public lists */
+  private upsert(review: Review): void {
+    const key = subjectKey(review.subjectType, review.subjectId);
+
+    this._state.update((state) => {
+      // Only lists that have been loaded are kept in sync
+      let bySubject = state.bySubject;
+      const listed = state.bySubject[key];
+      if (listed) {
+        const others = listed.filter((r) => r.id !== review.id);
+        bySubject = {
+          ...bySubject,
+          [key]: review.status === ReviewStatus.REMOVED ? others : [review, ...others].sort(byNewest),
+        };
+      }
+
+      return {
+        ...state,
+        bySubject,
+        moderationQueue: state.moderationQueue.map((r) => (r.id === review.id ? review : r)),
+      };
+    });
+
+    if (this.mockReviews) {
+      this.mockReviews = this.mockReviews.some((r) => r.id === review.id)
+        ? this.mockReviews.map((r) => (r.id === review.id ? review : r))
+        : [review, ...this.mockReviews];
+    }
+  }
+
+  private currentAuthor(): ReviewAuthor {
+    const user = this.authService.currentUser();
+    return {
+      id: user?.id ?? 'guest',
+      name: this.authService.displayName(),
+      role: user?.role === UserRole.FARMER ? 'FARMER' : 'BUYER',
+    };
+  }
+
+  // ============================================
+  // Mock Data
+  // ============================================
+
+  private getMockStore(): Review[] {
+    this.mockReviews ??= this.getMockReviews();
+    return this.mockReviews;
+  }
+
+  private getMockReviews(): Review[] {
+    const day = 24 * 60 * 60 * 1000;
+    const now = Date.now();
+    const buyers: ReviewAuthor[] = [
+      { id: 'buyer_1', name: 'Fresh Mart Supermarket', role: 'BUYER' },
+      { id: 'buyer_2', name: 'Hotel Grand Palace', role: 'BUYER' },
+      { id: 'buyer_3', name: 'Green Grocers', role: 'BUYER' },
+    ];
+    const farmer: ReviewAuthor = { id: 'farmer_1', name: 'Ramesh Patil', role: 'FARMER' };
+    const review = (
+      id: string,
+      subjectType: ReviewSubjectType,
+      subjectId: string,
+      subjectName: string,
+      author: ReviewAuthor,
+      rating: number,
+      tags: ReviewTag[],
+      comment: string,
+      daysAgo: number,
+      extra: Partial<Review> = {}
+    ): Review => ({
+      id,
+      orderId: `order_past_${id}`,
+      subjectType,
+      subjectId,
+      subjectName,
+      author,
+      rating,
+      tags,
+      comment,
+      photos: [],
+      status: ReviewStatus.PUBLISHED,
+      createdAt: new Date(now - daysAgo * day),
+      ...extra,
+    });
+
+    return [
+      review('review_1', ReviewSubjectType.FARMER, 'farmer_1', 'Ramesh Patil', buyers[0], 5,
+        [ReviewTag.QUALITY, ReviewTag.PUNCTUALITY], 'Consistent quality and always on time. Our go-to supplier for tomatoes.', 3),
+      review('review_2', ReviewSubjectType.FARMER, 'farmer_1', 'Ramesh Patil', buyers[1], 4,
+        [ReviewTag.PACKAGING], 'Well packed crates, a couple of boxes arrived a few hours late.', 12),
+      review('review_3', ReviewSubjectType.FARMER, 'farmer_1', 'Ramesh Patil', buyers[2], 5,
+        [ReviewTag.QUALITY], 'Great produce, fair prices and quick to respond on chat.', 30),
+      review('review_4', ReviewSubjectType.CROP, 'crop_1', 'Organic Tomatoes', buyers[0], 5,
+        [ReviewTag.QUALITY, ReviewTag.PACKAGING], 'Firm, evenly ripe tomatoes with hardly any wastage.', 3, {
+          photos: [
+            {
+              url: 'https://images.unsplash.com/photo-1546470427-227c7d3c5d82?w=800',
+              thumbnailUrl: 'https://images.unsplash.com/photo-1546470427-227c7d3c5d82?w=200',
+            },
+          ],
+        }),
+      review('review_5', ReviewSubjectType.CROP, 'crop_1', 'Organic Tomatoes', buyers[2], 3,
+        [], 'Good taste but about 10% were overripe on arrival.', 20),
+      review('review_6', ReviewSubjectType.FARMER, 'farmer_1', 'Ramesh Patil', buyers[1], 1,
+        [], 'Worst seller ever!!! Call me for better deals on 98XXXXXX10', 1, {
+          status: ReviewStatus.FLAGGED,
+          flagReason: 'Spam or advertising',
+        }),
+      review('review_7', ReviewSubjectType.BUYER, 'buyer_1', 'Fresh Mart Supermarket', farmer, 5,
+        [ReviewTag.PUNCTUALITY], 'Paid on delivery and the pickup team was on time.', 5),
+    ];
+  }
+}
@@ -0,0 +1,58 @@
+import { Injectable, signal, computed, OnDestroy } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+
+/**
+ * Connectivity Service
+ * ====================
+ * Tracks browser online/offline state as signals.
+ * Emits on reconnection so queued work can be flushed.
+ */
+@Injectable({ providedIn: 'root' })
+export class ConnectivityService implements OnDestroy {
+  private readonly _isOnline = signal(
+    typeof navigator === 'undefined' ? true : navigator.onLine
+  );
+  private readonly _lastChangedAt = signal<Date | null>(null);
+  private readonly reconnected = new Subject<void>();
+
+  private readonly onOnline = () => this.setOnline(true);
+  private readonly onOffline = () => this.setOnline(false);
+
+  /** Browser reports a network connection */
+  readonly isOnline = this._isOnline.asReadonly();
+
+  /** Browser reports no network connection */
+  readonly isOffline = computed(() => !this._isOnline());
+
+  /** When connectivity last changed */
+  readonly lastChangedAt = this._lastChangedAt.asReadonly();
+
+  /** Emits each time the connection comes back */
+  readonly reconnected$: Observable<void> = this.reconnected.asObservable();
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.onOnline);
+      window.addEventListener('offline', this.onOffline);
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.onOnline);
+      window.removeEventListener('offline', this.onOffline);
+    }
+    this.reconnected.complete();
+  }
+
+  private setOnline(isOnline: boolean): void {
+    if (this._isOnline() === isOnline) return;
+
+    this._isOnline.set(isOnline);
+    this._lastChangedAt.set(new Date());
+
+    if (isOnline) {
+      this.reconnected.next();
+    }
+  }
+}
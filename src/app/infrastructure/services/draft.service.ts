@@ -0,0 +1,153 @@
+import { Injectable, inject, signal, computed, effect, DestroyRef } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { AbstractControl } from '@angular/forms';
+import { EMPTY, Observable, fromEvent, merge } from 'rxjs';
+import { debounceTime, filter } from 'rxjs/operators';
+import { AuthService } from '@core/services/auth.service';
+import { OfflineStoreService, StoredDraft } from './offline-store.service';
+
+/** Quiet period after the last change before a draft is written */
+const AUTOSAVE_DEBOUNCE_MS = 1000;
+
+/**
+ * Form contents worth keeping; the service adds key, owner and timestamp
+ */
+export type DraftSnapshot = Pick<StoredDraft, 'title' | 'values' | 'files' | 'baseVersion'>;
+
+/** Options for `DraftService.autosave` */
+export interface DraftAutosaveOptions {
+  /** Draft key for the current record, or null while nothing should be saved */
+  readonly key: () => string | null;
+  /** Form the draft is restored into, e.g. "crop" */
+  readonly form: string;
+  readonly control: AbstractControl;
+  /** Changes outside the form, e.g. picked images */
+  readonly changes?: Observable<unknown>;
+  /** Current contents, or null when there is nothing worth keeping */
+  readonly snapshot: () => DraftSnapshot | null;
+  readonly destroyRef: DestroyRef;
+}
+
+/**
+ * Draft Service
+ * =============
+ * Keeps half-filled forms, including picked images, in IndexedDB so they
+ * survive a dropped connection or a closed app, and lists them for the
+ * signed-in user. Drafts are per device and never leave it.
+ */
+@Injectable({ providedIn: 'root' })
+export class DraftService {
+  private readonly store = inject(OfflineStoreService);
+  private readonly authService = inject(AuthService);
+
+  private readonly _drafts = signal<StoredDraft[]>([]);
+
+  /** Drafts of the signed-in user, most recent first */
+  readonly drafts = this._drafts.asReadonly();
+  readonly count = computed(() => this._drafts().length);
+
+  constructor() {
+    // Reload whenever the signed-in user changes
+    effect(() => {
+      const userId = this.authService.currentUser()?.id;
+      if (userId) {
+        this.refresh();
+      } else {
+        this._drafts.set([]);
+      }
+    });
+  }
+
+  // ============================================
+  // Public Methods
+  // ============================================
+
+  /**
+   * The signed-in user's draft for a key, if any
+   */
+  async get(key: string): Promise<StoredDraft | null> {
+    const userId = this.userId();
+    if (!userId || !this.store.isSupported) return null;
+
+    const draft = await this.store.getDraft(key).catch(() => null);
+    return draft?.userId === userId ? draft : null;
+  }
+
+  /**
+   * Most recent draft of a new, not yet submitted record of a form
+   */
+  async latestNew(form: string): Promise<StoredDraft | null> {
+    const userId = this.userId();
+    if (!userId || !this.store.isSupported) return null;
+
+    const drafts = await this.store.listDrafts(userId).catch(() => []);
+    return drafts.find((d) => d.form === form && d.key.startsWith(`${form}:new-`)) ?? null;
+  }
+
+  async save(key: string, form: string, snapshot: DraftSnapshot): Promise<void> {
+    const userId = this.userId();
+    if (!userId || !this.store.isSupported) return;
+
+    const draft: StoredDraft = { ...snapshot, key, form, userId, savedAt: Date.now() };
+    await this.store.putDraft(draft);
+    this._drafts.update((drafts) => [draft, ...drafts.filter((d) => d.key !== key)]);
+  }
+
+  async discard(key: string): Promise<void> {
+    this._drafts.update((drafts) => drafts.filter((d) => d.key !== key));
+    if (this.store.isSupported) await this.store.removeDraft(key).catch(() => undefined);
+  }
+
+  /**
+   * Save a draft shortly after the form or `changes` change, and at once
+   * if the app is hidden (switched away from or closed) before that.
+   */
+  autosave(options: DraftAutosaveOptions): void {
+    let hasUnsaved = false;
+    const changes$ = merge(options.control.valueChanges, options.changes ?? EMPTY);
+    const hidden$ =
+      typeof document === 'undefined'
+        ? EMPTY
+        : fromEvent(document, 'visibilitychange').pipe(filter(() => document.visibilityState === 'hidden'));
+
+    changes$.pipe(takeUntilDestroyed(options.destroyRef)).subscribe(() => (hasUnsaved = true));
+
+    merge(changes$.pipe(debounceTime(AUTOSAVE_DEBOUNCE_MS)), hidden$)
+      .pipe(
+        filter(() => hasUnsaved),
+        takeUntilDestroyed(options.destroyRef)
+      )
+      .subscribe(() => {
+        hasUnsaved = false;
+        const key = options.key();
+        const snapshot = options.snapshot();
+        if (!key || !snapshot) return;
+
+        this.save(key, options.form, snapshot).catch((error) => console.error('Failed to save draft:', error));
+      });
+  }
+
+  /** Key for a new, not yet submitted record of a form */
+  newKey(form: string): string {
+    return `${form}:new-${Date.now().toString(36)}`;
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private userId(): string | null {
+    return this.authService.currentUser()?.id ?? null;
+  }
+
+  private async refresh(): Promise<void> {
+    const userId = this.userId();
+    if (!userId || !this.store.isSupported) return;
+
+    try {
+      this._drafts.set(await this.store.listDrafts(userId));
+    } catch (error) {
+      console.error('Failed to load drafts:', error);
+    }
+  }
+}
@@ -4,3 +4,7 @@
  */
 
 export * from './socket.service';
+export * from './connectivity.service';
+export * from './offline-store.service';
+export * from './request-queue.service';
+export * from './draft.service';
@@ -0,0 +1,230 @@
+import { Injectable } from '@angular/core';
+import { environment } from '@environments/environment';
+
+/**
+ * Cached GET response
+ */
+export interface CachedResponse {
+  /** Request URL including query string */
+  readonly key: string;
+  readonly body: unknown;
+  readonly status: number;
+  readonly cachedAt: number;
+}
+
+/**
+ * Request body in a form IndexedDB can store
+ */
+export type StoredBody =
+  | { readonly kind: 'json'; readonly value: unknown }
+  | { readonly kind: 'form-data'; readonly entries: [string, FormDataEntryValue][] };
+
+/**
+ * Mutating request waiting to be sent
+ */
+export interface QueuedRequest {
+  readonly id?: number;
+  /** Human-readable description, e.g. "Accept bid" */
+  readonly label: string;
+  readonly method: string;
+  readonly url: string;
+  readonly body: StoredBody | null;
+  readonly headers: Record<string, string>;
+  readonly queuedAt: number;
+  readonly attempts: number;
+  readonly lastError?: string;
+}
+
+/**
+ * Unsaved form contents, kept so a closed tab or dropped network loses nothing
+ */
+export interface StoredDraft {
+  /** One draft per form, e.g. "crop:new" or "product:42" */
+  readonly key: string;
+  readonly userId: string;
+  /** Form the draft was saved from, e.g. "crop" */
+  readonly form: string;
+  readonly title: string;
+  readonly values: Record<string, unknown>;
+  /** Images picked but not yet saved with the form */
+  readonly files: File[];
+  /** Server `updatedAt` of the record being edited, when editing began */
+  readonly baseVersion: string | null;
+  readonly savedAt: number;
+}
+
+const DB_NAME = 'smc_offline';
+const DB_VERSION = 2;
+const RESPONSES = 'responses';
+const QUEUE = 'queue';
+const DRAFTS = 'drafts';
+
+/**
+ * Offline Store Service
+ * =====================
+ * Thin promise-based wrapper over IndexedDB holding the GET response
+ * cache, the queue of mutating requests made while offline and form drafts.
+ * Cache freshness and size follow `environment.cache`.
+ */
+@Injectable({ providedIn: 'root' })
+export class OfflineStoreService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /** IndexedDB is available in this browser */
+  readonly isSupported = typeof indexedDB !== 'undefined';
+
+  // ============================================
+  // Response Cache
+  // ============================================
+
+  /**
+   * Get a cached response, or null if missing or older than the cache TTL
+   */
+  async getResponse(key: string): Promise<CachedResponse | null> {
+    const cached = await this.request<CachedResponse | undefined>(RESPONSES, 'readonly', (store) =>
+      store.get(key)
+    );
+    if (!cached) return null;
+
+    if (Date.now() - cached.cachedAt > environment.cache.ttl) {
+      await this.request(RESPONSES, 'readwrite', (store) => store.delete(key));
+      return null;
+    }
+    return cached;
+  }
+
+  /**
+   * Cache a response, evicting the oldest entries beyond the cache size limit
+   */
+  async putResponse(key: string, body: unknown, status: number): Promise<void> {
+    await this.request(RESPONSES, 'readwrite', (store) =>
+      store.put({ key, body, status, cachedAt: Date.now() } satisfies CachedResponse)
+    );
+    await this.evictResponses();
+  }
+
+  /**
+   * Drop all cached responses
+   */
+  async clearResponses(): Promise<void> {
+    await this.request(RESPONSES, 'readwrite', (store) => store.clear());
+  }
+
+  // ============================================
+  // Request Queue
+  // ============================================
+
+  /**
+   * Add a request to the queue and return its ID
+   */
+  async enqueue(request: Omit<QueuedRequest, 'id'>): Promise<number> {
+    return this.request<IDBValidKey>(QUEUE, 'readwrite', (store) => store.add(request)) as Promise<number>;
+  }
+
+  /**
+   * All queued requests, oldest first
+   */
+  async listQueue(): Promise<QueuedRequest[]> {
+    return this.request<QueuedRequest[]>(QUEUE, 'readonly', (store) => store.getAll());
+  }
+
+  async updateQueued(request: QueuedRequest): Promise<void> {
+    await this.request(QUEUE, 'readwrite', (store) => store.put(request));
+  }
+
+  async removeQueued(id: number): Promise<void> {
+    await this.request(QUEUE, 'readwrite', (store) => store.delete(id));
+  }
+
+  async clearQueue(): Promise<void> {
+    await this.request(QUEUE, 'readwrite', (store) => store.clear());
+  }
+
+  // ============================================
+  // Drafts
+  // ============================================
+
+  async getDraft(key: string): Promise<StoredDraft | null> {
+    return (await this.request<StoredDraft | undefined>(DRAFTS, 'readonly', (store) => store.get(key))) ?? null;
+  }
+
+  /**
+   * Drafts of one user, most recently saved first
+   */
+  async listDrafts(userId: string): Promise<StoredDraft[]> {
+    const drafts = await this.request<StoredDraft[]>(DRAFTS, 'readonly', (store) =>
+      store.index('userId').getAll(userId)
+    );
+    return drafts.sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  async putDraft(draft: StoredDraft): Promise<void> {
+    await this.request(DRAFTS, 'readwrite', (store) => store.put(draft));
+  }
+
+  async removeDraft(key: string): Promise<void> {
+    await this.request(DRAFTS, 'readwrite', (store) => store.delete(key));
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.isSupported) {
+      return Promise.reject(new Error('IndexedDB is not supported'));
+    }
+
+    this.dbPromise ??= new Promise((resolve, reject) => {
+      const open = indexedDB.open(DB_NAME, DB_VERSION);
+
+      open.onupgradeneeded = () => {
+        const db = open.result;
+        if (!db.objectStoreNames.contains(RESPONSES)) {
+          db.createObjectStore(RESPONSES, { keyPath: 'key' }).createIndex('cachedAt', 'cachedAt');
+        }
+        if (!db.objectStoreNames.contains(QUEUE)) {
+          db.createObjectStore(QUEUE, { keyPath: 'id', autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(DRAFTS)) {
+          db.createObjectStore(DRAFTS, { keyPath: 'key' }).createIndex('userId', 'userId');
+        }
+      };
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => {
+        this.dbPromise = null;
+        reject(open.error);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  private async request<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.openDb();
+
+    return new Promise<T>((resolve, reject) => {
+      const req = action(db.transaction(storeName, mode).objectStore(storeName));
+      req.onsuccess = () => resolve(req.result as T);
+      req.onerror = () => reject(req.error);
+    });
+  }
+
+  private async evictResponses(): Promise<void> {
+    const count = await this.request<number>(RESPONSES, 'readonly', (store) => store.count());
+    const excess = count - environment.cache.maxItems;
+    if (excess <= 0) return;
+
+    // Oldest entries first by cachedAt index
+    const oldestKeys = await this.request<IDBValidKey[]>(RESPONSES, 'readonly', (store) =>
+      store.index('cachedAt').getAllKeys(null, excess)
+    );
+    await Promise.all(
+      oldestKeys.map((key) => this.request(RESPONSES, 'readwrite', (store) => store.delete(key)))
+    );
+  }
+}
@@ -0,0 +1,254 @@
+import { Injectable, inject, signal, computed, effect, Injector, OnDestroy } from '@angular/core';
+import {
+  HttpClient,
+  HttpErrorResponse,
+  HttpHeaders,
+  HttpRequest,
+} from '@angular/common/http';
+import { Subject, firstValueFrom, timer } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { AuthService } from '@core/services/auth.service';
+import { NotificationService } from '@core/services/notification.service';
+import { ConnectivityService } from './connectivity.service';
+import { OfflineStoreService, QueuedRequest, StoredBody } from './offline-store.service';
+
+/**
+ * Header marking a mutating request as safe to queue while offline.
+ * Its value is the label shown to the user, e.g. `Accept bid`.
+ */
+export const OFFLINE_QUEUE_HEADER = 'X-Offline-Queue';
+
+/** Header marking a request as a replay from the queue */
+export const OFFLINE_REPLAY_HEADER = 'X-Offline-Replay';
+
+/** Transient failures tolerated before a queued request is marked failed */
+const MAX_ATTEMPTS = 5;
+
+/** Base and maximum delay between retries */
+const RETRY_BASE_MS = 15000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+/**
+ * Raised instead of a network error when a request was queued for later
+ */
+export class OfflineQueuedError extends Error {
+  constructor(readonly queueId: number, readonly label: string) {
+    super(`${label} saved offline and will be sent when you reconnect`);
+    this.name = 'OfflineQueuedError';
+  }
+}
+
+/**
+ * Request Queue Service
+ * =====================
+ * Persists mutating requests made while offline and replays them in
+ * order when connectivity returns, retrying transient failures with backoff.
+ */
+@Injectable({ providedIn: 'root' })
+export class RequestQueueService implements OnDestroy {
+  private readonly injector = inject(Injector);
+  private readonly store = inject(OfflineStoreService);
+  private readonly connectivity = inject(ConnectivityService);
+  private readonly authService = inject(AuthService);
+  private readonly notificationService = inject(NotificationService);
+  private readonly destroy$ = new Subject<void>();
+  private readonly retry$ = new Subject<void>();
+
+  // ============================================
+  // State Signals
+  // ============================================
+
+  private readonly _queue = signal<QueuedRequest[]>([]);
+  private readonly _isSyncing = signal(false);
+  private readonly _lastSyncedAt = signal<Date | null>(null);
+
+  /** Requests waiting to be sent */
+  readonly pending = computed(() => this._queue().filter((r) => r.attempts < MAX_ATTEMPTS));
+
+  /** Requests that gave up after repeated or permanent failures */
+  readonly failed = computed(() => this._queue().filter((r) => r.attempts >= MAX_ATTEMPTS));
+
+  readonly pendingCount = computed(() => this.pending().length);
+  readonly failedCount = computed(() => this.failed().length);
+  readonly isSyncing = this._isSyncing.asReadonly();
+  readonly lastSyncedAt = this._lastSyncedAt.asReadonly();
+
+  constructor() {
+    this.refresh().then(() => this.flush());
+
+    this.connectivity.reconnected$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.flush());
+
+    // Queued requests belong to the signed-in user
+    effect(() => {
+      if (!this.authService.isAuthenticated() && this.store.isSupported) {
+        this.store.clearQueue().then(() => this._queue.set([])).catch(() => undefined);
+        this.store.clearResponses().catch(() => undefined);
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  // ============================================
+  // Public Methods
+  // ============================================
+
+  /**
+   * Persist a request for later delivery
+   */
+  async enqueue(req: HttpRequest<unknown>, label: string): Promise<number> {
+    const id = await this.store.enqueue({
+      label,
+      method: req.method,
+      url: req.urlWithParams,
+      body: this.serializeBody(req.body),
+      headers: this.serializeHeaders(req.headers),
+      queuedAt: Date.now(),
+      attempts: 0,
+    });
+    await this.refresh();
+    return id;
+  }
+
+  /**
+   * Send queued requests in order. Stops at the first transient failure
+   * and schedules a retry with exponential backoff.
+   */
+  async flush(): Promise<void> {
+    if (this._isSyncing() || this.connectivity.isOffline() || !this.store.isSupported) return;
+
+    this._isSyncing.set(true);
+    let sent = 0;
+
+    try {
+      for (const request of await this.store.listQueue()) {
+        if (request.attempts >= MAX_ATTEMPTS) continue;
+
+        try {
+          await this.send(request);
+          await this.store.removeQueued(request.id!);
+          sent++;
+        } catch (error) {
+          const transient =
+            error instanceof HttpErrorResponse && (error.status === 0 || error.status >= 500);
+          const attempts = transient ? request.attempts + 1 : MAX_ATTEMPTS;
+
+          await this.store.updateQueued({
+            ...request,
+            attempts,
+            lastError: error instanceof HttpErrorResponse ? error.message : String(error),
+          });
+
+          if (transient) {
+            this.scheduleRetry(attempts);
+            break;
+          }
+          this.notificationService.error(`${request.label} could not be synced`);
+        }
+      }
+    } finally {
+      await this.refresh();
+      this._isSyncing.set(false);
+    }
+
+    if (sent > 0) {
+      this._lastSyncedAt.set(new Date());
+      this.notificationService.success(
+        `${sent} offline change${sent === 1 ? '' : 's'} synced`
+      );
+    }
+  }
+
+  /**
+   * Give failed requests another set of attempts
+   */
+  async retryFailed(): Promise<void> {
+    await Promise.all(
+      this.failed().map((request) =>
+        this.store.updateQueued({ ...request, attempts: 0, lastError: undefined })
+      )
+    );
+    await this.refresh();
+    await this.flush();
+  }
+
+  /**
+   * Drop failed requests
+   */
+  async discardFailed(): Promise<void> {
+    await Promise.all(this.failed().map((request) => this.store.removeQueued(request.id!)));
+    await this.refresh();
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private async refresh(): Promise<void> {
+    if (!this.store.isSupported) return;
+
+    try {
+      this._queue.set(await this.store.listQueue());
+    } catch {
+      this._queue.set([]);
+    }
+  }
+
+  private send(request: QueuedRequest): Promise<unknown> {
+    // Resolved lazily: HttpClient runs the interceptor that depends on this service
+    const http = this.injector.get(HttpClient);
+
+    return firstValueFrom(
+      http.request(request.method, request.url, {
+        body: this.deserializeBody(request.body),
+        headers: new HttpHeaders({
+          ...request.headers,
+          [OFFLINE_REPLAY_HEADER]: 'true',
+          'X-Skip-Loading': 'true',
+        }),
+      })
+    );
+  }
+
+  private scheduleRetry(attempts: number): void {
+    this.retry$.next();
+    const delayMs = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+
+    timer(delayMs)
+      .pipe(takeUntil(this.retry$), takeUntil(this.destroy$))
+      .subscribe(() => this.flush());
+  }
+
+  private serializeBody(body: unknown): StoredBody | null {
+    if (body === null || body === undefined) return null;
+    if (body instanceof FormData) {
+      const entries: [string, FormDataEntryValue][] = [];
+      body.forEach((value, key) => entries.push([key, value]));
+      return { kind: 'form-data', entries };
+    }
+    return { kind: 'json', value: body };
+  }
+
+  private deserializeBody(body: StoredBody | null): unknown {
+    if (!body) return null;
+    if (body.kind === 'form-data') {
+      const formData = new FormData();
+      body.entries.forEach(([key, value]) => formData.append(key, value));
+      return formData;
+    }
+    return body.value;
+  }
+
+  /** Keep custom headers; auth is re-applied by the interceptor on replay */
+  private serializeHeaders(headers: HttpHeaders): Record<string, string> {
+    return headers
+      .keys()
+      .filter((key) => !['authorization', OFFLINE_QUEUE_HEADER.toLowerCase()].includes(key.toLowerCase()))
+      .reduce((acc, key) => ({ ...acc, [key]: headers.get(key) ?? '' }), {} as Record<string, string>);
+  }
+}
@@ -20,7 +20,14 @@ export interface SocketEvents {
   'bid:rejected': BidEvent;
   'bid:expired': { bidId: string; cropId: string };
   'price:update': PriceUpdateEvent;
+  'listing:new': ListingEvent;
   'notification': NotificationEvent;
+  'chat:message': ChatMessageEvent;
+  'chat:typing': ChatTypingEvent;
+  'chat:delivered': ChatReceiptEvent;
+  'chat:read': ChatReceiptEvent;
+  'chat:presence': ChatPresenceEvent;
+  'order:location': OrderLocationEvent;
 }
 
 export interface BidEvent {
@@ -31,6 +38,20 @@ export interface BidEvent {
   amount: number;
   quantity: number;
   message?: string;
+  status?: string;
+  expiresAt?: Date;
+  /** Latest negotiation offer, present on counter-offers */
+  offer?: BidOfferEvent;
+  timestamp: Date;
+}
+
+export interface BidOfferEvent {
+  offerId: string;
+  offeredBy: 'BUYER' | 'FARMER';
+  amount: number;
+  quantity: number;
+  deliveryDate: Date;
+  message?: string;
   timestamp: Date;
 }
 
@@ -39,6 +60,22 @@ export interface PriceUpdateEvent {
   cropName: string;
   oldPrice: number;
   newPrice: number;
+  /** Set for mandi rate updates */
+  mandiName?: string;
+  unit?: string;
+  timestamp: Date;
+}
+
+export interface ListingEvent {
+  cropId: string;
+  cropName: string;
+  category: string;
+  farmerName: string;
+  farmerLocation: string;
+  price: number;
+  unit: string;
+  quantity: number;
+  isOrganic: boolean;
   timestamp: Date;
 }
 
@@ -50,6 +87,50 @@ export interface NotificationEvent {
   timestamp: Date;
 }
 
+export interface ChatMessageEvent {
+  messageId: string;
+  threadId: string;
+  senderId: string;
+  senderName: string;
+  content: string;
+  clientId?: string;
+  timestamp: Date;
+}
+
+export interface ChatTypingEvent {
+  threadId: string;
+  userId: string;
+  isTyping: boolean;
+}
+
+export interface ChatReceiptEvent {
+  threadId: string;
+  userId: string;
+  messageIds: string[];
+  timestamp: Date;
+}
+
+export interface ChatPresenceEvent {
+  userId: string;
+  isOnline: boolean;
+  lastSeen?: Date;
+}
+
+export interface OrderLocationEvent {
+  orderId: string;
+  latitude: number;
+  longitude: number;
+  /** Degrees clockwise from north */
+  heading?: number;
+  /** km/h */
+  speed?: number;
+  /** Remaining route as [latitude, longitude] pairs, sent when the partner re-routes */
+  route?: [number, number][];
+  /** Set when the delivery changes state, e.g. OUT_FOR_DELIVERY or DELIVERED */
+  status?: string;
+  timestamp: Date;
+}
+
 /**
  * Socket Service
  * ==============
@@ -90,10 +171,17 @@ export class SocketService implements OnDestroy {
   // ============================================
 
   /**
-   * Connect to socket server
+   * Connect to socket server. Safe to call from every feature that needs
+   * the socket: one socket is kept, so listeners registered through `on()`
+   * stay bound to it.
    */
   connect(): void {
-    if (this.socket?.connected) {
+    if (this.socket) {
+      // Connecting, connected or retrying on its own; otherwise reopen the same socket
+      if (!this.socket.active) {
+        this._connectionState.set('connecting');
+        this.socket.connect();
+      }
       return;
     }
 
@@ -283,6 +371,34 @@ export class SocketService implements OnDestroy {
     this.leaveRoom(`crop:${cropId}:bids`);
   }
 
+  /**
+   * Join chat thread room
+   */
+  joinChatRoom(threadId: string): void {
+    this.joinRoom(`chat:${threadId}`);
+  }
+
+  /**
+   * Leave chat thread room
+   */
+  leaveChatRoom(threadId: string): void {
+    this.leaveRoom(`chat:${threadId}`);
+  }
+
+  /**
+   * Join order tracking room
+   */
+  joinOrderRoom(orderId: string): void {
+    this.joinRoom(`order:${orderId}`);
+  }
+
+  /**
+   * Leave order tracking room
+   */
+  leaveOrderRoom(orderId: string): void {
+    this.leaveRoom(`order:${orderId}`);
+  }
+
   ngOnDestroy(): void {
     this.destroy$.next();
     this.destroy$.complete();
@@ -0,0 +1,56 @@
+import { Component, ChangeDetectionStrategy, inject, computed } from '@angular/core';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { ConnectivityService } from '@infrastructure/services/connectivity.service';
+import { RequestQueueService } from '@infrastructure/services/request-queue.service';
+import { TranslationService } from '@core/services/translation.service';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
+
+/**
+ * Connectivity Banner Component
+ * =============================
+ * Tells the user when they are offline, when queued changes are
+ * syncing, and when some changes could not be synced.
+ */
+@Component({
+  selector: 'smc-connectivity-banner',
+  standalone: true,
+  imports: [MatIconModule, MatButtonModule, TranslatePipe],
+  templateUrl: './connectivity-banner.component.html',
+  styleUrl: './connectivity-banner.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ConnectivityBannerComponent {
+  private readonly connectivity = inject(ConnectivityService);
+  private readonly requestQueue = inject(RequestQueueService);
+  private readonly translation = inject(TranslationService);
+  private readonly snackBar = inject(MatSnackBar);
+
+  readonly isOffline = this.connectivity.isOffline;
+  readonly isSyncing = this.requestQueue.isSyncing;
+  readonly pendingCount = this.requestQueue.pendingCount;
+  readonly failedCount = this.requestQueue.failedCount;
+
+  /** Banner has something to say */
+  readonly isVisible = computed(
+    () => this.isOffline() || this.isSyncing() || this.failedCount() > 0
+  );
+
+  retry(): void {
+    this.requestQueue.retryFailed().catch(() => this.showQueueError());
+  }
+
+  discard(): void {
+    this.requestQueue.discardFailed().catch(() => this.showQueueError());
+  }
+
+  /** The offline queue lives in IndexedDB, which can fail (quota, private mode) */
+  private showQueueError(): void {
+    this.snackBar.open(
+      this.translation.translate('connectivity.queueError'),
+      this.translation.translate('common.close'),
+      { duration: 4000 }
+    );
+  }
+}
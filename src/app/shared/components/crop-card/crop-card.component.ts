@@ -11,7 +11,7 @@ import {
   output,
   computed,
 } from '@angular/core';
-import { CommonModule, CurrencyPipe, DatePipe } from '@angular/common';
+import { CommonModule } from '@angular/common';
 import { RouterLink } from '@angular/router';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
@@ -22,6 +22,7 @@ import { MatTooltipModule } from '@angular/material/tooltip';
 
 import { StatusChipComponent } from '../status-chip/status-chip.component';
 import { PriceBadgeComponent } from '../price-badge/price-badge.component';
+import { LocaleDatePipe } from '@shared/pipes/locale-date.pipe';
 
 // ============================================
 // Interfaces
@@ -67,10 +68,9 @@ export type CropCardVariant = 'default' | 'compact' | 'horizontal' | 'detailed';
     MatChipsModule,
     MatRippleModule,
     MatTooltipModule,
-    CurrencyPipe,
-    DatePipe,
     StatusChipComponent,
     PriceBadgeComponent,
+    LocaleDatePipe,
   ],
   templateUrl: './crop-card.component.html',
   styleUrl: './crop-card.component.scss',
@@ -0,0 +1,40 @@
+import { Component, ChangeDetectionStrategy, input, output, computed } from '@angular/core';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { StoredDraft } from '@infrastructure/services/offline-store.service';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
+
+const formatTime = (time: number | string) =>
+  new Date(time).toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Draft Banner Component
+ * ======================
+ * Offers to resume an unsaved form draft. When the record was changed on
+ * the server after the draft was started, says so before the user resumes.
+ */
+@Component({
+  selector: 'smc-draft-banner',
+  standalone: true,
+  imports: [MatIconModule, MatButtonModule, TranslatePipe],
+  templateUrl: './draft-banner.component.html',
+  styleUrl: './draft-banner.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class DraftBannerComponent {
+  readonly draft = input.required<StoredDraft>();
+  /** Server `updatedAt` of the record the draft edits, if any */
+  readonly serverVersion = input<string | null>(null);
+
+  readonly resume = output<void>();
+  readonly discard = output<void>();
+
+  readonly savedAt = computed(() => formatTime(this.draft().savedAt));
+
+  /** The record changed on the server since the draft was started */
+  readonly conflictAt = computed(() => {
+    const server = this.serverVersion();
+    const base = this.draft().baseVersion;
+    return server && base && server !== base ? formatTime(server) : null;
+  });
+}
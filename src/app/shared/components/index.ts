@@ -13,6 +13,9 @@ export * from './price-badge/price-badge.component';
 export * from './status-chip/status-chip.component';
 export * from './loader/loader.component';
 export * from './loading-bar/loading-bar.component';
+export * from './connectivity-banner/connectivity-banner.component';
+export * from './voice-input-button/voice-input-button.component';
+export * from './draft-banner/draft-banner.component';
 
 // Accessibility Components
 export * from './skip-link/skip-link.component';
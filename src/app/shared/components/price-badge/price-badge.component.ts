@@ -5,7 +5,8 @@
  */
 
 import { Component, ChangeDetectionStrategy, input, computed } from '@angular/core';
-import { CommonModule, CurrencyPipe } from '@angular/common';
+import { CommonModule } from '@angular/common';
+import { LocaleCurrencyPipe } from '@shared/pipes/locale-currency.pipe';
 
 export type PriceBadgeSize = 'small' | 'medium' | 'large';
 export type PriceBadgeVariant = 'default' | 'highlight' | 'subtle' | 'inverted';
@@ -13,7 +14,7 @@ export type PriceBadgeVariant = 'default' | 'highlight' | 'subtle' | 'inverted';
 @Component({
   selector: 'smc-price-badge',
   standalone: true,
-  imports: [CommonModule, CurrencyPipe],
+  imports: [CommonModule, LocaleCurrencyPipe],
   templateUrl: './price-badge.component.html',
   styleUrl: './price-badge.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
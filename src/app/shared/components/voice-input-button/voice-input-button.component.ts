@@ -0,0 +1,79 @@
+import { Component, ChangeDetectionStrategy, inject, input, output, signal, DestroyRef } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { TranslationService } from '@core/services/translation.service';
+import { VoiceInputService, VoiceInputError } from '@shared/services/voice-input.service';
+import { TranslatePipe } from '@shared/pipes/translate.pipe';
+
+/**
+ * Voice Input Button Component
+ * ============================
+ * Microphone button that dictates one utterance and emits the transcript.
+ * Renders nothing where the browser has no speech recognition.
+ *
+ * Usage:
+ * <smc-voice-input-button label="Speak crop name" (transcript)="onCropName($event)" />
+ */
+@Component({
+  selector: 'smc-voice-input-button',
+  standalone: true,
+  imports: [MatButtonModule, MatIconModule, MatTooltipModule, TranslatePipe],
+  templateUrl: './voice-input-button.component.html',
+  styleUrl: './voice-input-button.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class VoiceInputButtonComponent {
+  private readonly voiceInput = inject(VoiceInputService);
+  private readonly translation = inject(TranslationService);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly destroyRef = inject(DestroyRef);
+
+  /** Accessible label, e.g. "Speak crop name" */
+  readonly label = input<string>('');
+
+  /** Recognition language; defaults to the UI language */
+  readonly lang = input<string | undefined>(undefined);
+
+  /** Final transcript of what was said */
+  readonly transcript = output<string>();
+
+  readonly isSupported = this.voiceInput.isSupported;
+  readonly listening = signal(false);
+
+  toggle(): void {
+    if (this.listening()) {
+      this.voiceInput.stop();
+      return;
+    }
+
+    this.listening.set(true);
+    this.voiceInput
+      .listen({ lang: this.lang() })
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (text) => this.transcript.emit(text),
+        error: (error: VoiceInputError) => {
+          this.listening.set(false);
+          this.showError(error);
+        },
+        complete: () => this.listening.set(false),
+      });
+  }
+
+  private showError(error: VoiceInputError): void {
+    if (error.code === 'aborted') return;
+
+    const key =
+      error.code === 'not-allowed'
+        ? 'voice.error.notAllowed'
+        : error.code === 'no-speech'
+          ? 'voice.error.noSpeech'
+          : 'voice.error.failed';
+    this.snackBar.open(this.translation.translate(key), this.translation.translate('common.close'), {
+      duration: 4000,
+    });
+  }
+}
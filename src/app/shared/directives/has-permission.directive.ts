@@ -0,0 +1,57 @@
+/**
+ * Has Permission Directive
+ * ========================
+ * Renders its template only when the signed-in user holds every listed
+ * permission, and an optional else template otherwise. Updates when the
+ * user or the role-permission matrix changes.
+ *
+ * Usage:
+ * <button *smcHasPermission="'disputes:resolve'">Resolve</button>
+ * <div *smcHasPermission="['reports:view', 'reports:export']; else readOnly">...</div>
+ */
+
+import {
+  Directive,
+  TemplateRef,
+  ViewContainerRef,
+  computed,
+  effect,
+  inject,
+  input,
+} from '@angular/core';
+import { PermissionService } from '@core/services/permission.service';
+import { Permission } from '@domain/models/permission.model';
+
+@Directive({
+  selector: '[smcHasPermission]',
+  standalone: true,
+})
+export class HasPermissionDirective {
+  private readonly templateRef = inject(TemplateRef<unknown>);
+  private readonly viewContainer = inject(ViewContainerRef);
+  private readonly permissionService = inject(PermissionService);
+
+  /** Permission, or permissions that are all required */
+  readonly smcHasPermission = input.required<Permission | readonly Permission[]>();
+
+  /** Shown instead when a permission is missing */
+  readonly smcHasPermissionElse = input<TemplateRef<unknown> | null>(null);
+
+  private readonly allowed = computed(() => {
+    const required = this.smcHasPermission();
+    return this.permissionService.hasAll(typeof required === 'string' ? [required] : required);
+  });
+
+  private shown: TemplateRef<unknown> | null = null;
+
+  constructor() {
+    effect(() => {
+      const template = this.allowed() ? this.templateRef : this.smcHasPermissionElse();
+      if (template === this.shown) return;
+
+      this.viewContainer.clear();
+      if (template) this.viewContainer.createEmbeddedView(template);
+      this.shown = template;
+    });
+  }
+}
@@ -6,4 +6,4 @@
 
 export * from './focus-trap.directive';
 export * from './announce.directive';
-
+export * from './has-permission.directive';
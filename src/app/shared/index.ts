@@ -13,5 +13,8 @@ export * from './components';
 // Directives
 export * from './directives';
 
+// Pipes
+export * from './pipes';
+
 // Services
 export * from './services';
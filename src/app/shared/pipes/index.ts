@@ -0,0 +1,10 @@
+/**
+ * Shared Pipes Public API
+ * =======================
+ * Export translation and locale formatting pipes.
+ */
+
+export * from './translate.pipe';
+export * from './locale-number.pipe';
+export * from './locale-currency.pipe';
+export * from './locale-date.pipe';
@@ -0,0 +1,28 @@
+/**
+ * Locale Currency Pipe
+ * ====================
+ * Formats a rupee amount for the active language.
+ *
+ * Usage:
+ * {{ price | localeCurrency }}            → ₹12,34,567
+ * {{ revenue | localeCurrency: 'compact' }} → ₹12.35 L
+ */
+
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { TranslationService } from '@core/services/translation.service';
+
+@Pipe({
+  name: 'localeCurrency',
+  standalone: true,
+  pure: false,
+})
+export class LocaleCurrencyPipe implements PipeTransform {
+  private readonly translation = inject(TranslationService);
+
+  transform(value: number | null | undefined, display: 'full' | 'compact' = 'full'): string {
+    if (value === null || value === undefined) return '';
+    return display === 'compact'
+      ? this.translation.formatCompactCurrency(value)
+      : this.translation.formatCurrency(value);
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Locale Date Pipe
+ * ================
+ * Formats a date for the active language.
+ *
+ * Usage:
+ * {{ order.createdAt | localeDate }}
+ * {{ bid.expiresAt | localeDate: 'short' : true }}
+ * {{ eta | localeDate: 'time' }}
+ */
+
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { TranslationService, DateStyle, DatePattern } from '@core/services/translation.service';
+
+@Pipe({
+  name: 'localeDate',
+  standalone: true,
+  pure: false,
+})
+export class LocaleDatePipe implements PipeTransform {
+  private readonly translation = inject(TranslationService);
+
+  transform(
+    value: Date | string | number | null | undefined,
+    style: DateStyle | DatePattern = 'medium',
+    withTime = false
+  ): string {
+    if (value === null || value === undefined) return '';
+    return this.translation.formatDate(value, style, withTime);
+  }
+}
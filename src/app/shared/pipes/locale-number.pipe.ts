@@ -0,0 +1,25 @@
+/**
+ * Locale Number Pipe
+ * ==================
+ * Formats a number for the active language with lakh/crore grouping.
+ *
+ * Usage:
+ * {{ quantity | localeNumber }}
+ */
+
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { TranslationService } from '@core/services/translation.service';
+
+@Pipe({
+  name: 'localeNumber',
+  standalone: true,
+  pure: false,
+})
+export class LocaleNumberPipe implements PipeTransform {
+  private readonly translation = inject(TranslationService);
+
+  transform(value: number | null | undefined, maximumFractionDigits = 2): string {
+    if (value === null || value === undefined) return '';
+    return this.translation.formatNumber(value, { maximumFractionDigits });
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Translate Pipe
+ * ==============
+ * Translates a key into the active UI language.
+ *
+ * Usage:
+ * {{ 'nav.orders' | translate }}
+ * {{ 'connectivity.pending' | translate: { count: pendingCount() } }}
+ */
+
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import {
+  TranslationService,
+  TranslatableKey,
+  TranslationParams,
+} from '@core/services/translation.service';
+
+@Pipe({
+  name: 'translate',
+  standalone: true,
+  // Re-evaluated when the language changes
+  pure: false,
+})
+export class TranslatePipe implements PipeTransform {
+  private readonly translation = inject(TranslationService);
+
+  transform(key: TranslatableKey, params?: TranslationParams): string {
+    return this.translation.translate(key, params);
+  }
+}
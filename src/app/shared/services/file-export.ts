@@ -0,0 +1,37 @@
+/**
+ * File Export
+ * ===========
+ * Helpers for files generated in the browser, such as CSV reports.
+ */
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+/** Leading characters spreadsheets read as a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Build RFC 4180 CSV. Starts with a BOM so Excel reads UTF-8 (₹, Indic scripts).
+ * Text that would start a formula is prefixed with `'` so user-entered names
+ * can't run in the spreadsheet; numbers are left as they are.
+ */
+export function toCsv(rows: CsvCell[][]): string {
+  const escape = (cell: CsvCell) => {
+    let value = cell === null || cell === undefined ? '' : String(cell);
+    if (typeof cell === 'string' && FORMULA_PREFIX.test(value)) value = `'${value}`;
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  };
+  return '\uFEFF' + rows.map((row) => row.map(escape).join(',')).join('\r\n');
+}
+
+/**
+ * Save generated content as a file
+ */
+export function downloadFile(content: BlobPart | Blob, filename: string, type: string): void {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,173 @@
+/**
+ * File Import
+ * ===========
+ * Reads tabular files chosen by the user (CSV or Excel .xlsx) into rows of
+ * strings. The counterpart of file-export.
+ */
+
+import { readZip, ZipEntry } from './zip-reader';
+
+export class SpreadsheetReadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpreadsheetReadError';
+  }
+}
+
+/** File types `readSpreadsheet` accepts, for `<input accept>` */
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * Read the first sheet of a CSV or .xlsx file. Blank rows are dropped.
+ */
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  const name = file.name.toLowerCase();
+  const rows = name.endsWith('.xlsx')
+    ? await readXlsx(file)
+    : name.endsWith('.csv') || file.type === 'text/csv'
+      ? parseCsv(await file.text())
+      : null;
+
+  if (!rows) throw new SpreadsheetReadError('Choose a .csv or .xlsx file');
+  return rows.filter((row) => row.some((cell) => cell.trim() !== ''));
+}
+
+/**
+ * Parse RFC 4180 CSV. The delimiter (comma, semicolon or tab) is taken
+ * from the first line, since Excel uses semicolons in some locales.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Date from an Excel serial day number (days since 1899-12-30), as found
+ * in .xlsx date cells
+ */
+export function excelSerialToDate(serial: number): Date {
+  const utc = Date.UTC(1899, 11, 30) + Math.round(serial * 24 * 60 * 60 * 1000);
+  const date = new Date(utc);
+  return new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+// ============================================
+// Private Helpers
+// ============================================
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map((d) => [d, firstLine.split(d).length] as const);
+  return counts.reduce((best, current) => (current[1] > best[1] ? current : best))[0];
+}
+
+async function readXlsx(file: File): Promise<string[][]> {
+  const entries = new Map<string, ZipEntry>();
+  for (const entry of await readZip(file)) entries.set(entry.name, entry);
+
+  const readXml = async (path: string): Promise<Document | null> => {
+    const entry = entries.get(path);
+    return entry ? new DOMParser().parseFromString(await (await entry.blob()).text(), 'application/xml') : null;
+  };
+
+  const workbook = await readXml('xl/workbook.xml');
+  const rels = await readXml('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook?.getElementsByTagName('sheet')[0];
+  if (!workbook || !rels || !firstSheet) throw new SpreadsheetReadError('This is not an Excel workbook');
+
+  const relId = firstSheet.getAttribute('r:id');
+  const target = Array.from(rels.getElementsByTagName('Relationship'))
+    .find((rel) => rel.getAttribute('Id') === relId)
+    ?.getAttribute('Target');
+  if (!target) throw new SpreadsheetReadError('The workbook has no sheets');
+
+  const sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  const sheet = await readXml(sheetPath);
+  if (!sheet) throw new SpreadsheetReadError('The first sheet could not be read');
+
+  const sharedStrings = Array.from((await readXml('xl/sharedStrings.xml'))?.getElementsByTagName('si') ?? []).map(
+    textContent
+  );
+
+  return Array.from(sheet.getElementsByTagName('row')).map((rowElement) => {
+    const row: string[] = [];
+    for (const cellElement of Array.from(rowElement.getElementsByTagName('c'))) {
+      const column = columnIndex(cellElement.getAttribute('r')) ?? row.length;
+      while (row.length < column) row.push('');
+      row[column] = cellValue(cellElement, sharedStrings);
+    }
+    return row;
+  });
+}
+
+function cellValue(cell: Element, sharedStrings: string[]): string {
+  const type = cell.getAttribute('t');
+  const value = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(value)] ?? '';
+    case 'inlineStr':
+      return textContent(cell.getElementsByTagName('is')[0]);
+    case 'b':
+      return value === '1' ? 'TRUE' : 'FALSE';
+    case 'e':
+      return '';
+    default:
+      return value;
+  }
+}
+
+/** Text of a string item, leaving out phonetic runs */
+function textContent(element: Element | undefined): string {
+  if (!element) return '';
+  return Array.from(element.getElementsByTagName('t'))
+    .filter((t) => t.parentElement?.tagName !== 'rPh')
+    .map((t) => t.textContent ?? '')
+    .join('');
+}
+
+/** "C12" → 2 */
+function columnIndex(reference: string | null): number | null {
+  const letters = reference?.match(/^[A-Z]+/)?.[0];
+  if (!letters) return null;
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
@@ -0,0 +1,56 @@
+/**
+ * Geo Distance
+ * ============
+ * Great-circle distances between coordinates.
+ */
+
+export interface LatLngLike {
+  readonly latitude: number;
+  readonly longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Haversine distance in kilometres
+ */
+export function distanceKm(from: LatLngLike, to: LatLngLike): number {
+  const toRad = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRad(to.latitude - from.latitude);
+  const dLng = toRad(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(from.latitude)) * Math.cos(toRad(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Length of a path through the given points, in kilometres
+ */
+export function pathLengthKm(points: readonly LatLngLike[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += distanceKm(points[i - 1], points[i]);
+  }
+  return total;
+}
+
+/** Rectangle on the map, in degrees */
+export interface GeoBounds {
+  readonly south: number;
+  readonly west: number;
+  readonly north: number;
+  readonly east: number;
+}
+
+/**
+ * Whether a point lies inside a bounding box
+ */
+export function isWithinBounds(point: LatLngLike, bounds: GeoBounds): boolean {
+  return (
+    point.latitude >= bounds.south &&
+    point.latitude <= bounds.north &&
+    point.longitude >= bounds.west &&
+    point.longitude <= bounds.east
+  );
+}
@@ -6,3 +6,12 @@
 
 export * from './screen-reader.service';
 
+export * from './voice-input.service';
+export * from './spoken-quantity';
+export * from './file-export';
+export * from './geo-distance';
+export * from './zip-reader';
+export * from './file-import';
+export * from './zip-writer';
+export * from './xlsx-export';
+export * from './photo-uploads';
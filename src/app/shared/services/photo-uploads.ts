@@ -0,0 +1,100 @@
+import { DestroyRef, inject, signal, computed } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { filter } from 'rxjs';
+import { MediaUploadService, MediaUploadResponse } from '@core/services/media-upload.service';
+import { ConnectivityService } from '@infrastructure/services/connectivity.service';
+
+/** A picked photo, shown from a local preview while it uploads */
+export interface PhotoUpload {
+  readonly id: string;
+  readonly previewUrl: string;
+  readonly fileName: string;
+  readonly isUploading: boolean;
+  readonly response?: MediaUploadResponse;
+}
+
+/** A photo that finished uploading */
+export interface UploadedPhoto {
+  readonly url: string;
+  readonly thumbnailUrl?: string;
+  readonly fileName: string;
+}
+
+/**
+ * Photo Uploads
+ * =============
+ * Photos attached to a form, each uploaded as soon as it is picked. Create
+ * it in a component field so uploads stop and previews are revoked when the
+ * component is destroyed, however a dialog is closed.
+ */
+export class PhotoUploads {
+  private readonly mediaUploadService = inject(MediaUploadService);
+  private readonly connectivity = inject(ConnectivityService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  private readonly _uploads = signal<PhotoUpload[]>([]);
+  private readonly _error = signal<string | null>(null);
+
+  readonly uploads = this._uploads.asReadonly();
+  readonly error = this._error.asReadonly();
+  readonly isUploading = computed(() => this._uploads().some((u) => u.isUploading));
+  readonly canAddMore = computed(() => this._uploads().length < this.max);
+
+  constructor(private readonly max: number) {
+    this.destroyRef.onDestroy(() => this._uploads().forEach((u) => URL.revokeObjectURL(u.previewUrl)));
+  }
+
+  /** Upload the files picked in a file input, up to the limit */
+  add(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const files = Array.from(input.files ?? []).slice(0, this.max - this._uploads().length);
+    input.value = '';
+    this._error.set(null);
+
+    // Uploads are not queued, so a photo picked offline could never be sent
+    if (files.length > 0 && this.connectivity.isOffline()) {
+      this._error.set('Photos cannot be attached while offline');
+      return;
+    }
+
+    files.forEach((file) => this.upload(file));
+  }
+
+  remove(id: string): void {
+    const upload = this._uploads().find((u) => u.id === id);
+    if (upload) URL.revokeObjectURL(upload.previewUrl);
+    this._uploads.update((uploads) => uploads.filter((u) => u.id !== id));
+  }
+
+  /** Photos that finished uploading, in the order they were picked */
+  uploaded(): UploadedPhoto[] {
+    return this._uploads()
+      .filter((u): u is PhotoUpload & { response: MediaUploadResponse } => !!u.response)
+      .map((u) => ({ url: u.response.url, thumbnailUrl: u.response.thumbnailUrl, fileName: u.fileName }));
+  }
+
+  private upload(file: File): void {
+    const id = `photo_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    this._uploads.update((uploads) => [
+      ...uploads,
+      { id, previewUrl: URL.createObjectURL(file), fileName: file.name, isUploading: true },
+    ]);
+
+    this.mediaUploadService
+      .uploadFile(file)
+      .pipe(
+        filter((response): response is MediaUploadResponse => !!response),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe({
+        next: (response) =>
+          this._uploads.update((uploads) =>
+            uploads.map((u) => (u.id === id ? { ...u, isUploading: false, response } : u))
+          ),
+        error: (error) => {
+          this._error.set(error?.message || `Failed to upload ${file.name}`);
+          this.remove(id);
+        },
+      });
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Spoken Quantity Parsing
+ * =======================
+ * Turns speech transcripts such as "paanch quintal", "डेढ़ सौ किलो" or
+ * "2 thousand 500" into numbers and crop units.
+ *
+ * Recognizers usually return digits for numbers; the word tables cover
+ * English, romanized Hindi/Marathi and Devanagari when they don't.
+ */
+
+/** Unit values match `CropService.units` */
+export type SpokenUnit = 'kg' | 'quintal' | 'ton' | 'dozen' | 'piece' | 'bundle';
+
+export interface SpokenQuantity {
+  readonly quantity: number | null;
+  readonly unit: SpokenUnit | null;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  // English
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50,
+  sixty: 60, seventy: 70, eighty: 80, ninety: 90, half: 0.5,
+
+  // Romanized Hindi / Marathi
+  ek: 1, do: 2, don: 2, teen: 3, tin: 3, char: 4, chaar: 4, panch: 5, paanch: 5, paach: 5,
+  chhe: 6, che: 6, chah: 6, saha: 6, saat: 7, sat: 7, aath: 8, aat: 8, nau: 9, das: 10,
+  daha: 10, gyarah: 11, barah: 12, terah: 13, chaudah: 14, pandrah: 15, solah: 16,
+  satrah: 17, atharah: 18, unnis: 19, bees: 20, bis: 20, pachees: 25, pachchis: 25,
+  tees: 30, chalis: 40, chaalis: 40, pachas: 50, pachaas: 50, saath: 60, sattar: 70,
+  assi: 80, nabbe: 90, aadha: 0.5, adha: 0.5, dedh: 1.5, dhai: 2.5, dhaai: 2.5,
+
+  // Devanagari
+  'शून्य': 0, 'एक': 1, 'दो': 2, 'दोन': 2, 'तीन': 3, 'चार': 4, 'पांच': 5, 'पाँच': 5, 'पाच': 5,
+  'छह': 6, 'छः': 6, 'सहा': 6, 'सात': 7, 'आठ': 8, 'नौ': 9, 'नऊ': 9, 'दस': 10, 'दहा': 10,
+  'ग्यारह': 11, 'बारह': 12, 'तेरह': 13, 'चौदह': 14, 'पंद्रह': 15, 'सोलह': 16, 'सत्रह': 17,
+  'अठारह': 18, 'उन्नीस': 19, 'बीस': 20, 'पच्चीस': 25, 'तीस': 30, 'चालीस': 40, 'पचास': 50,
+  'साठ': 60, 'सत्तर': 70, 'अस्सी': 80, 'नब्बे': 90, 'आधा': 0.5, 'डेढ़': 1.5, 'ढाई': 2.5,
+};
+
+const MULTIPLIERS: Record<string, number> = {
+  hundred: 100, sau: 100, shambhar: 100, 'सौ': 100, 'शंभर': 100,
+  thousand: 1000, hazar: 1000, hazaar: 1000, hajar: 1000, hajaar: 1000, 'हज़ार': 1000, 'हजार': 1000,
+  lakh: 1e5, lac: 1e5, 'लाख': 1e5,
+  crore: 1e7, karod: 1e7, 'करोड़': 1e7, 'कोटी': 1e7,
+};
+
+const UNIT_WORDS: Record<string, SpokenUnit> = {
+  kg: 'kg', kgs: 'kg', kilo: 'kg', kilos: 'kg', kilogram: 'kg', kilograms: 'kg',
+  'किलो': 'kg', 'किलोग्राम': 'kg',
+  quintal: 'quintal', quintals: 'quintal', kwintal: 'quintal', kuintal: 'quintal',
+  'क्विंटल': 'quintal', 'क्विन्टल': 'quintal',
+  ton: 'ton', tons: 'ton', tonne: 'ton', tonnes: 'ton', 'टन': 'ton',
+  dozen: 'dozen', dozens: 'dozen', darjan: 'dozen', 'दर्जन': 'dozen', 'डझन': 'dozen',
+  piece: 'piece', pieces: 'piece', pcs: 'piece', nag: 'piece', 'नग': 'piece',
+  bundle: 'bundle', bundles: 'bundle', gaddi: 'bundle', 'गड्डी': 'bundle', 'गठ्ठा': 'bundle',
+};
+
+const DEVANAGARI_DIGITS = /[०-९]/g;
+
+/**
+ * Parse the first number spoken in a transcript, or null if none was.
+ * Reading stops at the first word after it that isn't part of a number:
+ *
+ *   parseSpokenNumber('dedh sau kilo')               // 150
+ *   parseSpokenNumber('paanch quintal 2000 rupaye')  // 5
+ */
+export function parseSpokenNumber(text: string): number | null {
+  let total = 0;
+  let current = 0;
+  let found = false;
+
+  for (const token of tokenize(text)) {
+    const numeric = Number(token);
+    const word = lookup(NUMBER_WORDS, token);
+    const multiplier = lookup(MULTIPLIERS, token);
+
+    if (!isNaN(numeric)) {
+      current += numeric;
+      found = true;
+    } else if (word !== undefined) {
+      current += word;
+      found = true;
+    } else if (multiplier !== undefined) {
+      // "dedh sau" = 150, "paanch hazaar" = 5000, a bare "sau" = 100
+      if (multiplier === 100) {
+        current = (current || 1) * multiplier;
+      } else {
+        total += (current || 1) * multiplier;
+        current = 0;
+      }
+      found = true;
+    } else if (found) {
+      break;
+    }
+  }
+
+  return found ? total + current : null;
+}
+
+/**
+ * Parse a spoken quantity and unit, e.g. "paanch quintal" → 5 quintal
+ */
+export function parseSpokenQuantity(text: string): SpokenQuantity {
+  const unit = tokenize(text)
+    .map((token) => lookup(UNIT_WORDS, token))
+    .find((match) => match !== undefined);
+
+  return {
+    quantity: parseSpokenNumber(text),
+    unit: unit ?? null,
+  };
+}
+
+function lookup<T>(table: Record<string, T>, token: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(table, token) ? table[token] : undefined;
+}
+
+function tokenize(text: string): string[] {
+  return (
+    text
+      .toLowerCase()
+      .replace(DEVANAGARI_DIGITS, (digit) => String(digit.charCodeAt(0) - 0x0966))
+      // Digit grouping commas and the rupee sign carry no meaning here
+      .replace(/(\d),(?=\d)/g, '$1')
+      .replace(/₹/g, ' ')
+      // Split "5kg" and "kg5" into separate tokens
+      .replace(/(\d)([^\d\s.])/g, '$1 $2')
+      .replace(/([^\d\s.])(\d)/g, '$1 $2')
+      .split(/[\s,।]+/)
+      .map((token) => token.replace(/^[.\-]+|[.\-?!]+$/g, ''))
+      .filter(Boolean)
+  );
+}
@@ -0,0 +1,181 @@
+/**
+ * Voice Input Service
+ * ===================
+ * Wraps the browser Web Speech API for dictating into forms and search.
+ * Recognition uses the active UI language. Where speech recognition is
+ * unavailable `isSupported` is false and `listen()` errors immediately.
+ */
+
+import { Injectable, NgZone, inject, signal } from '@angular/core';
+import { Observable } from 'rxjs';
+import { TranslationService } from '@core/services/translation.service';
+
+/** Why a voice session ended without a result */
+export type VoiceInputErrorCode =
+  | 'unsupported'
+  | 'not-allowed'
+  | 'no-speech'
+  | 'network'
+  | 'aborted'
+  | 'unknown';
+
+export class VoiceInputError extends Error {
+  constructor(readonly code: VoiceInputErrorCode) {
+    super(`Voice input failed: ${code}`);
+    this.name = 'VoiceInputError';
+  }
+}
+
+export interface VoiceInputOptions {
+  /** BCP 47 language; defaults to the UI language */
+  lang?: string;
+}
+
+// Web Speech API typings are not part of lib.dom
+interface SpeechRecognitionAlternative {
+  readonly transcript: string;
+}
+interface SpeechRecognitionResultEvent extends Event {
+  readonly results: ArrayLike<ArrayLike<SpeechRecognitionAlternative> & { readonly isFinal: boolean }>;
+}
+interface SpeechRecognitionErrorEvent extends Event {
+  readonly error: string;
+}
+interface SpeechRecognition extends EventTarget {
+  lang: string;
+  interimResults: boolean;
+  maxAlternatives: number;
+  continuous: boolean;
+  onresult: ((event: SpeechRecognitionResultEvent) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+type SpeechRecognitionConstructor = new () => SpeechRecognition;
+
+function getRecognitionConstructor(): SpeechRecognitionConstructor | null {
+  if (typeof window === 'undefined') return null;
+
+  const speechWindow = window as Window & {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition ?? null;
+}
+
+@Injectable({ providedIn: 'root' })
+export class VoiceInputService {
+  private readonly zone = inject(NgZone);
+  private readonly translation = inject(TranslationService);
+
+  private readonly Recognition = getRecognitionConstructor();
+
+  private active: SpeechRecognition | null = null;
+
+  /** Browser supports speech recognition */
+  readonly isSupported = this.Recognition !== null;
+
+  /** A voice session is in progress */
+  readonly isListening = signal(false);
+
+  /** Words heard so far in the current session */
+  readonly interimTranscript = signal('');
+
+  /**
+   * Listen for a single utterance. Emits the final transcript and completes.
+   * Starting a new session stops any session already in progress.
+   */
+  listen(options: VoiceInputOptions = {}): Observable<string> {
+    return new Observable<string>((subscriber) => {
+      if (!this.Recognition) {
+        subscriber.error(new VoiceInputError('unsupported'));
+        return;
+      }
+
+      this.stop();
+
+      const recognition = new this.Recognition();
+      recognition.lang = options.lang ?? `${this.translation.language()}-IN`;
+      recognition.interimResults = true;
+      recognition.maxAlternatives = 1;
+      recognition.continuous = false;
+
+      let finalTranscript = '';
+
+      // Speech events fire outside Angular's zone
+      recognition.onresult = (event) =>
+        this.zone.run(() => {
+          const results = Array.from(event.results);
+          finalTranscript = results
+            .filter((r) => r.isFinal)
+            .map((r) => r[0].transcript)
+            .join(' ')
+            .trim();
+          this.interimTranscript.set(results.map((r) => r[0].transcript).join(' '));
+        });
+
+      recognition.onerror = (event) =>
+        this.zone.run(() => subscriber.error(new VoiceInputError(this.toErrorCode(event.error))));
+
+      recognition.onend = () =>
+        this.zone.run(() => {
+          this.reset(recognition);
+          if (finalTranscript) {
+            subscriber.next(finalTranscript);
+            subscriber.complete();
+          } else if (!subscriber.closed) {
+            subscriber.error(new VoiceInputError('no-speech'));
+          }
+        });
+
+      this.active = recognition;
+      this.isListening.set(true);
+      this.interimTranscript.set('');
+      recognition.start();
+
+      return () => {
+        if (this.active === recognition) {
+          recognition.abort();
+          this.reset(recognition);
+        }
+      };
+    });
+  }
+
+  /**
+   * Stop the current session, keeping what was heard so far
+   */
+  stop(): void {
+    this.active?.stop();
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private reset(recognition: SpeechRecognition): void {
+    if (this.active !== recognition) return;
+
+    this.active = null;
+    this.isListening.set(false);
+    this.interimTranscript.set('');
+  }
+
+  private toErrorCode(error: string): VoiceInputErrorCode {
+    switch (error) {
+      case 'not-allowed':
+      case 'service-not-allowed':
+        return 'not-allowed';
+      case 'no-speech':
+        return 'no-speech';
+      case 'network':
+        return 'network';
+      case 'aborted':
+        return 'aborted';
+      default:
+        return 'unknown';
+    }
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * XLSX Export
+ * ===========
+ * Writes simple Excel workbooks in the browser: text and number cells, bold
+ * rows, column widths and PNG images (such as charts) placed on a sheet.
+ * Just enough of SpreadsheetML for reports; no formulas or cell styling
+ * beyond bold.
+ */
+
+import { createZip, ZipFileInput } from './zip-writer';
+
+export type XlsxCell = string | number | null | undefined;
+
+export interface XlsxImage {
+  /** PNG as a data URL, e.g. from `canvas.toDataURL()` */
+  readonly dataUrl: string;
+  /** Zero-based cell the top-left corner sits on */
+  readonly row: number;
+  readonly col: number;
+  /** Size in pixels */
+  readonly width: number;
+  readonly height: number;
+}
+
+export interface XlsxSheet {
+  /** Tab name; trimmed to Excel's 31 characters */
+  readonly name: string;
+  readonly rows: XlsxCell[][];
+  /** Zero-based indexes of rows to set in bold, e.g. headers */
+  readonly boldRows?: readonly number[];
+  /** Column widths in characters */
+  readonly columnWidths?: readonly number[];
+  readonly images?: readonly XlsxImage[];
+}
+
+export const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/** Pixels to EMU, the unit drawings are measured in */
+const EMU_PER_PIXEL = 9525;
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const NS_MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const NS_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_PKG_REL = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+/**
+ * Build an .xlsx workbook
+ */
+export function buildXlsx(sheets: XlsxSheet[]): Blob {
+  const files: ZipFileInput[] = [];
+  const overrides: string[] = [];
+  let imageCount = 0;
+
+  sheets.forEach((sheet, index) => {
+    const n = index + 1;
+    const hasImages = (sheet.images?.length ?? 0) > 0;
+    files.push({ name: `xl/worksheets/sheet${n}.xml`, data: sheetXml(sheet, hasImages) });
+    overrides.push(override(`/xl/worksheets/sheet${n}.xml`, 'spreadsheetml.worksheet+xml'));
+
+    if (!hasImages) return;
+
+    const imageRels: string[] = [];
+    sheet.images!.forEach((image, i) => {
+      imageCount++;
+      files.push({ name: `xl/media/image${imageCount}.png`, data: dataUrlBytes(image.dataUrl) });
+      imageRels.push(relationship(`rId${i + 1}`, 'image', `../media/image${imageCount}.png`));
+    });
+
+    files.push(
+      {
+        name: `xl/worksheets/_rels/sheet${n}.xml.rels`,
+        data: relationships([relationship('rId1', 'drawing', `../drawings/drawing${n}.xml`)]),
+      },
+      { name: `xl/drawings/drawing${n}.xml`, data: drawingXml(sheet.images!) },
+      { name: `xl/drawings/_rels/drawing${n}.xml.rels`, data: relationships(imageRels) }
+    );
+    overrides.push(override(`/xl/drawings/drawing${n}.xml`, 'drawing+xml'));
+  });
+
+  const names = uniqueSheetNames(sheets.map((sheet) => sheet.name));
+
+  files.push(
+    {
+      name: '[Content_Types].xml',
+      data:
+        XML_HEADER +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Default Extension="png" ContentType="image/png"/>' +
+        override('/xl/workbook.xml', 'spreadsheetml.sheet.main+xml') +
+        override('/xl/styles.xml', 'spreadsheetml.styles+xml') +
+        overrides.join('') +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      data: relationships([relationship('rId1', 'officeDocument', 'xl/workbook.xml')]),
+    },
+    {
+      name: 'xl/workbook.xml',
+      data:
+        XML_HEADER +
+        `<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_REL}"><sheets>` +
+        names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+        '</sheets></workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: relationships([
+        ...sheets.map((_, i) => relationship(`rId${i + 1}`, 'worksheet', `worksheets/sheet${i + 1}.xml`)),
+        relationship(`rId${sheets.length + 1}`, 'styles', 'styles.xml'),
+      ]),
+    },
+    { name: 'xl/styles.xml', data: STYLES_XML }
+  );
+
+  return createZip(files, XLSX_MIME);
+}
+
+// ============================================
+// Parts
+// ============================================
+
+/** Style 0 is the default, style 1 bold */
+const STYLES_XML =
+  XML_HEADER +
+  `<styleSheet xmlns="${NS_MAIN}">` +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '</styleSheet>';
+
+function sheetXml(sheet: XlsxSheet, hasImages: boolean): string {
+  const bold = new Set(sheet.boldRows ?? []);
+  const cols = sheet.columnWidths?.length
+    ? '<cols>' +
+      sheet.columnWidths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('') +
+      '</cols>'
+    : '';
+
+  const rows = sheet.rows
+    .map((cells, r) => {
+      const style = bold.has(r) ? ' s="1"' : '';
+      const xml = cells
+        .map((cell, c) => {
+          const ref = `${columnName(c)}${r + 1}`;
+          if (cell === null || cell === undefined || cell === '') return '';
+          if (typeof cell === 'number' && Number.isFinite(cell)) return `<c r="${ref}"${style}><v>${cell}</v></c>`;
+          return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(cell))}</t></is></c>`;
+        })
+        .join('');
+      return `<row r="${r + 1}">${xml}</row>`;
+    })
+    .join('');
+
+  return (
+    XML_HEADER +
+    `<worksheet xmlns="${NS_MAIN}" xmlns:r="${NS_REL}">${cols}<sheetData>${rows}</sheetData>` +
+    (hasImages ? '<drawing r:id="rId1"/>' : '') +
+    '</worksheet>'
+  );
+}
+
+function drawingXml(images: readonly XlsxImage[]): string {
+  const anchors = images.map(
+    (image, i) =>
+      '<xdr:oneCellAnchor>' +
+      `<xdr:from><xdr:col>${image.col}</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>${image.row}</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:from>` +
+      `<xdr:ext cx="${Math.round(image.width * EMU_PER_PIXEL)}" cy="${Math.round(image.height * EMU_PER_PIXEL)}"/>` +
+      '<xdr:pic>' +
+      `<xdr:nvPicPr><xdr:cNvPr id="${i + 2}" name="Picture ${i + 1}"/><xdr:cNvPicPr/></xdr:nvPicPr>` +
+      `<xdr:blipFill><a:blip r:embed="rId${i + 1}"/><a:stretch><a:fillRect/></a:stretch></xdr:blipFill>` +
+      '<xdr:spPr><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></xdr:spPr>' +
+      '</xdr:pic><xdr:clientData/></xdr:oneCellAnchor>'
+  );
+
+  return (
+    XML_HEADER +
+    '<xdr:wsDr xmlns:xdr="http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing" ' +
+    `xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="${NS_REL}">` +
+    anchors.join('') +
+    '</xdr:wsDr>'
+  );
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function override(partName: string, type: string): string {
+  return `<Override PartName="${partName}" ContentType="application/vnd.openxmlformats-officedocument.${type}"/>`;
+}
+
+function relationship(id: string, type: string, target: string): string {
+  return `<Relationship Id="${id}" Type="${NS_REL}/${type}" Target="${target}"/>`;
+}
+
+function relationships(items: string[]): string {
+  return `${XML_HEADER}<Relationships xmlns="${NS_PKG_REL}">${items.join('')}</Relationships>`;
+}
+
+/** 0 → A, 25 → Z, 26 → AA */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/** Excel rejects empty, duplicate, over-long names and some characters */
+function uniqueSheetNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((raw, i) => {
+    const base = (raw.replace(/[\\/?*[\]:]/g, ' ').trim() || `Sheet${i + 1}`).slice(0, 31);
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.slice(0, 28)} ${n}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function dataUrlBytes(dataUrl: string): Uint8Array {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
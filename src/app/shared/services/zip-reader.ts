@@ -0,0 +1,112 @@
+/**
+ * Zip Reader
+ * ==========
+ * Minimal reader for .zip archives (and formats built on them, like .xlsx).
+ * Stored and deflated entries are supported; inflating uses the browser's
+ * DecompressionStream. ZIP64 and encrypted archives are rejected.
+ */
+
+export interface ZipEntry {
+  /** Path inside the archive, with forward slashes */
+  readonly name: string;
+  /** Uncompressed size in bytes */
+  readonly size: number;
+  /** Uncompressed contents */
+  blob(): Promise<Blob>;
+}
+
+export class ZipReadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipReadError';
+  }
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * List the files in an archive. Directory entries are left out.
+ */
+export async function readZip(file: Blob): Promise<ZipEntry[]> {
+  const buffer = await file.arrayBuffer();
+  const view = new DataView(buffer);
+  const eocd = findEndOfCentralDirectory(view);
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new ZipReadError('Large (ZIP64) archives are not supported');
+  }
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new ZipReadError('The archive is damaged');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength)).replace(/\\/g, '/');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 0x1) throw new ZipReadError('Password-protected archives are not supported');
+
+    entries.push({
+      name,
+      size,
+      blob: () => readEntry(buffer, view, localOffset, method, compressedSize),
+    });
+  }
+
+  return entries;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const stop = Math.max(0, view.byteLength - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+  for (let offset = view.byteLength - EOCD_MIN_SIZE; offset >= stop; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) return offset;
+  }
+  throw new ZipReadError('Not a zip archive');
+}
+
+async function readEntry(
+  buffer: ArrayBuffer,
+  view: DataView,
+  localOffset: number,
+  method: number,
+  compressedSize: number
+): Promise<Blob> {
+  if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new ZipReadError('The archive is damaged');
+  }
+  // Sizes in the local header may be zero (data descriptor); the central directory's are used
+  const nameLength = view.getUint16(localOffset + 26, true);
+  const extraLength = view.getUint16(localOffset + 28, true);
+  const start = localOffset + 30 + nameLength + extraLength;
+  const data = new Blob([new Uint8Array(buffer, start, compressedSize)]);
+
+  switch (method) {
+    case METHOD_STORED:
+      return data;
+    case METHOD_DEFLATE:
+      return new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+    default:
+      throw new ZipReadError(`Unsupported compression method ${method}`);
+  }
+}
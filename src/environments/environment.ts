@@ -50,6 +50,15 @@ export const environment = {
     allowedImageTypes: ['image/jpeg', 'image/png', 'image/webp'],
   },
   
+  // Map tiles for delivery tracking; tiles are cached by the service worker
+  map: {
+    tileUrl: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: '&copy; OpenStreetMap contributors',
+    maxZoom: 18,
+    defaultCenter: [20.5937, 78.9629] as [number, number], // India
+    defaultZoom: 5,
+  },
+  
   // Cache configuration
   cache: {
     ttl: 300000, // 5 minutes
@@ -1,23 +1,23 @@
+const SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+
+/** Colour scale read from the `--smc-<name>-<shade>` RGB channel tokens */
+const themeScale = (name) =>
+  Object.fromEntries(
+    SHADES.map((shade) => [shade, `rgb(var(--smc-${name}-${shade}) / <alpha-value>)`])
+  );
+
 /** @type {import('tailwindcss').Config} */
 module.exports = {
   content: ["./src/**/*.{html,ts}"],
+  darkMode: ["selector", ".smc-theme-dark"],
   theme: {
     extend: {
       colors: {
-        // Mandi-inspired earthy palette
-        primary: {
-          50: "#f0fdf4",
-          100: "#dcfce7",
-          200: "#bbf7d0",
-          300: "#86efac",
-          400: "#4ade80",
-          500: "#22c55e",
-          600: "#16a34a",
-          700: "#15803d",
-          800: "#166534",
-          900: "#14532d",
-          950: "#052e16",
-        },
+        // Mandi-inspired earthy palette. Primary, gray and surface follow
+        // the active theme (smc-theme-* in styles.scss)
+        primary: themeScale("green"),
+        gray: themeScale("gray"),
+        surface: "rgb(var(--smc-surface) / <alpha-value>)",
         accent: {
           50: "#fffbeb",
           100: "#fef3c7",